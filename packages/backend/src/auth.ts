@@ -0,0 +1,172 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { createModuleLogger, getConfigManager } from '@wqbot/core'
+import { getApiKeyStore, scopeAllows } from '@wqbot/storage'
+import type { ApiKeyScope, AuthIdentity } from '@wqbot/storage'
+import type { ApiResponse } from './types.js'
+
+const logger = createModuleLogger('auth')
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    auth?: AuthIdentity
+  }
+}
+
+// 无需认证的接口
+const PUBLIC_PATHS = new Set(['/api/health'])
+
+// 任何方法都需要 admin（包含密钥、配置等敏感信息）
+const ADMIN_PREFIXES = ['/api/auth', '/api/config', '/api/settings', '/api/mcp']
+
+// 写操作只需 chat 权限（/mcp 为 WQBot 自身的 MCP 服务器端点）
+const CHAT_PREFIXES = ['/api/chat', '/v1/', '/mcp']
+
+function matchesPrefix(urlPath: string, prefixes: readonly string[]): boolean {
+  return prefixes.some(
+    (prefix) =>
+      urlPath === prefix || urlPath.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`)
+  )
+}
+
+/**
+ * 规范化请求路径：去掉查询串和分号参数，解码百分号编码，合并重复斜杠
+ * （与 Fastify 路由前的处理一致，避免 /api/%63onfig 之类的路径绕过前缀匹配）
+ */
+export function normalizePath(url: string): string {
+  let urlPath = url.split('?')[0] ?? url
+  urlPath = urlPath.split(';')[0] ?? urlPath
+  try {
+    urlPath = decodeURIComponent(urlPath)
+  } catch {
+    // 非法编码保持原样，Fastify 会返回 400
+  }
+  return urlPath.replace(/\/{2,}/g, '/')
+}
+
+/**
+ * 接口所需的最低权限，null 表示公开
+ * 未列出的接口：读请求需要 read，写请求需要 admin
+ */
+export function requiredScope(method: string, url: string): ApiKeyScope | null {
+  const urlPath = normalizePath(url)
+  if (method === 'OPTIONS' || PUBLIC_PATHS.has(urlPath)) return null
+
+  const isRead = method === 'GET' || method === 'HEAD'
+  if (matchesPrefix(urlPath, ADMIN_PREFIXES)) return 'admin'
+  if (matchesPrefix(urlPath, CHAT_PREFIXES)) return isRead ? 'read' : 'chat'
+  return isRead ? 'read' : 'admin'
+}
+
+export function isLoopbackHost(host: string): boolean {
+  const normalized = host.replace(/^\[|\]$/g, '').toLowerCase()
+  return (
+    normalized === 'localhost' ||
+    normalized === '::1' ||
+    normalized === '::ffff:127.0.0.1' ||
+    /^127(\.\d{1,3}){3}$/.test(normalized)
+  )
+}
+
+/**
+ * 本机来源（浏览器页面、Tauri WebView）；未启用认证时只接受这些跨域请求
+ */
+export function isLocalOrigin(origin: string): boolean {
+  if (origin === 'tauri://localhost') return true
+  try {
+    const { hostname } = new URL(origin)
+    return isLoopbackHost(hostname) || hostname === 'tauri.localhost'
+  } catch {
+    return false
+  }
+}
+
+// Authorization: Bearer 优先；GET 请求允许 ?access_token=（图片等由浏览器直接加载的资源）
+function extractToken(request: FastifyRequest): string | undefined {
+  const header = request.headers.authorization
+  if (header) {
+    const match = /^Bearer\s+(\S+)$/i.exec(header)
+    return match?.[1]
+  }
+  if (request.method === 'GET') {
+    const query = request.query as Record<string, unknown> | undefined
+    const token = query?.access_token
+    return typeof token === 'string' && token ? token : undefined
+  }
+  return undefined
+}
+
+function sendAuthError(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  status: 401 | 403,
+  message: string
+): FastifyReply {
+  if (status === 401) {
+    reply.header('WWW-Authenticate', 'Bearer')
+  }
+
+  // OpenAI 兼容接口返回 OpenAI 格式的错误
+  if (request.url.startsWith('/v1/')) {
+    return reply.status(status).send({
+      error: {
+        message,
+        type: status === 401 ? 'invalid_request_error' : 'permission_error',
+        code: status === 401 ? 'invalid_api_key' : 'insufficient_scope',
+      },
+    })
+  }
+
+  const response: ApiResponse = { success: false, error: message }
+  return reply.status(status).send(response)
+}
+
+/**
+ * 注册认证钩子
+ * 启用认证时校验 Bearer 令牌及权限；未启用时拒绝非本机来源的浏览器请求
+ */
+export function registerAuth(fastify: FastifyInstance): void {
+  const store = getApiKeyStore()
+
+  fastify.addHook('onRequest', async (request, reply) => {
+    // 优先使用匹配到的路由路径（如 /api/chat/conversations/:id），未匹配时用规范化后的 URL
+    const scope = requiredScope(request.method, request.routeOptions.url ?? request.url)
+    if (!scope) return
+
+    if (!store.isAuthEnabled()) {
+      const origin = request.headers.origin
+      if (origin && !isLocalOrigin(origin)) {
+        return sendAuthError(request, reply, 403, `拒绝来自 ${origin} 的请求：未启用认证`)
+      }
+      return
+    }
+
+    const token = extractToken(request)
+    if (!token) {
+      return sendAuthError(request, reply, 401, '缺少认证令牌')
+    }
+
+    const identity = store.verify(token)
+    if (!identity) {
+      logger.warn('认证失败', { method: request.method, url: request.url.split('?')[0] })
+      return sendAuthError(request, reply, 401, '认证令牌无效或已吊销')
+    }
+
+    if (!scopeAllows(identity.scope, scope)) {
+      return sendAuthError(request, reply, 403, `权限不足：需要 ${scope} 权限`)
+    }
+
+    request.auth = identity
+  })
+}
+
+/**
+ * 将管理员令牌写入本机文件（仅当前用户可读），供本机 CLI 自动读取
+ */
+export function writeAdminTokenFile(token: string): void {
+  const file = getConfigManager().getAdminTokenFile()
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, token + '\n', { mode: 0o600 })
+  fs.chmodSync(file, 0o600)
+}
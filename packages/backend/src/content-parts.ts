@@ -0,0 +1,150 @@
+import type { ContentPart } from '@wqbot/core'
+
+// 单个附件上限（base64 解码后）
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024
+
+export class ContentPartError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ContentPartError'
+  }
+}
+
+/**
+ * 解析 data URL（data:image/png;base64,...）
+ */
+export function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(url)
+  if (!match) return null
+  const [, mimeType, base64, payload] = match
+  const data = base64 ? payload! : Buffer.from(decodeURIComponent(payload!)).toString('base64')
+  return { mimeType: mimeType!, data }
+}
+
+function checkSize(data: string): void {
+  // base64 每 4 字符对应 3 字节
+  if ((data.length * 3) / 4 > MAX_ATTACHMENT_BYTES) {
+    throw new ContentPartError(`附件超过 ${MAX_ATTACHMENT_BYTES / 1024 / 1024}MB 限制`)
+  }
+}
+
+function checkUrl(url: string): void {
+  if (!/^https?:\/\//.test(url)) {
+    throw new ContentPartError(`不支持的附件 URL: ${url.slice(0, 50)}`)
+  }
+}
+
+// 图片/文件的来源：data URL 展开为 base64，其余视为远程 URL
+function toSource(
+  input: { data?: unknown; url?: unknown },
+  fallbackMimeType?: string
+): { mimeType?: string; data?: string; url?: string } {
+  if (typeof input.data === 'string' && input.data) {
+    const parsed = parseDataUrl(input.data)
+    const data = parsed?.data ?? input.data
+    checkSize(data)
+    return { data, ...(parsed ? { mimeType: parsed.mimeType } : {}) }
+  }
+  if (typeof input.url === 'string' && input.url) {
+    const parsed = parseDataUrl(input.url)
+    if (parsed) {
+      checkSize(parsed.data)
+      return parsed
+    }
+    checkUrl(input.url)
+    return { url: input.url, ...(fallbackMimeType ? { mimeType: fallbackMimeType } : {}) }
+  }
+  throw new ContentPartError('附件缺少 data 或 url')
+}
+
+/**
+ * 校验 /api/chat/send 的 parts 参数（WQBot 原生分段格式）
+ */
+export function validateContentParts(input: unknown): ContentPart[] {
+  if (!Array.isArray(input)) {
+    throw new ContentPartError('parts 必须是数组')
+  }
+
+  return input.map((raw: Record<string, unknown>) => {
+    switch (raw?.type) {
+      case 'text':
+        if (typeof raw.text !== 'string') throw new ContentPartError('text 分段缺少 text')
+        return { type: 'text', text: raw.text }
+      case 'image': {
+        const source = toSource(raw)
+        const mimeType = (raw.mimeType as string | undefined) ?? source.mimeType ?? 'image/png'
+        if (!mimeType.startsWith('image/')) {
+          throw new ContentPartError(`image 分段的 mimeType 无效: ${mimeType}`)
+        }
+        return { type: 'image', ...source, mimeType }
+      }
+      case 'file': {
+        const source = toSource(raw)
+        const mimeType = (raw.mimeType as string | undefined) ?? source.mimeType
+        if (!mimeType) throw new ContentPartError('file 分段缺少 mimeType')
+        return {
+          type: 'file',
+          ...source,
+          mimeType,
+          ...(typeof raw.filename === 'string' ? { filename: raw.filename } : {}),
+        }
+      }
+      default:
+        throw new ContentPartError(`不支持的内容分段类型: ${String(raw?.type)}`)
+    }
+  })
+}
+
+/**
+ * OpenAI 消息 content（字符串或分段数组）→ 文本 + 分段
+ * 支持 text、image_url、file（file_data 为 data URL）
+ */
+export function fromOpenAIContent(content: unknown): { text: string; parts?: ContentPart[] } {
+  if (content === null || content === undefined) return { text: '' }
+  if (typeof content === 'string') return { text: content }
+  if (!Array.isArray(content)) {
+    throw new ContentPartError('content must be a string or an array of content parts')
+  }
+
+  const parts: ContentPart[] = content.map((raw: Record<string, unknown>) => {
+    switch (raw?.type) {
+      case 'text':
+        return { type: 'text', text: String(raw.text ?? '') }
+      case 'image_url': {
+        const imageUrl = raw.image_url as { url?: string } | string | undefined
+        const url = typeof imageUrl === 'string' ? imageUrl : imageUrl?.url
+        const source = toSource({ url })
+        return { type: 'image', ...source, mimeType: source.mimeType ?? 'image/png' }
+      }
+      case 'file': {
+        const file = (raw.file ?? {}) as { file_data?: string; filename?: string }
+        const parsed = file.file_data ? parseDataUrl(file.file_data) : null
+        if (!parsed) {
+          throw new ContentPartError('file content part requires file_data as a data URL')
+        }
+        checkSize(parsed.data)
+        return {
+          type: 'file',
+          ...parsed,
+          ...(file.filename ? { filename: file.filename } : {}),
+        }
+      }
+      default:
+        throw new ContentPartError(`unsupported content part type: ${String(raw?.type)}`)
+    }
+  })
+
+  const text = partsText(parts)
+  // 纯文本分段直接折叠为字符串
+  return parts.every((p) => p.type === 'text') ? { text } : { text, parts }
+}
+
+/**
+ * 拼接分段中的文本（用于存储 content、搜索与 Agent 匹配）
+ */
+export function partsText(parts: readonly ContentPart[]): string {
+  return parts
+    .filter((p): p is Extract<ContentPart, { type: 'text' }> => p.type === 'text')
+    .map((p) => p.text)
+    .join('\n')
+}
@@ -1,12 +1,15 @@
-import { initializeConfig, initializeLogger, setLocale, initializeConfigWatcher, stopConfigWatcher, initializeThemeManager } from '@wqbot/core'
+import { initializeConfig, initializeLogger, setLocale, initializeConfigWatcher, stopConfigWatcher, initializeThemeManager, getConfigManager, getOrchestrator } from '@wqbot/core'
 import type { Locale } from '@wqbot/core'
-import { initializeDatabase, getSettingsStore, initializeConversationOptimizer } from '@wqbot/storage'
+import { initializeDatabase, getSettingsStore, initializeConversationOptimizer, LLMSummarizer } from '@wqbot/storage'
 import { initializeSkillRegistry, initializeMCPClient, getToolRegistry, initializeAgentManager, getSkillRegistry, getAgentManager, getMCPClientManager, registerKnowledgeTools } from '@wqbot/skills'
-import { initializeModelRouter } from '@wqbot/models'
+import { initializeModelRouter, getModelRouter } from '@wqbot/models'
 import { initializeKnowledge, getKnowledgeManager } from '@wqbot/knowledge'
 import { initializeSandbox, initializePermissionManager, initializeAuditLog } from '@wqbot/security'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { startServer, stopServer } from './server.js'
+import { createMCPServer } from './mcp-server.js'
 import { getSSEManager } from './sse.js'
+import { startUnattendedMode, stopUnattendedMode } from './unattended.js'
 
 const DEFAULT_PORT = 3721
 const DEFAULT_HOST = '127.0.0.1'
@@ -16,6 +19,8 @@ async function main(): Promise<void> {
   const args = process.argv.slice(2)
   let port = DEFAULT_PORT
   let host = DEFAULT_HOST
+  let auth = false
+  let mcpStdio = false
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i]
@@ -31,6 +36,10 @@ async function main(): Promise<void> {
         host = hostArg
         i++
       }
+    } else if (arg === '--auth') {
+      auth = true
+    } else if (arg === '--mcp-stdio') {
+      mcpStdio = true
     } else if (arg === '--help') {
       console.log(`
 WQBot Backend Server
@@ -39,26 +48,34 @@ WQBot Backend Server
 
 选项:
   -p, --port <port>  服务端口 (默认: ${DEFAULT_PORT})
-  -h, --host <host>  服务地址 (默认: ${DEFAULT_HOST})
+  -h, --host <host>  服务地址 (默认: ${DEFAULT_HOST}，非回环地址需启用认证)
+  --auth             启用 Bearer 令牌认证（持久化到设置）
+  --mcp-stdio        作为 MCP 服务器通过标准输入输出提供服务（不启动 HTTP）
   --help             显示帮助信息
 
 示例:
   wqbot-server
   wqbot-server --port 8080
-  wqbot-server --host 0.0.0.0 --port 3000
+  wqbot-server --host 0.0.0.0 --port 3000 --auth
+  wqbot-server --mcp-stdio
 `)
       process.exit(0)
     }
   }
 
+  // stdio 模式下标准输出专用于 MCP 协议消息，其余输出改写到标准错误
+  if (mcpStdio) {
+    console.log = console.error
+  }
+
   console.log('正在初始化 WQBot 后端服务...\n')
 
   // 初始化核心系统
   try {
     await initializeConfig()
-    initializeLogger()
+    initializeLogger({ stderr: mcpStdio })
     await initializeDatabase()
-    initializeConversationOptimizer()
+    const optimizer = initializeConversationOptimizer()
 
     // 加载语言设置
     const settings = getSettingsStore()
@@ -74,7 +91,21 @@ WQBot Backend Server
     await initializeSkillRegistry()
     await initializeModelRouter()
 
-    // 初始化知识库
+    // 上下文压缩使用 LLM 摘要（无可用模型时优化器自动回退到启发式摘要）
+    const summarizerConfig = getConfigManager().getSummarizerConfig()
+    if (summarizerConfig?.enabled !== false) {
+      const modelRouter = getModelRouter()
+      optimizer.setSummarizer(
+        new LLMSummarizer((messages, options) => modelRouter.chatSync(messages, options), {
+          model: summarizerConfig?.model,
+          localOnly: summarizerConfig?.localOnly,
+          maxTokens: summarizerConfig?.maxTokens,
+        })
+      )
+    }
+
+    // 初始化知识库（同步进度推送到前端）
+    getKnowledgeManager().onSync((event) => getSSEManager().sendKnowledgeSync(event))
     await initializeKnowledge()
 
     // 初始化 MCP 客户端（连接外部工具服务器）
@@ -86,9 +117,23 @@ WQBot Backend Server
       toolRegistry.register(toolDef)
     }
 
+    // 服务器端列表变更（工具列表由 MCPClientManager 直接同步）和资源更新推送到前端
+    mcpManager.onListChanged((change) =>
+      getSSEManager().sendConfigChange('mcp', `${change.clientName}/${change.kind}`, 'updated')
+    )
+    mcpManager.onResourceUpdated((update) => getSSEManager().sendMcpResourceUpdated(update))
+    mcpManager.onStatusChange((change) => getSSEManager().sendMcpStatus(change))
+
     // 初始化 Agent 管理器
     await initializeAgentManager()
 
+    // Orchestrator 使用 LLM 分析意图（失败时回退到规则匹配）
+    const intentRouter = getModelRouter()
+    getOrchestrator().setIntentClassifier(
+      (request) => intentRouter.chatText(request),
+      { agents: () => getAgentManager().getAll().map((agent) => agent.name) }
+    )
+
     // 注册知识库工具到 ToolRegistry
     registerKnowledgeTools()
 
@@ -140,14 +185,28 @@ WQBot Backend Server
     initializeSandbox()
     initializePermissionManager()
     initializeAuditLog()
+
+    // 无人值守模式（定时任务）只在 HTTP 服务中运行，启动失败不影响服务
+    if (!mcpStdio) {
+      try {
+        await startUnattendedMode()
+      } catch (error) {
+        console.error('无人值守模式启动失败:', error)
+      }
+    }
   } catch (error) {
     console.error('初始化失败:', error)
     process.exit(1)
   }
 
-  // 启动服务器
+  // 启动服务器（stdio 模式只连接 MCP 传输）
   try {
-    await startServer({ host, port })
+    if (mcpStdio) {
+      await createMCPServer('stdio').connect(new StdioServerTransport())
+      console.log('WQBot MCP 服务器已在 stdio 上运行')
+    } else {
+      await startServer({ host, port, auth })
+    }
   } catch (error) {
     console.error('启动服务器失败:', error)
     process.exit(1)
@@ -158,7 +217,9 @@ WQBot Backend Server
     console.log('\n正在关闭服务器...')
     try {
       const { getMCPClientManager } = await import('@wqbot/skills')
+      stopUnattendedMode()
       await getMCPClientManager().shutdown()
+      await getKnowledgeManager().stopWatching()
       await stopConfigWatcher()
       await stopServer()
       console.log('服务器已关闭')
@@ -171,6 +232,10 @@ WQBot Backend Server
 
   process.on('SIGINT', shutdown)
   process.on('SIGTERM', shutdown)
+  if (mcpStdio) {
+    // MCP 客户端关闭标准输入即结束会话
+    process.stdin.on('close', shutdown)
+  }
 }
 
 main().catch((error) => {
@@ -1,6 +1,12 @@
 // Server
 export { createServer, startServer, stopServer, getServer, type ServerOptions } from './server.js'
 
+// Auth
+export { registerAuth, requiredScope, isLoopbackHost, isLocalOrigin } from './auth.js'
+
+// MCP 服务器
+export { createMCPServer } from './mcp-server.js'
+
 // SSE
 export { getSSEManager, initializeSSE } from './sse.js'
 
@@ -0,0 +1,206 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  type CallToolResult,
+  type GetPromptResult,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js'
+import { createModuleLogger } from '@wqbot/core'
+import { convertToAITools, getModelRouter } from '@wqbot/models'
+import { getAuditLog, getPermissionManager } from '@wqbot/security'
+import {
+  getAgentManager,
+  getAllowedTools,
+  getDeniedTools,
+  getToolRegistry,
+  type AgentDef,
+  type ToolDefinition,
+  type ToolResult,
+} from '@wqbot/skills'
+import { getConversationStore } from '@wqbot/storage'
+
+const logger = createModuleLogger('mcp-server')
+
+// MCP 工具 / 提示词名只允许字母、数字、_、-、.
+function toMcpName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_.-]/g, '_')
+}
+
+// 权限规则为 deny 的工具不发布也不可调用；ask 由 MCP 客户端向其用户确认
+function isDenied(tool: string): boolean {
+  return getPermissionManager().getToolMode(tool) === 'deny'
+}
+
+function createSearchConversationsTool(): ToolDefinition {
+  return {
+    name: 'search_conversations',
+    description: '全文搜索 WQBot 的历史对话消息，返回命中片段及所属对话',
+    source: 'builtin',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: '搜索关键词' },
+        limit: { type: 'number', description: '返回条数，默认 10' },
+      },
+      required: ['query'],
+    },
+    execute: async (args) => {
+      const query = String(args.query ?? '')
+      const limit = Math.min(Math.max(Number(args.limit) || 10, 1), 100)
+      const results = getConversationStore().search(query, { limit })
+
+      if (results.length === 0) {
+        return { content: `未找到与 "${query}" 相关的对话` }
+      }
+      const formatted = results.map((r) => {
+        const snippet = r.snippet.replace(/<\/?mark>/g, '')
+        return `[${r.conversationTitle}] ${r.role} ${r.timestamp.toISOString()}\n${snippet}`
+      })
+      return { content: formatted.join('\n\n---\n\n') }
+    },
+  }
+}
+
+// Agent 可用的工具：遵循 agent 的 allowedTools / deniedTools 和全局权限规则
+export function getAgentTools(agent: AgentDef): readonly ToolDefinition[] {
+  const allowed = getAllowedTools(agent)
+  const denied = getDeniedTools(agent)
+  return getToolRegistry()
+    .getAll()
+    .filter((t) => (!allowed || allowed.includes(t.name)) && !denied.includes(t.name))
+    .filter((t) => !isDenied(t.name))
+}
+
+// 每个 agent 发布为 agent_<name> 工具：以 agent 的提示词和模型完成一次任务
+function createAgentTool(agent: AgentDef): ToolDefinition {
+  return {
+    name: `agent_${toMcpName(agent.name)}`,
+    description: agent.description || `调用 WQBot Agent: ${agent.name}`,
+    source: 'builtin',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        task: { type: 'string', description: '交给该 Agent 完成的任务' },
+      },
+      required: ['task'],
+    },
+    execute: async (args) => {
+      const tools = getAgentTools(agent)
+      const response = await getModelRouter().chatSync(
+        [{ role: 'user', content: String(args.task ?? '') }],
+        {
+          ...(agent.model ? { model: agent.model } : {}),
+          ...(agent.temperature !== undefined ? { temperature: agent.temperature } : {}),
+          ...(tools.length > 0 ? { tools: convertToAITools(tools) } : {}),
+          systemPrompt: agent.prompt,
+        }
+      )
+      return { content: response.content }
+    },
+  }
+}
+
+function getPublishedAgents(): readonly AgentDef[] {
+  return getAgentManager()
+    .getAll()
+    .filter((a) => !a.hidden)
+}
+
+/**
+ * 对外发布的工具：内置和技能工具（含 search_knowledge）、对话搜索和各 agent，
+ * 不转发来自其他 MCP 服务器的工具
+ */
+function getPublishedTools(): readonly ToolDefinition[] {
+  return [
+    ...getToolRegistry()
+      .getAll()
+      .filter((t) => t.source !== 'mcp'),
+    createSearchConversationsTool(),
+    ...getPublishedAgents().map(createAgentTool),
+  ].filter((t) => !isDenied(t.name))
+}
+
+/**
+ * 创建 WQBot MCP 服务器，caller 用于审计日志（API 密钥名称或 stdio）
+ */
+export function createMCPServer(caller: string): Server {
+  const server = new Server(
+    { name: 'wqbot', version: '0.1.0' },
+    { capabilities: { tools: {}, prompts: {} } }
+  )
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: getPublishedTools().map(
+      (t): Tool => ({
+        name: t.name,
+        description: t.description,
+        inputSchema: t.inputSchema as Tool['inputSchema'],
+      })
+    ),
+  }))
+
+  server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
+    const { name, arguments: args = {} } = request.params
+    const audit = getAuditLog()
+
+    const tool = getPublishedTools().find((t) => t.name === name)
+    if (!tool) {
+      if (isDenied(name)) {
+        await audit.logSecurityViolation('mcp:tool', { tool: name, caller })
+      }
+      return { content: [{ type: 'text', text: `工具不存在或无权调用: ${name}` }], isError: true }
+    }
+
+    let result: ToolResult
+    try {
+      result = await tool.execute(args)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '未知错误'
+      logger.error(`MCP 工具执行失败: ${name}`, error instanceof Error ? error : undefined)
+      result = { content: `工具执行失败: ${message}`, isError: true }
+    }
+
+    await audit.log({
+      action: 'mcp:tool',
+      userId: caller,
+      details: { tool: name },
+      success: result.isError !== true,
+    })
+    return { content: [{ type: 'text', text: result.content }], isError: result.isError === true }
+  })
+
+  // 每个 agent 同时发布为提示词：agent 提示词 + 可选任务
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: getPublishedAgents().map((agent) => ({
+      name: toMcpName(agent.name),
+      description: agent.description,
+      arguments: [{ name: 'task', description: '要完成的任务', required: false }],
+    })),
+  }))
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request): Promise<GetPromptResult> => {
+    const { name, arguments: args } = request.params
+    const agent = getPublishedAgents().find((a) => toMcpName(a.name) === name)
+    if (!agent) {
+      throw new McpError(ErrorCode.InvalidParams, `提示词不存在: ${name}`)
+    }
+
+    const task = args?.task
+    return {
+      description: agent.description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text: task ? `${agent.prompt}\n\n${task}` : agent.prompt },
+        },
+      ],
+    }
+  })
+
+  return server
+}
@@ -0,0 +1,126 @@
+import type { FastifyInstance } from 'fastify'
+import { getConfigManager } from '@wqbot/core'
+import { getApiKeyStore, API_KEY_SCOPES } from '@wqbot/storage'
+import type { ApiKey, ApiKeyScope, AuthIdentity } from '@wqbot/storage'
+import { isLoopbackHost, writeAdminTokenFile } from '../auth.js'
+import type { ApiResponse } from '../types.js'
+
+export interface AuthRoutesOptions {
+  // 服务监听地址，用于判断能否关闭认证
+  readonly host: string
+}
+
+interface AuthStatus {
+  readonly enabled: boolean
+  readonly host: string
+  readonly loopback: boolean
+  readonly keyCount: number
+  readonly tokenFile: string
+  readonly caller?: AuthIdentity
+}
+
+export async function authRoutes(
+  fastify: FastifyInstance,
+  options: AuthRoutesOptions
+): Promise<void> {
+  const store = getApiKeyStore()
+
+  // 认证状态
+  fastify.get('/api/auth/status', async (request, reply) => {
+    const response: ApiResponse<AuthStatus> = {
+      success: true,
+      data: {
+        enabled: store.isAuthEnabled(),
+        host: options.host,
+        loopback: isLoopbackHost(options.host),
+        keyCount: store.list().length,
+        tokenFile: getConfigManager().getAdminTokenFile(),
+        ...(request.auth ? { caller: request.auth } : {}),
+      },
+    }
+    return reply.send(response)
+  })
+
+  // 启用/关闭认证
+  fastify.put<{
+    Body: { enabled: boolean }
+  }>('/api/auth', async (request, reply) => {
+    const { enabled } = request.body ?? {}
+    if (typeof enabled !== 'boolean') {
+      return reply
+        .status(400)
+        .send({ success: false, error: '缺少 enabled 参数' } satisfies ApiResponse)
+    }
+
+    if (!enabled && !isLoopbackHost(options.host)) {
+      return reply.status(400).send({
+        success: false,
+        error: `服务监听在非回环地址 ${options.host}，不能关闭认证`,
+      } satisfies ApiResponse)
+    }
+
+    if (enabled) {
+      writeAdminTokenFile(store.ensureAdminToken())
+    }
+    store.setAuthEnabled(enabled)
+    return reply.send({
+      success: true,
+      data: { enabled, tokenFile: getConfigManager().getAdminTokenFile() },
+    } satisfies ApiResponse)
+  })
+
+  // 列出 API 密钥
+  fastify.get<{
+    Querystring: { all?: string }
+  }>('/api/auth/keys', async (request, reply) => {
+    const keys = store.list(request.query.all === 'true')
+    return reply.send({ success: true, data: keys } satisfies ApiResponse<readonly ApiKey[]>)
+  })
+
+  // 创建 API 密钥（明文令牌只返回这一次）
+  fastify.post<{
+    Body: { name: string; scope: ApiKeyScope }
+  }>('/api/auth/keys', async (request, reply) => {
+    const { name, scope } = request.body ?? {}
+    if (!name?.trim()) {
+      return reply
+        .status(400)
+        .send({ success: false, error: '缺少 name 参数' } satisfies ApiResponse)
+    }
+    if (!API_KEY_SCOPES.includes(scope)) {
+      return reply.status(400).send({
+        success: false,
+        error: `无效的权限范围，可选: ${API_KEY_SCOPES.join(', ')}`,
+      } satisfies ApiResponse)
+    }
+
+    const created = store.create(name.trim(), scope)
+    const response: ApiResponse<{ key: ApiKey; token: string }> = {
+      success: true,
+      data: created,
+    }
+    return reply.status(201).send(response)
+  })
+
+  // 吊销 API 密钥
+  fastify.delete<{
+    Params: { id: string }
+  }>('/api/auth/keys/:id', async (request, reply) => {
+    if (!store.revoke(request.params.id)) {
+      return reply
+        .status(404)
+        .send({ success: false, error: '密钥不存在或已吊销' } satisfies ApiResponse)
+    }
+    return reply.send({ success: true } satisfies ApiResponse)
+  })
+
+  // 重新生成管理员令牌（旧令牌立即失效）
+  fastify.post('/api/auth/admin-token/rotate', async (_request, reply) => {
+    const token = store.rotateAdminToken()
+    writeAdminTokenFile(token)
+    return reply.send({
+      success: true,
+      data: { tokenFile: getConfigManager().getAdminTokenFile() },
+    } satisfies ApiResponse)
+  })
+}
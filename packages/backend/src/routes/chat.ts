@@ -1,10 +1,57 @@
-import type { FastifyInstance } from 'fastify'
-import { getConversationStore, getConversationOptimizer, getSettingsStore } from '@wqbot/storage'
-import type { OptimizerMessage } from '@wqbot/storage'
-import { getModelRouter, convertToAITools } from '@wqbot/models'
-import { getToolRegistry, getAgentManager } from '@wqbot/skills'
-import { getSSEManager, getAILanguageInstruction, getLocale } from '@wqbot/core'
-import type { ApiResponse, ChatRequest, ChatResponse } from '../types.js'
+import type { FastifyInstance, FastifyReply } from 'fastify'
+import {
+  getConversationStore,
+  getConversationOptimizer,
+  getSettingsStore,
+  getBlobStore,
+  BranchError,
+  ImportError,
+  EXPORT_FORMATS,
+} from '@wqbot/storage'
+import type { ExportFormat, OptimizationResult, OptimizerMessage } from '@wqbot/storage'
+import {
+  getModelRouter,
+  convertToAITools,
+  hasMediaContent,
+  type ChatMessage,
+  type ChatUsage,
+} from '@wqbot/models'
+import { getToolRegistry, getAgentManager, type AgentDef } from '@wqbot/skills'
+import { getKnowledgeManager, type RagContext } from '@wqbot/knowledge'
+import { createModuleLogger, getAILanguageInstruction, getLocale } from '@wqbot/core'
+import type { ContentPart, MessageRole } from '@wqbot/core'
+import { getSSEManager } from '../sse.js'
+import { ContentPartError, validateContentParts, partsText } from '../content-parts.js'
+import type { ApiResponse, ChatRagSettings, ChatRequest, ChatResponse } from '../types.js'
+
+const logger = createModuleLogger('chat')
+
+// 导出格式对应的响应类型和文件扩展名
+const EXPORT_FILE_TYPES: Record<ExportFormat, { contentType: string; extension: string }> = {
+  json: { contentType: 'application/json', extension: 'json' },
+  md: { contentType: 'text/markdown', extension: 'md' },
+  html: { contentType: 'text/html; charset=utf-8', extension: 'html' },
+  jsonl: { contentType: 'application/jsonl', extension: 'jsonl' },
+  wqbot: { contentType: 'application/json', extension: 'wqbot.json' },
+}
+
+// 数据导出文件通常较大
+const IMPORT_BODY_LIMIT = 200 * 1024 * 1024
+
+// 自动检索注入的知识最多占模型可用上下文（窗口减去输出预留）的比例
+const RAG_CONTEXT_RATIO = 0.15
+
+// 解析对话的自动检索设置
+function parseRagSettings(value: unknown): ChatRagSettings | { error: string } {
+  const body = value as Partial<ChatRagSettings> | null | undefined
+  if (typeof body?.enabled !== 'boolean') {
+    return { error: 'enabled 必须是布尔值' }
+  }
+  if (body.collection !== undefined && typeof body.collection !== 'string') {
+    return { error: 'collection 必须是字符串' }
+  }
+  return { enabled: body.enabled, ...(body.collection ? { collection: body.collection } : {}) }
+}
 
 export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
   const conversationStore = getConversationStore()
@@ -12,55 +59,104 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
   const sseManager = getSSEManager()
   const optimizer = getConversationOptimizer()
 
+  const blobStore = getBlobStore()
+
+  // 保存压缩结果：标记被摘要替代的消息，摘要挂在被压缩的最后一条消息上
+  function saveCompaction(
+    convId: string,
+    rawMessages: readonly OptimizerMessage[],
+    result: OptimizationResult
+  ): void {
+    const optimizedIds = new Set(result.messages.map((m) => m.id))
+    const compacted = rawMessages.filter((m) => !optimizedIds.has(m.id))
+    const compactedIds = compacted.map((m) => m.id)
+
+    if (compactedIds.length > 0) {
+      conversationStore.markCompacted(compactedIds)
+    }
+    if (result.summaryText) {
+      conversationStore.addSummaryMessage(convId, result.summaryText, compacted.at(-1)?.id)
+    }
+  }
+
   // 优化消息列表（Token 三阶段优化）
+  // 生成了摘要时立即保存，后续发送从摘要开始，不必每次重新调用模型总结早期历史
   async function optimizeMessages(
-    rawMessages: readonly OptimizerMessage[],
+    convId: string,
+    rawMessages: readonly (OptimizerMessage & { parts?: readonly ContentPart[] | undefined })[],
     model?: string
-  ): Promise<readonly { role: 'user' | 'assistant' | 'system'; content: string }[]> {
+  ): Promise<readonly ChatMessage[]> {
     const modelInfo = modelRouter.getModelInfo(model)
-    const result = await optimizer.optimize(rawMessages, modelInfo)
-
-    return result.messages.map((m) => ({
-      role: m.role as 'user' | 'assistant' | 'system',
-      content: m.content,
-    }))
-  }
-
-  // 发送消息（SSE 流式响应）
-  fastify.post<{
-    Body: ChatRequest
-  }>('/api/chat/send', async (request, reply) => {
-    const { message, conversationId, model } = request.body
-
-    let convId = conversationId
-
-    // 创建或获取对话
-    if (!convId) {
-      const conv = conversationStore.createConversation()
-      convId = conv.id
+    const result = await optimizer.optimize(rawMessages, modelInfo, modelRouter.resolveModel(model))
+    if (result.summaryText) {
+      saveCompaction(convId, rawMessages, result)
     }
-
-    // 添加用户消息
-    conversationStore.addMessage(convId, {
-      role: 'user',
-      content: message,
+    const rawById = new Map(rawMessages.map((m) => [m.id, m]))
+
+    return result.messages.map((m) => {
+      // 未被修剪的消息还原附件（从 blob 存储读取数据）
+      const raw = rawById.get(m.id)
+      const parts = raw?.parts && raw.content === m.content ? raw.parts : undefined
+      return {
+        role: m.role,
+        content: m.content,
+        ...(parts ? { parts: blobStore.resolveParts(parts) } : {}),
+      }
     })
+  }
 
-    // 获取对话历史
-    const conversation = conversationStore.getConversation(convId)
-    if (!conversation) {
-      const response: ApiResponse = {
-        success: false,
-        error: '对话不存在',
-      }
-      return reply.status(404).send(response)
+  // 自动检索知识库：对话设置优先，未设置时看匹配到的 Agent 是否启用
+  async function retrieveKnowledge(
+    convId: string,
+    agent: AgentDef | undefined,
+    query: string,
+    model?: string
+  ): Promise<RagContext | null> {
+    const stored = conversationStore.getConversationMetadata(convId)?.rag as
+      | ChatRagSettings
+      | undefined
+    const settings = stored ?? (agent?.rag ? { enabled: true, ...agent.rag } : undefined)
+    if (!settings?.enabled) return null
+
+    const knowledgeManager = getKnowledgeManager()
+    if (!knowledgeManager.isEnabled()) return null
+
+    const { contextWindow, maxOutputTokens } = modelRouter.getModelInfo(model)
+    const maxTokens = Math.floor(Math.max(contextWindow - maxOutputTokens, 0) * RAG_CONTEXT_RATIO)
+    try {
+      const context = await knowledgeManager.retrieveContext(query, {
+        maxTokens,
+        collection: settings.collection,
+        model: modelRouter.resolveModel(model),
+      })
+      return context.citations.length > 0 ? context : null
+    } catch (error) {
+      // 检索失败不影响对话本身
+      logger.warn('自动检索知识库失败', {
+        conversationId: convId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return null
     }
+  }
 
-    // 获取对话历史（带 token 信息，供优化器使用）
-    const rawMessages = conversationStore.getMessagesForOptimizer(convId)
+  // 生成助手回复并通过 SSE 推送（发送、编辑、重新生成共用）
+  async function streamAssistantReply(
+    reply: FastifyReply,
+    convId: string,
+    message: string,
+    parentId: string,
+    model?: string
+  ): Promise<void> {
+    // 获取到父消息为止的对话历史（带 token 信息，供优化器使用）
+    const rawMessages = conversationStore.getMessagesForOptimizer(convId, parentId)
 
     // Token 三阶段优化
-    const messages = await optimizeMessages(rawMessages as readonly OptimizerMessage[], model)
+    const messages = await optimizeMessages(
+      convId,
+      rawMessages as readonly (OptimizerMessage & { parts?: readonly ContentPart[] })[],
+      model
+    )
 
     // 创建 SSE 连接
     const connection = sseManager.createConnection(reply)
@@ -83,38 +179,86 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
 
     // 流式响应
     let fullResponse = ''
+    // 本轮执行的工具调用（随助手消息一起保存到 metadata）
+    const toolCalls: { toolCallId: string; toolName: string; args: unknown; result?: unknown }[] = []
+    let usage: ChatUsage | undefined
 
     try {
       const chatModel = agent?.model || model
-      // 构建系统提示词，注入语言指令
-      const baseSystemPrompt = agent?.prompt || ''
-      const fullSystemPrompt = baseSystemPrompt
-        ? `${baseSystemPrompt}\n\n${languageInstruction}`
-        : languageInstruction
+      const rag = await retrieveKnowledge(convId, agent, message, chatModel)
+      // 构建系统提示词，注入检索到的知识和语言指令
+      const fullSystemPrompt = [agent?.prompt, rag?.prompt, languageInstruction]
+        .filter(Boolean)
+        .join('\n\n')
 
-      const stream = modelRouter.chatStream(messages, {
+      const stream = modelRouter.chatStreamEvents(messages, {
         ...(chatModel ? { model: chatModel } : {}),
         ...(agent?.temperature !== undefined ? { temperature: agent.temperature } : {}),
         ...(fullSystemPrompt ? { systemPrompt: fullSystemPrompt } : {}),
         ...(aiTools ? { tools: aiTools } : {}),
       })
 
-      for await (const chunk of stream) {
-        fullResponse += chunk
-        sseManager.sendChunk(connection.id, chunk)
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'text-delta':
+            fullResponse += event.text
+            sseManager.sendChunk(connection.id, event.text)
+            break
+          case 'tool-call':
+            toolCalls.push({
+              toolCallId: event.toolCallId,
+              toolName: event.toolName,
+              args: event.args,
+            })
+            sseManager.sendEvent(connection.id, 'tool-call', event)
+            break
+          case 'tool-result': {
+            const call = toolCalls.find((c) => c.toolCallId === event.toolCallId)
+            if (call) call.result = event.result
+            sseManager.sendEvent(connection.id, 'tool-result', event)
+            break
+          }
+          case 'step-finish':
+            sseManager.sendEvent(connection.id, 'step-finish', event)
+            break
+          case 'usage':
+            usage = event.usage
+            sseManager.sendEvent(connection.id, 'usage', event.usage)
+            break
+          case 'finish': {
+            // 保存助手响应（挂在触发它的用户消息下）
+            const assistantMessage = conversationStore.addMessage(convId, {
+              role: 'assistant',
+              content: fullResponse,
+              model: event.model,
+              parentId,
+              metadata: {
+                model: event.model,
+                provider: event.provider,
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                ...(usage ? { usage } : {}),
+                ...(rag ? { citations: rag.citations } : {}),
+              },
+            })
+
+            // 发送完成信号
+            sseManager.sendEvent(connection.id, 'complete', {
+              conversationId: convId,
+              messageId: assistantMessage.id,
+              parentId,
+              branchId: conversationStore.getActiveBranch(convId)?.id,
+              response: fullResponse,
+              model: event.model,
+              provider: event.provider,
+              finishReason: event.finishReason,
+              ...(usage ? { usage } : {}),
+              ...(rag ? { citations: rag.citations } : {}),
+            })
+            break
+          }
+        }
       }
 
-      // 保存助手响应
-      conversationStore.addMessage(convId, {
-        role: 'assistant',
-        content: fullResponse,
-      })
-
-      // 发送完成信号
-      sseManager.sendEvent(connection.id, 'complete', {
-        conversationId: convId,
-        response: fullResponse,
-      })
       sseManager.sendStreamEnd(connection.id)
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : '未知错误'
@@ -122,13 +266,97 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
     } finally {
       sseManager.closeConnection(connection.id)
     }
+  }
+
+  // 解析用户消息：message 文本 + 可选多模态分段
+  function parseUserMessage(
+    body: ChatRequest,
+    model?: string
+  ): { content: string; parts?: ContentPart[] } | { error: string } {
+    if (!body.parts || body.parts.length === 0) {
+      return { content: body.message }
+    }
+
+    let parts: ContentPart[]
+    try {
+      parts = validateContentParts(body.parts)
+    } catch (error) {
+      if (error instanceof ContentPartError) return { error: error.message }
+      throw error
+    }
+
+    if (body.message) {
+      parts = [{ type: 'text', text: body.message }, ...parts]
+    }
+    const content = partsText(parts)
+
+    // 按实际回复使用的模型判断：匹配到的 Agent 指定的模型优先，否则按路由策略解析
+    const chatModel = modelRouter.resolveModel(
+      getAgentManager().matchAgent(content)?.model || model
+    )
+    if (
+      hasMediaContent([{ role: 'user', content, parts }]) &&
+      !modelRouter.supportsVision(chatModel)
+    ) {
+      return { error: `模型 ${chatModel} 不支持图片或文件输入，请选择支持视觉的模型` }
+    }
+
+    return { content, parts }
+  }
+
+  // 发送消息（SSE 流式响应）
+  fastify.post<{
+    Body: ChatRequest
+  }>('/api/chat/send', async (request, reply) => {
+    const { conversationId, model } = request.body
+
+    const userMessage = parseUserMessage(request.body, model)
+    if ('error' in userMessage) {
+      const response: ApiResponse = { success: false, error: userMessage.error }
+      return reply.status(400).send(response)
+    }
+    const message = userMessage.content
+
+    let convId = conversationId
+
+    // 创建或获取对话
+    if (!convId) {
+      const conv = conversationStore.createConversation()
+      convId = conv.id
+    }
+
+    // 添加用户消息
+    const userMsg = conversationStore.addMessage(convId, {
+      role: 'user',
+      ...userMessage,
+      model: modelRouter.resolveModel(model),
+    })
+
+    // 获取对话历史
+    const conversation = conversationStore.getConversation(convId)
+    if (!conversation) {
+      const response: ApiResponse = {
+        success: false,
+        error: '对话不存在',
+      }
+      return reply.status(404).send(response)
+    }
+
+    await streamAssistantReply(reply, convId, message, userMsg.id, model)
   })
 
   // 非流式发送消息
   fastify.post<{
     Body: ChatRequest
   }>('/api/chat/send-sync', async (request, reply) => {
-    const { message, conversationId, model } = request.body
+    const { conversationId, model } = request.body
+
+    const userMessage = parseUserMessage(request.body, model)
+    if ('error' in userMessage) {
+      const response: ApiResponse = { success: false, error: userMessage.error }
+      return reply.status(400).send(response)
+    }
+    const message = userMessage.content
 
     let convId = conversationId
 
@@ -137,9 +365,10 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
       convId = conv.id
     }
 
-    conversationStore.addMessage(convId, {
+    const userMsg = conversationStore.addMessage(convId, {
       role: 'user',
-      content: message,
+      ...userMessage,
+      model: modelRouter.resolveModel(model),
     })
 
     const conversation = conversationStore.getConversation(convId)
@@ -152,10 +381,14 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
     }
 
     // 获取对话历史（带 token 信息，供优化器使用）
-    const rawMessages = conversationStore.getMessagesForOptimizer(convId)
+    const rawMessages = conversationStore.getMessagesForOptimizer(convId, userMsg.id)
 
     // Token 三阶段优化
-    const messages = await optimizeMessages(rawMessages as readonly OptimizerMessage[], model)
+    const messages = await optimizeMessages(
+      convId,
+      rawMessages as readonly (OptimizerMessage & { parts?: readonly ContentPart[] })[],
+      model
+    )
 
     try {
       // 获取工具列表
@@ -175,11 +408,11 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
       const languageInstruction = getAILanguageInstruction(language as 'en' | 'zh-CN')
 
       const syncModel = agent?.model || model
-      // 构建系统提示词，注入语言指令
-      const baseSystemPrompt = agent?.prompt || ''
-      const fullSystemPrompt = baseSystemPrompt
-        ? `${baseSystemPrompt}\n\n${languageInstruction}`
-        : languageInstruction
+      const rag = await retrieveKnowledge(convId, agent, message, syncModel)
+      // 构建系统提示词，注入检索到的知识和语言指令
+      const fullSystemPrompt = [agent?.prompt, rag?.prompt, languageInstruction]
+        .filter(Boolean)
+        .join('\n\n')
 
       const result = await modelRouter.chatSync(messages, {
         ...(syncModel ? { model: syncModel } : {}),
@@ -189,10 +422,21 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
       })
 
       const fullResponse = result.content
+      // 与流式接口保存相同的字段：已执行的工具调用在前，未执行的客户端工具调用在后
+      const toolCalls = [...(result.toolResults ?? []), ...(result.toolCalls ?? [])]
 
       conversationStore.addMessage(convId, {
         role: 'assistant',
         content: fullResponse,
+        model: result.model,
+        parentId: userMsg.id,
+        metadata: {
+          model: result.model,
+          provider: result.provider,
+          ...(toolCalls.length > 0 ? { toolCalls } : {}),
+          ...(result.usage ? { usage: result.usage } : {}),
+          ...(rag ? { citations: rag.citations } : {}),
+        },
       })
 
       const response: ApiResponse<ChatResponse> = {
@@ -200,6 +444,9 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
         data: {
           conversationId: convId,
           response: fullResponse,
+          model: result.model,
+          provider: result.provider,
+          ...(rag ? { citations: rag.citations } : {}),
         },
       }
       return reply.send(response)
@@ -229,6 +476,55 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
     return reply.send(response)
   })
 
+  // 全文搜索对话历史
+  fastify.get<{
+    Querystring: {
+      q?: string
+      role?: string
+      conversationId?: string
+      pinned?: string
+      from?: string
+      to?: string
+      limit?: string
+    }
+  }>('/api/chat/search', async (request, reply) => {
+    const { q, role, conversationId, pinned, from, to, limit } = request.query
+
+    if (!q || !q.trim()) {
+      const response: ApiResponse = { success: false, error: '缺少搜索关键词 q' }
+      return reply.status(400).send(response)
+    }
+    if (role && role !== 'user' && role !== 'assistant' && role !== 'system') {
+      const response: ApiResponse = { success: false, error: `无效的角色: ${role}` }
+      return reply.status(400).send(response)
+    }
+
+    const fromDate = from ? new Date(from) : undefined
+    const toDate = to ? new Date(to) : undefined
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      const response: ApiResponse = { success: false, error: '无效的日期格式' }
+      return reply.status(400).send(response)
+    }
+
+    const results = conversationStore.search(q, {
+      ...(role ? { role: role as MessageRole } : {}),
+      ...(conversationId ? { conversationId } : {}),
+      ...(pinned !== undefined ? { pinned: pinned === 'true' || pinned === '1' } : {}),
+      ...(fromDate ? { from: fromDate } : {}),
+      ...(toDate ? { to: toDate } : {}),
+      ...(limit ? { limit: Math.min(Math.max(parseInt(limit, 10) || 20, 1), 100) } : {}),
+    })
+
+    const response: ApiResponse<typeof results> = {
+      success: true,
+      data: results,
+      meta: {
+        total: results.length,
+      },
+    }
+    return reply.send(response)
+  })
+
   // 获取单个对话
   fastify.get<{
     Params: { id: string }
@@ -250,11 +546,54 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
     return reply.send(response)
   })
 
-  // 创建新对话
+  // 获取消息附件内容
+  fastify.get<{
+    Params: { blobId: string }
+    Querystring: { mimeType?: string }
+  }>('/api/chat/blobs/:blobId', async (request, reply) => {
+    let data: Buffer | undefined
+    try {
+      data = blobStore.get(request.params.blobId)
+    } catch {
+      data = undefined
+    }
+
+    if (!data) {
+      const response: ApiResponse = {
+        success: false,
+        error: '附件不存在',
+      }
+      return reply.status(404).send(response)
+    }
+
+    // 仅按原类型返回图片和 PDF，其余作为下载，避免同源渲染任意 HTML
+    const mimeType = request.query.mimeType ?? ''
+    const safeType = /^(image\/(png|jpeg|gif|webp)|application\/pdf)$/.test(mimeType)
+      ? mimeType
+      : 'application/octet-stream'
+
+    return reply
+      .header('Content-Type', safeType)
+      .header('X-Content-Type-Options', 'nosniff')
+      .header('Cache-Control', 'private, max-age=31536000, immutable')
+      .send(data)
+  })
+
+  // 创建新对话（可同时设置自动检索知识库）
   fastify.post<{
-    Body: { title?: string }
+    Body: { title?: string; rag?: ChatRagSettings }
   }>('/api/chat/conversations', async (request, reply) => {
-    const conversation = conversationStore.createConversation(request.body.title)
+    const rag = request.body?.rag !== undefined ? parseRagSettings(request.body.rag) : undefined
+    if (rag && 'error' in rag) {
+      const response: ApiResponse = { success: false, error: rag.error }
+      return reply.status(400).send(response)
+    }
+
+    let conversation = conversationStore.createConversation(request.body?.title)
+    if (rag) {
+      conversationStore.updateConversationMetadata(conversation.id, { rag })
+      conversation = conversationStore.getConversation(conversation.id) ?? conversation
+    }
 
     const response: ApiResponse<typeof conversation> = {
       success: true,
@@ -263,6 +602,27 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
     return reply.status(201).send(response)
   })
 
+  // 设置对话的自动检索知识库（RAG）：开启后每条消息先检索知识库并注入系统提示词
+  fastify.put<{
+    Params: { id: string }
+    Body: ChatRagSettings
+  }>('/api/chat/conversations/:id/rag', async (request, reply) => {
+    const rag = parseRagSettings(request.body)
+    if ('error' in rag) {
+      const response: ApiResponse = { success: false, error: rag.error }
+      return reply.status(400).send(response)
+    }
+
+    const metadata = conversationStore.updateConversationMetadata(request.params.id, { rag })
+    if (!metadata) {
+      const response: ApiResponse = { success: false, error: '对话不存在' }
+      return reply.status(404).send(response)
+    }
+
+    const response: ApiResponse<ChatRagSettings> = { success: true, data: rag }
+    return reply.send(response)
+  })
+
   // 删除对话
   fastify.delete<{
     Params: { id: string }
@@ -282,6 +642,124 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
     }
   })
 
+  // 分支操作的错误：消息/分支不存在 → 404，分支重名 → 409
+  function sendBranchError(reply: FastifyReply, error: unknown, fallback: string) {
+    const status =
+      error instanceof BranchError ? (error.code === 'conflict' ? 409 : 404) : 500
+    const response: ApiResponse = {
+      success: false,
+      error: error instanceof Error ? error.message : fallback,
+    }
+    return reply.status(status).send(response)
+  }
+
+  // 列出对话分支
+  fastify.get<{
+    Params: { id: string }
+  }>('/api/chat/conversations/:id/branches', async (request, reply) => {
+    const branches = conversationStore.listBranches(request.params.id)
+
+    const response: ApiResponse<typeof branches> = {
+      success: true,
+      data: branches,
+      meta: {
+        total: branches.length,
+      },
+    }
+    return reply.send(response)
+  })
+
+  // 创建分支（默认从当前分支末尾），并切换到新分支
+  fastify.post<{
+    Params: { id: string }
+    Body: { name?: string; fromMessageId?: string }
+  }>('/api/chat/conversations/:id/branches', async (request, reply) => {
+    try {
+      const branch = conversationStore.createBranch(request.params.id, {
+        ...(request.body?.name ? { name: request.body.name } : {}),
+        ...(request.body?.fromMessageId ? { fromMessageId: request.body.fromMessageId } : {}),
+      })
+      const response: ApiResponse<typeof branch> = { success: true, data: branch }
+      return reply.status(201).send(response)
+    } catch (error) {
+      return sendBranchError(reply, error, '创建分支失败')
+    }
+  })
+
+  // 切换活动分支（分支 ID 或名称）
+  fastify.post<{
+    Params: { id: string; branch: string }
+  }>('/api/chat/conversations/:id/branches/:branch/switch', async (request, reply) => {
+    try {
+      const branch = conversationStore.switchBranch(request.params.id, request.params.branch)
+      const response: ApiResponse<typeof branch> = { success: true, data: branch }
+      return reply.send(response)
+    } catch (error) {
+      return sendBranchError(reply, error, '切换分支失败')
+    }
+  })
+
+  // 切换到包含指定消息的分支（在兄弟消息间切换）
+  fastify.post<{
+    Params: { id: string; messageId: string }
+  }>('/api/chat/conversations/:id/messages/:messageId/switch', async (request, reply) => {
+    try {
+      const branch = conversationStore.switchToMessage(request.params.id, request.params.messageId)
+      const response: ApiResponse<typeof branch> = { success: true, data: branch }
+      return reply.send(response)
+    } catch (error) {
+      return sendBranchError(reply, error, '切换消息失败')
+    }
+  })
+
+  // 编辑用户消息：在新分支上保存修改后的消息并重新生成回复（SSE 流式响应）
+  fastify.post<{
+    Params: { id: string; messageId: string }
+    Body: Omit<ChatRequest, 'conversationId'> & { branchName?: string }
+  }>('/api/chat/conversations/:id/messages/:messageId/edit', async (request, reply) => {
+    const { id, messageId } = request.params
+    const { model, branchName } = request.body
+
+    const userMessage = parseUserMessage(request.body, model)
+    if ('error' in userMessage) {
+      const response: ApiResponse = { success: false, error: userMessage.error }
+      return reply.status(400).send(response)
+    }
+
+    let edited: ReturnType<typeof conversationStore.editMessage>
+    try {
+      edited = conversationStore.editMessage(id, messageId, {
+        ...userMessage,
+        model: modelRouter.resolveModel(model),
+        ...(branchName ? { branchName } : {}),
+      })
+    } catch (error) {
+      return sendBranchError(reply, error, '编辑消息失败')
+    }
+
+    await streamAssistantReply(reply, id, userMessage.content, edited.message.id, model)
+  })
+
+  // 重新生成助手回复：在新分支上生成，原回复保留（SSE 流式响应）
+  fastify.post<{
+    Params: { id: string; messageId: string }
+    Body: { model?: string; branchName?: string }
+  }>('/api/chat/conversations/:id/messages/:messageId/regenerate', async (request, reply) => {
+    const { id, messageId } = request.params
+    const model = request.body?.model
+    const branchName = request.body?.branchName
+
+    let parentId: string
+    try {
+      parentId = conversationStore.branchForRegenerate(id, messageId, branchName).parentId
+    } catch (error) {
+      return sendBranchError(reply, error, '重新生成失败')
+    }
+
+    const parent = conversationStore.getMessage(id, parentId)
+    await streamAssistantReply(reply, id, parent?.content ?? '', parentId, model)
+  })
+
   // SSE 事件流端点
   fastify.get('/api/chat/events', async (request, reply) => {
     const connection = sseManager.createConnection(reply)
@@ -347,24 +825,25 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
     Querystring: { format?: string }
   }>('/api/chat/conversations/:id/export', async (request, reply) => {
     const conversationId = request.params.id
-    const format = (request.query.format as 'json' | 'md') || 'md'
+    const format = (request.query.format || 'md') as ExportFormat
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      const response: ApiResponse = {
+        success: false,
+        error: `不支持的导出格式: ${format}（可选: ${EXPORT_FORMATS.join(', ')}）`,
+      }
+      return reply.status(400).send(response)
+    }
 
     try {
       const exported = conversationStore.export(conversationId, format)
+      const { contentType, extension } = EXPORT_FILE_TYPES[format]
 
-      if (format === 'json') {
-        reply.header('Content-Type', 'application/json')
-        reply.header(
-          'Content-Disposition',
-          `attachment; filename="conversation-${conversationId}.json"`
-        )
-      } else {
-        reply.header('Content-Type', 'text/markdown')
-        reply.header(
-          'Content-Disposition',
-          `attachment; filename="conversation-${conversationId}.md"`
-        )
-      }
+      reply.header('Content-Type', contentType)
+      reply.header(
+        'Content-Disposition',
+        `attachment; filename="conversation-${conversationId}.${extension}"`
+      )
 
       return reply.send(exported)
     } catch (error) {
@@ -376,6 +855,27 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
     }
   })
 
+  // 导入对话（WQBot 归档、ChatGPT/Claude 数据导出中的 conversations.json）
+  fastify.post<{
+    Body: unknown
+  }>('/api/chat/import', { bodyLimit: IMPORT_BODY_LIMIT }, async (request, reply) => {
+    try {
+      const conversations = conversationStore.importConversations(request.body)
+      const response: ApiResponse<typeof conversations> = {
+        success: true,
+        data: conversations,
+        meta: { total: conversations.length },
+      }
+      return reply.status(201).send(response)
+    } catch (error) {
+      const response: ApiResponse = {
+        success: false,
+        error: error instanceof Error ? error.message : '导入失败',
+      }
+      return reply.status(error instanceof ImportError ? 400 : 500).send(response)
+    }
+  })
+
   // 手动压缩上下文
   fastify.post<{
     Params: { id: string }
@@ -397,21 +897,13 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
 
       // 使用优化器进行压缩
       const modelInfo = modelRouter.getModelInfo()
-      const result = await optimizer.optimize(messages as readonly OptimizerMessage[], modelInfo)
-
-      // 标记被压缩的消息
-      const originalIds = new Set(messages.map((m) => m.id))
-      const optimizedIds = new Set(result.messages.map((m) => m.id))
-      const compactedIds = [...originalIds].filter((id) => !optimizedIds.has(id))
+      const result = await optimizer.optimize(
+        messages as readonly OptimizerMessage[],
+        modelInfo,
+        modelRouter.resolveModel()
+      )
 
-      if (compactedIds.length > 0) {
-        conversationStore.markCompacted(compactedIds)
-      }
-
-      // 如果有摘要，添加摘要消息
-      if (result.summaryText) {
-        conversationStore.addSummaryMessage(conversationId, result.summaryText)
-      }
+      saveCompaction(conversationId, messages as readonly OptimizerMessage[], result)
 
       const response: ApiResponse = {
         success: true,
@@ -421,6 +913,7 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
           pruned: result.pruned,
           summarized: result.summarized,
           summaryText: result.summaryText,
+          summary: result.summary,
         },
       }
       return reply.send(response)
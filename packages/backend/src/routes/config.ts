@@ -361,10 +361,110 @@ export async function configRoutes(fastify: FastifyInstance): Promise<void> {
     }
   })
 
-  // GET /api/mcp/status — 获取所有 MCP 服务器状态
+  // GET /api/mcp/status — 获取所有 MCP 服务器状态及调用延迟、错误数等指标
   fastify.get('/api/mcp/status', async (_request, reply) => {
     const { getMCPClientManager } = await import('@wqbot/skills')
     const mcpManager = getMCPClientManager()
-    return reply.send({ success: true, data: mcpManager.getStatus() })
+    return reply.send({ success: true, data: mcpManager.getHealth() })
+  })
+
+  // GET /api/mcp/resources — 列出已连接服务器提供的资源
+  fastify.get('/api/mcp/resources', async (_request, reply) => {
+    const { getMCPClientManager } = await import('@wqbot/skills')
+    return reply.send({ success: true, data: getMCPClientManager().getResources() })
+  })
+
+  // GET /api/mcp/resources/read — 读取资源，返回可直接作为聊天附件的内容分段
+  fastify.get<{
+    Querystring: { server?: string; uri?: string }
+  }>('/api/mcp/resources/read', async (request, reply) => {
+    const { server, uri } = request.query
+    if (!server || !uri) {
+      return reply.status(400).send({ success: false, error: '缺少 server 或 uri 参数' })
+    }
+
+    const { getMCPClientManager } = await import('@wqbot/skills')
+    const mcpManager = getMCPClientManager()
+    if (mcpManager.getStatus()[server]?.status !== 'connected') {
+      return reply.status(404).send({ success: false, error: `MCP 服务器不可用: ${server}` })
+    }
+
+    try {
+      const parts = await mcpManager.readResource(server, uri)
+      return reply.send({ success: true, data: parts })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '读取资源失败'
+      return reply.status(500).send({ success: false, error: message })
+    }
+  })
+
+  // POST/DELETE /api/mcp/resources/subscription — 订阅资源更新（通过 SSE mcp-resource-updated 推送）
+  fastify.post<{
+    Body: { server?: string; uri?: string }
+  }>('/api/mcp/resources/subscription', async (request, reply) => {
+    const { server, uri } = request.body ?? {}
+    if (!server || !uri) {
+      return reply.status(400).send({ success: false, error: '缺少 server 或 uri 参数' })
+    }
+
+    const { getMCPClientManager } = await import('@wqbot/skills')
+    const mcpManager = getMCPClientManager()
+    if (mcpManager.getStatus()[server]?.status !== 'connected') {
+      return reply.status(404).send({ success: false, error: `MCP 服务器不可用: ${server}` })
+    }
+
+    try {
+      await mcpManager.subscribeResource(server, uri)
+      return reply.send({ success: true })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '订阅资源失败'
+      return reply.status(400).send({ success: false, error: message })
+    }
+  })
+
+  fastify.delete<{
+    Body: { server?: string; uri?: string }
+  }>('/api/mcp/resources/subscription', async (request, reply) => {
+    const { server, uri } = request.body ?? {}
+    if (!server || !uri) {
+      return reply.status(400).send({ success: false, error: '缺少 server 或 uri 参数' })
+    }
+
+    try {
+      const { getMCPClientManager } = await import('@wqbot/skills')
+      await getMCPClientManager().unsubscribeResource(server, uri)
+      return reply.send({ success: true })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '取消订阅失败'
+      return reply.status(500).send({ success: false, error: message })
+    }
+  })
+
+  // GET /api/mcp/prompts — 列出已连接服务器提供的提示词
+  fastify.get('/api/mcp/prompts', async (_request, reply) => {
+    const { getMCPClientManager } = await import('@wqbot/skills')
+    return reply.send({ success: true, data: getMCPClientManager().getPrompts() })
+  })
+
+  // POST /api/mcp/prompts/:server/:name — 按参数展开提示词
+  fastify.post<{
+    Params: { server: string; name: string }
+    Body: { arguments?: Record<string, string> }
+  }>('/api/mcp/prompts/:server/:name', async (request, reply) => {
+    const { server, name } = request.params
+    const { getMCPClientManager } = await import('@wqbot/skills')
+    const mcpManager = getMCPClientManager()
+    if (!mcpManager.getPrompts().some((p) => p.clientName === server && p.name === name)) {
+      const error = `MCP 提示词不存在: ${server}/${name}`
+      return reply.status(404).send({ success: false, error })
+    }
+
+    try {
+      const text = await mcpManager.getPrompt(server, name, request.body?.arguments ?? {})
+      return reply.send({ success: true, data: { text } })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '获取提示词失败'
+      return reply.status(400).send({ success: false, error: message })
+    }
   })
 }
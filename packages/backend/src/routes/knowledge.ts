@@ -119,11 +119,19 @@ export async function knowledgeRoutes(fastify: FastifyInstance): Promise<void> {
     }
   })
 
-  // 重新索引
-  fastify.post('/api/knowledge/reindex', async (_request, reply) => {
+  // 重新索引（可只重建指定集合的向量索引），返回重建后的向量索引统计
+  fastify.post<{
+    Body: { collection?: string } | undefined
+  }>('/api/knowledge/reindex', async (request, reply) => {
     try {
-      await manager.reindex()
-      return reply.send({ success: true, data: { message: '重新索引完成' } } satisfies ApiResponse)
+      const collections = await manager.reindex(request.body?.collection)
+      if (!collections) {
+        return reply.status(404).send({ success: false, error: '集合不存在' } satisfies ApiResponse)
+      }
+      return reply.send({
+        success: true,
+        data: { message: '重新索引完成', collections },
+      } satisfies ApiResponse)
     } catch (error) {
       return reply.status(500).send({
         success: false,
@@ -0,0 +1,50 @@
+import type { FastifyInstance, FastifyReply } from 'fastify'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import { createModuleLogger } from '@wqbot/core'
+import { createMCPServer } from '../mcp-server.js'
+
+const logger = createModuleLogger('mcp-route')
+
+export async function mcpRoutes(fastify: FastifyInstance): Promise<void> {
+  // POST /mcp — WQBot 作为 MCP 服务器（Streamable HTTP，无状态：每个请求独立的 server 和 transport）
+  fastify.post('/mcp', async (request, reply) => {
+    const server = createMCPServer(request.auth?.name ?? 'local')
+    // 不设置 sessionIdGenerator 即为无状态模式
+    const transport = new StreamableHTTPServerTransport({ enableJsonResponse: true })
+
+    reply.hijack()
+    reply.raw.on('close', () => {
+      void transport.close()
+      void server.close()
+    })
+
+    try {
+      // sessionId 等可选属性与 exactOptionalPropertyTypes 不兼容，按 Transport 接口传入
+      await server.connect(transport as Transport)
+      await transport.handleRequest(request.raw, reply.raw, request.body)
+    } catch (error) {
+      logger.error('MCP 请求处理失败', error instanceof Error ? error : undefined)
+      if (!reply.raw.headersSent) {
+        reply.raw.writeHead(500, { 'Content-Type': 'application/json' })
+        reply.raw.end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            error: { code: -32603, message: '服务器内部错误' },
+            id: null,
+          })
+        )
+      }
+    }
+  })
+
+  // 无状态模式不支持服务端推送流（GET）和结束会话（DELETE）
+  const methodNotAllowed = async (_request: unknown, reply: FastifyReply): Promise<void> => {
+    await reply
+      .status(405)
+      .header('Allow', 'POST')
+      .send({ jsonrpc: '2.0', error: { code: -32000, message: 'Method not allowed.' }, id: null })
+  }
+  fastify.get('/mcp', methodNotAllowed)
+  fastify.delete('/mcp', methodNotAllowed)
+}
@@ -1,7 +1,9 @@
 import type { FastifyInstance } from 'fastify'
-import { getModelRouter } from '@wqbot/models'
+import { getModelRouter, convertToAITools, hasMediaContent } from '@wqbot/models'
+import type { ChatMessage, ChatOptions, ChatToolCall, ChatToolChoice } from '@wqbot/models'
 import { createModuleLogger, getConfigManager } from '@wqbot/core'
 import type { ModelProvider } from '@wqbot/core'
+import { ContentPartError, fromOpenAIContent } from '../content-parts.js'
 
 const logger = createModuleLogger('openai-compat')
 
@@ -36,15 +38,155 @@ function errorResponse(message: string, type: string, code: string): OpenAIError
   return { error: { message, type, code } }
 }
 
+interface OpenAIToolCall {
+  readonly id: string
+  readonly type: 'function'
+  readonly function: { readonly name: string; readonly arguments: string }
+}
+
+interface OpenAITool {
+  readonly type: string
+  readonly function?: {
+    readonly name?: string
+    readonly description?: string
+    readonly parameters?: Record<string, unknown>
+  }
+}
+
+type OpenAIToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { readonly type: 'function'; readonly function: { readonly name: string } }
+
+interface OpenAIMessage {
+  readonly role: string
+  // 字符串或分段数组（text / image_url / file）
+  readonly content: string | readonly Record<string, unknown>[] | null
+  readonly tool_calls?: readonly OpenAIToolCall[]
+  readonly tool_call_id?: string
+}
+
 interface CompletionRequest {
   readonly model: string
-  readonly messages: readonly { role: string; content: string }[]
+  readonly messages: readonly OpenAIMessage[]
+  readonly tools?: readonly OpenAITool[]
+  readonly tool_choice?: OpenAIToolChoice
   readonly stream?: boolean
   readonly temperature?: number
   readonly max_tokens?: number
   readonly top_p?: number
 }
 
+class InvalidRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code: string
+  ) {
+    super(message)
+    this.name = 'InvalidRequestError'
+  }
+}
+
+function parseArguments(raw: string): unknown {
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    throw new InvalidRequestError(`invalid tool call arguments: ${raw}`, 'invalid_tool_arguments')
+  }
+}
+
+// OpenAI 消息 → ChatMessage；tool 消息通过 tool_call_id 回查工具名
+function toChatMessages(messages: readonly OpenAIMessage[]): ChatMessage[] {
+  const toolNames = new Map<string, string>()
+
+  return messages.map((m) => {
+    const { text: content, parts } = fromOpenAIContent(m.content)
+
+    if (m.role === 'assistant' && m.tool_calls && m.tool_calls.length > 0) {
+      const toolCalls: ChatToolCall[] = m.tool_calls.map((call) => {
+        toolNames.set(call.id, call.function.name)
+        return {
+          toolCallId: call.id,
+          toolName: call.function.name,
+          args: parseArguments(call.function.arguments),
+        }
+      })
+      return { role: 'assistant', content, toolCalls }
+    }
+
+    if (m.role === 'tool') {
+      if (!m.tool_call_id) {
+        throw new InvalidRequestError('tool message requires tool_call_id', 'missing_tool_call_id')
+      }
+      return {
+        role: 'tool',
+        content,
+        toolCallId: m.tool_call_id,
+        toolName: toolNames.get(m.tool_call_id) ?? '',
+      }
+    }
+
+    // developer 角色等同 system
+    const role = m.role === 'developer' ? 'system' : m.role
+    if (role !== 'user' && role !== 'assistant' && role !== 'system') {
+      throw new InvalidRequestError(`unsupported message role: ${m.role}`, 'invalid_role')
+    }
+    // 图片/文件仅支持出现在 user 消息中
+    if (parts && role !== 'user') {
+      throw new InvalidRequestError(
+        `${m.role} messages may only contain text content`,
+        'invalid_content'
+      )
+    }
+    return parts ? { role, content, parts } : { role, content }
+  })
+}
+
+// OpenAI tools → AI SDK tools（客户端工具，不在服务端执行）
+function toTools(tools: readonly OpenAITool[]): Record<string, unknown> {
+  const definitions = tools.map((t) => {
+    if (t.type !== 'function' || !t.function?.name) {
+      throw new InvalidRequestError('each tool must be a function with a name', 'invalid_tools')
+    }
+    return {
+      name: t.function.name,
+      description: t.function.description ?? '',
+      inputSchema: t.function.parameters ?? { type: 'object', properties: {} },
+      source: 'client' as const,
+    }
+  })
+  return convertToAITools(definitions)
+}
+
+function toToolChoice(choice: OpenAIToolChoice): ChatToolChoice {
+  if (typeof choice === 'string') return choice
+  return { toolName: choice.function.name }
+}
+
+// AI SDK finishReason → OpenAI finish_reason
+function toFinishReason(reason: string | undefined): string {
+  switch (reason) {
+    case 'tool-calls':
+      return 'tool_calls'
+    case 'length':
+      return 'length'
+    case 'content-filter':
+      return 'content_filter'
+    default:
+      return 'stop'
+  }
+}
+
+function toOpenAIToolCall(call: ChatToolCall): OpenAIToolCall {
+  return {
+    id: call.toolCallId,
+    type: 'function',
+    function: { name: call.toolName, arguments: JSON.stringify(call.args ?? {}) },
+  }
+}
+
 export async function openaiRoutes(fastify: FastifyInstance): Promise<void> {
   const modelRouter = getModelRouter()
 
@@ -85,7 +227,7 @@ export async function openaiRoutes(fastify: FastifyInstance): Promise<void> {
 
   // POST /v1/chat/completions — OpenAI 兼容对话接口
   fastify.post<{ Body: CompletionRequest }>('/v1/chat/completions', async (request, reply) => {
-    const { model, messages, stream, temperature, max_tokens } = request.body
+    const { model, messages, tools, tool_choice, stream, temperature, max_tokens } = request.body
 
     if (!model) {
       return reply
@@ -105,15 +247,43 @@ export async function openaiRoutes(fastify: FastifyInstance): Promise<void> {
         )
     }
 
-    const chatMessages = messages.map((m) => ({
-      role: m.role as 'user' | 'assistant' | 'system',
-      content: m.content,
-    }))
+    let chatMessages: ChatMessage[]
+    let chatOptions: ChatOptions
+    try {
+      chatMessages = toChatMessages(messages)
+      chatOptions = {
+        model,
+        ...(temperature !== undefined ? { temperature } : {}),
+        ...(max_tokens !== undefined ? { maxTokens: max_tokens } : {}),
+        ...(tools && tools.length > 0 ? { tools: toTools(tools) } : {}),
+        ...(tools && tools.length > 0 && tool_choice
+          ? { toolChoice: toToolChoice(tool_choice) }
+          : {}),
+      }
+    } catch (error) {
+      if (error instanceof InvalidRequestError) {
+        return reply
+          .status(400)
+          .send(errorResponse(error.message, 'invalid_request_error', error.code))
+      }
+      if (error instanceof ContentPartError) {
+        return reply
+          .status(400)
+          .send(errorResponse(error.message, 'invalid_request_error', 'invalid_content'))
+      }
+      throw error
+    }
 
-    const chatOptions = {
-      model,
-      ...(temperature !== undefined ? { temperature } : {}),
-      ...(max_tokens !== undefined ? { maxTokens: max_tokens } : {}),
+    if (hasMediaContent(chatMessages) && !modelRouter.supportsVision(model)) {
+      return reply
+        .status(400)
+        .send(
+          errorResponse(
+            `model ${model} does not support image or file input`,
+            'invalid_request_error',
+            'model_not_vision_capable'
+          )
+        )
     }
 
     // 流式响应
@@ -141,25 +311,55 @@ export async function openaiRoutes(fastify: FastifyInstance): Promise<void> {
           choices: [{ index: 0, delta: { role: 'assistant' }, finish_reason: null }],
         })
 
-        const streamGen = modelRouter.chatStream(chatMessages, chatOptions)
-
-        for await (const text of streamGen) {
+        const sendDelta = (delta: Record<string, unknown>) => {
           sendChunk({
             id,
             object: 'chat.completion.chunk',
             created,
             model,
-            choices: [{ index: 0, delta: { content: text }, finish_reason: null }],
+            choices: [{ index: 0, delta, finish_reason: null }],
           })
         }
 
+        // 客户端工具在 AI SDK 中不会产生 tool-result，服务端执行的工具不透传给客户端
+        const pendingCalls = new Map<string, ChatToolCall>()
+        let finishReason: string | undefined
+
+        for await (const event of modelRouter.chatStreamEvents(chatMessages, chatOptions)) {
+          switch (event.type) {
+            case 'text-delta':
+              sendDelta({ content: event.text })
+              break
+            case 'tool-call':
+              pendingCalls.set(event.toolCallId, event)
+              break
+            case 'tool-result':
+              pendingCalls.delete(event.toolCallId)
+              break
+            case 'finish':
+              finishReason = event.finishReason
+              break
+          }
+        }
+
+        const toolCalls = [...pendingCalls.values()]
+        toolCalls.forEach((call, index) => {
+          sendDelta({ tool_calls: [{ index, ...toOpenAIToolCall(call) }] })
+        })
+
         // 结束 chunk
         sendChunk({
           id,
           object: 'chat.completion.chunk',
           created,
           model,
-          choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+          choices: [
+            {
+              index: 0,
+              delta: {},
+              finish_reason: toolCalls.length > 0 ? 'tool_calls' : toFinishReason(finishReason),
+            },
+          ],
         })
 
         reply.raw.write('data: [DONE]\n\n')
@@ -192,8 +392,14 @@ export async function openaiRoutes(fastify: FastifyInstance): Promise<void> {
         choices: [
           {
             index: 0,
-            message: { role: 'assistant', content: result.content },
-            finish_reason: 'stop',
+            message: result.toolCalls
+              ? {
+                  role: 'assistant',
+                  content: result.content || null,
+                  tool_calls: result.toolCalls.map(toOpenAIToolCall),
+                }
+              : { role: 'assistant', content: result.content },
+            finish_reason: result.toolCalls ? 'tool_calls' : toFinishReason(result.finishReason),
           },
         ],
         usage: result.usage
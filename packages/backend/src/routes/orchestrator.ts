@@ -0,0 +1,144 @@
+import type { FastifyInstance } from 'fastify'
+import {
+  createModuleLogger,
+  generateId,
+  getOrchestrator,
+  type Complexity,
+  type ExecutionPlan,
+  type PlanStepRunner,
+  type TaskComplexity,
+} from '@wqbot/core'
+import { convertToAITools, getModelRouter } from '@wqbot/models'
+import { getAgentManager } from '@wqbot/skills'
+import { getAgentTools } from '../mcp-server.js'
+import { getSSEManager } from '../sse.js'
+import type { ApiResponse } from '../types.js'
+
+const logger = createModuleLogger('orchestrator-route')
+
+// 最近创建的计划（内存中），超出上限时淘汰最早的
+const plans: Map<string, ExecutionPlan> = new Map()
+const MAX_STORED_PLANS = 50
+
+// 意图复杂度映射到模型路由复杂度
+const ROUTER_COMPLEXITY: Record<Complexity, TaskComplexity> = {
+  trivial: 'low',
+  low: 'low',
+  medium: 'medium',
+  high: 'high',
+  critical: 'high',
+}
+
+/**
+ * 以步骤指定的 agent 执行：agent 提示词 + 原始任务 + 前置步骤结果
+ */
+const runPlanStep: PlanStepRunner = async (step, { plan, dependencies }) => {
+  const agent = getAgentManager().get(step.agent)
+  const agentTools = agent ? getAgentTools(agent) : []
+  // 步骤指定的工具在 agent 可用工具中存在时只开放这些工具
+  const stepTools = agentTools.filter((t) => step.tools.includes(t.name))
+  const tools = stepTools.length > 0 ? stepTools : agentTools
+
+  const sections = [`任务：${plan.input}`, `当前步骤：${step.prompt}`]
+  for (const dependency of dependencies) {
+    sections.push(`前置步骤 ${dependency.id} 的结果：\n${String(dependency.result ?? '')}`)
+  }
+
+  const response = await getModelRouter().chatSync(
+    [{ role: 'user', content: sections.join('\n\n') }],
+    {
+      ...(agent?.model
+        ? { model: agent.model }
+        : { complexity: ROUTER_COMPLEXITY[plan.intent.complexity] }),
+      ...(agent?.temperature !== undefined ? { temperature: agent.temperature } : {}),
+      ...(tools.length > 0 ? { tools: convertToAITools(tools) } : {}),
+      ...(agent?.prompt ? { systemPrompt: agent.prompt } : {}),
+    }
+  )
+  return response.content
+}
+
+export async function orchestratorRoutes(fastify: FastifyInstance): Promise<void> {
+  const sseManager = getSSEManager()
+  const orchestrator = getOrchestrator()
+
+  function storePlan(plan: ExecutionPlan): string {
+    const id = generateId()
+    plans.set(id, plan)
+    if (plans.size > MAX_STORED_PLANS) {
+      plans.delete(plans.keys().next().value!)
+    }
+    return id
+  }
+
+  // 分析意图并生成执行计划
+  fastify.post<{
+    Body: { input: string }
+  }>('/api/orchestrator/plan', async (request, reply) => {
+    const input = request.body?.input?.trim()
+    if (!input) {
+      return reply
+        .status(400)
+        .send({ success: false, error: '缺少 input 参数' } satisfies ApiResponse)
+    }
+
+    try {
+      const plan = await orchestrator.createPlan(input)
+      const id = storePlan(plan)
+      return reply.send({ success: true, data: { id, ...plan } } satisfies ApiResponse)
+    } catch (error) {
+      return reply.status(500).send({
+        success: false,
+        error: error instanceof Error ? error.message : '生成计划失败',
+      } satisfies ApiResponse)
+    }
+  })
+
+  // 执行计划（planId 为已生成的计划，或直接传 input），通过 SSE 推送步骤进度
+  fastify.post<{
+    Body: { planId?: string; input?: string; maxConcurrency?: number }
+  }>('/api/orchestrator/run', async (request, reply) => {
+    const { planId, input, maxConcurrency } = request.body ?? {}
+
+    let id = planId
+    let plan = planId ? plans.get(planId) : undefined
+    if (planId && !plan) {
+      return reply.status(404).send({ success: false, error: '计划不存在' } satisfies ApiResponse)
+    }
+    if (!plan && !input?.trim()) {
+      return reply
+        .status(400)
+        .send({ success: false, error: '缺少 planId 或 input 参数' } satisfies ApiResponse)
+    }
+    if (maxConcurrency !== undefined && (!Number.isInteger(maxConcurrency) || maxConcurrency < 1)) {
+      return reply
+        .status(400)
+        .send({ success: false, error: 'maxConcurrency 必须为正整数' } satisfies ApiResponse)
+    }
+
+    const connection = sseManager.createConnection(reply)
+    // 客户端断开后不再启动新的步骤
+    const controller = new AbortController()
+    reply.raw.on('close', () => controller.abort())
+
+    try {
+      if (!plan) {
+        plan = await orchestrator.createPlan(input!.trim())
+        id = storePlan(plan)
+      }
+      sseManager.sendEvent(connection.id, 'plan', { id, ...plan })
+      const result = await orchestrator.executePlan(plan, runPlanStep, {
+        maxConcurrency,
+        signal: controller.signal,
+        onStep: (event) => sseManager.sendEvent(connection.id, 'plan-step', event),
+      })
+      sseManager.sendEvent(connection.id, 'complete', { id, ...result })
+      sseManager.sendStreamEnd(connection.id)
+    } catch (error) {
+      logger.error('执行计划失败', error instanceof Error ? error : undefined)
+      sseManager.sendError(connection.id, error instanceof Error ? error.message : '未知错误')
+    } finally {
+      sseManager.closeConnection(connection.id)
+    }
+  })
+}
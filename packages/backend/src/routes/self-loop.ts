@@ -0,0 +1,161 @@
+import type { FastifyInstance } from 'fastify'
+import {
+  LOOP_TEMPLATES,
+  createChangeExecutor,
+  getLoopController,
+  type LoopEventType,
+  type LoopSession,
+} from '@wqbot/core'
+import { getModelRouter } from '@wqbot/models'
+import { getSSEManager } from '../sse.js'
+import type { ApiResponse } from '../types.js'
+
+// 通过 SSE loop-progress 事件推送的循环事件
+const PROGRESS_EVENTS: readonly LoopEventType[] = [
+  'session:started',
+  'session:completed',
+  'session:failed',
+  'session:cancelled',
+  'iteration:started',
+  'iteration:completed',
+  'iteration:failed',
+  'iteration:approval-required',
+  'phase:changed',
+  'score:updated',
+]
+
+// 列表中的会话摘要（不含迭代详情）
+function toSummary(session: LoopSession) {
+  return {
+    id: session.id,
+    task: session.input.task,
+    projectRoot: session.config.projectRoot,
+    status: session.status,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    initialScore: session.initialScore,
+    finalScore: session.finalScore,
+    iterations: session.iterations.length,
+    improvements: session.improvements.length,
+    error: session.error,
+  }
+}
+
+export async function selfLoopRoutes(fastify: FastifyInstance): Promise<void> {
+  const controller = getLoopController()
+  const sseManager = getSSEManager()
+
+  controller.registerExecutor(
+    'default',
+    createChangeExecutor((request) => getModelRouter().chatText(request))
+  )
+  for (const type of PROGRESS_EVENTS) {
+    controller.on(type, (event) => sseManager.broadcast('loop-progress', event))
+  }
+
+  // 循环历史（运行中的会话 + 已持久化的会话，新的在前）
+  fastify.get<{
+    Querystring: { limit?: string }
+  }>('/api/loops', async (request, reply) => {
+    const limit = request.query.limit ? parseInt(request.query.limit, 10) : 20
+    const sessions = new Map<string, LoopSession>()
+    for (const session of [
+      ...controller.getAllSessions(),
+      ...(await controller.getHistory(limit)),
+    ]) {
+      if (!sessions.has(session.id)) sessions.set(session.id, session)
+    }
+
+    const data = Array.from(sessions.values())
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+      .slice(0, limit)
+      .map(toSummary)
+    return reply.send({ success: true, data } satisfies ApiResponse)
+  })
+
+  // 会话详情（含每轮迭代的问题、变更和得分）
+  fastify.get<{
+    Params: { id: string }
+  }>('/api/loops/:id', async (request, reply) => {
+    const session = await controller.loadSession(request.params.id)
+    if (!session) {
+      return reply
+        .status(404)
+        .send({ success: false, error: '循环会话不存在' } satisfies ApiResponse)
+    }
+    return reply.send({ success: true, data: session } satisfies ApiResponse)
+  })
+
+  // 在后台运行改进循环，立即返回会话；进度通过 SSE loop-progress 事件推送
+  fastify.post<{
+    Body: {
+      task: string
+      projectRoot?: string
+      template?: string
+      maxIterations?: number
+    }
+  }>('/api/loops', async (request, reply) => {
+    const { task, projectRoot, template = 'standard', maxIterations } = request.body ?? {}
+    if (!task?.trim()) {
+      return reply
+        .status(400)
+        .send({ success: false, error: '缺少 task 参数' } satisfies ApiResponse)
+    }
+    if (!Object.hasOwn(LOOP_TEMPLATES, template)) {
+      return reply
+        .status(400)
+        .send({ success: false, error: `未知循环模板: ${template}` } satisfies ApiResponse)
+    }
+
+    const session = controller.createSession(
+      { task: task.trim() },
+      {
+        ...LOOP_TEMPLATES[template as keyof typeof LOOP_TEMPLATES].config,
+        ...(projectRoot ? { projectRoot } : {}),
+        ...(maxIterations ? { maxIterations } : {}),
+      }
+    )
+    // runLoop 内部捕获循环错误，会话状态记录为 failed
+    void controller.runSession(session)
+
+    return reply.status(202).send({ success: true, data: session } satisfies ApiResponse)
+  })
+
+  // 取消运行中的循环（当前迭代结束后停止）
+  fastify.post<{
+    Params: { id: string }
+  }>('/api/loops/:id/cancel', async (request, reply) => {
+    if (!controller.cancelLoop(request.params.id)) {
+      return reply
+        .status(404)
+        .send({ success: false, error: '没有运行中的循环会话' } satisfies ApiResponse)
+    }
+    return reply.send({ success: true } satisfies ApiResponse)
+  })
+
+  // 批准等待审批的变更（approvalRequired 的循环），批准后应用并验证
+  fastify.post<{
+    Params: { id: string }
+  }>('/api/loops/:id/approve', async (request, reply) => {
+    if (!controller.approveChanges(request.params.id)) {
+      return reply
+        .status(404)
+        .send({ success: false, error: '没有等待审批的变更' } satisfies ApiResponse)
+    }
+    return reply.send({ success: true } satisfies ApiResponse)
+  })
+
+  // 拒绝等待审批的变更，原因作为反馈交给下一轮迭代
+  fastify.post<{
+    Params: { id: string }
+    Body: { reason?: string }
+  }>('/api/loops/:id/reject', async (request, reply) => {
+    const reason = request.body?.reason?.trim()
+    if (!controller.rejectChanges(request.params.id, reason || undefined)) {
+      return reply
+        .status(404)
+        .send({ success: false, error: '没有等待审批的变更' } satisfies ApiResponse)
+    }
+    return reply.send({ success: true } satisfies ApiResponse)
+  })
+}
@@ -13,12 +13,20 @@ import type { Locale, Theme } from '@wqbot/core'
 import type { Settings } from '@wqbot/storage'
 import type { ApiResponse } from '../types.js'
 
+// 认证相关设置只能通过 /api/auth 修改，且不对外返回
+const AUTH_SETTING_KEYS: readonly string[] = ['authEnabled', 'adminToken']
+
+function authSettingError(): ApiResponse {
+  return { success: false, error: '认证设置请通过 /api/auth 修改' }
+}
+
 export async function settingsRoutes(fastify: FastifyInstance): Promise<void> {
   const settingsStore = getSettingsStore()
 
   // 获取所有设置（包括 API 配置）
   fastify.get('/api/settings', async (_request, reply) => {
-    const settings = settingsStore.getAll()
+    const { authEnabled: _authEnabled, adminToken: _adminToken, ...settings } =
+      settingsStore.getAll()
     const apiConfig = (await loadApiConfig()) as {
       providers: Record<string, Record<string, unknown>>
       defaultProvider: string
@@ -66,6 +74,9 @@ export async function settingsRoutes(fastify: FastifyInstance): Promise<void> {
   }>('/api/settings', async (request, reply) => {
     try {
       const updates = request.body
+      if (Object.keys(updates).some((key) => AUTH_SETTING_KEYS.includes(key))) {
+        return reply.status(400).send(authSettingError())
+      }
 
       // API 配置相关字段
       const apiKeys = [
@@ -146,6 +157,9 @@ export async function settingsRoutes(fastify: FastifyInstance): Promise<void> {
   fastify.get<{
     Params: { key: string }
   }>('/api/settings/:key', async (request, reply) => {
+    if (AUTH_SETTING_KEYS.includes(request.params.key)) {
+      return reply.status(400).send(authSettingError())
+    }
     const value = settingsStore.get(request.params.key as keyof Settings)
     const response: ApiResponse<{ key: string; value: unknown }> = {
       success: true,
@@ -159,6 +173,9 @@ export async function settingsRoutes(fastify: FastifyInstance): Promise<void> {
     Params: { key: string }
     Body: { value: unknown }
   }>('/api/settings/:key', async (request, reply) => {
+    if (AUTH_SETTING_KEYS.includes(request.params.key)) {
+      return reply.status(400).send(authSettingError())
+    }
     try {
       settingsStore.set(request.params.key as keyof Settings, request.body.value as never)
       const response: ApiResponse = { success: true }
@@ -204,7 +221,11 @@ export async function settingsRoutes(fastify: FastifyInstance): Promise<void> {
   // 重置所有设置
   fastify.post('/api/settings/reset', async (_request, reply) => {
     try {
+      // 重置不影响认证状态
+      const authEnabled = settingsStore.get('authEnabled')
+      const adminToken = settingsStore.get('adminToken')
       settingsStore.reset()
+      settingsStore.setMany({ authEnabled, adminToken })
       const response: ApiResponse = { success: true }
       return reply.send(response)
     } catch (error) {
@@ -1,11 +1,18 @@
 import type { FastifyInstance } from 'fastify'
-import { generateId } from '@wqbot/core'
+import { generateId, type ScheduledTask } from '@wqbot/core'
 import { getSSEManager } from '../sse.js'
+import { getUnattendedMode } from '../unattended.js'
 import type { ApiResponse, ParallelTask } from '../types.js'
 
 // 任务存储（内存中）
 const tasks: Map<string, ParallelTask> = new Map()
 
+// 返回给客户端的定时任务信息（不含处理器，附带接下来的运行时间）
+function toScheduledTaskView(task: ScheduledTask, nextRuns: Date[]) {
+  const { handler: _handler, ...view } = task
+  return { ...view, nextRuns }
+}
+
 export async function tasksRoutes(fastify: FastifyInstance): Promise<void> {
   const sseManager = getSSEManager()
 
@@ -190,4 +197,71 @@ export async function tasksRoutes(fastify: FastifyInstance): Promise<void> {
     }
     return reply.send(response)
   })
+
+  // ===== 无人值守定时任务 =====
+
+  // 列出定时任务（含上次运行时间和接下来 5 次运行时间）
+  fastify.get('/api/tasks/scheduled', async (_request, reply) => {
+    const scheduler = getUnattendedMode()?.scheduler
+    const data = scheduler
+      ? scheduler.getAllTasks().map((t) => toScheduledTaskView(t, scheduler.getNextRuns(t.id)))
+      : []
+    return reply.send({ success: true, data } satisfies ApiResponse)
+  })
+
+  // 定时任务执行历史（新的在前）
+  fastify.get<{
+    Params: { id: string }
+    Querystring: { limit?: string }
+  }>('/api/tasks/scheduled/:id/history', async (request, reply) => {
+    const scheduler = getUnattendedMode()?.scheduler
+    if (!scheduler?.getTask(request.params.id)) {
+      return reply
+        .status(404)
+        .send({ success: false, error: '定时任务不存在' } satisfies ApiResponse)
+    }
+
+    const limit = request.query.limit ? parseInt(request.query.limit, 10) : 20
+    const data = scheduler.getExecutionHistory(request.params.id, limit)
+    return reply.send({ success: true, data } satisfies ApiResponse)
+  })
+
+  // 启用或停用定时任务（状态持久化，重启后保持）
+  fastify.put<{
+    Params: { id: string }
+    Body: { enabled: boolean }
+  }>('/api/tasks/scheduled/:id', async (request, reply) => {
+    const scheduler = getUnattendedMode()?.scheduler
+    if (typeof request.body?.enabled !== 'boolean') {
+      return reply
+        .status(400)
+        .send({ success: false, error: '缺少 enabled 参数' } satisfies ApiResponse)
+    }
+    if (!scheduler?.setTaskEnabled(request.params.id, request.body.enabled)) {
+      return reply
+        .status(404)
+        .send({ success: false, error: '定时任务不存在' } satisfies ApiResponse)
+    }
+
+    const task = scheduler.getTask(request.params.id)!
+    const data = toScheduledTaskView(task, scheduler.getNextRuns(task.id))
+    return reply.send({ success: true, data } satisfies ApiResponse)
+  })
+
+  // 立即运行定时任务（后台执行，结果通过 SSE scheduled-task 事件推送）
+  fastify.post<{
+    Params: { id: string }
+    Body: { args?: Record<string, unknown> }
+  }>('/api/tasks/scheduled/:id/run', async (request, reply) => {
+    const scheduler = getUnattendedMode()?.scheduler
+    if (!scheduler?.getTask(request.params.id)) {
+      return reply
+        .status(404)
+        .send({ success: false, error: '定时任务不存在' } satisfies ApiResponse)
+    }
+
+    // 执行失败记录在执行历史中
+    void scheduler.runTask(request.params.id, request.body?.args)
+    return reply.status(202).send({ success: true } satisfies ApiResponse)
+  })
 }
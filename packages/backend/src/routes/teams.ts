@@ -0,0 +1,265 @@
+import type { FastifyInstance } from 'fastify'
+import {
+  AGENT_ROLES,
+  TEAM_TEMPLATES,
+  createTeamFromTemplate,
+  getCollaborationEngine,
+  getTeamManager,
+  registerModelExecutors,
+  type AgentRole,
+  type CollaborationMode,
+  type Team,
+  type TeamAgentProfile,
+  type ModelChatFn,
+  type TeamChatRequest,
+  type TeamConfig,
+  type TeamMode,
+} from '@wqbot/core'
+import { convertToAITools, getModelRouter } from '@wqbot/models'
+import { getAgentManager } from '@wqbot/skills'
+import { getAgentTools } from '../mcp-server.js'
+import { getSSEManager } from '../sse.js'
+import type { ApiResponse } from '../types.js'
+
+const COLLABORATION_MODES: readonly CollaborationMode[] = [
+  'parallel',
+  'sequential',
+  'iterative',
+  'debate',
+]
+
+const TEAM_MODES: readonly TeamMode[] = ['parallel', 'sequential', 'hierarchical', 'brainstorm']
+
+interface TeamMemberBody {
+  name: string
+  role: AgentRole
+  agent?: string
+  capabilities?: string[]
+}
+
+/**
+ * 成员按各自 agent 的模型、温度和工具权限调用模型
+ */
+const runTeamChat: ModelChatFn<TeamChatRequest> = async (request) => {
+  const def = getAgentManager().get(request.agent.name)
+  const tools = def ? getAgentTools(def) : []
+
+  return getModelRouter().chatText(
+    request,
+    tools.length > 0 ? { tools: convertToAITools(tools) } : {}
+  )
+}
+
+/**
+ * 解析成员使用的 agent：指定名称必须存在；未指定时按成员名查找，再按角色回退到 review / plan / build
+ */
+function resolveAgent(name: string | undefined, member: string, role: AgentRole): TeamAgentProfile {
+  const manager = getAgentManager()
+  if (name) {
+    const agent = manager.get(name)
+    if (!agent) throw new Error(`Agent 不存在: ${name}`)
+    return agent
+  }
+
+  const alias = role === 'reviewer' ? 'review' : role === 'coordinator' ? 'plan' : 'build'
+  return manager.get(member) ?? manager.getByAlias(alias) ?? { name: member, prompt: '' }
+}
+
+// 返回给客户端的团队信息（成员的 agent 只保留名称）
+function toTeamView(team: Team) {
+  return {
+    ...team,
+    members: team.members.map((m) => ({ ...m, agent: m.agent.name })),
+  }
+}
+
+export async function teamsRoutes(fastify: FastifyInstance): Promise<void> {
+  const teamManager = getTeamManager()
+  const engine = getCollaborationEngine()
+  const sseManager = getSSEManager()
+
+  registerModelExecutors(engine, runTeamChat)
+  engine.on('progress', (event) => sseManager.broadcast('team-progress', event))
+
+  // 列出团队
+  fastify.get('/api/teams', async (_request, reply) => {
+    const teams = teamManager.getAllTeams().map(toTeamView)
+    return reply.send({ success: true, data: teams } satisfies ApiResponse)
+  })
+
+  // 列出内置模板
+  fastify.get('/api/teams/templates', async (_request, reply) => {
+    const templates = Object.entries(TEAM_TEMPLATES).map(([key, t]) => ({
+      key,
+      name: t.name,
+      description: t.description,
+      mode: t.mode,
+      roles: t.roles,
+    }))
+    return reply.send({ success: true, data: templates } satisfies ApiResponse)
+  })
+
+  // 创建团队：template 为模板 key（agents 按模板角色顺序指定 agent），或 name + members 自定义
+  fastify.post<{
+    Body: {
+      template?: string
+      agents?: string[]
+      name?: string
+      description?: string
+      mode?: TeamMode
+      members?: TeamMemberBody[]
+      config?: Partial<TeamConfig>
+    }
+  }>('/api/teams', async (request, reply) => {
+    const { template, agents, name, description, mode, members, config } = request.body ?? {}
+    if (mode && !TEAM_MODES.includes(mode)) {
+      return reply
+        .status(400)
+        .send({ success: false, error: `无效团队模式: ${mode}` } satisfies ApiResponse)
+    }
+
+    try {
+      let team: Team
+      if (template) {
+        if (!Object.hasOwn(TEAM_TEMPLATES, template)) {
+          return reply
+            .status(400)
+            .send({ success: false, error: `未知模板: ${template}` } satisfies ApiResponse)
+        }
+        const key = template as keyof typeof TEAM_TEMPLATES
+        team = await createTeamFromTemplate(
+          key,
+          TEAM_TEMPLATES[key].roles.map((role, i) => ({
+            name: role.name,
+            agent: resolveAgent(agents?.[i], role.name, role.role),
+          }))
+        )
+      } else {
+        if (!name || !members || members.length === 0) {
+          return reply.status(400).send({
+            success: false,
+            error: '缺少 template，或 name 和 members 参数',
+          } satisfies ApiResponse)
+        }
+        const invalid = members.find((m) => !AGENT_ROLES.includes(m.role))
+        if (invalid) {
+          return reply
+            .status(400)
+            .send({ success: false, error: `无效角色: ${invalid.role}` } satisfies ApiResponse)
+        }
+        team = teamManager.createTeam(
+          name,
+          members.map((m) => ({
+            name: m.name,
+            role: m.role,
+            agent: resolveAgent(m.agent, m.name, m.role),
+            capabilities: m.capabilities ?? [],
+          })),
+          config,
+          description
+        )
+      }
+      if (mode) team.mode = mode
+
+      return reply.status(201).send({ success: true, data: toTeamView(team) } satisfies ApiResponse)
+    } catch (error) {
+      return reply.status(400).send({
+        success: false,
+        error: error instanceof Error ? error.message : '创建团队失败',
+      } satisfies ApiResponse)
+    }
+  })
+
+  // 解散团队
+  fastify.delete<{
+    Params: { id: string }
+  }>('/api/teams/:id', async (request, reply) => {
+    if (!teamManager.dissolveTeam(request.params.id)) {
+      return reply.status(404).send({ success: false, error: '团队不存在' } satisfies ApiResponse)
+    }
+    return reply.send({ success: true } satisfies ApiResponse)
+  })
+
+  // 在后台运行协作会话，立即返回会话；进度通过 SSE team-progress 事件推送，
+  // 结果通过 /api/teams/sessions/:id 查看。同一团队同时只运行一个会话
+  fastify.post<{
+    Params: { id: string }
+    Body: {
+      task?: string
+      tasks?: { title: string; description?: string; input?: unknown }[]
+      mode?: CollaborationMode
+    }
+  }>('/api/teams/:id/run', async (request, reply) => {
+    const team = teamManager.getTeam(request.params.id)
+    if (!team) {
+      return reply.status(404).send({ success: false, error: '团队不存在' } satisfies ApiResponse)
+    }
+
+    const { task, tasks, mode } = request.body ?? {}
+    const items = tasks ?? (task ? [{ title: task }] : [])
+    if (items.length === 0) {
+      return reply
+        .status(400)
+        .send({ success: false, error: '缺少 task 或 tasks 参数' } satisfies ApiResponse)
+    }
+    if (mode && !COLLABORATION_MODES.includes(mode)) {
+      return reply
+        .status(400)
+        .send({ success: false, error: `无效协作模式: ${mode}` } satisfies ApiResponse)
+    }
+
+    const active = engine.getActiveSession(team.id)
+    if (active) {
+      return reply.status(409).send({
+        success: false,
+        error: `团队正在运行会话 ${active.id}`,
+      } satisfies ApiResponse)
+    }
+
+    const session = engine.createSession(
+      team,
+      items.map((t) => ({
+        title: t.title,
+        ...(t.description ? { description: t.description } : {}),
+        priority: 'normal' as const,
+        dependencies: [],
+        input: t.input,
+      })),
+      mode
+    )
+    // 会话内部捕获执行错误，状态记录为 failed
+    void engine.runSession(session)
+
+    return reply.status(202).send({
+      success: true,
+      data: { session, tasks: engine.getSessionTasks(session.id), team: toTeamView(team) },
+    } satisfies ApiResponse)
+  })
+
+  // 列出协作会话
+  fastify.get('/api/teams/sessions', async (_request, reply) => {
+    return reply.send({ success: true, data: engine.getAllSessions() } satisfies ApiResponse)
+  })
+
+  // 会话详情（含任务和成员间消息）
+  fastify.get<{
+    Params: { id: string }
+  }>('/api/teams/sessions/:id', async (request, reply) => {
+    const session = engine.getSession(request.params.id)
+    if (!session) {
+      return reply.status(404).send({ success: false, error: '会话不存在' } satisfies ApiResponse)
+    }
+
+    const messages = teamManager
+      .getMessages(session.teamId)
+      .filter(
+        (m) =>
+          m.timestamp >= session.startedAt &&
+          (!session.completedAt || m.timestamp <= session.completedAt)
+      )
+    return reply.send({
+      success: true,
+      data: { session, tasks: engine.getSessionTasks(session.id), messages },
+    } satisfies ApiResponse)
+  })
+}
@@ -1,6 +1,7 @@
 import Fastify, { type FastifyInstance } from 'fastify'
 import cors from '@fastify/cors'
-import { createModuleLogger } from '@wqbot/core'
+import { createModuleLogger, getConfigManager } from '@wqbot/core'
+import { getApiKeyStore } from '@wqbot/storage'
 import { chatRoutes } from './routes/chat.js'
 import { configRoutes } from './routes/config.js'
 import { skillsRoutes } from './routes/skills.js'
@@ -9,6 +10,12 @@ import { tasksRoutes } from './routes/tasks.js'
 import { snapshotRoutes } from './routes/snapshot.js'
 import { openaiRoutes } from './routes/openai.js'
 import { knowledgeRoutes } from './routes/knowledge.js'
+import { authRoutes } from './routes/auth.js'
+import { mcpRoutes } from './routes/mcp.js'
+import { orchestratorRoutes } from './routes/orchestrator.js'
+import { teamsRoutes } from './routes/teams.js'
+import { selfLoopRoutes } from './routes/self-loop.js'
+import { registerAuth, isLocalOrigin, isLoopbackHost, writeAdminTokenFile } from './auth.js'
 import { initializeSSE, getSSEManager } from './sse.js'
 
 const logger = createModuleLogger('backend')
@@ -17,12 +24,15 @@ export interface ServerOptions {
   host?: string
   port?: number
   cors?: boolean
+  // 启用 Bearer 令牌认证（持久化到设置）
+  auth?: boolean
 }
 
 const DEFAULT_OPTIONS: Required<ServerOptions> = {
-  host: '0.0.0.0',
+  host: '127.0.0.1',
   port: 3721,
   cors: true,
+  auth: false,
 }
 
 let serverInstance: FastifyInstance | null = null
@@ -32,15 +42,19 @@ export async function createServer(options: ServerOptions = {}): Promise<Fastify
 
   const fastify = Fastify({
     logger: false, // 使用自定义 logger
+    bodyLimit: 32 * 1024 * 1024, // 消息可携带 base64 图片/文件附件
   })
 
   // 初始化 SSE 管理器
   initializeSSE()
 
-  // CORS 支持
+  // CORS 支持（未启用认证时只允许本机来源）
   if (opts.cors) {
+    const authStore = getApiKeyStore()
     await fastify.register(cors, {
-      origin: true,
+      origin: (origin, callback) => {
+        callback(null, !origin || authStore.isAuthEnabled() || isLocalOrigin(origin))
+      },
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
       allowedHeaders: ['Content-Type', 'Authorization'],
       credentials: true,
@@ -52,6 +66,9 @@ export async function createServer(options: ServerOptions = {}): Promise<Fastify
     logger.debug(`${request.method} ${request.url}`)
   })
 
+  // 认证
+  registerAuth(fastify)
+
   // 错误处理
   fastify.setErrorHandler((error, _request, reply) => {
     logger.error('请求错误:', error)
@@ -82,6 +99,11 @@ export async function createServer(options: ServerOptions = {}): Promise<Fastify
   await fastify.register(snapshotRoutes)
   await fastify.register(openaiRoutes)
   await fastify.register(knowledgeRoutes)
+  await fastify.register(authRoutes, { host: opts.host })
+  await fastify.register(mcpRoutes)
+  await fastify.register(orchestratorRoutes)
+  await fastify.register(teamsRoutes)
+  await fastify.register(selfLoopRoutes)
 
   return fastify
 }
@@ -94,6 +116,18 @@ export async function startServer(options: ServerOptions = {}): Promise<FastifyI
     return serverInstance
   }
 
+  // 非回环地址对局域网/公网可见，必须启用认证
+  const authStore = getApiKeyStore()
+  if (opts.auth) {
+    authStore.setAuthEnabled(true)
+  }
+  if (!isLoopbackHost(opts.host) && !authStore.isAuthEnabled()) {
+    throw new Error(`拒绝在非回环地址 ${opts.host} 上启动：未启用认证（使用 --auth 启用）`)
+  }
+  if (authStore.isAuthEnabled()) {
+    writeAdminTokenFile(authStore.ensureAdminToken())
+  }
+
   const fastify = await createServer(opts)
 
   try {
@@ -103,7 +137,12 @@ export async function startServer(options: ServerOptions = {}): Promise<FastifyI
     logger.info(`WQBot 后端服务已启动: http://${opts.host}:${opts.port}`)
     console.log(`\n🚀 WQBot 后端服务已启动`)
     console.log(`   地址: http://${opts.host}:${opts.port}`)
-    console.log(`   健康检查: http://${opts.host}:${opts.port}/api/health\n`)
+    console.log(`   健康检查: http://${opts.host}:${opts.port}/api/health`)
+    console.log(
+      authStore.isAuthEnabled()
+        ? `   认证: 已启用（管理员令牌: ${getConfigManager().getAdminTokenFile()}）\n`
+        : `   认证: 未启用\n`
+    )
 
     return fastify
   } catch (error) {
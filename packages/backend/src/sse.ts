@@ -1,5 +1,7 @@
 import type { FastifyReply } from 'fastify'
 import { generateId } from '@wqbot/core'
+import type { KnowledgeSyncEvent } from '@wqbot/knowledge'
+import type { MCPResourceUpdate, MCPStatusChange } from '@wqbot/skills'
 import type { SSEConnection } from './types.js'
 
 // SSE 连接管理器
@@ -82,6 +84,21 @@ class SSEManager {
     this.broadcast('config-change', { type, name, action })
   }
 
+  // 发送知识库同步进度（目录导入、文件变更）
+  sendKnowledgeSync(event: KnowledgeSyncEvent): void {
+    this.broadcast('knowledge-sync', event)
+  }
+
+  // 发送已订阅 MCP 资源的更新通知
+  sendMcpResourceUpdated(update: MCPResourceUpdate): void {
+    this.broadcast('mcp-resource-updated', update)
+  }
+
+  // 发送 MCP 服务器状态变化（断开、重连中、恢复、失败）
+  sendMcpStatus(change: MCPStatusChange): void {
+    this.broadcast('mcp-status', change)
+  }
+
   // 获取连接数量
   getConnectionCount(): number {
     return this.connections.size
@@ -1,5 +1,6 @@
 import type { FastifyReply } from 'fastify'
-import type { ConfigType } from '@wqbot/core'
+import type { ConfigType, ContentPart } from '@wqbot/core'
+import type { KnowledgeCitation } from '@wqbot/knowledge'
 
 // SSE 连接管理
 export interface SSEConnection {
@@ -23,6 +24,8 @@ export interface ApiResponse<T = unknown> {
 // 聊天请求
 export interface ChatRequest {
   message: string
+  // 图片/文件等多模态分段，与 message 文本一起发送
+  parts?: ContentPart[]
   conversationId?: string
   model?: string
 }
@@ -31,6 +34,18 @@ export interface ChatRequest {
 export interface ChatResponse {
   conversationId: string
   response: string
+  // 实际提供响应的模型与 provider（故障转移后为备用模型）
+  model?: string
+  provider?: string
+  // 自动检索注入的知识库引用（未启用或没有命中时省略）
+  citations?: readonly KnowledgeCitation[]
+}
+
+// 对话级自动检索知识库设置（保存在对话 metadata.rag，优先于 Agent 的 rag 配置）
+export interface ChatRagSettings {
+  enabled: boolean
+  // 只检索指定集合，默认检索全部
+  collection?: string | undefined
 }
 
 // 配置类型（从 core 统一导出，避免重复定义）
@@ -0,0 +1,297 @@
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import {
+  createProjectCheckAnalyzer,
+  getConfigManager,
+  getSnapshotManager,
+  initUnattendedMode,
+  type TaskContext,
+  type TaskEventType,
+  type TaskHandlers,
+  type TaskResult,
+  type UnattendedMode,
+  type UnattendedSettings,
+} from '@wqbot/core'
+import { getKnowledgeManager } from '@wqbot/knowledge'
+import { convertToAITools, getModelRouter } from '@wqbot/models'
+import { getAgentManager, getSkillRegistry } from '@wqbot/skills'
+import { getDatabase, getScheduledTaskStore } from '@wqbot/storage'
+import { getAgentTools } from './mcp-server.js'
+import { getSSEManager } from './sse.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// 日志文件超过此大小时在清理任务中轮转
+const MAX_LOG_BYTES = 10 * 1024 * 1024
+
+// 通过 SSE scheduled-task 事件推送的调度事件
+const PROGRESS_EVENTS: readonly TaskEventType[] = [
+  'task:started',
+  'task:completed',
+  'task:failed',
+  'task:retry',
+]
+
+let unattendedMode: UnattendedMode | undefined
+
+export function getUnattendedMode(): UnattendedMode | undefined {
+  return unattendedMode
+}
+
+// 文件名可排序的时间戳
+function fileTimestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-')
+}
+
+// agent / Markdown 技能任务的提示：args.task，未配置时使用任务名
+function taskPrompt(context: TaskContext): string {
+  const task = context.args?.task
+  return typeof task === 'string' && task.trim() ? task : `执行定时任务: ${context.taskName}`
+}
+
+/**
+ * 删除目录中匹配且修改时间早于 cutoff 的文件，返回删除数量（目录不存在时为 0）
+ */
+async function removeOlderThan(
+  dir: string,
+  match: (name: string) => boolean,
+  cutoff: number
+): Promise<number> {
+  let names: string[]
+  try {
+    names = await fs.readdir(dir)
+  } catch {
+    return 0
+  }
+
+  let removed = 0
+  for (const name of names.filter(match)) {
+    const file = path.join(dir, name)
+    const stat = await fs.stat(file)
+    if (stat.isFile() && stat.mtimeMs < cutoff) {
+      await fs.rm(file, { force: true })
+      removed++
+    }
+  }
+  return removed
+}
+
+/**
+ * 备份数据库到 <dataDir>/backups，只保留最近 keep 份
+ */
+async function backupDatabase(keep: number): Promise<TaskResult> {
+  const dir = path.join(getConfigManager().getDataDir(), 'backups')
+  await fs.mkdir(dir, { recursive: true })
+  const file = path.join(dir, `wqbot-${fileTimestamp()}.db`)
+  getDatabase().backup(file)
+
+  // 文件名按时间排序，删除最旧的
+  const backups = (await fs.readdir(dir)).filter((name) => /^wqbot-.+\.db$/.test(name)).sort()
+  const expired = backups.slice(0, Math.max(0, backups.length - keep))
+  for (const name of expired) {
+    await fs.rm(path.join(dir, name), { force: true })
+  }
+
+  return { success: true, output: { file, removed: expired.length } }
+}
+
+/**
+ * 轮转过大的日志文件，删除过期的轮转日志和自我改进循环历史
+ */
+async function cleanup(retentionDays: number): Promise<TaskResult> {
+  const cutoff = Date.now() - retentionDays * DAY_MS
+  let rotated: string | undefined
+  let removedLogs = 0
+
+  const logFile = getConfigManager().getLogFile()
+  if (logFile) {
+    // 复制后清空：日志以追加模式写入，清空后继续写到文件开头
+    const stat = await fs.stat(logFile).catch(() => undefined)
+    if (stat && stat.size > MAX_LOG_BYTES) {
+      rotated = `${logFile}.${fileTimestamp()}`
+      await fs.copyFile(logFile, rotated)
+      await fs.truncate(logFile, 0)
+    }
+
+    const prefix = `${path.basename(logFile)}.`
+    removedLogs = await removeOlderThan(
+      path.dirname(logFile),
+      (name) => name.startsWith(prefix),
+      cutoff
+    )
+  }
+
+  const removedLoops = await removeOlderThan(
+    path.join(getConfigManager().getDataDir(), 'self-loop'),
+    (name) => name.endsWith('.json'),
+    cutoff
+  )
+
+  return { success: true, output: { rotated, removedLogs, removedLoops } }
+}
+
+function createBuiltInHandlers(
+  settings: UnattendedSettings,
+  projectRoot: string
+): Partial<TaskHandlers> {
+  const handlers: Partial<TaskHandlers> = {
+    // 对项目目录创建快照（不影响项目自身的 git 仓库）
+    'git-sync': async () => {
+      const snapshot = await getSnapshotManager().track(projectRoot, 'scheduled snapshot')
+      return {
+        success: true,
+        output: { hash: snapshot.hash, changedFiles: snapshot.changedFiles.length },
+      }
+    },
+
+    // 运行项目的类型检查、lint 和测试
+    'code-analysis': async () => {
+      const analysis = await createProjectCheckAnalyzer()(
+        { task: 'Scheduled code analysis' },
+        [],
+        projectRoot
+      )
+      return {
+        success: true,
+        output: {
+          score: analysis.score,
+          quality: analysis.quality,
+          issues: analysis.issues.length,
+          suggestions: analysis.suggestions,
+        },
+      }
+    },
+
+    backup: () => backupDatabase(settings.backupKeep),
+    cleanup: () => cleanup(settings.logRetentionDays),
+  }
+
+  // 知识库未启用时不提供索引任务；默认增量同步，args.full 为 true 时完整重建索引
+  if (getKnowledgeManager().isEnabled()) {
+    handlers['knowledge-index'] = async (context) => {
+      if (context.args?.full !== true) {
+        return { success: true, output: await getKnowledgeManager().sync() }
+      }
+      const collection = context.args.collection
+      const stats = await getKnowledgeManager().reindex(
+        typeof collection === 'string' ? collection : undefined
+      )
+      if (!stats) {
+        return { success: false, error: `知识库集合不存在: ${String(collection)}` }
+      }
+      return { success: true, output: stats }
+    }
+  }
+
+  return handlers
+}
+
+/**
+ * skill:<名称>：代码技能直接执行（args.command / args.args 作为输入），
+ * Markdown 技能作为系统提示调用模型
+ */
+async function runSkill(
+  name: string,
+  context: TaskContext,
+  projectRoot: string
+): Promise<TaskResult> {
+  const registry = getSkillRegistry()
+
+  if (registry.get(name)) {
+    const args = context.args ?? {}
+    const result = await registry.execute(name, {
+      input: {
+        command: typeof args.command === 'string' ? args.command : name,
+        args: Array.isArray(args.args) ? args.args.map(String) : [],
+        context: {
+          conversationId: `task_${context.taskId}`,
+          workingDirectory: projectRoot,
+          environment: {},
+        },
+      },
+      // 定时任务由管理员配置，授予技能声明的权限
+      permissions: registry.getRequiredPermissions(name),
+    })
+    return {
+      success: result.success,
+      ...(result.data !== undefined ? { output: result.data } : {}),
+      ...(result.error ? { error: result.error } : {}),
+    }
+  }
+
+  const skill = registry.getMarkdownSkill(name)
+  if (!skill) {
+    return { success: false, error: `技能不存在: ${name}` }
+  }
+  const response = await getModelRouter().chatSync(
+    [{ role: 'user', content: taskPrompt(context) }],
+    {
+      ...(skill.model ? { model: skill.model } : {}),
+      systemPrompt: skill.content,
+    }
+  )
+  return { success: true, output: response.content }
+}
+
+/**
+ * agent:<名称>：以 agent 的提示词、模型和工具权限完成 args.task
+ */
+async function runAgent(name: string, context: TaskContext): Promise<TaskResult> {
+  const agent = getAgentManager().get(name)
+  if (!agent) {
+    return { success: false, error: `Agent 不存在: ${name}` }
+  }
+
+  const tools = getAgentTools(agent)
+  const response = await getModelRouter().chatSync(
+    [{ role: 'user', content: taskPrompt(context) }],
+    {
+      ...(agent.model ? { model: agent.model } : {}),
+      ...(agent.temperature !== undefined ? { temperature: agent.temperature } : {}),
+      ...(tools.length > 0 ? { tools: convertToAITools(tools) } : {}),
+      systemPrompt: agent.prompt,
+    }
+  )
+  return { success: true, output: response.content }
+}
+
+/**
+ * 按配置启动无人值守模式：调度状态和执行历史保存在 SQLite，启动时补跑停机期间错过的任务。
+ * 未启用时返回 undefined；任务引用未知处理器时抛出错误
+ */
+export async function startUnattendedMode(): Promise<UnattendedMode | undefined> {
+  const settings = getConfigManager().getUnattendedConfig()
+  if (!settings?.enabled) {
+    return undefined
+  }
+
+  const projectRoot = path.resolve(settings.projectRoot ?? process.cwd())
+  const mode = await initUnattendedMode(
+    {
+      enabled: true,
+      mode: 'daemon',
+      scheduler: { enabled: true, ...(settings.tasks ? { tasks: settings.tasks } : {}) },
+    },
+    {
+      handlers: createBuiltInHandlers(settings, projectRoot),
+      runSkill: (name, context) => runSkill(name, context, projectRoot),
+      runAgent,
+      store: getScheduledTaskStore(),
+    }
+  )
+  if (!mode) {
+    return undefined
+  }
+
+  const sseManager = getSSEManager()
+  for (const type of PROGRESS_EVENTS) {
+    mode.scheduler.on(type, (event) => sseManager.broadcast('scheduled-task', event))
+  }
+
+  unattendedMode = mode
+  return mode
+}
+
+export function stopUnattendedMode(): void {
+  unattendedMode?.scheduler.stop()
+  unattendedMode = undefined
+}
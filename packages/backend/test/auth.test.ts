@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import Fastify, { type FastifyInstance } from 'fastify'
+
+vi.mock('@wqbot/core', () => ({
+  createModuleLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  getConfigManager: vi.fn(),
+}))
+
+const SCOPE_RANK = { read: 0, chat: 1, admin: 2 } as const
+
+vi.mock('@wqbot/storage', () => ({
+  getApiKeyStore: () => ({
+    isAuthEnabled: () => true,
+    verify: (token: string) => (token === 'read-key' ? { keyId: 'k1', scope: 'read' } : null),
+  }),
+  scopeAllows: (has: keyof typeof SCOPE_RANK, needed: keyof typeof SCOPE_RANK) =>
+    SCOPE_RANK[has] >= SCOPE_RANK[needed],
+}))
+
+import { normalizePath, registerAuth, requiredScope } from '../src/auth.js'
+
+describe('requiredScope', () => {
+  it('classifies paths by prefix and method', () => {
+    expect(requiredScope('GET', '/api/health')).toBeNull()
+    expect(requiredScope('GET', '/api/config')).toBe('admin')
+    expect(requiredScope('POST', '/api/chat/send')).toBe('chat')
+    expect(requiredScope('GET', '/api/conversations?limit=5')).toBe('read')
+    expect(requiredScope('DELETE', '/api/conversations/1')).toBe('admin')
+  })
+
+  it('normalizes encoded, semicolon and duplicate-slash paths', () => {
+    expect(normalizePath('/api/%63onfig')).toBe('/api/config')
+    expect(normalizePath('/api/config;x?y=1')).toBe('/api/config')
+    expect(normalizePath('//api//settings')).toBe('/api/settings')
+    expect(requiredScope('GET', '/api/%61uth/keys')).toBe('admin')
+    expect(requiredScope('GET', '/api/mcp;jsessionid=1')).toBe('admin')
+  })
+})
+
+describe('registerAuth', () => {
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    app = Fastify()
+    registerAuth(app)
+    app.get('/api/config', async () => ({ secret: true }))
+    app.get('/api/conversations', async () => [])
+    await app.ready()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  const get = (url: string) =>
+    app.inject({ method: 'GET', url, headers: { authorization: 'Bearer read-key' } })
+
+  it('allows read keys on read routes', async () => {
+    expect((await get('/api/conversations')).statusCode).toBe(200)
+  })
+
+  it.each(['/api/config', '/api/%63onfig', '/api/config;x', '/api/%63onfig;x?a=1'])(
+    'requires admin for %s',
+    async (url) => {
+      expect((await get(url)).statusCode).toBe(403)
+    }
+  )
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+
+const state = vi.hoisted(() => ({
+  tools: [] as { name: string; description: string; source: string; inputSchema: object }[],
+  agents: [] as {
+    name: string
+    description: string
+    prompt: string
+    hidden?: boolean
+    allowedTools?: string[]
+    deniedTools?: string[]
+  }[],
+  denied: new Set<string>(),
+  chatSync: vi.fn(),
+  search: vi.fn(),
+  audit: { log: vi.fn(), logSecurityViolation: vi.fn() },
+}))
+
+vi.mock('@wqbot/core', () => ({
+  createModuleLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}))
+
+vi.mock('@wqbot/models', () => ({
+  getModelRouter: () => ({ chatSync: state.chatSync }),
+  convertToAITools: (tools: { name: string }[]) =>
+    Object.fromEntries(tools.map((tool) => [tool.name, {}])),
+}))
+
+vi.mock('@wqbot/security', () => ({
+  getPermissionManager: () => ({
+    getToolMode: (tool: string) => (state.denied.has(tool) ? 'deny' : 'allow'),
+  }),
+  getAuditLog: () => state.audit,
+}))
+
+vi.mock('@wqbot/skills', () => ({
+  getAgentManager: () => ({ getAll: () => state.agents }),
+  getAllowedTools: (agent: { allowedTools?: string[] }) => agent.allowedTools,
+  getDeniedTools: (agent: { deniedTools?: string[] }) => agent.deniedTools ?? [],
+  getToolRegistry: () => ({
+    getAll: () =>
+      state.tools.map((tool) => ({
+        ...tool,
+        execute: async () => ({ content: `${tool.name} ran` }),
+      })),
+  }),
+}))
+
+vi.mock('@wqbot/storage', () => ({
+  getConversationStore: () => ({ search: state.search }),
+}))
+
+import { createMCPServer } from '../src/mcp-server.js'
+
+function tool(name: string, source = 'builtin') {
+  return { name, description: name, source, inputSchema: { type: 'object', properties: {} } }
+}
+
+describe('createMCPServer', () => {
+  let client: Client
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    state.tools = [tool('read'), tool('write'), tool('bash'), tool('remote_fetch', 'mcp')]
+    state.agents = [
+      {
+        name: 'reviewer',
+        description: 'Reviews code',
+        prompt: 'You review code.',
+        allowedTools: ['read', 'write', 'bash', 'remote_fetch'],
+        deniedTools: ['write'],
+      },
+      { name: 'secret', description: '', prompt: '', hidden: true },
+    ]
+    state.denied = new Set(['bash'])
+    state.chatSync.mockResolvedValue({ content: 'looks good' })
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await createMCPServer('test-key').connect(serverTransport)
+    client = new Client({ name: 'test', version: '1.0.0' })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('publishes local tools, conversation search and visible agents', async () => {
+    const { tools } = await client.listTools()
+
+    expect(tools.map((t) => t.name)).toEqual([
+      'read',
+      'write',
+      'search_conversations',
+      'agent_reviewer',
+    ])
+  })
+
+  it('neither lists nor calls denied tools', async () => {
+    state.denied.add('agent_reviewer')
+
+    const { tools } = await client.listTools()
+    const result = await client.callTool({ name: 'bash', arguments: {} })
+
+    expect(tools.map((t) => t.name)).not.toContain('agent_reviewer')
+    expect(result.isError).toBe(true)
+    expect(state.audit.logSecurityViolation).toHaveBeenCalledWith('mcp:tool', {
+      tool: 'bash',
+      caller: 'test-key',
+    })
+    await expect(client.callTool({ name: 'agent_reviewer', arguments: {} })).resolves.toMatchObject(
+      { isError: true }
+    )
+    expect(state.chatSync).not.toHaveBeenCalled()
+  })
+
+  it('does not republish tools from other MCP servers', async () => {
+    const result = await client.callTool({ name: 'remote_fetch', arguments: {} })
+
+    expect(result).toMatchObject({ isError: true })
+    expect(state.audit.logSecurityViolation).not.toHaveBeenCalled()
+  })
+
+  it('runs agent tools with only the tools the agent may use', async () => {
+    const result = await client.callTool({
+      name: 'agent_reviewer',
+      arguments: { task: 'review a.ts' },
+    })
+
+    expect(result).toMatchObject({
+      content: [{ type: 'text', text: 'looks good' }],
+      isError: false,
+    })
+    const [messages, options] = state.chatSync.mock.calls[0]!
+    expect(messages).toEqual([{ role: 'user', content: 'review a.ts' }])
+    expect(options.systemPrompt).toBe('You review code.')
+    // write 被 agent 拒绝，bash 被全局拒绝，remote_fetch 来自 MCP 但仍可供 agent 内部使用
+    expect(Object.keys(options.tools)).toEqual(['read', 'remote_fetch'])
+    expect(state.audit.log).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'mcp:tool',
+        userId: 'test-key',
+        details: { tool: 'agent_reviewer' },
+        success: true,
+      })
+    )
+  })
+
+  it('returns conversation search hits as text', async () => {
+    state.search.mockReturnValue([
+      {
+        conversationTitle: 'Deploy',
+        role: 'user',
+        timestamp: new Date('2026-01-02T03:04:05Z'),
+        snippet: 'how to <mark>deploy</mark> the app',
+      },
+    ])
+
+    const result = await client.callTool({
+      name: 'search_conversations',
+      arguments: { query: 'deploy', limit: 500 },
+    })
+
+    expect(state.search).toHaveBeenCalledWith('deploy', { limit: 100 })
+    expect(result).toEqual({
+      content: [
+        { type: 'text', text: '[Deploy] user 2026-01-02T03:04:05.000Z\nhow to deploy the app' },
+      ],
+      isError: false,
+    })
+  })
+
+  it('reports when no conversation matches', async () => {
+    state.search.mockReturnValue([])
+
+    const result = await client.callTool({
+      name: 'search_conversations',
+      arguments: { query: 'nothing' },
+    })
+
+    expect(state.search).toHaveBeenCalledWith('nothing', { limit: 10 })
+    expect(result.content).toEqual([{ type: 'text', text: '未找到与 "nothing" 相关的对话' }])
+  })
+})
@@ -15,10 +15,37 @@ export interface ApiResponse<T = unknown> {
 
 export interface ChatResponse {
   conversationId: string
+  messageId?: string
+  parentId?: string
+  branchId?: string
   response: string
+  model?: string
+  provider?: string
+  finishReason?: string
+  usage?: TokenUsage
+  // 自动检索知识库时引用的来源，对应回答中的 [n]
+  citations?: KnowledgeCitation[]
 }
 
-export type { ConfigItem } from '@wqbot/core'
+export interface KnowledgeCitation {
+  index: number
+  chunkId: string
+  collectionName: string
+  sourceFile: string | null
+  sourceTitle: string | null
+  location: string
+  score: number
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+import type { ContentPart } from '@wqbot/core'
+
+export type { ConfigItem, ContentPart } from '@wqbot/core'
 
 export interface ParallelTask {
   id: string
@@ -36,6 +63,176 @@ export interface Conversation {
   createdAt: string
   updatedAt: string
   messageCount?: number
+  activeBranchId?: string
+  messages?: ConversationMessage[]
+}
+
+// 当前分支上的消息；siblingIds 为同一父消息下的所有回复（含自身）
+export interface ConversationMessage {
+  id: string
+  role: 'user' | 'assistant' | 'system'
+  content: string
+  timestamp: string
+  parentId?: string
+  siblingIds?: string[]
+  isSummary?: boolean
+}
+
+export interface ConversationBranch {
+  id: string
+  conversationId: string
+  name: string
+  headMessageId: string | null
+  createdAt: string
+  updatedAt: string
+  isActive: boolean
+}
+
+export interface SearchResult {
+  conversationId: string
+  conversationTitle: string
+  messageId: string
+  role: 'user' | 'assistant' | 'system'
+  content: string
+  snippet: string
+  timestamp: string
+  isPinned: boolean
+  relevance: number
+}
+
+export interface SearchOptions {
+  role?: 'user' | 'assistant' | 'system'
+  conversationId?: string
+  pinned?: boolean
+  from?: string
+  to?: string
+  limit?: number
+}
+
+export type ExportFormat = 'json' | 'md' | 'html' | 'jsonl' | 'wqbot'
+
+export type ApiKeyScope = 'read' | 'chat' | 'admin'
+
+export interface ApiKeyInfo {
+  id: string
+  name: string
+  scope: ApiKeyScope
+  prefix: string
+  createdAt: string
+  lastUsedAt?: string
+  revokedAt?: string
+}
+
+export interface AuthStatus {
+  enabled: boolean
+  host: string
+  loopback: boolean
+  keyCount: number
+  tokenFile: string
+  caller?: { keyId: string | null; name: string; scope: ApiKeyScope }
+}
+
+export interface McpResource {
+  uri: string
+  name: string
+  description: string
+  mimeType?: string
+  clientName: string
+}
+
+export interface McpPrompt {
+  name: string
+  description: string
+  arguments: { name: string; description: string; required: boolean }[]
+  clientName: string
+}
+
+export type TeamCollaborationMode = 'parallel' | 'sequential' | 'iterative' | 'debate'
+
+export interface TeamInfo {
+  id: string
+  name: string
+  description?: string
+  mode: string
+  members: { id: string; name: string; role: string; agent: string; status: string }[]
+}
+
+export interface TeamTemplate {
+  key: string
+  name: string
+  description: string
+  mode: string
+  roles: { name: string; role: string }[]
+}
+
+export interface TeamTaskResult {
+  id: string
+  title: string
+  status: string
+  assignee?: string
+  iterations: number
+  result?: { output: unknown; approvalStatus?: string; reviewedBy?: string }
+}
+
+export interface TeamRunResult {
+  session: {
+    id: string
+    mode: TeamCollaborationMode
+    status: string
+    error?: string
+    results: { taskId: string; memberId?: string; success: boolean; error?: string }[]
+  }
+  tasks: TeamTaskResult[]
+  team: TeamInfo
+}
+
+export interface TeamSessionDetail {
+  session: TeamRunResult['session']
+  tasks: TeamTaskResult[]
+}
+
+export interface LoopSummary {
+  id: string
+  task: string
+  projectRoot: string
+  status: string
+  startTime: string
+  endTime?: string
+  initialScore?: number
+  finalScore?: number
+  iterations: number
+  improvements: number
+  error?: string
+}
+
+export interface LoopIterationInfo {
+  id: number
+  phase: string
+  status: string
+  score?: number
+  duration: number
+  error?: string
+  checkpoint?: string
+  reverted?: boolean
+  proposal?: { path: string; operation: string }[]
+  output?: {
+    summary: string
+    changes?: { path: string; operation: string }[]
+    nextActions?: string[]
+  }
+}
+
+export interface LoopSessionInfo {
+  id: string
+  input: { task: string }
+  config: { projectRoot: string; maxIterations: number }
+  status: string
+  startTime: string
+  endTime?: string
+  initialScore?: number
+  finalScore?: number
+  iterations: LoopIterationInfo[]
+  error?: string
 }
 
 export interface SSEEvent {
@@ -45,15 +242,25 @@ export interface SSEEvent {
 
 class ApiClient {
   private baseUrl: string
+  private apiKey: string | undefined
 
-  constructor(baseUrl: string = DEFAULT_BASE_URL) {
+  constructor(baseUrl: string = DEFAULT_BASE_URL, apiKey?: string) {
     this.baseUrl = baseUrl
+    this.apiKey = apiKey
   }
 
   setBaseUrl(url: string): void {
     this.baseUrl = url
   }
 
+  setApiKey(apiKey: string | undefined): void {
+    this.apiKey = apiKey
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}
+  }
+
   private async request<T>(path: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
     const url = `${this.baseUrl}${path}`
 
@@ -61,6 +268,7 @@ class ApiClient {
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...this.authHeaders(),
         ...options.headers,
       },
     })
@@ -92,19 +300,47 @@ class ApiClient {
     model?: string,
     onChunk?: (chunk: string) => void,
     onComplete?: (response: ChatResponse) => void,
-    onError?: (error: string) => void
+    onError?: (error: string) => void,
+    onEvent?: (event: SSEEvent) => void,
+    parts?: ContentPart[]
+  ): AbortController {
+    return this.openChatStream(
+      '/api/chat/send',
+      { message, conversationId, model, parts },
+      onChunk,
+      onComplete,
+      onError,
+      onEvent
+    )
+  }
+
+  // 发起 SSE 请求并分发事件（发送、编辑、重新生成共用）
+  private openChatStream(
+    path: string,
+    body: unknown,
+    onChunk?: (chunk: string) => void,
+    onComplete?: (response: ChatResponse) => void,
+    onError?: (error: string) => void,
+    onEvent?: (event: SSEEvent) => void
   ): AbortController {
     const controller = new AbortController()
 
     const sendRequest = async (): Promise<void> => {
       try {
-        const response = await fetch(`${this.baseUrl}/api/chat/send`, {
+        const response = await fetch(`${this.baseUrl}${path}`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ message, conversationId, model }),
+          headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+          body: JSON.stringify(body),
           signal: controller.signal,
         })
 
+        // 请求校验失败（如模型不支持图片）时返回 JSON 错误而非事件流
+        if (!response.ok) {
+          const result = (await response.json().catch(() => null)) as ApiResponse | null
+          onError?.(result?.error ?? `请求失败: ${response.status}`)
+          return
+        }
+
         const reader = response.body?.getReader()
         if (!reader) {
           onError?.('无法获取响应流')
@@ -139,6 +375,13 @@ class ApiClient {
                   case 'error':
                     onError?.(data.message)
                     break
+                  // 工具调用、步骤边界、token 用量
+                  case 'tool-call':
+                  case 'tool-result':
+                  case 'step-finish':
+                  case 'usage':
+                    onEvent?.({ event: currentEvent, data })
+                    break
                 }
               } catch {
                 // 忽略无效 JSON
@@ -167,7 +410,9 @@ class ApiClient {
     model?: string,
     onChunk?: (chunk: string) => void,
     onComplete?: (response: ChatResponse) => void,
-    onError?: (error: string) => void
+    onError?: (error: string) => void,
+    onEvent?: (event: SSEEvent) => void,
+    parts?: ContentPart[]
   ): Promise<{ abort: () => void }> {
     const controller = this.createChatStream(
       message,
@@ -175,7 +420,52 @@ class ApiClient {
       model,
       onChunk,
       onComplete,
-      onError
+      onError,
+      onEvent,
+      parts
+    )
+    return { abort: () => controller.abort() }
+  }
+
+  // 编辑用户消息：在新分支上保存并流式生成新回复
+  async editMessageStream(
+    conversationId: string,
+    messageId: string,
+    message: string,
+    model?: string,
+    onChunk?: (chunk: string) => void,
+    onComplete?: (response: ChatResponse) => void,
+    onError?: (error: string) => void,
+    onEvent?: (event: SSEEvent) => void
+  ): Promise<{ abort: () => void }> {
+    const controller = this.openChatStream(
+      `/api/chat/conversations/${conversationId}/messages/${messageId}/edit`,
+      { message, model },
+      onChunk,
+      onComplete,
+      onError,
+      onEvent
+    )
+    return { abort: () => controller.abort() }
+  }
+
+  // 重新生成助手回复（原回复保留为兄弟节点）
+  async regenerateStream(
+    conversationId: string,
+    messageId: string,
+    model?: string,
+    onChunk?: (chunk: string) => void,
+    onComplete?: (response: ChatResponse) => void,
+    onError?: (error: string) => void,
+    onEvent?: (event: SSEEvent) => void
+  ): Promise<{ abort: () => void }> {
+    const controller = this.openChatStream(
+      `/api/chat/conversations/${conversationId}/messages/${messageId}/regenerate`,
+      { model },
+      onChunk,
+      onComplete,
+      onError,
+      onEvent
     )
     return { abort: () => controller.abort() }
   }
@@ -202,6 +492,53 @@ class ApiClient {
     })
   }
 
+  async searchMessages(
+    query: string,
+    options: SearchOptions = {}
+  ): Promise<ApiResponse<SearchResult[]>> {
+    const params = new URLSearchParams({ q: query })
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined) params.set(key, String(value))
+    }
+    return this.request(`/api/chat/search?${params.toString()}`)
+  }
+
+  // 分支 API
+  async listBranches(conversationId: string): Promise<ApiResponse<ConversationBranch[]>> {
+    return this.request(`/api/chat/conversations/${conversationId}/branches`)
+  }
+
+  async createBranch(
+    conversationId: string,
+    options: { name?: string; fromMessageId?: string | null } = {}
+  ): Promise<ApiResponse<ConversationBranch>> {
+    return this.request(`/api/chat/conversations/${conversationId}/branches`, {
+      method: 'POST',
+      body: JSON.stringify(options),
+    })
+  }
+
+  async switchBranch(
+    conversationId: string,
+    branch: string
+  ): Promise<ApiResponse<ConversationBranch>> {
+    return this.request(
+      `/api/chat/conversations/${conversationId}/branches/${encodeURIComponent(branch)}/switch`,
+      { method: 'POST' }
+    )
+  }
+
+  // 切换到包含指定消息的分支（用于在兄弟回复间切换）
+  async switchToMessage(
+    conversationId: string,
+    messageId: string
+  ): Promise<ApiResponse<ConversationBranch>> {
+    return this.request(
+      `/api/chat/conversations/${conversationId}/messages/${messageId}/switch`,
+      { method: 'POST' }
+    )
+  }
+
   // 配置 API
   async listConfigs(): Promise<ApiResponse<ConfigItem[]>> {
     return this.request('/api/config')
@@ -336,6 +673,76 @@ class ApiClient {
     })
   }
 
+  // 团队 API
+  async listTeams(): Promise<ApiResponse<TeamInfo[]>> {
+    return this.request('/api/teams')
+  }
+
+  async listTeamTemplates(): Promise<ApiResponse<TeamTemplate[]>> {
+    return this.request('/api/teams/templates')
+  }
+
+  async createTeamFromTemplate(template: string): Promise<ApiResponse<TeamInfo>> {
+    return this.request('/api/teams', {
+      method: 'POST',
+      body: JSON.stringify({ template }),
+    })
+  }
+
+  async runTeam(
+    id: string,
+    task: string,
+    mode?: TeamCollaborationMode
+  ): Promise<ApiResponse<TeamRunResult>> {
+    return this.request(`/api/teams/${id}/run`, {
+      method: 'POST',
+      body: JSON.stringify({ task, mode }),
+    })
+  }
+
+  async getTeamSession(id: string): Promise<ApiResponse<TeamSessionDetail>> {
+    return this.request(`/api/teams/sessions/${id}`)
+  }
+
+  async dissolveTeam(id: string): Promise<ApiResponse<void>> {
+    return this.request(`/api/teams/${id}`, { method: 'DELETE' })
+  }
+
+  // 自我改进循环 API
+  async listLoops(limit?: number): Promise<ApiResponse<LoopSummary[]>> {
+    return this.request(`/api/loops${limit ? `?limit=${limit}` : ''}`)
+  }
+
+  async getLoop(id: string): Promise<ApiResponse<LoopSessionInfo>> {
+    return this.request(`/api/loops/${id}`)
+  }
+
+  async runLoop(
+    task: string,
+    projectRoot: string,
+    template?: string
+  ): Promise<ApiResponse<LoopSessionInfo>> {
+    return this.request('/api/loops', {
+      method: 'POST',
+      body: JSON.stringify({ task, projectRoot, template }),
+    })
+  }
+
+  async cancelLoop(id: string): Promise<ApiResponse<void>> {
+    return this.request(`/api/loops/${id}/cancel`, { method: 'POST' })
+  }
+
+  async approveLoop(id: string): Promise<ApiResponse<void>> {
+    return this.request(`/api/loops/${id}/approve`, { method: 'POST' })
+  }
+
+  async rejectLoop(id: string, reason?: string): Promise<ApiResponse<void>> {
+    return this.request(`/api/loops/${id}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    })
+  }
+
   // 设置 API
   async getSettings(): Promise<ApiResponse<Record<string, unknown>>> {
     return this.request('/api/settings')
@@ -403,15 +810,88 @@ class ApiClient {
     })
   }
 
-  async exportConversation(conversationId: string, format: 'json' | 'md' = 'md'): Promise<string> {
+  async exportConversation(conversationId: string, format: ExportFormat = 'md'): Promise<string> {
     const response = await fetch(
-      `${this.baseUrl}/api/chat/conversations/${conversationId}/export?format=${format}`
+      `${this.baseUrl}/api/chat/conversations/${conversationId}/export?format=${format}`,
+      { headers: this.authHeaders() }
     )
     if (!response.ok) {
       throw new Error(`导出失败: ${response.statusText}`)
     }
     return response.text()
   }
+
+  // 导入 WQBot 归档或 ChatGPT/Claude 导出的 conversations.json
+  async importConversations(data: unknown): Promise<ApiResponse<Conversation[]>> {
+    return this.request('/api/chat/import', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  // 认证与 API 密钥
+  async getAuthStatus(): Promise<ApiResponse<AuthStatus>> {
+    return this.request('/api/auth/status')
+  }
+
+  async setAuthEnabled(
+    enabled: boolean
+  ): Promise<ApiResponse<{ enabled: boolean; tokenFile: string }>> {
+    return this.request('/api/auth', {
+      method: 'PUT',
+      body: JSON.stringify({ enabled }),
+    })
+  }
+
+  async listApiKeys(all = false): Promise<ApiResponse<ApiKeyInfo[]>> {
+    return this.request(`/api/auth/keys${all ? '?all=true' : ''}`)
+  }
+
+  async createApiKey(
+    name: string,
+    scope: ApiKeyScope
+  ): Promise<ApiResponse<{ key: ApiKeyInfo; token: string }>> {
+    return this.request('/api/auth/keys', {
+      method: 'POST',
+      body: JSON.stringify({ name, scope }),
+    })
+  }
+
+  async revokeApiKey(id: string): Promise<ApiResponse<void>> {
+    return this.request(`/api/auth/keys/${id}`, { method: 'DELETE' })
+  }
+
+  async rotateAdminToken(): Promise<ApiResponse<{ tokenFile: string }>> {
+    return this.request('/api/auth/admin-token/rotate', { method: 'POST' })
+  }
+
+  // MCP 资源与提示词
+  async listMcpResources(): Promise<ApiResponse<McpResource[]>> {
+    return this.request('/api/mcp/resources')
+  }
+
+  async readMcpResource(server: string, uri: string): Promise<ApiResponse<ContentPart[]>> {
+    const query = new URLSearchParams({ server, uri })
+    return this.request(`/api/mcp/resources/read?${query}`)
+  }
+
+  async listMcpPrompts(): Promise<ApiResponse<McpPrompt[]>> {
+    return this.request('/api/mcp/prompts')
+  }
+
+  async getMcpPrompt(
+    server: string,
+    name: string,
+    args: Record<string, string>
+  ): Promise<ApiResponse<{ text: string }>> {
+    return this.request(
+      `/api/mcp/prompts/${encodeURIComponent(server)}/${encodeURIComponent(name)}`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ arguments: args }),
+      }
+    )
+  }
 }
 
 // 单例实例
@@ -424,8 +904,8 @@ export function getApiClient(): ApiClient {
   return apiClient
 }
 
-export function initializeApiClient(baseUrl?: string): ApiClient {
-  apiClient = new ApiClient(baseUrl)
+export function initializeApiClient(baseUrl?: string, apiKey?: string): ApiClient {
+  apiClient = new ApiClient(baseUrl, apiKey)
   return apiClient
 }
 
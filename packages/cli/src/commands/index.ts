@@ -1,6 +1,19 @@
 // 斜杠命令处理器
 
-import { getApiClient } from '../api.js'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import chalk from 'chalk'
+import {
+  getApiClient,
+  type ApiKeyScope,
+  type ContentPart,
+  type Conversation,
+  type ExportFormat,
+  type LoopSessionInfo,
+  type McpPrompt,
+  type SearchOptions,
+  type TeamCollaborationMode,
+} from '../api.js'
 
 export interface CommandResult {
   success: boolean
@@ -48,7 +61,7 @@ registerCommand({
           `  /${cmd.name.padEnd(15)} ${cmd.description}${cmd.aliases.length > 0 ? ` (别名: ${cmd.aliases.map((a) => '/' + a).join(', ')})` : ''}`
       ),
       '',
-      '提示: 直接输入消息与 AI 对话',
+      '提示: 直接输入消息与 AI 对话，使用 /prompts 查看 MCP 提示词命令',
     ]
 
     return { success: true, message: lines.join('\n') }
@@ -420,12 +433,291 @@ registerCommand({
         return { success: false, message: result.error || '取消失败' }
       }
 
+      case 'approve': {
+        const id = args[1]
+        if (!id) {
+          return { success: false, message: '请指定循环 ID: /loop approve <ID>' }
+        }
+        const result = await api.approveLoop(id)
+        if (result.success) {
+          return { success: true, message: `已批准循环 ${id} 的变更` }
+        }
+        return { success: false, message: result.error || '批准失败' }
+      }
+
+      case 'reject': {
+        const id = args[1]
+        if (!id) {
+          return { success: false, message: '请指定循环 ID: /loop reject <ID> [原因]' }
+        }
+        const result = await api.rejectLoop(id, args.slice(2).join(' ') || undefined)
+        if (result.success) {
+          return { success: true, message: `已拒绝循环 ${id} 的变更` }
+        }
+        return { success: false, message: result.error || '拒绝失败' }
+      }
+
+      default:
+        return { success: false, message: `未知子命令: ${subcommand}` }
+    }
+  },
+})
+
+const TEAM_MODES: readonly TeamCollaborationMode[] = [
+  'parallel',
+  'sequential',
+  'iterative',
+  'debate',
+]
+
+// 团队会话在后台运行，CLI 轮询直到结束
+const TEAM_POLL_INTERVAL = 1000
+
+// 团队命令：模板运行时创建临时团队，结束后解散
+registerCommand({
+  name: 'team',
+  aliases: [],
+  description: '管理多代理团队并运行协作任务',
+  usage: '/team [list|templates|dissolve <ID>] | /team run <模板|团队ID> [--mode <模式>] <任务>',
+  handler: async (args) => {
+    const api = getApiClient()
+    const subcommand = args[0] || 'list'
+
+    switch (subcommand) {
+      case 'list': {
+        const result = await api.listTeams()
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '获取团队列表失败' }
+        }
+        if (result.data.length === 0) {
+          return { success: true, message: '暂无团队，使用 /team templates 查看可用模板' }
+        }
+        const lines = ['团队:', '']
+        for (const team of result.data) {
+          const members = team.members.map((m) => `${m.name}(${m.role})`).join(', ')
+          lines.push(`  ${team.id} ${team.name} [${team.mode}] - ${members}`)
+        }
+        return { success: true, message: lines.join('\n') }
+      }
+
+      case 'templates': {
+        const result = await api.listTeamTemplates()
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '获取团队模板失败' }
+        }
+        const lines = ['团队模板:', '']
+        for (const t of result.data) {
+          lines.push(`  ${t.key.padEnd(16)} ${t.name} [${t.mode}] - ${t.description}`)
+        }
+        return { success: true, message: lines.join('\n') }
+      }
+
+      case 'run': {
+        const target = args[1]
+        const rest = args.slice(2)
+        let mode: TeamCollaborationMode | undefined
+        const modeIndex = rest.indexOf('--mode')
+        if (modeIndex >= 0) {
+          const value = rest[modeIndex + 1] as TeamCollaborationMode | undefined
+          if (!value || !TEAM_MODES.includes(value)) {
+            return { success: false, message: `协作模式可选: ${TEAM_MODES.join(', ')}` }
+          }
+          mode = value
+          rest.splice(modeIndex, 2)
+        }
+        const task = rest.join(' ')
+        if (!target || !task) {
+          return {
+            success: false,
+            message: '用法: /team run <模板|团队ID> [--mode <模式>] <任务>',
+          }
+        }
+
+        const teams = await api.listTeams()
+        let teamId = teams.data?.find((t) => t.id === target)?.id
+        let temporary = false
+        if (!teamId) {
+          const created = await api.createTeamFromTemplate(target)
+          if (!created.success || !created.data) {
+            return { success: false, message: created.error || `未知团队或模板: ${target}` }
+          }
+          teamId = created.data.id
+          temporary = true
+        }
+
+        try {
+          const result = await api.runTeam(teamId, task, mode)
+          if (!result.success || !result.data) {
+            return { success: false, message: result.error || '团队运行失败' }
+          }
+
+          const { team } = result.data
+          let { session, tasks } = result.data
+          while (session.status === 'initializing' || session.status === 'running') {
+            await new Promise((resolve) => setTimeout(resolve, TEAM_POLL_INTERVAL))
+            const detail = await api.getTeamSession(session.id)
+            if (!detail.success || !detail.data) {
+              return { success: false, message: detail.error || '获取团队会话失败' }
+            }
+            session = detail.data.session
+            tasks = detail.data.tasks
+          }
+
+          const names = new Map(team.members.map((m) => [m.id, m.name]))
+          const lines = [`团队 ${team.name} [${session.mode}] ${session.status}`]
+          for (const t of tasks) {
+            const member = t.assignee ? (names.get(t.assignee) ?? t.assignee) : '-'
+            const output = t.result?.output
+            lines.push(
+              '',
+              chalk.cyan(`# ${t.title} (${member}, ${t.iterations} 轮)`),
+              typeof output === 'string' ? output : JSON.stringify(output ?? null, null, 2)
+            )
+          }
+          for (const r of session.results.filter((r) => !r.success)) {
+            lines.push(chalk.red(`任务 ${r.taskId} 失败: ${r.error ?? '未知错误'}`))
+          }
+          return { success: session.status === 'completed', message: lines.join('\n') }
+        } finally {
+          if (temporary) await api.dissolveTeam(teamId)
+        }
+      }
+
+      case 'dissolve': {
+        const id = args[1]
+        if (!id) {
+          return { success: false, message: '请指定团队 ID: /team dissolve <ID>' }
+        }
+        const result = await api.dissolveTeam(id)
+        if (result.success) {
+          return { success: true, message: `已解散团队: ${id}` }
+        }
+        return { success: false, message: result.error || '解散失败' }
+      }
+
       default:
         return { success: false, message: `未知子命令: ${subcommand}` }
     }
   },
 })
 
+// 自我改进循环命令：运行项目的类型检查、lint 和测试，由模型修复问题
+registerCommand({
+  name: 'loop',
+  aliases: [],
+  description: '运行自我改进循环并查看迭代历史',
+  usage:
+    '/loop [list|show <ID>|cancel <ID>|approve <ID>|reject <ID> [原因]] | ' +
+    '/loop run [--template <模板>] <任务>',
+  handler: async (args) => {
+    const api = getApiClient()
+    const subcommand = args[0] || 'list'
+
+    switch (subcommand) {
+      case 'list': {
+        const result = await api.listLoops()
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '获取循环历史失败' }
+        }
+        if (result.data.length === 0) {
+          return { success: true, message: '暂无循环记录，使用 /loop run <任务> 开始' }
+        }
+        const lines = ['循环历史:', '']
+        for (const loop of result.data) {
+          lines.push(
+            `  ${loop.id} [${loop.status}] ${formatScore(loop.initialScore, loop.finalScore)} ` +
+              `${loop.iterations} 轮 - ${loop.task}`
+          )
+        }
+        return { success: true, message: lines.join('\n') }
+      }
+
+      case 'show': {
+        const id = args[1]
+        if (!id) {
+          return { success: false, message: '请指定循环 ID: /loop show <ID>' }
+        }
+        const result = await api.getLoop(id)
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '获取循环详情失败' }
+        }
+        return { success: true, message: formatLoopSession(result.data) }
+      }
+
+      case 'run': {
+        const rest = args.slice(1)
+        let template: string | undefined
+        const templateIndex = rest.indexOf('--template')
+        if (templateIndex >= 0) {
+          template = rest[templateIndex + 1]
+          rest.splice(templateIndex, 2)
+        }
+        const task = rest.join(' ')
+        if (!task) {
+          return { success: false, message: '用法: /loop run [--template <模板>] <任务>' }
+        }
+
+        const result = await api.runLoop(task, process.cwd(), template)
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '启动循环失败' }
+        }
+        return {
+          success: true,
+          message: `已在后台启动循环 ${result.data.id}，使用 /loop show ${result.data.id} 查看进度`,
+        }
+      }
+
+      case 'cancel': {
+        const id = args[1]
+        if (!id) {
+          return { success: false, message: '请指定循环 ID: /loop cancel <ID>' }
+        }
+        const result = await api.cancelLoop(id)
+        if (result.success) {
+          return { success: true, message: `已取消循环: ${id}` }
+        }
+        return { success: false, message: result.error || '取消失败' }
+      }
+
+      default:
+        return { success: false, message: `未知子命令: ${subcommand}` }
+    }
+  },
+})
+
+function formatScore(initial?: number, final?: number): string {
+  if (initial === undefined) return '-'
+  return final === undefined || final === initial ? `${initial}` : `${initial} → ${final}`
+}
+
+function formatLoopSession(session: LoopSessionInfo): string {
+  const lines = [
+    `${session.id} [${session.status}] 得分 ${formatScore(session.initialScore, session.finalScore)}`,
+    `任务: ${session.input.task}`,
+    `目录: ${session.config.projectRoot}`,
+  ]
+  if (session.error) lines.push(chalk.red(`错误: ${session.error}`))
+
+  for (const iteration of session.iterations) {
+    const status =
+      iteration.status === 'completed'
+        ? chalk.green('保留')
+        : iteration.status === 'awaiting-approval'
+          ? chalk.yellow('待审批')
+          : chalk.red(iteration.reverted ? '已回滚' : '失败')
+    const score = iteration.score !== undefined ? ` 得分 ${iteration.score}` : ''
+    lines.push('', chalk.cyan(`#${iteration.id} ${status}${score} (${iteration.duration}ms)`))
+    if (iteration.output?.summary) lines.push(`  ${iteration.output.summary}`)
+    const changes =
+      iteration.status === 'awaiting-approval' ? iteration.proposal : iteration.output?.changes
+    for (const change of changes ?? []) {
+      lines.push(`  ${change.operation} ${change.path}`)
+    }
+    if (iteration.error) lines.push(chalk.gray(`  ${iteration.error}`))
+  }
+  return lines.join('\n')
+}
+
 // 历史命令
 registerCommand({
   name: 'history',
@@ -496,6 +788,275 @@ registerCommand({
   },
 })
 
+// 搜索命令
+registerCommand({
+  name: 'search',
+  aliases: ['find'],
+  description: '全文搜索对话历史',
+  usage:
+    '/search <关键词> [--role user|assistant] [--conv <对话ID>] [--pinned] [--from <日期>] [--to <日期>] [--limit <N>]',
+  handler: async (args) => {
+    const api = getApiClient()
+    const terms: string[] = []
+    const options: SearchOptions = {}
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i]!
+      switch (arg) {
+        case '--role': {
+          const role = args[++i]
+          if (role !== 'user' && role !== 'assistant' && role !== 'system') {
+            return { success: false, message: '--role 仅支持 user、assistant 或 system' }
+          }
+          options.role = role
+          break
+        }
+        case '--conv':
+          options.conversationId = args[++i] ?? ''
+          break
+        case '--pinned':
+          options.pinned = true
+          break
+        case '--from':
+          options.from = args[++i] ?? ''
+          break
+        case '--to':
+          options.to = args[++i] ?? ''
+          break
+        case '--limit':
+          options.limit = parseInt(args[++i] ?? '', 10) || 20
+          break
+        default:
+          terms.push(arg)
+      }
+    }
+
+    if (terms.length === 0) {
+      return { success: false, message: '请指定搜索关键词：/search <关键词>' }
+    }
+
+    const result = await api.searchMessages(terms.join(' '), options)
+    if (!result.success || !result.data) {
+      return { success: false, message: result.error || '搜索失败' }
+    }
+    if (result.data.length === 0) {
+      return { success: true, message: '没有找到匹配的消息' }
+    }
+
+    const lines = [`找到 ${result.data.length} 条匹配消息:`, '']
+    for (const item of result.data) {
+      const date = new Date(item.timestamp).toLocaleString()
+      const pin = item.isPinned ? ' 📌' : ''
+      const snippet = item.snippet
+        .replace(/\n+/g, ' ')
+        .replace(/<mark>(.*?)<\/mark>/g, (_, word: string) => chalk.bold.underline(word))
+      const title = item.conversationTitle || '无标题'
+      lines.push(`  ${title} (${item.conversationId.slice(0, 8)}) · ${item.role} · ${date}${pin}`)
+      lines.push(`    ${snippet}`)
+      lines.push(`    消息 ID: ${item.messageId}`)
+    }
+    return { success: true, message: lines.join('\n') }
+  },
+})
+
+// 获取最近的对话及其当前分支上的消息
+async function getLatestConversation(): Promise<Conversation | null> {
+  const api = getApiClient()
+  const conversationsResult = await api.listConversations(1)
+  const latest = conversationsResult.data?.[0]
+  if (!conversationsResult.success || !latest) return null
+
+  const result = await api.getConversation(latest.id)
+  return result.success && result.data ? result.data : null
+}
+
+// 分支命令
+registerCommand({
+  name: 'branch',
+  aliases: ['br'],
+  description: '查看、创建或切换对话分支',
+  usage: '/branch [list] | /branch new [名称] [--from <消息ID>] | /branch switch <名称|ID>',
+  handler: async (args) => {
+    const api = getApiClient()
+    const subcommand = args[0] ?? 'list'
+
+    const conversation = await getLatestConversation()
+    if (!conversation) {
+      return { success: false, message: '没有找到对话' }
+    }
+
+    switch (subcommand) {
+      case 'list': {
+        const result = await api.listBranches(conversation.id)
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '获取分支失败' }
+        }
+        const lines = ['对话分支:', '']
+        for (const branch of result.data) {
+          const marker = branch.isActive ? chalk.green('*') : ' '
+          const head = branch.headMessageId ? branch.headMessageId.slice(0, 12) : '(空)'
+          lines.push(`  ${marker} ${branch.name} (${branch.id.slice(0, 12)}) → ${head}`)
+        }
+        return { success: true, message: lines.join('\n') }
+      }
+
+      case 'new': {
+        let name: string | undefined
+        let fromMessageId: string | undefined
+        for (let i = 1; i < args.length; i++) {
+          if (args[i] === '--from') {
+            fromMessageId = args[++i]
+          } else {
+            name = args[i]
+          }
+        }
+        const result = await api.createBranch(conversation.id, {
+          ...(name ? { name } : {}),
+          ...(fromMessageId ? { fromMessageId } : {}),
+        })
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '创建分支失败' }
+        }
+        return {
+          success: true,
+          message: `已创建并切换到分支: ${result.data.name}`,
+          data: { reload: conversation.id },
+        }
+      }
+
+      case 'switch': {
+        const target = args[1]
+        if (!target) {
+          return { success: false, message: '请指定分支：/branch switch <名称|ID>' }
+        }
+        const result = await api.switchBranch(conversation.id, target)
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '切换分支失败' }
+        }
+        return {
+          success: true,
+          message: `已切换到分支: ${result.data.name}`,
+          data: { reload: conversation.id },
+        }
+      }
+
+      default:
+        return { success: false, message: `未知子命令: ${subcommand}` }
+    }
+  },
+})
+
+// 重新生成命令
+registerCommand({
+  name: 'regenerate',
+  aliases: ['regen', 'retry'],
+  description: '重新生成 AI 回复（原回复保留，可用 /sibling 切换）',
+  usage: '/regenerate [消息ID]',
+  handler: async (args) => {
+    const conversation = await getLatestConversation()
+    if (!conversation) {
+      return { success: false, message: '没有找到对话' }
+    }
+
+    const messageId =
+      args[0] ?? conversation.messages?.filter((m) => m.role === 'assistant').at(-1)?.id
+    if (!messageId) {
+      return { success: false, message: '当前分支没有可重新生成的回复' }
+    }
+
+    return {
+      success: true,
+      message: '正在重新生成回复...',
+      data: { regenerate: { conversationId: conversation.id, messageId } },
+    }
+  },
+})
+
+// 编辑命令
+registerCommand({
+  name: 'edit',
+  aliases: [],
+  description: '编辑用户消息并在新分支上重新生成回复',
+  usage: '/edit [--id <消息ID>] <新内容>',
+  handler: async (args) => {
+    let messageId: string | undefined
+    const words: string[] = []
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === '--id') {
+        messageId = args[++i]
+      } else {
+        words.push(args[i]!)
+      }
+    }
+
+    const content = words.join(' ')
+    if (!content) {
+      return { success: false, message: '请输入新的消息内容：/edit <新内容>' }
+    }
+
+    const conversation = await getLatestConversation()
+    if (!conversation) {
+      return { success: false, message: '没有找到对话' }
+    }
+
+    messageId ??= conversation.messages?.filter((m) => m.role === 'user').at(-1)?.id
+    if (!messageId) {
+      return { success: false, message: '当前分支没有可编辑的消息' }
+    }
+
+    return {
+      success: true,
+      data: { edit: { conversationId: conversation.id, messageId, content } },
+    }
+  },
+})
+
+// 兄弟回复切换命令
+registerCommand({
+  name: 'sibling',
+  aliases: ['alt'],
+  description: '在同一消息的不同回复/版本之间切换',
+  usage: '/sibling prev|next [消息ID]',
+  handler: async (args) => {
+    const api = getApiClient()
+    const direction = args[0]
+    if (direction !== 'prev' && direction !== 'next') {
+      return { success: false, message: '用法: /sibling prev|next [消息ID]' }
+    }
+
+    const conversation = await getLatestConversation()
+    if (!conversation) {
+      return { success: false, message: '没有找到对话' }
+    }
+
+    // 默认切换当前分支上最后一条有多个版本的消息
+    const messages = conversation.messages ?? []
+    const message = args[1]
+      ? messages.find((m) => m.id === args[1])
+      : messages.filter((m) => m.siblingIds && m.siblingIds.length > 1).at(-1)
+    if (!message?.siblingIds) {
+      return { success: false, message: '没有可切换的回复版本' }
+    }
+
+    const index = message.siblingIds.indexOf(message.id)
+    const nextIndex = direction === 'next' ? index + 1 : index - 1
+    const targetId = message.siblingIds[nextIndex]
+    if (!targetId) {
+      return { success: false, message: direction === 'next' ? '已是最后一个版本' : '已是第一个版本' }
+    }
+
+    const result = await api.switchToMessage(conversation.id, targetId)
+    if (!result.success || !result.data) {
+      return { success: false, message: result.error || '切换失败' }
+    }
+    return {
+      success: true,
+      message: `已切换到版本 ${nextIndex + 1}/${message.siblingIds.length}（分支: ${result.data.name}）`,
+      data: { reload: conversation.id },
+    }
+  },
+})
+
 // 标记命令
 registerCommand({
   name: 'pin',
@@ -551,14 +1112,31 @@ registerCommand({
 })
 
 // 导出命令
+const EXPORT_FORMATS: readonly ExportFormat[] = ['json', 'md', 'html', 'jsonl', 'wqbot']
+
 registerCommand({
   name: 'export',
   aliases: [],
   description: '导出当前对话',
-  usage: '/export [json|md]',
+  usage: '/export [json|md|html|jsonl|wqbot] [--out <文件>]',
   handler: async (args) => {
     const api = getApiClient()
-    const format = args.includes('json') ? 'json' : 'md'
+    let format: ExportFormat = 'md'
+    let outFile: string | undefined
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i]!
+      if (arg === '--out') {
+        outFile = args[++i]
+      } else if ((EXPORT_FORMATS as readonly string[]).includes(arg)) {
+        format = arg as ExportFormat
+      } else {
+        return {
+          success: false,
+          message: `不支持的导出格式: ${arg}（可选: ${EXPORT_FORMATS.join(', ')}）`,
+        }
+      }
+    }
 
     // 获取当前对话
     const conversationsResult = await api.listConversations(1)
@@ -574,17 +1152,184 @@ registerCommand({
 
     try {
       const exported = await api.exportConversation(conversationId, format)
-      const ext = format === 'json' ? 'json' : 'md'
-      console.log(`\n--- 对话导出 (${ext.toUpperCase()}) ---\n`)
+      if (outFile) {
+        const resolved = path.resolve(outFile)
+        await fs.writeFile(resolved, exported)
+        return { success: true, message: `已导出对话到 ${resolved}` }
+      }
+      const label = format.toUpperCase()
+      console.log(`\n--- 对话导出 (${label}) ---\n`)
       console.log(exported)
       console.log(`\n--- 导出结束 ---\n`)
-      return { success: true, message: `已导出对话到 ${ext.toUpperCase()} 格式（见上方）` }
+      return { success: true, message: `已导出对话到 ${label} 格式（见上方）` }
     } catch (error) {
       return { success: false, message: error instanceof Error ? error.message : '导出失败' }
     }
   },
 })
 
+// 导入命令
+registerCommand({
+  name: 'import',
+  aliases: [],
+  description: '导入 WQBot 归档或 ChatGPT/Claude 导出的对话',
+  usage: '/import <文件路径>',
+  handler: async (args) => {
+    const filePath = args.join(' ')
+    if (!filePath) {
+      return { success: false, message: '请指定文件路径: /import <path>' }
+    }
+
+    let data: unknown
+    try {
+      data = JSON.parse(await fs.readFile(path.resolve(filePath), 'utf-8'))
+    } catch (error) {
+      return {
+        success: false,
+        message: `无法读取 JSON 文件: ${error instanceof Error ? error.message : filePath}`,
+      }
+    }
+
+    const result = await getApiClient().importConversations(data)
+    if (!result.success || !result.data) {
+      return { success: false, message: result.error || '导入失败' }
+    }
+
+    const lines = [`已导入 ${result.data.length} 个对话:`, '']
+    for (const conv of result.data) {
+      lines.push(`  ${conv.id.slice(0, 12)} - ${conv.title}`)
+    }
+    return { success: true, message: lines.join('\n') }
+  },
+})
+
+// 认证命令
+const API_KEY_SCOPES: readonly ApiKeyScope[] = ['read', 'chat', 'admin']
+
+// 管理员令牌变化后重新读取本机令牌文件
+async function reloadAdminToken(tokenFile: string): Promise<void> {
+  try {
+    const token = (await fs.readFile(tokenFile, 'utf-8')).trim()
+    if (token) getApiClient().setApiKey(token)
+  } catch {
+    // 远程后端：令牌文件不在本机
+  }
+}
+
+registerCommand({
+  name: 'auth',
+  aliases: ['keys'],
+  description: '管理后端认证和 API 密钥',
+  usage:
+    '/auth [status] | /auth enable|disable | /auth list [--all] | /auth create <名称> [read|chat|admin] | /auth revoke <ID> | /auth rotate',
+  handler: async (args) => {
+    const api = getApiClient()
+    const subcommand = args[0] ?? 'status'
+
+    switch (subcommand) {
+      case 'status': {
+        const result = await api.getAuthStatus()
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '获取认证状态失败' }
+        }
+        const status = result.data
+        const lines = [
+          `认证: ${status.enabled ? chalk.green('已启用') : chalk.yellow('未启用')}`,
+          `监听地址: ${status.host}${status.loopback ? ' (本机)' : ''}`,
+          `API 密钥: ${status.keyCount} 个`,
+          `管理员令牌文件: ${status.tokenFile}`,
+        ]
+        if (status.caller) {
+          lines.push(`当前身份: ${status.caller.name} (${status.caller.scope})`)
+        }
+        return { success: true, message: lines.join('\n') }
+      }
+
+      case 'enable':
+      case 'disable': {
+        const enabled = subcommand === 'enable'
+        const result = await api.setAuthEnabled(enabled)
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '设置认证失败' }
+        }
+        if (enabled) {
+          await reloadAdminToken(result.data.tokenFile)
+        }
+        return {
+          success: true,
+          message: enabled ? `已启用认证，管理员令牌: ${result.data.tokenFile}` : '已关闭认证',
+        }
+      }
+
+      case 'list': {
+        const result = await api.listApiKeys(args.includes('--all'))
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '获取密钥列表失败' }
+        }
+        if (result.data.length === 0) {
+          return { success: true, message: '没有 API 密钥' }
+        }
+        const lines = ['API 密钥:', '']
+        for (const key of result.data) {
+          const lastUsed = key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : '从未使用'
+          const revoked = key.revokedAt ? chalk.red(' [已吊销]') : ''
+          lines.push(
+            `  ${key.id}  ${key.name} (${key.scope})  ${key.prefix}…  ${chalk.gray(lastUsed)}${revoked}`
+          )
+        }
+        return { success: true, message: lines.join('\n') }
+      }
+
+      case 'create': {
+        const name = args[1]
+        const scope = (args[2] ?? 'read') as ApiKeyScope
+        if (!name) {
+          return { success: false, message: '请指定名称：/auth create <名称> [read|chat|admin]' }
+        }
+        if (!API_KEY_SCOPES.includes(scope)) {
+          return { success: false, message: `无效的权限范围: ${scope}` }
+        }
+        const result = await api.createApiKey(name, scope)
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '创建密钥失败' }
+        }
+        return {
+          success: true,
+          message: [
+            `已创建 API 密钥: ${result.data.key.name} (${result.data.key.scope})`,
+            `  ${chalk.cyan(result.data.token)}`,
+            chalk.yellow('该密钥只显示一次，请妥善保存'),
+          ].join('\n'),
+        }
+      }
+
+      case 'revoke': {
+        const id = args[1]
+        if (!id) {
+          return { success: false, message: '请指定密钥 ID：/auth revoke <ID>' }
+        }
+        const result = await api.revokeApiKey(id)
+        if (!result.success) {
+          return { success: false, message: result.error || '吊销密钥失败' }
+        }
+        return { success: true, message: `已吊销密钥: ${id}` }
+      }
+
+      case 'rotate': {
+        const result = await api.rotateAdminToken()
+        if (!result.success || !result.data) {
+          return { success: false, message: result.error || '重新生成管理员令牌失败' }
+        }
+        await reloadAdminToken(result.data.tokenFile)
+        return { success: true, message: `已重新生成管理员令牌: ${result.data.tokenFile}` }
+      }
+
+      default:
+        return { success: false, message: `未知子命令: ${subcommand}` }
+    }
+  },
+})
+
 // 语言命令
 registerCommand({
   name: 'language',
@@ -621,6 +1366,158 @@ registerCommand({
   },
 })
 
+// 常见附件扩展名对应的 MIME 类型
+const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+}
+
+// 附件命令：读取本地文件，随下一条消息发送
+registerCommand({
+  name: 'attach',
+  aliases: ['att'],
+  description: '添加图片或文件附件（随下一条消息发送）',
+  usage: '/attach <文件路径>',
+  handler: async (args) => {
+    const filePath = args.join(' ')
+    if (!filePath) {
+      return { success: false, message: '请指定文件路径: /attach <path>' }
+    }
+
+    const resolved = path.resolve(filePath)
+    const data = (await fs.readFile(resolved)).toString('base64')
+    const filename = path.basename(resolved)
+    const mimeType =
+      ATTACHMENT_MIME_TYPES[path.extname(resolved).toLowerCase()] ?? 'application/octet-stream'
+
+    const attachment: ContentPart = mimeType.startsWith('image/')
+      ? { type: 'image', mimeType, data }
+      : { type: 'file', mimeType, filename, data }
+
+    return {
+      success: true,
+      message: `已添加附件: ${filename}（随下一条消息发送）`,
+      data: { attachment },
+    }
+  },
+})
+
+// MCP 资源命令：列出资源，或读取资源作为附件随下一条消息发送
+registerCommand({
+  name: 'resource',
+  aliases: ['res'],
+  description: '列出 MCP 资源或将资源附加到下一条消息',
+  usage: '/resource [<服务器> <uri>]',
+  handler: async (args) => {
+    const api = getApiClient()
+    const [server, ...rest] = args
+    const uri = rest.join(' ')
+
+    if (!server) {
+      const result = await api.listMcpResources()
+      if (!result.success || !result.data) {
+        return { success: false, message: result.error || '获取 MCP 资源失败' }
+      }
+      if (result.data.length === 0) {
+        return { success: true, message: '没有可用的 MCP 资源' }
+      }
+      const lines = result.data.map((r) => {
+        const description = r.description ? chalk.gray(` - ${r.description}`) : ''
+        return `  ${chalk.cyan(r.clientName)} ${r.uri}${description}`
+      })
+      lines.push('', '使用 /resource <服务器> <uri> 附加到下一条消息')
+      return { success: true, message: ['MCP 资源:', ...lines].join('\n') }
+    }
+
+    if (!uri) {
+      return { success: false, message: '请指定资源 URI: /resource <服务器> <uri>' }
+    }
+
+    const result = await api.readMcpResource(server, uri)
+    if (!result.success || !result.data) {
+      return { success: false, message: result.error || '读取 MCP 资源失败' }
+    }
+    return {
+      success: true,
+      message: `已添加资源: ${uri}（随下一条消息发送）`,
+      data: { attachments: result.data },
+    }
+  },
+})
+
+// MCP 提示词列表：每个提示词可作为 /<服务器>:<提示词> 命令使用
+registerCommand({
+  name: 'prompts',
+  aliases: [],
+  description: '列出可作为斜杠命令使用的 MCP 提示词',
+  handler: async () => {
+    const result = await getApiClient().listMcpPrompts()
+    if (!result.success || !result.data) {
+      return { success: false, message: result.error || '获取 MCP 提示词失败' }
+    }
+    if (result.data.length === 0) {
+      return { success: true, message: '没有可用的 MCP 提示词' }
+    }
+
+    const lines = result.data.map((p) => {
+      const usage = p.arguments.map((a) => (a.required ? ` <${a.name}>` : ` [${a.name}]`)).join('')
+      const description = p.description ? chalk.gray(` - ${p.description}`) : ''
+      return `  /${p.clientName}:${p.name}${usage}${description}`
+    })
+    return { success: true, message: ['MCP 提示词:', ...lines].join('\n') }
+  },
+})
+
+// 参数支持 key=value 和按声明顺序的位置参数，多余的位置参数并入最后一个参数
+function parsePromptArgs(prompt: McpPrompt, args: string[]): Record<string, string> {
+  const values: Record<string, string> = {}
+  const positional: string[] = []
+  const names = new Set(prompt.arguments.map((a) => a.name))
+
+  for (const arg of args) {
+    const eq = arg.indexOf('=')
+    if (eq > 0 && names.has(arg.slice(0, eq))) {
+      values[arg.slice(0, eq)] = arg.slice(eq + 1)
+    } else {
+      positional.push(arg)
+    }
+  }
+
+  const remaining = prompt.arguments.filter((a) => values[a.name] === undefined)
+  remaining.forEach((a, i) => {
+    const value = i === remaining.length - 1 ? positional.slice(i).join(' ') : positional[i]
+    if (value) values[a.name] = value
+  })
+  return values
+}
+
+// 执行 /<服务器>:<提示词>，展开后的提示词作为消息发送
+async function executePromptCommand(commandName: string, args: string[]): Promise<CommandResult> {
+  const api = getApiClient()
+  const result = await api.listMcpPrompts()
+  const prompt = result.data?.find(
+    (p) => `${p.clientName}:${p.name}`.toLowerCase() === commandName.toLowerCase()
+  )
+  if (!prompt) {
+    return { success: false, message: `未知命令: /${commandName}，使用 /help 查看可用命令` }
+  }
+
+  const promptArgs = parsePromptArgs(prompt, args)
+  const rendered = await api.getMcpPrompt(prompt.clientName, prompt.name, promptArgs)
+  if (!rendered.success || !rendered.data) {
+    return { success: false, message: rendered.error || '获取 MCP 提示词失败' }
+  }
+  return { success: true, data: { prompt: rendered.data.text } }
+}
+
 // 解析并执行命令
 export async function executeCommand(input: string): Promise<CommandResult | null> {
   if (!input.startsWith('/')) {
@@ -636,12 +1533,12 @@ export async function executeCommand(input: string): Promise<CommandResult | nul
   }
 
   const command = commands.get(commandName)
-  if (!command) {
+  if (!command && !commandName.includes(':')) {
     return { success: false, message: `未知命令: /${commandName}，使用 /help 查看可用命令` }
   }
 
   try {
-    return await command.handler(args)
+    return command ? await command.handler(args) : await executePromptCommand(parts[0]!, args)
   } catch (error) {
     return {
       success: false,
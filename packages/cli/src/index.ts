@@ -3,14 +3,17 @@ import { render } from 'ink'
 import { Command } from 'commander'
 import chalk from 'chalk'
 import { execSync, spawn, type ChildProcess } from 'node:child_process'
+import * as fs from 'node:fs'
 import { fileURLToPath } from 'node:url'
-import { initializeConfig, isApiConfigured } from '@wqbot/core'
+import { initializeConfig, isApiConfigured, getConfigManager } from '@wqbot/core'
 import { App } from './ui/App.js'
 import { SetupWizard } from './ui/SetupWizard.js'
 import { initializeApiClient } from './api.js'
 
 const VERSION = '0.1.0'
 const DEFAULT_SERVER_PORT = 3721
+const DEFAULT_SERVER_HOST = '127.0.0.1'
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1', '0.0.0.0'])
 
 interface CliOptions {
   model?: string
@@ -21,6 +24,8 @@ interface CliOptions {
   noHistory?: boolean
   standalone?: boolean
   setup?: boolean
+  apiKey?: string
+  auth?: boolean
 }
 
 // 查找 backend 入口文件路径
@@ -39,8 +44,22 @@ function findBunExecutable(): string | null {
   }
 }
 
+// API 密钥：--api-key > WQBOT_API_KEY > 本机管理员令牌文件（仅连接本机后端时）
+function resolveApiKey(host: string, explicit?: string): string | undefined {
+  if (explicit) return explicit
+  if (process.env.WQBOT_API_KEY) return process.env.WQBOT_API_KEY
+  if (!LOOPBACK_HOSTS.has(host)) return undefined
+
+  const tokenFile = getConfigManager().getAdminTokenFile()
+  try {
+    return fs.readFileSync(tokenFile, 'utf-8').trim() || undefined
+  } catch {
+    return undefined
+  }
+}
+
 // 启动后端进程
-function spawnBackend(host: string, port: number): ChildProcess {
+function spawnBackend(host: string, port: number, auth = false): ChildProcess {
   const backendPath = resolveBackendPath()
   const bunPath = findBunExecutable()
 
@@ -51,7 +70,8 @@ function spawnBackend(host: string, port: number): ChildProcess {
     process.exit(1)
   }
 
-  const child = spawn(bunPath, [backendPath, '--port', String(port), '--host', host], {
+  const args = [backendPath, '--port', String(port), '--host', host, ...(auth ? ['--auth'] : [])]
+  const child = spawn(bunPath, args, {
     stdio: ['ignore', 'pipe', 'pipe'],
     detached: false,
   })
@@ -104,7 +124,9 @@ async function main(): Promise<void> {
     .option('--serve', '启动后端服务（供 GUI 使用）')
     .option('--standalone', '独立模式，连接远程后端')
     .option('--port <port>', '服务端口', String(DEFAULT_SERVER_PORT))
-    .option('--host <host>', '服务地址', '0.0.0.0')
+    .option('--host <host>', '服务地址（非回环地址需启用认证）', DEFAULT_SERVER_HOST)
+    .option('--auth', '启用 Bearer 令牌认证')
+    .option('--api-key <key>', 'API 密钥（默认读取 WQBOT_API_KEY 或本机管理员令牌）')
     .option('--no-history', '不加载历史记录')
     .option('--setup', '重新运行配置向导')
     .action(async (messageParts: string[], options: CliOptions) => {
@@ -124,13 +146,13 @@ async function main(): Promise<void> {
       }
 
       const port = parseInt(options.port || String(DEFAULT_SERVER_PORT), 10)
-      const host = options.host || '0.0.0.0'
+      const host = options.host || DEFAULT_SERVER_HOST
       const baseUrl = `http://${host}:${port}`
       const message = messageParts.join(' ')
 
       // serve 模式：仅启动后端，不渲染 UI
       if (options.serve) {
-        const backendProcess = spawnBackend(host, port)
+        const backendProcess = spawnBackend(host, port, options.auth)
         backendProcess.stdout?.pipe(process.stdout)
 
         backendProcess.on('exit', (code) => {
@@ -144,7 +166,7 @@ async function main(): Promise<void> {
 
       // standalone 模式：连接远程后端，不 spawn
       if (options.standalone) {
-        initializeApiClient(baseUrl)
+        initializeApiClient(baseUrl, resolveApiKey(host, options.apiKey))
 
         try {
           await waitForBackend(baseUrl, 5000)
@@ -167,7 +189,7 @@ async function main(): Promise<void> {
       }
 
       // 默认模式：spawn backend → 等待就绪 → 渲染 UI
-      const backendProcess = spawnBackend(host, port)
+      const backendProcess = spawnBackend(host, port, options.auth)
 
       try {
         await waitForBackend(baseUrl)
@@ -180,7 +202,8 @@ async function main(): Promise<void> {
         process.exit(1)
       }
 
-      initializeApiClient(baseUrl)
+      // 后端启用认证时会在就绪前写入管理员令牌文件
+      initializeApiClient(baseUrl, resolveApiKey(host, options.apiKey))
 
       const cleanup = (): void => {
         try {
@@ -213,12 +236,13 @@ async function main(): Promise<void> {
     .command('serve')
     .description('启动后端服务（供 GUI 使用）')
     .option('-p, --port <port>', '服务端口', String(DEFAULT_SERVER_PORT))
-    .option('-H, --host <host>', '服务地址', '127.0.0.1')
-    .action(async (options: { port?: string; host?: string }) => {
+    .option('-H, --host <host>', '服务地址（非回环地址需启用认证）', DEFAULT_SERVER_HOST)
+    .option('--auth', '启用 Bearer 令牌认证')
+    .action(async (options: { port?: string; host?: string; auth?: boolean }) => {
       const port = parseInt(options.port || String(DEFAULT_SERVER_PORT), 10)
-      const host = options.host || '0.0.0.0'
+      const host = options.host || DEFAULT_SERVER_HOST
 
-      const backendProcess = spawnBackend(host, port)
+      const backendProcess = spawnBackend(host, port, options.auth)
       backendProcess.stdout?.pipe(process.stdout)
 
       backendProcess.on('exit', (code) => {
@@ -3,11 +3,19 @@ import { Box, Text, useApp, useInput } from 'ink'
 import { Welcome } from './Welcome.js'
 import { StatusBar } from './StatusBar.js'
 import { TaskPanel } from './TaskPanel.js'
-import { Message, StreamingMessage } from './Message.js'
+import { Message, StreamingMessage, type ToolActivity } from './Message.js'
 import { InputBox } from './Input.js'
 import { LoadingSpinner } from './Spinner.js'
 import { executeCommand } from '../commands/index.js'
-import { getApiClient, type ConfigItem, type ParallelTask } from '../api.js'
+import {
+  getApiClient,
+  type ChatResponse,
+  type ConfigItem,
+  type ContentPart,
+  type ConversationMessage,
+  type ParallelTask,
+  type SSEEvent,
+} from '../api.js'
 
 const VERSION = '0.1.0'
 
@@ -16,8 +24,38 @@ interface ChatMessage {
   role: 'user' | 'assistant' | 'system'
   content: string
   timestamp: Date
+  tools?: ToolActivity[]
+  totalTokens?: number
+  // 同一父消息下的版本位置（编辑/重新生成后出现）
+  siblingIndex?: number
+  siblingCount?: number
 }
 
+// 启动一次流式请求（发送、编辑、重新生成）
+type StreamStart = (
+  onChunk: (chunk: string) => void,
+  onComplete: (response: ChatResponse) => void,
+  onError: (error: string) => void,
+  onEvent: (event: SSEEvent) => void
+) => Promise<unknown>
+
+// /edit、/regenerate 命令指定的消息
+interface MessageTarget {
+  conversationId: string
+  messageId: string
+}
+
+// 服务端消息 → 界面消息
+const toChatMessage = (msg: ConversationMessage): ChatMessage => ({
+  id: msg.id,
+  role: msg.role,
+  content: msg.content,
+  timestamp: new Date(msg.timestamp),
+  ...(msg.siblingIds
+    ? { siblingIndex: msg.siblingIds.indexOf(msg.id), siblingCount: msg.siblingIds.length }
+    : {}),
+})
+
 interface AppProps {
   initialMessage?: string
   model?: string
@@ -39,10 +77,13 @@ export const App: React.FC<AppProps> = ({
   const [isLoading, setIsLoading] = useState(false)
   const [streamingContent, setStreamingContent] = useState('')
   const [isStreaming, setIsStreaming] = useState(false)
+  const [streamingTools, setStreamingTools] = useState<ToolActivity[]>([])
   const [model] = useState(initialModel)
   const [conversationId, setConversationId] = useState(initialConversationId)
   const [systemMessage, setSystemMessage] = useState<string | null>(null)
   const [showWelcome, setShowWelcome] = useState(!initialMessage)
+  // /attach 添加的附件，随下一条消息发送
+  const [attachments, setAttachments] = useState<ContentPart[]>([])
 
   // 加载配置
   useEffect(() => {
@@ -87,43 +128,56 @@ export const App: React.FC<AppProps> = ({
     }
   }, [])
 
-  // 发送消息
-  const sendMessage = useCallback(
-    async (content: string): Promise<void> => {
-      const userMessage: ChatMessage = {
-        id: Date.now().toString(),
-        role: 'user',
-        content,
-        timestamp: new Date()
-      }
+  // 从服务端重新加载当前分支的消息（切换分支、编辑、重新生成后）
+  const loadConversation = useCallback(async (id: string): Promise<void> => {
+    const result = await getApiClient().getConversation(id)
+    if (result.success && result.data) {
+      setConversationId(id)
+      setMessages((result.data.messages ?? []).filter((m) => !m.isSummary).map(toChatMessage))
+      setShowWelcome(false)
+    }
+  }, [])
 
-      setMessages((prev) => [...prev, userMessage])
+  // 流式接收助手回复；reload 为 true 时完成后从服务端刷新（以获取分支和版本信息）
+  const streamReply = useCallback(
+    async (start: StreamStart, reload: boolean): Promise<void> => {
       setIsLoading(true)
       setShowWelcome(false)
 
       try {
         setIsStreaming(true)
         setStreamingContent('')
+        setStreamingTools([])
 
-        const api = getApiClient()
-        await api.sendMessageStream(
-          content,
-          conversationId,
-          model,
+        // 本轮工具活动（同时用于实时展示和最终消息）
+        let tools: ToolActivity[] = []
+        const updateTools = (next: ToolActivity[]): void => {
+          tools = next
+          setStreamingTools(next)
+        }
+
+        await start(
           (chunk) => {
             setStreamingContent((prev) => prev + chunk)
           },
           (response) => {
             setConversationId(response.conversationId)
-            const assistantMessage: ChatMessage = {
-              id: Date.now().toString(),
-              role: 'assistant',
-              content: response.response,
-              timestamp: new Date()
+            if (reload) {
+              void loadConversation(response.conversationId)
+            } else {
+              const assistantMessage: ChatMessage = {
+                id: response.messageId ?? Date.now().toString(),
+                role: 'assistant',
+                content: response.response,
+                timestamp: new Date(),
+                tools,
+                ...(response.usage ? { totalTokens: response.usage.totalTokens } : {})
+              }
+              setMessages((prev) => [...prev, assistantMessage])
             }
-            setMessages((prev) => [...prev, assistantMessage])
             setIsStreaming(false)
             setStreamingContent('')
+            setStreamingTools([])
             setIsLoading(false)
 
             if (singleMode) {
@@ -134,7 +188,35 @@ export const App: React.FC<AppProps> = ({
             setSystemMessage(`错误: ${error}`)
             setIsStreaming(false)
             setStreamingContent('')
+            setStreamingTools([])
             setIsLoading(false)
+          },
+          ({ event, data }) => {
+            const payload = data as {
+              toolCallId: string
+              toolName: string
+              args: unknown
+              result?: unknown
+            }
+            if (event === 'tool-call') {
+              updateTools([
+                ...tools,
+                {
+                  toolCallId: payload.toolCallId,
+                  toolName: payload.toolName,
+                  args: payload.args,
+                  done: false
+                }
+              ])
+            } else if (event === 'tool-result') {
+              updateTools(
+                tools.map((tool) =>
+                  tool.toolCallId === payload.toolCallId
+                    ? { ...tool, result: payload.result, done: true }
+                    : tool
+                )
+              )
+            }
           }
         )
       } catch (error) {
@@ -143,7 +225,106 @@ export const App: React.FC<AppProps> = ({
         setIsStreaming(false)
       }
     },
-    [conversationId, model, singleMode, exit]
+    [singleMode, exit, loadConversation]
+  )
+
+  // 发送消息
+  const sendMessage = useCallback(
+    async (content: string): Promise<void> => {
+      const parts = attachments
+      const attachmentNames = parts.map((part) =>
+        part.type === 'file' ? (part.filename ?? part.mimeType) : '图片'
+      )
+      const userMessage: ChatMessage = {
+        id: Date.now().toString(),
+        role: 'user',
+        content:
+          parts.length > 0
+            ? `${content}\n${attachmentNames.map((name) => `📎 ${name}`).join('\n')}`
+            : content,
+        timestamp: new Date()
+      }
+      setAttachments([])
+
+      setMessages((prev) => [...prev, userMessage])
+
+      const api = getApiClient()
+      await streamReply(
+        (onChunk, onComplete, onError, onEvent) =>
+          api.sendMessageStream(
+            content,
+            conversationId,
+            model,
+            onChunk,
+            onComplete,
+            onError,
+            onEvent,
+            parts.length > 0 ? parts : undefined
+          ),
+        false
+      )
+    },
+    [conversationId, model, attachments, streamReply]
+  )
+
+  // 编辑用户消息：界面上截断到该消息并替换内容，回复完成后刷新
+  const editMessage = useCallback(
+    async (target: MessageTarget & { content: string }): Promise<void> => {
+      setMessages((prev) => {
+        const index = prev.findIndex((m) => m.id === target.messageId)
+        const kept = index >= 0 ? prev.slice(0, index) : prev
+        const edited: ChatMessage = {
+          id: Date.now().toString(),
+          role: 'user',
+          content: target.content,
+          timestamp: new Date()
+        }
+        return [...kept, edited]
+      })
+
+      const api = getApiClient()
+      await streamReply(
+        (onChunk, onComplete, onError, onEvent) =>
+          api.editMessageStream(
+            target.conversationId,
+            target.messageId,
+            target.content,
+            model,
+            onChunk,
+            onComplete,
+            onError,
+            onEvent
+          ),
+        true
+      )
+    },
+    [model, streamReply]
+  )
+
+  // 重新生成助手回复：界面上移除原回复，完成后刷新
+  const regenerate = useCallback(
+    async (target: MessageTarget): Promise<void> => {
+      setMessages((prev) => {
+        const index = prev.findIndex((m) => m.id === target.messageId)
+        return index >= 0 ? prev.slice(0, index) : prev
+      })
+
+      const api = getApiClient()
+      await streamReply(
+        (onChunk, onComplete, onError, onEvent) =>
+          api.regenerateStream(
+            target.conversationId,
+            target.messageId,
+            model,
+            onChunk,
+            onComplete,
+            onError,
+            onEvent
+          ),
+        true
+      )
+    },
+    [model, streamReply]
   )
 
   // 处理输入
@@ -156,6 +337,36 @@ export const App: React.FC<AppProps> = ({
           if (result.message) {
             setSystemMessage(result.message)
           }
+          const data = result.data as
+            | {
+                attachment?: ContentPart
+                attachments?: ContentPart[]
+                prompt?: string
+                reload?: string
+                edit?: MessageTarget & { content: string }
+                regenerate?: MessageTarget
+              }
+            | undefined
+          if (data?.attachment) {
+            const attachment = data.attachment
+            setAttachments((prev) => [...prev, attachment])
+          }
+          if (data?.attachments) {
+            const parts = data.attachments
+            setAttachments((prev) => [...prev, ...parts])
+          }
+          if (data?.reload) {
+            await loadConversation(data.reload)
+          }
+          if (data?.edit) {
+            await editMessage(data.edit)
+          }
+          if (data?.regenerate) {
+            await regenerate(data.regenerate)
+          }
+          if (data?.prompt) {
+            await sendMessage(data.prompt)
+          }
           if (result.exit) {
             exit()
           }
@@ -166,7 +377,7 @@ export const App: React.FC<AppProps> = ({
       // 发送消息
       await sendMessage(input)
     },
-    [sendMessage, exit]
+    [sendMessage, exit, loadConversation, editMessage, regenerate]
   )
 
   // 键盘快捷键
@@ -200,12 +411,21 @@ export const App: React.FC<AppProps> = ({
             role={msg.role}
             content={msg.content}
             timestamp={msg.timestamp}
+            {...(msg.tools ? { tools: msg.tools } : {})}
+            {...(msg.totalTokens !== undefined ? { totalTokens: msg.totalTokens } : {})}
+            {...(msg.siblingCount !== undefined && msg.siblingIndex !== undefined
+              ? { siblingIndex: msg.siblingIndex, siblingCount: msg.siblingCount }
+              : {})}
           />
         ))}
 
         {/* 流式响应 */}
         {isStreaming && (
-          <StreamingMessage content={streamingContent} isComplete={false} />
+          <StreamingMessage
+            content={streamingContent}
+            isComplete={false}
+            tools={streamingTools}
+          />
         )}
 
         {/* 加载状态 */}
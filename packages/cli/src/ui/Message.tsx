@@ -1,13 +1,64 @@
 import React from 'react'
 import { Box, Text } from 'ink'
 
+// 工具调用活动（来自 SSE tool-call / tool-result 事件）
+export interface ToolActivity {
+  toolCallId: string
+  toolName: string
+  args: unknown
+  result?: unknown
+  done: boolean
+}
+
+const formatToolValue = (value: unknown, maxLength: number): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? ''
+  const singleLine = text.replace(/\s+/g, ' ')
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 3)}...` : singleLine
+}
+
+const ToolActivityList: React.FC<{ tools: ToolActivity[] }> = ({ tools }) => {
+  if (tools.length === 0) return null
+
+  return (
+    <Box flexDirection="column" marginLeft={2}>
+      {tools.map((tool) => (
+        <Box key={tool.toolCallId} flexDirection="column">
+          <Text color="magenta">
+            {tool.done ? '✓' : '⚙'} {tool.toolName}
+            <Text color="gray">({formatToolValue(tool.args, 60)})</Text>
+          </Text>
+          {tool.done && tool.result !== undefined && (
+            <Box marginLeft={2}>
+              <Text color="gray" dimColor>
+                → {formatToolValue(tool.result, 100)}
+              </Text>
+            </Box>
+          )}
+        </Box>
+      ))}
+    </Box>
+  )
+}
+
 interface MessageProps {
   role: 'user' | 'assistant' | 'system'
   content: string
   timestamp?: Date
+  tools?: ToolActivity[]
+  totalTokens?: number
+  siblingIndex?: number
+  siblingCount?: number
 }
 
-export const Message: React.FC<MessageProps> = ({ role, content, timestamp }) => {
+export const Message: React.FC<MessageProps> = ({
+  role,
+  content,
+  timestamp,
+  tools = [],
+  totalTokens,
+  siblingIndex,
+  siblingCount
+}) => {
   const roleColors = {
     user: 'green',
     assistant: 'cyan',
@@ -32,7 +83,20 @@ export const Message: React.FC<MessageProps> = ({ role, content, timestamp }) =>
             {timestamp.toLocaleTimeString()}
           </Text>
         )}
+        {totalTokens !== undefined && (
+          <Text color="gray" dimColor>
+            {' '}
+            · {totalTokens} tokens
+          </Text>
+        )}
+        {siblingCount !== undefined && siblingIndex !== undefined && siblingCount > 1 && (
+          <Text color="gray" dimColor>
+            {' '}
+            ‹ {siblingIndex + 1}/{siblingCount} › (/sibling prev|next)
+          </Text>
+        )}
       </Box>
+      <ToolActivityList tools={tools} />
       <Box marginLeft={2}>
         <Text wrap="wrap">{content}</Text>
       </Box>
@@ -43,11 +107,13 @@ export const Message: React.FC<MessageProps> = ({ role, content, timestamp }) =>
 interface StreamingMessageProps {
   content: string
   isComplete: boolean
+  tools?: ToolActivity[]
 }
 
 export const StreamingMessage: React.FC<StreamingMessageProps> = ({
   content,
-  isComplete
+  isComplete,
+  tools = []
 }) => {
   return (
     <Box flexDirection="column" marginBottom={1}>
@@ -62,6 +128,7 @@ export const StreamingMessage: React.FC<StreamingMessageProps> = ({
           </Text>
         )}
       </Box>
+      <ToolActivityList tools={tools} />
       <Box marginLeft={2}>
         <Text wrap="wrap">{content || ' '}</Text>
         {!isComplete && <Text color="cyan">▌</Text>}
@@ -1,13 +1,17 @@
 /**
  * Agents Team - Collaboration Engine
- * 
+ *
  * Handles inter-agent communication, collaboration patterns,
  * and task coordination for multi-agent workflows.
  */
 
+import { z } from 'zod'
 import { createModuleLogger } from '../logger'
+import { parseJsonObject } from '../utils'
 import { EventEmitter } from 'events'
-import type { Team, TeamMember, TeamTask, TeamMessage, TeamConfig, TaskResult } from './team-manager.js'
+import { getTeamManager, type TeamManager } from './team-manager.js'
+import type { Team, TeamMember, TeamMode, TeamTask, TeamMessage, TaskResult } from './team-manager.js'
+import type { CollaborationProgress } from './types.js'
 
 const logger = createModuleLogger('agents-team:collaboration')
 
@@ -21,6 +25,7 @@ export interface CollaborationSession {
   status: SessionStatus
   startedAt: Date
   completedAt?: Date
+  error?: string
   results: CollaborationResult[]
 }
 
@@ -37,8 +42,10 @@ export interface CollaborationPhase {
 
 export interface CollaborationResult {
   taskId: string
+  memberId?: string        // Member whose output was accepted
   output: unknown
   success: boolean
+  error?: string
   duration: number
   iterations: number
 }
@@ -48,16 +55,56 @@ export interface AgentExecutionContext {
   task: TeamTask
   team: Team
   session: CollaborationSession
+  messages: TeamMessage[]  // Team messages visible to the member in this session
+  instruction?: string     // Phase-specific instruction (review, debate, judging)
 }
 
 export type AgentExecutor = (context: AgentExecutionContext) => Promise<TaskResult>
 
+export interface CollaborationProgressEvent extends CollaborationProgress {
+  sessionId: string
+  teamId: string
+}
+
+// Default collaboration mode for each team mode
+const TEAM_MODE_COLLABORATION: Record<TeamMode, CollaborationMode> = {
+  parallel: 'parallel',
+  sequential: 'sequential',
+  hierarchical: 'iterative',
+  brainstorm: 'debate'
+}
+
+// Finished sessions (with their tasks) kept for inspection
+const MAX_FINISHED_SESSIONS = 100
+
+const REVIEW_INSTRUCTION = `Review the latest answer to the task shared above.
+Return ONLY a JSON object {"approved": boolean, "feedback": "what must change, empty if approved"}.`
+
+const ReviewSchema = z.object({
+  approved: z.boolean(),
+  feedback: z.string().default('')
+})
+
+const JudgeSchema = z.object({
+  winner: z.number().int(),
+  reasoning: z.string().default('')
+})
+
+/**
+ * Format an executor output as message text
+ */
+export function formatTeamOutput(output: unknown): string {
+  if (typeof output === 'string') return output
+  return JSON.stringify(output, null, 2) ?? ''
+}
+
 export class CollaborationEngine {
   private sessions: Map<string, CollaborationSession> = new Map()
+  private tasks: Map<string, TeamTask[]> = new Map() // Tasks by session ID
   private executors: Map<string, AgentExecutor> = new Map()
   private emitter: EventEmitter
 
-  constructor() {
+  constructor(private readonly teamManager: TeamManager = getTeamManager()) {
     this.emitter = new EventEmitter()
     this.emitter.setMaxListeners(50)
   }
@@ -71,13 +118,32 @@ export class CollaborationEngine {
   }
 
   /**
-   * Start a collaboration session
+   * Start a collaboration session (defaults to the team's mode) and wait for it to finish
    */
   async startSession(
     team: Team,
     tasks: Omit<TeamTask, 'id' | 'status' | 'iterations' | 'createdAt'>[],
-    mode: CollaborationMode = 'parallel'
+    mode?: CollaborationMode
   ): Promise<CollaborationSession> {
+    const session = this.createSession(team, tasks, mode)
+    await this.runSession(session)
+    return session
+  }
+
+  /**
+   * Create a session without running it (see runSession). A team runs one session
+   * at a time, since members and team messages are shared
+   */
+  createSession(
+    team: Team,
+    tasks: Omit<TeamTask, 'id' | 'status' | 'iterations' | 'createdAt'>[],
+    mode: CollaborationMode = TEAM_MODE_COLLABORATION[team.mode]
+  ): CollaborationSession {
+    const active = this.getActiveSession(team.id)
+    if (active) {
+      throw new Error(`Team ${team.name} is already running session ${active.id}`)
+    }
+
     const session: CollaborationSession = {
       id: `session-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
       teamId: team.id,
@@ -91,26 +157,62 @@ export class CollaborationEngine {
     }
 
     // Create tasks
-    for (const task of tasks) {
-      const fullTask: TeamTask = {
-        ...task,
-        id: `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
-        status: 'pending',
-        iterations: 0,
-        createdAt: new Date()
-      }
-      session.tasks.push(fullTask.id)
-    }
-
+    const fullTasks = tasks.map((task): TeamTask => ({
+      ...task,
+      id: `task-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      status: 'pending',
+      iterations: 0,
+      createdAt: new Date()
+    }))
+    session.tasks = fullTasks.map(t => t.id)
+    this.tasks.set(session.id, fullTasks)
     this.sessions.set(session.id, session)
+
+    return session
+  }
+
+  /**
+   * Run a session created by createSession
+   */
+  async runSession(session: CollaborationSession): Promise<void> {
+    if (session.status !== 'initializing') {
+      throw new Error(`Session already started: ${session.id}`)
+    }
+    const team = this.teamManager.getTeam(session.teamId)
+    if (!team) {
+      throw new Error(`Team not found: ${session.teamId}`)
+    }
     session.status = 'running'
 
-    logger.info(`Started collaboration session: ${session.id} (${mode})`)
+    logger.info(`Started collaboration session: ${session.id} (${session.mode})`)
+    this.emitProgress(session, 'started')
 
     // Execute based on mode
     await this.executeSession(session, team)
+    this.pruneSessions()
+  }
 
-    return session
+  /**
+   * The session a team is currently running, if any
+   */
+  getActiveSession(teamId: string): CollaborationSession | undefined {
+    for (const session of this.sessions.values()) {
+      const active = session.status === 'initializing' || session.status === 'running'
+      if (active && session.teamId === teamId) return session
+    }
+    return undefined
+  }
+
+  /**
+   * Drop the oldest finished sessions and their tasks
+   */
+  private pruneSessions(): void {
+    const finished = Array.from(this.sessions.values())
+      .filter(s => s.status === 'completed' || s.status === 'failed')
+    for (const session of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_SESSIONS))) {
+      this.sessions.delete(session.id)
+      this.tasks.delete(session.id)
+    }
   }
 
   /**
@@ -131,255 +233,364 @@ export class CollaborationEngine {
         case 'debate':
           await this.executeDebate(session, team)
           break
+        default:
+          throw new Error(`Unknown collaboration mode: ${String(session.mode ?? team.mode)}`)
       }
 
-      session.status = 'completed'
+      session.status = session.results.every(r => r.success) ? 'completed' : 'failed'
       session.completedAt = new Date()
-      logger.info(`Collaboration session completed: ${session.id}`)
+      logger.info(`Collaboration session ${session.status}: ${session.id}`)
 
     } catch (error) {
       session.status = 'failed'
+      session.error = error instanceof Error ? error.message : String(error)
       session.completedAt = new Date()
-      logger.error(`Collaboration session failed: ${error}`)
+      logger.error(`Collaboration session failed: ${session.error}`)
     }
+
+    this.emitProgress(session, session.status)
   }
 
   /**
-   * Execute tasks in parallel
+   * Execute tasks in parallel: each available member works through the task queue
    */
   private async executeParallel(session: CollaborationSession, team: Team): Promise<void> {
-    const tasks = session.tasks
-    const members = team.members.filter(m => m.status !== 'offline')
-    const maxParallel = Math.min(team.config.maxParallelTasks, members.length)
-
-    // Assign tasks to members
-    const assignments: Map<string, string[]> = new Map()
-    tasks.forEach((taskId, idx) => {
-      const memberId = members[idx % maxParallel].id
-      if (!assignments.has(memberId)) {
-        assignments.set(memberId, [])
-      }
-      assignments.get(memberId)!.push(taskId)
-    })
-
-    // Execute in parallel batches
-    const batches: string[][] = []
-    let currentBatch: string[] = []
-    
-    for (const [, taskIds] of assignments) {
-      for (const taskId of taskIds) {
-        currentBatch.push(taskId)
-        if (currentBatch.length >= maxParallel) {
-          batches.push(currentBatch)
-          currentBatch = []
-        }
+    const tasks = this.sessionTasks(session)
+    const members = this.availableMembers(team)
+    const maxParallel = Math.max(1, Math.min(team.config.maxParallelTasks, members.length))
+
+    let next = 0
+    const work = async (member: TeamMember): Promise<void> => {
+      while (next < tasks.length) {
+        const task = tasks[next++]!
+        const result = await this.runMember(member, task, team, session)
+        this.recordResult(session, task, member, result, 1)
       }
     }
-    
-    if (currentBatch.length > 0) {
-      batches.push(currentBatch)
-    }
 
-    for (const batch of batches) {
-      await Promise.all(
-        batch.map(taskId => this.executeTask(taskId, team, session))
-      )
-    }
+    await Promise.all(members.slice(0, maxParallel).map(work))
+    this.completePhase(session, 'execution')
   }
 
   /**
-   * Execute tasks sequentially
+   * Execute tasks sequentially: each task passes through every member in order,
+   * later members build on the messages of earlier ones
    */
   private async executeSequential(session: CollaborationSession, team: Team): Promise<void> {
-    for (const taskId of session.tasks) {
-      await this.executeTask(taskId, team, session)
+    const members = this.availableMembers(team)
+
+    for (const task of this.sessionTasks(session)) {
+      let result: TaskResult | undefined
+      let last = members[0]!
+
+      for (const [index, member] of members.entries()) {
+        session.currentPhase = index
+        last = member
+        result = await this.runMember(
+          member,
+          task,
+          team,
+          session,
+          index > 0 ? 'Continue the work of the previous team members shared above.' : undefined
+        )
+        if (!result.success) break
+      }
+
+      this.recordResult(session, task, last, result!, members.length)
     }
+
+    session.phases.forEach(phase => { phase.completed = true })
   }
 
   /**
-   * Execute tasks iteratively with review
+   * Execute tasks iteratively: an author answers, reviewers approve or request revisions
    */
   private async executeIterative(session: CollaborationSession, team: Team): Promise<void> {
-    const leader = team.members.find(m => m.role === 'leader')
-    const reviewers = team.members.filter(m => m.role === 'reviewer')
+    const members = this.availableMembers(team)
+    const leader = members.find(m => m.role === 'leader')
+    const author =
+      members.find(m => m.role === 'worker') ??
+      members.find(m => m.role !== 'reviewer') ??
+      members[0]!
+    let reviewers = members.filter(m => m.role === 'reviewer' && m !== author)
+    // Fall back to leader approval
+    if (reviewers.length === 0 && leader && leader !== author && team.config.requireLeaderApproval) {
+      reviewers = [leader]
+    }
 
-    for (const taskId of session.tasks) {
+    for (const task of this.sessionTasks(session)) {
       let iterations = 0
-      let approved = false
-
-      while (iterations < team.config.maxIterations && !approved) {
-        // Execute task
-        const result = await this.executeTask(taskId, team, session)
-        
-        if (!result.success) {
-          break
-        }
-
-        // Review if reviewers available
-        if (reviewers.length > 0) {
-          const reviewResult = await this.runReview(taskId, reviewers, team)
-          
-          if (reviewResult.approved) {
-            approved = true
-          } else {
-            // Request revisions
-            iterations++
-          }
-        } else if (leader) {
-          // Fall back to leader approval
-          approved = team.config.requireLeaderApproval ? false : true
-        } else {
-          approved = true
+      let feedback: string | undefined
+      let result: TaskResult
+
+      for (;;) {
+        iterations++
+        session.currentPhase = 0
+        result = await this.runMember(
+          author,
+          task,
+          team,
+          session,
+          feedback ? `Revise your answer based on the review feedback:\n${feedback}` : undefined
+        )
+        if (!result.success || reviewers.length === 0) break
+
+        session.currentPhase = 1
+        task.status = 'review'
+        const review = await this.runReview(task, reviewers, team, session)
+        result = {
+          ...result,
+          reviewedBy: reviewers.map(r => r.name).join(', '),
+          approvalStatus: review.approved ? 'approved' : 'rejected'
         }
+        if (review.approved || iterations >= team.config.maxIterations) break
+        feedback = review.feedback
       }
+
+      this.recordResult(session, task, author, result, iterations)
     }
+
+    session.phases.forEach(phase => { phase.completed = true })
   }
 
   /**
-   * Execute debate mode (multiple agents propose, then vote)
+   * Execute debate mode: members propose over several rounds, then a judge picks the winner
    */
   private async executeDebate(session: CollaborationSession, team: Team): Promise<void> {
-    const facilitators = team.members.filter(m => m.role === 'leader' || m.role === 'coordinator')
-    const proposers = team.members.filter(m => m.role === 'worker')
-    const judges = team.members.filter(m => m.role === 'reviewer')
-
-    for (const taskId of session.tasks) {
-      // Phase 1: Proposers present solutions
-      const proposals = await Promise.all(
-        proposers.map(proposer => this.executeTask(taskId, team, session))
-      )
+    const members = this.availableMembers(team)
+    const judge =
+      members.find(m => m.role === 'reviewer') ??
+      members.find(m => m.role === 'leader' || m.role === 'coordinator')
+    const workers = members.filter(m => m.role === 'worker' || m.role === 'specialist')
+    const proposers = workers.length > 0 ? workers : members.filter(m => m !== judge)
+    if (proposers.length === 0) {
+      throw new Error('Debate requires at least one proposing member')
+    }
 
-      // Phase 2: Judges evaluate
-      if (judges.length > 0) {
-        const evaluations = await Promise.all(
-          judges.map(judge => this.evaluateProposals(taskId, proposals, team))
+    const rounds = Math.max(1, team.config.debateRounds)
+
+    for (const task of this.sessionTasks(session)) {
+      let proposals: { member: TeamMember; result: TaskResult }[] = []
+
+      // Phase 1: Proposers present and refine solutions
+      session.currentPhase = 0
+      for (let round = 1; round <= rounds; round++) {
+        const instruction = round === 1
+          ? 'Propose your solution.'
+          : 'Review the other proposals shared above, point out their weaknesses and give your revised proposal.'
+        proposals = await Promise.all(
+          proposers.map(async member => ({
+            member,
+            result: await this.runMember(member, task, team, session, instruction)
+          }))
         )
+      }
+      this.completePhase(session, 'proposals')
 
-        // Phase 3: Facilitator synthesizes
-        if (facilitators.length > 0) {
-          this.synthesizeResults(taskId, proposals, evaluations, session)
-        }
+      const valid = proposals.filter(p => p.result.success)
+      if (valid.length === 0) {
+        this.recordResult(session, task, proposers[0]!, proposals[0]!.result, rounds)
+        continue
       }
+
+      // Phase 2: Judge evaluates
+      session.currentPhase = 1
+      const winner = judge && valid.length > 1
+        ? await this.judgeProposals(task, valid, judge, team, session)
+        : 0
+      this.completePhase(session, 'evaluation')
+
+      const chosen = valid[winner]!
+      this.recordResult(
+        session,
+        task,
+        chosen.member,
+        judge ? { ...chosen.result, reviewedBy: judge.name, approvalStatus: 'approved' } : chosen.result,
+        rounds
+      )
+      this.completePhase(session, 'synthesis')
     }
   }
 
   /**
-   * Execute a single task
+   * Run a member's executor on a task and share the output with the team
    */
-  private async executeTask(taskId: string, team: Team, session: CollaborationSession): Promise<TaskResult> {
+  private async runMember(
+    member: TeamMember,
+    task: TeamTask,
+    team: Team,
+    session: CollaborationSession,
+    instruction?: string
+  ): Promise<TaskResult> {
     const startTime = Date.now()
 
-    // Find available member
-    const member = team.members
-      .filter(m => m.status !== 'offline')
-      .sort((a, b) => a.load - b.load)[0]
-
-    if (!member) {
-      return { success: false, error: 'No available members', duration: 0 }
-    }
-
     // Get executor for role
     const executor = this.executors.get(member.role)
     if (!executor) {
       return { success: false, error: `No executor for role: ${member.role}`, duration: 0 }
     }
 
-    // Create context
-    const task = {
-      id: taskId,
-      title: '',
-      status: 'assigned' as const,
-      priority: 'normal' as const,
-      iterations: 0,
-      createdAt: new Date()
-    }
-
     const context: AgentExecutionContext = {
       member,
       task,
       team,
-      session
+      session,
+      messages: this.teamManager
+        .getMessages(team.id, member.id)
+        .filter(m => m.timestamp >= session.startedAt),
+      ...(instruction ? { instruction } : {})
     }
 
-    try {
-      member.status = 'busy'
-      const result = await Promise.race([
-        executor(context),
-        this.timeout(team.config.timeoutPerTask)
-      ])
-
-      member.status = 'idle'
-      member.load = Math.max(0, member.load - 10)
-
-      session.results.push({
-        taskId,
-        output: result.output,
-        success: result.success,
-        duration: Date.now() - startTime,
-        iterations: task.iterations
-      })
-
-      return result
+    task.assignee = member.id
+    task.status = 'in_progress'
+    task.startedAt ??= new Date()
+    member.status = 'busy'
+    member.load = Math.min(100, member.load + 10)
+    this.emitProgress(session, `${member.name}: ${task.title}`, task)
 
+    let result: TaskResult
+    try {
+      result = await this.withTimeout(executor(context), team.config.timeoutPerTask)
     } catch (error) {
-      member.status = 'idle'
-      const err = error as Error
-      
-      return {
+      result = {
         success: false,
-        error: err.message,
+        error: error instanceof Error ? error.message : String(error),
         duration: Date.now() - startTime
       }
+    } finally {
+      member.status = 'idle'
+      member.load = Math.max(0, member.load - 10)
     }
+
+    // Share the output with the other members
+    if (result.success) {
+      this.teamManager.sendMessage(team.id, member.id, '*', 'response', formatTeamOutput(result.output))
+    } else {
+      this.teamManager.sendMessage(team.id, member.id, '*', 'alert', `Failed: ${result.error ?? 'unknown error'}`)
+    }
+
+    return result
   }
 
   /**
-   * Run review phase
+   * Run review phase: the answer is approved only if every reviewer approves
    */
-  private async runReview(taskId: string, reviewers: TeamMember[], team: Team): Promise<{
-    approved: boolean
-    feedback: string
-  }> {
-    // Simplified review - in production, would invoke actual review agents
+  private async runReview(
+    task: TeamTask,
+    reviewers: TeamMember[],
+    team: Team,
+    session: CollaborationSession
+  ): Promise<{ approved: boolean; feedback: string }> {
+    const reviews = await Promise.all(
+      reviewers.map(async reviewer => {
+        const result = await this.runMember(reviewer, task, team, session, REVIEW_INSTRUCTION)
+        if (!result.success) {
+          return { approved: false, feedback: `${reviewer.name}: ${result.error ?? 'review failed'}` }
+        }
+        try {
+          const review = ReviewSchema.parse(parseJsonObject(formatTeamOutput(result.output)))
+          return { approved: review.approved, feedback: `${reviewer.name}: ${review.feedback}` }
+        } catch {
+          // Unstructured reviews count as change requests
+          return { approved: false, feedback: `${reviewer.name}: ${formatTeamOutput(result.output)}` }
+        }
+      })
+    )
+
     return {
-      approved: true,
-      feedback: 'Approved'
+      approved: reviews.every(r => r.approved),
+      feedback: reviews.filter(r => !r.approved).map(r => r.feedback).join('\n\n')
     }
   }
 
   /**
-   * Evaluate proposals
+   * Ask the judge to pick the best proposal, returns its index
    */
-  private async evaluateProposals(
-    taskId: string, 
-    proposals: TaskResult[], 
-    team: Team
-  ): Promise<{ scores: number[]; winner: number }> {
-    // Simplified voting
-    const scores = proposals.map(p => p.success ? 1 : 0)
-    const winner = scores.indexOf(Math.max(...scores))
-    return { scores, winner }
+  private async judgeProposals(
+    task: TeamTask,
+    proposals: { member: TeamMember; result: TaskResult }[],
+    judge: TeamMember,
+    team: Team,
+    session: CollaborationSession
+  ): Promise<number> {
+    const listing = proposals
+      .map((p, i) => `[${i + 1}] ${p.member.name}:\n${formatTeamOutput(p.result.output)}`)
+      .join('\n\n')
+    const instruction = `You are the judge. Pick the best final proposal:
+
+${listing}
+
+Return ONLY a JSON object {"winner": <proposal number>, "reasoning": "one short paragraph"}.`
+
+    const result = await this.runMember(judge, task, team, session, instruction)
+    if (!result.success) return 0
+
+    try {
+      const { winner } = JudgeSchema.parse(parseJsonObject(formatTeamOutput(result.output)))
+      return winner >= 1 && winner <= proposals.length ? winner - 1 : 0
+    } catch {
+      logger.warn(`Judge ${judge.name} returned no valid verdict, using first proposal`)
+      return 0
+    }
   }
 
   /**
-   * Synthesize debate results
+   * Record the final result of a task
    */
-  private synthesizeResults(
-    taskId: string, 
-    proposals: TaskResult[], 
-    evaluations: { winner: number }[], 
-    session: CollaborationSession
+  private recordResult(
+    session: CollaborationSession,
+    task: TeamTask,
+    member: TeamMember,
+    result: TaskResult,
+    iterations: number
   ): void {
-    const winnerIdx = evaluations[0]?.winner ?? 0
-    const winningProposal = proposals[winnerIdx]
+    task.status = result.success ? 'completed' : 'failed'
+    task.result = result
+    task.output = result.output
+    task.iterations = iterations
+    task.completedAt = new Date()
+    if (result.success) member.completedTasks.push(task.id)
 
     session.results.push({
-      taskId,
-      output: winningProposal.output,
-      success: winningProposal.success,
-      duration: 0,
-      iterations: 1
+      taskId: task.id,
+      memberId: member.id,
+      output: result.output,
+      success: result.success,
+      ...(result.error !== undefined ? { error: result.error } : {}),
+      duration: task.completedAt.getTime() - (task.startedAt ?? task.createdAt).getTime(),
+      iterations
     })
+    this.emitProgress(session, 'task-completed', task)
+  }
+
+  private sessionTasks(session: CollaborationSession): TeamTask[] {
+    return this.tasks.get(session.id) ?? []
+  }
+
+  private availableMembers(team: Team): TeamMember[] {
+    const members = team.members.filter(m => m.status !== 'offline')
+    if (members.length === 0) {
+      throw new Error('No available members')
+    }
+    return members
+  }
+
+  private completePhase(session: CollaborationSession, name: string): void {
+    const phase = session.phases.find(p => p.name === name)
+    if (phase) phase.completed = true
+  }
+
+  private emitProgress(session: CollaborationSession, phase: string, task?: TeamTask): void {
+    const event: CollaborationProgressEvent = {
+      sessionId: session.id,
+      teamId: session.teamId,
+      phase,
+      completedTasks: session.results.length,
+      totalTasks: session.tasks.length,
+      ...(task ? { currentTask: task.title } : {}),
+      results: session.results
+    }
+    this.emitter.emit('progress', event)
   }
 
   /**
@@ -418,10 +629,32 @@ export class CollaborationEngine {
   /**
    * Timeout helper
    */
-  private timeout(ms: number): Promise<never> {
-    return new Promise((_, reject) => 
-      setTimeout(() => reject(new Error(`Task timed out after ${ms}ms`)), ms)
-    )
+  private async withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined
+    try {
+      return await Promise.race([
+        promise,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Task timed out after ${ms}ms`)), ms)
+        })
+      ])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Subscribe to session progress
+   */
+  on(event: 'progress', handler: (event: CollaborationProgressEvent) => void): void {
+    this.emitter.on(event, handler)
+  }
+
+  /**
+   * Unsubscribe from session progress
+   */
+  off(event: 'progress', handler: (event: CollaborationProgressEvent) => void): void {
+    this.emitter.off(event, handler)
   }
 
   /**
@@ -431,6 +664,14 @@ export class CollaborationEngine {
     return this.sessions.get(sessionId)
   }
 
+  /**
+   * Get tasks of a session
+   */
+  getSessionTasks(sessionId: string): TeamTask[] {
+    const session = this.sessions.get(sessionId)
+    return session ? this.sessionTasks(session) : []
+  }
+
   /**
    * Get all sessions
    */
@@ -452,6 +693,6 @@ export function getCollaborationEngine(): CollaborationEngine {
   return engineInstance
 }
 
-export function createCollaborationEngine(): CollaborationEngine {
-  return new CollaborationEngine()
+export function createCollaborationEngine(teamManager?: TeamManager): CollaborationEngine {
+  return new CollaborationEngine(teamManager)
 }
@@ -4,11 +4,15 @@
  * Multi-agent team collaboration system.
  */
 
+import { TEAM_TEMPLATES, type AgentRole, type Team, type TeamAgentProfile } from './team-manager.js'
+
 export {
   TeamManager,
   getTeamManager,
   createTeamManager,
+  AGENT_ROLES,
   type AgentRole,
+  type TeamAgentProfile,
   type TeamMember,
   type MemberStatus,
   type Team,
@@ -35,9 +39,16 @@ export {
   type CollaborationPhase,
   type CollaborationResult,
   type AgentExecutionContext,
-  type AgentExecutor
+  type AgentExecutor,
+  type CollaborationProgressEvent
 } from './collaboration-engine.js'
 
+export {
+  createModelExecutor,
+  registerModelExecutors,
+  type TeamChatRequest
+} from './model-executor.js'
+
 export {
   type CreateTeamOptions,
   type TeamMemberConfig,
@@ -51,7 +62,7 @@ export {
 // Convenience function to create a team from template
 export async function createTeamFromTemplate(
   templateName: keyof typeof TEAM_TEMPLATES,
-  agents: { name: string; agent: any }[]
+  agents: { name: string; agent: TeamAgentProfile }[]
 ): Promise<Team> {
   const { getTeamManager } = await import('./team-manager.js')
   const manager = getTeamManager()
@@ -64,14 +75,16 @@ export async function createTeamFromTemplate(
   const members = template.roles.map((role, idx) => ({
     name: agents[idx]?.name || role.name,
     role: role.role as AgentRole,
-    agent: agents[idx]?.agent || {},
-    capabilities: role.capabilities
+    agent: agents[idx]?.agent ?? { name: role.name, prompt: '' },
+    capabilities: [...role.capabilities]
   }))
 
-  return manager.createTeam(
+  const team = manager.createTeam(
     template.name,
     members,
     template.config,
     template.description
   )
+  team.mode = template.mode
+  return team
 }
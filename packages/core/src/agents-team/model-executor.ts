@@ -0,0 +1,86 @@
+/**
+ * Agents Team - Model Executor
+ *
+ * Default executors that run each member's agent through a chat model.
+ */
+
+import type { ModelChatFn, ModelChatRequest } from '../types'
+import type { AgentRole, TeamAgentProfile } from './team-manager.js'
+import { AGENT_ROLES } from './team-manager.js'
+import {
+  formatTeamOutput,
+  type AgentExecutor,
+  type CollaborationEngine
+} from './collaboration-engine.js'
+
+/**
+ * One model call for a team member (tools follow the agent's allow/deny lists)
+ */
+export interface TeamChatRequest extends ModelChatRequest {
+  readonly agent: TeamAgentProfile
+}
+
+const ROLE_GUIDANCE: Record<AgentRole, string> = {
+  leader: 'You lead the team: keep the work focused and make the final calls.',
+  worker: 'You carry out the task and produce concrete results.',
+  reviewer: 'You critically review the work of other members.',
+  coordinator: 'You break the task down and coordinate the other members.',
+  specialist: 'You contribute your specialist expertise.'
+}
+
+// 共享上下文中单条消息的最大字符数
+const MAX_MESSAGE_CHARS = 4000
+
+function truncate(text: string): string {
+  return text.length > MAX_MESSAGE_CHARS ? `${text.slice(0, MAX_MESSAGE_CHARS)}…` : text
+}
+
+/**
+ * Create an executor that runs the member's agent (prompt, model, tools) with the
+ * task and the team messages of the session as shared context
+ */
+export function createModelExecutor(chat: ModelChatFn<TeamChatRequest>): AgentExecutor {
+  return async ({ member, task, team, messages, instruction }) => {
+    const startTime = Date.now()
+
+    const systemPrompt = [
+      member.agent.prompt,
+      `You are ${member.name}, the ${member.role} of the team "${team.name}". ${ROLE_GUIDANCE[member.role]}`,
+      member.capabilities.length > 0 ? `Your capabilities: ${member.capabilities.join(', ')}` : ''
+    ].filter(Boolean).join('\n\n')
+
+    const names = new Map(team.members.map(m => [m.id, m.name]))
+    const sections = [`# Task: ${task.title}`]
+    if (task.description) sections.push(task.description)
+    if (task.input !== undefined) sections.push(`## Input\n${formatTeamOutput(task.input)}`)
+    if (messages.length > 0) {
+      sections.push(
+        '## Team messages',
+        ...messages.map(m => `[${names.get(m.from) ?? m.from}] ${truncate(m.content)}`)
+      )
+    }
+    if (instruction) sections.push(`## Your turn\n${instruction}`)
+
+    const output = await chat({
+      agent: member.agent,
+      systemPrompt,
+      prompt: sections.join('\n\n'),
+      model: member.agent.model,
+      temperature: member.agent.temperature
+    })
+    return { success: true, output, duration: Date.now() - startTime }
+  }
+}
+
+/**
+ * Register the model executor for every member role
+ */
+export function registerModelExecutors(
+  engine: CollaborationEngine,
+  chat: ModelChatFn<TeamChatRequest>
+): void {
+  const executor = createModelExecutor(chat)
+  for (const role of AGENT_ROLES) {
+    engine.registerExecutor(role, executor)
+  }
+}
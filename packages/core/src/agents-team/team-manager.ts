@@ -7,7 +7,6 @@
 
 import { createModuleLogger } from '../logger'
 import { EventEmitter } from 'events'
-import type { Agent } from '@wqbot/skills'
 
 const logger = createModuleLogger('agents-team:manager')
 
@@ -17,11 +16,25 @@ const logger = createModuleLogger('agents-team:manager')
 
 export type AgentRole = 'leader' | 'worker' | 'reviewer' | 'coordinator' | 'specialist'
 
+export const AGENT_ROLES: readonly AgentRole[] = ['leader', 'worker', 'reviewer', 'coordinator', 'specialist']
+
+/**
+ * Agent used by a team member (structurally compatible with AgentDef from @wqbot/skills)
+ */
+export interface TeamAgentProfile {
+  readonly name: string
+  readonly prompt: string
+  readonly model?: string | undefined
+  readonly temperature?: number | undefined
+  readonly allowedTools?: readonly string[] | undefined
+  readonly deniedTools?: readonly string[] | undefined
+}
+
 export interface TeamMember {
   id: string
   name: string
   role: AgentRole
-  agent: Agent
+  agent: TeamAgentProfile
   status: MemberStatus
   capabilities: string[]
   load: number           // Current task load (0-100)
@@ -52,6 +65,7 @@ export interface TeamConfig {
   communicationPattern: 'direct' | 'relay' | 'broadcast'
   maxIterations: number
   timeoutPerTask: number
+  debateRounds: number     // Proposal rounds before the judge decides
 }
 
 export interface TeamTask {
@@ -148,7 +162,7 @@ export class TeamManager {
     const team: Team = {
       id,
       name,
-      description,
+      ...(description !== undefined ? { description } : {}),
       members: members.map(m => ({
         ...m,
         id: `member-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
@@ -167,7 +181,8 @@ export class TeamManager {
         conflictResolution: config?.conflictResolution ?? 'leader-decides',
         communicationPattern: config?.communicationPattern ?? 'direct',
         maxIterations: config?.maxIterations ?? 10,
-        timeoutPerTask: config?.timeoutPerTask ?? 300000
+        timeoutPerTask: config?.timeoutPerTask ?? 300000,
+        debateRounds: config?.debateRounds ?? 2
       }
     }
 
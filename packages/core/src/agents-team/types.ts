@@ -4,11 +4,25 @@
  * Type definitions for multi-agent team collaboration.
  */
 
-import type { Agent } from '@wqbot/skills'
+import type {
+  AgentRole,
+  Team,
+  TeamAgentProfile,
+  TeamConfig,
+  TeamMode,
+  TaskPriority,
+  TEAM_TEMPLATES
+} from './team-manager.js'
+import type {
+  CollaborationMode,
+  CollaborationResult,
+  CollaborationSession
+} from './collaboration-engine.js'
 
 // Re-export from team-manager
 export {
   type AgentRole,
+  type TeamAgentProfile,
   type TeamMember,
   type MemberStatus,
   type Team,
@@ -47,7 +61,7 @@ export interface CreateTeamOptions {
 export interface TeamMemberConfig {
   name: string
   role: AgentRole
-  agent: Agent
+  agent: TeamAgentProfile
   capabilities: string[]
 }
 
@@ -41,10 +41,16 @@ const McpServerSchema = z.object({
   type: z.enum(['local', 'remote']).default('local'),
   command: z.array(z.string()).optional(),
   url: z.string().optional(),
+  // remote 传输方式：http（Streamable HTTP）或 sse（旧版），未指定时先尝试 http 再回退 sse
+  transport: z.enum(['http', 'sse']).optional(),
   environment: z.record(z.string()).optional(),
   headers: z.record(z.string()).optional(),
   enabled: z.boolean().default(true),
   timeout: z.number().default(30000),
+  // 健康检查（ping）间隔，0 表示不检查
+  pingInterval: z.number().default(30000),
+  // 连接失败或断线后按指数退避重连的次数，用尽后按最大间隔持续重试；0 表示不重连
+  maxReconnectAttempts: z.number().int().min(0).default(5),
 })
 
 // 知识库 Embedding 配置
@@ -54,10 +60,35 @@ const KnowledgeEmbeddingSchema = z.object({
   customName: z.string().optional(),
 })
 
+// 检索增强：查询扩展（子查询 / HyDE）和候选重排
+const KnowledgeRetrievalSchema = z.object({
+  expansion: z
+    .object({
+      mode: z.enum(['multi', 'hyde', 'both']).default('multi'),
+      queries: z.number().int().positive().max(8).optional(),
+      model: z.string().optional(),
+    })
+    .optional(),
+  rerank: z
+    .object({
+      scorer: z.enum(['llm', 'local']).default('local'),
+      candidates: z.number().int().positive().max(100).optional(),
+      model: z.string().optional(),
+    })
+    .optional(),
+})
+
 // 知识库集合配置
 const KnowledgeCollectionSchema = z.object({
   name: z.string(),
   dirs: z.array(z.string()),
+  retrieval: KnowledgeRetrievalSchema.optional(), // 覆盖全局的检索增强配置
+})
+
+// 自动检索（RAG）配置
+const KnowledgeRagSchema = z.object({
+  limit: z.number().int().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
 })
 
 // 知识库配置
@@ -67,6 +98,17 @@ const KnowledgeConfigSchema = z.object({
   chunkOverlap: z.number().int().min(0).default(200),
   embedding: KnowledgeEmbeddingSchema.optional(),
   collections: z.array(KnowledgeCollectionSchema).optional(),
+  watch: z.boolean().default(true), // 监听集合目录，文件变更时增量更新
+  retrieval: KnowledgeRetrievalSchema.optional(),
+  rag: KnowledgeRagSchema.optional(),
+})
+
+// 对话摘要配置（上下文压缩时生成摘要）
+const SummarizerConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  model: z.string().optional(), // 未指定时按路由策略选择便宜模型
+  localOnly: z.boolean().default(false), // 仅使用本地 Ollama 模型
+  maxTokens: z.number().int().positive().default(1024),
 })
 
 // 沙箱配置
@@ -77,6 +119,39 @@ const SandboxSchema = z.object({
   blockedCommands: z.array(z.string()).default([]),
 })
 
+// 无人值守定时任务
+const ScheduledTaskSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  handler: z.string(), // 内置任务名（knowledge-index、backup 等）、skill:<名称> 或 agent:<名称>
+  schedule: z
+    .object({
+      cron: z.string().optional(), // 5 或 6 个字段（含秒），支持名称、步进范围、L 和 @daily 等
+      timezone: z.string().optional(), // IANA 时区，如 Asia/Shanghai，默认本地时区
+      interval: z.number().int().positive().optional(), // 毫秒
+    })
+    .optional(),
+  args: z.record(z.unknown()).optional(), // 传给处理器，agent 任务使用 args.task 作为提示
+  config: z
+    .object({
+      timeout: z.number().int().positive().optional(),
+      retryCount: z.number().int().min(0).optional(),
+      retryDelay: z.number().int().min(0).optional(),
+      runOnStartup: z.boolean().optional(),
+    })
+    .optional(),
+  enabled: z.boolean().default(true),
+})
+
+// 无人值守模式配置
+const UnattendedConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  projectRoot: z.string().optional(), // git-sync / code-analysis 的项目目录，默认为后端工作目录
+  tasks: z.array(ScheduledTaskSchema).optional(), // 未指定时运行全部内置任务
+  backupKeep: z.number().int().positive().default(7), // 保留的数据库备份数量
+  logRetentionDays: z.number().int().positive().default(14), // 轮转日志和循环历史的保留天数
+})
+
 // ===== 统一配置 Schema =====
 export const ConfigSchema = z.object({
   // 默认模型
@@ -113,6 +188,8 @@ export const ConfigSchema = z.object({
   theme: z.string().optional(),
   mcp: z.record(z.string(), McpServerSchema).optional(),
   knowledge: KnowledgeConfigSchema.optional(),
+  summarizer: SummarizerConfigSchema.optional(),
+  unattended: UnattendedConfigSchema.optional(),
   sandbox: SandboxSchema.default({
     enabled: true,
     allowedPaths: [],
@@ -189,7 +266,9 @@ const DEFAULT_CONFIG: AppConfig = {
 
 // ===== 导出子类型（供外部使用）=====
 export type KnowledgeConfig = z.infer<typeof KnowledgeConfigSchema>
+export type SummarizerConfig = z.infer<typeof SummarizerConfigSchema>
 export type McpServerConfig = z.infer<typeof McpServerSchema>
+export type UnattendedSettings = z.infer<typeof UnattendedConfigSchema>
 
 // 确保配置目录存在
 async function ensureConfigDir(): Promise<void> {
@@ -7,11 +7,13 @@ import {
   saveConfig,
   type AppConfig,
   type KnowledgeConfig,
+  type SummarizerConfig,
   type McpServerConfig,
+  type UnattendedSettings,
 } from './api-config.js'
 
 // 兼容导出
-export { type AppConfig, type KnowledgeConfig, type McpServerConfig }
+export { type AppConfig, type KnowledgeConfig, type McpServerConfig, type SummarizerConfig }
 
 export class ConfigManager {
   private config: AppConfig | null = null
@@ -37,6 +39,13 @@ export class ConfigManager {
     return path.join(this.configDir, 'agents')
   }
 
+  /**
+   * 本机管理员令牌文件（后端启用认证时写入，供本机 CLI 读取）
+   */
+  getAdminTokenFile(): string {
+    return path.join(this.configDir, 'admin-token')
+  }
+
   getLogFile(): string | undefined {
     return this.config?.logFile
   }
@@ -237,9 +246,17 @@ export class ConfigManager {
     return this.config?.knowledge
   }
 
+  getSummarizerConfig(): SummarizerConfig | undefined {
+    return this.config?.summarizer
+  }
+
   getMcpConfig(): Record<string, McpServerConfig> {
     return this.config?.mcp ?? {}
   }
+
+  getUnattendedConfig(): UnattendedSettings | undefined {
+    return this.config?.unattended
+  }
 }
 
 // Singleton
@@ -3,6 +3,7 @@ export type {
   TaskComplexity,
   TaskType,
   MessageRole,
+  ContentPart,
   Message,
   Conversation,
   Intent,
@@ -14,6 +15,8 @@ export type {
   ProviderConfig,
   RoutingConfig,
   ModelsConfig,
+  ModelChatRequest,
+  ModelChatFn,
   Permission,
   PermissionMode,
   PermissionCheckResult,
@@ -42,6 +45,7 @@ export {
   type Logger,
   type LogLevel,
   type LogContext,
+  type LoggerOptions,
 } from './logger.js'
 
 // Events
@@ -93,6 +97,8 @@ export {
   type AppConfig,
   type KnowledgeConfig,
   type McpServerConfig,
+  type SummarizerConfig,
+  type UnattendedSettings,
 } from './api-config.js'
 
 // Config Watcher
@@ -114,6 +120,16 @@ export {
   type WebhookEvent,
 } from './github.js'
 
+// Token 计数
+export {
+  countTokens,
+  countTokensWithEncoding,
+  getTokenEncoding,
+  estimateTokensHeuristic,
+  DEFAULT_TOKEN_ENCODING,
+  type TokenEncoding,
+} from './tokenizer.js'
+
 // Utilities
 export {
   generateId,
@@ -121,6 +137,7 @@ export {
   retry,
   truncate,
   deepClone,
+  parseJsonObject,
   isObject,
   deepMerge,
   formatBytes,
@@ -186,6 +203,11 @@ export {
   type ResourceRequirements,
   type ExecutionPlan,
   type ExecutionStep,
+  type PlanStepEvent,
+  type PlanStepRunner,
+  type PlanExecutionOptions,
+  type PlanExecutionResult,
+  type IntentClassifierOptions,
   type OrchestratorState,
   type ProjectContext,
 } from './orchestrator.js'
@@ -225,11 +247,21 @@ export {
   TaskScheduler,
   getScheduler,
   createScheduler,
+  CronExpression,
+  CronParseError,
+  parseCron,
+  type CronOptions,
   BackgroundExecutor,
   getBackgroundExecutor,
   createBackgroundExecutor,
   createUnattendedMode,
   initUnattendedMode,
+  resolveTaskHandler,
+  type UnattendedMode,
+  type UnattendedModeOptions,
+  type SchedulerStore,
+  type SchedulerOptions,
+  type TaskState,
   type ScheduledTask,
   type TaskConfig,
   type TaskHandler,
@@ -247,6 +279,7 @@ export {
   type UnattendedConfig,
   type TaskDefinition,
   type NotificationConfig,
+  type TaskHandlers,
   BUILT_IN_TASKS,
 } from './unattended/index.js'
 
@@ -259,7 +292,11 @@ export {
   getCollaborationEngine,
   createCollaborationEngine,
   createTeamFromTemplate,
+  createModelExecutor,
+  registerModelExecutors,
+  AGENT_ROLES,
   type AgentRole,
+  type TeamAgentProfile,
   type TeamMember,
   type MemberStatus,
   type Team,
@@ -278,6 +315,8 @@ export {
   type CollaborationResult,
   type AgentExecutionContext,
   type AgentExecutor,
+  type CollaborationProgressEvent,
+  type TeamChatRequest,
   TEAM_TEMPLATES,
 } from './agents-team/index.js'
 
@@ -295,6 +334,11 @@ export {
   runRalphExLoop,
   quickImprove,
   startRalphEx,
+  createProjectCheckAnalyzer,
+  detectProjectChecks,
+  runProjectCheck,
+  parseCheckOutput,
+  createChangeExecutor,
   type LoopConfig,
   type LoopIteration,
   type LoopPhase,
@@ -312,6 +356,12 @@ export {
   type LoopEventType,
   type LoopAnalyzer,
   type LoopExecutor,
+  type LoopExecutionContext,
+  type LoopExecutionResult,
+  type ProposedChange,
+  type LoopApproval,
+  type ProjectCheck,
+  type ProjectCheckResult,
   type LearningRecord,
   type Feedback,
   type AdaptationRule,
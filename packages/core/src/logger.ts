@@ -61,7 +61,14 @@ class PinoLoggerWrapper implements Logger {
 
 let rootLogger: Logger | null = null
 
-export function createLogger(options?: { level?: LogLevel; logFile?: string }): Logger {
+// stderr: 日志输出到标准错误（stdio 模式下标准输出专用于协议消息）
+export interface LoggerOptions {
+  level?: LogLevel
+  logFile?: string
+  stderr?: boolean
+}
+
+export function createLogger(options?: LoggerOptions): Logger {
   // 获取配置，如果 ConfigManager 尚未初始化则使用默认值
   let config: { logLevel?: LogLevel; logFile?: string | undefined } | null = null
   try {
@@ -81,6 +88,7 @@ export function createLogger(options?: { level?: LogLevel; logFile?: string }):
         colorize: true,
         translateTime: 'SYS:standard',
         ignore: 'pid,hostname',
+        ...(options?.stderr ? { destination: 2 } : {}),
       },
       level,
     },
@@ -116,7 +124,7 @@ export function getLogger(): Logger {
   return rootLogger
 }
 
-export function initializeLogger(options?: { level?: LogLevel; logFile?: string }): Logger {
+export function initializeLogger(options?: LoggerOptions): Logger {
   rootLogger = createLogger(options)
   return rootLogger
 }
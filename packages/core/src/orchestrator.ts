@@ -1,4 +1,7 @@
+import { z } from 'zod'
 import { createModuleLogger } from './logger.js'
+import { parseJsonObject } from './utils.js'
+import type { ModelChatFn } from './types.js'
 
 const logger = createModuleLogger('orchestrator')
 
@@ -20,11 +23,35 @@ export type IntentType =
   | 'exploration'        // 代码探索/搜索
   | 'unknown'            // 未知
 
+const INTENT_TYPES = [
+  'simple_qa',
+  'code_explanation',
+  'code_generation',
+  'code_modification',
+  'bug_fix',
+  'refactoring',
+  'code_review',
+  'testing',
+  'documentation',
+  'project_setup',
+  'multi_step',
+  'exploration',
+  'unknown',
+] as const satisfies readonly IntentType[]
+
 /**
  * Task complexity levels
  */
 export type Complexity = 'trivial' | 'low' | 'medium' | 'high' | 'critical'
 
+const COMPLEXITIES = [
+  'trivial',
+  'low',
+  'medium',
+  'high',
+  'critical',
+] as const satisfies readonly Complexity[]
+
 /**
  * Intent analysis result
  */
@@ -77,6 +104,7 @@ export interface ResourceRequirements {
  * Execution plan
  */
 export interface ExecutionPlan {
+  readonly input: string
   readonly intent: IntentAnalysis
   readonly decomposition: TaskDecomposition
   readonly resources: ResourceRequirements
@@ -92,6 +120,80 @@ export interface ExecutionStep {
   readonly expectedOutcome: string
 }
 
+/**
+ * Plan execution progress event
+ */
+export interface PlanStepEvent {
+  readonly taskId: string
+  readonly agent: string
+  readonly status: 'running' | 'completed' | 'failed' | 'skipped'
+  readonly result?: string
+  readonly error?: string
+  readonly completed: number
+  readonly total: number
+}
+
+/**
+ * 执行单个步骤（通常由 ModelRouter + agent 实现），dependencies 为已完成的前置任务
+ */
+export type PlanStepRunner = (
+  step: ExecutionStep,
+  context: { readonly plan: ExecutionPlan; readonly dependencies: readonly Task[] }
+) => Promise<string>
+
+export interface PlanExecutionOptions {
+  readonly maxConcurrency?: number | undefined
+  readonly signal?: AbortSignal | undefined
+  readonly onStep?: ((event: PlanStepEvent) => void) | undefined
+}
+
+export interface PlanExecutionResult {
+  readonly success: boolean
+  readonly tasks: readonly Task[]
+}
+
+export interface IntentClassifierOptions {
+  readonly model?: string | undefined
+  // 可用 agent 名称，模型建议的 agent 不在其中时忽略
+  readonly agents?: (() => readonly string[]) | undefined
+}
+
+const DEFAULT_MAX_CONCURRENCY = 3
+
+const IntentAnalysisSchema = z.object({
+  type: z.enum(INTENT_TYPES),
+  complexity: z.enum(COMPLEXITIES),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string().default(''),
+  suggestedAgents: z.array(z.string()).default([]),
+  suggestedSkills: z.array(z.string()).default([]),
+  suggestedTools: z.array(z.string()).default([]),
+  requiresPlanning: z.boolean(),
+  requiresReview: z.boolean(),
+})
+
+function intentSystemPrompt(agents: readonly string[], context: ProjectContext | null): string {
+  const lines = [
+    'You classify a user request to a coding assistant.',
+    'Return ONLY a JSON object with these keys:',
+    `- "type": one of ${INTENT_TYPES.map((t) => `"${t}"`).join(', ')}`,
+    `- "complexity": one of ${COMPLEXITIES.map((c) => `"${c}"`).join(', ')}`,
+    '- "confidence": number from 0 to 1',
+    '- "reasoning": one short sentence',
+    '- "suggestedAgents", "suggestedSkills", "suggestedTools": arrays of names',
+    '- "requiresPlanning": true if the task needs a plan before execution',
+    '- "requiresReview": true if the result should be reviewed',
+  ]
+  if (agents.length > 0) {
+    lines.push(`Available agents: ${agents.join(', ')}`)
+  }
+  if (context) {
+    const stack = [context.language, context.framework].filter(Boolean).join(' / ')
+    lines.push(`Project: ${stack}, package manager ${context.packageManager}`)
+  }
+  return lines.join('\n')
+}
+
 /**
  * Orchestrator state
  */
@@ -133,28 +235,77 @@ export class Orchestrator {
 
   private projectContext: ProjectContext | null = null
 
+  private intentChat: ModelChatFn | null = null
+  private intentOptions: IntentClassifierOptions = {}
+
+  /**
+   * 设置 LLM 意图分类器，传入 null 时仅使用规则匹配
+   */
+  setIntentClassifier(chat: ModelChatFn | null, options: IntentClassifierOptions = {}): void {
+    this.intentChat = chat
+    this.intentOptions = options
+  }
+
   /**
    * Analyze user intent
    */
   async analyzeIntent(input: string, _context?: Partial<ProjectContext>): Promise<IntentAnalysis> {
     const fullContext = this.projectContext ?? null
-    
-    // Use AI to analyze intent
-    // In real implementation, this would call the model router
-    
-    // For now, return a basic analysis based on patterns
-    
-    const analysis = this.ruleBasedIntentAnalysis(input, fullContext)
-    
-    logger.info('Intent analyzed', { 
-      type: analysis.type, 
+    const rules = this.ruleBasedIntentAnalysis(input, fullContext)
+
+    let analysis = rules
+    if (this.intentChat) {
+      try {
+        analysis = await this.llmIntentAnalysis(this.intentChat, input, fullContext, rules)
+      } catch (error) {
+        // 模型不可用或输出不合法时回退到规则匹配
+        logger.warn('LLM 意图分析失败，使用规则匹配', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    logger.info('Intent analyzed', {
+      type: analysis.type,
       complexity: analysis.complexity,
-      confidence: analysis.confidence 
+      confidence: analysis.confidence,
     })
-    
+
     return analysis
   }
 
+  /**
+   * LLM intent analysis (structured JSON output validated with zod)
+   */
+  private async llmIntentAnalysis(
+    chat: ModelChatFn,
+    input: string,
+    context: ProjectContext | null,
+    rules: IntentAnalysis
+  ): Promise<IntentAnalysis> {
+    const agents = this.intentOptions.agents?.() ?? []
+    const output = await chat({
+      systemPrompt: intentSystemPrompt(agents, context),
+      prompt: input,
+      ...(this.intentOptions.model
+        ? { model: this.intentOptions.model }
+        : { taskType: 'simple_qa', complexity: 'low' }),
+      temperature: 0,
+      maxTokens: 512,
+    })
+    const parsed = IntentAnalysisSchema.parse(parseJsonObject(output))
+
+    // 只保留存在的 agent，全部无效时沿用规则匹配的建议
+    const suggestedAgents =
+      agents.length > 0
+        ? parsed.suggestedAgents.filter((name) => agents.includes(name))
+        : parsed.suggestedAgents
+    return {
+      ...parsed,
+      suggestedAgents: suggestedAgents.length > 0 ? suggestedAgents : rules.suggestedAgents,
+    }
+  }
+
   /**
    * Rule-based intent analysis (fallback)
    */
@@ -420,6 +571,7 @@ export class Orchestrator {
     const steps = this.buildExecutionSteps(decomposition, intent, resources)
     
     return {
+      input,
       intent,
       decomposition,
       resources,
@@ -491,6 +643,138 @@ export class Orchestrator {
     return steps
   }
 
+  /**
+   * Execute plan steps, running steps whose dependencies have completed in parallel
+   */
+  async executePlan(
+    plan: ExecutionPlan,
+    runStep: PlanStepRunner,
+    options: PlanExecutionOptions = {}
+  ): Promise<PlanExecutionResult> {
+    const maxConcurrency = options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+      throw new Error(`maxConcurrency 必须为正整数: ${maxConcurrency}`)
+    }
+    const tasks = new Map(plan.decomposition.tasks.map((task) => [task.id, task]))
+    for (const step of plan.steps) {
+      if (!tasks.has(step.taskId)) {
+        tasks.set(step.taskId, {
+          id: step.taskId,
+          description: step.prompt,
+          type: plan.intent.type,
+          complexity: plan.intent.complexity,
+          dependencies: [],
+          status: 'pending',
+        })
+      }
+    }
+
+    const total = plan.steps.length
+    let finished = 0
+    const running = new Map<string, Promise<void>>()
+
+    const setTask = (task: Task): void => {
+      tasks.set(task.id, task)
+      const all = [...tasks.values()]
+      this.updateState({
+        currentTask: task.status === 'in_progress' ? task : this.state.currentTask,
+        completedTasks: all.filter((t) => t.status === 'completed'),
+        pendingTasks: all.filter((t) => t.status === 'pending'),
+      })
+    }
+
+    const finish = (step: ExecutionStep, task: Task, status: PlanStepEvent['status']): void => {
+      finished++
+      setTask(task)
+      options.onStep?.({
+        taskId: step.taskId,
+        agent: step.agent,
+        status,
+        ...(task.result !== undefined ? { result: String(task.result) } : {}),
+        ...(task.error !== undefined ? { error: task.error } : {}),
+        completed: finished,
+        total,
+      })
+    }
+
+    const start = (step: ExecutionStep): void => {
+      const task = { ...tasks.get(step.taskId)!, status: 'in_progress' as const }
+      setTask(task)
+      this.updateState({ activeAgent: step.agent })
+      options.onStep?.({
+        taskId: step.taskId,
+        agent: step.agent,
+        status: 'running',
+        completed: finished,
+        total,
+      })
+
+      const dependencies = task.dependencies.map((id) => tasks.get(id)!)
+      const promise = runStep(step, { plan, dependencies })
+        .then(
+          (result) => finish(step, { ...task, status: 'completed', result }, 'completed'),
+          (error: unknown) => {
+            const message = error instanceof Error ? error.message : String(error)
+            logger.warn(`计划步骤失败: ${step.taskId}`, { error: message })
+            finish(step, { ...task, status: 'failed', error: message }, 'failed')
+          }
+        )
+        .finally(() => running.delete(step.taskId))
+      running.set(step.taskId, promise)
+    }
+
+    const skip = (step: ExecutionStep, error: string): void => {
+      finish(step, { ...tasks.get(step.taskId)!, status: 'failed', error }, 'skipped')
+    }
+
+    for (;;) {
+      const pending = plan.steps.filter((s) => tasks.get(s.taskId)!.status === 'pending')
+
+      if (options.signal?.aborted) {
+        pending.forEach((step) => skip(step, '已取消'))
+        if (running.size === 0) break
+        await Promise.race(running.values())
+        continue
+      }
+
+      // 前置任务失败的步骤不再执行（逐层传递）
+      for (let skipped = true; skipped; ) {
+        skipped = false
+        for (const step of pending) {
+          const task = tasks.get(step.taskId)!
+          const failed = task.dependencies.find((id) => tasks.get(id)?.status === 'failed')
+          if (task.status === 'pending' && failed) {
+            skip(step, `前置任务失败: ${failed}`)
+            skipped = true
+          }
+        }
+      }
+
+      const ready = pending.filter((step) => {
+        const task = tasks.get(step.taskId)!
+        return (
+          task.status === 'pending' &&
+          task.dependencies.every((id) => tasks.get(id)?.status === 'completed')
+        )
+      })
+      for (const step of ready.slice(0, maxConcurrency - running.size)) {
+        start(step)
+      }
+
+      if (running.size === 0) break
+      await Promise.race(running.values())
+    }
+
+    // 剩余步骤的依赖无法满足（不存在或循环依赖）
+    for (const step of plan.steps) {
+      if (tasks.get(step.taskId)!.status === 'pending') skip(step, '依赖无法满足')
+    }
+
+    this.updateState({ currentTask: null, activeAgent: null })
+    const results = plan.steps.map((step) => tasks.get(step.taskId)!)
+    return { success: results.every((t) => t.status === 'completed'), tasks: results }
+  }
+
   /**
    * Set project context
    */
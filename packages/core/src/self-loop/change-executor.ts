@@ -0,0 +1,257 @@
+/**
+ * Self-Referential Loop - Change Executor
+ *
+ * Asks a chat model for file changes that fix the reported issues and
+ * applies them to the project.
+ */
+
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { z } from 'zod'
+import { createModuleLogger } from '../logger'
+import { parseJsonObject } from '../utils'
+import type { ModelChatFn } from '../types'
+import type { FileChange, Issue, LoopExecutor } from './loop-controller.js'
+
+const logger = createModuleLogger('self-loop:executor')
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChangeExecutorOptions {
+  maxFiles?: number            // Files sent to the model per iteration
+  maxFileChars?: number        // Larger files are skipped
+}
+
+const DEFAULT_MAX_FILES = 5
+const DEFAULT_MAX_FILE_CHARS = 40000
+
+// Path segments the model may never read or write
+const PROTECTED_SEGMENTS = new Set(['.git', 'node_modules'])
+
+const SYSTEM_PROMPT = `You are a careful software engineer fixing issues reported by a project's type-checker, linter and tests.
+Make the smallest changes that fix the issues without changing unrelated behavior.
+Return ONLY a JSON object:
+{"summary": "one sentence", "changes": [{"path": "relative/path", "operation": "create" | "modify" | "delete", "content": "full new file content"}]}
+"content" is the complete file after the change (omit it for delete). Return an empty "changes" array if you cannot fix anything.`
+
+const ProposalSchema = z.object({
+  summary: z.string().default(''),
+  changes: z.array(z.object({
+    path: z.string().min(1),
+    operation: z.enum(['create', 'modify', 'delete']),
+    content: z.string().optional()
+  }))
+})
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check that a path relative to the project root stays inside it and out of protected directories
+ */
+function checkRelativePath(relative: string, filePath: string): void {
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Path outside project: ${filePath}`)
+  }
+  if (relative.split(path.sep).some(segment => PROTECTED_SEGMENTS.has(segment.toLowerCase()))) {
+    throw new Error(`Protected path: ${filePath}`)
+  }
+}
+
+/**
+ * Resolve a path inside the project root, rejecting anything outside it
+ * or inside .git / node_modules
+ */
+export function resolveProjectPath(projectRoot: string, filePath: string): string {
+  const root = path.resolve(projectRoot)
+  const resolved = path.resolve(root, filePath)
+  const relative = path.relative(root, resolved)
+  if (!relative) throw new Error(`Path outside project: ${filePath}`)
+  checkRelativePath(relative, filePath)
+  return resolved
+}
+
+/**
+ * Resolve a project path and follow symlinks in its deepest existing part,
+ * rejecting links that lead outside the project (reads and writes would follow them)
+ */
+async function resolveRealProjectPath(projectRoot: string, filePath: string): Promise<string> {
+  const resolved = resolveProjectPath(projectRoot, filePath)
+  const root = await fs.realpath(projectRoot)
+
+  let current = resolved
+  for (;;) {
+    let real: string
+    try {
+      real = await fs.realpath(current)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+      // A dangling symlink still exists and writeFile would create its target
+      const dangling = await fs.lstat(current).then(() => true, () => false)
+      if (dangling) throw new Error(`Path outside project: ${filePath}`)
+      current = path.dirname(current)
+      continue
+    }
+    checkRelativePath(path.relative(root, real), filePath)
+    return resolved
+  }
+}
+
+async function readOptional(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, 'utf-8')
+  } catch {
+    return undefined
+  }
+}
+
+function formatIssue(issue: Issue): string {
+  const loc = issue.location
+  const where = loc
+    ? `${loc.file}${loc.line ? `:${loc.line}` : ''}${loc.column ? `:${loc.column}` : ''} `
+    : ''
+  return `- [${issue.severity}] ${issue.type} ${where}${issue.description}`
+}
+
+/**
+ * Apply changes to the project, recording the original content of each file
+ */
+export async function applyFileChanges(
+  projectRoot: string,
+  changes: { path: string; operation: FileChange['operation']; content?: string | undefined }[]
+): Promise<FileChange[]> {
+  // Validate everything before touching the first file
+  const resolved: { change: (typeof changes)[number]; fullPath: string }[] = []
+  for (const change of changes) {
+    if (change.operation !== 'delete' && change.content === undefined) {
+      throw new Error(`Missing content for ${change.operation} ${change.path}`)
+    }
+    resolved.push({ change, fullPath: await resolveRealProjectPath(projectRoot, change.path) })
+  }
+
+  const applied: FileChange[] = []
+  try {
+    for (const { change, fullPath } of resolved) {
+      const originalContent = await readOptional(fullPath)
+      const relativePath = path.relative(path.resolve(projectRoot), fullPath)
+      const unchanged = change.operation === 'delete'
+        ? originalContent === undefined
+        : change.content === originalContent
+      if (unchanged) continue
+
+      // Recorded before writing so a failed write is undone as well
+      applied.push({
+        path: relativePath,
+        operation: originalContent === undefined ? 'create' : change.operation,
+        ...(change.content !== undefined && change.operation !== 'delete' ? { content: change.content } : {}),
+        ...(originalContent !== undefined ? { originalContent } : {})
+      })
+      if (change.operation === 'delete') {
+        await fs.rm(fullPath, { force: true })
+      } else {
+        await fs.mkdir(path.dirname(fullPath), { recursive: true })
+        await fs.writeFile(fullPath, change.content!, 'utf-8')
+      }
+    }
+  } catch (error) {
+    // The caller never sees a partial result, so undo what was already written
+    await undoFileChanges(projectRoot, applied)
+    throw error
+  }
+
+  return applied
+}
+
+/**
+ * Restore the original content of applied changes, removing files they created
+ */
+async function undoFileChanges(projectRoot: string, changes: FileChange[]): Promise<void> {
+  for (const change of [...changes].reverse()) {
+    const fullPath = path.resolve(projectRoot, change.path)
+    try {
+      if (change.originalContent === undefined) {
+        await fs.rm(fullPath, { force: true })
+      } else {
+        await fs.writeFile(fullPath, change.originalContent, 'utf-8')
+      }
+    } catch (error) {
+      logger.warn(`Failed to undo change to ${change.path}: ${(error as Error).message}`)
+    }
+  }
+}
+
+// ============================================================================
+// Executor
+// ============================================================================
+
+/**
+ * Create an executor that asks the model for file changes fixing the issues
+ * (with the affected files as context) and applies them
+ */
+export function createChangeExecutor(
+  chat: ModelChatFn,
+  options: ChangeExecutorOptions = {}
+): LoopExecutor {
+  const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES
+  const maxFileChars = options.maxFileChars ?? DEFAULT_MAX_FILE_CHARS
+
+  return async ({ input, issues, projectRoot, feedback, approve }) => {
+    // Files referenced by the issues, in issue order
+    const files: { path: string; content: string }[] = []
+    const seen = new Set<string>()
+    for (const issue of issues) {
+      const file = issue.location?.file
+      if (!file || seen.has(file) || files.length >= maxFiles) continue
+      seen.add(file)
+
+      let fullPath: string
+      try {
+        fullPath = await resolveRealProjectPath(projectRoot, file)
+      } catch {
+        continue
+      }
+      const content = await readOptional(fullPath)
+      if (content !== undefined && content.length <= maxFileChars) {
+        files.push({ path: path.relative(path.resolve(projectRoot), fullPath), content })
+      }
+    }
+
+    const sections = [`# Task\n${input.task}`]
+    if (input.constraints?.length) {
+      sections.push(`## Constraints\n${input.constraints.map(c => `- ${c}`).join('\n')}`)
+    }
+    sections.push(`## Issues\n${issues.map(formatIssue).join('\n')}`)
+    if (feedback) sections.push(`## Previous attempt\n${feedback}`)
+    for (const file of files) {
+      sections.push(`## File: ${file.path}\n\`\`\`\n${file.content}\n\`\`\``)
+    }
+
+    const output = await chat({
+      systemPrompt: SYSTEM_PROMPT,
+      prompt: sections.join('\n\n'),
+      taskType: 'code_generation'
+    })
+    let proposal: z.infer<typeof ProposalSchema>
+    try {
+      proposal = ProposalSchema.parse(parseJsonObject(output))
+    } catch (error) {
+      return { success: false, changes: [], error: `Invalid change proposal: ${(error as Error).message}` }
+    }
+
+    if (approve) {
+      const approval = await approve(proposal.changes, proposal.summary)
+      if (!approval.approved) {
+        const reason = approval.reason ? `: ${approval.reason}` : ''
+        return { success: false, changes: [], error: `Changes rejected${reason}` }
+      }
+    }
+
+    const changes = await applyFileChanges(projectRoot, proposal.changes)
+    logger.info(`Applied ${changes.length} change(s): ${proposal.summary}`)
+
+    return { success: true, changes, summary: proposal.summary }
+  }
+}
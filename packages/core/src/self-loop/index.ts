@@ -4,6 +4,10 @@
  * Self-improvement and autonomous code optimization.
  */
 
+import type { LoopConfig, LoopSession } from './loop-controller.js'
+import { runRalphExLoop, type RalphExResult } from './self-improver.js'
+import { LOOP_TEMPLATES } from './types.js'
+
 export {
   SelfLoopController,
   getLoopController,
@@ -25,9 +29,33 @@ export {
   type LoopEvent,
   type LoopEventType,
   type LoopAnalyzer,
-  type LoopExecutor
+  type LoopExecutor,
+  type LoopExecutionContext,
+  type LoopExecutionResult,
+  type ProposedChange,
+  type LoopApproval,
+  type LoopCheckpointStore,
+  type SelfLoopControllerOptions
 } from './loop-controller.js'
 
+export {
+  detectProjectChecks,
+  runProjectCheck,
+  parseCheckOutput,
+  scoreCheckResults,
+  createProjectCheckAnalyzer,
+  type ProjectCheck,
+  type ProjectCheckKind,
+  type ProjectCheckResult,
+  type ProjectCheckOptions
+} from './project-checks.js'
+
+export {
+  createChangeExecutor,
+  applyFileChanges,
+  type ChangeExecutorOptions
+} from './change-executor.js'
+
 export {
   SelfImprover,
   getSelfImprover,
@@ -49,13 +77,16 @@ export {
 } from './types.js'
 
 // Convenience function to start a quick improvement loop
-export async function quickImprove(task: string): Promise<LoopSession> {
+export async function quickImprove(
+  task: string,
+  config?: Partial<LoopConfig>
+): Promise<LoopSession> {
   const { getLoopController } = await import('./loop-controller.js')
   const controller = getLoopController()
   
   return controller.startLoop(
     { task },
-    LOOP_TEMPLATES.quick.config
+    { ...LOOP_TEMPLATES.quick.config, ...config }
   )
 }
 
@@ -5,8 +5,13 @@
  * self-improvement and autonomous code optimization.
  */
 
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
 import { createModuleLogger } from '../logger'
 import { EventEmitter } from 'events'
+import { getConfigManager } from '../config.js'
+import { getSnapshotManager, type SnapshotManager } from '../snapshot.js'
+import { createProjectCheckAnalyzer } from './project-checks.js'
 
 const logger = createModuleLogger('self-loop:controller')
 
@@ -17,10 +22,11 @@ const logger = createModuleLogger('self-loop:controller')
 export interface LoopConfig {
   maxIterations: number
   maxDuration: number           // Max total duration in ms
-  convergenceThreshold: number  // Score change threshold to stop
+  convergenceThreshold: number  // Stop when the score gains less and no issue was fixed
   autoFixEnabled: boolean
-  approvalRequired: boolean
+  approvalRequired: boolean     // Proposed changes wait for approveChanges / rejectChanges
   recordHistory: boolean
+  projectRoot: string           // Directory checked and modified by the loop
 }
 
 export interface LoopIteration {
@@ -34,10 +40,19 @@ export interface LoopIteration {
   duration: number
   timestamp: Date
   error?: string
+  checkpoint?: string           // Snapshot taken before applying changes
+  reverted?: boolean            // Changes were rolled back after a regression
+  proposal?: ProposedChange[]   // Changes submitted for approval
 }
 
 export type LoopPhase = 'analyze' | 'plan' | 'execute' | 'verify' | 'improve' | 'complete'
-export type IterationStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped'
+export type IterationStatus =
+  | 'pending'
+  | 'running'
+  | 'awaiting-approval'
+  | 'completed'
+  | 'failed'
+  | 'skipped'
 
 export interface LoopInput {
   task: string
@@ -59,6 +74,17 @@ export interface FileChange {
   diff?: string
 }
 
+export interface ProposedChange {
+  path: string
+  operation: FileChange['operation']
+  content?: string | undefined
+}
+
+export interface LoopApproval {
+  approved: boolean
+  reason?: string               // Why the changes were rejected, passed on as feedback
+}
+
 export interface LoopAnalysis {
   issues: Issue[]
   quality: QualityMetrics
@@ -97,13 +123,16 @@ export interface Suggestion {
 export interface LoopSession {
   id: string
   config: LoopConfig
+  input: LoopInput
   iterations: LoopIteration[]
   currentPhase: LoopPhase
   status: SessionStatus
   startTime: Date
   endTime?: Date
+  initialScore?: number
   finalScore?: number
   improvements: Improvement[]
+  error?: string
 }
 
 export type SessionStatus = 'initializing' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
@@ -134,6 +163,7 @@ export type LoopEventType =
   | 'iteration:started'
   | 'iteration:completed'
   | 'iteration:failed'
+  | 'iteration:approval-required'
   | 'phase:changed'
   | 'score:updated'
   | 'improvement:applied'
@@ -142,49 +172,55 @@ export type LoopEventType =
 // Loop Controller
 // ============================================================================
 
+// Checkpoint store used around applied changes (SnapshotManager by default)
+export type LoopCheckpointStore = Pick<SnapshotManager, 'track' | 'revert'>
+
+export interface SelfLoopControllerOptions {
+  snapshots?: LoopCheckpointStore
+  historyDir?: string           // Defaults to <dataDir>/self-loop
+}
+
+// Issues handed to the executor per iteration
+const MAX_ISSUES_PER_ITERATION = 10
+const PAUSE_POLL_INTERVAL = 500
+
+const SEVERITY_ORDER: Record<Issue['severity'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3
+}
+
 export class SelfLoopController {
   private sessions: Map<string, LoopSession> = new Map()
   private emitter: EventEmitter
   private analyzers: Map<string, LoopAnalyzer> = new Map()
   private executors: Map<string, LoopExecutor> = new Map()
+  private snapshots: LoopCheckpointStore
+  private historyDir: string | undefined
+  private approvals: Map<string, (approval: LoopApproval) => void> = new Map()
 
-  constructor() {
+  constructor(options: SelfLoopControllerOptions = {}) {
     this.emitter = new EventEmitter()
     this.emitter.setMaxListeners(50)
-    
-    // Register default analyzers and executors
+    this.snapshots = options.snapshots ?? getSnapshotManager()
+    this.historyDir = options.historyDir
+
+    // Register default analyzers
     this.registerDefaultComponents()
   }
 
   /**
-   * Register default analyzers and executors
+   * Register default analyzers; the executor needs a chat model and is
+   * registered by the host (see createChangeExecutor)
    */
   private registerDefaultComponents(): void {
-    // Code analysis
-    this.registerAnalyzer('code', async (input) => {
-      return {
-        issues: [],
-        quality: {
-          correctness: 80,
-          performance: 75,
-          maintainability: 70,
-          security: 85,
-          testCoverage: 60
-        },
-        suggestions: [],
-        score: 74
-      }
-    })
-
-    // Default executor
-    this.registerExecutor('default', async (input, changes) => {
-      logger.info(`Applying ${changes.length} changes`)
-      return { success: true, applied: changes.length }
-    })
+    // Type-check, lint and test results of the project
+    this.registerAnalyzer('code', createProjectCheckAnalyzer())
   }
 
   /**
-   * Register an analyzer
+   * Register an analyzer ('code' is used by the loop)
    */
   registerAnalyzer(name: string, analyzer: LoopAnalyzer): void {
     this.analyzers.set(name, analyzer)
@@ -192,7 +228,7 @@ export class SelfLoopController {
   }
 
   /**
-   * Register an executor
+   * Register an executor ('default' is used by the loop)
    */
   registerExecutor(name: string, executor: LoopExecutor): void {
     this.executors.set(name, executor)
@@ -200,9 +236,18 @@ export class SelfLoopController {
   }
 
   /**
-   * Start a self-improvement loop
+   * Start a self-improvement loop and wait for it to finish
    */
   async startLoop(input: LoopInput, config?: Partial<LoopConfig>): Promise<LoopSession> {
+    const session = this.createSession(input, config)
+    await this.runSession(session)
+    return session
+  }
+
+  /**
+   * Create a session without running it (see runSession)
+   */
+  createSession(input: LoopInput, config?: Partial<LoopConfig>): LoopSession {
     const session: LoopSession = {
       id: `loop-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
       config: {
@@ -211,8 +256,10 @@ export class SelfLoopController {
         convergenceThreshold: config?.convergenceThreshold ?? 5,
         autoFixEnabled: config?.autoFixEnabled ?? true,
         approvalRequired: config?.approvalRequired ?? false,
-        recordHistory: config?.recordHistory ?? true
+        recordHistory: config?.recordHistory ?? true,
+        projectRoot: path.resolve(config?.projectRoot ?? process.cwd())
       },
+      input,
       iterations: [],
       currentPhase: 'analyze',
       status: 'initializing',
@@ -221,249 +268,328 @@ export class SelfLoopController {
     }
 
     this.sessions.set(session.id, session)
+    return session
+  }
+
+  /**
+   * Run a session created by createSession
+   */
+  async runSession(session: LoopSession): Promise<void> {
+    if (session.status !== 'initializing') {
+      throw new Error(`Session already started: ${session.id}`)
+    }
     session.status = 'running'
 
     this.emit({ type: 'session:started', sessionId: session.id })
     logger.info(`Started self-loop session: ${session.id}`)
 
-    // Run the loop
-    await this.runLoop(session, input)
-
-    return session
+    await this.runLoop(session, session.input)
   }
 
   /**
-   * Run the self-improvement loop
+   * Run the self-improvement loop: analyze once, then per iteration
+   * plan → execute (under a checkpoint) → verify → keep or revert
    */
   private async runLoop(session: LoopSession, input: LoopInput): Promise<void> {
     const startTime = Date.now()
-    let previousScore = 0
 
     try {
+      let analysis = await this.analyze(session, input)
+      session.initialScore = analysis.score
+      session.finalScore = analysis.score
+      this.emit({ type: 'score:updated', sessionId: session.id, data: { score: analysis.score } })
+      let feedback: string | undefined
+
       for (let i = 0; i < session.config.maxIterations; i++) {
+        await this.waitWhilePaused(session)
+        if (session.status !== 'running') break
+
         // Check duration limit
         if (Date.now() - startTime > session.config.maxDuration) {
           logger.info('Max duration reached')
           break
         }
 
+        const fixable = analysis.issues.filter(issue => issue.autoFixable)
+        if (fixable.length === 0) {
+          logger.info('No fixable issues left')
+          break
+        }
+        const executor = this.executors.get('default')
+        if (!session.config.autoFixEnabled || !executor) {
+          logger.info(executor ? 'Auto-fix disabled' : 'No executor registered')
+          break
+        }
+
         const iteration: LoopIteration = {
           id: i + 1,
-          phase: this.getNextPhase(session.currentPhase),
+          phase: 'plan',
           status: 'running',
           input,
           duration: 0,
           timestamp: new Date()
         }
-
         session.iterations.push(iteration)
-        session.currentPhase = iteration.phase
+        this.emit({ type: 'iteration:started', sessionId: session.id, iteration: iteration.id })
 
-        this.emit({ 
-          type: 'iteration:started', 
-          sessionId: session.id,
-          iteration: iteration.id 
-        })
+        const before = analysis
+        const after = await this.runIteration(session, iteration, executor, analysis, feedback)
+        await this.persist(session)
 
-        // Execute phase
-        await this.executePhase(session, iteration, input)
-
-        // Check convergence
-        if (iteration.score !== undefined) {
-          const scoreChange = Math.abs(iteration.score - previousScore)
-          
-          if (scoreChange < session.config.convergenceThreshold) {
-            logger.info(`Converged: score change ${scoreChange} < threshold`)
-            break
-          }
-          
-          previousScore = iteration.score
+        if (!after) {
+          feedback = iteration.error
+          continue
         }
 
-        // Check if completed
-        if (iteration.status === 'completed') {
+        feedback = undefined
+        analysis = after
+        session.finalScore = after.score
+
+        // Converged: the accepted change barely moved the score and fixed no issues
+        const gain = after.score - before.score
+        const fixedIssues = after.issues.length < before.issues.length
+        if (gain < session.config.convergenceThreshold && !fixedIssues) {
+          logger.info(`Converged: score change ${gain} < threshold with no issues fixed`)
           break
         }
       }
 
-      // Mark session complete
-      session.status = 'completed'
-      session.endTime = new Date()
-      session.finalScore = previousScore
-
-      this.emit({ type: 'session:completed', sessionId: session.id })
-
+      // Mark session complete (unless cancelled meanwhile)
+      if (session.status === 'running') {
+        session.status = 'completed'
+        session.endTime = new Date()
+        this.emit({ type: 'session:completed', sessionId: session.id })
+      }
     } catch (error) {
       session.status = 'failed'
       session.endTime = new Date()
-      
-      const err = error as Error
-      logger.error(`Loop failed: ${err.message}`)
-      
-      this.emit({ 
-        type: 'session:failed', 
+      session.error = (error as Error).message
+
+      logger.error(`Loop failed: ${session.error}`)
+
+      this.emit({
+        type: 'session:failed',
         sessionId: session.id,
-        data: { error: err.message }
+        data: { error: session.error }
       })
     }
+
+    session.currentPhase = 'complete'
+    await this.persist(session)
   }
 
   /**
-   * Execute a single phase
+   * Run one iteration; returns the new analysis when the changes are kept
    */
-  private async executePhase(
-    session: LoopSession, 
+  private async runIteration(
+    session: LoopSession,
     iteration: LoopIteration,
-    input: LoopInput
-  ): Promise<void> {
+    executor: LoopExecutor,
+    analysis: LoopAnalysis,
+    feedback: string | undefined
+  ): Promise<LoopAnalysis | undefined> {
     const phaseStart = Date.now()
+    const root = session.config.projectRoot
+    let changes: FileChange[] = []
 
     try {
-      switch (iteration.phase) {
-        case 'analyze':
-          iteration.analysis = await this.analyze(session, input)
-          iteration.score = iteration.analysis.score
-          iteration.status = 'completed'
-          break
-
-        case 'plan':
-          // Generate improvement plan based on analysis
-          iteration.output = {
-            summary: 'Improvement plan generated',
-            nextActions: iteration.analysis?.suggestions.slice(0, 3).map(s => s.description) || []
-          }
-          iteration.status = 'completed'
-          break
+      // Plan: most severe fixable issues first
+      const issues = analysis.issues
+        .filter(issue => issue.autoFixable)
+        .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+        .slice(0, MAX_ISSUES_PER_ITERATION)
+      iteration.output = {
+        summary: `Fix ${issues.length} of ${analysis.issues.length} issue(s)`,
+        nextActions: issues.map(issue => issue.description)
+      }
 
-        case 'execute':
-          if (session.config.autoFixEnabled && iteration.analysis?.issues) {
-            const fixable = iteration.analysis.issues.filter(i => i.autoFixable)
-            
-            if (fixable.length > 0) {
-              const executor = this.executors.get('default')
-              if (executor) {
-                const changes = fixable.map(issue => ({
-                  path: issue.location?.file || 'unknown',
-                  operation: 'modify' as const,
-                  description: issue.description
-                }))
-                
-                await executor(input, changes)
-                
-                session.improvements.push({
-                  type: 'auto-fix',
-                  description: `Fixed ${fixable.length} issues`,
-                  iteration: iteration.id
-                })
+      // Execute under a checkpoint
+      this.setPhase(session, iteration, 'execute')
+      const checkpoint = await this.snapshots.track(root, `self-loop ${session.id} #${iteration.id}`)
+      iteration.checkpoint = checkpoint.hash
+
+      let verified: LoopAnalysis
+      try {
+        const result = await executor({
+          input: session.input,
+          issues,
+          analysis,
+          projectRoot: root,
+          iteration: iteration.id,
+          ...(feedback ? { feedback } : {}),
+          ...(session.config.approvalRequired
+            ? {
+                approve: (proposed: ProposedChange[], summary: string) =>
+                  this.requestApproval(session, iteration, proposed, summary)
               }
-            }
-          }
-          
-          iteration.output = {
-            summary: 'Execution completed',
-            changes: []
-          }
-          iteration.status = 'completed'
-          break
-
-        case 'verify':
-          // Re-analyze to verify improvements
-          iteration.analysis = await this.analyze(session, input)
-          iteration.score = iteration.analysis.score
-          iteration.status = 'completed'
-          break
+            : {})
+        })
+        changes = result.changes
+        iteration.output = {
+          ...iteration.output,
+          summary: result.summary || iteration.output.summary,
+          changes
+        }
+        if (!result.success || changes.length === 0) {
+          throw new Error(result.error ?? 'No changes proposed')
+        }
 
-        case 'improve':
-          // Apply additional improvements based on suggestions
-          const suggestions = iteration.analysis?.suggestions.filter(s => s.autoFixable) || []
-          
-          if (suggestions.length > 0) {
-            const executor = this.executors.get('default')
-            if (executor) {
-              const changes = suggestions.map(s => ({
-                path: 'unknown',
-                operation: 'modify' as const,
-                description: s.description
-              }))
-              
-              await executor(input, changes)
-              
-              session.improvements.push({
-                type: 'improvement',
-                description: `Applied ${suggestions.length} improvements`,
-                iteration: iteration.id
-              })
-            }
-          }
-          
-          iteration.output = { summary: 'Improvements applied' }
-          iteration.status = 'completed'
-          break
+        // Verify
+        this.setPhase(session, iteration, 'verify')
+        verified = await this.analyze(session, session.input)
+        iteration.analysis = verified
+        iteration.score = verified.score
+        this.emit({
+          type: 'score:updated',
+          sessionId: session.id,
+          iteration: iteration.id,
+          data: { score: verified.score }
+        })
 
-        case 'complete':
-          iteration.status = 'completed'
-          break
+        // Improve: keep the changes, or roll back on regression
+        this.setPhase(session, iteration, 'improve')
+        if (verified.score < analysis.score) {
+          throw new Error(
+            `Score dropped from ${analysis.score} to ${verified.score}, reverted: ${iteration.output.summary}`
+          )
+        }
+      } catch (error) {
+        // Nothing applied after the checkpoint is kept when the iteration fails
+        await this.revertChanges(root, checkpoint.hash, changes)
+        iteration.reverted = true
+        throw error
       }
 
-      iteration.duration = Date.now() - phaseStart
+      session.improvements.push({
+        type: 'auto-fix',
+        description: iteration.output.summary,
+        before: analysis.score,
+        after: verified.score,
+        iteration: iteration.id
+      })
+      this.emit({
+        type: 'improvement:applied',
+        sessionId: session.id,
+        iteration: iteration.id,
+        data: { changes: changes.map(c => c.path), score: verified.score }
+      })
 
-      this.emit({ 
-        type: 'iteration:completed', 
+      this.setPhase(session, iteration, 'complete')
+      iteration.status = 'completed'
+      iteration.duration = Date.now() - phaseStart
+      this.emit({
+        type: 'iteration:completed',
         sessionId: session.id,
         iteration: iteration.id,
         data: { score: iteration.score }
       })
-
+      return verified
     } catch (error) {
       iteration.status = 'failed'
       iteration.error = (error as Error).message
       iteration.duration = Date.now() - phaseStart
 
-      this.emit({ 
-        type: 'iteration:failed', 
+      this.emit({
+        type: 'iteration:failed',
         sessionId: session.id,
         iteration: iteration.id,
-        data: { error: error }
+        data: { error: iteration.error, reverted: iteration.reverted ?? false }
       })
+      return undefined
     }
   }
 
+  /**
+   * Wait until the proposed changes are approved or rejected (or the session is cancelled)
+   */
+  private async requestApproval(
+    session: LoopSession,
+    iteration: LoopIteration,
+    proposal: ProposedChange[],
+    summary: string
+  ): Promise<LoopApproval> {
+    if (session.status === 'cancelled') return { approved: false, reason: 'Session cancelled' }
+
+    iteration.status = 'awaiting-approval'
+    iteration.proposal = proposal
+    await this.persist(session)
+
+    const approval = await new Promise<LoopApproval>(resolve => {
+      this.approvals.set(session.id, resolve)
+      this.emit({
+        type: 'iteration:approval-required',
+        sessionId: session.id,
+        iteration: iteration.id,
+        data: { summary, changes: proposal.map(c => ({ path: c.path, operation: c.operation })) }
+      })
+    })
+    this.approvals.delete(session.id)
+    iteration.status = 'running'
+    return approval
+  }
+
+  /**
+   * Approve the changes a session is waiting on; they are applied and verified
+   */
+  approveChanges(sessionId: string): boolean {
+    const resolve = this.approvals.get(sessionId)
+    if (!resolve) return false
+
+    resolve({ approved: true })
+    return true
+  }
+
+  /**
+   * Reject the changes a session is waiting on; the reason is sent to the next attempt
+   */
+  rejectChanges(sessionId: string, reason?: string): boolean {
+    const resolve = this.approvals.get(sessionId)
+    if (!resolve) return false
+
+    resolve({ approved: false, ...(reason ? { reason } : {}) })
+    return true
+  }
+
+  /**
+   * Restore the checkpoint; files created by the changes are not part of it
+   */
+  private async revertChanges(root: string, hash: string, changes: FileChange[]): Promise<void> {
+    await this.snapshots.revert(root, hash)
+    for (const change of changes) {
+      if (change.originalContent === undefined && change.operation !== 'delete') {
+        await fs.rm(path.resolve(root, change.path), { force: true })
+      }
+    }
+    logger.info(`Reverted ${changes.length} change(s) to ${hash}`)
+  }
+
   /**
    * Analyze current state
    */
   private async analyze(session: LoopSession, input: LoopInput): Promise<LoopAnalysis> {
     const analyzer = this.analyzers.get('code')
-    
-    if (analyzer) {
-      return await analyzer(input, session.improvements)
+    if (!analyzer) {
+      throw new Error('No analyzer registered')
     }
 
-    // Default analysis
-    return {
-      issues: [],
-      quality: {
-        correctness: 70,
-        performance: 70,
-        maintainability: 70,
-        security: 70,
-        testCoverage: 70
-      },
-      suggestions: [],
-      score: 70
-    }
+    session.currentPhase = 'analyze'
+    return await analyzer(input, session.improvements, session.config.projectRoot)
   }
 
-  /**
-   * Get next phase
-   */
-  private getNextPhase(current: LoopPhase): LoopPhase {
-    const phases: LoopPhase[] = ['analyze', 'plan', 'execute', 'verify', 'improve', 'complete']
-    const currentIdx = phases.indexOf(current)
-    return phases[Math.min(currentIdx + 1, phases.length - 1)]
+  private setPhase(session: LoopSession, iteration: LoopIteration, phase: LoopPhase): void {
+    iteration.phase = phase
+    session.currentPhase = phase
+    this.emit({ type: 'phase:changed', sessionId: session.id, iteration: iteration.id, data: { phase } })
+  }
+
+  private async waitWhilePaused(session: LoopSession): Promise<void> {
+    while (session.status === 'paused') {
+      await new Promise(resolve => setTimeout(resolve, PAUSE_POLL_INTERVAL))
+    }
   }
 
   /**
-   * Pause a session
+   * Pause a session (takes effect before the next iteration)
    */
   pauseLoop(sessionId: string): boolean {
     const session = this.sessions.get(sessionId)
@@ -487,14 +613,15 @@ export class SelfLoopController {
   }
 
   /**
-   * Cancel a session
+   * Cancel a session (takes effect before the next iteration)
    */
   cancelLoop(sessionId: string): boolean {
     const session = this.sessions.get(sessionId)
-    if (!session) return false
+    if (!session || (session.status !== 'running' && session.status !== 'paused')) return false
 
     session.status = 'cancelled'
     session.endTime = new Date()
+    this.approvals.get(sessionId)?.({ approved: false, reason: 'Session cancelled' })
     this.emit({ type: 'session:cancelled', sessionId })
     return true
   }
@@ -513,6 +640,66 @@ export class SelfLoopController {
     return Array.from(this.sessions.values())
   }
 
+  // ==========================================================================
+  // History
+  // ==========================================================================
+
+  private getHistoryDir(): string {
+    return this.historyDir ?? path.join(getConfigManager().getDataDir(), 'self-loop')
+  }
+
+  /**
+   * Persist a session with its iterations (when recordHistory is enabled)
+   */
+  private async persist(session: LoopSession): Promise<void> {
+    if (!session.config.recordHistory) return
+
+    try {
+      const dir = this.getHistoryDir()
+      await fs.mkdir(dir, { recursive: true })
+      await fs.writeFile(path.join(dir, `${session.id}.json`), JSON.stringify(session, null, 2), 'utf-8')
+    } catch (error) {
+      logger.warn(`Failed to persist session ${session.id}: ${(error as Error).message}`)
+    }
+  }
+
+  /**
+   * Load a session from memory or the persisted history
+   */
+  async loadSession(sessionId: string): Promise<LoopSession | undefined> {
+    const active = this.sessions.get(sessionId)
+    if (active) return active
+    if (!/^[\w-]+$/.test(sessionId)) return undefined
+
+    try {
+      const content = await fs.readFile(path.join(this.getHistoryDir(), `${sessionId}.json`), 'utf-8')
+      return reviveSession(JSON.parse(content))
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Persisted sessions, newest first
+   */
+  async getHistory(limit = 20): Promise<LoopSession[]> {
+    let files: string[]
+    try {
+      files = (await fs.readdir(this.getHistoryDir())).filter(f => f.endsWith('.json'))
+    } catch {
+      return []
+    }
+
+    const sessions: LoopSession[] = []
+    for (const file of files) {
+      const session = await this.loadSession(file.slice(0, -'.json'.length))
+      if (session) sessions.push(session)
+    }
+    return sessions
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+      .slice(0, limit)
+  }
+
   /**
    * Subscribe to loop events
    */
@@ -530,9 +717,21 @@ export class SelfLoopController {
   /**
    * Emit event
    */
-  private emit(event: LoopEvent): void {
-    event.timestamp = new Date()
-    this.emitter.emit(event.type, event)
+  private emit(event: Omit<LoopEvent, 'timestamp'>): void {
+    this.emitter.emit(event.type, { ...event, timestamp: new Date() })
+  }
+}
+
+// JSON 反序列化后恢复 Date 字段
+function reviveSession(session: LoopSession): LoopSession {
+  return {
+    ...session,
+    startTime: new Date(session.startTime),
+    ...(session.endTime ? { endTime: new Date(session.endTime) } : {}),
+    iterations: session.iterations.map(iteration => ({
+      ...iteration,
+      timestamp: new Date(iteration.timestamp)
+    }))
   }
 }
 
@@ -542,13 +741,29 @@ export class SelfLoopController {
 
 export type LoopAnalyzer = (
   input: LoopInput,
-  improvements: Improvement[]
+  improvements: Improvement[],
+  projectRoot: string
 ) => Promise<LoopAnalysis>
 
-export type LoopExecutor = (
-  input: LoopInput,
-  changes: { path: string; operation: string; description?: string }[]
-) => Promise<{ success: boolean; applied: number; error?: string }>
+export interface LoopExecutionContext {
+  input: LoopInput
+  issues: Issue[]               // Issues to fix in this iteration
+  analysis: LoopAnalysis
+  projectRoot: string
+  iteration: number
+  feedback?: string             // Why the previous attempt was rejected
+  // Set when approvalRequired: the executor must not apply changes until it resolves approved
+  approve?: (changes: ProposedChange[], summary: string) => Promise<LoopApproval>
+}
+
+export interface LoopExecutionResult {
+  success: boolean
+  changes: FileChange[]         // Changes applied to the project
+  summary?: string
+  error?: string
+}
+
+export type LoopExecutor = (context: LoopExecutionContext) => Promise<LoopExecutionResult>
 
 // ============================================================================
 // Singleton
@@ -563,6 +778,6 @@ export function getLoopController(): SelfLoopController {
   return controllerInstance
 }
 
-export function createLoopController(): SelfLoopController {
-  return new SelfLoopController()
+export function createLoopController(options?: SelfLoopControllerOptions): SelfLoopController {
+  return new SelfLoopController(options)
 }
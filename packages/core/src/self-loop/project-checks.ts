@@ -0,0 +1,382 @@
+/**
+ * Self-Referential Loop - Project Checks
+ *
+ * Runs the project's type-checker, linter and tests (detected by ProjectAnalyzer)
+ * and turns their output into loop issues.
+ */
+
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import { execFile } from 'node:child_process'
+import { createModuleLogger } from '../logger'
+import { ProjectAnalyzer } from '../project-analyzer.js'
+import type { Issue, LoopAnalysis, LoopAnalyzer, QualityMetrics, Suggestion } from './loop-controller.js'
+
+const logger = createModuleLogger('self-loop:checks')
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProjectCheckKind = 'typecheck' | 'lint' | 'test'
+
+export interface ProjectCheck {
+  kind: ProjectCheckKind
+  command: string
+  args: string[]
+}
+
+export interface ProjectCheckResult {
+  check: ProjectCheck
+  exitCode: number
+  output: string
+  issues: Issue[]
+  duration: number
+}
+
+export interface ProjectCheckOptions {
+  checks?: ProjectCheck[]      // Override detection
+  timeout?: number             // Per check, in ms
+}
+
+const DEFAULT_CHECK_TIMEOUT = 300000
+const MAX_OUTPUT_TAIL = 2000
+
+// package.json scripts tried for each check, in order
+const SCRIPT_NAMES: Record<ProjectCheckKind, string[]> = {
+  typecheck: ['typecheck', 'type-check', 'tsc'],
+  lint: ['lint'],
+  test: ['test']
+}
+
+// Tool fallbacks when the project has no matching script
+const TOOL_CHECKS: Record<string, ProjectCheck> = {
+  TypeScript: { kind: 'typecheck', command: 'npx', args: ['tsc', '--noEmit', '--pretty', 'false'] },
+  ESLint: { kind: 'lint', command: 'npx', args: ['eslint', '.', '--format', 'unix'] },
+  Vitest: { kind: 'test', command: 'npx', args: ['vitest', 'run'] },
+  Jest: { kind: 'test', command: 'npx', args: ['jest'] },
+  mypy: { kind: 'typecheck', command: 'mypy', args: ['.'] },
+  Ruff: { kind: 'lint', command: 'ruff', args: ['check', '.', '--output-format', 'concise'] },
+  pytest: { kind: 'test', command: 'pytest', args: ['-q'] },
+  Go: { kind: 'typecheck', command: 'go', args: ['vet', './...'] },
+  Rust: { kind: 'typecheck', command: 'cargo', args: ['check', '--message-format', 'short'] }
+}
+
+// Test runners implied by the language itself
+const LANGUAGE_TESTS: Record<string, ProjectCheck> = {
+  Go: { kind: 'test', command: 'go', args: ['test', './...'] },
+  Rust: { kind: 'test', command: 'cargo', args: ['test'] }
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Detect the type-check, lint and test commands of a project
+ */
+export async function detectProjectChecks(projectRoot: string): Promise<ProjectCheck[]> {
+  const analysis = await new ProjectAnalyzer(projectRoot).analyze()
+  const checks = new Map<ProjectCheckKind, ProjectCheck>()
+
+  // Prefer the project's own scripts
+  const scripts = await readScripts(projectRoot)
+  const pm = ['pnpm', 'yarn', 'npm'].includes(analysis.context.packageManager)
+    ? analysis.context.packageManager
+    : 'npm'
+  for (const [kind, names] of Object.entries(SCRIPT_NAMES) as [ProjectCheckKind, string[]][]) {
+    const script = names.find(name => scripts[name])
+    if (script) {
+      checks.set(kind, { kind, command: pm, args: ['run', script] })
+    }
+  }
+
+  for (const tech of analysis.technologies) {
+    for (const check of [TOOL_CHECKS[tech.name], LANGUAGE_TESTS[tech.name]]) {
+      if (check && !checks.has(check.kind)) {
+        checks.set(check.kind, check)
+      }
+    }
+  }
+
+  return (['typecheck', 'lint', 'test'] as const)
+    .map(kind => checks.get(kind))
+    .filter((c): c is ProjectCheck => c !== undefined)
+}
+
+async function readScripts(projectRoot: string): Promise<Record<string, string>> {
+  try {
+    const pkg = JSON.parse(await fs.readFile(path.join(projectRoot, 'package.json'), 'utf-8'))
+    return pkg.scripts ?? {}
+  } catch {
+    return {}
+  }
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+/**
+ * Run a single check; never rejects, a failed command is reported by its exit code
+ */
+export function runProjectCheck(
+  check: ProjectCheck,
+  projectRoot: string,
+  timeout = DEFAULT_CHECK_TIMEOUT
+): Promise<ProjectCheckResult> {
+  const startTime = Date.now()
+
+  return new Promise(resolve => {
+    execFile(
+      check.command,
+      check.args,
+      {
+        cwd: projectRoot,
+        timeout,
+        maxBuffer: 10 * 1024 * 1024,
+        // npx / pnpm are .cmd shims on Windows
+        shell: process.platform === 'win32',
+        env: { ...process.env, CI: '1', FORCE_COLOR: '0', NO_COLOR: '1' }
+      },
+      (error, stdout, stderr) => {
+        const output = stripAnsi(`${stdout}\n${stderr}`)
+        let exitCode = 0
+        if (error) {
+          exitCode = typeof error.code === 'number' ? error.code : 1
+        }
+
+        const issues = parseCheckOutput(check.kind, output)
+        // Failed without recognizable output (crash, timeout, missing tool)
+        if (exitCode !== 0 && issues.length === 0) {
+          issues.push({
+            severity: 'high',
+            type: check.kind,
+            description: `${formatCommand(check)} failed (exit ${exitCode}): ${
+              error?.killed ? 'timed out' : output.trim().slice(-MAX_OUTPUT_TAIL)
+            }`,
+            autoFixable: false
+          })
+        }
+
+        resolve({ check, exitCode, output, issues, duration: Date.now() - startTime })
+      }
+    )
+  })
+}
+
+export function formatCommand(check: ProjectCheck): string {
+  return [check.command, ...check.args].join(' ')
+}
+
+const ANSI_PATTERN = new RegExp('\\u001b\\[[0-9;]*m', 'g')
+
+function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '')
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+// src/a.ts(12,5): error TS2322: message
+const TSC_PAREN = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.+)$/
+// src/a.ts:12:5 - error TS2322: message
+const TSC_PRETTY = /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.+)$/
+// file:line[:col]: message (eslint unix, ruff, mypy, go vet, cargo short)
+const GENERIC = /^(\.{0,2}[\w@/\\.-]+\.\w+):(\d+)(?::(\d+))?:\s*(.+)$/
+// ESLint stylish: "  12:5  error  message  rule" below a file path line
+const STYLISH = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?$/
+
+// Test failures of vitest / jest, pytest, go test, cargo test
+const TEST_FAILURES: RegExp[] = [
+  /^\s*(?:FAIL|×|✗)\s+(\S+\.\w+)(?:\s+>\s+(.+))?$/,
+  /^FAILED\s+([^\s:]+)::(\S+)(?:\s+-\s+(.+))?$/,
+  /^\s*--- FAIL:\s+(\S+)/,
+  /^test\s+(\S+)\s+\.\.\.\s+FAILED$/
+]
+
+/**
+ * Parse check output into issues (one per diagnostic / failing test)
+ */
+export function parseCheckOutput(kind: ProjectCheckKind, output: string): Issue[] {
+  const issues: Issue[] = []
+  const seen = new Set<string>()
+  let stylishFile: string | undefined
+
+  const add = (issue: Issue): void => {
+    const key = `${issue.location?.file}:${issue.location?.line}:${issue.description}`
+    if (!seen.has(key)) {
+      seen.add(key)
+      issues.push(issue)
+    }
+  }
+
+  for (const rawLine of output.split('\n')) {
+    const line = rawLine.trimEnd()
+    if (!line) continue
+
+    if (kind === 'test') {
+      const failure = parseTestFailure(line)
+      if (failure) add(failure)
+      continue
+    }
+
+    const tsc = TSC_PAREN.exec(line) ?? TSC_PRETTY.exec(line)
+    if (tsc) {
+      add({
+        severity: tsc[4] === 'error' ? 'high' : 'low',
+        type: `${kind}:${tsc[5]}`,
+        description: tsc[6]!,
+        location: { file: tsc[1]!, line: Number(tsc[2]), column: Number(tsc[3]) },
+        autoFixable: true
+      })
+      continue
+    }
+
+    const stylish = STYLISH.exec(line)
+    if (stylish && stylishFile) {
+      add({
+        severity: stylish[3] === 'error' ? 'medium' : 'low',
+        type: stylish[5] ? `${kind}:${stylish[5]}` : kind,
+        description: stylish[4]!,
+        location: { file: stylishFile, line: Number(stylish[1]), column: Number(stylish[2]) },
+        autoFixable: true
+      })
+      continue
+    }
+
+    const generic = GENERIC.exec(line)
+    if (generic) {
+      const message = generic[4]!
+      const warning = /^\s*(?:warning|note)\b/i.test(message) || /\[warning\]/i.test(message)
+      add({
+        severity: warning ? 'low' : kind === 'typecheck' ? 'high' : 'medium',
+        type: kind,
+        description: message,
+        location: {
+          file: generic[1]!,
+          line: Number(generic[2]),
+          ...(generic[3] ? { column: Number(generic[3]) } : {})
+        },
+        autoFixable: true
+      })
+      continue
+    }
+
+    // A bare path starts an ESLint stylish block
+    if (!/^\s/.test(line) && /\.\w+$/.test(line) && !line.includes(' ')) {
+      stylishFile = line
+    }
+  }
+
+  return issues
+}
+
+function parseTestFailure(line: string): Issue | undefined {
+  for (const pattern of TEST_FAILURES) {
+    const match = pattern.exec(line)
+    if (!match) continue
+
+    const file = match[1]!.includes('.') ? match[1]! : undefined
+    const name = file ? [match[2], match[3]].filter(Boolean).join(' - ') : match[1]!
+    return {
+      severity: 'high',
+      type: 'test',
+      description: `Test failed${name ? `: ${name}` : ''}`,
+      ...(file ? { location: { file } } : {}),
+      autoFixable: true
+    }
+  }
+  return undefined
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Map penalty points to a 0-100 metric; close to linear for a few issues but never
+ * bottoms out, so fixing some of many issues still raises the score
+ */
+function metric(penalty: number): number {
+  return Math.round(10000 / (100 + penalty))
+}
+
+/**
+ * Turn check results into quality metrics and an overall score (0-100)
+ *
+ * Only measured dimensions count towards the score; performance and security
+ * are not measured by project checks and stay at 100.
+ */
+export function scoreCheckResults(results: ProjectCheckResult[]): LoopAnalysis {
+  const count = (kind: ProjectCheckKind, severities: Issue['severity'][]): number =>
+    results
+      .filter(r => r.check.kind === kind)
+      .reduce((n, r) => n + r.issues.filter(i => severities.includes(i.severity)).length, 0)
+  const ran = (kind: ProjectCheckKind): boolean => results.some(r => r.check.kind === kind)
+
+  const typeErrors = count('typecheck', ['critical', 'high', 'medium'])
+  const lintErrors = count('lint', ['critical', 'high', 'medium'])
+  const lintWarnings = count('lint', ['low'])
+  const testFailures = count('test', ['critical', 'high', 'medium'])
+
+  const quality: QualityMetrics = {
+    correctness: metric(typeErrors * 10),
+    performance: 100,
+    maintainability: metric(lintErrors * 5 + lintWarnings),
+    security: 100,
+    // Share of passing tests is not known; failing tests lower the score
+    testCoverage: metric(testFailures * 20)
+  }
+
+  const weights: [ProjectCheckKind, number, number][] = [
+    ['typecheck', 0.4, quality.correctness],
+    ['test', 0.35, quality.testCoverage],
+    ['lint', 0.25, quality.maintainability]
+  ]
+  const measured = weights.filter(([kind]) => ran(kind))
+  const totalWeight = measured.reduce((sum, [, weight]) => sum + weight, 0)
+  const score = totalWeight > 0
+    ? Math.round(measured.reduce((sum, [, weight, value]) => sum + weight * value, 0) / totalWeight)
+    : 100
+
+  const suggestions: Suggestion[] = results
+    .filter(r => r.issues.length > 0)
+    .map(r => ({
+      type: 'fix' as const,
+      description: `Fix ${r.issues.length} ${r.check.kind} issue(s) reported by ${formatCommand(r.check)}`,
+      effort: r.issues.length > 10 ? 'high' as const : 'medium' as const,
+      impact: r.check.kind === 'lint' ? 'medium' as const : 'high' as const,
+      autoFixable: r.issues.some(i => i.autoFixable)
+    }))
+
+  return {
+    issues: results.flatMap(r => r.issues),
+    quality,
+    suggestions,
+    score
+  }
+}
+
+/**
+ * Create an analyzer that runs the project checks in the loop's project root
+ */
+export function createProjectCheckAnalyzer(options: ProjectCheckOptions = {}): LoopAnalyzer {
+  return async (_input, _improvements, projectRoot) => {
+    const checks = options.checks ?? await detectProjectChecks(projectRoot)
+    if (checks.length === 0) {
+      throw new Error(`No type-check, lint or test command detected in ${projectRoot}`)
+    }
+
+    // Sequentially: checks of one project often share build output
+    const results: ProjectCheckResult[] = []
+    for (const check of checks) {
+      const result = await runProjectCheck(check, projectRoot, options.timeout)
+      logger.info(`${formatCommand(check)}: exit ${result.exitCode}, ${result.issues.length} issue(s)`)
+      results.push(result)
+    }
+
+    return scoreCheckResults(results)
+  }
+}
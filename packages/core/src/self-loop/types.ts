@@ -4,6 +4,8 @@
  * Type definitions for self-referential development loops.
  */
 
+import type { LoopPhase, SessionStatus } from './loop-controller.js'
+
 // Re-export from loop-controller
 export {
   type LoopConfig,
@@ -23,7 +25,9 @@ export {
   type LoopEvent,
   type LoopEventType,
   type LoopAnalyzer,
-  type LoopExecutor
+  type LoopExecutor,
+  type LoopExecutionContext,
+  type LoopExecutionResult
 } from './loop-controller.js'
 
 export {
@@ -0,0 +1,69 @@
+import { Tiktoken } from 'js-tiktoken/lite'
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base'
+import o200k_base from 'js-tiktoken/ranks/o200k_base'
+
+// BPE 编码名；heuristic 表示未知模型使用的字符估算
+export type TokenEncoding = 'o200k_base' | 'cl100k_base' | 'heuristic'
+
+// 写入消息时（尚不知道目标模型）使用的默认编码
+export const DEFAULT_TOKEN_ENCODING: TokenEncoding = 'cl100k_base'
+
+// 模型 ID → 编码（按顺序匹配，去掉 provider/ 前缀后比较）
+// Anthropic 未公开 Claude 3+ 的分词器，使用 cl100k_base 近似（误差远小于字符估算）
+const MODEL_ENCODINGS: readonly (readonly [RegExp, TokenEncoding])[] = [
+  [/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt-4o|o1|o3|o4)/, 'o200k_base'],
+  [/^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada-002)/, 'cl100k_base'],
+  [/^claude/, 'cl100k_base'],
+]
+
+const RANKS = { o200k_base, cl100k_base } as const
+
+// 编码器构建较慢（解析 rank 表），按需创建并缓存
+const encoders = new Map<Exclude<TokenEncoding, 'heuristic'>, Tiktoken>()
+
+function getEncoder(encoding: Exclude<TokenEncoding, 'heuristic'>): Tiktoken {
+  let encoder = encoders.get(encoding)
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[encoding])
+    encoders.set(encoding, encoder)
+  }
+  return encoder
+}
+
+/**
+ * 字符估算（中英文混合），仅用于没有已知分词器的模型
+ */
+export function estimateTokensHeuristic(text: string): number {
+  const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length
+  const otherChars = text.length - chineseChars
+  return Math.ceil(chineseChars / 1.5 + otherChars / 4)
+}
+
+/**
+ * 获取模型对应的编码；未知模型返回 heuristic，未指定模型返回默认编码
+ */
+export function getTokenEncoding(modelId?: string): TokenEncoding {
+  if (!modelId) return DEFAULT_TOKEN_ENCODING
+  const name = modelId.slice(modelId.lastIndexOf('/') + 1).toLowerCase()
+  for (const [pattern, encoding] of MODEL_ENCODINGS) {
+    if (pattern.test(name)) return encoding
+  }
+  return 'heuristic'
+}
+
+/**
+ * 按编码计算文本 token 数
+ */
+export function countTokensWithEncoding(text: string, encoding: TokenEncoding): number {
+  if (!text) return 0
+  if (encoding === 'heuristic') return estimateTokensHeuristic(text)
+  // 特殊 token 字面量（如 <|endoftext|>）按普通文本计数
+  return getEncoder(encoding).encode(text, [], []).length
+}
+
+/**
+ * 计算文本在指定模型下的 token 数
+ */
+export function countTokens(text: string, modelId?: string): number {
+  return countTokensWithEncoding(text, getTokenEncoding(modelId))
+}
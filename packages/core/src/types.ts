@@ -16,17 +16,41 @@ export type TaskType =
 // Message roles in conversation
 export type MessageRole = 'user' | 'assistant' | 'system'
 
+// 多模态内容分段：附件二进制以 base64（data）、远程 URL（url）或磁盘 blob 引用（blobId）表示
+export type ContentPart =
+  | { readonly type: 'text'; readonly text: string }
+  | {
+      readonly type: 'image'
+      readonly mimeType: string
+      readonly data?: string | undefined
+      readonly url?: string | undefined
+      readonly blobId?: string | undefined
+    }
+  | {
+      readonly type: 'file'
+      readonly mimeType: string
+      readonly filename?: string | undefined
+      readonly data?: string | undefined
+      readonly url?: string | undefined
+      readonly blobId?: string | undefined
+    }
+
 // Message structure
 export interface Message {
   readonly id: string
   readonly role: MessageRole
+  // 纯文本内容（多模态消息为其中文本分段的拼接）
   readonly content: string
+  readonly parts?: readonly ContentPart[] | undefined
   readonly timestamp: Date
   readonly metadata?: Record<string, unknown> | undefined
   readonly compactedAt?: Date | undefined
   readonly isSummary?: boolean | undefined
   readonly tokenCount?: number | undefined
   readonly isPinned?: boolean | undefined
+  // 消息树：父消息 ID（根消息为空）；同一父消息下的兄弟消息（含自身，多于一条时才有）
+  readonly parentId?: string | undefined
+  readonly siblingIds?: readonly string[] | undefined
 }
 
 // Conversation structure
@@ -35,7 +59,11 @@ export interface Conversation {
   readonly title: string
   readonly createdAt: Date
   readonly updatedAt: Date
+  // 当前活动分支上的消息
   readonly messages: readonly Message[]
+  readonly activeBranchId?: string | undefined
+  // 对话级设置（如自动检索知识库）
+  readonly metadata?: Record<string, unknown> | undefined
 }
 
 // Intent analysis result
@@ -109,6 +137,22 @@ export interface ModelsConfig {
   readonly routing: RoutingConfig
 }
 
+// 单次模型调用请求；未指定 model 时按 taskType / complexity 路由
+export interface ModelChatRequest {
+  readonly systemPrompt: string
+  readonly prompt: string
+  readonly model?: string | undefined
+  readonly taskType?: TaskType | undefined
+  readonly complexity?: TaskComplexity | undefined
+  readonly temperature?: number | undefined
+  readonly maxTokens?: number | undefined
+}
+
+// 单次模型调用，返回回复文本（由宿主基于 ModelRouter 实现，core 不依赖 models）
+export type ModelChatFn<TRequest extends ModelChatRequest = ModelChatRequest> = (
+  request: TRequest
+) => Promise<string>
+
 // Permission types for skills
 export const PermissionSchema = z.enum([
   'file:read',
@@ -0,0 +1,467 @@
+/**
+ * Unattended Mode - Cron Expressions
+ *
+ * Parses standard cron expressions and computes fire times:
+ * - 5 fields (minute hour day-of-month month day-of-week) or 6 fields (leading seconds)
+ * - `*`, `?`, lists, ranges, steps (`*\/n`, `a-b/n`, `a/n`), month and weekday names
+ * - `L` (last day of month) and `<weekday>L` (last given weekday of month)
+ * - `@yearly`, `@monthly`, `@weekly`, `@daily`, `@hourly` macros
+ * - Optional IANA timezone (defaults to the local timezone)
+ *
+ * As in Vixie cron, when both day-of-month and day-of-week are restricted,
+ * a day matches if either field matches.
+ */
+
+export class CronParseError extends Error {
+  constructor(readonly expression: string, message: string) {
+    super(`Invalid cron expression '${expression}': ${message}`)
+    this.name = 'CronParseError'
+  }
+}
+
+export interface CronOptions {
+  timezone?: string | undefined   // IANA timezone, e.g. 'Asia/Shanghai'
+}
+
+// Wall-clock time in the expression's timezone (month is 1-12)
+interface WallTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+interface FieldSpec {
+  name: string
+  min: number
+  max: number
+  names?: readonly string[]
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+const SECOND: FieldSpec = { name: 'second', min: 0, max: 59 }
+const MINUTE: FieldSpec = { name: 'minute', min: 0, max: 59 }
+const HOUR: FieldSpec = { name: 'hour', min: 0, max: 23 }
+const DAY_OF_MONTH: FieldSpec = { name: 'day-of-month', min: 1, max: 31 }
+const MONTH: FieldSpec = { name: 'month', min: 1, max: 12, names: MONTH_NAMES }
+const DAY_OF_WEEK: FieldSpec = { name: 'day-of-week', min: 0, max: 7, names: DAY_NAMES } // 0 and 7 are Sunday
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+}
+
+// Days in each month of a leap year (used to reject days that never occur)
+const MAX_DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+
+// Give up searching for a fire time this many years ahead
+const MAX_SEARCH_YEARS = 10
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+function toWallTime(date: Date, timezone: string | undefined): WallTime {
+  if (!timezone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds()
+    }
+  }
+
+  const parts: Record<string, number> = {}
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value)
+  }
+  return {
+    year: parts.year!,
+    month: parts.month!,
+    day: parts.day!,
+    hour: parts.hour!,
+    minute: parts.minute!,
+    second: parts.second!
+  }
+}
+
+function wallToUtc(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second)
+}
+
+function sameWallTime(a: WallTime, b: WallTime): boolean {
+  return wallToUtc(a) === wallToUtc(b)
+}
+
+/**
+ * Offset of the timezone from UTC at an instant, in ms
+ */
+function offsetAt(instant: number, timezone: string | undefined): number {
+  const seconds = Math.floor(instant / 1000) * 1000
+  return wallToUtc(toWallTime(new Date(seconds), timezone)) - seconds
+}
+
+/**
+ * Instants at which the wall clock shows the given time: none inside a DST gap,
+ * two inside a DST overlap
+ */
+function wallToInstants(wall: WallTime, timezone: string | undefined): number[] {
+  const utc = wallToUtc(wall)
+  const offsets = new Set([utc - DAY_MS, utc, utc + DAY_MS].map(t => offsetAt(t, timezone)))
+  return [...offsets]
+    .map(offset => utc - offset)
+    .filter(instant => sameWallTime(toWallTime(new Date(instant), timezone), wall))
+    .sort((a, b) => a - b)
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function range(min: number, max: number, step = 1): number[] {
+  const values: number[] = []
+  for (let v = min; v <= max; v += step) values.push(v)
+  return values
+}
+
+/**
+ * Parse a number or (for month / day-of-week) a name
+ */
+function parseValue(expression: string, token: string, spec: FieldSpec): number {
+  let value: number
+  if (/^\d+$/.test(token)) {
+    value = Number(token)
+  } else {
+    const index = spec.names?.indexOf(token.toUpperCase()) ?? -1
+    if (index < 0) {
+      throw new CronParseError(expression, `invalid ${spec.name} value '${token}'`)
+    }
+    value = index + spec.min
+  }
+
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(
+      expression,
+      `${spec.name} value ${value} out of range ${spec.min}-${spec.max}`
+    )
+  }
+  return value
+}
+
+/**
+ * Parse one list item: `*`, `a`, `a-b`, optionally followed by `/step`
+ */
+function parseItem(expression: string, item: string, spec: FieldSpec): number[] {
+  const [base, stepText, extra] = item.split('/')
+  if (extra !== undefined || !base) {
+    throw new CronParseError(expression, `invalid ${spec.name} '${item}'`)
+  }
+
+  let step = 1
+  if (stepText !== undefined) {
+    if (!/^\d+$/.test(stepText) || Number(stepText) === 0) {
+      throw new CronParseError(expression, `invalid ${spec.name} step '${stepText}'`)
+    }
+    step = Number(stepText)
+  }
+
+  // 7 is only accepted as an explicit Sunday, never as the end of an open range
+  const top = spec === DAY_OF_WEEK ? 6 : spec.max
+  let start: number
+  let end: number
+  if (base === '*' || base === '?') {
+    start = spec.min
+    end = top
+  } else if (base.includes('-')) {
+    const [from, to, more] = base.split('-')
+    if (more !== undefined || !from || !to) {
+      throw new CronParseError(expression, `invalid ${spec.name} range '${base}'`)
+    }
+    start = parseValue(expression, from, spec)
+    end = parseValue(expression, to, spec)
+    if (start > end) {
+      throw new CronParseError(expression, `${spec.name} range '${base}' is reversed`)
+    }
+  } else {
+    start = parseValue(expression, base, spec)
+    // `a/n` means from a to the end of the range
+    end = stepText !== undefined ? top : start
+  }
+
+  return range(start, end, step)
+}
+
+interface ParsedField {
+  values: number[]
+  restricted: boolean   // false for `*` / `?` (including `*/n`), as in Vixie cron
+  last: number[]        // day-of-month: [0] for `L`; day-of-week: weekdays of `<weekday>L`
+}
+
+function parseField(expression: string, text: string, spec: FieldSpec): ParsedField {
+  const values = new Set<number>()
+  const last: number[] = []
+
+  for (const item of text.split(',')) {
+    if (spec === DAY_OF_MONTH && item.toUpperCase() === 'L') {
+      last.push(0)
+      continue
+    }
+    const lastWeekday = spec === DAY_OF_WEEK ? /^(\w+)L$/i.exec(item) : null
+    if (lastWeekday) {
+      last.push(parseValue(expression, lastWeekday[1]!, spec) % 7)
+      continue
+    }
+
+    for (const value of parseItem(expression, item, spec)) {
+      values.add(spec === DAY_OF_WEEK ? value % 7 : value)
+    }
+  }
+
+  return {
+    values: [...values].sort((a, b) => a - b),
+    restricted: !text.startsWith('*') && text !== '?',
+    last
+  }
+}
+
+// ============================================================================
+// CronExpression
+// ============================================================================
+
+export class CronExpression {
+  readonly source: string
+  readonly timezone: string | undefined
+  private seconds: number[]
+  private minutes: number[]
+  private hours: number[]
+  private daysOfMonth: ParsedField
+  private months: number[]
+  private daysOfWeek: ParsedField
+
+  private constructor(source: string, timezone: string | undefined, fields: ParsedField[]) {
+    this.source = source
+    this.timezone = timezone
+    this.seconds = fields[0]!.values
+    this.minutes = fields[1]!.values
+    this.hours = fields[2]!.values
+    this.daysOfMonth = fields[3]!
+    this.months = fields[4]!.values
+    this.daysOfWeek = fields[5]!
+  }
+
+  /**
+   * Parse an expression, throwing CronParseError when it is invalid or never fires
+   */
+  static parse(expression: string, options: CronOptions = {}): CronExpression {
+    const source = expression.trim()
+    const timezone = options.timezone
+
+    if (timezone) {
+      try {
+        getFormatter(timezone)
+      } catch {
+        throw new CronParseError(source, `unknown timezone '${timezone}'`)
+      }
+    }
+
+    const normalized = MACROS[source.toLowerCase()] ?? source
+    const texts = normalized.split(/\s+/).filter(Boolean)
+    if (texts.length === 5) {
+      texts.unshift('0')
+    } else if (texts.length !== 6) {
+      throw new CronParseError(source, `expected 5 or 6 fields, got ${texts.length}`)
+    }
+
+    const specs = [SECOND, MINUTE, HOUR, DAY_OF_MONTH, MONTH, DAY_OF_WEEK]
+    const fields = texts.map((text, i) => parseField(source, text, specs[i]!))
+    const cron = new CronExpression(source, timezone, fields)
+
+    // Reject day-of-month values that no selected month has (e.g. `0 0 31 2 *`)
+    const dom = cron.daysOfMonth
+    if (dom.restricted && !cron.daysOfWeek.restricted && dom.last.length === 0) {
+      const earliest = dom.values[0]!
+      if (!cron.months.some(month => MAX_DAYS_IN_MONTH[month - 1]! >= earliest)) {
+        throw new CronParseError(source, 'day-of-month never occurs in the selected months')
+      }
+    }
+
+    return cron
+  }
+
+  /**
+   * Whether the expression fires at the given time (to the second)
+   */
+  matches(date: Date): boolean {
+    const wall = toWallTime(date, this.timezone)
+    return (
+      this.seconds.includes(wall.second) &&
+      this.minutes.includes(wall.minute) &&
+      this.hours.includes(wall.hour) &&
+      this.months.includes(wall.month) &&
+      this.matchesDay(wall.year, wall.month, wall.day)
+    )
+  }
+
+  /**
+   * First fire time strictly after `after`, or undefined if none within 10 years
+   */
+  next(after: Date = new Date()): Date | undefined {
+    let start = toWallTime(new Date(Math.floor(after.getTime() / 1000) * 1000 + 1000), this.timezone)
+
+    // Wall times skipped by DST transitions do not fire
+    for (let attempt = 0; attempt < 10000; attempt++) {
+      const wall = this.nextWallTime(start)
+      if (!wall) return undefined
+
+      const instant = wallToInstants(wall, this.timezone).find(t => t > after.getTime())
+      if (instant !== undefined) return new Date(instant)
+
+      const following = new Date(wallToUtc(wall) + 1000)
+      start = {
+        year: following.getUTCFullYear(),
+        month: following.getUTCMonth() + 1,
+        day: following.getUTCDate(),
+        hour: following.getUTCHours(),
+        minute: following.getUTCMinutes(),
+        second: following.getUTCSeconds()
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * The next `count` fire times after `after`
+   */
+  nextRuns(count: number, after: Date = new Date()): Date[] {
+    const runs: Date[] = []
+    let from = after
+    while (runs.length < count) {
+      const next = this.next(from)
+      if (!next) break
+      runs.push(next)
+      from = next
+    }
+    return runs
+  }
+
+  private matchesDay(year: number, month: number, day: number): boolean {
+    const lastDay = daysInMonth(year, month)
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+    const dom = this.daysOfMonth
+    const dow = this.daysOfWeek
+
+    const domMatch = dom.values.includes(day) || (dom.last.length > 0 && day === lastDay)
+    const dowMatch = dow.values.includes(weekday) || (dow.last.includes(weekday) && day + 7 > lastDay)
+
+    // A `*` field (possibly with a step) still filters by its values
+    return dom.restricted && dow.restricted ? domMatch || dowMatch : domMatch && dowMatch
+  }
+
+  /**
+   * Earliest matching wall time at or after `start`, field by field
+   */
+  private nextWallTime(start: WallTime): WallTime | undefined {
+    let { year, month, day, hour, minute, second } = start
+    const maxYear = year + MAX_SEARCH_YEARS
+
+    // Move to the start of the next day / hour / minute
+    const nextDay = () => {
+      day++
+      hour = minute = second = 0
+    }
+    const nextHour = () => {
+      hour++
+      minute = second = 0
+    }
+
+    while (year <= maxYear) {
+      // Carry overflowed fields
+      if (month > 12) {
+        year++
+        month = 1
+      } else if (day > daysInMonth(year, month)) {
+        month++
+        day = 1
+      } else if (hour > 23) {
+        nextDay()
+      } else if (minute > 59) {
+        nextHour()
+      } else if (!this.months.includes(month)) {
+        const nextMonth = this.months.find(m => m > month)
+        if (nextMonth === undefined) year++
+        month = nextMonth ?? this.months[0]!
+        day = 1
+        hour = minute = second = 0
+      } else if (!this.matchesDay(year, month, day)) {
+        nextDay()
+      } else {
+        const h = this.hours.find(v => v >= hour)
+        if (h === undefined) {
+          nextDay()
+          continue
+        }
+        if (h > hour) {
+          hour = h
+          minute = second = 0
+        }
+
+        const m = this.minutes.find(v => v >= minute)
+        if (m === undefined) {
+          nextHour()
+          continue
+        }
+        if (m > minute) {
+          minute = m
+          second = 0
+        }
+
+        const sec = this.seconds.find(v => v >= second)
+        if (sec === undefined) {
+          minute++
+          second = 0
+          continue
+        }
+
+        return { year, month, day, hour, minute, second: sec }
+      }
+    }
+
+    return undefined
+  }
+}
+
+/**
+ * Parse a cron expression (throws CronParseError when invalid)
+ */
+export function parseCron(expression: string, options?: CronOptions): CronExpression {
+  return CronExpression.parse(expression, options)
+}
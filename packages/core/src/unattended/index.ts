@@ -16,9 +16,19 @@ export {
   type TaskResult,
   type TaskExecution,
   type TaskEvent,
-  type TaskEventType
+  type TaskEventType,
+  type TaskState,
+  type SchedulerStore,
+  type SchedulerOptions
 } from './task-scheduler.js'
 
+export {
+  CronExpression,
+  CronParseError,
+  parseCron,
+  type CronOptions
+} from './cron.js'
+
 export {
   BackgroundExecutor,
   getBackgroundExecutor,
@@ -41,4 +51,10 @@ export {
   BUILT_IN_TASKS
 } from './types.js'
 
-export { createUnattendedMode, initUnattendedMode } from './module.js'
+export {
+  createUnattendedMode,
+  initUnattendedMode,
+  resolveTaskHandler,
+  type UnattendedMode,
+  type UnattendedModeOptions
+} from './module.js'
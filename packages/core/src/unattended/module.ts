@@ -1,24 +1,75 @@
 /**
  * Unattended Mode - Module
- * 
+ *
  * Module initialization and factory functions.
  */
 
-import { createScheduler, type ScheduledTask } from './task-scheduler.js'
-import { createBackgroundExecutor, type JobHandler } from './background-executor.js'
+import {
+  createScheduler,
+  type SchedulerStore,
+  type TaskContext,
+  type TaskHandler,
+  type TaskResult
+} from './task-scheduler.js'
+import { createBackgroundExecutor } from './background-executor.js'
 import { createModuleLogger } from '../logger'
-import type { UnattendedConfig } from './types.js'
+import { BUILT_IN_TASKS, type TaskDefinition, type TaskHandlers, type UnattendedConfig } from './types.js'
 
 const logger = createModuleLogger('unattended')
 
 /**
- * Create and configure unattended mode
+ * Implementations of task handlers (core does not depend on knowledge, storage or skills,
+ * so they are provided by the host application)
  */
-export function createUnattendedMode(config?: UnattendedConfig): {
+export interface UnattendedModeOptions {
+  handlers?: Partial<TaskHandlers>                                          // Built-in tasks
+  runSkill?: (name: string, context: TaskContext) => Promise<TaskResult>    // 'skill:<name>'
+  runAgent?: (name: string, context: TaskContext) => Promise<TaskResult>    // 'agent:<name>'
+  store?: SchedulerStore                                                    // Persisted schedules and history
+}
+
+export interface UnattendedMode {
   scheduler: ReturnType<typeof createScheduler>
   executor: ReturnType<typeof createBackgroundExecutor>
-} {
-  const scheduler = createScheduler()
+}
+
+/**
+ * Resolve a handler reference: a built-in task name, 'skill:<name>' or 'agent:<name>'
+ */
+export function resolveTaskHandler(ref: string, options: UnattendedModeOptions = {}): TaskHandler {
+  const separator = ref.indexOf(':')
+  if (separator > 0) {
+    const kind = ref.slice(0, separator)
+    const name = ref.slice(separator + 1).trim()
+    const run = kind === 'skill' ? options.runSkill : kind === 'agent' ? options.runAgent : undefined
+    if (run && name) {
+      return context => run(name, context)
+    }
+  } else if (Object.hasOwn(options.handlers ?? {}, ref)) {
+    const handler = options.handlers![ref as keyof TaskHandlers]
+    if (handler) return handler
+  }
+
+  throw new Error(`Unknown task handler: ${ref}`)
+}
+
+/**
+ * Built-in tasks that have an implementation, with their default schedules
+ */
+function defaultTasks(options: UnattendedModeOptions): TaskDefinition[] {
+  return Object.entries(BUILT_IN_TASKS)
+    .filter(([key]) => options.handlers?.[key as keyof TaskHandlers])
+    .map(([key, task]) => ({ ...task, handler: key }))
+}
+
+/**
+ * Create and configure unattended mode
+ */
+export function createUnattendedMode(
+  config?: UnattendedConfig,
+  options: UnattendedModeOptions = {}
+): UnattendedMode {
+  const scheduler = createScheduler(options.store ? { store: options.store } : {})
   const executor = createBackgroundExecutor({
     maxWorkers: config?.background?.maxWorkers ?? 5,
     jobTimeout: config?.background?.jobTimeout ?? 300000
@@ -28,35 +79,40 @@ export function createUnattendedMode(config?: UnattendedConfig): {
 }
 
 /**
- * Initialize unattended mode with built-in tasks
+ * Initialize unattended mode: register the configured tasks (all implemented built-in
+ * tasks when none are configured) and start the scheduler.
+ * Throws when a task references an unknown handler or has an invalid schedule.
  */
-export async function initUnattendedMode(config: UnattendedConfig): Promise<void> {
+export async function initUnattendedMode(
+  config: UnattendedConfig,
+  options: UnattendedModeOptions = {}
+): Promise<UnattendedMode | undefined> {
   if (!config.enabled) {
     logger.info('Unattended mode is disabled')
-    return
+    return undefined
   }
 
-  const { scheduler, executor } = createUnattendedMode(config)
+  const mode = createUnattendedMode(config, options)
+  const { scheduler, executor } = mode
 
   // Register built-in tasks if scheduler is enabled
   if (config.scheduler?.enabled) {
-    const tasks = config.scheduler.tasks || []
-    
-    for (const task of tasks) {
-      if (task.enabled === false) continue
+    const tasks = (config.scheduler.tasks ?? defaultTasks(options)).filter(t => t.enabled !== false)
 
-      // Create handler from module reference (simplified)
-      const handler: JobHandler = async (payload) => {
-        logger.info(`Executing scheduled task: ${task.name}`)
-        return { success: true, output: payload }
-      }
+    for (const task of tasks) {
+      const resolved = resolveTaskHandler(task.handler, options)
+      const args = task.args
+      const handler: TaskHandler = args
+        ? context => resolved({ ...context, args: { ...args, ...context.args } })
+        : resolved
 
       scheduler.register({
         name: task.name,
-        description: task.description,
-        cron: task.schedule?.cron,
-        interval: task.schedule?.interval,
-        enabled: task.enabled ?? true,
+        ...(task.description ? { description: task.description } : {}),
+        ...(task.schedule?.cron ? { cron: task.schedule.cron } : {}),
+        ...(task.schedule?.timezone ? { timezone: task.schedule.timezone } : {}),
+        ...(task.schedule?.interval ? { interval: task.schedule.interval } : {}),
+        enabled: true,
         handler,
         config: task.config || {}
       })
@@ -66,31 +122,16 @@ export async function initUnattendedMode(config: UnattendedConfig): Promise<void
     logger.info(`Scheduler started with ${tasks.length} tasks`)
   }
 
-  // Register built-in job handlers if background is enabled
+  // Built-in tasks can also be queued as background jobs (payload becomes context.args)
   if (config.background?.enabled) {
-    // Register default job handlers
-    executor.registerHandler('git-sync', async () => {
-      logger.info('Running git sync...')
-      return { success: true }
-    })
-
-    executor.registerHandler('code-analysis', async () => {
-      logger.info('Running code analysis...')
-      return { success: true }
-    })
-
-    executor.registerHandler('knowledge-index', async () => {
-      logger.info('Re-indexing knowledge base...')
-      return { success: true }
-    })
-
-    executor.registerHandler('backup', async () => {
-      logger.info('Running backup...')
-      return { success: true }
-    })
+    for (const [name, handler] of Object.entries(options.handlers ?? {})) {
+      if (!handler) continue
+      executor.registerHandler(name, payload => handler({ taskId: name, taskName: name, args: payload }))
+    }
 
     logger.info('Background executor initialized')
   }
 
   logger.info('Unattended mode initialized')
+  return mode
 }
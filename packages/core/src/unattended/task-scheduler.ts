@@ -6,15 +6,21 @@
  */
 
 import { createModuleLogger } from '../logger'
-import type { EventEmitter } from 'events'
+import { EventEmitter } from 'events'
+import { parseCron, type CronExpression } from './cron.js'
 
 const logger = createModuleLogger('unattended:scheduler')
 
+// Longest delay setTimeout supports, and how early a timer may fire before re-arming
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+const TIMER_SLACK = 1000
+
 export interface ScheduledTask {
   id: string
   name: string
   description?: string
-  cron?: string           // Cron expression
+  cron?: string           // Cron expression (5 or 6 fields)
+  timezone?: string       // IANA timezone of the cron expression (default: local)
   interval?: number       // Interval in milliseconds
   enabled: boolean
   handler: TaskHandler
@@ -25,11 +31,11 @@ export interface ScheduledTask {
 }
 
 export interface TaskConfig {
-  timeout?: number        // Max execution time in ms
-  retryCount?: number     // Number of retries on failure
-  retryDelay?: number     // Delay between retries (ms)
-  runOnStartup?: boolean  // Run immediately when scheduler starts
-  maxConcurrent?: number  // Max concurrent executions
+  timeout?: number | undefined        // Max execution time in ms
+  retryCount?: number | undefined     // Number of retries on failure
+  retryDelay?: number | undefined     // Delay between retries (ms)
+  runOnStartup?: boolean | undefined  // Run immediately when scheduler starts
+  maxConcurrent?: number | undefined  // Max concurrent executions
 }
 
 export type TaskHandler = (context: TaskContext) => Promise<TaskResult>
@@ -74,20 +80,53 @@ export interface TaskEvent {
   timestamp: Date
 }
 
+/**
+ * Scheduling state of a task that survives restarts
+ */
+export interface TaskState {
+  taskId: string
+  enabled: boolean
+  lastRun?: Date
+  nextRun?: Date
+  runCount: number
+}
+
+/**
+ * Persistence for task state and execution history (implemented in storage with SQLite).
+ * Without a store, state and history only live in memory.
+ */
+export interface SchedulerStore {
+  loadState(taskId: string): TaskState | undefined
+  saveState(state: TaskState): void
+  recordExecution(execution: TaskExecution): void
+  getExecutions(taskId: string, limit: number): TaskExecution[]
+}
+
+export interface SchedulerOptions {
+  store?: SchedulerStore
+  catchUp?: boolean       // Run tasks whose scheduled time passed while stopped (default: true)
+}
+
 export class TaskScheduler {
   private tasks: Map<string, ScheduledTask> = new Map()
   private executions: Map<string, TaskExecution> = new Map()
   private timers: Map<string, NodeJS.Timeout> = new Map()
+  private crons: Map<string, CronExpression> = new Map()
   private emitter: EventEmitter
+  private store: SchedulerStore | undefined
+  private catchUp: boolean
   private running = false
 
-  constructor() {
+  constructor(options: SchedulerOptions = {}) {
     this.emitter = new EventEmitter()
     this.emitter.setMaxListeners(100)
+    this.store = options.store
+    this.catchUp = options.catchUp ?? true
   }
 
   /**
    * Register a new task
+   * Throws CronParseError for an invalid cron expression or timezone
    */
   register(task: Omit<ScheduledTask, 'id' | 'runCount'>): string {
     const id = task.name.toLowerCase().replace(/\s+/g, '-')
@@ -95,6 +134,12 @@ export class TaskScheduler {
     if (this.tasks.has(id)) {
       throw new Error(`Task '${id}' already registered`)
     }
+    if (task.interval !== undefined && !(task.interval > 0)) {
+      throw new Error(`Invalid interval for task '${id}': ${task.interval}`)
+    }
+    if (task.cron) {
+      this.crons.set(id, parseCron(task.cron, { timezone: task.timezone }))
+    }
 
     const scheduledTask: ScheduledTask = {
       ...task,
@@ -102,6 +147,7 @@ export class TaskScheduler {
       runCount: 0,
       enabled: task.enabled ?? true
     }
+    this.restoreState(scheduledTask)
 
     this.tasks.set(id, scheduledTask)
     logger.info(`Registered task: ${id}`)
@@ -122,6 +168,7 @@ export class TaskScheduler {
 
     this.cancelTask(taskId)
     this.tasks.delete(taskId)
+    this.crons.delete(taskId)
     logger.info(`Unregistered task: ${taskId}`)
     return true
   }
@@ -139,7 +186,9 @@ export class TaskScheduler {
       this.scheduleTask(task)
     } else if (!enabled) {
       this.cancelTask(taskId)
+      delete task.nextRun
     }
+    this.saveState(task)
 
     logger.info(`Task ${taskId} ${enabled ? 'enabled' : 'disabled'}`)
     return true
@@ -163,12 +212,33 @@ export class TaskScheduler {
    * Get task execution history
    */
   getExecutionHistory(taskId: string, limit = 10): TaskExecution[] {
+    if (this.store) {
+      return this.store.getExecutions(taskId, limit)
+    }
+
     const executions = Array.from(this.executions.values())
       .filter(e => e.taskId === taskId)
       .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
     return executions.slice(0, limit)
   }
 
+  /**
+   * Upcoming run times of a task (empty for disabled or unscheduled tasks)
+   */
+  getNextRuns(taskId: string, count = 5): Date[] {
+    const task = this.tasks.get(taskId)
+    if (!task?.enabled) return []
+
+    const cron = this.crons.get(taskId)
+    if (cron) {
+      return cron.nextRuns(count)
+    }
+    if (task.interval && task.nextRun) {
+      return Array.from({ length: count }, (_, i) => new Date(task.nextRun!.getTime() + i * task.interval!))
+    }
+    return []
+  }
+
   /**
    * Manually trigger a task
    */
@@ -191,15 +261,18 @@ export class TaskScheduler {
     logger.info('Task scheduler started')
 
     // Schedule all enabled tasks
+    const now = new Date()
     for (const task of this.tasks.values()) {
       if (task.enabled) {
-        if (task.config.runOnStartup) {
-          // Run immediately on startup
+        // Run immediately on startup, or once to catch up on runs missed while stopped
+        const missed = this.catchUp && task.nextRun !== undefined && task.nextRun <= now
+        if (task.config.runOnStartup || missed) {
+          if (missed) logger.info(`Catching up missed run of task: ${task.id}`)
           this.executeTask(task).catch(err => {
             logger.error(`Startup task failed: ${err.message}`)
           })
         }
-        this.scheduleTask(task)
+        this.scheduleTask(task, missed ? undefined : task.nextRun)
       }
     }
 
@@ -246,108 +319,79 @@ export class TaskScheduler {
   }
 
   /**
-   * Schedule a task for execution
+   * Schedule a task for execution, resuming at a persisted next run time if it is still ahead
    */
-  private scheduleTask(task: ScheduledTask): void {
+  private scheduleTask(task: ScheduledTask, resumeAt?: Date): void {
     // Cancel existing schedule
     this.cancelTask(task.id)
 
     if (task.cron) {
       this.scheduleCron(task)
     } else if (task.interval) {
-      this.scheduleInterval(task)
+      this.scheduleInterval(task, resumeAt)
     }
 
-    // Calculate next run time
-    if (task.interval) {
-      task.nextRun = new Date(Date.now() + task.interval)
-    }
+    this.saveState(task)
   }
 
   /**
-   * Schedule task with cron expression (simplified)
+   * Schedule task with cron expression: a timer set to the next fire time
    */
-  private scheduleCron(task: ScheduledTask): void {
-    // Simplified cron: only supports basic patterns
-    // For production, use a proper cron library like cron-parser
-    const parts = (task.cron || '').split(' ')
-    if (parts.length < 5) return
-
-    const [minute, hour, day, month, weekday] = parts
-    
-    const scheduleNext = () => {
-      const now = new Date()
-      // Simple implementation - check every minute
-      const checkInterval = 60000
-      
-      const timer = setInterval(() => {
-        const now = new Date()
-        if (this.matchesCron(now, task.cron!)) {
-          clearInterval(timer)
-          this.executeTask(task).finally(() => {
-            if (this.running && task.enabled) {
-              scheduleNext()
-            }
-          })
-        }
-      }, checkInterval)
-
-      this.timers.set(task.id, timer)
+  private scheduleCron(task: ScheduledTask, after = new Date()): void {
+    const next = this.crons.get(task.id)?.next(after)
+    if (!next) {
+      delete task.nextRun
+      logger.warn(`Task ${task.id} has no upcoming run for cron '${task.cron}'`)
+      return
     }
+    task.nextRun = next
 
-    scheduleNext()
+    this.setTimer(task.id, next, () => {
+      this.executeTask(task).finally(() => {
+        if (this.running && task.enabled) {
+          // Never fire twice for the same time, even if the timer ran slightly early
+          this.scheduleCron(task, new Date(Math.max(Date.now(), next.getTime())))
+          this.saveState(task)
+        }
+      })
+    })
   }
 
   /**
-   * Simple cron matching (simplified version)
+   * Fire at the given time; setTimeout is limited to ~24.8 days, so longer
+   * delays re-arm the timer until the time is reached
    */
-  private matchesCron(date: Date, cron: string): boolean {
-    const parts = cron.split(' ')
-    const [minute, hour, day, month, weekday] = parts
-    
-    const match = (pattern: string, value: number): boolean => {
-      if (pattern === '*') return true
-      if (pattern.includes(',')) {
-        return pattern.split(',').map(Number).includes(value)
+  private setTimer(taskId: string, at: Date, fire: () => void): void {
+    const delay = at.getTime() - Date.now()
+    const timer = setTimeout(() => {
+      if (at.getTime() - Date.now() > TIMER_SLACK) {
+        this.setTimer(taskId, at, fire)
+      } else {
+        fire()
       }
-      if (pattern.includes('-')) {
-        const [start, end] = pattern.split('-').map(Number)
-        return value >= start && value <= end
-      }
-      if (pattern.includes('/')) {
-        const [, step] = pattern.split('/')
-        return value % Number(step) === 0
-      }
-      return Number(pattern) === value
-    }
-
-    return (
-      match(minute, date.getMinutes()) &&
-      match(hour, date.getHours()) &&
-      match(day, date.getDate()) &&
-      match(month, date.getMonth() + 1) &&
-      match(weekday, date.getDay())
-    )
+    }, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY))
+    this.timers.set(taskId, timer)
   }
 
   /**
    * Schedule task with interval
    */
-  private scheduleInterval(task: ScheduledTask): void {
+  private scheduleInterval(task: ScheduledTask, resumeAt?: Date): void {
     const run = () => {
       this.executeTask(task).finally(() => {
         if (this.running && task.enabled && task.interval) {
-          const timer = setTimeout(run, task.interval)
-          this.timers.set(task.id, timer)
           task.nextRun = new Date(Date.now() + task.interval)
+          this.setTimer(task.id, task.nextRun, run)
+          this.saveState(task)
         }
       })
     }
 
-    // Initial delay
-    const timer = setTimeout(run, task.interval)
-    this.timers.set(task.id, timer)
-    task.nextRun = new Date(Date.now() + task.interval!)
+    // Initial delay (the remaining time of a persisted schedule, or a full interval)
+    const remaining = resumeAt ? resumeAt.getTime() - Date.now() : 0
+    const delay = remaining > 0 && remaining <= task.interval! ? remaining : task.interval!
+    task.nextRun = new Date(Date.now() + delay)
+    this.setTimer(task.id, task.nextRun, run)
   }
 
   /**
@@ -361,6 +405,41 @@ export class TaskScheduler {
     }
   }
 
+  /**
+   * Restore persisted state of a newly registered task
+   */
+  private restoreState(task: ScheduledTask): void {
+    const state = this.safely(() => this.store?.loadState(task.id))
+    if (!state) return
+
+    task.enabled = state.enabled
+    task.runCount = state.runCount
+    if (state.lastRun) task.lastRun = state.lastRun
+    if (state.nextRun) task.nextRun = state.nextRun
+  }
+
+  private saveState(task: ScheduledTask): void {
+    this.safely(() => this.store?.saveState({
+      taskId: task.id,
+      enabled: task.enabled,
+      runCount: task.runCount,
+      ...(task.lastRun ? { lastRun: task.lastRun } : {}),
+      ...(task.nextRun ? { nextRun: task.nextRun } : {})
+    }))
+  }
+
+  /**
+   * Persistence failures are logged but never stop scheduling
+   */
+  private safely<T>(fn: () => T): T | undefined {
+    try {
+      return fn()
+    } catch (error) {
+      logger.warn(`Scheduler store error: ${(error as Error).message}`)
+      return undefined
+    }
+  }
+
   /**
    * Execute a task
    */
@@ -389,19 +468,22 @@ export class TaskScheduler {
     const context: TaskContext = {
       taskId: task.id,
       taskName: task.name,
-      args,
+      ...(args ? { args } : {}),
       emitter: this.emitter
     }
 
     const timeout = task.config.timeout || 300000 // 5 minutes default
 
     try {
-      const result = await this.withTimeout(task.handler(context), timeout)
-      
+      const retryCount = task.config.retryCount ?? 0
+      const result = await this.attempt(task, context, timeout).catch(error => {
+        if (retryCount <= 0) throw error
+        return this.retryTask(task, context, retryCount, timeout)
+      })
+
       execution.status = 'completed'
       execution.result = {
-        success: true,
-        output: result,
+        ...result,
         duration: Date.now() - execution.startTime.getTime()
       }
       
@@ -419,11 +501,6 @@ export class TaskScheduler {
 
     } catch (error) {
       const err = error as Error
-      
-      // Check for retry
-      if (task.config.retryCount && task.config.retryCount > 0) {
-        await this.retryTask(task, context, task.config.retryCount)
-      }
 
       execution.status = 'failed'
       execution.error = err
@@ -447,17 +524,35 @@ export class TaskScheduler {
     }
 
     execution.endTime = new Date()
+    this.safely(() => this.store?.recordExecution(execution))
+    this.saveState(task)
     return execution
   }
 
   /**
-   * Retry a failed task
+   * Run the handler once under the timeout; a result reporting failure counts as an error
+   */
+  private async attempt(
+    task: ScheduledTask,
+    context: TaskContext,
+    timeout: number
+  ): Promise<TaskResult> {
+    const result = await this.withTimeout(task.handler(context), timeout)
+    if (!result.success) {
+      throw new Error(result.error || 'Task reported failure')
+    }
+    return result
+  }
+
+  /**
+   * Retry a failed task; resolves with the first successful result or rejects with the last error
    */
   private async retryTask(
-    task: ScheduledTask, 
-    context: TaskContext, 
-    remainingRetries: number
-  ): Promise<void> {
+    task: ScheduledTask,
+    context: TaskContext,
+    remainingRetries: number,
+    timeout: number
+  ): Promise<TaskResult> {
     const delay = task.config.retryDelay || 1000
 
     this.emit({
@@ -471,11 +566,10 @@ export class TaskScheduler {
     await new Promise(resolve => setTimeout(resolve, delay))
 
     try {
-      await task.handler(context)
+      return await this.attempt(task, context, timeout)
     } catch (error) {
-      if (remainingRetries > 1) {
-        await this.retryTask(task, context, remainingRetries - 1)
-      }
+      if (remainingRetries <= 1) throw error
+      return this.retryTask(task, context, remainingRetries - 1, timeout)
     }
   }
 
@@ -511,6 +605,6 @@ export function getScheduler(): TaskScheduler {
   return schedulerInstance
 }
 
-export function createScheduler(): TaskScheduler {
-  return new TaskScheduler()
+export function createScheduler(options?: SchedulerOptions): TaskScheduler {
+  return new TaskScheduler(options)
 }
@@ -4,8 +4,7 @@
  * Type definitions for unattended/background operation features.
  */
 
-import type { TaskHandler, TaskConfig, TaskResult } from './task-scheduler.js'
-import type { JobHandler, JobPriority } from './background-executor.js'
+import type { TaskHandler, TaskConfig } from './task-scheduler.js'
 
 // Re-export types
 export {
@@ -16,7 +15,10 @@ export {
   type TaskResult,
   type TaskExecution,
   type TaskEvent,
-  type TaskEventType
+  type TaskEventType,
+  type TaskState,
+  type SchedulerStore,
+  type SchedulerOptions
 } from './task-scheduler.js'
 
 export {
@@ -48,14 +50,16 @@ export interface UnattendedConfig {
 
 export interface TaskDefinition {
   name: string
-  description?: string
-  handler: string                // Handler reference (module.method)
+  description?: string | undefined
+  handler: string                // Built-in task name, 'skill:<name>' or 'agent:<name>'
   schedule?: {
-    cron?: string
-    interval?: number
-  }
-  config?: TaskConfig
-  enabled?: boolean
+    cron?: string | undefined
+    timezone?: string | undefined  // IANA timezone of the cron expression
+    interval?: number | undefined
+  } | undefined
+  args?: Record<string, unknown> | undefined   // Passed to the handler as context.args
+  config?: TaskConfig | undefined
+  enabled?: boolean | undefined
 }
 
 export interface NotificationConfig {
@@ -94,7 +98,7 @@ export interface TaskHandlers {
 export const BUILT_IN_TASKS = {
   'git-sync': {
     name: 'Git Sync',
-    description: 'Auto-commit and push changes',
+    description: 'Snapshot the project into the private snapshot repository',
     schedule: { cron: '0 */6 * * *' }, // Every 6 hours
     config: { timeout: 60000 }
   },
@@ -106,10 +110,16 @@ export const BUILT_IN_TASKS = {
   },
   'knowledge-index': {
     name: 'Knowledge Index',
-    description: 'Re-index knowledge base',
+    description: 'Sync changed files into the knowledge base',
     schedule: { interval: 3600000 }, // Every hour
     config: { timeout: 180000 }
   },
+  'backup': {
+    name: 'Backup',
+    description: 'Back up the SQLite database',
+    schedule: { cron: '0 4 * * *' }, // Daily at 4 AM
+    config: { timeout: 120000 }
+  },
   'cleanup': {
     name: 'Cleanup',
     description: 'Clean up temporary files and old logs',
@@ -3,6 +3,7 @@ import {
   generateId,
   truncate,
   deepClone,
+  parseJsonObject,
   isObject,
   deepMerge,
   formatBytes,
@@ -47,6 +48,18 @@ describe('deepClone', () => {
   })
 })
 
+describe('parseJsonObject', () => {
+  it('忽略代码块和前后文字', () => {
+    expect(parseJsonObject('结果如下：\n```json\n{"a": {"b": 1}}\n```\n完成')).toEqual({
+      a: { b: 1 },
+    })
+  })
+
+  it('没有 JSON 时抛错', () => {
+    expect(() => parseJsonObject('no json here')).toThrow('No JSON object')
+  })
+})
+
 describe('isObject', () => {
   it('正确判断各类型', () => {
     expect(isObject({})).toBe(true)
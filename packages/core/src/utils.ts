@@ -67,6 +67,18 @@ export function deepClone<T>(obj: T): T {
   return JSON.parse(JSON.stringify(obj)) as T
 }
 
+/**
+ * Parse the outermost JSON object in model output (tolerates code fences and surrounding text)
+ */
+export function parseJsonObject(output: string): unknown {
+  const start = output.indexOf('{')
+  const end = output.lastIndexOf('}')
+  if (start < 0 || end <= start) {
+    throw new Error('No JSON object in output')
+  }
+  return JSON.parse(output.slice(start, end + 1))
+}
+
 /**
  * Check if a value is a non-null object
  */
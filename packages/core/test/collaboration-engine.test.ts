@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock the logger module
+vi.mock('../src/logger', () => ({
+  createModuleLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}))
+
+import {
+  createCollaborationEngine,
+  type AgentExecutionContext,
+  type CollaborationEngine,
+} from '../src/agents-team/collaboration-engine.js'
+import {
+  AGENT_ROLES,
+  createTeamManager,
+  type AgentRole,
+  type TeamManager,
+} from '../src/agents-team/team-manager.js'
+import { createModelExecutor, registerModelExecutors } from '../src/agents-team/model-executor.js'
+
+function member(name: string, role: AgentRole) {
+  return { name, role, agent: { name, prompt: `${name} prompt` }, capabilities: [] }
+}
+
+function task(title: string) {
+  return { title, priority: 'normal' as const, dependencies: [], input: undefined }
+}
+
+describe('CollaborationEngine', () => {
+  let manager: TeamManager
+  let engine: CollaborationEngine
+  let calls: AgentExecutionContext[]
+
+  // 按成员名返回输出的执行器
+  function useExecutor(outputs: Record<string, (context: AgentExecutionContext) => string>): void {
+    for (const role of AGENT_ROLES) {
+      engine.registerExecutor(role, async (context) => {
+        calls.push({ ...context, messages: [...context.messages] })
+        const output = outputs[context.member.name]?.(context) ?? `${context.member.name} done`
+        return { success: true, output, duration: 0 }
+      })
+    }
+  }
+
+  beforeEach(() => {
+    manager = createTeamManager()
+    engine = createCollaborationEngine(manager)
+    calls = []
+  })
+
+  it('distributes parallel tasks across members', async () => {
+    const team = manager.createTeam('t', [member('a', 'worker'), member('b', 'worker')])
+    useExecutor({})
+
+    const session = await engine.startSession(team, [task('1'), task('2'), task('3')], 'parallel')
+
+    expect(session.status).toBe('completed')
+    expect(session.results).toHaveLength(3)
+    expect(new Set(calls.map((c) => c.member.name))).toEqual(new Set(['a', 'b']))
+    expect(engine.getSessionTasks(session.id).map((t) => t.status)).toEqual([
+      'completed',
+      'completed',
+      'completed',
+    ])
+  })
+
+  it('passes earlier member output to later members in sequential mode', async () => {
+    const team = manager.createTeam('t', [
+      member('architect', 'coordinator'),
+      member('dev', 'worker'),
+    ])
+    useExecutor({ architect: () => 'use a queue', dev: () => 'implemented queue' })
+
+    const session = await engine.startSession(team, [task('build')], 'sequential')
+
+    expect(calls.map((c) => c.member.name)).toEqual(['architect', 'dev'])
+    expect(calls[1]!.messages.map((m) => m.content)).toEqual(['use a queue'])
+    expect(session.results[0]).toMatchObject({ output: 'implemented queue', success: true })
+  })
+
+  it('revises until reviewers approve in iterative mode', async () => {
+    const team = manager.createTeam('t', [member('dev', 'worker'), member('qa', 'reviewer')])
+    let reviews = 0
+    useExecutor({
+      qa: () =>
+        ++reviews === 1
+          ? '{"approved": false, "feedback": "add tests"}'
+          : '```json\n{"approved": true}\n```',
+    })
+
+    const session = await engine.startSession(team, [task('feature')], 'iterative')
+
+    const devCalls = calls.filter((c) => c.member.name === 'dev')
+    expect(devCalls).toHaveLength(2)
+    expect(devCalls[1]!.instruction).toContain('qa: add tests')
+    expect(session.results[0]).toMatchObject({ iterations: 2, success: true })
+    expect(engine.getSessionTasks(session.id)[0]!.result).toMatchObject({
+      approvalStatus: 'approved',
+      reviewedBy: 'qa',
+    })
+  })
+
+  it('stops revising after maxIterations', async () => {
+    const team = manager.createTeam('t', [member('dev', 'worker'), member('qa', 'reviewer')], {
+      maxIterations: 2,
+    })
+    useExecutor({ qa: () => 'not json' })
+
+    const session = await engine.startSession(team, [task('feature')], 'iterative')
+
+    expect(calls.filter((c) => c.member.name === 'dev')).toHaveLength(2)
+    expect(engine.getSessionTasks(session.id)[0]!.result?.approvalStatus).toBe('rejected')
+  })
+
+  it('runs debate rounds and lets the judge pick the winner', async () => {
+    const team = manager.createTeam('t', [
+      member('alice', 'worker'),
+      member('bob', 'worker'),
+      member('judge', 'reviewer'),
+    ])
+    useExecutor({
+      alice: (c) => `alice v${c.instruction?.startsWith('Propose') ? 1 : 2}`,
+      bob: (c) => `bob v${c.instruction?.startsWith('Propose') ? 1 : 2}`,
+      judge: () => '{"winner": 2, "reasoning": "simpler"}',
+    })
+
+    const session = await engine.startSession(team, [task('design')], 'debate')
+
+    expect(calls.filter((c) => c.member.name === 'alice')).toHaveLength(2)
+    // 第二轮可以看到其他成员第一轮的提案
+    const secondRound = calls.filter((c) => c.member.name === 'alice')[1]!
+    expect(secondRound.messages.map((m) => m.content)).toContain('bob v1')
+    expect(calls.find((c) => c.member.name === 'judge')!.instruction).toContain('[2] bob:\nbob v2')
+    expect(session.results[0]).toMatchObject({ output: 'bob v2', iterations: 2 })
+  })
+
+  it('uses the team mode by default', async () => {
+    const team = manager.createTeam('t', [member('a', 'worker'), member('j', 'reviewer')])
+    team.mode = 'brainstorm'
+    useExecutor({ j: () => '{"winner": 1}' })
+
+    const session = await engine.startSession(team, [task('ideas')])
+
+    expect(session.mode).toBe('debate')
+  })
+
+  it('fails sessions with an unknown team mode', async () => {
+    const team = manager.createTeam('t', [member('a', 'worker')])
+    team.mode = 'swarm' as never
+    useExecutor({})
+
+    const session = await engine.startSession(team, [task('x')])
+
+    expect(session.status).toBe('failed')
+    expect(session.error).toBe('Unknown collaboration mode: swarm')
+    expect(calls).toEqual([])
+  })
+
+  it('runs members through the model executor once registered', async () => {
+    const team = manager.createTeam('t', [member('a', 'specialist')])
+    registerModelExecutors(engine, async ({ agent }) => `${agent.name} answered`)
+
+    const session = await engine.startSession(team, [task('x')], 'parallel')
+
+    expect(session.results[0]).toMatchObject({ success: true, output: 'a answered' })
+    expect(manager.getMessages(team.id).map((m) => m.content)).toEqual(['a answered'])
+  })
+
+  it('runs one session per team at a time', async () => {
+    const team = manager.createTeam('t', [member('a', 'worker')])
+    let finish!: () => void
+    engine.registerExecutor('worker', async () => {
+      await new Promise<void>((resolve) => (finish = resolve))
+      return { success: true, output: 'done', duration: 0 }
+    })
+
+    const session = engine.createSession(team, [task('x')], 'parallel')
+    const running = engine.runSession(session)
+
+    expect(engine.getActiveSession(team.id)).toBe(session)
+    expect(() => engine.createSession(team, [task('y')], 'parallel')).toThrow(
+      `already running session ${session.id}`
+    )
+    await vi.waitFor(() => expect(finish).toBeDefined())
+    finish()
+    await running
+
+    expect(engine.getActiveSession(team.id)).toBeUndefined()
+    await expect(engine.runSession(session)).rejects.toThrow('already started')
+  })
+
+  it('keeps a bounded history of finished sessions and their tasks', async () => {
+    const team = manager.createTeam('t', [member('a', 'worker')])
+    useExecutor({})
+
+    const first = await engine.startSession(team, [task('0')], 'parallel')
+    for (let i = 1; i <= 100; i++) {
+      await engine.startSession(team, [task(String(i))], 'parallel')
+    }
+
+    expect(engine.getAllSessions()).toHaveLength(100)
+    expect(engine.getSession(first.id)).toBeUndefined()
+    expect(engine.getSessionTasks(first.id)).toEqual([])
+  })
+
+  it('fails tasks without an executor', async () => {
+    const team = manager.createTeam('t', [member('a', 'worker')])
+
+    const session = await engine.startSession(team, [task('x')], 'parallel')
+
+    expect(session.status).toBe('failed')
+    expect(session.results[0]).toMatchObject({
+      success: false,
+      error: 'No executor for role: worker',
+    })
+  })
+})
+
+describe('createModelExecutor', () => {
+  it('builds prompts from the agent, task and team messages', async () => {
+    const manager = createTeamManager()
+    const team = manager.createTeam('Dev', [member('arch', 'coordinator'), member('dev', 'worker')])
+    const [arch, dev] = team.members
+    const message = manager.sendMessage(team.id, arch!.id, '*', 'response', 'plan: step 1')!
+    const chat = vi.fn().mockResolvedValue('ok')
+
+    const result = await createModelExecutor(chat)({
+      member: dev!,
+      task: {
+        id: 't1',
+        title: 'Build',
+        description: 'a parser',
+        status: 'pending',
+        priority: 'normal',
+        dependencies: [],
+        input: { file: 'a.ts' },
+        iterations: 0,
+        createdAt: new Date(),
+      },
+      team,
+      session: {} as never,
+      messages: [message],
+      instruction: 'Continue.',
+    })
+
+    expect(result).toMatchObject({ success: true, output: 'ok' })
+    const [request] = chat.mock.calls[0]!
+    expect(request.agent).toBe(dev!.agent)
+    expect(request.systemPrompt).toContain('dev prompt')
+    expect(request.systemPrompt).toContain('the worker of the team "Dev"')
+    expect(request.prompt).toContain('# Task: Build\n\na parser')
+    expect(request.prompt).toContain('"file": "a.ts"')
+    expect(request.prompt).toContain('[arch] plan: step 1')
+    expect(request.prompt).toContain('## Your turn\nContinue.')
+  })
+})
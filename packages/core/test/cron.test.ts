@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { CronParseError, parseCron } from '../src/unattended/cron.js'
+
+// 本地时区的时间（与未指定时区的表达式一致）
+function local(year: number, month: number, day: number, hour = 0, minute = 0, second = 0): Date {
+  return new Date(year, month - 1, day, hour, minute, second)
+}
+
+function nextRuns(expression: string, from: Date, count = 3, timezone?: string): Date[] {
+  return parseCron(expression, { timezone }).nextRuns(count, from)
+}
+
+describe('parseCron', () => {
+  it('supports step ranges', () => {
+    expect(nextRuns('1-10/3 * * * *', local(2024, 1, 1), 4)).toEqual([
+      local(2024, 1, 1, 0, 1),
+      local(2024, 1, 1, 0, 4),
+      local(2024, 1, 1, 0, 7),
+      local(2024, 1, 1, 0, 10),
+    ])
+  })
+
+  it('steps from the start of the range rather than modulo the value', () => {
+    expect(nextRuns('0 0 */10 * *', local(2024, 1, 1, 12), 3)).toEqual([
+      local(2024, 1, 11),
+      local(2024, 1, 21),
+      local(2024, 1, 31),
+    ])
+    expect(nextRuns('0 5/8 * * *', local(2024, 1, 1), 3)).toEqual([
+      local(2024, 1, 1, 5),
+      local(2024, 1, 1, 13),
+      local(2024, 1, 1, 21),
+    ])
+  })
+
+  it('accepts month and weekday names case-insensitively', () => {
+    // 2024-01-01 是星期一
+    expect(nextRuns('30 9 * jan-Feb MON,fri', local(2024, 1, 1, 10), 3)).toEqual([
+      local(2024, 1, 5, 9, 30),
+      local(2024, 1, 8, 9, 30),
+      local(2024, 1, 12, 9, 30),
+    ])
+  })
+
+  it('treats 7 as Sunday', () => {
+    expect(nextRuns('0 0 * * 7', local(2024, 1, 1), 1)).toEqual([local(2024, 1, 7)])
+  })
+
+  it('supports the last day of the month and the last weekday of the month', () => {
+    expect(nextRuns('0 0 L * *', local(2024, 1, 1), 3)).toEqual([
+      local(2024, 1, 31),
+      local(2024, 2, 29),
+      local(2024, 3, 31),
+    ])
+    expect(nextRuns('0 18 * * 5L', local(2024, 1, 1), 2)).toEqual([
+      local(2024, 1, 26, 18),
+      local(2024, 2, 23, 18),
+    ])
+  })
+
+  it('matches either day field when both are restricted', () => {
+    expect(nextRuns('0 0 13 * FRI', local(2024, 9, 1), 3)).toEqual([
+      local(2024, 9, 6),
+      local(2024, 9, 13),
+      local(2024, 9, 20),
+    ])
+  })
+
+  it('supports six fields with seconds and macros', () => {
+    expect(nextRuns('*/15 * * * * *', local(2024, 1, 1, 0, 0, 10), 2)).toEqual([
+      local(2024, 1, 1, 0, 0, 15),
+      local(2024, 1, 1, 0, 0, 30),
+    ])
+    expect(nextRuns('@weekly', local(2024, 1, 1), 1)).toEqual([local(2024, 1, 7)])
+  })
+
+  it('finds leap days years ahead', () => {
+    expect(nextRuns('0 0 29 2 *', local(2024, 3, 1), 1)).toEqual([local(2028, 2, 29)])
+  })
+
+  it('returns times strictly after the given time', () => {
+    const cron = parseCron('0 * * * *')
+    expect(cron.next(local(2024, 1, 1, 5))).toEqual(local(2024, 1, 1, 6))
+    expect(cron.matches(local(2024, 1, 1, 5))).toBe(true)
+    expect(cron.matches(local(2024, 1, 1, 5, 1))).toBe(false)
+  })
+
+  it('evaluates expressions in the given timezone', () => {
+    expect(nextRuns('0 9 * * *', new Date('2024-01-01T00:00:00Z'), 1, 'Asia/Shanghai')).toEqual([
+      new Date('2024-01-01T01:00:00Z'),
+    ])
+  })
+
+  it('skips times that do not exist and fires once in repeated hours', () => {
+    // America/New_York: 2024-03-10 02:00 跳到 03:00，2024-11-03 02:00 回到 01:00
+    expect(nextRuns('30 2 * * *', new Date('2024-03-09T00:00:00Z'), 2, 'America/New_York')).toEqual(
+      [new Date('2024-03-09T07:30:00Z'), new Date('2024-03-11T06:30:00Z')]
+    )
+    expect(nextRuns('30 1 * * *', new Date('2024-11-03T00:00:00Z'), 2, 'America/New_York')).toEqual(
+      [new Date('2024-11-03T05:30:00Z'), new Date('2024-11-04T06:30:00Z')]
+    )
+  })
+
+  it.each([
+    ['* * * *', 'expected 5 or 6 fields'],
+    ['60 * * * *', 'minute value 60 out of range'],
+    ['* * * * FOO', "invalid day-of-week value 'FOO'"],
+    ['10-5 * * * *', 'reversed'],
+    ['*/0 * * * *', 'step'],
+    ['1,,2 * * * *', 'invalid minute'],
+    ['0 0 30 2 *', 'never occurs'],
+  ])('rejects %s', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(CronParseError)
+    expect(() => parseCron(expression)).toThrow(message)
+  })
+
+  it('rejects unknown timezones', () => {
+    expect(() => parseCron('* * * * *', { timezone: 'Mars/Olympus' })).toThrow(
+      "unknown timezone 'Mars/Olympus'"
+    )
+  })
+})
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// Mock the logger module
+vi.mock('../src/logger.js', () => ({
+  createModuleLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}))
+
+import {
+  Orchestrator,
+  type ExecutionPlan,
+  type PlanStepEvent,
+  type Task,
+} from '../src/orchestrator.js'
+
+function task(id: string, dependencies: string[] = []): Task {
+  return {
+    id,
+    description: `task ${id}`,
+    type: 'multi_step',
+    complexity: 'medium',
+    dependencies,
+    status: 'pending',
+  }
+}
+
+function plan(tasks: Task[]): ExecutionPlan {
+  return {
+    input: 'do it',
+    intent: {
+      type: 'multi_step',
+      complexity: 'high',
+      confidence: 1,
+      reasoning: '',
+      suggestedAgents: ['build'],
+      suggestedSkills: [],
+      suggestedTools: [],
+      requiresPlanning: true,
+      requiresReview: false,
+    },
+    decomposition: { tasks, estimatedDuration: 0, canParallelize: [] },
+    resources: { agents: [], skills: [], rules: [], mcpServers: [], tools: [] },
+    estimatedDuration: 0,
+    steps: tasks.map((t) => ({
+      taskId: t.id,
+      agent: 'build',
+      prompt: t.description,
+      tools: [],
+      expectedOutcome: '',
+    })),
+  }
+}
+
+describe('Orchestrator.analyzeIntent', () => {
+  let orchestrator: Orchestrator
+
+  beforeEach(() => {
+    orchestrator = new Orchestrator()
+  })
+
+  it('uses rule-based analysis without a classifier', async () => {
+    const analysis = await orchestrator.analyzeIntent('please review this file')
+    expect(analysis.type).toBe('code_review')
+  })
+
+  it('uses the validated model output', async () => {
+    const chat = vi
+      .fn()
+      .mockResolvedValue(
+        '```json\n{"type": "bug_fix", "complexity": "high", "confidence": 0.95, "reasoning": "crash", ' +
+          '"suggestedAgents": ["build", "ghost"], "requiresPlanning": true, "requiresReview": true}\n```'
+      )
+    orchestrator.setIntentClassifier(chat, { agents: () => ['build', 'review'] })
+
+    const analysis = await orchestrator.analyzeIntent('the app crashes on start')
+
+    expect(analysis).toMatchObject({
+      type: 'bug_fix',
+      complexity: 'high',
+      confidence: 0.95,
+      suggestedAgents: ['build'],
+      suggestedTools: [],
+    })
+    const [request] = chat.mock.calls[0]!
+    expect(request).toMatchObject({
+      prompt: 'the app crashes on start',
+      taskType: 'simple_qa',
+      temperature: 0,
+    })
+    expect(request.systemPrompt).toContain('Available agents: build, review')
+  })
+
+  it('falls back to rules when the model output is invalid', async () => {
+    const chat = vi.fn().mockResolvedValue('{"type": "dance", "complexity": "low"}')
+    orchestrator.setIntentClassifier(chat)
+
+    const analysis = await orchestrator.analyzeIntent('please review this file')
+    expect(analysis.type).toBe('code_review')
+  })
+
+  it('falls back to rules when the model call fails', async () => {
+    orchestrator.setIntentClassifier(vi.fn().mockRejectedValue(new Error('no provider')))
+
+    const analysis = await orchestrator.analyzeIntent('write tests for utils')
+    expect(analysis.type).toBe('testing')
+  })
+})
+
+describe('Orchestrator.executePlan', () => {
+  let orchestrator: Orchestrator
+
+  beforeEach(() => {
+    orchestrator = new Orchestrator()
+  })
+
+  it('runs independent steps in parallel and passes dependency results', async () => {
+    const started: string[] = []
+    const resolvers = new Map<string, (value: string) => void>()
+    const runStep = vi.fn(
+      (step: { taskId: string }) =>
+        new Promise<string>((resolve) => {
+          started.push(step.taskId)
+          resolvers.set(step.taskId, resolve)
+        })
+    )
+
+    const running = orchestrator.executePlan(
+      plan([task('a'), task('b'), task('c', ['a', 'b'])]),
+      runStep
+    )
+
+    await vi.waitFor(() => expect(started).toEqual(['a', 'b']))
+    resolvers.get('a')!('A done')
+    resolvers.get('b')!('B done')
+    await vi.waitFor(() => expect(started).toEqual(['a', 'b', 'c']))
+    resolvers.get('c')!('C done')
+
+    const result = await running
+    expect(result.success).toBe(true)
+    expect(result.tasks.map((t) => [t.id, t.status, t.result])).toEqual([
+      ['a', 'completed', 'A done'],
+      ['b', 'completed', 'B done'],
+      ['c', 'completed', 'C done'],
+    ])
+    const [, context] = runStep.mock.calls[2]! as unknown as [unknown, { dependencies: Task[] }]
+    expect(context.dependencies.map((t) => t.result)).toEqual(['A done', 'B done'])
+  })
+
+  it('limits concurrency', async () => {
+    let active = 0
+    let peak = 0
+    const runStep = async (): Promise<string> => {
+      active++
+      peak = Math.max(peak, active)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      active--
+      return 'ok'
+    }
+
+    await orchestrator.executePlan(plan([task('a'), task('b'), task('c'), task('d')]), runStep, {
+      maxConcurrency: 2,
+    })
+
+    expect(peak).toBe(2)
+  })
+
+  it('rejects a maxConcurrency that is not a positive integer', async () => {
+    const runStep = vi.fn(async () => 'ok')
+
+    for (const maxConcurrency of [Number.NaN, 0, 1.5]) {
+      await expect(
+        orchestrator.executePlan(plan([task('a')]), runStep, { maxConcurrency })
+      ).rejects.toThrow('maxConcurrency')
+    }
+    expect(runStep).not.toHaveBeenCalled()
+  })
+
+  it('skips steps whose dependencies failed and reports progress', async () => {
+    const events: PlanStepEvent[] = []
+    const runStep = async (step: { taskId: string }): Promise<string> => {
+      if (step.taskId === 'a') throw new Error('boom')
+      return 'ok'
+    }
+
+    const result = await orchestrator.executePlan(
+      plan([task('a'), task('b', ['a']), task('c', ['b']), task('d')]),
+      runStep,
+      { onStep: (event) => events.push(event) }
+    )
+
+    expect(result.success).toBe(false)
+    expect(result.tasks.map((t) => [t.id, t.status, t.error])).toEqual([
+      ['a', 'failed', 'boom'],
+      ['b', 'failed', '前置任务失败: a'],
+      ['c', 'failed', '前置任务失败: b'],
+      ['d', 'completed', undefined],
+    ])
+    expect(events.filter((e) => e.status === 'skipped').map((e) => e.taskId)).toEqual(['b', 'c'])
+    expect(events.at(-1)).toMatchObject({ completed: 4, total: 4 })
+    expect(orchestrator.getState().currentTask).toBeNull()
+  })
+
+  it('fails steps whose dependencies can never complete', async () => {
+    const result = await orchestrator.executePlan(
+      plan([task('a', ['missing']), task('b', ['c']), task('c', ['b'])]),
+      async () => 'ok'
+    )
+
+    expect(result.tasks.map((t) => t.error)).toEqual([
+      '依赖无法满足',
+      '依赖无法满足',
+      '依赖无法满足',
+    ])
+  })
+
+  it('stops starting steps when aborted', async () => {
+    const controller = new AbortController()
+    const runStep = async (): Promise<string> => {
+      controller.abort()
+      return 'ok'
+    }
+
+    const result = await orchestrator.executePlan(
+      plan([task('a'), task('b', ['a']), task('c', ['missing'])]),
+      runStep,
+      { signal: controller.signal, maxConcurrency: 1 }
+    )
+
+    expect(result.tasks.map((t) => [t.id, t.status, t.error])).toEqual([
+      ['a', 'completed', undefined],
+      ['b', 'failed', '已取消'],
+      ['c', 'failed', '已取消'],
+    ])
+  })
+})
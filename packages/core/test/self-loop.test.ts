@@ -0,0 +1,524 @@
+import * as fs from 'node:fs/promises'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Mock the logger module
+vi.mock('../src/logger', () => ({
+  createModuleLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}))
+
+import {
+  createLoopController,
+  type LoopAnalysis,
+  type LoopCheckpointStore,
+  type SelfLoopController,
+} from '../src/self-loop/loop-controller.js'
+import { parseCheckOutput, scoreCheckResults } from '../src/self-loop/project-checks.js'
+import { applyFileChanges, createChangeExecutor } from '../src/self-loop/change-executor.js'
+
+function analysis(score: number, files: string[] = ['a.ts']): LoopAnalysis {
+  return {
+    issues: files.map((file) => ({
+      severity: 'high' as const,
+      type: 'typecheck',
+      description: `error in ${file}`,
+      location: { file, line: 1 },
+      autoFixable: true,
+    })),
+    quality: {
+      correctness: score,
+      performance: 100,
+      maintainability: 100,
+      security: 100,
+      testCoverage: 100,
+    },
+    suggestions: [],
+    score,
+  }
+}
+
+describe('parseCheckOutput', () => {
+  it('parses tsc diagnostics in both formats', () => {
+    const issues = parseCheckOutput(
+      'typecheck',
+      [
+        "src/a.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "src/b.ts:3:1 - error TS2304: Cannot find name 'x'.",
+        'Found 2 errors.',
+      ].join('\n')
+    )
+
+    expect(issues).toHaveLength(2)
+    expect(issues[0]).toMatchObject({
+      severity: 'high',
+      type: 'typecheck:TS2322',
+      location: { file: 'src/a.ts', line: 12, column: 5 },
+    })
+    expect(issues[1]).toMatchObject({ type: 'typecheck:TS2304', location: { file: 'src/b.ts' } })
+  })
+
+  it('parses unix and stylish lint output', () => {
+    const issues = parseCheckOutput(
+      'lint',
+      [
+        "src/a.ts:1:7: 'x' is assigned a value but never used. [Error/no-unused-vars]",
+        '/repo/src/b.ts',
+        '  4:10  warning  Unexpected console statement  no-console',
+        '',
+        '✖ 2 problems',
+      ].join('\n')
+    )
+
+    expect(issues).toHaveLength(2)
+    expect(issues[0]).toMatchObject({ severity: 'medium', location: { file: 'src/a.ts', line: 1 } })
+    expect(issues[1]).toMatchObject({
+      severity: 'low',
+      type: 'lint:no-console',
+      location: { file: '/repo/src/b.ts', line: 4, column: 10 },
+    })
+  })
+
+  it('parses failing tests of common runners', () => {
+    const issues = parseCheckOutput(
+      'test',
+      [
+        ' FAIL  test/a.test.ts > parser > handles empty input',
+        'FAILED tests/test_b.py::test_sum - AssertionError: 1 != 2',
+        '--- FAIL: TestParse (0.00s)',
+        ' ✓ test/c.test.ts (3 tests)',
+      ].join('\n')
+    )
+
+    expect(issues.map((i) => i.description)).toEqual([
+      'Test failed: parser > handles empty input',
+      'Test failed: test_sum - AssertionError: 1 != 2',
+      'Test failed: TestParse',
+    ])
+    expect(issues[1]!.location).toEqual({ file: 'tests/test_b.py' })
+  })
+})
+
+describe('scoreCheckResults', () => {
+  it('scores only the checks that ran', () => {
+    const check = { kind: 'typecheck' as const, command: 'tsc', args: [] }
+    const issue = parseCheckOutput('typecheck', 'a.ts(1,1): error TS1: x\nb.ts(1,1): error TS1: y')
+
+    const result = scoreCheckResults([
+      { check, exitCode: 2, output: '', issues: issue, duration: 0 },
+    ])
+
+    expect(result.quality.correctness).toBe(83)
+    expect(result.score).toBe(83)
+    expect(result.suggestions).toHaveLength(1)
+  })
+
+  it('keeps lowering the score as errors grow', () => {
+    const check = { kind: 'test' as const, command: 'vitest', args: [] }
+    const score = (failures: number) =>
+      scoreCheckResults([
+        {
+          check,
+          exitCode: 1,
+          output: '',
+          issues: parseCheckOutput(
+            'test',
+            Array.from({ length: failures }, (_, i) => `FAIL a.test.ts > test ${i}`).join('\n')
+          ),
+          duration: 0,
+        },
+      ]).score
+
+    expect(score(5)).toBeGreaterThan(score(10))
+    expect(score(10)).toBeGreaterThan(0)
+  })
+})
+
+describe('SelfLoopController', () => {
+  let root: string
+  let historyDir: string
+  let snapshots: LoopCheckpointStore & { reverted: string[] }
+  let controller: SelfLoopController
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'wqbot-loop-'))
+    historyDir = path.join(root, '.history')
+    let count = 0
+    const reverted: string[] = []
+    snapshots = {
+      reverted,
+      track: vi.fn(async () => ({ hash: `h${++count}`, timestamp: '', changedFiles: [] })),
+      revert: vi.fn(async (_dir: string, hash: string) => {
+        reverted.push(hash)
+      }),
+    }
+    controller = createLoopController({ snapshots, historyDir })
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('keeps improving changes and stops when no issues remain', async () => {
+    const scores = [analysis(60, ['a.ts', 'b.ts']), analysis(80, ['b.ts']), analysis(100, [])]
+    controller.registerAnalyzer('code', async () => scores.shift()!)
+    const executor = vi.fn(async ({ issues, projectRoot }) => ({
+      success: true,
+      changes: await applyFileChanges(projectRoot, [
+        { path: issues[0].location.file, operation: 'create' as const, content: 'fixed' },
+      ]),
+      summary: `fix ${issues[0].location.file}`,
+    }))
+    controller.registerExecutor('default', executor)
+
+    const session = await controller.startLoop({ task: 'fix' }, { projectRoot: root })
+
+    expect(session.status).toBe('completed')
+    expect(session.initialScore).toBe(60)
+    expect(session.finalScore).toBe(100)
+    expect(session.iterations.map((i) => i.status)).toEqual(['completed', 'completed'])
+    expect(session.improvements.map((i) => i.description)).toEqual(['fix a.ts', 'fix b.ts'])
+    expect(executor.mock.calls[0]![0].projectRoot).toBe(root)
+    expect(snapshots.reverted).toEqual([])
+  })
+
+  it('reverts changes that lower the score and retries with feedback', async () => {
+    const scores = [analysis(70), analysis(50), analysis(90, [])]
+    controller.registerAnalyzer('code', async () => scores.shift()!)
+    const executor = vi.fn(async ({ projectRoot }) => ({
+      success: true,
+      changes: await applyFileChanges(projectRoot, [
+        { path: 'new.ts', operation: 'create' as const, content: 'x' },
+      ]),
+      summary: 'add new.ts',
+    }))
+    controller.registerExecutor('default', executor)
+
+    const session = await controller.startLoop({ task: 'fix' }, { projectRoot: root })
+
+    const [first, second] = session.iterations
+    expect(first).toMatchObject({ status: 'failed', reverted: true, checkpoint: 'h1', score: 50 })
+    expect(first!.error).toContain('Score dropped from 70 to 50')
+    expect(snapshots.reverted).toEqual(['h1'])
+    expect(executor.mock.calls[1]![0].feedback).toContain('Score dropped')
+    expect(second).toMatchObject({ status: 'completed', score: 90 })
+    // 第二次重新创建的文件被保留
+    await expect(fs.readFile(path.join(root, 'new.ts'), 'utf-8')).resolves.toBe('x')
+  })
+
+  it('deletes files created by reverted changes', async () => {
+    const scores = [analysis(70), analysis(40)]
+    controller.registerAnalyzer('code', async () => scores.shift()!)
+    controller.registerExecutor('default', async ({ projectRoot }) => ({
+      success: true,
+      changes: await applyFileChanges(projectRoot, [
+        { path: 'tmp.ts', operation: 'create', content: 'x' },
+      ]),
+    }))
+
+    await controller.startLoop({ task: 'fix' }, { projectRoot: root, maxIterations: 1 })
+
+    await expect(fs.access(path.join(root, 'tmp.ts'))).rejects.toThrow()
+  })
+
+  it('deletes created files when verification fails', async () => {
+    const analyzer = vi
+      .fn()
+      .mockResolvedValueOnce(analysis(70))
+      .mockRejectedValueOnce(new Error('checks crashed'))
+    controller.registerAnalyzer('code', analyzer)
+    controller.registerExecutor('default', async ({ projectRoot }) => ({
+      success: true,
+      changes: await applyFileChanges(projectRoot, [
+        { path: 'tmp.ts', operation: 'create', content: 'x' },
+      ]),
+    }))
+
+    const session = await controller.startLoop(
+      { task: 'fix' },
+      { projectRoot: root, maxIterations: 1 }
+    )
+
+    expect(session.iterations[0]).toMatchObject({
+      status: 'failed',
+      reverted: true,
+      error: 'checks crashed',
+    })
+    expect(snapshots.reverted).toEqual(['h1'])
+    await expect(fs.access(path.join(root, 'tmp.ts'))).rejects.toThrow()
+  })
+
+  it('keeps iterating while issues are fixed even if the score does not move', async () => {
+    const scores = [
+      analysis(0, ['a.ts', 'b.ts', 'c.ts']),
+      analysis(0, ['b.ts', 'c.ts']),
+      analysis(0, ['c.ts']),
+    ]
+    controller.registerAnalyzer('code', async () => scores.shift()!)
+    controller.registerExecutor('default', async ({ projectRoot, iteration }) => ({
+      success: true,
+      changes: await applyFileChanges(projectRoot, [
+        { path: `fix${iteration}.ts`, operation: 'create', content: 'x' },
+      ]),
+    }))
+
+    const session = await controller.startLoop(
+      { task: 'fix' },
+      { projectRoot: root, maxIterations: 2 }
+    )
+
+    expect(session.iterations.map((i) => i.status)).toEqual(['completed', 'completed'])
+  })
+
+  it('stops before the next iteration when cancelled', async () => {
+    controller.registerAnalyzer('code', async () => analysis(50, ['a.ts', 'b.ts']))
+    const session = controller.createSession({ task: 'fix' }, { projectRoot: root })
+    controller.registerExecutor('default', async () => {
+      controller.cancelLoop(session.id)
+      return { success: false, changes: [], error: 'nothing to do' }
+    })
+
+    await controller.runSession(session)
+
+    expect(session.status).toBe('cancelled')
+    expect(session.iterations).toHaveLength(1)
+    await expect(controller.runSession(session)).rejects.toThrow('already started')
+  })
+
+  describe('approvalRequired', () => {
+    const proposal = JSON.stringify({
+      summary: 'fix a.ts',
+      changes: [{ path: 'a.ts', operation: 'create', content: 'fixed' }],
+    })
+
+    it('applies proposed changes only after approval', async () => {
+      const scores = [analysis(50), analysis(100, [])]
+      controller.registerAnalyzer('code', async () => scores.shift()!)
+      controller.registerExecutor(
+        'default',
+        createChangeExecutor(vi.fn().mockResolvedValue(proposal))
+      )
+      controller.on('iteration:approval-required', async (event) => {
+        expect(event.data).toEqual({
+          summary: 'fix a.ts',
+          changes: [{ path: 'a.ts', operation: 'create' }],
+        })
+        expect(controller.getSession(event.sessionId)!.iterations[0]!.status).toBe(
+          'awaiting-approval'
+        )
+        await expect(fs.access(path.join(root, 'a.ts'))).rejects.toThrow()
+        controller.approveChanges(event.sessionId)
+      })
+
+      const session = await controller.startLoop(
+        { task: 'fix' },
+        { projectRoot: root, approvalRequired: true }
+      )
+
+      expect(session.iterations[0]).toMatchObject({
+        status: 'completed',
+        proposal: [{ path: 'a.ts', operation: 'create', content: 'fixed' }],
+      })
+      await expect(fs.readFile(path.join(root, 'a.ts'), 'utf-8')).resolves.toBe('fixed')
+    })
+
+    it('sends the rejection reason to the next attempt', async () => {
+      const scores = [analysis(50), analysis(100, [])]
+      controller.registerAnalyzer('code', async () => scores.shift()!)
+      const chat = vi.fn().mockResolvedValue(proposal)
+      controller.registerExecutor('default', createChangeExecutor(chat))
+      let requests = 0
+      controller.on('iteration:approval-required', (event) => {
+        if (++requests === 1) controller.rejectChanges(event.sessionId, 'keep the old name')
+        else controller.approveChanges(event.sessionId)
+      })
+
+      const session = await controller.startLoop(
+        { task: 'fix' },
+        { projectRoot: root, approvalRequired: true }
+      )
+
+      expect(session.iterations[0]).toMatchObject({
+        status: 'failed',
+        error: 'Changes rejected: keep the old name',
+      })
+      expect(chat.mock.calls[1]![0].prompt).toContain('keep the old name')
+      expect(session.iterations[1]!.status).toBe('completed')
+    })
+
+    it('stops waiting when the session is cancelled', async () => {
+      controller.registerAnalyzer('code', async () => analysis(50))
+      controller.registerExecutor(
+        'default',
+        createChangeExecutor(vi.fn().mockResolvedValue(proposal))
+      )
+      controller.on('iteration:approval-required', (event) =>
+        controller.cancelLoop(event.sessionId)
+      )
+
+      const session = await controller.startLoop(
+        { task: 'fix' },
+        { projectRoot: root, approvalRequired: true }
+      )
+
+      expect(session.status).toBe('cancelled')
+      expect(session.iterations).toHaveLength(1)
+      expect(controller.approveChanges(session.id)).toBe(false)
+      await expect(fs.access(path.join(root, 'a.ts'))).rejects.toThrow()
+    })
+  })
+
+  it('fails the session when the analyzer fails', async () => {
+    controller.registerAnalyzer('code', async () => {
+      throw new Error('no checks')
+    })
+
+    const session = await controller.startLoop({ task: 'fix' }, { projectRoot: root })
+
+    expect(session).toMatchObject({ status: 'failed', error: 'no checks' })
+  })
+
+  it('persists sessions and loads them back', async () => {
+    const scores = [analysis(50), analysis(100, [])]
+    controller.registerAnalyzer('code', async () => scores.shift()!)
+    controller.registerExecutor('default', async ({ projectRoot }) => ({
+      success: true,
+      changes: await applyFileChanges(projectRoot, [
+        { path: 'a.ts', operation: 'create', content: 'ok' },
+      ]),
+    }))
+
+    const session = await controller.startLoop({ task: 'fix' }, { projectRoot: root })
+
+    const fresh = createLoopController({ snapshots, historyDir })
+    const [loaded] = await fresh.getHistory()
+    expect(loaded!.id).toBe(session.id)
+    expect(loaded!.startTime).toBeInstanceOf(Date)
+    expect(loaded!.iterations[0]!.timestamp).toBeInstanceOf(Date)
+    expect(loaded!.iterations[0]!.output?.changes?.[0]).toMatchObject({ path: 'a.ts' })
+    expect(await fresh.loadSession('../etc/passwd')).toBeUndefined()
+  })
+})
+
+describe('createChangeExecutor', () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'wqbot-exec-'))
+    await fs.writeFile(path.join(root, 'a.ts'), 'const x: number = "1"\n')
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('sends issues with file contents and applies the proposed changes', async () => {
+    const chat = vi
+      .fn()
+      .mockResolvedValue(
+        '```json\n{"summary": "fix type", "changes": [{"path": "a.ts", "operation": "modify", "content": "const x: number = 1\\n"}]}\n```'
+      )
+
+    const result = await createChangeExecutor(chat)({
+      input: { task: 'fix types' },
+      issues: analysis(50).issues,
+      analysis: analysis(50),
+      projectRoot: root,
+      iteration: 1,
+    })
+
+    expect(chat.mock.calls[0]![0].prompt).toContain('## File: a.ts\n```\nconst x: number = "1"')
+    expect(result).toMatchObject({ success: true, summary: 'fix type' })
+    expect(result.changes[0]).toMatchObject({
+      path: 'a.ts',
+      operation: 'modify',
+      originalContent: 'const x: number = "1"\n',
+    })
+    await expect(fs.readFile(path.join(root, 'a.ts'), 'utf-8')).resolves.toBe(
+      'const x: number = 1\n'
+    )
+  })
+
+  it('rejects changes outside the project before writing anything', async () => {
+    await expect(
+      applyFileChanges(root, [
+        { path: 'b.ts', operation: 'create', content: 'b' },
+        { path: '../escape.ts', operation: 'create', content: 'x' },
+      ])
+    ).rejects.toThrow('Path outside project')
+    await expect(fs.access(path.join(root, 'b.ts'))).rejects.toThrow()
+  })
+
+  it('rejects changes inside .git and node_modules', async () => {
+    await expect(
+      applyFileChanges(root, [{ path: '.git/hooks/pre-commit', operation: 'create', content: 'x' }])
+    ).rejects.toThrow('Protected path')
+    await expect(
+      applyFileChanges(root, [
+        { path: 'pkg/node_modules/lib/index.js', operation: 'create', content: 'x' },
+      ])
+    ).rejects.toThrow('Protected path')
+    await expect(fs.access(path.join(root, 'pkg'))).rejects.toThrow()
+  })
+
+  it('rejects writes through symlinks that lead outside the project', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'wqbot-outside-'))
+    try {
+      await fs.symlink(outside, path.join(root, 'link'))
+      await fs.symlink(path.join(outside, 'missing.ts'), path.join(root, 'dangling.ts'))
+
+      await expect(
+        applyFileChanges(root, [{ path: 'link/sub/evil.ts', operation: 'create', content: 'x' }])
+      ).rejects.toThrow('Path outside project')
+      await expect(
+        applyFileChanges(root, [{ path: 'dangling.ts', operation: 'modify', content: 'x' }])
+      ).rejects.toThrow('Path outside project')
+      await expect(fs.readdir(outside)).resolves.toEqual([])
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true })
+    }
+  })
+
+  it('follows symlinks that stay inside the project', async () => {
+    await fs.mkdir(path.join(root, 'src'))
+    await fs.symlink(path.join(root, 'src'), path.join(root, 'alias'))
+
+    await applyFileChanges(root, [{ path: 'alias/b.ts', operation: 'create', content: 'b' }])
+
+    await expect(fs.readFile(path.join(root, 'src', 'b.ts'), 'utf-8')).resolves.toBe('b')
+  })
+
+  it('undoes earlier changes when a later write fails', async () => {
+    await expect(
+      applyFileChanges(root, [
+        { path: 'b.ts', operation: 'create', content: 'b' },
+        { path: 'a.ts', operation: 'modify', content: 'changed' },
+        { path: 'a.ts/c.ts', operation: 'create', content: 'c' },
+      ])
+    ).rejects.toThrow()
+    await expect(fs.access(path.join(root, 'b.ts'))).rejects.toThrow()
+    await expect(fs.readFile(path.join(root, 'a.ts'), 'utf-8')).resolves.toBe(
+      'const x: number = "1"\n'
+    )
+  })
+
+  it('reports unparseable proposals without changing files', async () => {
+    const chat = vi.fn().mockResolvedValue('I cannot help with that')
+
+    const result = await createChangeExecutor(chat)({
+      input: { task: 'fix' },
+      issues: [],
+      analysis: analysis(50, []),
+      projectRoot: root,
+      iteration: 1,
+    })
+
+    expect(result).toMatchObject({ success: false, changes: [] })
+    expect(result.error).toContain('Invalid change proposal')
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import {
+  countTokens,
+  countTokensWithEncoding,
+  getTokenEncoding,
+  estimateTokensHeuristic,
+  DEFAULT_TOKEN_ENCODING,
+} from '../src/tokenizer.js'
+
+describe('getTokenEncoding', () => {
+  it('maps OpenAI models to their encodings', () => {
+    expect(getTokenEncoding('gpt-4o-mini')).toBe('o200k_base')
+    expect(getTokenEncoding('o3-mini')).toBe('o200k_base')
+    expect(getTokenEncoding('gpt-4-turbo')).toBe('cl100k_base')
+    expect(getTokenEncoding('gpt-3.5-turbo')).toBe('cl100k_base')
+  })
+
+  it('maps Claude models to cl100k_base', () => {
+    expect(getTokenEncoding('claude-sonnet-4-20250514')).toBe('cl100k_base')
+  })
+
+  it('strips provider prefixes', () => {
+    expect(getTokenEncoding('openrouter/gpt-4o')).toBe('o200k_base')
+  })
+
+  it('falls back to the heuristic for unknown models', () => {
+    expect(getTokenEncoding('llama3:8b')).toBe('heuristic')
+    expect(getTokenEncoding('deepseek-chat')).toBe('heuristic')
+  })
+
+  it('uses the default encoding when no model is given', () => {
+    expect(getTokenEncoding()).toBe(DEFAULT_TOKEN_ENCODING)
+  })
+})
+
+describe('countTokens', () => {
+  it('counts with real BPE encodings', () => {
+    expect(countTokensWithEncoding('hello world', 'cl100k_base')).toBe(2)
+    expect(countTokensWithEncoding('hello world', 'o200k_base')).toBe(2)
+    expect(countTokens('hello world', 'gpt-4o')).toBe(2)
+  })
+
+  it('counts punctuation-heavy code by BPE rather than character length', () => {
+    const code = 'const x = {a: 1, b: [2, 3]};\n'.repeat(20)
+    const real = countTokens(code, 'gpt-4')
+    expect(real).not.toBe(estimateTokensHeuristic(code))
+    expect(real).toBeGreaterThan(200)
+  })
+
+  it('treats special token literals as plain text', () => {
+    expect(() => countTokens('<|endoftext|>', 'gpt-4')).not.toThrow()
+  })
+
+  it('uses the heuristic for unknown models', () => {
+    expect(countTokens('你好世界', 'llama3')).toBe(estimateTokensHeuristic('你好世界'))
+  })
+
+  it('returns 0 for empty text', () => {
+    expect(countTokens('', 'gpt-4o')).toBe(0)
+  })
+})
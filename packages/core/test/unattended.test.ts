@@ -0,0 +1,362 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// Mock the logger module
+vi.mock('../src/logger', () => ({
+  createModuleLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}))
+
+import {
+  createScheduler,
+  type SchedulerStore,
+  type TaskExecution,
+  type TaskState,
+} from '../src/unattended/task-scheduler.js'
+import { initUnattendedMode, resolveTaskHandler } from '../src/unattended/module.js'
+import { CronParseError } from '../src/unattended/cron.js'
+
+function memoryStore(): SchedulerStore & {
+  states: Map<string, TaskState>
+  executions: TaskExecution[]
+} {
+  const states = new Map<string, TaskState>()
+  const executions: TaskExecution[] = []
+  return {
+    states,
+    executions,
+    loadState: (taskId) => states.get(taskId),
+    saveState: (state) => {
+      states.set(state.taskId, { ...state })
+    },
+    recordExecution: (execution) => {
+      executions.push(execution)
+    },
+    getExecutions: (taskId, limit) =>
+      executions
+        .filter((e) => e.taskId === taskId)
+        .reverse()
+        .slice(0, limit),
+  }
+}
+
+describe('TaskScheduler persistence', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T10:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('restores state and records executions in the store', async () => {
+    const store = memoryStore()
+    store.states.set('backup', { taskId: 'backup', enabled: true, runCount: 4 })
+    const scheduler = createScheduler({ store })
+    scheduler.register({
+      name: 'Backup',
+      enabled: true,
+      handler: async () => ({ success: true, output: { file: 'a.db' } }),
+      config: {},
+    })
+
+    const execution = await scheduler.runTask('backup')
+
+    expect(execution.status).toBe('completed')
+    expect(execution.result?.output).toEqual({ file: 'a.db' })
+    expect(store.states.get('backup')).toMatchObject({ runCount: 5, lastRun: new Date() })
+    expect(scheduler.getExecutionHistory('backup')).toEqual([execution])
+  })
+
+  it('marks executions failed when the handler reports failure', async () => {
+    const scheduler = createScheduler()
+    scheduler.register({
+      name: 'Sync',
+      enabled: true,
+      handler: async () => ({ success: false, error: 'not a git repository' }),
+      config: {},
+    })
+
+    const execution = await scheduler.runTask('sync')
+
+    expect(execution.status).toBe('failed')
+    expect(execution.result?.error).toBe('not a git repository')
+  })
+
+  it('catches up on an interval run missed while stopped', async () => {
+    const store = memoryStore()
+    store.states.set('index', {
+      taskId: 'index',
+      enabled: true,
+      runCount: 1,
+      nextRun: new Date('2024-01-01T09:00:00Z'),
+    })
+    const handler = vi.fn(async () => ({ success: true }))
+    const scheduler = createScheduler({ store })
+    scheduler.register({ name: 'Index', interval: 3600000, enabled: true, handler, config: {} })
+
+    scheduler.start()
+    await vi.advanceTimersByTimeAsync(0)
+    scheduler.stop()
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(store.states.get('index')!.nextRun).toEqual(new Date('2024-01-01T11:00:00Z'))
+  })
+
+  it('resumes a pending interval run instead of restarting the interval', async () => {
+    const store = memoryStore()
+    store.states.set('index', {
+      taskId: 'index',
+      enabled: true,
+      runCount: 1,
+      nextRun: new Date('2024-01-01T10:10:00Z'),
+    })
+    const handler = vi.fn(async () => ({ success: true }))
+    const scheduler = createScheduler({ store })
+    scheduler.register({ name: 'Index', interval: 3600000, enabled: true, handler, config: {} })
+
+    scheduler.start()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(handler).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(10 * 60000)
+    scheduler.stop()
+
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('catches up on a missed cron run and schedules the next one', async () => {
+    const store = memoryStore()
+    store.states.set('nightly', {
+      taskId: 'nightly',
+      enabled: true,
+      runCount: 0,
+      nextRun: new Date(2024, 0, 1, 2, 0),
+    })
+    const handler = vi.fn(async () => ({ success: true }))
+    const scheduler = createScheduler({ store })
+    scheduler.register({ name: 'Nightly', cron: '0 2 * * *', enabled: true, handler, config: {} })
+
+    scheduler.start()
+    await vi.advanceTimersByTimeAsync(0)
+    scheduler.stop()
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(scheduler.getTask('nightly')!.nextRun).toEqual(new Date(2024, 0, 2, 2, 0))
+  })
+
+  it('keeps a task disabled across restarts', () => {
+    const store = memoryStore()
+    const first = createScheduler({ store })
+    first.register({
+      name: 'Cleanup',
+      enabled: true,
+      handler: async () => ({ success: true }),
+      config: {},
+    })
+    first.setTaskEnabled('cleanup', false)
+
+    const second = createScheduler({ store })
+    second.register({
+      name: 'Cleanup',
+      enabled: true,
+      handler: async () => ({ success: true }),
+      config: {},
+    })
+
+    expect(second.getTask('cleanup')!.enabled).toBe(false)
+  })
+})
+
+describe('TaskScheduler retries', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('records the execution as completed when a retry succeeds', async () => {
+    const handler = vi
+      .fn()
+      .mockResolvedValueOnce({ success: false, error: 'busy' })
+      .mockResolvedValueOnce({ success: true, output: 'done' })
+    const scheduler = createScheduler()
+    scheduler.register({
+      name: 'Flaky',
+      enabled: true,
+      handler,
+      config: { retryCount: 2, retryDelay: 10 },
+    })
+
+    const running = scheduler.runTask('flaky')
+    await vi.advanceTimersByTimeAsync(10)
+    const execution = await running
+
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(execution.status).toBe('completed')
+    expect(execution.result?.output).toBe('done')
+  })
+
+  it('applies the timeout to retries and fails with the last error', async () => {
+    const handler = vi
+      .fn()
+      .mockResolvedValueOnce({ success: false, error: 'busy' })
+      .mockReturnValueOnce(new Promise(() => {}))
+    const scheduler = createScheduler()
+    scheduler.register({
+      name: 'Hangs',
+      enabled: true,
+      handler,
+      config: { timeout: 100, retryCount: 1, retryDelay: 10 },
+    })
+
+    const running = scheduler.runTask('hangs')
+    await vi.advanceTimersByTimeAsync(110)
+    const execution = await running
+
+    expect(execution.status).toBe('failed')
+    expect(execution.result?.error).toBe('Task timed out after 100ms')
+  })
+})
+
+describe('TaskScheduler cron schedules', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2024-01-01T10:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('rejects invalid schedules at register time', () => {
+    const scheduler = createScheduler()
+    const task = { enabled: true, handler: async () => ({ success: true }), config: {} }
+
+    expect(() => scheduler.register({ ...task, name: 'A', cron: '61 * * * *' })).toThrow(
+      CronParseError
+    )
+    expect(() =>
+      scheduler.register({ ...task, name: 'B', cron: '0 9 * * *', timezone: 'Nowhere/City' })
+    ).toThrow('unknown timezone')
+    expect(() => scheduler.register({ ...task, name: 'C', interval: 0 })).toThrow('interval')
+    expect(scheduler.getAllTasks()).toEqual([])
+  })
+
+  it('fires exactly at the next cron time', async () => {
+    const handler = vi.fn(async () => ({ success: true }))
+    const scheduler = createScheduler()
+    scheduler.register({
+      name: 'Report',
+      cron: '30 18 * * *',
+      timezone: 'Asia/Shanghai',
+      enabled: true,
+      handler,
+      config: {},
+    })
+
+    scheduler.start()
+    await vi.advanceTimersByTimeAsync(30 * 60000 - 1)
+    expect(handler).not.toHaveBeenCalled()
+    await vi.advanceTimersByTimeAsync(1)
+    scheduler.stop()
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(scheduler.getTask('report')!.nextRun).toEqual(new Date('2024-01-02T10:30:00Z'))
+  })
+
+  it('lists upcoming runs', () => {
+    const scheduler = createScheduler()
+    const handler = async () => ({ success: true })
+    scheduler.register({ name: 'Hourly', cron: '@hourly', enabled: true, handler, config: {} })
+    scheduler.register({ name: 'Off', cron: '@daily', enabled: false, handler, config: {} })
+
+    expect(scheduler.getNextRuns('hourly', 2)).toEqual([
+      new Date('2024-01-01T11:00:00Z'),
+      new Date('2024-01-01T12:00:00Z'),
+    ])
+    expect(scheduler.getNextRuns('off')).toEqual([])
+  })
+})
+
+describe('resolveTaskHandler', () => {
+  it('resolves built-in, skill and agent references', async () => {
+    const backup = vi.fn(async () => ({ success: true }))
+    const runSkill = vi.fn(async () => ({ success: true, output: 'skill' }))
+    const runAgent = vi.fn(async () => ({ success: true, output: 'agent' }))
+    const options = { handlers: { backup }, runSkill, runAgent }
+    const context = { taskId: 't', taskName: 'T' }
+
+    await resolveTaskHandler('backup', options)(context)
+    await resolveTaskHandler('skill:changelog', options)(context)
+    await resolveTaskHandler('agent:review', options)(context)
+
+    expect(backup).toHaveBeenCalledWith(context)
+    expect(runSkill).toHaveBeenCalledWith('changelog', context)
+    expect(runAgent).toHaveBeenCalledWith('review', context)
+  })
+
+  it('rejects unknown references', () => {
+    expect(() => resolveTaskHandler('cleanup', { handlers: {} })).toThrow('Unknown task handler')
+    expect(() => resolveTaskHandler('skill:x')).toThrow('Unknown task handler')
+    expect(() => resolveTaskHandler('toString')).toThrow('Unknown task handler')
+  })
+})
+
+describe('initUnattendedMode', () => {
+  it('registers implemented built-in tasks when none are configured', async () => {
+    const handlers = {
+      backup: vi.fn(async () => ({ success: true })),
+      cleanup: vi.fn(async () => ({ success: true })),
+    }
+
+    const mode = await initUnattendedMode(
+      { enabled: true, mode: 'daemon', scheduler: { enabled: true } },
+      { handlers }
+    )
+    mode!.scheduler.stop()
+
+    expect(mode!.scheduler.getAllTasks().map((t) => [t.id, t.cron])).toEqual([
+      ['backup', '0 4 * * *'],
+      ['cleanup', '0 3 * * 0'],
+    ])
+  })
+
+  it('passes configured args to the handler', async () => {
+    const runAgent = vi.fn(async () => ({ success: true }))
+
+    const mode = await initUnattendedMode(
+      {
+        enabled: true,
+        mode: 'daemon',
+        scheduler: {
+          enabled: true,
+          tasks: [{ name: 'Daily Review', handler: 'agent:review', args: { task: 'review' } }],
+        },
+      },
+      { runAgent }
+    )
+    mode!.scheduler.stop()
+    await mode!.scheduler.runTask('daily-review', { extra: 1 })
+
+    expect(runAgent).toHaveBeenCalledWith(
+      'review',
+      expect.objectContaining({ args: { task: 'review', extra: 1 } })
+    )
+  })
+
+  it('fails on tasks with unknown handlers', async () => {
+    await expect(
+      initUnattendedMode({
+        enabled: true,
+        mode: 'daemon',
+        scheduler: { enabled: true, tasks: [{ name: 'X', handler: 'mystery' }] },
+      })
+    ).rejects.toThrow('Unknown task handler: mystery')
+  })
+})
@@ -30,11 +30,17 @@ const App: React.FC = () => {
     messages,
     isLoading,
     streamingContent,
+    streamingTools,
     loadConversations,
     selectConversation,
     createConversation,
     deleteConversation,
-    sendMessage
+    sendMessage,
+    branches,
+    editMessage,
+    regenerate,
+    switchBranch,
+    switchSibling
   } = useChatStore()
 
   const { configs, loadConfigs, toggleConfig } = useConfigStore()
@@ -264,8 +270,14 @@ const App: React.FC = () => {
         <ChatArea
           messages={messages}
           streamingContent={streamingContent}
+          streamingTools={streamingTools}
           isLoading={isLoading}
+          branches={branches}
           onSend={sendMessage}
+          onEdit={editMessage}
+          onRegenerate={regenerate}
+          onSwitchSibling={switchSibling}
+          onSwitchBranch={switchBranch}
         />
 
         {/* 任务进度 */}
@@ -1,6 +1,7 @@
 // API 客户端
 
 const DEFAULT_BASE_URL = 'http://127.0.0.1:3721'
+const API_KEY_STORAGE_KEY = 'wqbot.apiKey'
 
 export interface ApiResponse<T = unknown> {
   success: boolean
@@ -13,11 +14,64 @@ export interface ApiResponse<T = unknown> {
   }
 }
 
+// 多模态内容分段（附件以 base64 data 上传，服务端落盘后以 blobId 引用）
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data?: string; url?: string; blobId?: string }
+  | {
+      type: 'file'
+      mimeType: string
+      filename?: string
+      data?: string
+      url?: string
+      blobId?: string
+    }
+
 export interface Message {
   id: string
   role: 'user' | 'assistant' | 'system'
   content: string
+  parts?: ContentPart[]
   timestamp: string
+  parentId?: string
+  // 同一父消息下的所有版本（含自身），编辑/重新生成后出现
+  siblingIds?: string[]
+  isSummary?: boolean
+  metadata?: {
+    toolCalls?: ToolActivity[]
+    usage?: TokenUsage
+  }
+}
+
+// 工具调用活动（来自 SSE tool-call / tool-result 事件）
+export interface ToolActivity {
+  toolCallId: string
+  toolName: string
+  args: unknown
+  result?: unknown
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface ChatCompleteEvent {
+  conversationId: string
+  messageId?: string
+  parentId?: string
+  branchId?: string
+  response: string
+  model?: string
+  provider?: string
+  finishReason?: string
+  usage?: TokenUsage
+}
+
+export interface StreamEvent {
+  event: 'tool-call' | 'tool-result' | 'step-finish' | 'usage'
+  data: unknown
 }
 
 export interface Conversation {
@@ -25,9 +79,20 @@ export interface Conversation {
   title: string
   createdAt: string
   updatedAt: string
+  activeBranchId?: string
   messages: Message[]
 }
 
+export interface ConversationBranch {
+  id: string
+  conversationId: string
+  name: string
+  headMessageId: string | null
+  createdAt: string
+  updatedAt: string
+  isActive: boolean
+}
+
 export interface ConfigItem {
   name: string
   type: 'rules' | 'skills' | 'agents'
@@ -49,15 +114,35 @@ export interface ParallelTask {
 
 class ApiClient {
   private baseUrl: string
+  // 后端启用认证时使用的 Bearer 令牌（保存在本地）
+  private apiKey: string | null
 
   constructor(baseUrl: string = DEFAULT_BASE_URL) {
     this.baseUrl = baseUrl
+    this.apiKey = localStorage.getItem(API_KEY_STORAGE_KEY)
   }
 
   setBaseUrl(url: string): void {
     this.baseUrl = url
   }
 
+  getApiKey(): string {
+    return this.apiKey ?? ''
+  }
+
+  setApiKey(apiKey: string): void {
+    this.apiKey = apiKey || null
+    if (apiKey) {
+      localStorage.setItem(API_KEY_STORAGE_KEY, apiKey)
+    } else {
+      localStorage.removeItem(API_KEY_STORAGE_KEY)
+    }
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}
+  }
+
   private async request<T>(
     path: string,
     options: RequestInit = {}
@@ -68,6 +153,7 @@ class ApiClient {
       ...options,
       headers: {
         'Content-Type': 'application/json',
+        ...this.authHeaders(),
         ...options.headers
       }
     })
@@ -75,6 +161,17 @@ class ApiClient {
     return response.json() as Promise<ApiResponse<T>>
   }
 
+  // 附件地址（已落盘的分段通过 blobId 读取，未上传的直接使用 data URL）
+  getPartUrl(part: Exclude<ContentPart, { type: 'text' }>): string {
+    if (part.data) return `data:${part.mimeType};base64,${part.data}`
+    if (part.blobId) {
+      // <img> 无法携带请求头，令牌通过 access_token 参数传递
+      const token = this.apiKey ? `&access_token=${encodeURIComponent(this.apiKey)}` : ''
+      return `${this.baseUrl}/api/chat/blobs/${part.blobId}?mimeType=${encodeURIComponent(part.mimeType)}${token}`
+    }
+    return part.url ?? ''
+  }
+
   // 健康检查
   async health(): Promise<ApiResponse<{ status: string }>> {
     return this.request('/api/health')
@@ -86,19 +183,86 @@ class ApiClient {
     conversationId?: string,
     model?: string,
     onChunk?: (chunk: string) => void,
-    onComplete?: (response: { conversationId: string; response: string }) => void,
-    onError?: (error: string) => void
+    onComplete?: (response: ChatCompleteEvent) => void,
+    onError?: (error: string) => void,
+    onEvent?: (event: StreamEvent) => void,
+    parts?: ContentPart[]
+  ): Promise<AbortController> {
+    return this.openStream(
+      '/api/chat/send',
+      { message, conversationId, model, parts },
+      onChunk,
+      onComplete,
+      onError,
+      onEvent
+    )
+  }
+
+  // 编辑用户消息 - 在新分支上重新生成（流式）
+  async editMessageStream(
+    conversationId: string,
+    messageId: string,
+    message: string,
+    onChunk?: (chunk: string) => void,
+    onComplete?: (response: ChatCompleteEvent) => void,
+    onError?: (error: string) => void,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<AbortController> {
+    return this.openStream(
+      `/api/chat/conversations/${conversationId}/messages/${messageId}/edit`,
+      { message },
+      onChunk,
+      onComplete,
+      onError,
+      onEvent
+    )
+  }
+
+  // 重新生成助手回复（流式）
+  async regenerateStream(
+    conversationId: string,
+    messageId: string,
+    onChunk?: (chunk: string) => void,
+    onComplete?: (response: ChatCompleteEvent) => void,
+    onError?: (error: string) => void,
+    onEvent?: (event: StreamEvent) => void
+  ): Promise<AbortController> {
+    return this.openStream(
+      `/api/chat/conversations/${conversationId}/messages/${messageId}/regenerate`,
+      {},
+      onChunk,
+      onComplete,
+      onError,
+      onEvent
+    )
+  }
+
+  // 发起 SSE 请求并分发事件
+  private async openStream(
+    path: string,
+    body: unknown,
+    onChunk?: (chunk: string) => void,
+    onComplete?: (response: ChatCompleteEvent) => void,
+    onError?: (error: string) => void,
+    onEvent?: (event: StreamEvent) => void
   ): Promise<AbortController> {
     const controller = new AbortController()
 
     try {
-      const response = await fetch(`${this.baseUrl}/api/chat/send`, {
+      const response = await fetch(`${this.baseUrl}${path}`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message, conversationId, model }),
+        headers: { 'Content-Type': 'application/json', ...this.authHeaders() },
+        body: JSON.stringify(body),
         signal: controller.signal
       })
 
+      // 请求校验失败（如模型不支持图片）时返回 JSON 错误而非事件流
+      if (!response.ok) {
+        const result = (await response.json().catch(() => null)) as ApiResponse | null
+        onError?.(result?.error ?? `请求失败: ${response.status}`)
+        return controller
+      }
+
       const reader = response.body?.getReader()
       if (!reader) {
         onError?.('无法获取响应流')
@@ -135,6 +299,12 @@ class ApiClient {
                     case 'error':
                       onError?.(data.message)
                       break
+                    case 'tool-call':
+                    case 'tool-result':
+                    case 'step-finish':
+                    case 'usage':
+                      onEvent?.({ event: eventType, data })
+                      break
                   }
                 } catch {
                   // 忽略解析错误
@@ -180,6 +350,33 @@ class ApiClient {
     return this.request(`/api/chat/conversations/${id}`, { method: 'DELETE' })
   }
 
+  // 分支列表
+  async listBranches(conversationId: string): Promise<ApiResponse<ConversationBranch[]>> {
+    return this.request(`/api/chat/conversations/${conversationId}/branches`)
+  }
+
+  // 切换分支（名称或 ID）
+  async switchBranch(
+    conversationId: string,
+    branch: string
+  ): Promise<ApiResponse<ConversationBranch>> {
+    return this.request(
+      `/api/chat/conversations/${conversationId}/branches/${encodeURIComponent(branch)}/switch`,
+      { method: 'POST' }
+    )
+  }
+
+  // 切换到包含指定消息的分支（兄弟版本切换）
+  async switchToMessage(
+    conversationId: string,
+    messageId: string
+  ): Promise<ApiResponse<ConversationBranch>> {
+    return this.request(
+      `/api/chat/conversations/${conversationId}/messages/${messageId}/switch`,
+      { method: 'POST' }
+    )
+  }
+
   // 配置列表
   async listConfigs(): Promise<ApiResponse<ConfigItem[]>> {
     return this.request('/api/config')
@@ -1,28 +1,152 @@
 import React, { useState, useRef, useEffect } from 'react'
-import type { Message } from '../api'
+import api, {
+  type ContentPart,
+  type ConversationBranch,
+  type Message,
+  type ToolActivity
+} from '../api'
 import './ChatArea.css'
 
 interface ChatAreaProps {
   messages: Message[]
   streamingContent: string
+  streamingTools: ToolActivity[]
   isLoading: boolean
-  onSend: (content: string) => void
+  branches: ConversationBranch[]
+  onSend: (content: string, parts?: ContentPart[]) => void
+  onEdit: (messageId: string, content: string) => void
+  onRegenerate: (messageId: string) => void
+  onSwitchSibling: (messageId: string, offset: -1 | 1) => void
+  onSwitchBranch: (branch: string) => void
+}
+
+type Attachment = Exclude<ContentPart, { type: 'text' }>
+
+// 读取本地文件为 base64 分段
+const readAttachment = (file: File): Promise<Attachment> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const data = String(reader.result).split(',')[1] ?? ''
+      const mimeType = file.type || 'application/octet-stream'
+      resolve(
+        mimeType.startsWith('image/')
+          ? { type: 'image', mimeType, data }
+          : { type: 'file', mimeType, filename: file.name, data }
+      )
+    }
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+
+// 消息附件：图片显示缩略图，其他文件显示文件名
+const AttachmentList: React.FC<{ parts: ContentPart[]; onRemove?: (index: number) => void }> = ({
+  parts,
+  onRemove
+}) => {
+  const attachments = parts.filter((p): p is Attachment => p.type !== 'text')
+  if (attachments.length === 0) return null
+
+  return (
+    <div className="message-attachments">
+      {attachments.map((part, index) => (
+        <div key={index} className="attachment">
+          {part.type === 'image' ? (
+            <img src={api.getPartUrl(part)} alt="" className="attachment-image" />
+          ) : (
+            <a href={api.getPartUrl(part)} download={part.filename} className="attachment-file">
+              📎 {part.filename ?? part.mimeType}
+            </a>
+          )}
+          {onRemove && (
+            <button className="attachment-remove" onClick={() => onRemove(index)}>
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+const formatToolValue = (value: unknown): string =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2) ?? ''
+
+// 工具调用列表：调用中显示参数，完成后可展开查看结果
+const ToolActivityList: React.FC<{ tools: ToolActivity[] }> = ({ tools }) => {
+  if (tools.length === 0) return null
+
+  return (
+    <div className="tool-activity">
+      {tools.map((tool) => (
+        <details key={tool.toolCallId} className="tool-call">
+          <summary>
+            <span className={`tool-status ${tool.result !== undefined ? 'done' : 'running'}`}>
+              {tool.result !== undefined ? '✓' : '⚙'}
+            </span>
+            <span className="tool-name">{tool.toolName}</span>
+          </summary>
+          <pre className="tool-args">{formatToolValue(tool.args)}</pre>
+          {tool.result !== undefined && (
+            <pre className="tool-result">{formatToolValue(tool.result)}</pre>
+          )}
+        </details>
+      ))}
+    </div>
+  )
+}
+
+// 版本切换：‹ 2/3 ›
+const SiblingNav: React.FC<{
+  message: Message
+  disabled: boolean
+  onSwitch: (offset: -1 | 1) => void
+}> = ({ message, disabled, onSwitch }) => {
+  const siblingIds = message.siblingIds ?? []
+  if (siblingIds.length < 2) return null
+  const index = siblingIds.indexOf(message.id)
+
+  return (
+    <span className="sibling-nav">
+      <button disabled={disabled || index <= 0} onClick={() => onSwitch(-1)} title="上一个版本">
+        ‹
+      </button>
+      {index + 1}/{siblingIds.length}
+      <button
+        disabled={disabled || index >= siblingIds.length - 1}
+        onClick={() => onSwitch(1)}
+        title="下一个版本"
+      >
+        ›
+      </button>
+    </span>
+  )
 }
 
 const ChatArea: React.FC<ChatAreaProps> = ({
   messages,
   streamingContent,
+  streamingTools,
   isLoading,
-  onSend
+  branches,
+  onSend,
+  onEdit,
+  onRegenerate,
+  onSwitchSibling,
+  onSwitchBranch
 }) => {
   const [input, setInput] = useState('')
+  // 正在编辑的用户消息
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null)
+  const [attachments, setAttachments] = useState<Attachment[]>([])
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
 
   // 自动滚动到底部
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages, streamingContent])
+  }, [messages, streamingContent, streamingTools])
 
   // 自动调整输入框高度
   useEffect(() => {
@@ -33,9 +157,24 @@ const ChatArea: React.FC<ChatAreaProps> = ({
   }, [input])
 
   const handleSubmit = () => {
-    if (input.trim() && !isLoading) {
-      onSend(input.trim())
+    if ((input.trim() || attachments.length > 0) && !isLoading) {
+      onSend(input.trim(), attachments.length > 0 ? attachments : undefined)
       setInput('')
+      setAttachments([])
+    }
+  }
+
+  const addFiles = async (files: File[]) => {
+    const added = await Promise.all(files.map(readAttachment))
+    setAttachments((prev) => [...prev, ...added])
+  }
+
+  // 粘贴截图等图片
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length > 0) {
+      e.preventDefault()
+      void addFiles(files)
     }
   }
 
@@ -46,6 +185,13 @@ const ChatArea: React.FC<ChatAreaProps> = ({
     }
   }
 
+  const submitEdit = () => {
+    if (editing && editing.text.trim() && !isLoading) {
+      onEdit(editing.id, editing.text.trim())
+      setEditing(null)
+    }
+  }
+
   const formatTime = (timestamp: string) => {
     return new Date(timestamp).toLocaleTimeString('zh-CN', {
       hour: '2-digit',
@@ -57,10 +203,25 @@ const ChatArea: React.FC<ChatAreaProps> = ({
     <div className="chat-area">
       <div className="chat-header">
         <span className="chat-title">对话</span>
+        {branches.length > 1 && (
+          <select
+            className="branch-select"
+            value={branches.find((b) => b.isActive)?.id ?? ''}
+            onChange={(e) => onSwitchBranch(e.target.value)}
+            disabled={isLoading}
+            title="切换分支"
+          >
+            {branches.map((branch) => (
+              <option key={branch.id} value={branch.id}>
+                {branch.name}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       <div className="chat-messages">
-        {messages.length === 0 && !streamingContent && (
+        {messages.length === 0 && !streamingContent && streamingTools.length === 0 && (
           <div className="empty-chat">
             <div className="empty-chat-icon">💬</div>
             <div className="empty-chat-text">开始新对话</div>
@@ -74,21 +235,77 @@ const ChatArea: React.FC<ChatAreaProps> = ({
                 {msg.role === 'user' ? '你' : 'AI'}
               </span>
               <span className="message-time">{formatTime(msg.timestamp)}</span>
+              {msg.metadata?.usage && (
+                <span className="message-usage">{msg.metadata.usage.totalTokens} tokens</span>
+              )}
+              <SiblingNav
+                message={msg}
+                disabled={isLoading}
+                onSwitch={(offset) => onSwitchSibling(msg.id, offset)}
+              />
+              <span className="message-actions">
+                {msg.role === 'user' && (
+                  <button
+                    disabled={isLoading}
+                    onClick={() => setEditing({ id: msg.id, text: msg.content })}
+                  >
+                    编辑
+                  </button>
+                )}
+                {msg.role === 'assistant' && (
+                  <button disabled={isLoading} onClick={() => onRegenerate(msg.id)}>
+                    重新生成
+                  </button>
+                )}
+              </span>
             </div>
-            <div className="message-content">{msg.content}</div>
+            <ToolActivityList tools={msg.metadata?.toolCalls ?? []} />
+            {msg.parts && <AttachmentList parts={msg.parts} />}
+            {editing?.id === msg.id ? (
+              <div className="message-edit">
+                <textarea
+                  className="input"
+                  value={editing.text}
+                  onChange={(e) => setEditing({ id: msg.id, text: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault()
+                      submitEdit()
+                    } else if (e.key === 'Escape') {
+                      setEditing(null)
+                    }
+                  }}
+                />
+                <div className="message-edit-actions">
+                  <button className="btn" onClick={() => setEditing(null)}>
+                    取消
+                  </button>
+                  <button
+                    className="btn btn-primary"
+                    onClick={submitEdit}
+                    disabled={!editing.text.trim() || isLoading}
+                  >
+                    保存并重新生成
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="message-content">{msg.content}</div>
+            )}
           </div>
         ))}
 
-        {streamingContent && (
+        {(streamingContent || streamingTools.length > 0) && (
           <div className="message assistant streaming">
             <div className="message-header">
               <span className="message-role assistant">AI</span>
             </div>
-            <div className="message-content">{streamingContent}</div>
+            <ToolActivityList tools={streamingTools} />
+            {streamingContent && <div className="message-content">{streamingContent}</div>}
           </div>
         )}
 
-        {isLoading && !streamingContent && (
+        {isLoading && !streamingContent && streamingTools.length === 0 && (
           <div className="loading-indicator">
             <div className="loading-dots">
               <div className="loading-dot"></div>
@@ -103,7 +320,29 @@ const ChatArea: React.FC<ChatAreaProps> = ({
       </div>
 
       <div className="chat-input-area">
+        <AttachmentList
+          parts={attachments}
+          onRemove={(index) => setAttachments((prev) => prev.filter((_, i) => i !== index))}
+        />
         <div className="input-container">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            hidden
+            onChange={(e) => {
+              void addFiles(Array.from(e.target.files ?? []))
+              e.target.value = ''
+            }}
+          />
+          <button
+            className="btn attach-btn"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            title="添加图片或文件"
+          >
+            📎
+          </button>
           <div className="input-wrapper">
             <textarea
               ref={textareaRef}
@@ -111,6 +350,7 @@ const ChatArea: React.FC<ChatAreaProps> = ({
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
               placeholder="输入消息... (Enter 发送, Shift+Enter 换行)"
               disabled={isLoading}
               rows={1}
@@ -119,7 +359,7 @@ const ChatArea: React.FC<ChatAreaProps> = ({
           <button
             className="btn btn-primary send-btn"
             onClick={handleSubmit}
-            disabled={!input.trim() || isLoading}
+            disabled={(!input.trim() && attachments.length === 0) || isLoading}
           >
             发送
           </button>
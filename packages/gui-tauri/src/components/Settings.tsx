@@ -66,6 +66,7 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
   const [defaultProvider, setDefaultProvider] = useState('openai')
   const [defaultModel, setDefaultModel] = useState('gpt-4o')
   const [ollamaHost, setOllamaHost] = useState('http://localhost:11434')
+  const [backendToken, setBackendToken] = useState(() => api.getApiKey())
   const [saving, setSaving] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
@@ -120,6 +121,7 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
         }
       }
 
+      api.setApiKey(backendToken.trim())
       await api.updateSettings(settings)
       setMessage({ type: 'success', text: '设置已保存' })
 
@@ -277,6 +279,17 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
                 <p className="hint">保留最近的消息数量</p>
               </div>
 
+              <div className="setting-group">
+                <label>后端访问令牌</label>
+                <input
+                  type="password"
+                  placeholder="wqb_..."
+                  value={backendToken}
+                  onChange={(e) => setBackendToken(e.target.value)}
+                />
+                <p className="hint">后端启用认证时填写（wqbot /auth create 生成）</p>
+              </div>
+
               <hr />
 
               {/* 软件更新 */}
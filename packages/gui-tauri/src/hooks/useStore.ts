@@ -1,28 +1,92 @@
-import { create } from 'zustand'
-import api, { type Conversation, type Message, type ConfigItem, type ParallelTask } from '../api'
+import { create, type StoreApi } from 'zustand'
+import api, {
+  type ChatCompleteEvent,
+  type Conversation,
+  type ConversationBranch,
+  type Message,
+  type StreamEvent,
+  type ConfigItem,
+  type ParallelTask,
+  type ToolActivity,
+  type ContentPart
+} from '../api'
 
 interface ChatState {
   conversations: Conversation[]
   currentConversationId: string | null
   messages: Message[]
+  branches: ConversationBranch[]
   isLoading: boolean
   streamingContent: string
+  streamingTools: ToolActivity[]
   error: string | null
 
   loadConversations: () => Promise<void>
   selectConversation: (id: string) => Promise<void>
   createConversation: (title?: string) => Promise<void>
   deleteConversation: (id: string) => Promise<void>
-  sendMessage: (content: string) => Promise<void>
+  sendMessage: (content: string, parts?: ContentPart[]) => Promise<void>
+  editMessage: (messageId: string, content: string) => Promise<void>
+  regenerate: (messageId: string) => Promise<void>
+  switchBranch: (branch: string) => Promise<void>
+  switchSibling: (messageId: string, offset: -1 | 1) => Promise<void>
   clearError: () => void
 }
 
+// 流式回复的通用回调（发送、编辑、重新生成共用），完成时交给 onDone 处理
+function streamCallbacks(
+  set: StoreApi<ChatState>['setState'],
+  get: StoreApi<ChatState>['getState'],
+  onDone: (response: ChatCompleteEvent, toolCalls: ToolActivity[]) => void
+): [
+  (chunk: string) => void,
+  (response: ChatCompleteEvent) => void,
+  (error: string) => void,
+  (event: StreamEvent) => void
+] {
+  return [
+    (chunk) => {
+      set((state) => ({
+        streamingContent: state.streamingContent + chunk
+      }))
+    },
+    (response) => {
+      onDone(response, get().streamingTools)
+      set({ isLoading: false, streamingContent: '', streamingTools: [] })
+      // 刷新对话列表
+      get().loadConversations()
+    },
+    (error) => {
+      set({ isLoading: false, streamingContent: '', streamingTools: [], error })
+    },
+    ({ event, data }) => {
+      const payload = data as ToolActivity
+      if (event === 'tool-call') {
+        set((state) => ({
+          streamingTools: [
+            ...state.streamingTools,
+            { toolCallId: payload.toolCallId, toolName: payload.toolName, args: payload.args }
+          ]
+        }))
+      } else if (event === 'tool-result') {
+        set((state) => ({
+          streamingTools: state.streamingTools.map((tool) =>
+            tool.toolCallId === payload.toolCallId ? { ...tool, result: payload.result } : tool
+          )
+        }))
+      }
+    }
+  ]
+}
+
 export const useChatStore = create<ChatState>((set, get) => ({
   conversations: [],
   currentConversationId: null,
   messages: [],
+  branches: [],
   isLoading: false,
   streamingContent: '',
+  streamingTools: [],
   error: null,
 
   loadConversations: async () => {
@@ -34,9 +98,16 @@ export const useChatStore = create<ChatState>((set, get) => ({
 
   selectConversation: async (id: string) => {
     set({ currentConversationId: id, isLoading: true })
-    const result = await api.getConversation(id)
+    const [result, branches] = await Promise.all([
+      api.getConversation(id),
+      api.listBranches(id)
+    ])
     if (result.success && result.data) {
-      set({ messages: result.data.messages || [], isLoading: false })
+      set({
+        messages: (result.data.messages || []).filter((m) => !m.isSummary),
+        branches: branches.data ?? [],
+        isLoading: false
+      })
     } else {
       set({ isLoading: false, error: result.error ?? null })
     }
@@ -48,7 +119,8 @@ export const useChatStore = create<ChatState>((set, get) => ({
       set((state) => ({
         conversations: [result.data!, ...state.conversations],
         currentConversationId: result.data!.id,
-        messages: []
+        messages: [],
+        branches: []
       }))
     }
   },
@@ -65,7 +137,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
-  sendMessage: async (content: string) => {
+  sendMessage: async (content: string, parts?: ContentPart[]) => {
     const { currentConversationId } = get()
 
     // 添加用户消息
@@ -73,48 +145,129 @@ export const useChatStore = create<ChatState>((set, get) => ({
       id: Date.now().toString(),
       role: 'user',
       content,
+      ...(parts && parts.length > 0 ? { parts } : {}),
       timestamp: new Date().toISOString()
     }
 
     set((state) => ({
       messages: [...state.messages, userMessage],
       isLoading: true,
-      streamingContent: ''
+      streamingContent: '',
+      streamingTools: []
     }))
 
     await api.sendMessageStream(
       content,
       currentConversationId || undefined,
       undefined,
-      (chunk) => {
-        set((state) => ({
-          streamingContent: state.streamingContent + chunk
-        }))
-      },
-      (response) => {
+      ...streamCallbacks(set, get, (response, toolCalls) => {
         const assistantMessage: Message = {
-          id: Date.now().toString(),
+          id: response.messageId ?? Date.now().toString(),
           role: 'assistant',
           content: response.response,
-          timestamp: new Date().toISOString()
+          timestamp: new Date().toISOString(),
+          metadata: {
+            ...(toolCalls.length > 0 ? { toolCalls } : {}),
+            ...(response.usage ? { usage: response.usage } : {})
+          }
         }
 
+        // 本地用户消息换成服务端 ID，以便之后编辑
         set((state) => ({
-          messages: [...state.messages, assistantMessage],
-          currentConversationId: response.conversationId,
-          isLoading: false,
-          streamingContent: ''
+          messages: [
+            ...state.messages.map((m) =>
+              m.id === userMessage.id && response.parentId ? { ...m, id: response.parentId } : m
+            ),
+            assistantMessage
+          ],
+          currentConversationId: response.conversationId
         }))
+      }),
+      parts
+    )
+  },
+
+  // 编辑用户消息：截断到该消息并替换内容，新回复在新分支上生成
+  editMessage: async (messageId: string, content: string) => {
+    const { currentConversationId } = get()
+    if (!currentConversationId) return
 
-        // 刷新对话列表
-        get().loadConversations()
-      },
-      (error) => {
-        set({ isLoading: false, streamingContent: '', error })
+    set((state) => {
+      const index = state.messages.findIndex((m) => m.id === messageId)
+      const original = state.messages[index]
+      return {
+        messages: original
+          ? [...state.messages.slice(0, index), { ...original, content, siblingIds: [] }]
+          : state.messages,
+        isLoading: true,
+        streamingContent: '',
+        streamingTools: []
       }
+    })
+
+    await api.editMessageStream(
+      currentConversationId,
+      messageId,
+      content,
+      ...streamCallbacks(set, get, (response) => {
+        void get().selectConversation(response.conversationId)
+      })
     )
   },
 
+  // 重新生成助手回复：原回复保留为兄弟版本
+  regenerate: async (messageId: string) => {
+    const { currentConversationId } = get()
+    if (!currentConversationId) return
+
+    set((state) => {
+      const index = state.messages.findIndex((m) => m.id === messageId)
+      return {
+        messages: index >= 0 ? state.messages.slice(0, index) : state.messages,
+        isLoading: true,
+        streamingContent: '',
+        streamingTools: []
+      }
+    })
+
+    await api.regenerateStream(
+      currentConversationId,
+      messageId,
+      ...streamCallbacks(set, get, (response) => {
+        void get().selectConversation(response.conversationId)
+      })
+    )
+  },
+
+  switchBranch: async (branch: string) => {
+    const { currentConversationId } = get()
+    if (!currentConversationId) return
+
+    const result = await api.switchBranch(currentConversationId, branch)
+    if (result.success) {
+      await get().selectConversation(currentConversationId)
+    } else {
+      set({ error: result.error ?? null })
+    }
+  },
+
+  // 在同一父消息下的版本间切换（offset 为 -1 上一个，1 下一个）
+  switchSibling: async (messageId: string, offset: -1 | 1) => {
+    const { currentConversationId, messages } = get()
+    const siblingIds = messages.find((m) => m.id === messageId)?.siblingIds
+    if (!currentConversationId || !siblingIds) return
+
+    const targetId = siblingIds[siblingIds.indexOf(messageId) + offset]
+    if (!targetId) return
+
+    const result = await api.switchToMessage(currentConversationId, targetId)
+    if (result.success) {
+      await get().selectConversation(currentConversationId)
+    } else {
+      set({ error: result.error ?? null })
+    }
+  },
+
   clearError: () => set({ error: null })
 }))
 
@@ -1,3 +1,5 @@
+import type { ExtractedSection } from './extractors/types.js'
+
 export interface ChunkResult {
   readonly content: string
   readonly sourceTitle?: string | undefined
@@ -9,6 +11,17 @@ export interface ChunkerOptions {
   readonly chunkOverlap?: number | undefined
 }
 
+export interface SectionChunkResult extends ChunkResult {
+  /** 起止页码（从 1 开始，含两端） */
+  readonly page?: number | undefined
+  readonly pageEnd?: number | undefined
+  readonly section?: string | undefined
+  readonly chapter?: number | undefined
+  /** 起止数据行号（CSV/TSV） */
+  readonly rowStart?: number | undefined
+  readonly rowEnd?: number | undefined
+}
+
 const DEFAULT_CHUNK_SIZE = 1500
 const DEFAULT_CHUNK_OVERLAP = 200
 
@@ -134,3 +147,68 @@ export function chunkDocument(
 
   return results
 }
+
+/**
+ * 对提取器输出的分段进行分块：相邻短分段合并（不跨 EPUB 章节），
+ * 过长的分段按 chunkDocument 拆分；表格行不拆分。每块记录覆盖的页码、章节和行号范围
+ */
+export function chunkSections(
+  sections: readonly ExtractedSection[],
+  options: ChunkerOptions = {},
+  sourceTitle?: string
+): readonly SectionChunkResult[] {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+  const results: SectionChunkResult[] = []
+  let group: ExtractedSection[] = []
+  let length = 0
+
+  const push = (content: string, from: readonly ExtractedSection[]): void => {
+    const first = from[0]!
+    const last = from[from.length - 1]!
+    results.push({
+      content,
+      sourceTitle,
+      chunkIndex: results.length,
+      page: first.page,
+      pageEnd: last.page,
+      section: first.section,
+      chapter: first.chapter,
+      rowStart: first.row,
+      rowEnd: last.row,
+    })
+  }
+
+  const flush = (): void => {
+    if (group.length === 0) return
+    const separator = group[0]!.row !== undefined ? '\n' : '\n\n'
+    push(group.map((s) => s.text).join(separator), group)
+    group = []
+    length = 0
+  }
+
+  for (const section of sections) {
+    const text = section.text.trim()
+    if (!text) continue
+
+    if (
+      group.length > 0 &&
+      (length + text.length + 2 > chunkSize || group[0]!.chapter !== section.chapter)
+    ) {
+      flush()
+    }
+
+    if (text.length > chunkSize && section.row === undefined) {
+      flush()
+      for (const piece of chunkDocument(text, options)) {
+        push(piece.content, [section])
+      }
+      continue
+    }
+
+    length += text.length + (group.length > 0 ? 2 : 0)
+    group.push({ ...section, text })
+  }
+  flush()
+
+  return results
+}
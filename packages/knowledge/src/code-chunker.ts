@@ -0,0 +1,463 @@
+import * as path from 'node:path'
+import type { ChunkResult, ChunkerOptions } from './chunker.js'
+
+export interface CodeChunkResult extends ChunkResult {
+  readonly language: string
+  /** 起止行号（从 1 开始，含两端） */
+  readonly startLine: number
+  readonly endLine: number
+  /** 块内声明的符号，嵌套声明以 Parent.child 表示 */
+  readonly symbols: readonly string[]
+}
+
+interface LanguageSpec {
+  readonly name: string
+  readonly extensions: readonly string[]
+  // braces: 按花括号嵌套深度划分层级；indent: 按缩进（Python、Ruby）
+  readonly blocks: 'braces' | 'indent'
+  readonly lineComments: readonly string[]
+  // 单引号是否为字符串（否则只作字符字面量，如 Rust 的 'a' 与生命周期 'a）
+  readonly singleQuoteStrings: boolean
+  // 声明行（去除缩进后匹配），第一个捕获组为符号名
+  readonly declarations: readonly RegExp[]
+  // 只在顶层识别的声明（变量等，函数体内的局部变量不算）
+  readonly topLevel?: readonly RegExp[] | undefined
+  // 紧贴在声明前、归属于该声明的行（文档注释、装饰器、注解）
+  readonly leading: RegExp
+}
+
+const DEFAULT_CHUNK_SIZE = 1500
+const DEFAULT_CHUNK_OVERLAP = 200
+
+// 控制语句不是声明
+const NOT_KEYWORD =
+  '(?!(?:if|for|foreach|while|switch|catch|return|await|new|throw|else|do|case|sizeof|typeof|using|lock)\\b)'
+
+const JVM_MODIFIERS =
+  '(?:(?:public|private|protected|internal|static|final|abstract|sealed|open|override|data|inline|suspend|synchronized|native|virtual|async|partial|readonly|extern|unsafe|const|fileprivate|mutating|lazy|implicit|case|default)\\s+)*'
+
+const C_LEADING = /^(?:\/\/|\/\*|\*|@|#\[)/
+
+const TS_TOP_LEVEL: readonly RegExp[] = [
+  /^(?:export\s+)?(?:declare\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)/,
+]
+
+const TS_DECLARATIONS: readonly RegExp[] = [
+  /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\s*\*?|class|interface|type|enum|namespace|module)\s+([A-Za-z_$][\w$]*)/,
+  // 类成员方法：name(...) {（参数中不含字符串，排除 describe('x', () => { 这类调用）
+  new RegExp(
+    `^${NOT_KEYWORD}(?:(?:public|private|protected|static|readonly|async|override|abstract|declare|get|set|accessor)\\s+)*\\*?(#?[A-Za-z_$][\\w$]*)\\s*(?:<[^>]*>)?\\s*\\([^'"\`]*\\)\\s*(?::[^=]+)?\\{$`
+  ),
+]
+
+const LANGUAGES: readonly LanguageSpec[] = [
+  {
+    name: 'typescript',
+    extensions: ['.ts', '.tsx', '.mts', '.cts'],
+    blocks: 'braces',
+    lineComments: ['//'],
+    singleQuoteStrings: true,
+    declarations: TS_DECLARATIONS,
+    topLevel: TS_TOP_LEVEL,
+    leading: C_LEADING,
+  },
+  {
+    name: 'javascript',
+    extensions: ['.js', '.jsx', '.mjs', '.cjs'],
+    blocks: 'braces',
+    lineComments: ['//'],
+    singleQuoteStrings: true,
+    declarations: TS_DECLARATIONS,
+    topLevel: TS_TOP_LEVEL,
+    leading: C_LEADING,
+  },
+  {
+    name: 'python',
+    extensions: ['.py', '.pyi'],
+    blocks: 'indent',
+    lineComments: ['#'],
+    singleQuoteStrings: true,
+    declarations: [/^(?:async\s+)?def\s+(\w+)/, /^class\s+(\w+)/],
+    leading: /^(?:#|@)/,
+  },
+  {
+    name: 'go',
+    extensions: ['.go'],
+    blocks: 'braces',
+    lineComments: ['//'],
+    singleQuoteStrings: false,
+    declarations: [/^func\s+(?:\([^)]*\)\s*)?(\w+)/, /^type\s+(\w+)/],
+    topLevel: [/^(?:var|const)\s+(\w+)/],
+    leading: /^\/\//,
+  },
+  {
+    name: 'rust',
+    extensions: ['.rs'],
+    blocks: 'braces',
+    lineComments: ['//'],
+    singleQuoteStrings: false,
+    declarations: [
+      /^(?:pub(?:\([^)]*\))?\s+)?(?:(?:async|unsafe|const|extern(?:\s+"[^"]*")?)\s+)*(?:fn|struct|enum|trait|mod|union|type)\s+(\w+)/,
+      /^(?:unsafe\s+)?impl(?:<[^>]*>)?\s+(?:[\w:<>, ]+\s+for\s+)?([\w:]+)/,
+      /^macro_rules!\s*(\w+)/,
+    ],
+    leading: /^(?:\/\/|#!?\[)/,
+  },
+  ...(
+    [
+      ['java', ['.java']],
+      ['kotlin', ['.kt', '.kts']],
+      ['scala', ['.scala']],
+      ['csharp', ['.cs']],
+      ['swift', ['.swift']],
+    ] as const
+  ).map(
+    ([name, extensions]): LanguageSpec => ({
+      name,
+      extensions,
+      blocks: 'braces',
+      lineComments: ['//'],
+      singleQuoteStrings: false,
+      declarations: [
+        new RegExp(
+          `^${JVM_MODIFIERS}(?:class|interface|enum|record|struct|object|trait|protocol|extension|namespace)\\s+(\\w+)`
+        ),
+        new RegExp(`^${JVM_MODIFIERS}(?:fun|func|def)\\s+(?:<[^>]*>\\s*)?(?:[\\w.]+\\.)?(\\w+)`),
+        // Java/C# 方法：返回类型 方法名(...)，行内无分号
+        new RegExp(`^${NOT_KEYWORD}${JVM_MODIFIERS}(?:[\\w<>\\[\\],.?]+\\s+)+(\\w+)\\s*\\([^;]*$`),
+      ],
+      leading: C_LEADING,
+    })
+  ),
+  ...(
+    [
+      ['c', ['.c', '.h']],
+      ['cpp', ['.cc', '.cpp', '.cxx', '.hpp', '.hh', '.hxx']],
+    ] as const
+  ).map(
+    ([name, extensions]): LanguageSpec => ({
+      name,
+      extensions,
+      blocks: 'braces',
+      lineComments: ['//'],
+      singleQuoteStrings: false,
+      declarations: [
+        /^(?:template\s*<.*>\s*)?(?:typedef\s+)?(?:class|struct|union|enum(?:\s+class)?|namespace)\s+(\w+)/,
+        new RegExp(`^${NOT_KEYWORD}(?:[\\w:*&<>,~]+\\s+)+[*&]*((?:\\w+::)*~?\\w+)\\s*\\([^;]*$`),
+      ],
+      leading: /^(?:\/\/|\/\*|\*)/,
+    })
+  ),
+  {
+    name: 'php',
+    extensions: ['.php'],
+    blocks: 'braces',
+    lineComments: ['//', '#'],
+    singleQuoteStrings: true,
+    declarations: [
+      /^(?:(?:public|private|protected|static|final|abstract)\s+)*function\s+&?(\w+)/,
+      /^(?:(?:final|abstract|readonly)\s+)*(?:class|interface|trait|enum)\s+(\w+)/,
+    ],
+    leading: /^(?:\/\/|\/\*|\*|#)/,
+  },
+  {
+    name: 'ruby',
+    extensions: ['.rb'],
+    blocks: 'indent',
+    lineComments: ['#'],
+    singleQuoteStrings: true,
+    declarations: [/^(?:def|class|module)\s+(?:self\.)?([\w:?!=]+)/],
+    leading: /^#/,
+  },
+]
+
+const LANGUAGE_BY_EXTENSION = new Map(
+  LANGUAGES.flatMap((spec) => spec.extensions.map((ext) => [ext, spec] as const))
+)
+
+/**
+ * 根据扩展名识别源码语言，非源码文件返回 undefined
+ */
+export function detectLanguage(filePath: string): string | undefined {
+  return LANGUAGE_BY_EXTENSION.get(path.extname(filePath).toLowerCase())?.name
+}
+
+export const CODE_EXTENSIONS: readonly string[] = [...LANGUAGE_BY_EXTENSION.keys()]
+
+interface Declaration {
+  readonly line: number
+  readonly depth: number
+  readonly name: string
+}
+
+interface Segment {
+  readonly start: number
+  readonly end: number
+  readonly symbols: readonly string[]
+  // 可继续按更深层声明拆分时的声明信息
+  readonly declaration?: Declaration | undefined
+  readonly qualifiedName?: string | undefined
+}
+
+const CHAR_LITERAL = /'(?:\\.[^']*|[^\\'])'/y
+
+/**
+ * 每行行首的花括号嵌套深度（跳过字符串和注释）
+ */
+function braceDepths(lines: readonly string[], spec: LanguageSpec): number[] {
+  const depths: number[] = []
+  let depth = 0
+  let inBlockComment = false
+  let inTemplate = false
+
+  for (const line of lines) {
+    depths.push(depth)
+    // 普通字符串不跨行（也避免 Rust 生命周期 'a 吞掉整行之后的内容）
+    let quote: string | null = inTemplate ? '`' : null
+
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i]
+      if (inBlockComment) {
+        if (ch === '*' && line[i + 1] === '/') {
+          inBlockComment = false
+          i++
+        }
+        continue
+      }
+      if (quote) {
+        if (ch === '\\') i++
+        else if (ch === quote) quote = null
+        continue
+      }
+      if (ch === '/' && line[i + 1] === '*') {
+        inBlockComment = true
+        i++
+        continue
+      }
+      if (spec.lineComments.some((marker) => line.startsWith(marker, i))) break
+      if (ch === "'" && !spec.singleQuoteStrings) {
+        CHAR_LITERAL.lastIndex = i
+        if (CHAR_LITERAL.test(line)) i = CHAR_LITERAL.lastIndex - 1
+        continue
+      }
+      if (ch === '"' || ch === "'" || ch === '`') quote = ch
+      else if (ch === '{') depth++
+      else if (ch === '}') depth = Math.max(0, depth - 1)
+    }
+
+    inTemplate = quote === '`'
+  }
+
+  return depths
+}
+
+function indentDepths(lines: readonly string[]): number[] {
+  return lines.map((line) => {
+    const indent = /^[ \t]*/.exec(line)![0]
+    return indent.replace(/\t/g, '    ').length
+  })
+}
+
+function findDeclarations(
+  lines: readonly string[],
+  depths: readonly number[],
+  spec: LanguageSpec
+): readonly Declaration[] {
+  const declarations: Declaration[] = []
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i]!.trim()
+    if (!trimmed) continue
+    const patterns =
+      depths[i] === 0 ? [...spec.declarations, ...(spec.topLevel ?? [])] : spec.declarations
+    for (const pattern of patterns) {
+      const match = pattern.exec(trimmed)
+      if (match?.[1]) {
+        declarations.push({ line: i, depth: depths[i]!, name: match[1] })
+        break
+      }
+    }
+  }
+  return declarations
+}
+
+/**
+ * 将 [from, to) 按比 parentDepth 更深一层的声明切分
+ * 声明前紧贴的注释/装饰器归入该声明
+ */
+function splitAtDeclarations(
+  lines: readonly string[],
+  declarations: readonly Declaration[],
+  spec: LanguageSpec,
+  from: number,
+  to: number,
+  parentDepth: number,
+  parentName?: string
+): readonly Segment[] {
+  const inner = declarations.filter((d) => d.line >= from && d.line < to && d.depth > parentDepth)
+  const parentSymbols = parentName ? [parentName] : []
+  if (inner.length === 0) {
+    return [{ start: from, end: to, symbols: parentSymbols }]
+  }
+
+  const level = Math.min(...inner.map((d) => d.depth))
+  const boundaries = inner.filter((d) => d.depth === level)
+
+  const starts = boundaries.map((d, i) => {
+    const floor = i === 0 ? from : boundaries[i - 1]!.line + 1
+    let start = d.line
+    while (start - 1 >= floor && spec.leading.test(lines[start - 1]!.trim())) {
+      start--
+    }
+    return start
+  })
+
+  const segments: Segment[] = []
+  if (starts[0]! > from) {
+    segments.push({ start: from, end: starts[0]!, symbols: parentSymbols })
+  }
+  boundaries.forEach((declaration, i) => {
+    const qualifiedName = parentName ? `${parentName}.${declaration.name}` : declaration.name
+    segments.push({
+      start: starts[i]!,
+      end: i + 1 < starts.length ? starts[i + 1]! : to,
+      symbols: [qualifiedName],
+      declaration,
+      qualifiedName,
+    })
+  })
+  return segments
+}
+
+function rangeSize(lines: readonly string[], start: number, end: number): number {
+  let size = 0
+  for (let i = start; i < end; i++) {
+    size += lines[i]!.length + 1
+  }
+  return size
+}
+
+/**
+ * 没有可用声明边界时按行滑动窗口拆分（单行超长时该行独占一块）
+ */
+function splitByLines(
+  lines: readonly string[],
+  segment: Segment,
+  chunkSize: number,
+  overlap: number
+): readonly Segment[] {
+  const windows: Segment[] = []
+  let start = segment.start
+
+  while (start < segment.end) {
+    let end = start
+    let size = 0
+    while (end < segment.end && (end === start || size + lines[end]!.length + 1 <= chunkSize)) {
+      size += lines[end]!.length + 1
+      end++
+    }
+    windows.push({ start, end, symbols: segment.symbols })
+    if (end >= segment.end) break
+
+    // 回退若干行作为重叠
+    let next = end
+    let overlapSize = 0
+    while (next - 1 > start && overlapSize + lines[next - 1]!.length + 1 <= overlap) {
+      overlapSize += lines[next - 1]!.length + 1
+      next--
+    }
+    start = next
+  }
+
+  return windows
+}
+
+/**
+ * 按函数/类边界对源码分块
+ * 先按顶层声明切分，超长的声明继续按内部成员切分，仍超长时按行窗口拆分；
+ * 相邻的短块合并到 chunkSize 以内
+ */
+export function chunkCode(
+  text: string,
+  language: string,
+  options: ChunkerOptions = {},
+  sourceTitle?: string
+): readonly CodeChunkResult[] {
+  const spec = LANGUAGES.find((l) => l.name === language)
+  if (!spec) {
+    throw new Error(`Unsupported language: ${language}`)
+  }
+
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+  const overlap = options.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP
+  const lines = text.split('\n')
+  const depths = spec.blocks === 'braces' ? braceDepths(lines, spec) : indentDepths(lines)
+  const declarations = findDeclarations(lines, depths, spec)
+
+  const pieces: Segment[] = []
+  const visit = (segment: Segment): void => {
+    if (rangeSize(lines, segment.start, segment.end) <= chunkSize) {
+      pieces.push(segment)
+      return
+    }
+    if (segment.declaration) {
+      const children = splitAtDeclarations(
+        lines,
+        declarations,
+        spec,
+        segment.declaration.line + 1,
+        segment.end,
+        segment.declaration.depth,
+        segment.qualifiedName
+      )
+      if (children.some((child) => child.declaration)) {
+        // 声明头（签名、前置注释）并入第一个子块
+        const [first, ...rest] = children
+        visit({
+          ...first!,
+          start: segment.start,
+          symbols: [...new Set([...segment.symbols, ...first!.symbols])],
+        })
+        rest.forEach(visit)
+        return
+      }
+    }
+    pieces.push(...splitByLines(lines, segment, chunkSize, overlap))
+  }
+  splitAtDeclarations(lines, declarations, spec, 0, lines.length, -1).forEach(visit)
+
+  // 合并相邻的短块（滑动窗口之间有重叠，不合并）
+  const merged: Segment[] = []
+  for (const piece of pieces) {
+    const last = merged[merged.length - 1]
+    if (last && last.end === piece.start && rangeSize(lines, last.start, piece.end) <= chunkSize) {
+      merged[merged.length - 1] = {
+        start: last.start,
+        end: piece.end,
+        symbols: [...new Set([...last.symbols, ...piece.symbols])],
+      }
+    } else {
+      merged.push(piece)
+    }
+  }
+
+  const results: CodeChunkResult[] = []
+  for (const segment of merged) {
+    let start = segment.start
+    let end = segment.end
+    while (start < end && !lines[start]!.trim()) start++
+    while (end > start && !lines[end - 1]!.trim()) end--
+    if (start === end) continue
+
+    results.push({
+      content: lines.slice(start, end).join('\n'),
+      sourceTitle,
+      chunkIndex: results.length,
+      language,
+      startLine: start + 1,
+      endLine: end,
+      symbols: segment.symbols,
+    })
+  }
+
+  return results
+}
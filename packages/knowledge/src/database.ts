@@ -1,5 +1,7 @@
+import * as path from 'node:path'
 import { getDatabase } from '@wqbot/storage'
-import { createModuleLogger, generateId } from '@wqbot/core'
+import { createModuleLogger, generateId, getConfigManager } from '@wqbot/core'
+import { VectorIndexStore, type VectorEntry } from './vector-index.js'
 
 const logger = createModuleLogger('knowledge-db')
 
@@ -57,6 +59,17 @@ export function deserializeEmbedding(buffer: Buffer): Float32Array {
 }
 
 export class KnowledgeDB {
+  /**
+   * 每个集合的 HNSW 向量索引，随 chunk 增删增量维护
+   */
+  readonly vectors = new VectorIndexStore(
+    {
+      load: (collectionId) => this.loadEmbeddings(collectionId),
+      signature: (collectionId) => this.embeddingSignature(collectionId),
+    },
+    () => path.join(getConfigManager().getDataDir(), 'knowledge-index')
+  )
+
   /**
    * 运行知识库相关的 migration
    */
@@ -123,6 +136,47 @@ export class KnowledgeDB {
           END;
         `,
       },
+      {
+        // 改用 trigram 分词以支持中文检索，已有集合的索引随之重建
+        name: '014_knowledge_fts_trigram',
+        sql: `
+          DROP TRIGGER IF EXISTS knowledge_fts_insert;
+          DROP TRIGGER IF EXISTS knowledge_fts_delete;
+          DROP TRIGGER IF EXISTS knowledge_fts_update;
+          DROP TABLE IF EXISTS knowledge_fts;
+          CREATE VIRTUAL TABLE knowledge_fts USING fts5(
+            content,
+            content='knowledge_chunks',
+            content_rowid='rowid',
+            tokenize='trigram'
+          );
+          CREATE TRIGGER knowledge_fts_insert AFTER INSERT ON knowledge_chunks BEGIN
+            INSERT INTO knowledge_fts(rowid, content) VALUES (new.rowid, new.content);
+          END;
+          CREATE TRIGGER knowledge_fts_delete AFTER DELETE ON knowledge_chunks BEGIN
+            INSERT INTO knowledge_fts(knowledge_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+          END;
+          CREATE TRIGGER knowledge_fts_update AFTER UPDATE ON knowledge_chunks BEGIN
+            INSERT INTO knowledge_fts(knowledge_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+            INSERT INTO knowledge_fts(rowid, content) VALUES (new.rowid, new.content);
+          END;
+          INSERT INTO knowledge_fts(knowledge_fts) VALUES ('rebuild');
+        `,
+      },
+      {
+        // 已导入文件的内容哈希，用于增量同步（取代按修改时间判断）
+        name: '015_create_knowledge_files',
+        sql: `
+          CREATE TABLE IF NOT EXISTS knowledge_files (
+            path TEXT PRIMARY KEY,
+            collection_id TEXT NOT NULL,
+            content_hash TEXT NOT NULL,
+            indexed_at TEXT NOT NULL DEFAULT (datetime('now')),
+            FOREIGN KEY (collection_id) REFERENCES knowledge_collections(id) ON DELETE CASCADE
+          );
+          CREATE INDEX IF NOT EXISTS idx_knowledge_files_collection ON knowledge_files(collection_id);
+        `,
+      },
     ]
 
     for (const migration of migrations) {
@@ -162,15 +216,19 @@ export class KnowledgeDB {
   }
 
   deleteCollection(name: string): boolean {
+    const collection = this.getCollection(name)
+    if (!collection) return false
+
     const db = getDatabase()
-    const result = db.run('DELETE FROM knowledge_collections WHERE name = ?', [name])
+    const result = db.run('DELETE FROM knowledge_collections WHERE id = ?', [collection.id])
+    this.vectors.drop(collection.id)
     return result.changes > 0
   }
 
-  getCollectionStats(): readonly { name: string; chunkCount: number }[] {
+  getCollectionStats(): readonly { id: string; name: string; chunkCount: number }[] {
     const db = getDatabase()
-    return db.query<{ name: string; chunkCount: number }>(
-      `SELECT c.name, COUNT(ch.id) as chunkCount
+    return db.query<{ id: string; name: string; chunkCount: number }>(
+      `SELECT c.id, c.name, COUNT(ch.id) as chunkCount
        FROM knowledge_collections c
        LEFT JOIN knowledge_chunks ch ON ch.collection_id = c.id
        GROUP BY c.id
@@ -191,11 +249,15 @@ export class KnowledgeDB {
        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
       [id, input.collectionId, input.content, input.sourceFile ?? null, input.sourceTitle ?? null, input.chunkIndex, embeddingBlob, metadataJson]
     )
+    if (input.embedding) {
+      this.vectors.add(input.collectionId, [{ id, embedding: input.embedding }])
+    }
     return db.queryOne<KnowledgeChunk>('SELECT * FROM knowledge_chunks WHERE id = ?', [id])!
   }
 
   addChunks(inputs: readonly CreateChunkInput[]): void {
     const db = getDatabase()
+    const added = new Map<string, VectorEntry[]>()
     db.transaction(() => {
       for (const input of inputs) {
         const id = generateId()
@@ -206,8 +268,17 @@ export class KnowledgeDB {
            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
           [id, input.collectionId, input.content, input.sourceFile ?? null, input.sourceTitle ?? null, input.chunkIndex, embeddingBlob, metadataJson]
         )
+        if (input.embedding) {
+          const list = added.get(input.collectionId) ?? []
+          list.push({ id, embedding: input.embedding })
+          added.set(input.collectionId, list)
+        }
       }
     })
+
+    for (const [collectionId, entries] of added) {
+      this.vectors.add(collectionId, entries)
+    }
   }
 
   getChunksByCollection(collectionId: string): readonly KnowledgeChunk[] {
@@ -228,22 +299,96 @@ export class KnowledgeDB {
 
   deleteChunksBySourceFile(sourceFile: string): number {
     const db = getDatabase()
+    const embedded = db.query<{ id: string; collection_id: string }>(
+      'SELECT id, collection_id FROM knowledge_chunks WHERE source_file = ? AND embedding IS NOT NULL',
+      [sourceFile]
+    )
     const result = db.run('DELETE FROM knowledge_chunks WHERE source_file = ?', [sourceFile])
+    this.removeVectors(embedded)
     return result.changes
   }
 
   deleteChunksByCollection(collectionId: string): number {
     const db = getDatabase()
     const result = db.run('DELETE FROM knowledge_chunks WHERE collection_id = ?', [collectionId])
+    this.vectors.drop(collectionId)
     return result.changes
   }
 
   deleteDocument(id: string): boolean {
     const db = getDatabase()
+    const embedded = db.query<{ id: string; collection_id: string }>(
+      'SELECT id, collection_id FROM knowledge_chunks WHERE id = ? AND embedding IS NOT NULL',
+      [id]
+    )
     const result = db.run('DELETE FROM knowledge_chunks WHERE id = ?', [id])
+    this.removeVectors(embedded)
     return result.changes > 0
   }
 
+  // ── 文件同步状态 ──
+
+  /**
+   * 文件上次导入时的内容哈希，未导入过时返回 undefined
+   */
+  getFileHash(sourceFile: string): string | undefined {
+    const db = getDatabase()
+    return db.queryOne<{ content_hash: string }>(
+      'SELECT content_hash FROM knowledge_files WHERE path = ?',
+      [sourceFile]
+    )?.content_hash
+  }
+
+  setFileHash(collectionId: string, sourceFile: string, contentHash: string): void {
+    const db = getDatabase()
+    db.run(
+      `INSERT INTO knowledge_files (path, collection_id, content_hash, indexed_at)
+       VALUES (?, ?, ?, datetime('now'))
+       ON CONFLICT(path) DO UPDATE SET
+         collection_id = excluded.collection_id,
+         content_hash = excluded.content_hash,
+         indexed_at = excluded.indexed_at`,
+      [sourceFile, collectionId, contentHash]
+    )
+  }
+
+  /**
+   * 集合中已导入的文件（含没有产生 chunk 的空文件）
+   */
+  listIndexedFiles(collectionId: string): readonly string[] {
+    const db = getDatabase()
+    return db
+      .query<{ path: string }>(
+        `SELECT path FROM knowledge_files WHERE collection_id = ?
+         UNION
+         SELECT DISTINCT source_file AS path FROM knowledge_chunks
+         WHERE collection_id = ? AND source_file IS NOT NULL`,
+        [collectionId, collectionId]
+      )
+      .map((row) => row.path)
+  }
+
+  /**
+   * 移除文件的全部 chunk 和哈希记录，返回删除的 chunk 数
+   */
+  deleteFile(sourceFile: string): number {
+    const removed = this.deleteChunksBySourceFile(sourceFile)
+    getDatabase().run('DELETE FROM knowledge_files WHERE path = ?', [sourceFile])
+    return removed
+  }
+
+  private removeVectors(rows: readonly { id: string; collection_id: string }[]): void {
+    const byCollection = new Map<string, string[]>()
+    for (const row of rows) {
+      const list = byCollection.get(row.collection_id) ?? []
+      list.push(row.id)
+      byCollection.set(row.collection_id, list)
+    }
+    for (const [collectionId, ids] of byCollection) {
+      this.vectors.remove(collectionId, ids)
+    }
+  }
+
   /**
    * 获取所有带 embedding 的 chunk（用于向量检索）
    */
@@ -264,6 +409,37 @@ export class KnowledgeDB {
   updateEmbedding(chunkId: string, embedding: Float32Array): void {
     const db = getDatabase()
     db.run('UPDATE knowledge_chunks SET embedding = ? WHERE id = ?', [serializeEmbedding(embedding), chunkId])
+    const chunk = db.queryOne<{ collection_id: string }>(
+      'SELECT collection_id FROM knowledge_chunks WHERE id = ?',
+      [chunkId]
+    )
+    if (chunk) {
+      this.vectors.add(chunk.collection_id, [{ id: chunkId, embedding }])
+    }
+  }
+
+  /**
+   * 读取集合内全部 embedding（重建向量索引）
+   */
+  private loadEmbeddings(collectionId: string): readonly VectorEntry[] {
+    const db = getDatabase()
+    const rows = db.query<{ id: string; embedding: Buffer }>(
+      'SELECT id, embedding FROM knowledge_chunks WHERE collection_id = ? AND embedding IS NOT NULL ORDER BY rowid',
+      [collectionId]
+    )
+    return rows.map((row) => ({ id: row.id, embedding: deserializeEmbedding(row.embedding) }))
+  }
+
+  /**
+   * 集合内 embedding 的数量和最大 rowid，用于判断磁盘上的向量索引是否过期
+   */
+  private embeddingSignature(collectionId: string): string {
+    const db = getDatabase()
+    const row = db.queryOne<{ count: number; max_rowid: number | null }>(
+      'SELECT COUNT(*) as count, MAX(rowid) as max_rowid FROM knowledge_chunks WHERE collection_id = ? AND embedding IS NOT NULL',
+      [collectionId]
+    )
+    return `${row?.count ?? 0}:${row?.max_rowid ?? 0}`
   }
 
   /**
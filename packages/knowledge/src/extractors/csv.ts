@@ -0,0 +1,92 @@
+import * as path from 'node:path'
+import type { DocumentExtractor, ExtractedDocument } from './types.js'
+
+/**
+ * 解析 RFC 4180 风格的分隔文本（支持引号内的分隔符、换行和 "" 转义）
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        field += ch
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true
+    } else if (ch === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // 去掉空行
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''))
+}
+
+/**
+ * 根据首行中出现次数最多的候选分隔符推断分隔符
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  let best = ','
+  let bestCount = 0
+  for (const candidate of [',', '\t', ';', '|']) {
+    const count = firstLine.split(candidate).length - 1
+    if (count > bestCount) {
+      best = candidate
+      bestCount = count
+    }
+  }
+  return best
+}
+
+/**
+ * CSV/TSV：首行为表头，每个数据行渲染为 "列名: 值" 形式的一段，
+ * 分块时按行合并，不会把一行拆到两个块中
+ */
+export const csvExtractor: DocumentExtractor = {
+  name: 'csv',
+  extensions: ['.csv', '.tsv'],
+  extract(data, filePath): ExtractedDocument {
+    const text = data.toString('utf-8').replace(/^\uFEFF/, '')
+    const delimiter = path.extname(filePath).toLowerCase() === '.tsv' ? '\t' : detectDelimiter(text)
+    const [header = [], ...rows] = parseDelimited(text, delimiter)
+    const columns = header.map((name, i) => name.trim() || `列${i + 1}`)
+
+    return {
+      format: 'csv',
+      sections: rows.map((cells, i) => ({
+        row: i + 1,
+        text: cells
+          .map((cell, j) => `${columns[j] ?? `列${j + 1}`}: ${cell.trim()}`)
+          .filter((_, j) => cells[j]!.trim() !== '')
+          .join(' | '),
+      })),
+    }
+  },
+}
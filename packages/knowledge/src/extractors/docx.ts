@@ -0,0 +1,199 @@
+import { tokenizeMarkup, type MarkupToken } from './markup.js'
+import { readZip, readZipText } from './zip.js'
+import type { DocumentExtractor, ExtractedDocument, ExtractedSection } from './types.js'
+
+/**
+ * 从 styles.xml 读取段落样式对应的标题级别（outlineLvl 或名称 "heading N" / "Title"）
+ */
+function parseHeadingStyles(xml: string | undefined): ReadonlyMap<string, number> {
+  const levels = new Map<string, number>()
+  if (!xml) return levels
+
+  let styleId: string | null = null
+  for (const token of tokenizeMarkup(xml)) {
+    if (token.type === 'open' && token.name === 'w:style') {
+      styleId = token.attrs['w:styleid'] ?? null
+    } else if (token.type === 'close' && token.name === 'w:style') {
+      styleId = null
+    } else if (token.type === 'open' && styleId) {
+      const value = token.attrs['w:val'] ?? ''
+      if (token.name === 'w:outlinelvl' && /^\d$/.test(value)) {
+        levels.set(styleId, Number(value) + 1)
+      } else if (token.name === 'w:name' && !levels.has(styleId)) {
+        const heading = /^heading\s*(\d)$/i.exec(value)
+        if (heading) levels.set(styleId, Number(heading[1]))
+        else if (/^title$/i.test(value)) levels.set(styleId, 1)
+      }
+    }
+  }
+
+  return levels
+}
+
+function parseCoreTitle(xml: string | undefined): string | undefined {
+  if (!xml) return undefined
+  const tokens = tokenizeMarkup(xml)
+  const index = tokens.findIndex((t) => t.type === 'open' && t.name === 'dc:title')
+  const next = tokens[index + 1]
+  return index !== -1 && next?.type === 'text' ? next.text.trim() || undefined : undefined
+}
+
+interface Paragraph {
+  readonly text: string
+  readonly heading: number | undefined
+  readonly page: number
+}
+
+/**
+ * 遍历 document.xml 的段落和表格
+ * 页码依据 Word 渲染时写入的 lastRenderedPageBreak；文档中没有时退回到手动分页符
+ */
+function readParagraphs(
+  tokens: readonly MarkupToken[],
+  headingStyles: ReadonlyMap<string, number>
+): readonly Paragraph[] {
+  const rendered = tokens.some((t) => t.type === 'open' && t.name === 'w:lastrenderedpagebreak')
+  const paragraphs: Paragraph[] = []
+
+  let page = 1
+  let text = ''
+  let heading: number | undefined
+  let inText = false
+  let tableDepth = 0
+  let row: string[] = []
+  let cell = ''
+
+  for (const token of tokens) {
+    if (token.type === 'text') {
+      if (inText) text += token.text
+      continue
+    }
+
+    if (token.type === 'open') {
+      switch (token.name) {
+        case 'w:p':
+          text = ''
+          heading = undefined
+          break
+        case 'w:pstyle':
+          heading = headingStyles.get(token.attrs['w:val'] ?? '') ?? heading
+          break
+        case 'w:outlinelvl': {
+          const level = Number(token.attrs['w:val'])
+          if (level >= 0 && level < 9) heading = level + 1
+          break
+        }
+        case 'w:t':
+          inText = !token.selfClosing
+          break
+        case 'w:tab':
+          text += '\t'
+          break
+        case 'w:br':
+        case 'w:cr':
+          if (token.attrs['w:type'] === 'page') {
+            if (!rendered) page++
+          } else {
+            text += '\n'
+          }
+          break
+        case 'w:lastrenderedpagebreak':
+          page++
+          break
+        case 'w:tbl':
+          tableDepth++
+          break
+        // 嵌套表格的内容并入外层单元格
+        case 'w:tr':
+          if (tableDepth === 1) row = []
+          break
+        case 'w:tc':
+          if (tableDepth === 1) cell = ''
+          break
+      }
+      continue
+    }
+
+    switch (token.name) {
+      case 'w:t':
+        inText = false
+        break
+      case 'w:p': {
+        const trimmed = text.trim()
+        if (tableDepth > 0) {
+          cell += (cell ? ' ' : '') + trimmed
+        } else if (trimmed) {
+          paragraphs.push({ text: trimmed, heading, page })
+        }
+        break
+      }
+      case 'w:tc':
+        if (tableDepth === 1) row.push(cell)
+        break
+      case 'w:tr':
+        if (tableDepth === 1 && row.some(Boolean)) {
+          paragraphs.push({ text: row.join(' | '), heading: undefined, page })
+        }
+        break
+      case 'w:tbl':
+        tableDepth--
+        break
+    }
+  }
+
+  return paragraphs
+}
+
+/**
+ * 按标题和页码把段落分组；标题以 Markdown 形式保留
+ */
+function groupSections(paragraphs: readonly Paragraph[]): readonly ExtractedSection[] {
+  const sections: ExtractedSection[] = []
+  let current = null as { lines: string[]; page: number; section: string | undefined } | null
+
+  const push = (): void => {
+    if (current && current.lines.length > 0) {
+      sections.push({
+        text: current.lines.join('\n\n'),
+        page: current.page,
+        section: current.section,
+      })
+    }
+  }
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.heading) {
+      push()
+      current = {
+        lines: [`${'#'.repeat(Math.min(paragraph.heading, 6))} ${paragraph.text}`],
+        page: paragraph.page,
+        section: paragraph.text,
+      }
+    } else if (!current || current.page !== paragraph.page) {
+      push()
+      current = { lines: [paragraph.text], page: paragraph.page, section: current?.section }
+    } else {
+      current.lines.push(paragraph.text)
+    }
+  }
+  push()
+
+  return sections
+}
+
+export const docxExtractor: DocumentExtractor = {
+  name: 'docx',
+  extensions: ['.docx'],
+  extract(data): ExtractedDocument {
+    const zip = readZip(data)
+    const document = readZipText(zip, 'word/document.xml')
+    if (!document) throw new Error('Invalid DOCX: word/document.xml not found')
+
+    const headingStyles = parseHeadingStyles(readZipText(zip, 'word/styles.xml'))
+    return {
+      format: 'docx',
+      title: parseCoreTitle(readZipText(zip, 'docProps/core.xml')),
+      sections: groupSections(readParagraphs(tokenizeMarkup(document), headingStyles)),
+    }
+  },
+}
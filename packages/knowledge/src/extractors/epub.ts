@@ -0,0 +1,136 @@
+import * as path from 'node:path'
+import { tokenizeMarkup } from './markup.js'
+import { findTitle, parseHtml, renderSections } from './html.js'
+import { readZip, readZipText } from './zip.js'
+import type { DocumentExtractor, ExtractedDocument, ExtractedSection } from './types.js'
+
+interface ManifestItem {
+  readonly href: string
+  readonly mediaType: string
+  readonly properties: string
+}
+
+/**
+ * 解析相对于 base 文件的 href（ZIP 内路径使用 /）
+ */
+function resolveHref(base: string, href: string): string {
+  const clean = decodeURIComponent(href.split('#')[0]!)
+  return path.posix.normalize(path.posix.join(path.posix.dirname(base), clean))
+}
+
+/**
+ * 从 EPUB3 nav.xhtml 或 EPUB2 toc.ncx 读取章节标题（文件路径 → 标题）
+ */
+function parseToc(
+  files: ReturnType<typeof readZip>,
+  opfPath: string,
+  manifest: ReadonlyMap<string, ManifestItem>
+): ReadonlyMap<string, string> {
+  const labels = new Map<string, string>()
+  const items = [...manifest.values()]
+
+  const nav = items.find((item) => item.properties.split(/\s+/).includes('nav'))
+  if (nav) {
+    const navPath = resolveHref(opfPath, nav.href)
+    const tokens = tokenizeMarkup(readZipText(files, navPath) ?? '')
+    let href: string | null = null
+    let label = ''
+    for (const token of tokens) {
+      if (token.type === 'open' && token.name === 'a' && token.attrs.href) {
+        href = resolveHref(navPath, token.attrs.href)
+        label = ''
+      } else if (token.type === 'text' && href) {
+        label += token.text
+      } else if (token.type === 'close' && token.name === 'a' && href) {
+        const text = label.replace(/\s+/g, ' ').trim()
+        if (text && !labels.has(href)) labels.set(href, text)
+        href = null
+      }
+    }
+    if (labels.size > 0) return labels
+  }
+
+  const ncx = items.find((item) => item.mediaType === 'application/x-dtbncx+xml')
+  if (ncx) {
+    const ncxPath = resolveHref(opfPath, ncx.href)
+    let label = ''
+    let inLabel = false
+    for (const token of tokenizeMarkup(readZipText(files, ncxPath) ?? '')) {
+      if (token.type === 'open' && token.name === 'navlabel') {
+        inLabel = true
+        label = ''
+      } else if (token.type === 'close' && token.name === 'navlabel') {
+        inLabel = false
+      } else if (token.type === 'text' && inLabel) {
+        label += token.text
+      } else if (token.type === 'open' && token.name === 'content' && token.attrs.src) {
+        const file = resolveHref(ncxPath, token.attrs.src)
+        const text = label.replace(/\s+/g, ' ').trim()
+        if (text && !labels.has(file)) labels.set(file, text)
+      }
+    }
+  }
+
+  return labels
+}
+
+/**
+ * EPUB：按 spine 顺序读取各章节 XHTML，章节标题取自目录，章节内再按标题分段
+ */
+export const epubExtractor: DocumentExtractor = {
+  name: 'epub',
+  extensions: ['.epub'],
+  extract(data): ExtractedDocument {
+    const files = readZip(data)
+
+    const container = tokenizeMarkup(readZipText(files, 'META-INF/container.xml') ?? '')
+    const rootfile = container.find((t) => t.type === 'open' && t.name === 'rootfile')
+    const opfPath = rootfile?.type === 'open' ? rootfile.attrs['full-path'] : undefined
+    const opf = opfPath ? readZipText(files, opfPath) : undefined
+    if (!opfPath || !opf) throw new Error('Invalid EPUB: package document not found')
+
+    const manifest = new Map<string, ManifestItem>()
+    const spine: string[] = []
+    let title: string | undefined
+    const opfTokens = tokenizeMarkup(opf)
+    opfTokens.forEach((token, i) => {
+      if (token.type !== 'open') return
+      if (token.name === 'item' && token.attrs.id && token.attrs.href) {
+        manifest.set(token.attrs.id, {
+          href: token.attrs.href,
+          mediaType: token.attrs['media-type'] ?? '',
+          properties: token.attrs.properties ?? '',
+        })
+      } else if (token.name === 'itemref' && token.attrs.idref && token.attrs.linear !== 'no') {
+        spine.push(token.attrs.idref)
+      } else if (token.name === 'dc:title' && !title) {
+        const next = opfTokens[i + 1]
+        title = next?.type === 'text' ? next.text.trim() || undefined : undefined
+      }
+    })
+
+    const toc = parseToc(files, opfPath, manifest)
+    const sections: ExtractedSection[] = []
+    let chapter = 0
+
+    for (const idref of spine) {
+      const item = manifest.get(idref)
+      if (!item) continue
+      const file = resolveHref(opfPath, item.href)
+      const xhtml = readZipText(files, file)
+      if (!xhtml) continue
+
+      const root = parseHtml(xhtml)
+      const chapterSections = renderSections(root)
+      if (chapterSections.length === 0) continue
+
+      chapter++
+      const chapterTitle = toc.get(file) ?? findTitle(root)
+      for (const section of chapterSections) {
+        sections.push({ ...section, chapter, section: section.section ?? chapterTitle })
+      }
+    }
+
+    return { format: 'epub', title, sections }
+  },
+}
@@ -0,0 +1,389 @@
+import { tokenizeMarkup } from './markup.js'
+import type { DocumentExtractor, ExtractedDocument, ExtractedSection } from './types.js'
+
+export interface HtmlElement {
+  readonly name: string
+  readonly attrs: Readonly<Record<string, string>>
+  readonly children: HtmlNode[]
+  readonly parent: HtmlElement | null
+}
+
+export type HtmlNode = HtmlElement | string
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+])
+
+const BLOCK_ELEMENTS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'body',
+  'dd',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'summary',
+  'table',
+  'ul',
+])
+
+// 不包含正文的元素
+const SKIPPED_ELEMENTS = new Set([
+  'button',
+  'canvas',
+  'head',
+  'iframe',
+  'input',
+  'noscript',
+  'script',
+  'select',
+  'style',
+  'svg',
+  'template',
+  'textarea',
+  'title',
+])
+
+// 正文提取时去掉的页面框架
+const BOILERPLATE_ELEMENTS = new Set(['nav', 'aside', 'footer', 'header', 'form'])
+
+const UNLIKELY_PATTERN =
+  /comment|sidebar|footer|footnote|nav|menu|masthead|advert|promo|sponsor|share|social|related|cookie|banner|popup|modal|breadcrumb|subscribe|newsletter/i
+const LIKELY_PATTERN = /article|content|main|post|entry|body|text/i
+
+const HEADING_PATTERN = /^h([1-6])$/
+
+function isElement(node: HtmlNode): node is HtmlElement {
+  return typeof node !== 'string'
+}
+
+/**
+ * 解析 HTML 为简单的元素树，容忍未闭合和错误嵌套的标签
+ */
+export function parseHtml(source: string): HtmlElement {
+  const root: HtmlElement = { name: '#root', attrs: {}, children: [], parent: null }
+  const stack: HtmlElement[] = [root]
+  const top = (): HtmlElement => stack[stack.length - 1]!
+
+  // 关闭最近的同名元素（不越过 boundary 中的元素）
+  const closeNearest = (names: readonly string[], boundary: readonly string[] = []): void => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      const name = stack[i]!.name
+      if (boundary.includes(name)) return
+      if (names.includes(name)) {
+        stack.length = i
+        return
+      }
+    }
+  }
+
+  for (const token of tokenizeMarkup(source, true)) {
+    if (token.type === 'text') {
+      top().children.push(token.text)
+      continue
+    }
+
+    if (token.type === 'close') {
+      closeNearest([token.name])
+      continue
+    }
+
+    // 隐式闭合：块元素关闭未闭合的 <p>，列表项、表格行和单元格关闭同级元素
+    if (
+      (BLOCK_ELEMENTS.has(token.name) || HEADING_PATTERN.test(token.name)) &&
+      top().name === 'p'
+    ) {
+      stack.pop()
+    }
+    if (token.name === 'li') closeNearest(['li'], ['ul', 'ol'])
+    if (token.name === 'dt' || token.name === 'dd') closeNearest(['dt', 'dd'], ['dl'])
+    if (token.name === 'tr') closeNearest(['tr'], ['table'])
+    if (token.name === 'td' || token.name === 'th') closeNearest(['td', 'th'], ['tr', 'table'])
+
+    const element: HtmlElement = {
+      name: token.name,
+      attrs: token.attrs,
+      children: [],
+      parent: top(),
+    }
+    top().children.push(element)
+    if (!token.selfClosing && !VOID_ELEMENTS.has(token.name)) {
+      stack.push(element)
+    }
+  }
+
+  return root
+}
+
+export function textContent(node: HtmlNode): string {
+  if (!isElement(node)) return node
+  if (node.name === 'br') return '\n'
+  if (SKIPPED_ELEMENTS.has(node.name)) return ''
+  return node.children.map(textContent).join('')
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function findAll(root: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  const found: HtmlElement[] = []
+  const walk = (element: HtmlElement): void => {
+    if (predicate(element)) found.push(element)
+    for (const child of element.children) {
+      if (isElement(child)) walk(child)
+    }
+  }
+  walk(root)
+  return found
+}
+
+function isBoilerplate(element: HtmlElement, inArticle: boolean): boolean {
+  // 文章内的 <header> 通常包含标题
+  if (BOILERPLATE_ELEMENTS.has(element.name)) return !(inArticle && element.name === 'header')
+  if (element.attrs.hidden !== undefined || element.attrs['aria-hidden'] === 'true') return true
+  if (/display\s*:\s*none/i.test(element.attrs.style ?? '')) return true
+
+  const hint = `${element.attrs.class ?? ''} ${element.attrs.id ?? ''}`
+  return UNLIKELY_PATTERN.test(hint) && !LIKELY_PATTERN.test(hint)
+}
+
+/**
+ * 去掉导航、侧栏、页脚等框架元素（返回新树，不修改原树）
+ */
+function stripBoilerplate(
+  element: HtmlElement,
+  parent: HtmlElement | null = null,
+  inArticle = false
+): HtmlElement {
+  const copy: HtmlElement = { name: element.name, attrs: element.attrs, children: [], parent }
+  const childInArticle = inArticle || element.name === 'article'
+  for (const child of element.children) {
+    if (!isElement(child)) {
+      copy.children.push(child)
+    } else if (!SKIPPED_ELEMENTS.has(child.name) && !isBoilerplate(child, childInArticle)) {
+      copy.children.push(stripBoilerplate(child, copy, childInArticle))
+    }
+  }
+  return copy
+}
+
+/**
+ * 类 Readability 的正文定位：优先 <article>/<main>，否则按段落文本量给祖先元素打分
+ */
+export function extractMainContent(root: HtmlElement): HtmlElement {
+  const cleaned = stripBoilerplate(root)
+
+  const landmarks = findAll(
+    cleaned,
+    (el) => el.name === 'article' || el.name === 'main' || el.attrs.role === 'main'
+  )
+    .map((el) => ({ el, length: normalizeSpace(textContent(el)).length }))
+    .sort((a, b) => b.length - a.length)
+  if (landmarks[0] && landmarks[0].length >= 250) return landmarks[0].el
+
+  const scores = new Map<HtmlElement, number>()
+  for (const paragraph of findAll(cleaned, (el) =>
+    ['p', 'pre', 'td', 'blockquote'].includes(el.name)
+  )) {
+    const text = normalizeSpace(textContent(paragraph))
+    if (text.length < 25) continue
+
+    const score = 1 + (text.match(/[,，。、；]/g)?.length ?? 0) + Math.min(text.length / 100, 3)
+    const parent = paragraph.parent
+    if (!parent) continue
+    scores.set(parent, (scores.get(parent) ?? 0) + score)
+    if (parent.parent) scores.set(parent.parent, (scores.get(parent.parent) ?? 0) + score / 2)
+  }
+
+  let best: HtmlElement | null = null
+  let bestScore = 0
+  for (const [element, score] of scores) {
+    if (score > bestScore) {
+      best = element
+      bestScore = score
+    }
+  }
+
+  return best ?? findAll(cleaned, (el) => el.name === 'body')[0] ?? cleaned
+}
+
+interface Block {
+  readonly heading?: number | undefined
+  readonly text: string
+}
+
+/**
+ * 将元素渲染为段落块：标题单独成块，列表项加 "- " 前缀，表格每行以 " | " 连接单元格
+ */
+function renderBlocks(root: HtmlElement): readonly Block[] {
+  const blocks: Block[] = []
+  let inline = ''
+
+  const flush = (): void => {
+    const text = inline
+      .split('\n')
+      .map((line) => line.replace(/[ \t\f\r]+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n')
+    if (text) blocks.push({ text })
+    inline = ''
+  }
+
+  const walk = (node: HtmlNode, listDepth: number): void => {
+    if (!isElement(node)) {
+      inline += node.replace(/\s+/g, ' ')
+      return
+    }
+    if (SKIPPED_ELEMENTS.has(node.name)) return
+
+    const heading = HEADING_PATTERN.exec(node.name)
+    if (heading) {
+      flush()
+      const text = normalizeSpace(textContent(node))
+      if (text) blocks.push({ heading: Number(heading[1]), text })
+      return
+    }
+
+    switch (node.name) {
+      case 'br':
+        inline += '\n'
+        return
+      case 'pre': {
+        flush()
+        const text = textContent(node).replace(/^\n+|\s+$/g, '')
+        if (text) blocks.push({ text })
+        return
+      }
+      case 'table': {
+        flush()
+        const rows = findAll(node, (el) => el.name === 'tr')
+          .map((row) =>
+            row.children
+              .filter(isElement)
+              .filter((cell) => cell.name === 'td' || cell.name === 'th')
+              .map((cell) => normalizeSpace(textContent(cell)))
+              .join(' | ')
+          )
+          .filter((row) => row.replace(/[\s|]/g, ''))
+        if (rows.length > 0) blocks.push({ text: rows.join('\n') })
+        return
+      }
+      case 'li':
+        flush()
+        inline = `${'  '.repeat(Math.max(0, listDepth - 1))}- `
+        for (const child of node.children) walk(child, listDepth)
+        if (inline.trim() === '-') inline = ''
+        flush()
+        return
+      case 'ul':
+      case 'ol':
+        flush()
+        for (const child of node.children) walk(child, listDepth + 1)
+        flush()
+        return
+    }
+
+    const block = BLOCK_ELEMENTS.has(node.name)
+    if (block) flush()
+    for (const child of node.children) walk(child, listDepth)
+    if (block) flush()
+  }
+
+  walk(root, 0)
+  flush()
+  return blocks
+}
+
+/**
+ * 按标题把段落块分为章节；标题以 Markdown 形式保留在章节文本开头
+ */
+export function renderSections(root: HtmlElement): readonly ExtractedSection[] {
+  const sections: ExtractedSection[] = []
+  let heading: string | undefined
+  let lines: string[] = []
+
+  const push = (): void => {
+    const text = lines.join('\n\n').trim()
+    if (text) sections.push({ text, section: heading })
+    lines = []
+  }
+
+  for (const block of renderBlocks(root)) {
+    if (block.heading) {
+      push()
+      heading = block.text
+      lines.push(`${'#'.repeat(block.heading)} ${block.text}`)
+    } else {
+      lines.push(block.text)
+    }
+  }
+  push()
+
+  return sections
+}
+
+export function findTitle(root: HtmlElement): string | undefined {
+  const title = findAll(root, (el) => el.name === 'title')[0]
+  const text = title ? normalizeSpace(title.children.filter((c) => !isElement(c)).join('')) : ''
+  if (text) return text
+
+  const h1 = findAll(root, (el) => el.name === 'h1')[0]
+  return h1 ? normalizeSpace(textContent(h1)) || undefined : undefined
+}
+
+/**
+ * 按 BOM 或 <meta charset> 解码 HTML，默认 UTF-8
+ */
+export function decodeHtml(data: Buffer): string {
+  const head = data.subarray(0, 2048).toString('latin1')
+  const charset = /<meta[^>]+charset\s*=\s*["']?([\w-]+)/i.exec(head)?.[1]
+  if (charset && !/^utf-?8$/i.test(charset)) {
+    try {
+      return new TextDecoder(charset).decode(data)
+    } catch {
+      // 不支持的编码，按 UTF-8 处理
+    }
+  }
+  return new TextDecoder('utf-8').decode(data)
+}
+
+export const htmlExtractor: DocumentExtractor = {
+  name: 'html',
+  extensions: ['.html', '.htm', '.xhtml'],
+  extract(data): ExtractedDocument {
+    const root = parseHtml(decodeHtml(data))
+    return {
+      format: 'html',
+      title: findTitle(root),
+      sections: renderSections(extractMainContent(root)),
+    }
+  },
+}
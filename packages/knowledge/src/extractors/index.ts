@@ -0,0 +1,33 @@
+import * as path from 'node:path'
+import { csvExtractor } from './csv.js'
+import { docxExtractor } from './docx.js'
+import { epubExtractor } from './epub.js'
+import { htmlExtractor } from './html.js'
+import { pdfExtractor } from './pdf.js'
+import type { DocumentExtractor } from './types.js'
+
+export type { DocumentExtractor, ExtractedDocument, ExtractedSection } from './types.js'
+export { csvExtractor, docxExtractor, epubExtractor, htmlExtractor, pdfExtractor }
+
+const extractors = new Map<string, DocumentExtractor>()
+
+/**
+ * 注册文档提取器（同一扩展名后注册的覆盖先注册的）
+ */
+export function registerExtractor(extractor: DocumentExtractor): void {
+  for (const ext of extractor.extensions) {
+    extractors.set(ext.toLowerCase(), extractor)
+  }
+}
+
+export function getExtractor(filePath: string): DocumentExtractor | undefined {
+  return extractors.get(path.extname(filePath).toLowerCase())
+}
+
+export function extractorExtensions(): readonly string[] {
+  return [...extractors.keys()]
+}
+
+for (const extractor of [pdfExtractor, htmlExtractor, docxExtractor, epubExtractor, csvExtractor]) {
+  registerExtractor(extractor)
+}
@@ -0,0 +1,151 @@
+/**
+ * 宽松的 XML / HTML 词法分析（不校验结构，供文本提取使用）
+ */
+
+export type MarkupToken =
+  | {
+      readonly type: 'open'
+      readonly name: string
+      readonly attrs: Readonly<Record<string, string>>
+      readonly selfClosing: boolean
+    }
+  | { readonly type: 'close'; readonly name: string }
+  | { readonly type: 'text'; readonly text: string }
+
+const NAMED_ENTITIES: Readonly<Record<string, string>> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ensp: ' ',
+  emsp: ' ',
+  thinsp: ' ',
+  shy: '­',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  deg: '°',
+  middot: '·',
+  bull: '•',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  times: '×',
+  divide: '÷',
+  sect: '§',
+  para: '¶',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+}
+
+// HTML 中内容不按标签解析的元素
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title'])
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w:.-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/y
+const ATTR_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g
+
+/**
+ * 解码字符实体（命名实体只支持常用的一组）
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10)
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const match of source.matchAll(ATTR_PATTERN)) {
+    attrs[match[1]!.toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attrs
+}
+
+/**
+ * 将标记文本切分为开始标签、结束标签和文本；标签名统一小写（保留命名空间前缀）
+ * html 模式下 script/style 等元素的内容作为原始文本处理
+ */
+export function tokenizeMarkup(source: string, html = false): readonly MarkupToken[] {
+  const tokens: MarkupToken[] = []
+  let pos = 0
+
+  const pushText = (text: string): void => {
+    if (text) tokens.push({ type: 'text', text: decodeEntities(text) })
+  }
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos)
+    if (lt === -1) {
+      pushText(source.slice(pos))
+      break
+    }
+    pushText(source.slice(pos, lt))
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4)
+      pos = end === -1 ? source.length : end + 3
+      continue
+    }
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9)
+      const text = source.slice(lt + 9, end === -1 ? source.length : end)
+      if (text) tokens.push({ type: 'text', text })
+      pos = end === -1 ? source.length : end + 3
+      continue
+    }
+    if (source[lt + 1] === '!' || source[lt + 1] === '?') {
+      const end = source.indexOf('>', lt + 2)
+      pos = end === -1 ? source.length : end + 1
+      continue
+    }
+
+    TAG_PATTERN.lastIndex = lt
+    const match = TAG_PATTERN.exec(source)
+    if (!match) {
+      // 不是标签的 <，按文本处理
+      pushText('<')
+      pos = lt + 1
+      continue
+    }
+
+    const name = match[2]!.toLowerCase()
+    pos = lt + match[0].length
+
+    if (match[1]) {
+      tokens.push({ type: 'close', name })
+      continue
+    }
+
+    const rest = match[3]!
+    const selfClosing = rest.trimEnd().endsWith('/')
+    tokens.push({ type: 'open', name, attrs: parseAttributes(rest), selfClosing })
+
+    if (html && !selfClosing && RAW_TEXT_ELEMENTS.has(name)) {
+      const closePattern = new RegExp(`</${name}`, 'ig')
+      closePattern.lastIndex = pos
+      const end = closePattern.exec(source)?.index ?? source.length
+      const text = source.slice(pos, end)
+      if (text) tokens.push({ type: 'text', text: name === 'title' ? decodeEntities(text) : text })
+      pos = end
+    }
+  }
+
+  return tokens
+}
@@ -0,0 +1,1215 @@
+import { constants, inflateSync } from 'node:zlib'
+import type { DocumentExtractor, ExtractedDocument, ExtractedSection } from './types.js'
+
+/**
+ * 纯 TypeScript 的 PDF 文本提取：
+ * 扫描 "N G obj" 定位对象（支持对象流），遍历页面树并解释内容流中的文本操作符，
+ * 依据 ToUnicode / 编码表 / 字宽还原文本和词间空格。不支持加密文档。
+ */
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(
+    readonly num: number,
+    readonly gen: number
+  ) {}
+}
+
+class PdfKeyword {
+  constructor(readonly word: string) {}
+}
+
+class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly raw: Buffer
+  ) {}
+}
+
+// 单个流解压后的上限，超出视为无法解码
+const MAX_STREAM_SIZE = 64 * 1024 * 1024
+
+type PdfDict = Map<string, PdfValue>
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | Buffer
+  | PdfName
+  | PdfRef
+  | PdfStream
+  | PdfDict
+  | PdfValue[]
+type Token = number | boolean | null | Buffer | PdfName | PdfKeyword
+
+type Matrix = readonly [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32])
+const DELIMITERS = new Set([...'()<>[]{}/%'].map((c) => c.charCodeAt(0)))
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ]
+}
+
+function utf16be(bytes: Uint8Array): string {
+  let text = ''
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode((bytes[i]! << 8) | bytes[i + 1]!)
+  }
+  return text
+}
+
+function bytesToInt(bytes: Uint8Array): number {
+  return bytes.reduce((value, byte) => value * 256 + byte, 0)
+}
+
+/**
+ * PDF 文本字符串：UTF-16BE（带 BOM）、UTF-8（带 BOM）或 PDFDocEncoding（近似为 latin1）
+ */
+function decodeTextString(bytes: Buffer): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return utf16be(bytes.subarray(2))
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return bytes.subarray(3).toString('utf-8')
+  }
+  return bytes.toString('latin1')
+}
+
+// ============ 词法 / 语法分析 ============
+
+class Lexer {
+  constructor(
+    private readonly data: Buffer,
+    public pos = 0
+  ) {}
+
+  private skipSpace(): void {
+    const data = this.data
+    while (this.pos < data.length) {
+      const c = data[this.pos]!
+      if (WHITESPACE.has(c)) {
+        this.pos++
+      } else if (c === 0x25) {
+        // % 注释
+        while (this.pos < data.length && data[this.pos] !== 10 && data[this.pos] !== 13) this.pos++
+      } else {
+        break
+      }
+    }
+  }
+
+  next(): Token | undefined {
+    this.skipSpace()
+    const data = this.data
+    if (this.pos >= data.length) return undefined
+
+    const c = data[this.pos]!
+    switch (c) {
+      case 0x28: // (
+        return this.readLiteral()
+      case 0x2f: // /
+        return this.readName()
+      case 0x5b: // [
+      case 0x5d: // ]
+      case 0x7b: // {
+      case 0x7d: // }
+        this.pos++
+        return new PdfKeyword(String.fromCharCode(c))
+      case 0x3c: // <
+        if (data[this.pos + 1] === 0x3c) {
+          this.pos += 2
+          return new PdfKeyword('<<')
+        }
+        return this.readHex()
+      case 0x3e: // >
+        if (data[this.pos + 1] === 0x3e) {
+          this.pos += 2
+          return new PdfKeyword('>>')
+        }
+        this.pos++
+        return this.next()
+      case 0x29: // 多余的 )
+        this.pos++
+        return this.next()
+    }
+
+    const start = this.pos
+    while (
+      this.pos < data.length &&
+      !WHITESPACE.has(data[this.pos]!) &&
+      !DELIMITERS.has(data[this.pos]!)
+    ) {
+      this.pos++
+    }
+    const word = data.toString('latin1', start, this.pos)
+    if (NUMBER_PATTERN.test(word)) return Number(word)
+    if (word === 'true') return true
+    if (word === 'false') return false
+    if (word === 'null') return null
+    return new PdfKeyword(word)
+  }
+
+  private readLiteral(): Buffer {
+    const data = this.data
+    const out: number[] = []
+    let depth = 1
+    this.pos++
+
+    while (this.pos < data.length) {
+      const c = data[this.pos++]!
+      if (c === 0x5c) {
+        const n = data[this.pos++]
+        if (n === undefined) break
+        switch (n) {
+          case 0x6e:
+            out.push(10)
+            break
+          case 0x72:
+            out.push(13)
+            break
+          case 0x74:
+            out.push(9)
+            break
+          case 0x62:
+            out.push(8)
+            break
+          case 0x66:
+            out.push(12)
+            break
+          case 13:
+            // 反斜杠续行
+            if (data[this.pos] === 10) this.pos++
+            break
+          case 10:
+            break
+          default:
+            if (n >= 0x30 && n <= 0x37) {
+              let code = n - 0x30
+              for (let i = 0; i < 2; i++) {
+                const d = data[this.pos]
+                if (d === undefined || d < 0x30 || d > 0x37) break
+                code = code * 8 + d - 0x30
+                this.pos++
+              }
+              out.push(code & 0xff)
+            } else {
+              out.push(n)
+            }
+        }
+      } else if (c === 0x28) {
+        depth++
+        out.push(c)
+      } else if (c === 0x29) {
+        if (--depth === 0) break
+        out.push(c)
+      } else {
+        out.push(c)
+      }
+    }
+
+    return Buffer.from(out)
+  }
+
+  private readHex(): Buffer {
+    const end = this.data.indexOf(0x3e, this.pos)
+    const stop = end === -1 ? this.data.length : end
+    let hex = this.data.toString('latin1', this.pos + 1, stop).replace(/[^0-9a-fA-F]/g, '')
+    if (hex.length % 2 === 1) hex += '0'
+    this.pos = stop + 1
+    return Buffer.from(hex, 'hex')
+  }
+
+  private readName(): PdfName {
+    const data = this.data
+    const start = ++this.pos
+    while (
+      this.pos < data.length &&
+      !WHITESPACE.has(data[this.pos]!) &&
+      !DELIMITERS.has(data[this.pos]!)
+    ) {
+      this.pos++
+    }
+    const raw = data.toString('latin1', start, this.pos)
+    return new PdfName(
+      raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    )
+  }
+
+  /**
+   * 读取一个完整的值（数组、字典；refs 为 true 时识别 "N G R" 引用）
+   * 遇到操作符等关键字时原样返回
+   */
+  readValue(refs = true): PdfValue | PdfKeyword | undefined {
+    const token = this.next()
+    return token === undefined ? undefined : this.complete(token, refs)
+  }
+
+  private complete(token: Token, refs: boolean): PdfValue | PdfKeyword {
+    if (typeof token === 'number') {
+      if (!refs || !Number.isInteger(token)) return token
+      const save = this.pos
+      const gen = this.next()
+      if (typeof gen === 'number' && Number.isInteger(gen)) {
+        const r = this.next()
+        if (r instanceof PdfKeyword && r.word === 'R') return new PdfRef(token, gen)
+      }
+      this.pos = save
+      return token
+    }
+
+    if (!(token instanceof PdfKeyword)) return token
+
+    if (token.word === '[') {
+      const array: PdfValue[] = []
+      for (;;) {
+        const next = this.next()
+        if (next === undefined || (next instanceof PdfKeyword && next.word === ']')) break
+        const value = this.complete(next, refs)
+        if (!(value instanceof PdfKeyword)) array.push(value)
+      }
+      return array
+    }
+
+    if (token.word === '<<') {
+      const dict: PdfDict = new Map()
+      for (;;) {
+        const key = this.next()
+        if (key === undefined || (key instanceof PdfKeyword && key.word === '>>')) break
+        if (!(key instanceof PdfName)) continue
+        const value = this.readValue(refs)
+        if (value === undefined) break
+        if (value instanceof PdfKeyword) {
+          if (value.word === '>>') break
+          continue
+        }
+        dict.set(key.name, value)
+      }
+      return dict
+    }
+
+    return token
+  }
+
+  /**
+   * 跳过内联图像数据（ID 之后到 EI 为止的二进制内容）
+   */
+  skipInlineImage(): void {
+    const data = this.data
+    let i = this.pos + 1
+    while (i + 2 < data.length) {
+      if (
+        WHITESPACE.has(data[i]!) &&
+        data[i + 1] === 0x45 &&
+        data[i + 2] === 0x49 &&
+        (i + 3 >= data.length || WHITESPACE.has(data[i + 3]!))
+      ) {
+        this.pos = i + 3
+        return
+      }
+      i++
+    }
+    this.pos = data.length
+  }
+}
+
+// ============ 字体 ============
+
+interface CodeRange {
+  readonly bytes: number
+  readonly low: number
+  readonly high: number
+}
+
+interface CMap {
+  readonly ranges: readonly CodeRange[]
+  readonly map: ReadonlyMap<number, string>
+}
+
+/**
+ * 解析 ToUnicode CMap 中的 codespacerange / bfchar / bfrange
+ */
+function parseCMap(data: Buffer): CMap {
+  const lexer = new Lexer(data)
+  const tokens: (PdfValue | PdfKeyword)[] = []
+  for (let value = lexer.readValue(false); value !== undefined; value = lexer.readValue(false)) {
+    tokens.push(value)
+  }
+
+  const ranges: CodeRange[] = []
+  const map = new Map<number, string>()
+  let mode = ''
+
+  for (let i = 0; i < tokens.length; ) {
+    const token = tokens[i]!
+    if (token instanceof PdfKeyword) {
+      if (token.word.startsWith('begin')) mode = token.word.slice(5)
+      else if (token.word.startsWith('end')) mode = ''
+      i++
+      continue
+    }
+
+    const a = tokens[i + 1]
+    const b = tokens[i + 2]
+    if (mode === 'codespacerange' && Buffer.isBuffer(token) && Buffer.isBuffer(a)) {
+      ranges.push({ bytes: token.length, low: bytesToInt(token), high: bytesToInt(a) })
+      i += 2
+    } else if (mode === 'bfchar' && Buffer.isBuffer(token)) {
+      if (Buffer.isBuffer(a)) map.set(bytesToInt(token), utf16be(a))
+      i += 2
+    } else if (mode === 'bfrange' && Buffer.isBuffer(token) && Buffer.isBuffer(a)) {
+      const low = bytesToInt(token)
+      const high = Math.min(bytesToInt(a), low + 0xffff)
+      if (Buffer.isBuffer(b)) {
+        // 目标值的最后一个字符随源码递增
+        const base = utf16be(b)
+        const last = base.charCodeAt(base.length - 1)
+        for (let code = low; code <= high; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(last + code - low))
+        }
+      } else if (Array.isArray(b)) {
+        b.forEach((dst, k) => {
+          if (Buffer.isBuffer(dst) && low + k <= high) map.set(low + k, utf16be(dst))
+        })
+      }
+      i += 3
+    } else {
+      i++
+    }
+  }
+
+  return { ranges, map }
+}
+
+// WinAnsiEncoding 0x80-0x9F（其余与 latin1 相同）
+const CP1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f' + '\u0090‘’“”•–—˜™š›œ\u009džŸ'
+
+function winAnsi(code: number): string {
+  if (code < 0x20 || code > 0xff) return ''
+  if (code >= 0x80 && code < 0xa0) return CP1252_HIGH[code - 0x80]!
+  if (code === 0xa0) return ' '
+  return String.fromCharCode(code)
+}
+
+const DIGIT_NAMES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine']
+
+const GLYPH_NAMES: Readonly<Record<string, string>> = {
+  space: ' ',
+  nbspace: ' ',
+  exclam: '!',
+  quotedbl: '"',
+  numbersign: '#',
+  dollar: '$',
+  percent: '%',
+  ampersand: '&',
+  quotesingle: "'",
+  parenleft: '(',
+  parenright: ')',
+  asterisk: '*',
+  plus: '+',
+  comma: ',',
+  hyphen: '-',
+  minus: '−',
+  period: '.',
+  slash: '/',
+  colon: ':',
+  semicolon: ';',
+  less: '<',
+  equal: '=',
+  greater: '>',
+  question: '?',
+  at: '@',
+  bracketleft: '[',
+  backslash: '\\',
+  bracketright: ']',
+  asciicircum: '^',
+  underscore: '_',
+  grave: '`',
+  braceleft: '{',
+  bar: '|',
+  braceright: '}',
+  asciitilde: '~',
+  bullet: '•',
+  endash: '–',
+  emdash: '—',
+  quoteleft: '‘',
+  quoteright: '’',
+  quotedblleft: '“',
+  quotedblright: '”',
+  quotesinglbase: '‚',
+  quotedblbase: '„',
+  guillemotleft: '«',
+  guillemotright: '»',
+  ellipsis: '…',
+  periodcentered: '·',
+  dagger: '†',
+  daggerdbl: '‡',
+  trademark: '™',
+  copyright: '©',
+  registered: '®',
+  degree: '°',
+  section: '§',
+  paragraph: '¶',
+  multiply: '×',
+  divide: '÷',
+  euro: '€',
+  sterling: '£',
+  yen: '¥',
+  cent: '¢',
+  germandbls: 'ß',
+  ae: 'æ',
+  AE: 'Æ',
+  oe: 'œ',
+  OE: 'Œ',
+  oslash: 'ø',
+  Oslash: 'Ø',
+  dotlessi: 'ı',
+  fi: 'fi',
+  fl: 'fl',
+  ff: 'ff',
+  ffi: 'ffi',
+  ffl: 'ffl',
+}
+
+const ACCENTS: Readonly<Record<string, string>> = {
+  acute: '\u0301',
+  grave: '\u0300',
+  circumflex: '\u0302',
+  dieresis: '\u0308',
+  tilde: '\u0303',
+  ring: '\u030a',
+  cedilla: '\u0327',
+  caron: '\u030c',
+}
+
+/**
+ * Adobe 字形名 → Unicode（覆盖常用字形、uniXXXX / uXXXX 和带重音的拉丁字母）
+ */
+function glyphToUnicode(glyph: string): string {
+  const name = glyph.split('.')[0]!
+  if (!name) return ''
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name]
+  if (/^[A-Za-z]$/.test(name)) return name
+
+  const digit = DIGIT_NAMES.indexOf(name)
+  if (digit !== -1) return String(digit)
+
+  if (/^uni([0-9A-Fa-f]{4})+$/.test(name)) {
+    return (name.slice(3).match(/.{4}/g) ?? [])
+      .map((hex) => String.fromCharCode(parseInt(hex, 16)))
+      .join('')
+  }
+  const u = /^u([0-9A-Fa-f]{4,6})$/.exec(name)
+  if (u) return String.fromCodePoint(parseInt(u[1]!, 16))
+
+  const accented = /^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron)$/.exec(
+    name
+  )
+  if (accented) return (accented[1]! + ACCENTS[accented[2]!]).normalize('NFC')
+
+  return ''
+}
+
+class PdfFont {
+  constructor(
+    private readonly toUnicode: ReadonlyMap<number, string>,
+    private readonly ranges: readonly CodeRange[],
+    private readonly codeLength: number,
+    private readonly widths: ReadonlyMap<number, number>,
+    private readonly defaultWidth: number,
+    private readonly fallback: (code: number) => string
+  ) {}
+
+  /**
+   * 按码空间把字节串切分为字符码
+   */
+  codes(bytes: Buffer): { code: number; length: number }[] {
+    const codes: { code: number; length: number }[] = []
+    let i = 0
+    while (i < bytes.length) {
+      let length = Math.min(this.codeLength, bytes.length - i)
+      for (let n = 1; n <= 4 && i + n <= bytes.length && this.ranges.length > 0; n++) {
+        const code = bytesToInt(bytes.subarray(i, i + n))
+        if (this.ranges.some((r) => r.bytes === n && code >= r.low && code <= r.high)) {
+          length = n
+          break
+        }
+      }
+      codes.push({ code: bytesToInt(bytes.subarray(i, i + length)), length })
+      i += length
+    }
+    return codes
+  }
+
+  text(code: number): string {
+    return this.toUnicode.get(code) ?? this.fallback(code)
+  }
+
+  width(code: number): number {
+    return this.widths.get(code) ?? this.defaultWidth
+  }
+}
+
+// 未设置字体时使用（WinAnsi，固定字宽）
+const DEFAULT_FONT = new PdfFont(new Map(), [], 1, new Map(), 500, winAnsi)
+
+// ============ 文档 ============
+
+interface TextState {
+  font: PdfFont
+  size: number
+  charSpacing: number
+  wordSpacing: number
+  scale: number
+  leading: number
+}
+
+interface GraphicsState {
+  ctm: Matrix
+  text: TextState
+}
+
+function isCjk(ch: string): boolean {
+  return /[⺀-鿿가-힯豈-﫿＀-￯]/.test(ch)
+}
+
+/**
+ * 按文字位置拼接文本：换行依据基线变化，词间空格依据与上一段文字末尾的间距
+ */
+class TextBuilder {
+  private text = ''
+  private lastY = 0
+  private lastEndX = 0
+  private lastSize = 0
+
+  add(text: string, x: number, y: number, endX: number, size: number): void {
+    if (!text) return
+
+    if (this.text) {
+      const lineHeight = Math.max(size, this.lastSize)
+      const dy = Math.abs(y - this.lastY)
+      if (dy > lineHeight * 0.5) {
+        this.text += dy > lineHeight * 1.8 ? '\n\n' : '\n'
+      } else {
+        const gap = x - this.lastEndX
+        const prev = this.text[this.text.length - 1]!
+        if (
+          (gap > size * 0.2 || gap < -size) &&
+          !/\s/.test(prev) &&
+          !/^\s/.test(text) &&
+          !(isCjk(prev) && isCjk(text[0]!))
+        ) {
+          this.text += ' '
+        }
+      }
+    }
+
+    this.text += text
+    this.lastY = y
+    this.lastEndX = endX
+    this.lastSize = size
+  }
+
+  finish(): string {
+    return this.text
+      .split('\n')
+      .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  }
+}
+
+class PdfDocument {
+  private readonly text: string
+  private readonly offsets = new Map<number, number>()
+  private readonly headers: { pos: number; num: number }[] = []
+  private compressed: Map<number, { stream: number; offset: number }> | null = null
+  private readonly cache = new Map<number, PdfValue>()
+  private readonly loading = new Set<number>()
+  private readonly streamCache = new Map<number, Buffer | null>()
+  private readonly fonts = new Map<PdfDict, PdfFont>()
+
+  constructor(private readonly data: Buffer) {
+    this.text = data.toString('latin1')
+    // 后出现的定义覆盖先前的（增量更新）
+    for (const match of this.text.matchAll(/(?<!\d)(\d+)\s+(\d+)\s+obj\b/g)) {
+      const num = Number(match[1])
+      this.offsets.set(num, match.index + match[0].length)
+      this.headers.push({ pos: match.index, num })
+    }
+  }
+
+  get encrypted(): boolean {
+    return /\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/.test(this.text)
+  }
+
+  get(num: number): PdfValue {
+    if (this.cache.has(num)) return this.cache.get(num)!
+    if (this.loading.has(num)) return null
+
+    this.loading.add(num)
+    try {
+      let value: PdfValue = null
+      const offset = this.offsets.get(num)
+      if (offset !== undefined) {
+        value = this.parseObjectAt(offset)
+      } else {
+        const location = this.objectStreams().get(num)
+        if (location) {
+          const data = this.objectStreamData(location.stream)
+          const parsed = data ? new Lexer(data, location.offset).readValue() : undefined
+          value = parsed === undefined || parsed instanceof PdfKeyword ? null : parsed
+        }
+      }
+      this.cache.set(num, value)
+      return value
+    } finally {
+      this.loading.delete(num)
+    }
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    let current = value
+    for (let depth = 0; current instanceof PdfRef && depth < 32; depth++) {
+      current = this.get(current.num)
+    }
+    return current instanceof PdfRef ? undefined : current
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | null {
+    const resolved = this.resolve(value)
+    if (resolved instanceof Map) return resolved
+    return resolved instanceof PdfStream ? resolved.dict : null
+  }
+
+  name(value: PdfValue | undefined): string | undefined {
+    const resolved = this.resolve(value)
+    return resolved instanceof PdfName ? resolved.name : undefined
+  }
+
+  number(value: PdfValue | undefined): number | undefined {
+    const resolved = this.resolve(value)
+    return typeof resolved === 'number' ? resolved : undefined
+  }
+
+  array(value: PdfValue | undefined): PdfValue[] {
+    const resolved = this.resolve(value)
+    return Array.isArray(resolved) ? resolved : []
+  }
+
+  private parseObjectAt(offset: number): PdfValue {
+    const lexer = new Lexer(this.data, offset)
+    const value = lexer.readValue()
+    if (value === undefined || value instanceof PdfKeyword) return null
+    if (!(value instanceof Map)) return value
+
+    const next = lexer.next()
+    if (!(next instanceof PdfKeyword) || next.word !== 'stream') return value
+
+    let start = lexer.pos
+    if (this.data[start] === 13) start++
+    if (this.data[start] === 10) start++
+
+    // Length 可能错误或是间接对象，对不上时以 endstream 为准
+    const length = this.number(value.get('Length'))
+    let end = length !== undefined ? start + length : -1
+    if (
+      end < start ||
+      end > this.data.length ||
+      !this.data
+        .toString('latin1', end, end + 32)
+        .trimStart()
+        .startsWith('endstream')
+    ) {
+      end = this.data.indexOf('endstream', start, 'latin1')
+      if (end === -1) end = this.data.length
+      if (this.data[end - 1] === 10) end--
+      if (this.data[end - 1] === 13) end--
+    }
+
+    return new PdfStream(value, this.data.subarray(start, end))
+  }
+
+  /**
+   * 建立压缩对象（位于 /Type /ObjStm 对象流中）的位置索引
+   */
+  private objectStreams(): ReadonlyMap<number, { stream: number; offset: number }> {
+    if (this.compressed) return this.compressed
+    const compressed = new Map<number, { stream: number; offset: number }>()
+    this.compressed = compressed
+
+    for (const match of this.text.matchAll(/\/Type\s*\/ObjStm\b/g)) {
+      const header = this.headerBefore(match.index)
+      if (header === undefined) continue
+      const stream = this.get(header)
+      const data = this.objectStreamData(header)
+      if (!(stream instanceof PdfStream) || !data) continue
+
+      const count = this.number(stream.dict.get('N')) ?? 0
+      const first = this.number(stream.dict.get('First')) ?? 0
+      const lexer = new Lexer(data)
+      for (let i = 0; i < count; i++) {
+        const num = lexer.next()
+        const offset = lexer.next()
+        if (typeof num !== 'number' || typeof offset !== 'number') break
+        if (!this.offsets.has(num)) compressed.set(num, { stream: header, offset: first + offset })
+      }
+    }
+
+    return compressed
+  }
+
+  private objectStreamData(num: number): Buffer | null {
+    if (!this.streamCache.has(num)) {
+      const stream = this.get(num)
+      this.streamCache.set(num, stream instanceof PdfStream ? this.decode(stream) : null)
+    }
+    return this.streamCache.get(num)!
+  }
+
+  private headerBefore(pos: number): number | undefined {
+    let low = 0
+    let high = this.headers.length - 1
+    let found: number | undefined
+    while (low <= high) {
+      const mid = (low + high) >> 1
+      if (this.headers[mid]!.pos <= pos) {
+        found = this.headers[mid]!.num
+        low = mid + 1
+      } else {
+        high = mid - 1
+      }
+    }
+    return found
+  }
+
+  /**
+   * 解码流数据；遇到不支持的过滤器（图像压缩等）返回 null
+   */
+  decode(stream: PdfStream): Buffer | null {
+    const filter = this.resolve(stream.dict.get('Filter'))
+    const filters = Array.isArray(filter) ? filter : filter ? [filter] : []
+    let data = stream.raw
+
+    for (const item of filters) {
+      switch (this.name(item)) {
+        case 'FlateDecode':
+        case 'Fl':
+          try {
+            data = inflateSync(data, { maxOutputLength: MAX_STREAM_SIZE })
+          } catch {
+            try {
+              // 截断或尾部损坏的数据
+              data = inflateSync(data, {
+                finishFlush: constants.Z_SYNC_FLUSH,
+                maxOutputLength: MAX_STREAM_SIZE,
+              })
+            } catch {
+              return null
+            }
+          }
+          break
+        case 'ASCIIHexDecode':
+        case 'AHx': {
+          let hex = data
+            .toString('latin1')
+            .split('>')[0]!
+            .replace(/[^0-9a-fA-F]/g, '')
+          if (hex.length % 2 === 1) hex += '0'
+          data = Buffer.from(hex, 'hex')
+          break
+        }
+        case 'ASCII85Decode':
+        case 'A85':
+          data = decodeAscii85(data)
+          break
+        default:
+          return null
+      }
+    }
+
+    return data
+  }
+
+  catalog(): PdfDict | null {
+    const roots = [...this.text.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)]
+    for (const match of roots.reverse()) {
+      const catalog = this.dict(this.get(Number(match[1])))
+      if (catalog?.has('Pages')) return catalog
+    }
+
+    const match = /\/Type\s*\/Catalog\b/.exec(this.text)
+    const header = match ? this.headerBefore(match.index) : undefined
+    return header !== undefined ? this.dict(this.get(header)) : null
+  }
+
+  title(): string | undefined {
+    const match = [...this.text.matchAll(/\/Info\s+(\d+)\s+\d+\s+R/g)].pop()
+    const info = match ? this.dict(this.get(Number(match[1]))) : null
+    const title = this.resolve(info?.get('Title'))
+    return Buffer.isBuffer(title) ? decodeTextString(title).trim() || undefined : undefined
+  }
+
+  /**
+   * 遍历页面树，Resources 可从父节点继承
+   */
+  pages(): { dict: PdfDict; resources: PdfDict | null }[] {
+    const pages: { dict: PdfDict; resources: PdfDict | null }[] = []
+    const visited = new Set<PdfDict>()
+
+    const walk = (node: PdfValue | undefined, inherited: PdfDict | null): void => {
+      const dict = this.dict(node)
+      if (!dict || visited.has(dict)) return
+      visited.add(dict)
+
+      const resources = this.dict(dict.get('Resources')) ?? inherited
+      const kids = this.resolve(dict.get('Kids'))
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(kid, resources)
+      } else if (this.name(dict.get('Type')) !== 'Pages') {
+        pages.push({ dict, resources })
+      }
+    }
+
+    walk(this.catalog()?.get('Pages'), null)
+    return pages
+  }
+
+  pageContent(page: PdfDict): Buffer {
+    const contents = this.resolve(page.get('Contents'))
+    const streams = Array.isArray(contents) ? contents.map((c) => this.resolve(c)) : [contents]
+    const parts: Buffer[] = []
+    for (const stream of streams) {
+      const data = stream instanceof PdfStream ? this.decode(stream) : null
+      if (data) parts.push(data, Buffer.from('\n'))
+    }
+    return Buffer.concat(parts)
+  }
+
+  font(value: PdfValue | undefined): PdfFont {
+    const dict = this.dict(value)
+    if (!dict) return DEFAULT_FONT
+
+    let font = this.fonts.get(dict)
+    if (!font) {
+      font = this.loadFont(dict)
+      this.fonts.set(dict, font)
+    }
+    return font
+  }
+
+  private loadFont(dict: PdfDict): PdfFont {
+    const toUnicodeStream = this.resolve(dict.get('ToUnicode'))
+    const toUnicodeData = toUnicodeStream instanceof PdfStream ? this.decode(toUnicodeStream) : null
+    const cmap = toUnicodeData ? parseCMap(toUnicodeData) : { ranges: [], map: new Map() }
+
+    if (this.name(dict.get('Subtype')) === 'Type0') {
+      const encoding = this.name(dict.get('Encoding')) ?? ''
+      const descendant = this.dict(this.array(dict.get('DescendantFonts'))[0])
+      const widths = new Map<number, number>()
+
+      // W: [c [w1 w2 ...]] 或 [cFirst cLast w]
+      const w = this.array(descendant?.get('W'))
+      for (let i = 0; i < w.length; ) {
+        const first = this.number(w[i])
+        const next = this.resolve(w[i + 1])
+        if (first === undefined) break
+        if (Array.isArray(next)) {
+          next.forEach((width, k) => widths.set(first + k, this.number(width) ?? 0))
+          i += 2
+        } else {
+          const last = this.number(next) ?? first
+          const width = this.number(w[i + 2]) ?? 0
+          for (let code = first; code <= last && code - first < 0xffff; code++) {
+            widths.set(code, width)
+          }
+          i += 3
+        }
+      }
+
+      // 预定义的 UCS2 / UTF16 CMap 中字符码即为 Unicode
+      const fallback = /UCS2|UTF16/.test(encoding)
+        ? (code: number): string => String.fromCharCode(code)
+        : (): string => ''
+      return new PdfFont(
+        cmap.map,
+        cmap.ranges,
+        2,
+        widths,
+        this.number(descendant?.get('DW')) ?? 1000,
+        fallback
+      )
+    }
+
+    // 简单字体：基础编码 + Differences
+    const differences = new Map<number, string>()
+    const encoding = this.resolve(dict.get('Encoding'))
+    if (encoding instanceof Map) {
+      let code = 0
+      for (const item of this.array(encoding.get('Differences'))) {
+        if (typeof item === 'number') {
+          code = item
+        } else if (item instanceof PdfName) {
+          differences.set(code++, glyphToUnicode(item.name))
+        }
+      }
+    }
+
+    const widths = new Map<number, number>()
+    const firstChar = this.number(dict.get('FirstChar')) ?? 0
+    const widthArray = this.array(dict.get('Widths'))
+    widthArray.forEach((width, i) => widths.set(firstChar + i, this.number(width) ?? 0))
+    const descriptor = this.dict(dict.get('FontDescriptor'))
+    const defaultWidth =
+      widthArray.length > 0 ? (this.number(descriptor?.get('MissingWidth')) ?? 0) : 500
+
+    return new PdfFont(cmap.map, cmap.ranges, 1, widths, defaultWidth, (code) =>
+      differences.has(code) ? differences.get(code)! : winAnsi(code)
+    )
+  }
+
+  /**
+   * 解释内容流中的文本相关操作符，Form XObject 递归处理
+   */
+  interpret(
+    content: Buffer,
+    resources: PdfDict | null,
+    ctm: Matrix,
+    builder: TextBuilder,
+    visited: Set<PdfStream> = new Set()
+  ): void {
+    const lexer = new Lexer(content)
+    const fonts = this.dict(resources?.get('Font'))
+    const xobjects = this.dict(resources?.get('XObject'))
+
+    let state: GraphicsState = {
+      ctm,
+      text: {
+        font: DEFAULT_FONT,
+        size: 0,
+        charSpacing: 0,
+        wordSpacing: 0,
+        scale: 1,
+        leading: 0,
+      },
+    }
+    const stack: GraphicsState[] = []
+    let tm: Matrix = IDENTITY
+    let tlm: Matrix = IDENTITY
+    let operands: PdfValue[] = []
+
+    const moveText = (tx: number, ty: number): void => {
+      tlm = multiply([1, 0, 0, 1, tx, ty], tlm)
+      tm = tlm
+    }
+
+    const show = (bytes: Buffer): void => {
+      const { font, size, charSpacing, wordSpacing, scale } = state.text
+      const start = multiply(tm, state.ctm)
+      const effectiveSize = Math.abs(size) * Math.hypot(start[2], start[3]) || 1
+
+      let text = ''
+      for (const { code, length } of font.codes(bytes)) {
+        text += font.text(code)
+        const spacing = length === 1 && code === 32 ? wordSpacing : 0
+        const tx = ((font.width(code) / 1000) * size + charSpacing + spacing) * scale
+        tm = [tm[0], tm[1], tm[2], tm[3], tm[4] + tx * tm[0], tm[5] + tx * tm[1]]
+      }
+
+      const end = multiply(tm, state.ctm)
+      builder.add(text, start[4], start[5], end[4], effectiveSize)
+    }
+
+    const num = (index: number): number => {
+      const value = operands[index]
+      return typeof value === 'number' ? value : 0
+    }
+
+    for (let token = lexer.readValue(false); token !== undefined; token = lexer.readValue(false)) {
+      if (!(token instanceof PdfKeyword)) {
+        operands.push(token)
+        continue
+      }
+
+      switch (token.word) {
+        case 'q':
+          stack.push({ ctm: state.ctm, text: { ...state.text } })
+          break
+        case 'Q':
+          state = stack.pop() ?? state
+          break
+        case 'cm':
+          if (operands.length >= 6) {
+            state.ctm = multiply([num(0), num(1), num(2), num(3), num(4), num(5)], state.ctm)
+          }
+          break
+        case 'BT':
+          tm = IDENTITY
+          tlm = IDENTITY
+          break
+        case 'Tf': {
+          const name = operands[0]
+          state.text.font =
+            name instanceof PdfName ? this.font(fonts?.get(name.name)) : DEFAULT_FONT
+          state.text.size = num(1)
+          break
+        }
+        case 'Tc':
+          state.text.charSpacing = num(0)
+          break
+        case 'Tw':
+          state.text.wordSpacing = num(0)
+          break
+        case 'Tz':
+          state.text.scale = num(0) / 100
+          break
+        case 'TL':
+          state.text.leading = num(0)
+          break
+        case 'Td':
+          moveText(num(0), num(1))
+          break
+        case 'TD':
+          state.text.leading = -num(1)
+          moveText(num(0), num(1))
+          break
+        case 'Tm':
+          tlm = [num(0), num(1), num(2), num(3), num(4), num(5)]
+          tm = tlm
+          break
+        case 'T*':
+          moveText(0, -state.text.leading)
+          break
+        case "'": {
+          moveText(0, -state.text.leading)
+          const text = operands[0]
+          if (Buffer.isBuffer(text)) show(text)
+          break
+        }
+        case '"': {
+          state.text.wordSpacing = num(0)
+          state.text.charSpacing = num(1)
+          moveText(0, -state.text.leading)
+          const text = operands[2]
+          if (Buffer.isBuffer(text)) show(text)
+          break
+        }
+        case 'Tj': {
+          const text = operands[0]
+          if (Buffer.isBuffer(text)) show(text)
+          break
+        }
+        case 'TJ': {
+          const items = operands[0]
+          if (!Array.isArray(items)) break
+          for (const item of items) {
+            if (Buffer.isBuffer(item)) {
+              show(item)
+            } else if (typeof item === 'number') {
+              const tx = (-item / 1000) * state.text.size * state.text.scale
+              tm = [tm[0], tm[1], tm[2], tm[3], tm[4] + tx * tm[0], tm[5] + tx * tm[1]]
+            }
+          }
+          break
+        }
+        case 'Do': {
+          const name = operands[0]
+          const xobject = name instanceof PdfName ? this.resolve(xobjects?.get(name.name)) : null
+          if (
+            xobject instanceof PdfStream &&
+            this.name(xobject.dict.get('Subtype')) === 'Form' &&
+            !visited.has(xobject) &&
+            visited.size < 32
+          ) {
+            const data = this.decode(xobject)
+            const m = this.array(xobject.dict.get('Matrix')).map((v) => this.number(v) ?? 0)
+            const matrix: Matrix =
+              m.length === 6 ? [m[0]!, m[1]!, m[2]!, m[3]!, m[4]!, m[5]!] : IDENTITY
+            if (data) {
+              visited.add(xobject)
+              this.interpret(
+                data,
+                this.dict(xobject.dict.get('Resources')) ?? resources,
+                multiply(matrix, state.ctm),
+                builder,
+                visited
+              )
+              visited.delete(xobject)
+            }
+          }
+          break
+        }
+        case 'ID':
+          lexer.skipInlineImage()
+          break
+      }
+      operands = []
+    }
+  }
+}
+
+function decodeAscii85(data: Buffer): Buffer {
+  const source = data.toString('latin1').split('~>')[0]!.replace(/^<~/, '').replace(/\s+/g, '')
+  const out: number[] = []
+  let group: number[] = []
+
+  const flush = (count: number): void => {
+    while (group.length < 5) group.push(84)
+    const value = group.reduce((acc, c) => acc * 85 + c, 0)
+    const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+    out.push(...bytes.slice(0, count))
+    group = []
+  }
+
+  for (const ch of source) {
+    if (ch === 'z' && group.length === 0) {
+      out.push(0, 0, 0, 0)
+      continue
+    }
+    const c = ch.charCodeAt(0) - 33
+    if (c < 0 || c > 84) continue
+    group.push(c)
+    if (group.length === 5) flush(4)
+  }
+  if (group.length > 1) flush(group.length - 1)
+
+  return Buffer.from(out)
+}
+
+/**
+ * PDF：每页一个分段（page 从 1 开始），标题取自 /Info
+ */
+export const pdfExtractor: DocumentExtractor = {
+  name: 'pdf',
+  extensions: ['.pdf'],
+  extract(data): ExtractedDocument {
+    if (data.toString('latin1', 0, 1024).indexOf('%PDF-') === -1) {
+      throw new Error('Invalid PDF: missing header')
+    }
+
+    const doc = new PdfDocument(data)
+    if (doc.encrypted) throw new Error('Encrypted PDF is not supported')
+
+    const sections: ExtractedSection[] = []
+    doc.pages().forEach((page, i) => {
+      const builder = new TextBuilder()
+      doc.interpret(doc.pageContent(page.dict), page.resources, IDENTITY, builder)
+      const text = builder.finish()
+      if (text) sections.push({ text, page: i + 1 })
+    })
+
+    return { format: 'pdf', title: doc.title(), sections }
+  },
+}
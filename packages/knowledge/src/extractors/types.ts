@@ -0,0 +1,30 @@
+/**
+ * 文档中的一段连续文本及其位置（页码、章节、表格行号）
+ */
+export interface ExtractedSection {
+  readonly text: string
+  // PDF / DOCX 页码（从 1 开始）
+  readonly page?: number | undefined
+  // 所在章节或标题
+  readonly section?: string | undefined
+  // EPUB 章节序号（从 1 开始）
+  readonly chapter?: number | undefined
+  // CSV/TSV 数据行号（从 1 开始，不含表头）
+  readonly row?: number | undefined
+}
+
+export interface ExtractedDocument {
+  readonly format: string
+  readonly title?: string | undefined
+  readonly sections: readonly ExtractedSection[]
+}
+
+/**
+ * 文档提取器：将二进制文件转换为带位置信息的文本段
+ */
+export interface DocumentExtractor {
+  readonly name: string
+  // 小写扩展名（含点）
+  readonly extensions: readonly string[]
+  extract(data: Buffer, filePath: string): ExtractedDocument | Promise<ExtractedDocument>
+}
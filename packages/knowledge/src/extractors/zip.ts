@@ -0,0 +1,98 @@
+import { inflateRawSync } from 'node:zlib'
+
+export interface ZipEntry {
+  readonly name: string
+  readonly size: number
+  read(): Buffer
+}
+
+const EOCD_SIGNATURE = 0x06054b50
+const CENTRAL_SIGNATURE = 0x02014b50
+const LOCAL_SIGNATURE = 0x04034b50
+// 单个条目解压后的上限，防止 ZIP 炸弹
+const MAX_ENTRY_SIZE = 64 * 1024 * 1024
+
+/**
+ * 读取 ZIP 中央目录（DOCX / EPUB 容器），条目内容按需解压
+ * 仅支持 store 和 deflate，不支持 ZIP64 和加密
+ */
+export function readZip(data: Buffer): ReadonlyMap<string, ZipEntry> {
+  // 中央目录结束记录位于文件末尾，之后最多跟 65535 字节的注释
+  let eocd = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) throw new Error('Not a ZIP archive')
+
+  const count = data.readUInt16LE(eocd + 10)
+  let offset = data.readUInt32LE(eocd + 16)
+  if (offset === 0xffffffff) throw new Error('ZIP64 archives are not supported')
+
+  const entries = new Map<string, ZipEntry>()
+  for (let i = 0; i < count; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory')
+    }
+
+    const flags = data.readUInt16LE(offset + 8)
+    const method = data.readUInt16LE(offset + 10)
+    const compressedSize = data.readUInt32LE(offset + 20)
+    const size = data.readUInt32LE(offset + 24)
+    const nameLength = data.readUInt16LE(offset + 28)
+    const extraLength = data.readUInt16LE(offset + 30)
+    const commentLength = data.readUInt16LE(offset + 32)
+    const localOffset = data.readUInt32LE(offset + 42)
+    const nameBytes = data.subarray(offset + 46, offset + 46 + nameLength)
+    // bit 11：文件名为 UTF-8
+    const name = nameBytes.toString(flags & 0x800 ? 'utf-8' : 'latin1')
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+
+    entries.set(name, {
+      name,
+      size,
+      read: () => {
+        if (flags & 0x1) throw new Error(`Encrypted ZIP entry: ${name}`)
+        if (size > MAX_ENTRY_SIZE) throw new Error(`ZIP entry too large: ${name}`)
+        if (data.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+          throw new Error(`Corrupt ZIP entry: ${name}`)
+        }
+        const start =
+          localOffset +
+          30 +
+          data.readUInt16LE(localOffset + 26) +
+          data.readUInt16LE(localOffset + 28)
+        const raw = data.subarray(start, start + compressedSize)
+        if (method === 0) return Buffer.from(raw)
+        if (method === 8) {
+          // 解压结果不得超过中央目录声明的大小
+          try {
+            return inflateRawSync(raw, { maxOutputLength: Math.max(1, size) })
+          } catch (error) {
+            if (error instanceof RangeError) {
+              throw new Error(`ZIP entry exceeds its declared size: ${name}`)
+            }
+            throw error
+          }
+        }
+        throw new Error(`Unsupported ZIP compression method ${method}: ${name}`)
+      },
+    })
+  }
+
+  return entries
+}
+
+/**
+ * 读取 ZIP 中的文本文件，不存在时返回 undefined
+ */
+export function readZipText(
+  entries: ReadonlyMap<string, ZipEntry>,
+  name: string
+): string | undefined {
+  return entries.get(name)?.read().toString('utf-8')
+}
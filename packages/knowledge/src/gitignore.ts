@@ -0,0 +1,102 @@
+export interface IgnoreRule {
+  // .gitignore 所在目录（相对扫描根目录，'' 表示根目录）
+  readonly base: string
+  readonly pattern: RegExp
+  readonly negate: boolean
+  readonly dirOnly: boolean
+}
+
+/**
+ * glob 片段转正则（* 不跨目录，** 跨任意层目录）
+ */
+function globToRegExp(glob: string): string {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // "**/" 匹配零或多层目录，末尾 "**" 匹配全部
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?'
+          i += 2
+        } else {
+          source += '.*'
+          i++
+        }
+      } else {
+        source += '[^/]*'
+      }
+    } else if (ch === '?') {
+      source += '[^/]'
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i + 1)
+      if (close === -1) {
+        source += '\\['
+      } else {
+        const range = glob.slice(i + 1, close).replace(/^!/, '^')
+        source += `[${range.replace(/\\/g, '\\\\')}]`
+        i = close
+      }
+    } else if (ch === '\\' && i + 1 < glob.length) {
+      source += glob[i + 1]!.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+      i++
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    }
+  }
+  return source
+}
+
+/**
+ * 解析 .gitignore 内容
+ * 支持注释、! 取反、结尾 / 仅匹配目录、含 / 的模式相对 .gitignore 所在目录锚定
+ */
+export function parseGitignore(content: string, base = ''): readonly IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '')
+    if (!line || line.startsWith('#')) continue
+
+    const negate = line.startsWith('!')
+    if (negate) line = line.slice(1)
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1)
+
+    const dirOnly = line.endsWith('/')
+    if (dirOnly) line = line.slice(0, -1)
+    if (!line) continue
+
+    // 模式中（除末尾外）含 / 时相对所在目录匹配，否则匹配任意层级的名称
+    const anchored = line.includes('/')
+    if (line.startsWith('/')) line = line.slice(1)
+
+    const body = globToRegExp(line)
+    const pattern = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`)
+    rules.push({ base, pattern, negate, dirOnly })
+  }
+
+  return rules
+}
+
+/**
+ * 判断相对扫描根目录的路径（以 / 分隔）是否被忽略，后出现的规则优先
+ */
+export function isIgnored(rules: readonly IgnoreRule[], relPath: string, isDir: boolean): boolean {
+  let ignored = false
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue
+
+    let target = relPath
+    if (rule.base) {
+      if (!relPath.startsWith(rule.base + '/')) continue
+      target = relPath.slice(rule.base.length + 1)
+    }
+
+    if (rule.pattern.test(target)) {
+      ignored = !rule.negate
+    }
+  }
+
+  return ignored
+}
@@ -0,0 +1,511 @@
+/**
+ * HNSW（Hierarchical Navigable Small World）近似最近邻索引
+ *
+ * 向量写入时归一化，相似度为余弦相似度（内积）。删除为标记删除，
+ * 已删除节点仍参与图遍历以保持连通性，墓碑过多时通过 compact() 重建。
+ */
+
+export interface HnswOptions {
+  // 每层最大连接数（第 0 层为 2M）
+  readonly m?: number | undefined
+  // 构建时的候选列表大小
+  readonly efConstruction?: number | undefined
+  // 查询时的候选列表大小
+  readonly efSearch?: number | undefined
+  // 层级随机数种子（保证重建结果可复现）
+  readonly seed?: number | undefined
+}
+
+export interface HnswHit {
+  readonly id: string
+  readonly score: number
+}
+
+interface Candidate {
+  readonly node: number
+  readonly dist: number
+}
+
+const DEFAULT_M = 16
+const DEFAULT_EF_CONSTRUCTION = 200
+const DEFAULT_EF_SEARCH = 64
+const FORMAT_VERSION = 1
+
+/**
+ * 二叉堆，compare(a, b) < 0 时 a 位于堆顶
+ */
+class Heap<T> {
+  private readonly items: T[] = []
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length
+  }
+
+  peek(): T | undefined {
+    return this.items[0]
+  }
+
+  push(item: T): void {
+    const items = this.items
+    items.push(item)
+    let i = items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (this.compare(items[i]!, items[parent]!) >= 0) break
+      ;[items[i], items[parent]] = [items[parent]!, items[i]!]
+      i = parent
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items
+    const top = items[0]
+    const last = items.pop()
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last
+      let i = 0
+      for (;;) {
+        const left = i * 2 + 1
+        const right = left + 1
+        let next = i
+        if (left < items.length && this.compare(items[left]!, items[next]!) < 0) next = left
+        if (right < items.length && this.compare(items[right]!, items[next]!) < 0) next = right
+        if (next === i) break
+        ;[items[i], items[next]] = [items[next]!, items[i]!]
+        i = next
+      }
+    }
+    return top
+  }
+
+  toArray(): T[] {
+    return [...this.items]
+  }
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * b[i]!
+  }
+  return sum
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i]! * vector[i]!
+  }
+  norm = Math.sqrt(norm)
+  const result = new Float32Array(vector.length)
+  if (norm === 0) return result
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = vector[i]! / norm
+  }
+  return result
+}
+
+export class HnswIndex {
+  readonly m: number
+  readonly efConstruction: number
+  efSearch: number
+
+  private dims = 0
+  private readonly ids: string[] = []
+  private readonly vectors: Float32Array[] = []
+  private readonly levels: number[] = []
+  // links[node][level] = 邻居节点下标
+  private readonly links: number[][][] = []
+  private readonly deleted: boolean[] = []
+  private readonly idToNode = new Map<string, number>()
+  private deletedCount = 0
+  private entryPoint = -1
+  private maxLevel = -1
+  private rngState: number
+  private readonly levelMult: number
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m ?? DEFAULT_M
+    this.efConstruction = options.efConstruction ?? DEFAULT_EF_CONSTRUCTION
+    this.efSearch = options.efSearch ?? DEFAULT_EF_SEARCH
+    this.rngState = options.seed ?? 42
+    this.levelMult = 1 / Math.log(this.m)
+  }
+
+  get dimensions(): number {
+    return this.dims
+  }
+
+  // 有效（未删除）向量数
+  get size(): number {
+    return this.ids.length - this.deletedCount
+  }
+
+  get deletedSize(): number {
+    return this.deletedCount
+  }
+
+  has(id: string): boolean {
+    return this.idToNode.has(id)
+  }
+
+  /**
+   * 墓碑超过 1/4 时建议 compact
+   */
+  needsCompaction(): boolean {
+    return this.deletedCount > 0 && this.deletedCount * 4 > this.ids.length
+  }
+
+  // mulberry32
+  private random(): number {
+    this.rngState = (this.rngState + 0x6d2b79f5) | 0
+    let t = this.rngState
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - this.random()) * this.levelMult)
+  }
+
+  private distance(a: number, b: Float32Array): number {
+    return 1 - dot(this.vectors[a]!, b)
+  }
+
+  /**
+   * 在指定层从入口点出发做贪心 beam search，返回按距离升序的最多 ef 个节点
+   */
+  private searchLayer(
+    query: Float32Array,
+    entryPoints: readonly number[],
+    ef: number,
+    level: number
+  ): Candidate[] {
+    const visited = new Set<number>(entryPoints)
+    const candidates = new Heap<Candidate>((a, b) => a.dist - b.dist)
+    const results = new Heap<Candidate>((a, b) => b.dist - a.dist)
+
+    for (const node of entryPoints) {
+      const candidate = { node, dist: this.distance(node, query) }
+      candidates.push(candidate)
+      results.push(candidate)
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!
+      if (results.size >= ef && current.dist > results.peek()!.dist) break
+
+      for (const neighbor of this.links[current.node]![level] ?? []) {
+        if (visited.has(neighbor)) continue
+        visited.add(neighbor)
+
+        const dist = this.distance(neighbor, query)
+        if (results.size < ef || dist < results.peek()!.dist) {
+          const candidate = { node: neighbor, dist }
+          candidates.push(candidate)
+          results.push(candidate)
+          if (results.size > ef) results.pop()
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.dist - b.dist)
+  }
+
+  /**
+   * 启发式邻居选择：优先保留彼此不太接近的候选，提升图的连通性
+   */
+  private selectNeighbors(candidates: readonly Candidate[], max: number): Candidate[] {
+    const selected: Candidate[] = []
+    const skipped: Candidate[] = []
+
+    for (const candidate of candidates) {
+      if (selected.length >= max) break
+      const vector = this.vectors[candidate.node]!
+      const diverse = selected.every((s) => this.distance(s.node, vector) > candidate.dist)
+      if (diverse) {
+        selected.push(candidate)
+      } else {
+        skipped.push(candidate)
+      }
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= max) break
+      selected.push(candidate)
+    }
+
+    return selected
+  }
+
+  /**
+   * 写入向量；id 已存在时替换旧向量
+   */
+  add(id: string, vector: Float32Array): void {
+    if (this.dims === 0) {
+      this.dims = vector.length
+    } else if (vector.length !== this.dims) {
+      throw new Error(`Vector dimension mismatch: expected ${this.dims}, got ${vector.length}`)
+    }
+
+    this.remove(id)
+
+    const node = this.ids.length
+    const level = this.randomLevel()
+    const normalized = normalize(vector)
+    this.ids.push(id)
+    this.vectors.push(normalized)
+    this.levels.push(level)
+    this.links.push(Array.from({ length: level + 1 }, () => []))
+    this.deleted.push(false)
+    this.idToNode.set(id, node)
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node
+      this.maxLevel = level
+      return
+    }
+
+    let entry = this.entryPoint
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = this.searchLayer(normalized, [entry], 1, l)[0]!.node
+    }
+
+    let entryPoints = [entry]
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(normalized, entryPoints, this.efConstruction, l)
+      const neighbors = this.selectNeighbors(candidates, this.m)
+      this.links[node]![l] = neighbors.map((n) => n.node)
+
+      const maxLinks = l === 0 ? this.m * 2 : this.m
+      for (const neighbor of neighbors) {
+        const list = this.links[neighbor.node]![l]!
+        list.push(node)
+        if (list.length > maxLinks) {
+          const vector = this.vectors[neighbor.node]!
+          const ranked = list
+            .map((n) => ({ node: n, dist: this.distance(n, vector) }))
+            .sort((a, b) => a.dist - b.dist)
+          this.links[neighbor.node]![l] = this.selectNeighbors(ranked, maxLinks).map((n) => n.node)
+        }
+      }
+
+      entryPoints = candidates.map((c) => c.node)
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level
+      this.entryPoint = node
+    }
+  }
+
+  /**
+   * 标记删除，返回是否存在
+   */
+  remove(id: string): boolean {
+    const node = this.idToNode.get(id)
+    if (node === undefined) return false
+    this.idToNode.delete(id)
+    this.deleted[node] = true
+    this.deletedCount++
+    return true
+  }
+
+  /**
+   * 近似 top-k 检索，score 为余弦相似度
+   */
+  search(query: Float32Array, k: number, ef: number = this.efSearch): readonly HnswHit[] {
+    if (this.size === 0 || k <= 0) return []
+    if (query.length !== this.dims) {
+      throw new Error(`Vector dimension mismatch: expected ${this.dims}, got ${query.length}`)
+    }
+
+    const normalized = normalize(query)
+    let entry = this.entryPoint
+    for (let l = this.maxLevel; l > 0; l--) {
+      entry = this.searchLayer(normalized, [entry], 1, l)[0]!.node
+    }
+
+    // 墓碑会占用候选位置，按比例放大 ef
+    const liveRatio = this.size / this.ids.length
+    const width = Math.ceil(Math.max(ef, k) / liveRatio)
+
+    return this.searchLayer(normalized, [entry], width, 0)
+      .filter((c) => !this.deleted[c.node])
+      .slice(0, k)
+      .map((c) => ({ id: this.ids[c.node]!, score: 1 - c.dist }))
+  }
+
+  /**
+   * 暴力检索（用于估计召回率）
+   */
+  exactSearch(query: Float32Array, k: number): readonly HnswHit[] {
+    const normalized = normalize(query)
+    const hits: HnswHit[] = []
+    for (let node = 0; node < this.ids.length; node++) {
+      if (this.deleted[node]) continue
+      hits.push({ id: this.ids[node]!, score: dot(this.vectors[node]!, normalized) })
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, k)
+  }
+
+  /**
+   * 抽样若干已有向量作为查询，估计 recall@k（与暴力检索结果的重合比例）
+   */
+  estimateRecall(sampleSize = 20, k = 10): number | null {
+    const live = this.ids.map((_, node) => node).filter((node) => !this.deleted[node])
+    if (live.length === 0) return null
+
+    const step = Math.max(1, Math.floor(live.length / sampleSize))
+    let found = 0
+    let total = 0
+    for (let i = 0; i < live.length && i / step < sampleSize; i += step) {
+      const query = this.vectors[live[i]!]!
+      const expected = this.exactSearch(query, k)
+      const actual = new Set(this.search(query, k).map((hit) => hit.id))
+      found += expected.filter((hit) => actual.has(hit.id)).length
+      total += expected.length
+    }
+
+    return total === 0 ? null : found / total
+  }
+
+  /**
+   * 去掉已删除节点重建索引
+   */
+  compact(): HnswIndex {
+    const index = new HnswIndex({
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      seed: this.rngState,
+    })
+    for (let node = 0; node < this.ids.length; node++) {
+      if (!this.deleted[node]) index.add(this.ids[node]!, this.vectors[node]!)
+    }
+    return index
+  }
+
+  /**
+   * 序列化为二进制：[u32 头部长度][JSON 头部][补齐 4 字节][float32 向量][u32 邻接表]
+   * meta 随头部一起保存，供调用方记录额外信息
+   */
+  serialize(meta: Record<string, unknown> = {}): Buffer {
+    const header = Buffer.from(
+      JSON.stringify({
+        version: FORMAT_VERSION,
+        m: this.m,
+        efConstruction: this.efConstruction,
+        efSearch: this.efSearch,
+        rngState: this.rngState,
+        dimensions: this.dims,
+        entryPoint: this.entryPoint,
+        maxLevel: this.maxLevel,
+        ids: this.ids,
+        levels: this.levels,
+        deleted: this.deleted.flatMap((d, node) => (d ? [node] : [])),
+        meta,
+      }),
+      'utf-8'
+    )
+    const headerEnd = 4 + header.length
+    const vectorsStart = Math.ceil(headerEnd / 4) * 4
+
+    const linkWords: number[] = []
+    for (const nodeLinks of this.links) {
+      for (const list of nodeLinks) {
+        linkWords.push(list.length, ...list)
+      }
+    }
+
+    const buffer = Buffer.alloc(
+      vectorsStart + this.ids.length * this.dims * 4 + linkWords.length * 4
+    )
+    buffer.writeUInt32LE(header.length, 0)
+    header.copy(buffer, 4)
+
+    let offset = vectorsStart
+    for (const vector of this.vectors) {
+      for (let i = 0; i < vector.length; i++, offset += 4) {
+        buffer.writeFloatLE(vector[i]!, offset)
+      }
+    }
+    for (const word of linkWords) {
+      buffer.writeUInt32LE(word, offset)
+      offset += 4
+    }
+
+    return buffer
+  }
+
+  static deserialize(buffer: Buffer): { index: HnswIndex; meta: Record<string, unknown> } {
+    const headerLength = buffer.readUInt32LE(0)
+    const header = JSON.parse(buffer.subarray(4, 4 + headerLength).toString('utf-8')) as {
+      version: number
+      m: number
+      efConstruction: number
+      efSearch: number
+      rngState: number
+      dimensions: number
+      entryPoint: number
+      maxLevel: number
+      ids: string[]
+      levels: number[]
+      deleted: number[]
+      meta: Record<string, unknown>
+    }
+    if (header.version !== FORMAT_VERSION) {
+      throw new Error(`Unsupported HNSW index version: ${header.version}`)
+    }
+
+    const index = new HnswIndex({
+      m: header.m,
+      efConstruction: header.efConstruction,
+      efSearch: header.efSearch,
+      seed: header.rngState,
+    })
+    index.dims = header.dimensions
+    index.entryPoint = header.entryPoint
+    index.maxLevel = header.maxLevel
+
+    let offset = Math.ceil((4 + headerLength) / 4) * 4
+    for (const id of header.ids) {
+      const vector = new Float32Array(header.dimensions)
+      for (let i = 0; i < vector.length; i++, offset += 4) {
+        vector[i] = buffer.readFloatLE(offset)
+      }
+      index.idToNode.set(id, index.ids.length)
+      index.ids.push(id)
+      index.vectors.push(vector)
+      index.deleted.push(false)
+    }
+
+    for (const level of header.levels) {
+      const nodeLinks: number[][] = []
+      for (let l = 0; l <= level; l++) {
+        const count = buffer.readUInt32LE(offset)
+        offset += 4
+        const list: number[] = []
+        for (let i = 0; i < count; i++, offset += 4) {
+          list.push(buffer.readUInt32LE(offset))
+        }
+        nodeLinks.push(list)
+      }
+      index.levels.push(level)
+      index.links.push(nodeLinks)
+    }
+
+    for (const node of header.deleted) {
+      const id = index.ids[node]!
+      index.deleted[node] = true
+      // 被替换的旧向量与新向量同 id
+      if (index.idToNode.get(id) === node) index.idToNode.delete(id)
+      index.deletedCount++
+    }
+
+    return { index, meta: header.meta }
+  }
+}
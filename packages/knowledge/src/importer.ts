@@ -1,10 +1,21 @@
 import { promises as fs } from 'node:fs'
+import { createHash } from 'node:crypto'
 import * as path from 'node:path'
 import * as os from 'node:os'
 import { createModuleLogger } from '@wqbot/core'
-import { chunkDocument, type ChunkerOptions } from './chunker.js'
+import {
+  chunkDocument,
+  chunkSections,
+  type ChunkResult,
+  type ChunkerOptions,
+  type SectionChunkResult,
+} from './chunker.js'
+import { chunkCode, detectLanguage, type CodeChunkResult } from './code-chunker.js'
+import { getExtractor } from './extractors/index.js'
+import { parseGitignore, isIgnored, type IgnoreRule } from './gitignore.js'
 import { getKnowledgeDB, type CreateChunkInput } from './database.js'
 import { embedTexts, type EmbedderConfig } from './embedder.js'
+import type { KnowledgeSyncEvent } from './types.js'
 
 const logger = createModuleLogger('knowledge-importer')
 
@@ -12,42 +23,115 @@ export interface ImportOptions {
   readonly collectionId: string
   readonly chunkerOptions?: ChunkerOptions | undefined
   readonly embedderConfig?: EmbedderConfig | null | undefined
+  // 每个新增、更新、删除或失败的文件回调一次
+  readonly onProgress?: ((progress: ImportProgress) => void) | undefined
 }
 
+export type ImportProgress = Omit<KnowledgeSyncEvent, 'collection'>
+
 export interface ImportResult {
   readonly filesProcessed: number
   readonly chunksCreated: number
   readonly filesSkipped: number
+  readonly filesRemoved: number
+}
+
+/**
+ * 监听到的文件变更
+ */
+export interface FileChange {
+  readonly path: string
+  readonly deleted: boolean
 }
 
 /**
  * 解析路径中的 ~ 为用户目录
  */
-function resolvePath(p: string): string {
+export function resolvePath(p: string): string {
   if (p.startsWith('~/') || p === '~') {
     return path.join(os.homedir(), p.slice(1))
   }
   return path.resolve(p)
 }
 
+const DOCUMENT_EXTENSIONS = new Set(['.md', '.txt'])
+
+// 即使没有 .gitignore 也跳过的目录
+const ALWAYS_IGNORED_DIRS = new Set(['.git', 'node_modules'])
+
+// 超过此大小的源码文件多为生成产物，跳过
+const MAX_CODE_FILE_SIZE = 1024 * 1024
+
+// PDF、EPUB 等需要提取的文档大小上限
+const MAX_EXTRACTED_FILE_SIZE = 50 * 1024 * 1024
+
+/**
+ * 路径是否位于始终跳过的目录中（.git、node_modules）
+ */
+export function inIgnoredDir(filePath: string): boolean {
+  return filePath.split(/[\\/]/).some((segment) => ALWAYS_IGNORED_DIRS.has(segment))
+}
+
 /**
- * 扫描目录中的 .md / .txt 文件
+ * 是否为可导入的文件（文档、受支持语言的源码或有提取器的格式，排除压缩产物）
  */
-async function scanFiles(dir: string): Promise<readonly string[]> {
+export function isSupportedFile(filePath: string): boolean {
+  const name = path.basename(filePath).toLowerCase()
+  if (/\.min\.[a-z]+$/.test(name)) return false
+  return (
+    DOCUMENT_EXTENSIONS.has(path.extname(name)) ||
+    detectLanguage(name) !== undefined ||
+    getExtractor(name) !== undefined
+  )
+}
+
+/**
+ * 在继承的规则上叠加目录下 .gitignore 的规则
+ */
+async function withGitignore(
+  root: string,
+  relDir: string,
+  inheritedRules: readonly IgnoreRule[]
+): Promise<readonly IgnoreRule[]> {
+  try {
+    const gitignore = await fs.readFile(path.join(root, relDir, '.gitignore'), 'utf-8')
+    return [...inheritedRules, ...parseGitignore(gitignore, relDir)]
+  } catch {
+    // 没有 .gitignore
+    return inheritedRules
+  }
+}
+
+async function walkDirectory(
+  root: string,
+  relDir: string,
+  inheritedRules: readonly IgnoreRule[],
+  files: string[]
+): Promise<void> {
+  const absDir = relDir ? path.join(root, relDir) : root
+  const rules = await withGitignore(root, relDir, inheritedRules)
+
+  const entries = await fs.readdir(absDir, { withFileTypes: true })
+  for (const entry of entries) {
+    const relPath = relDir ? `${relDir}/${entry.name}` : entry.name
+    if (entry.isDirectory()) {
+      if (ALWAYS_IGNORED_DIRS.has(entry.name) || isIgnored(rules, relPath, true)) continue
+      await walkDirectory(root, relPath, rules, files)
+    } else if (entry.isFile() && isSupportedFile(entry.name) && !isIgnored(rules, relPath, false)) {
+      files.push(path.join(root, relPath))
+    }
+  }
+}
+
+/**
+ * 扫描目录中的文档和源码文件（遵循各级 .gitignore）
+ */
+export async function scanFiles(dir: string): Promise<readonly string[]> {
   const resolved = resolvePath(dir)
   const files: string[] = []
 
   try {
-    const entries = await fs.readdir(resolved, { withFileTypes: true })
-    for (const entry of entries) {
-      const fullPath = path.join(resolved, entry.name)
-      if (entry.isFile() && /\.(md|txt)$/i.test(entry.name)) {
-        files.push(fullPath)
-      } else if (entry.isDirectory()) {
-        const subFiles = await scanFiles(fullPath)
-        files.push(...subFiles)
-      }
-    }
+    await walkDirectory(resolved, '', [], files)
   } catch (error) {
     logger.warn(`扫描目录失败: ${dir}`, { error: error instanceof Error ? error.message : String(error) })
   }
@@ -55,6 +139,32 @@ async function scanFiles(dir: string): Promise<readonly string[]> {
   return files
 }
 
+/**
+ * 目录下的文件是否应被导入：格式受支持，且沿途各级 .gitignore 都没有排除它
+ */
+export async function isIndexable(root: string, filePath: string): Promise<boolean> {
+  const relPath = path.relative(root, filePath).split(path.sep).join('/')
+  if (!relPath || relPath.startsWith('../') || !isSupportedFile(filePath)) return false
+
+  const segments = relPath.split('/')
+  let rules: readonly IgnoreRule[] = []
+  let relDir = ''
+  for (const segment of segments.slice(0, -1)) {
+    rules = await withGitignore(root, relDir, rules)
+    relDir = relDir ? `${relDir}/${segment}` : segment
+    if (ALWAYS_IGNORED_DIRS.has(segment) || isIgnored(rules, relDir, true)) return false
+  }
+  rules = await withGitignore(root, relDir, rules)
+  return !isIgnored(rules, relPath, false)
+}
+
+/**
+ * 文件内容哈希（增量同步时判断文件是否变更）
+ */
+export function hashContent(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
 /**
  * 从文件名提取标题
  */
@@ -62,20 +172,91 @@ function extractTitle(filePath: string): string {
   return path.basename(filePath, path.extname(filePath))
 }
 
+/**
+ * 用提取器读取 PDF、HTML 等格式，按分段分块并保留页码 / 章节 / 行号
+ */
+async function extractFile(
+  filePath: string,
+  data: Buffer,
+  options: ImportOptions
+): Promise<{ format: string; chunks: readonly SectionChunkResult[] } | null> {
+  const extractor = getExtractor(filePath)
+  if (!extractor) return null
+
+  if (data.length > MAX_EXTRACTED_FILE_SIZE) {
+    logger.debug(`文档过大，跳过: ${filePath}`)
+    return { format: extractor.name, chunks: [] }
+  }
+
+  const document = await extractor.extract(data, filePath)
+  const title = document.title ?? extractTitle(filePath)
+  return {
+    format: document.format,
+    chunks: chunkSections(document.sections, options.chunkerOptions, title),
+  }
+}
+
+/**
+ * chunk 的位置信息（源码行号或文档页码等），存入 metadata
+ */
+function chunkMetadata(
+  chunk: ChunkResult | CodeChunkResult | SectionChunkResult,
+  format: string | undefined
+): Record<string, unknown> | undefined {
+  if ('startLine' in chunk) {
+    return {
+      language: chunk.language,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      symbols: chunk.symbols,
+    }
+  }
+  if (!format) return undefined
+
+  const location = chunk as SectionChunkResult
+  return {
+    format,
+    page: location.page,
+    pageEnd: location.pageEnd,
+    section: location.section,
+    chapter: location.chapter,
+    rowStart: location.rowStart,
+    rowEnd: location.rowEnd,
+  }
+}
+
 /**
  * 导入单个文件
  */
 async function importFile(
   filePath: string,
+  data: Buffer,
   options: ImportOptions
 ): Promise<number> {
   const db = getKnowledgeDB()
-  const content = await fs.readFile(filePath, 'utf-8')
+  const extracted = await extractFile(filePath, data, options)
+  let chunks: readonly (ChunkResult | CodeChunkResult | SectionChunkResult)[]
+
+  if (extracted) {
+    chunks = extracted.chunks
+  } else {
+    const language = detectLanguage(filePath)
+
+    if (language && data.length > MAX_CODE_FILE_SIZE) {
+      logger.debug(`源码文件过大，跳过: ${filePath}`)
+      return 0
+    }
+
+    const content = data.toString('utf-8')
 
-  if (!content.trim()) return 0
+    if (!content.trim()) return 0
 
-  const title = extractTitle(filePath)
-  const chunks = chunkDocument(content, options.chunkerOptions, title)
+    // 源码按函数/类边界分块，并记录行号和符号
+    const title = language ? path.basename(filePath) : extractTitle(filePath)
+    chunks = language
+      ? chunkCode(content, language, options.chunkerOptions, title)
+      : chunkDocument(content, options.chunkerOptions, title)
+  }
 
   if (chunks.length === 0) return 0
 
@@ -101,6 +282,7 @@ async function importFile(
     sourceTitle: chunk.sourceTitle,
     chunkIndex: chunk.chunkIndex,
     embedding: embeddings?.[i] ?? undefined,
+    metadata: chunkMetadata(chunk, extracted?.format),
   }))
 
   db.addChunks(inputs)
@@ -108,45 +290,126 @@ async function importFile(
 }
 
 /**
- * 导入目录中的所有文档
+ * 按内容哈希增量同步单个文件：未变更时跳过，否则删除旧 chunk 后重新导入
+ * 返回新建的 chunk 数，未变更时返回 null
  */
-export async function importDirectory(
-  dir: string,
+export async function syncFile(filePath: string, options: ImportOptions): Promise<number | null> {
+  const db = getKnowledgeDB()
+  const data = await fs.readFile(filePath)
+  const hash = hashContent(data)
+  if (db.getFileHash(filePath) === hash) return null
+
+  db.deleteChunksBySourceFile(filePath)
+  const count = await importFile(filePath, data, options)
+  db.setFileHash(options.collectionId, filePath, hash)
+  return count
+}
+
+/**
+ * 逐个同步文件并移除已不存在的文件，汇总结果并回调进度
+ */
+async function syncAll(
+  files: readonly string[],
+  removed: readonly string[],
   options: ImportOptions
 ): Promise<ImportResult> {
-  const files = await scanFiles(dir)
   const db = getKnowledgeDB()
-
+  const total = files.length + removed.length
+  let processed = 0
   let filesProcessed = 0
   let chunksCreated = 0
   let filesSkipped = 0
 
   for (const filePath of files) {
+    processed++
     try {
-      // 增量更新：检查文件是否已导入且未变更
-      const existingChunks = db.getChunksBySourceFile(filePath)
-      if (existingChunks.length > 0) {
-        const stat = await fs.stat(filePath)
-        const lastChunk = existingChunks[existingChunks.length - 1]
-        if (lastChunk && new Date(lastChunk.created_at) >= stat.mtime) {
-          filesSkipped++
-          continue
-        }
-        // 文件已变更，删除旧 chunk 后重新导入
-        db.deleteChunksBySourceFile(filePath)
+      const count = await syncFile(filePath, options)
+      if (count === null) {
+        filesSkipped++
+        continue
       }
-
-      const count = await importFile(filePath, options)
       filesProcessed++
       chunksCreated += count
+      options.onProgress?.({ file: filePath, action: 'indexed', chunks: count, processed, total })
     } catch (error) {
-      logger.error(`导入文件失败: ${filePath}`, error instanceof Error ? error : new Error(String(error)))
+      const message = error instanceof Error ? error.message : String(error)
+      logger.error(`导入文件失败: ${filePath}`, error instanceof Error ? error : new Error(message))
       filesSkipped++
+      options.onProgress?.({
+        file: filePath,
+        action: 'failed',
+        chunks: 0,
+        processed,
+        total,
+        error: message,
+      })
     }
   }
 
-  logger.info(`目录导入完成: ${dir}`, { filesProcessed, chunksCreated, filesSkipped })
-  return { filesProcessed, chunksCreated, filesSkipped }
+  for (const filePath of removed) {
+    processed++
+    const count = db.deleteFile(filePath)
+    options.onProgress?.({ file: filePath, action: 'removed', chunks: count, processed, total })
+  }
+
+  return { filesProcessed, chunksCreated, filesSkipped, filesRemoved: removed.length }
+}
+
+/**
+ * 导入目录中的所有文档：按内容哈希跳过未变更的文件，移除已删除文件的 chunk
+ */
+export async function importDirectory(
+  dir: string,
+  options: ImportOptions
+): Promise<ImportResult> {
+  const root = resolvePath(dir)
+  const files: string[] = []
+  let removed: readonly string[] = []
+
+  try {
+    await walkDirectory(root, '', [], files)
+    const present = new Set(files)
+    removed = getKnowledgeDB()
+      .listIndexedFiles(options.collectionId)
+      .filter((file) => file.startsWith(root + path.sep) && !present.has(file))
+  } catch (error) {
+    // 扫描不完整（目录不存在、无权限等）时不移除任何已导入的文件
+    logger.warn(`扫描目录失败: ${dir}`, { error: error instanceof Error ? error.message : String(error) })
+  }
+
+  const result = await syncAll(files, removed, options)
+  logger.info(`目录导入完成: ${dir}`, { ...result })
+  return result
+}
+
+/**
+ * 同步目录下监听到的变更：删除的文件或不再需要导入的文件（被 .gitignore 排除等）移除，其余按哈希增量更新
+ */
+export async function syncChanges(
+  dir: string,
+  changes: readonly FileChange[],
+  options: ImportOptions
+): Promise<ImportResult> {
+  const root = resolvePath(dir)
+  const db = getKnowledgeDB()
+  const files: string[] = []
+  const removed: string[] = []
+
+  for (const change of changes) {
+    if (!change.deleted && (await isIndexable(root, change.path))) {
+      files.push(change.path)
+      continue
+    }
+    const indexed =
+      db.getFileHash(change.path) !== undefined || db.getChunksBySourceFile(change.path).length > 0
+    if (indexed) removed.push(change.path)
+  }
+
+  const result = await syncAll(files, removed, options)
+  if (result.filesProcessed > 0 || result.filesRemoved > 0) {
+    logger.info(`目录变更已同步: ${dir}`, { ...result })
+  }
+  return result
 }
 
 /**
@@ -160,7 +423,10 @@ export async function reindexFile(
   db.deleteChunksBySourceFile(filePath)
 
   try {
-    return await importFile(filePath, options)
+    const data = await fs.readFile(filePath)
+    const count = await importFile(filePath, data, options)
+    db.setFileHash(options.collectionId, filePath, hashContent(data))
+    return count
   } catch (error) {
     logger.error(`重新索引文件失败: ${filePath}`, error instanceof Error ? error : new Error(String(error)))
     return 0
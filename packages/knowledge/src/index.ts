@@ -2,7 +2,13 @@ export type {
   KnowledgeConfig,
   KnowledgeEmbeddingConfig,
   KnowledgeCollectionConfig,
+  KnowledgeRagConfig,
+  KnowledgeRetrievalConfig,
+  KnowledgeQueryExpansionConfig,
+  KnowledgeRerankConfig,
+  KnowledgeSyncEvent,
   SearchResult,
+  SearchScoring,
 } from './types.js'
 
 export {
@@ -18,10 +24,34 @@ export {
 
 export {
   chunkDocument,
+  chunkSections,
   type ChunkResult,
   type ChunkerOptions,
+  type SectionChunkResult,
 } from './chunker.js'
 
+export {
+  chunkCode,
+  detectLanguage,
+  CODE_EXTENSIONS,
+  type CodeChunkResult,
+} from './code-chunker.js'
+
+export {
+  registerExtractor,
+  getExtractor,
+  extractorExtensions,
+  type DocumentExtractor,
+  type ExtractedDocument,
+  type ExtractedSection,
+} from './extractors/index.js'
+
+export {
+  parseGitignore,
+  isIgnored,
+  type IgnoreRule,
+} from './gitignore.js'
+
 export {
   embedTexts,
   embedText,
@@ -32,15 +62,57 @@ export {
 export {
   search,
   type SearchOptions,
+  type VectorSearchFn,
 } from './search.js'
 
+export {
+  expandQuery,
+  rerankResults,
+  localRerankScore,
+  type RetrievalChatFn,
+} from './retrieval.js'
+
+export {
+  buildRagContext,
+  formatLocation,
+  type KnowledgeCitation,
+  type RagContext,
+} from './rag.js'
+
+export {
+  HnswIndex,
+  type HnswOptions,
+  type HnswHit,
+} from './hnsw.js'
+
+export {
+  VectorIndexStore,
+  type VectorIndexStats,
+  type VectorEntry,
+  type VectorSource,
+} from './vector-index.js'
+
 export {
   importDirectory,
   reindexFile,
+  syncFile,
+  syncChanges,
+  scanFiles,
+  isSupportedFile,
+  isIndexable,
+  hashContent,
   type ImportOptions,
+  type ImportProgress,
   type ImportResult,
+  type FileChange,
 } from './importer.js'
 
+export {
+  KnowledgeWatcher,
+  type WatchTarget,
+  type WatchHandler,
+} from './watcher.js'
+
 export {
   KnowledgeManager,
   getKnowledgeManager,
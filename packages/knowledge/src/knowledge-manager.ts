@@ -1,17 +1,47 @@
-import { createModuleLogger, getConfigManager } from '@wqbot/core'
+import { countTokens, createModuleLogger, getConfigManager } from '@wqbot/core'
+import { getModelRouter } from '@wqbot/models'
 import { getKnowledgeDB, type KnowledgeCollection } from './database.js'
 import { chunkDocument } from './chunker.js'
-import { embedText, embedTexts, getEmbedderConfig, type EmbedderConfig } from './embedder.js'
-import { search } from './search.js'
-import { importDirectory, reindexFile } from './importer.js'
-import type { KnowledgeConfig, SearchResult } from './types.js'
+import { embedTexts, getEmbedderConfig, type EmbedderConfig } from './embedder.js'
+import { search, type VectorSearchFn } from './search.js'
+import {
+  importDirectory,
+  reindexFile,
+  resolvePath,
+  syncChanges,
+  type ImportOptions,
+  type ImportResult,
+} from './importer.js'
+import { buildRagContext, type RagContext } from './rag.js'
+import {
+  DEFAULT_RERANK_CANDIDATES,
+  expandQuery,
+  rerankResults,
+  type RetrievalChatFn,
+} from './retrieval.js'
+import { KnowledgeWatcher, type WatchTarget } from './watcher.js'
+import type { VectorIndexStats } from './vector-index.js'
+import type {
+  KnowledgeConfig,
+  KnowledgeRetrievalConfig,
+  KnowledgeSyncEvent,
+  SearchResult,
+} from './types.js'
 
 const logger = createModuleLogger('knowledge-manager')
 
+// 自动检索默认取回的候选块数
+const DEFAULT_RAG_LIMIT = 8
+
 export class KnowledgeManager {
   private config: KnowledgeConfig = {}
   private embedderConfig: EmbedderConfig | null = null
   private initialized = false
+  private watcher: KnowledgeWatcher | null = null
+  private syncCallbacks: Set<(event: KnowledgeSyncEvent) => void> = new Set()
+  // 查询扩展和 LLM 重排使用的模型调用
+  private readonly chat: RetrievalChatFn = (messages, options) =>
+    getModelRouter().chatSync(messages, options)
 
   async initialize(): Promise<void> {
     if (this.initialized) return
@@ -24,11 +54,41 @@ export class KnowledgeManager {
 
     if (this.config.enabled) {
       await this.indexConfiguredCollections()
+      await this.startWatching()
+      // 启动后排队加载或分批重建向量索引，避免首次检索时阻塞
+      db.vectors.warm(db.listCollections().map((c) => c.id))
     }
 
     logger.info('知识库已初始化', { enabled: this.config.enabled ?? false })
   }
 
+  /**
+   * 导入选项，同步进度转发给 onSync 回调
+   */
+  private importOptions(collection: KnowledgeCollection): ImportOptions {
+    return {
+      collectionId: collection.id,
+      chunkerOptions: {
+        chunkSize: this.config.chunkSize,
+        chunkOverlap: this.config.chunkOverlap,
+      },
+      embedderConfig: this.embedderConfig,
+      onProgress: (progress) => {
+        const event: KnowledgeSyncEvent = { collection: collection.name, ...progress }
+        for (const callback of this.syncCallbacks) {
+          try {
+            callback(event)
+          } catch (error) {
+            logger.error(
+              '同步进度回调执行失败',
+              error instanceof Error ? error : new Error(String(error))
+            )
+          }
+        }
+      },
+    }
+  }
+
   private async loadConfig(): Promise<void> {
     const configManager = getConfigManager()
     const appConfig = configManager.getConfig() as Record<string, unknown>
@@ -37,11 +97,12 @@ export class KnowledgeManager {
   }
 
   /**
-   * 索引配置中定义的所有集合
+   * 索引配置中定义的所有集合，返回各目录导入结果的汇总
    */
-  private async indexConfiguredCollections(): Promise<void> {
+  private async indexConfiguredCollections(): Promise<ImportResult> {
     const collections = this.config.collections ?? []
     const db = getKnowledgeDB()
+    const total = { filesProcessed: 0, chunksCreated: 0, filesSkipped: 0, filesRemoved: 0 }
 
     for (const collConf of collections) {
       // 确保集合存在
@@ -56,23 +117,31 @@ export class KnowledgeManager {
       // 导入每个目录
       for (const dir of collConf.dirs) {
         try {
-          await importDirectory(dir, {
-            collectionId: collection.id,
-            chunkerOptions: {
-              chunkSize: this.config.chunkSize,
-              chunkOverlap: this.config.chunkOverlap,
-            },
-            embedderConfig: this.embedderConfig,
-          })
+          const result = await importDirectory(dir, this.importOptions(collection))
+          total.filesProcessed += result.filesProcessed
+          total.chunksCreated += result.chunksCreated
+          total.filesSkipped += result.filesSkipped
+          total.filesRemoved += result.filesRemoved
         } catch (error) {
           logger.error(`导入目录失败: ${dir}`, error instanceof Error ? error : new Error(String(error)))
         }
       }
     }
+    return total
+  }
+
+  /**
+   * 检索增强配置：指定集合时优先使用集合自己的配置
+   */
+  private retrievalConfig(collectionName?: string): KnowledgeRetrievalConfig | undefined {
+    const collection = collectionName
+      ? this.config.collections?.find((c) => c.name === collectionName)
+      : undefined
+    return collection?.retrieval ?? this.config.retrieval
   }
 
   /**
-   * 搜索知识库
+   * 搜索知识库：可选查询扩展 → 混合召回 → 可选重排
    */
   async search(query: string, collectionName?: string, limit: number = 5): Promise<readonly SearchResult[]> {
     const db = getKnowledgeDB()
@@ -84,14 +153,33 @@ export class KnowledgeManager {
       collectionId = collection.id
     }
 
-    // 生成查询向量（如果配置了 embedding）
-    let queryEmbedding: Float32Array | undefined
-    let embeddingChunks: ReturnType<typeof db.getChunksWithEmbedding> | undefined
+    const retrieval = this.retrievalConfig(collectionName)
+
+    // 查询扩展（子查询 / HyDE 段落），失败时只用原查询
+    let expansions: readonly string[] = []
+    if (retrieval?.expansion) {
+      try {
+        expansions = await expandQuery(query, retrieval.expansion, this.chat)
+      } catch (error) {
+        logger.warn('查询扩展失败，仅使用原查询', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    // 生成查询向量（如果配置了 embedding），在各集合的 HNSW 索引中检索
+    let vectorSearch: VectorSearchFn | undefined
 
     if (this.embedderConfig) {
       try {
-        queryEmbedding = await embedText(query, this.embedderConfig)
-        embeddingChunks = db.getChunksWithEmbedding(collectionId)
+        const queries = [query, ...expansions]
+        const embeddings = await embedTexts(queries, this.embedderConfig)
+        const byQuery = new Map(queries.map((q, i) => [q, embeddings[i]!]))
+        const collectionIds = collectionId ? [collectionId] : db.listCollections().map((c) => c.id)
+        vectorSearch = (k, q) => {
+          const embedding = byQuery.get(q)
+          return embedding ? db.vectors.search(collectionIds, embedding, k) : []
+        }
       } catch (error) {
         logger.warn('查询 embedding 生成失败，回退纯 FTS', {
           error: error instanceof Error ? error.message : String(error),
@@ -99,7 +187,43 @@ export class KnowledgeManager {
       }
     }
 
-    return search({ query, collectionId, limit }, queryEmbedding, embeddingChunks)
+    const rerank = retrieval?.rerank
+    const candidates = rerank
+      ? Math.max(limit, rerank.candidates ?? DEFAULT_RERANK_CANDIDATES)
+      : limit
+    const results = search({ query, collectionId, limit: candidates, expansions }, vectorSearch)
+    if (!rerank) return results
+
+    // 重排候选块，LLM 打分失败时改用本地打分
+    try {
+      return (await rerankResults(query, results, rerank, this.chat)).slice(0, limit)
+    } catch (error) {
+      logger.warn('LLM 重排失败，改用本地打分', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+      const local = { ...rerank, scorer: 'local' as const }
+      return (await rerankResults(query, results, local, this.chat)).slice(0, limit)
+    }
+  }
+
+  /**
+   * 自动检索（RAG）：检索与用户消息相关的块，在 token 预算内拼接为系统提示词片段
+   * 预算取调用方按模型上下文计算的值与配置 knowledge.rag.maxTokens 中较小者
+   */
+  async retrieveContext(
+    query: string,
+    options: {
+      readonly maxTokens: number
+      readonly collection?: string | undefined
+      readonly model?: string | undefined
+    }
+  ): Promise<RagContext> {
+    if (!this.isEnabled() || !query.trim()) return { prompt: '', citations: [], tokens: 0 }
+
+    const rag = this.config.rag ?? {}
+    const maxTokens = Math.min(options.maxTokens, rag.maxTokens ?? Infinity)
+    const results = await this.search(query, options.collection, rag.limit ?? DEFAULT_RAG_LIMIT)
+    return buildRagContext(results, maxTokens, (text) => countTokens(text, options.model))
   }
 
   /**
@@ -160,14 +284,7 @@ export class KnowledgeManager {
       collection = db.createCollection({ name: collectionName })
     }
 
-    return reindexFile(filePath, {
-      collectionId: collection.id,
-      chunkerOptions: {
-        chunkSize: this.config.chunkSize,
-        chunkOverlap: this.config.chunkOverlap,
-      },
-      embedderConfig: this.embedderConfig,
-    })
+    return reindexFile(filePath, this.importOptions(collection))
   }
 
   /**
@@ -178,10 +295,19 @@ export class KnowledgeManager {
   }
 
   /**
-   * 列出所有集合及统计
+   * 列出所有集合及统计（含向量索引的规模、召回率和查询延迟）
    */
-  listCollections(): readonly { name: string; chunkCount: number }[] {
-    return getKnowledgeDB().getCollectionStats()
+  listCollections(): readonly {
+    name: string
+    chunkCount: number
+    vectorIndex: VectorIndexStats | null
+  }[] {
+    const db = getKnowledgeDB()
+    return db.getCollectionStats().map(({ id, name, chunkCount }) => ({
+      name,
+      chunkCount,
+      vectorIndex: db.vectors.stats(id),
+    }))
   }
 
   /**
@@ -199,12 +325,36 @@ export class KnowledgeManager {
   }
 
   /**
-   * 重新索引所有集合
+   * 重新索引：指定集合时只重建其向量索引，否则重建 FTS、重新导入配置的目录并重建全部向量索引
+   * 返回各集合重建后的向量索引统计；指定的集合不存在时返回 null
    */
-  async reindex(): Promise<void> {
-    getKnowledgeDB().rebuildFtsIndex()
+  async reindex(collectionName?: string): Promise<Record<string, VectorIndexStats> | null> {
+    const db = getKnowledgeDB()
+    const stats: Record<string, VectorIndexStats> = {}
+
+    if (collectionName) {
+      const collection = db.getCollection(collectionName)
+      if (!collection) return null
+      stats[collection.name] = db.vectors.rebuild(collection.id)
+      return stats
+    }
+
+    db.rebuildFtsIndex()
     await this.indexConfiguredCollections()
+    for (const collection of db.listCollections()) {
+      stats[collection.name] = db.vectors.rebuild(collection.id)
+    }
     logger.info('知识库重新索引完成')
+    return stats
+  }
+
+  /**
+   * 增量同步配置的目录：按内容哈希只导入变更的文件并移除已删除的文件，不重建索引
+   */
+  async sync(): Promise<ImportResult> {
+    const result = await this.indexConfiguredCollections()
+    logger.info('知识库同步完成', { ...result })
+    return result
   }
 
   /**
@@ -215,28 +365,70 @@ export class KnowledgeManager {
     const chunks = db.getChunksBySourceFile(filePath)
     if (chunks.length === 0) return
 
-    const firstChunk = chunks[0]!
-    await reindexFile(filePath, {
-      collectionId: firstChunk.collection_id,
-      chunkerOptions: {
-        chunkSize: this.config.chunkSize,
-        chunkOverlap: this.config.chunkOverlap,
-      },
-      embedderConfig: this.embedderConfig,
-    })
+    const collection = db.getCollectionById(chunks[0]!.collection_id)
+    if (!collection) return
+    await reindexFile(filePath, this.importOptions(collection))
   }
 
   /**
    * 重新加载配置
    */
   async reload(): Promise<void> {
+    await this.stopWatching()
     await this.loadConfig()
     if (this.config.enabled) {
       await this.indexConfiguredCollections()
+      await this.startWatching()
     }
     logger.info('知识库配置已重新加载')
   }
 
+  /**
+   * 订阅同步进度（启动导入、重新索引和监听到的文件变更）
+   */
+  onSync(callback: (event: KnowledgeSyncEvent) => void): () => void {
+    this.syncCallbacks.add(callback)
+    return () => {
+      this.syncCallbacks.delete(callback)
+    }
+  }
+
+  /**
+   * 监听配置中集合的目录，文件新增、修改、删除时增量同步（knowledge.watch: false 关闭）
+   */
+  private async startWatching(): Promise<void> {
+    await this.stopWatching()
+    if (this.config.watch === false) return
+
+    const db = getKnowledgeDB()
+    const targets: WatchTarget[] = []
+    for (const collConf of this.config.collections ?? []) {
+      const collection = db.getCollection(collConf.name)
+      if (!collection) continue
+      for (const dir of collConf.dirs) {
+        targets.push({ collectionId: collection.id, dir: resolvePath(dir) })
+      }
+    }
+    if (targets.length === 0) return
+
+    this.watcher = new KnowledgeWatcher(async (target, changes) => {
+      const collection = db.getCollectionById(target.collectionId)
+      if (!collection) return
+      await syncChanges(target.dir, changes, this.importOptions(collection))
+    })
+    this.watcher.start(targets)
+  }
+
+  /**
+   * 停止目录监听，等待进行中的同步完成
+   */
+  async stopWatching(): Promise<void> {
+    if (this.watcher) {
+      await this.watcher.stop()
+      this.watcher = null
+    }
+  }
+
   isEnabled(): boolean {
     return this.config.enabled ?? false
   }
@@ -0,0 +1,102 @@
+import type { SearchResult } from './types.js'
+
+/**
+ * 注入对话的引用来源（随 SSE complete 事件返回给客户端）
+ */
+export interface KnowledgeCitation {
+  // 在注入的上下文中的编号（从 1 开始），对应回答中的 [n]
+  readonly index: number
+  readonly chunkId: string
+  readonly collectionName: string
+  readonly sourceFile: string | null
+  readonly sourceTitle: string | null
+  // 行号 / 页码 / 章节等，没有时为空字符串
+  readonly location: string
+  readonly score: number
+}
+
+export interface RagContext {
+  // 追加到系统提示词的参考资料，没有命中时为空字符串
+  readonly prompt: string
+  readonly citations: readonly KnowledgeCitation[]
+  readonly tokens: number
+}
+
+const RAG_HEADER =
+  '以下是从知识库中检索到的参考资料（<knowledge> 内）。回答时优先依据这些资料，引用时标注编号如 [1]；资料与问题无关时忽略它们，不要编造资料中没有的内容。'
+
+/**
+ * 检索结果的引用位置：源码为起止行号，提取的文档为页码 / 章节 / 数据行，如 "p.12-13, §安装"
+ */
+export function formatLocation(r: SearchResult): string {
+  const range = (start: number, end: number | undefined): string =>
+    end !== undefined && end !== start ? `${start}-${end}` : `${start}`
+
+  if (r.startLine !== undefined) return range(r.startLine, r.endLine)
+
+  const parts: string[] = []
+  if (r.page !== undefined) parts.push(`p.${range(r.page, r.pageEnd)}`)
+  if (r.chapter !== undefined) parts.push(`ch.${r.chapter}`)
+  if (r.section) parts.push(`§${r.section}`)
+  if (r.rowStart !== undefined) {
+    const rows = range(r.rowStart, r.rowEnd)
+    parts.push(rows.includes('-') ? `rows ${rows}` : `row ${rows}`)
+  }
+  return parts.join(', ')
+}
+
+function citationLabel(r: SearchResult, location: string): string {
+  const source = r.sourceFile ?? r.sourceTitle ?? '未知来源'
+  if (!location) return source
+  return r.startLine !== undefined ? `${source}:${location}` : `${source} (${location})`
+}
+
+/**
+ * 在 token 预算内按相关度依次放入检索结果；第一条超出预算时截断，其余超出的跳过
+ */
+export function buildRagContext(
+  results: readonly SearchResult[],
+  maxTokens: number,
+  countTokens: (text: string) => number
+): RagContext {
+  const blocks: string[] = []
+  const citations: KnowledgeCitation[] = []
+  let used = countTokens(RAG_HEADER) + 8
+
+  for (const result of results) {
+    const index = citations.length + 1
+    const location = formatLocation(result)
+    const label = `[${index}] ${citationLabel(result, location)}`
+    let block = `${label}\n${result.content.trim()}`
+    let tokens = countTokens(block)
+
+    if (used + tokens > maxTokens) {
+      const remaining = maxTokens - used - countTokens(`${label}\n…`)
+      if (citations.length > 0 || remaining < 32) continue
+      // 按比例截断到剩余预算
+      const content = result.content.trim()
+      const keep = Math.floor((content.length * remaining) / Math.max(countTokens(content), 1))
+      block = `${label}\n${content.slice(0, keep)}…`
+      tokens = countTokens(block)
+    }
+
+    blocks.push(block)
+    used += tokens
+    citations.push({
+      index,
+      chunkId: result.id,
+      collectionName: result.collectionName,
+      sourceFile: result.sourceFile,
+      sourceTitle: result.sourceTitle,
+      location,
+      score: result.score,
+    })
+  }
+
+  if (citations.length === 0) return { prompt: '', citations: [], tokens: 0 }
+  return {
+    prompt: `${RAG_HEADER}\n\n<knowledge>\n${blocks.join('\n\n')}\n</knowledge>`,
+    citations,
+    tokens: used,
+  }
+}
@@ -0,0 +1,180 @@
+import { z } from 'zod'
+import { parseJsonObject } from '@wqbot/core'
+import type { ChatMessage, ChatOptions } from '@wqbot/models'
+import type { KnowledgeQueryExpansionConfig, KnowledgeRerankConfig, SearchResult } from './types.js'
+
+/**
+ * 调用模型的函数（通常为 ModelRouter.chatSync），测试时可替换
+ */
+export type RetrievalChatFn = (
+  messages: readonly ChatMessage[],
+  options: ChatOptions
+) => Promise<{ content: string }>
+
+const DEFAULT_EXPANSION_QUERIES = 3
+export const DEFAULT_RERANK_CANDIDATES = 20
+
+// LLM 重排时每个候选块最多发送的字符数
+const MAX_RERANK_PASSAGE_CHARS = 800
+
+/**
+ * 未指定模型时按便宜模型路由，输出尽量确定
+ */
+function chatOptions(
+  model: string | undefined,
+  maxTokens: number,
+  systemPrompt: string
+): ChatOptions {
+  return {
+    ...(model ? { model } : { taskType: 'simple_qa', complexity: 'low' }),
+    temperature: 0,
+    maxTokens,
+    systemPrompt,
+  }
+}
+
+const ExpansionSchema = z.object({
+  queries: z.array(z.string()).default([]),
+  passage: z.string().optional(),
+})
+
+function expansionPrompt(mode: KnowledgeQueryExpansionConfig['mode'], count: number): string {
+  const keys = [
+    mode !== 'hyde'
+      ? `- "queries": up to ${count} alternative search queries covering different aspects, synonyms or sub-questions of the original`
+      : '',
+    mode !== 'multi'
+      ? '- "passage": a short hypothetical passage (2-4 sentences) that would answer the query, written like the documentation or code comment that contains the answer'
+      : '',
+  ].filter(Boolean)
+
+  return `You rewrite search queries for a knowledge base retriever.
+Return ONLY a JSON object with these keys:
+${keys.join('\n')}
+Keep the language of the original query. Do not repeat the original query.`
+}
+
+/**
+ * 查询扩展：把查询改写为多个子查询，和 / 或生成 HyDE 假设性答案段落，用于多路召回
+ */
+export async function expandQuery(
+  query: string,
+  config: KnowledgeQueryExpansionConfig,
+  chat: RetrievalChatFn
+): Promise<readonly string[]> {
+  const count = config.queries ?? DEFAULT_EXPANSION_QUERIES
+  const response = await chat(
+    [{ role: 'user', content: query }],
+    chatOptions(config.model, 512, expansionPrompt(config.mode, count))
+  )
+  const parsed = ExpansionSchema.parse(parseJsonObject(response.content))
+
+  const seen = new Set([query.trim().toLowerCase()])
+  const expansions: string[] = []
+  const add = (text: string): void => {
+    const trimmed = text.trim()
+    if (!trimmed || seen.has(trimmed.toLowerCase())) return
+    seen.add(trimmed.toLowerCase())
+    expansions.push(trimmed)
+  }
+
+  if (config.mode !== 'hyde') parsed.queries.slice(0, count).forEach(add)
+  if (config.mode !== 'multi' && parsed.passage) add(parsed.passage)
+  return expansions
+}
+
+/**
+ * 查询词：拉丁词按单词，中日韩文字按相邻两字切分
+ */
+function queryTerms(text: string): readonly string[] {
+  const terms = new Set<string>()
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []) {
+    if (/\p{Script=Han}|\p{Script=Hiragana}|\p{Script=Katakana}|\p{Script=Hangul}/u.test(word)) {
+      const chars = [...word]
+      if (chars.length === 1) terms.add(word)
+      for (let i = 0; i < chars.length - 1; i++) terms.add(chars[i]! + chars[i + 1]!)
+    } else if (word.length >= 2) {
+      terms.add(word)
+    }
+  }
+  return [...terms]
+}
+
+/**
+ * 轻量本地打分（0-1）：查询词覆盖率为主，完整包含查询短语时加分
+ */
+export function localRerankScore(query: string, content: string): number {
+  const terms = queryTerms(query)
+  if (terms.length === 0) return 0
+
+  const text = content.toLowerCase()
+  const coverage = terms.filter((term) => text.includes(term)).length / terms.length
+  const phrase = text.includes(query.trim().toLowerCase()) ? 1 : 0
+  return Math.round((0.8 * coverage + 0.2 * phrase) * 1000) / 1000
+}
+
+const RerankSchema = z.object({
+  scores: z.array(z.number()),
+})
+
+const RERANK_SYSTEM_PROMPT = `You score how relevant each passage is to a search query.
+Return ONLY a JSON object {"scores": [...]} with one integer per passage, in the given order,
+from 0 (unrelated) to 10 (directly answers the query).`
+
+/**
+ * LLM 打分（0-1）：一次请求为全部候选块评分
+ */
+async function llmRerankScores(
+  query: string,
+  results: readonly SearchResult[],
+  config: KnowledgeRerankConfig,
+  chat: RetrievalChatFn
+): Promise<readonly number[]> {
+  const passages = results.map((r, i) => {
+    const content = r.content.trim()
+    const text =
+      content.length > MAX_RERANK_PASSAGE_CHARS
+        ? `${content.slice(0, MAX_RERANK_PASSAGE_CHARS)}…`
+        : content
+    return `[${i + 1}] ${text}`
+  })
+
+  const response = await chat(
+    [{ role: 'user', content: `Query: ${query}\n\nPassages:\n\n${passages.join('\n\n')}` }],
+    chatOptions(config.model, 16 + results.length * 4, RERANK_SYSTEM_PROMPT)
+  )
+  const { scores } = RerankSchema.parse(parseJsonObject(response.content))
+  // 缺失的分数按 0 处理
+  return results.map((_, i) => Math.min(Math.max((scores[i] ?? 0) / 10, 0), 1))
+}
+
+/**
+ * 重排候选块：按重排分降序，score 替换为重排分
+ */
+export async function rerankResults(
+  query: string,
+  results: readonly SearchResult[],
+  config: KnowledgeRerankConfig,
+  chat: RetrievalChatFn
+): Promise<readonly SearchResult[]> {
+  if (results.length === 0) return results
+
+  const scores =
+    config.scorer === 'llm'
+      ? await llmRerankScores(query, results, config, chat)
+      : results.map((r) => localRerankScore(query, r.content))
+
+  // sort 是稳定排序，同分时保持召回顺序
+  return results
+    .map((result, i) => ({
+      ...result,
+      score: scores[i]!,
+      scoring: {
+        retrieval: result.scoring?.retrieval ?? result.score,
+        ...(result.scoring?.queries ? { queries: result.scoring.queries } : {}),
+        rerank: scores[i]!,
+        scorer: config.scorer,
+      },
+    }))
+    .sort((a, b) => b.score - a.score)
+}
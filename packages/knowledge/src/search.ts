@@ -1,6 +1,5 @@
-import { getDatabase } from '@wqbot/storage'
+import { buildFtsQuery, getDatabase } from '@wqbot/storage'
 import { createModuleLogger } from '@wqbot/core'
-import { deserializeEmbedding, type KnowledgeChunk } from './database.js'
 import type { SearchResult } from './types.js'
 
 const logger = createModuleLogger('knowledge-search')
@@ -9,40 +8,52 @@ export interface SearchOptions {
   readonly query: string
   readonly collectionId?: string | undefined
   readonly limit?: number | undefined
+  // 查询扩展得到的子查询 / HyDE 段落，各自检索后与原查询一起 RRF 融合
+  readonly expansions?: readonly string[] | undefined
 }
 
 /**
- * FTS5 BM25 关键词检索
+ * FTS5 BM25 关键词检索（trigram 分词，支持中文子串）
  */
 function searchFts(options: SearchOptions): readonly { id: string; score: number }[] {
-  const db = getDatabase()
-  const limit = options.limit ?? 10
+  const fts = buildFtsQuery(options.query)
+  if (!fts) return []
 
-  let sql: string
-  let params: unknown[]
+  const db = getDatabase()
+  const conditions: string[] = []
+  const params: unknown[] = []
 
+  if (fts.match) {
+    conditions.push('knowledge_fts MATCH ?')
+    params.push(fts.match)
+  }
+  // 少于 3 个字符的词无法走 trigram 索引，在原表上 LIKE 过滤
+  for (const like of fts.likes) {
+    conditions.push("c.content LIKE ? ESCAPE '\\'")
+    params.push(like)
+  }
   if (options.collectionId) {
-    sql = `
+    conditions.push('c.collection_id = ?')
+    params.push(options.collectionId)
+  }
+
+  const sql = fts.match
+    ? `
       SELECT c.id, fts.rank
       FROM knowledge_fts fts
       JOIN knowledge_chunks c ON c.rowid = fts.rowid
-      WHERE knowledge_fts MATCH ?
-        AND c.collection_id = ?
+      WHERE ${conditions.join(' AND ')}
       ORDER BY fts.rank
       LIMIT ?
     `
-    params = [options.query, options.collectionId, limit]
-  } else {
-    sql = `
-      SELECT c.id, fts.rank
-      FROM knowledge_fts fts
-      JOIN knowledge_chunks c ON c.rowid = fts.rowid
-      WHERE knowledge_fts MATCH ?
-      ORDER BY fts.rank
+    : `
+      SELECT c.id, 0 AS rank
+      FROM knowledge_chunks c
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY c.rowid
       LIMIT ?
     `
-    params = [options.query, limit]
-  }
+  params.push(options.limit ?? 10)
 
   try {
     const rows = db.query<{ id: string; rank: number }>(sql, params)
@@ -76,28 +87,6 @@ export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
   return dotProduct / denominator
 }
 
-/**
- * 向量余弦相似度检索
- */
-function searchVector(
-  queryEmbedding: Float32Array,
-  chunks: readonly KnowledgeChunk[],
-  limit: number
-): readonly { id: string; score: number }[] {
-  const scored = chunks
-    .filter((chunk) => chunk.embedding !== null)
-    .map((chunk) => {
-      const embedding = deserializeEmbedding(chunk.embedding as Buffer)
-      return {
-        id: chunk.id,
-        score: cosineSimilarity(queryEmbedding, embedding),
-      }
-    })
-    .sort((a, b) => b.score - a.score)
-
-  return scored.slice(0, limit)
-}
-
 /**
  * RRF (Reciprocal Rank Fusion) 混合排序
  * 将多个排序列表合并为一个
@@ -121,30 +110,96 @@ export function rrfFusion(
     .sort((a, b) => b.score - a.score)
 }
 
+interface ChunkLocation {
+  readonly language?: string | undefined
+  readonly startLine?: number | undefined
+  readonly endLine?: number | undefined
+  readonly symbols?: readonly string[] | undefined
+  readonly format?: string | undefined
+  readonly page?: number | undefined
+  readonly pageEnd?: number | undefined
+  readonly section?: string | undefined
+  readonly chapter?: number | undefined
+  readonly rowStart?: number | undefined
+  readonly rowEnd?: number | undefined
+}
+
 /**
- * 混合检索：FTS5 + 可选向量检索 + RRF 融合
+ * 从 chunk metadata 中读取位置：源码行号，或提取文档的页码 / 章节 / 行号（纯文本块没有）
+ */
+function parseLocation(metadata: string | null): ChunkLocation {
+  if (!metadata) return {}
+  try {
+    const parsed = JSON.parse(metadata) as ChunkLocation
+    if (typeof parsed.startLine === 'number') {
+      return {
+        language: parsed.language,
+        startLine: parsed.startLine,
+        endLine: parsed.endLine,
+        symbols: parsed.symbols,
+      }
+    }
+    if (typeof parsed.format === 'string') {
+      return {
+        format: parsed.format,
+        page: parsed.page,
+        pageEnd: parsed.pageEnd,
+        section: parsed.section,
+        chapter: parsed.chapter,
+        rowStart: parsed.rowStart,
+        rowEnd: parsed.rowEnd,
+      }
+    }
+    return {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * 向量检索函数（由调用方基于 HNSW 索引提供），返回按相似度降序的结果
+ * query 为原查询或扩展出的查询
+ */
+export type VectorSearchFn = (
+  limit: number,
+  query: string
+) => readonly { id: string; score: number }[]
+
+/**
+ * 混合检索：每个查询各做 FTS5 + 可选向量检索，RRF 融合
  */
 export function search(
   options: SearchOptions,
-  queryEmbedding?: Float32Array,
-  embeddingChunks?: readonly KnowledgeChunk[]
+  vectorSearch?: VectorSearchFn
 ): readonly SearchResult[] {
   const limit = options.limit ?? 5
   const fetchLimit = limit * 3 // 多取一些用于融合
-
-  // FTS5 检索
-  const ftsResults = searchFts({ ...options, limit: fetchLimit })
-
-  // 向量检索（如果有 embedding）
-  const lists: (readonly { id: string; score: number }[])[] = [ftsResults]
-
-  if (queryEmbedding && embeddingChunks && embeddingChunks.length > 0) {
-    const vectorResults = searchVector(queryEmbedding, embeddingChunks, fetchLimit)
-    lists.push(vectorResults)
+  const queries = [options.query, ...(options.expansions ?? [])]
+
+  const lists: (readonly { id: string; score: number }[])[] = []
+  // 每个块被哪些查询命中（启用查询扩展时返回）
+  const matchedBy = new Map<string, string[]>()
+
+  for (const query of queries) {
+    // FTS5 检索
+    const ftsResults = searchFts({ ...options, query, limit: fetchLimit })
+    // 向量检索（如果有 embedding）
+    const vectorResults = vectorSearch?.(fetchLimit, query) ?? []
+
+    // 原查询的 FTS 结果总是参与（只有这一路时直接使用 BM25 分数），其余空列表跳过
+    for (const list of [ftsResults, vectorResults]) {
+      if (list.length === 0 && lists.length > 0) continue
+      lists.push(list)
+      for (const item of list) {
+        const matched = matchedBy.get(item.id) ?? []
+        if (!matched.includes(query)) matched.push(query)
+        matchedBy.set(item.id, matched)
+      }
+    }
   }
 
   // RRF 融合
-  const fused = lists.length > 1 ? rrfFusion(lists) : ftsResults
+  const fused = lists.length > 1 ? rrfFusion(lists) : (lists[0] ?? [])
 
   // 取 top-N 并填充完整信息
   const topIds = fused.slice(0, limit)
@@ -160,7 +215,8 @@ export function search(
       source_file: string | null
       source_title: string | null
       collection_id: string
-    }>('SELECT id, content, source_file, source_title, collection_id FROM knowledge_chunks WHERE id = ?', [item.id])
+      metadata: string | null
+    }>('SELECT id, content, source_file, source_title, collection_id, metadata FROM knowledge_chunks WHERE id = ?', [item.id])
 
     if (!row) continue
 
@@ -176,6 +232,11 @@ export function search(
       sourceTitle: row.source_title,
       collectionName: collection?.name ?? 'unknown',
       score: item.score,
+      ...parseLocation(row.metadata),
+      scoring: {
+        retrieval: item.score,
+        ...(queries.length > 1 ? { queries: matchedBy.get(item.id) ?? [] } : {}),
+      },
     })
   }
 
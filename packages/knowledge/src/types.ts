@@ -4,9 +4,42 @@ export interface KnowledgeEmbeddingConfig {
   readonly customName?: string | undefined
 }
 
+export interface KnowledgeQueryExpansionConfig {
+  // multi：改写为多个子查询；hyde：生成假设性答案段落参与检索；both：两者都用
+  readonly mode: 'multi' | 'hyde' | 'both'
+  // 子查询数，默认 3
+  readonly queries?: number | undefined
+  readonly model?: string | undefined
+}
+
+export interface KnowledgeRerankConfig {
+  // llm：由模型为候选块打分；local：按查询词覆盖率的轻量打分，不调用模型
+  readonly scorer: 'llm' | 'local'
+  // 参与重排的候选块数，默认 20
+  readonly candidates?: number | undefined
+  readonly model?: string | undefined
+}
+
+/**
+ * 检索增强：召回前扩展查询，召回后重排候选块
+ */
+export interface KnowledgeRetrievalConfig {
+  readonly expansion?: KnowledgeQueryExpansionConfig | undefined
+  readonly rerank?: KnowledgeRerankConfig | undefined
+}
+
 export interface KnowledgeCollectionConfig {
   readonly name: string
   readonly dirs: readonly string[]
+  // 检索该集合时覆盖全局 retrieval 配置
+  readonly retrieval?: KnowledgeRetrievalConfig | undefined
+}
+
+export interface KnowledgeRagConfig {
+  // 每轮自动检索的候选块数，默认 8
+  readonly limit?: number | undefined
+  // 注入系统提示词的参考资料 token 上限（另受模型上下文窗口限制）
+  readonly maxTokens?: number | undefined
 }
 
 export interface KnowledgeConfig {
@@ -15,6 +48,25 @@ export interface KnowledgeConfig {
   readonly chunkOverlap?: number | undefined
   readonly embedding?: KnowledgeEmbeddingConfig | undefined
   readonly collections?: readonly KnowledgeCollectionConfig[] | undefined
+  // 监听集合目录并增量同步，默认开启
+  readonly watch?: boolean | undefined
+  // 检索增强的默认配置（跨集合检索时使用）
+  readonly retrieval?: KnowledgeRetrievalConfig | undefined
+  readonly rag?: KnowledgeRagConfig | undefined
+}
+
+/**
+ * 知识库同步进度：导入目录或监听到文件变更时，每个新增、更新、删除或失败的文件推送一次
+ */
+export interface KnowledgeSyncEvent {
+  readonly collection: string
+  readonly file: string
+  readonly action: 'indexed' | 'removed' | 'failed'
+  readonly chunks: number
+  // 本轮同步已处理的文件数和总数（含未变更的文件）
+  readonly processed: number
+  readonly total: number
+  readonly error?: string | undefined
 }
 
 export interface SearchResult {
@@ -24,4 +76,31 @@ export interface SearchResult {
   readonly sourceTitle: string | null
   readonly collectionName: string
   readonly score: number
+  // 源码块：语言、起止行号（从 1 开始）和块内符号
+  readonly language?: string | undefined
+  readonly startLine?: number | undefined
+  readonly endLine?: number | undefined
+  readonly symbols?: readonly string[] | undefined
+  // 提取的文档（PDF、DOCX、EPUB、HTML、CSV）：格式、页码范围、章节和数据行范围
+  readonly format?: string | undefined
+  readonly page?: number | undefined
+  readonly pageEnd?: number | undefined
+  readonly section?: string | undefined
+  readonly chapter?: number | undefined
+  readonly rowStart?: number | undefined
+  readonly rowEnd?: number | undefined
+  readonly scoring?: SearchScoring | undefined
+}
+
+/**
+ * 检索评分明细
+ */
+export interface SearchScoring {
+  // 召回阶段的分数：多路检索时为 RRF 融合分，仅 FTS 时为 BM25 分
+  readonly retrieval: number
+  // 命中该块的查询（原查询及扩展出的子查询 / HyDE 段落），启用查询扩展时提供
+  readonly queries?: readonly string[] | undefined
+  // 重排分（0-1）和打分方式，启用重排时提供，此时 score 即为重排分
+  readonly rerank?: number | undefined
+  readonly scorer?: 'llm' | 'local' | undefined
 }
@@ -0,0 +1,384 @@
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { createModuleLogger } from '@wqbot/core'
+import { HnswIndex, type HnswHit, type HnswOptions } from './hnsw.js'
+
+const logger = createModuleLogger('knowledge-vector-index')
+
+export interface VectorEntry {
+  readonly id: string
+  readonly embedding: Float32Array
+}
+
+/**
+ * 索引的数据来源（knowledge_chunks 表）
+ */
+export interface VectorSource {
+  // 读取集合内全部 embedding，用于重建
+  readonly load: (collectionId: string) => readonly VectorEntry[]
+  // 集合内 embedding 的签名（数量 + 最大 rowid），与磁盘索引不一致时重建
+  readonly signature: (collectionId: string) => string
+}
+
+export interface VectorIndexStats {
+  readonly vectors: number
+  readonly deleted: number
+  readonly dimensions: number
+  // 最近一次重建时抽样估计的 recall@10（与暴力检索对比）
+  readonly recall: number | null
+  readonly builtAt: string | null
+  // 本进程内的查询次数与延迟
+  readonly queries: number
+  readonly avgLatencyMs: number | null
+  readonly p95LatencyMs: number | null
+}
+
+interface IndexEntry {
+  index: HnswIndex
+  recall: number | null
+  builtAt: string | null
+  dirty: boolean
+  queries: number
+  latencies: number[]
+}
+
+// 保留最近多少次查询的延迟
+const LATENCY_WINDOW = 200
+// 增量更新后延迟写盘，合并批量导入
+const FLUSH_DELAY_MS = 2000
+// 后台重建时每插入多少个向量让出一次事件循环
+const BUILD_BATCH_SIZE = 256
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve))
+}
+
+/**
+ * 按集合维护持久化的 HNSW 索引（<dir>/<collectionId>.hnsw）
+ * 首次使用时从磁盘加载；文件缺失或签名与数据库不一致时从数据库重建。
+ * 检索和增量更新遇到需要重建的集合时只排队分批重建（批次之间让出事件循环），不阻塞请求
+ */
+export class VectorIndexStore {
+  private readonly entries = new Map<string, IndexEntry>()
+  // 排队或进行中的分批重建；值为本次重建的标记，删除或被同步重建取代后作废
+  private readonly pendingRebuilds = new Map<string, symbol>()
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(
+    private readonly source: VectorSource,
+    private readonly resolveDir: () => string,
+    private readonly options: HnswOptions = {}
+  ) {}
+
+  private filePath(collectionId: string): string {
+    return path.join(this.resolveDir(), `${collectionId}.hnsw`)
+  }
+
+  /**
+   * 取得已打开的索引，或从磁盘加载仍与数据库一致的索引；需要重建时返回 null
+   */
+  private load(collectionId: string): IndexEntry | null {
+    const cached = this.entries.get(collectionId)
+    if (cached) return cached
+
+    const file = this.filePath(collectionId)
+    if (!fs.existsSync(file)) return null
+
+    try {
+      const { index, meta } = HnswIndex.deserialize(fs.readFileSync(file))
+      if (meta.signature === this.source.signature(collectionId)) {
+        const entry = this.createEntry(
+          index,
+          typeof meta.recall === 'number' ? meta.recall : null,
+          typeof meta.builtAt === 'string' ? meta.builtAt : null
+        )
+        this.entries.set(collectionId, entry)
+        return entry
+      }
+      logger.info(`向量索引已过期，重建: ${collectionId}`)
+    } catch (error) {
+      logger.warn(`向量索引加载失败，重建: ${collectionId}`, {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+    return null
+  }
+
+  private createEntry(index: HnswIndex, recall: number | null, builtAt: string | null): IndexEntry {
+    return { index, recall, builtAt, dirty: false, queries: 0, latencies: [] }
+  }
+
+  private addVector(index: HnswIndex, { id, embedding }: VectorEntry): void {
+    if (index.dimensions !== 0 && embedding.length !== index.dimensions) {
+      logger.warn(`跳过维度不一致的向量: ${id}`)
+      return
+    }
+    index.add(id, embedding)
+  }
+
+  private rebuildEntry(collectionId: string): IndexEntry {
+    const started = Date.now()
+    const index = new HnswIndex(this.options)
+    for (const vector of this.source.load(collectionId)) {
+      this.addVector(index, vector)
+    }
+    // 同步重建已包含最新数据，排队中的分批重建作废
+    this.pendingRebuilds.delete(collectionId)
+    return this.installEntry(collectionId, index, started)
+  }
+
+  /**
+   * 分批重建：批次之间让出事件循环；集合被删除、被同步重建或期间数据发生变化时放弃或重来
+   */
+  private async rebuildInBatches(collectionId: string, token: symbol): Promise<void> {
+    const started = Date.now()
+    const signature = this.source.signature(collectionId)
+    const vectors = this.source.load(collectionId)
+    const index = new HnswIndex(this.options)
+
+    for (let i = 0; i < vectors.length; i++) {
+      this.addVector(index, vectors[i]!)
+      if ((i + 1) % BUILD_BATCH_SIZE === 0) {
+        await yieldToEventLoop()
+        if (this.pendingRebuilds.get(collectionId) !== token) return
+      }
+    }
+
+    if (this.source.signature(collectionId) !== signature) {
+      logger.debug(`重建期间数据已变化，重新构建: ${collectionId}`)
+      await yieldToEventLoop()
+      if (this.pendingRebuilds.get(collectionId) !== token) return
+      return this.rebuildInBatches(collectionId, token)
+    }
+    this.installEntry(collectionId, index, started)
+  }
+
+  private installEntry(collectionId: string, index: HnswIndex, started: number): IndexEntry {
+    const entry = this.createEntry(index, index.estimateRecall(), new Date().toISOString())
+    const previous = this.entries.get(collectionId)
+    if (previous) {
+      entry.queries = previous.queries
+      entry.latencies = previous.latencies
+    }
+    this.entries.set(collectionId, entry)
+    this.save(collectionId, entry)
+
+    logger.info(`向量索引已重建: ${collectionId}`, {
+      vectors: index.size,
+      recall: entry.recall,
+      durationMs: Date.now() - started,
+    })
+    return entry
+  }
+
+  private save(collectionId: string, entry: IndexEntry): void {
+    const file = this.filePath(collectionId)
+    if (entry.index.size === 0 && entry.index.deletedSize === 0) {
+      fs.rmSync(file, { force: true })
+      entry.dirty = false
+      return
+    }
+
+    const buffer = entry.index.serialize({
+      signature: this.source.signature(collectionId),
+      recall: entry.recall,
+      builtAt: entry.builtAt,
+    })
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(`${file}.tmp`, buffer)
+    fs.renameSync(`${file}.tmp`, file)
+    entry.dirty = false
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      this.flush()
+    }, FLUSH_DELAY_MS)
+    this.flushTimer.unref?.()
+  }
+
+  /**
+   * 写入新增或更新的向量；索引尚需重建时只排队重建（重建从数据库读取，已包含这些向量）
+   */
+  add(collectionId: string, entries: readonly VectorEntry[]): void {
+    if (entries.length === 0) return
+    const entry = this.ready(collectionId)
+    if (!entry) return
+
+    for (const { id, embedding } of entries) {
+      try {
+        entry.index.add(id, embedding)
+      } catch (error) {
+        logger.warn(`向量写入索引失败: ${id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+    entry.dirty = true
+    this.scheduleFlush()
+  }
+
+  /**
+   * 删除向量，墓碑过多时压缩索引
+   */
+  remove(collectionId: string, ids: readonly string[]): void {
+    if (ids.length === 0) return
+    const entry = this.ready(collectionId)
+    if (!entry) return
+
+    let changed = false
+    for (const id of ids) {
+      changed = entry.index.remove(id) || changed
+    }
+    if (!changed) return
+
+    if (entry.index.needsCompaction()) {
+      entry.index = entry.index.compact()
+    }
+    entry.dirty = true
+    this.scheduleFlush()
+  }
+
+  /**
+   * 删除集合的索引文件
+   */
+  drop(collectionId: string): void {
+    this.entries.delete(collectionId)
+    this.pendingRebuilds.delete(collectionId)
+    fs.rmSync(this.filePath(collectionId), { force: true })
+  }
+
+  /**
+   * 从数据库重建集合索引并立即写盘
+   */
+  rebuild(collectionId: string): VectorIndexStats {
+    return this.toStats(this.rebuildEntry(collectionId))
+  }
+
+  /**
+   * 打开集合索引，必要时立即同步重建
+   */
+  prepare(collectionId: string): void {
+    if (!this.load(collectionId)) this.rebuildEntry(collectionId)
+  }
+
+  /**
+   * 排队打开集合索引，需要重建时分批重建，不阻塞当前调用
+   */
+  warm(collectionIds: readonly string[]): void {
+    for (const collectionId of collectionIds) {
+      if (this.entries.has(collectionId) || this.pendingRebuilds.has(collectionId)) continue
+      const token = Symbol(collectionId)
+      this.pendingRebuilds.set(collectionId, token)
+      void this.warmOne(collectionId, token)
+    }
+  }
+
+  private async warmOne(collectionId: string, token: symbol): Promise<void> {
+    try {
+      await yieldToEventLoop()
+      // 排队期间集合已被删除或已同步重建
+      if (this.pendingRebuilds.get(collectionId) !== token) return
+      if (!this.load(collectionId)) await this.rebuildInBatches(collectionId, token)
+    } catch (error) {
+      logger.error(
+        `向量索引重建失败: ${collectionId}`,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    } finally {
+      if (this.pendingRebuilds.get(collectionId) === token) {
+        this.pendingRebuilds.delete(collectionId)
+      }
+    }
+  }
+
+  /**
+   * 已就绪的索引；需要重建时排队并返回 null
+   */
+  private ready(collectionId: string): IndexEntry | null {
+    const entry = this.pendingRebuilds.has(collectionId) ? null : this.load(collectionId)
+    if (!entry) this.warm([collectionId])
+    return entry
+  }
+
+  /**
+   * 在多个集合中检索，按相似度合并
+   * 索引尚需重建的集合本次跳过（结果只来自全文检索），并在后台排队重建
+   */
+  search(collectionIds: readonly string[], query: Float32Array, k: number): readonly HnswHit[] {
+    const hits: HnswHit[] = []
+
+    for (const collectionId of collectionIds) {
+      const entry = this.ready(collectionId)
+      if (!entry) {
+        logger.debug(`向量索引尚未就绪，跳过集合: ${collectionId}`)
+        continue
+      }
+      if (entry.index.size === 0) continue
+      if (entry.index.dimensions !== query.length) {
+        logger.warn(`查询向量维度与索引不一致，跳过集合: ${collectionId}`)
+        continue
+      }
+
+      const started = performance.now()
+      hits.push(...entry.index.search(query, k))
+      entry.queries++
+      entry.latencies.push(performance.now() - started)
+      if (entry.latencies.length > LATENCY_WINDOW) entry.latencies.shift()
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, k)
+  }
+
+  /**
+   * 索引统计；索引尚未打开或集合没有任何向量时返回 null（不触发加载或重建）
+   */
+  stats(collectionId: string): VectorIndexStats | null {
+    const entry = this.entries.get(collectionId)
+    if (!entry || entry.index.size === 0) return null
+    return this.toStats(entry)
+  }
+
+  private toStats(entry: IndexEntry): VectorIndexStats {
+    const sorted = [...entry.latencies].sort((a, b) => a - b)
+    const round = (ms: number): number => Math.round(ms * 100) / 100
+
+    return {
+      vectors: entry.index.size,
+      deleted: entry.index.deletedSize,
+      dimensions: entry.index.dimensions,
+      recall: entry.recall,
+      builtAt: entry.builtAt,
+      queries: entry.queries,
+      avgLatencyMs:
+        sorted.length > 0 ? round(sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length) : null,
+      p95LatencyMs:
+        sorted.length > 0
+          ? round(sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))]!)
+          : null,
+    }
+  }
+
+  /**
+   * 立即写入所有有变更的索引
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    for (const [collectionId, entry] of this.entries) {
+      if (!entry.dirty) continue
+      try {
+        this.save(collectionId, entry)
+      } catch (error) {
+        logger.error(
+          `向量索引写入失败: ${collectionId}`,
+          error instanceof Error ? error : new Error(String(error))
+        )
+      }
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { watch, type FSWatcher } from 'chokidar'
+import { createModuleLogger } from '@wqbot/core'
+import { inIgnoredDir, type FileChange } from './importer.js'
+
+const logger = createModuleLogger('knowledge-watcher')
+
+// 最后一次变更后等待的时间，批量处理保存、git checkout 等连续变更
+const DEFAULT_DEBOUNCE_MS = 500
+
+export interface WatchTarget {
+  readonly collectionId: string
+  readonly dir: string
+}
+
+export type WatchHandler = (target: WatchTarget, changes: readonly FileChange[]) => Promise<void>
+
+/**
+ * 监听集合目录，变更去抖后按目录批量交给处理函数，批次之间串行执行
+ */
+export class KnowledgeWatcher {
+  private watchers: FSWatcher[] = []
+  private pending = new Map<WatchTarget, Map<string, FileChange>>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly handler: WatchHandler,
+    private readonly debounceMs: number = DEFAULT_DEBOUNCE_MS
+  ) {}
+
+  start(targets: readonly WatchTarget[]): void {
+    for (const target of targets) {
+      const watcher = watch(target.dir, {
+        persistent: true,
+        ignoreInitial: true,
+        ignored: (filePath: string) => inIgnoredDir(filePath),
+        awaitWriteFinish: {
+          stabilityThreshold: 200,
+          pollInterval: 50,
+        },
+      })
+
+      watcher
+        .on('add', (filePath) => this.enqueue(target, { path: filePath, deleted: false }))
+        .on('change', (filePath) => this.enqueue(target, { path: filePath, deleted: false }))
+        .on('unlink', (filePath) => this.enqueue(target, { path: filePath, deleted: true }))
+        .on('error', (error) => {
+          logger.warn(`监听目录出错: ${target.dir}`, {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        })
+
+      this.watchers.push(watcher)
+    }
+
+    logger.info('知识库目录监听已启动', { dirs: targets.map((t) => t.dir) })
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.pending.clear()
+    for (const watcher of this.watchers) {
+      await watcher.close()
+    }
+    this.watchers = []
+    await this.running
+  }
+
+  private enqueue(target: WatchTarget, change: FileChange): void {
+    // 同一文件只保留最后一次变更
+    const changes = this.pending.get(target) ?? new Map<string, FileChange>()
+    changes.set(change.path, change)
+    this.pending.set(target, changes)
+
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = setTimeout(() => this.flush(), this.debounceMs)
+  }
+
+  private flush(): void {
+    this.timer = null
+    const batches = [...this.pending]
+    this.pending.clear()
+
+    this.running = this.running.then(async () => {
+      for (const [target, changes] of batches) {
+        try {
+          await this.handler(target, [...changes.values()])
+        } catch (error) {
+          logger.error(
+            `同步目录变更失败: ${target.dir}`,
+            error instanceof Error ? error : new Error(String(error))
+          )
+        }
+      }
+    })
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { chunkDocument } from '../src/chunker.js'
+import { chunkDocument, chunkSections } from '../src/chunker.js'
 
 describe('chunkDocument', () => {
   describe('basic chunking', () => {
@@ -148,3 +148,55 @@ Another short one.`
     })
   })
 })
+
+describe('chunkSections', () => {
+  it('merges short sections and records the page range', () => {
+    const result = chunkSections(
+      [
+        { text: 'Page one', page: 1 },
+        { text: 'Page two', page: 2, section: 'Intro' },
+      ],
+      {},
+      'Report'
+    )
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({
+      content: 'Page one\n\nPage two',
+      sourceTitle: 'Report',
+      page: 1,
+      pageEnd: 2,
+    })
+  })
+
+  it('splits oversized sections but keeps their location', () => {
+    const result = chunkSections([{ text: 'x'.repeat(500), page: 7 }], {
+      chunkSize: 200,
+      chunkOverlap: 0,
+    })
+    expect(result.length).toBeGreaterThan(1)
+    expect(result.every((c) => c.page === 7 && c.pageEnd === 7)).toBe(true)
+    expect(result.map((c) => c.chunkIndex)).toEqual(result.map((_, i) => i))
+  })
+
+  it('never splits a table row and tracks row ranges', () => {
+    const rows = Array.from({ length: 5 }, (_, i) => ({
+      text: `row ${i + 1} `.repeat(8),
+      row: i + 1,
+    }))
+    const result = chunkSections(rows, { chunkSize: 120 })
+    expect(result.map((c) => [c.rowStart, c.rowEnd])).toEqual([
+      [1, 2],
+      [3, 4],
+      [5, 5],
+    ])
+    expect(result[0]!.content.split('\n')).toHaveLength(2)
+  })
+
+  it('does not merge across chapters', () => {
+    const result = chunkSections([
+      { text: 'A', chapter: 1 },
+      { text: 'B', chapter: 2 },
+    ])
+    expect(result.map((c) => c.chapter)).toEqual([1, 2])
+  })
+})
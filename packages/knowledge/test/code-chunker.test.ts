@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest'
+import { chunkCode, detectLanguage } from '../src/code-chunker.js'
+
+const TS_SOURCE = `import { foo } from './foo.js'
+
+/**
+ * 加法
+ */
+export function add(a: number, b: number): number {
+  return a + b
+}
+
+export class Counter {
+  private count = 0
+
+  increment(): number {
+    return ++this.count
+  }
+
+  reset(): void {
+    this.count = 0
+  }
+}
+
+export const double = (n: number): number => n * 2
+`
+
+describe('detectLanguage', () => {
+  it('按扩展名识别语言', () => {
+    expect(detectLanguage('src/app.tsx')).toBe('typescript')
+    expect(detectLanguage('main.PY')).toBe('python')
+    expect(detectLanguage('lib.rs')).toBe('rust')
+    expect(detectLanguage('Main.java')).toBe('java')
+    expect(detectLanguage('README.md')).toBeUndefined()
+  })
+})
+
+describe('chunkCode', () => {
+  it('短文件合并为一个块并记录全部符号和行号', () => {
+    const chunks = chunkCode(TS_SOURCE, 'typescript')
+
+    expect(chunks).toHaveLength(1)
+    expect(chunks[0]!.startLine).toBe(1)
+    expect(chunks[0]!.endLine).toBe(22)
+    expect(chunks[0]!.symbols).toEqual(['add', 'Counter', 'double'])
+    expect(chunks[0]!.language).toBe('typescript')
+  })
+
+  it('按顶层声明切分，文档注释归入后面的声明', () => {
+    const chunks = chunkCode(TS_SOURCE, 'typescript', { chunkSize: 100 })
+
+    const add = chunks.find((c) => c.symbols.includes('add'))!
+    expect(add.content.startsWith('/**')).toBe(true)
+    expect(add.startLine).toBe(3)
+    expect(add.endLine).toBe(8)
+
+    // 相邻的短块合并
+    const double = chunks.find((c) => c.symbols.includes('double'))!
+    expect(double.symbols).toEqual(['Counter.reset', 'double'])
+    expect(double.endLine).toBe(22)
+  })
+
+  it('超长的类按成员方法继续切分', () => {
+    const chunks = chunkCode(TS_SOURCE, 'typescript', { chunkSize: 60 })
+
+    const increment = chunks.find((c) => c.symbols.includes('Counter.increment'))!
+    expect(increment.content).toContain('return ++this.count')
+    expect(increment.startLine).toBe(13)
+
+    const reset = chunks.find((c) => c.symbols.includes('Counter.reset'))!
+    expect(reset.startLine).toBe(17)
+    expect(reset.endLine).toBe(20)
+
+    // 类头部与第一个成员之前的字段归入类本身
+    const header = chunks.find((c) => c.content.startsWith('export class Counter'))!
+    expect(header.symbols).toContain('Counter')
+  })
+
+  it('块内容与行号一致', () => {
+    const lines = TS_SOURCE.split('\n')
+    for (const chunk of chunkCode(TS_SOURCE, 'typescript', { chunkSize: 80 })) {
+      expect(chunk.content).toBe(lines.slice(chunk.startLine - 1, chunk.endLine).join('\n'))
+    }
+  })
+
+  it('Python 按缩进识别类和方法，装饰器归入函数', () => {
+    const source = [
+      'import os',
+      '',
+      'class Greeter:',
+      '    def hello(self):',
+      '        return "hello"',
+      '',
+      '    def bye(self):',
+      '        return "bye"',
+      '',
+      '@cache',
+      'def main():',
+      '    print(Greeter().hello())',
+    ].join('\n')
+
+    const chunks = chunkCode(source, 'python', { chunkSize: 50 })
+
+    const main = chunks.find((c) => c.symbols.includes('main'))!
+    expect(main.startLine).toBe(10)
+    expect(main.content.startsWith('@cache')).toBe(true)
+    expect(chunks.some((c) => c.symbols.includes('Greeter.bye'))).toBe(true)
+  })
+
+  it('忽略字符串和注释中的花括号', () => {
+    const source = [
+      "fn parse<'a>(input: &'a str) -> &'a str {",
+      "    let open = '{';",
+      '    // }',
+      '    input',
+      '}',
+      '',
+      'struct Point {',
+      '    x: i32,',
+      '}',
+    ].join('\n')
+
+    const chunks = chunkCode(source, 'rust', { chunkSize: 100 })
+
+    expect(chunks.map((c) => c.symbols[0])).toEqual(['parse', 'Point'])
+    expect(chunks[1]!.startLine).toBe(7)
+  })
+
+  it('没有声明的超长内容按行窗口拆分', () => {
+    const source = Array.from({ length: 40 }, (_, i) => `console.log(${i})`).join('\n')
+    const chunks = chunkCode(source, 'javascript', { chunkSize: 100, chunkOverlap: 20 })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(100)
+    }
+    expect(chunks[chunks.length - 1]!.endLine).toBe(40)
+    // 相邻窗口有重叠
+    expect(chunks[1]!.startLine).toBeLessThanOrEqual(chunks[0]!.endLine)
+  })
+
+  it('拒绝不支持的语言', () => {
+    expect(() => chunkCode('x', 'cobol')).toThrow('Unsupported language')
+  })
+})
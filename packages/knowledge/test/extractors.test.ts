@@ -0,0 +1,308 @@
+import { deflateRawSync, deflateSync } from 'node:zlib'
+import { describe, it, expect } from 'vitest'
+import { getExtractor, extractorExtensions } from '../src/extractors/index.js'
+import { readZip } from '../src/extractors/zip.js'
+import { detectDelimiter } from '../src/extractors/csv.js'
+
+/**
+ * 构造 ZIP（偶数序号条目 deflate，其余 store；CRC 不校验，填 0）
+ */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  Object.entries(files).forEach(([name, content], i) => {
+    const raw = Buffer.from(content, 'utf-8')
+    const method = i % 2 === 0 ? 8 : 0
+    const data = method === 8 ? deflateRawSync(raw) : raw
+    const nameBytes = Buffer.from(name, 'utf-8')
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(0x800, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(0x800, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    locals.push(local, nameBytes, data)
+    centrals.push(central, nameBytes)
+    offset += local.length + nameBytes.length + data.length
+  })
+
+  const directory = Buffer.concat(centrals)
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(Object.keys(files).length, 8)
+  eocd.writeUInt16LE(Object.keys(files).length, 10)
+  eocd.writeUInt32LE(directory.length, 12)
+  eocd.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, eocd])
+}
+
+/**
+ * 构造 PDF：objects[i] 为第 i+1 号对象的内容
+ */
+function buildPdf(objects: readonly (string | Buffer)[], trailer: string): Buffer {
+  const parts: Buffer[] = [Buffer.from('%PDF-1.7\n')]
+  objects.forEach((object, i) => {
+    parts.push(Buffer.from(`${i + 1} 0 obj\n`), Buffer.from(object), Buffer.from('\nendobj\n'))
+  })
+  parts.push(Buffer.from(`trailer\n${trailer}\n%%EOF\n`))
+  return Buffer.concat(parts)
+}
+
+function stream(content: string): Buffer {
+  const data = deflateSync(Buffer.from(content, 'latin1'))
+  return Buffer.concat([
+    Buffer.from(`<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`),
+    data,
+    Buffer.from('\nendstream'),
+  ])
+}
+
+async function extract(file: string, data: Buffer) {
+  const extractor = getExtractor(file)
+  expect(extractor).toBeDefined()
+  return extractor!.extract(data, file)
+}
+
+describe('extractor registry', () => {
+  it('按扩展名（不区分大小写）选择提取器', () => {
+    expect(getExtractor('a/Report.PDF')?.name).toBe('pdf')
+    expect(getExtractor('page.htm')?.name).toBe('html')
+    expect(getExtractor('data.tsv')?.name).toBe('csv')
+    expect(getExtractor('notes.md')).toBeUndefined()
+    expect(extractorExtensions()).toEqual(expect.arrayContaining(['.pdf', '.docx', '.epub']))
+  })
+})
+
+describe('readZip', () => {
+  it('读取 store 和 deflate 条目', () => {
+    const zip = readZip(buildZip({ 'a.txt': 'hello', 'dir/b.txt': '你好' }))
+    expect(zip.get('a.txt')?.read().toString()).toBe('hello')
+    expect(zip.get('dir/b.txt')?.read().toString()).toBe('你好')
+  })
+
+  it('解压结果超过声明大小时抛出错误', () => {
+    const data = buildZip({ 'bomb.txt': 'x'.repeat(1000) })
+    // 把中央目录中的解压后大小改小
+    data.writeUInt32LE(10, data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24)
+    expect(() => readZip(data).get('bomb.txt')!.read()).toThrow(/declared size/)
+  })
+
+  it('声明大小超过上限的条目不解压', () => {
+    const data = buildZip({ 'big.txt': 'hello' })
+    data.writeUInt32LE(0xfffffff0, data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24)
+    const entry = readZip(data).get('big.txt')!
+    expect(entry.size).toBe(0xfffffff0)
+    expect(() => entry.read()).toThrow(/too large/)
+  })
+
+  it('非 ZIP 数据抛出错误', () => {
+    expect(() => readZip(Buffer.from('not a zip file at all, definitely'))).toThrow()
+  })
+})
+
+describe('pdfExtractor', () => {
+  const toUnicode = [
+    '/CIDInit /ProcSet findresource begin',
+    'begincmap',
+    '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+    '1 beginbfchar <0001> <4F60> endbfchar',
+    '1 beginbfrange <0002> <0003> <597D> endbfrange',
+    'endcmap',
+  ].join('\n')
+
+  const pdf = buildPdf(
+    [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>',
+      '<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>',
+      '<< /Type /Page /Parent 2 0 R /Contents [8 0 R] >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      '<< /Type /Font /Subtype /Type0 /BaseFont /Song /Encoding /Identity-H /DescendantFonts [10 0 R] /ToUnicode 9 0 R >>',
+      stream('BT /F1 12 Tf 72 720 Td (Hello World) Tj 0 -14 Td [(Sec) 20 (ond) -600 (line)] TJ ET'),
+      stream('BT /F2 12 Tf 72 720 Td <00010002> Tj (\\(x\\)) Tj ET'),
+      stream(toUnicode),
+      '<< /Type /Font /Subtype /CIDFontType0 /DW 1000 >>',
+      '<< /Title <FEFF62A5544A> >>',
+    ],
+    '<< /Root 1 0 R /Info 11 0 R /Size 12 >>'
+  )
+
+  it('按页提取文本，TJ 大间距视为空格', async () => {
+    const doc = await extract('report.pdf', pdf)
+    expect(doc.format).toBe('pdf')
+    expect(doc.sections[0]).toEqual({ page: 1, text: 'Hello World\nSecond line' })
+    expect(doc.sections[1]!.page).toBe(2)
+  })
+
+  it('通过 ToUnicode 解码 CID 字体，标题取自 /Info', async () => {
+    const doc = await extract('report.pdf', pdf)
+    expect(doc.sections[1]!.text.startsWith('你好')).toBe(true)
+    expect(doc.title).toBe('报告')
+  })
+
+  it('跳过解压后超过上限的流', async () => {
+    const content = Buffer.alloc(64 * 1024 * 1024 + 1, 0x20)
+    content.write('BT 72 720 Td (Boom) Tj ET')
+    const bomb = deflateSync(content)
+    const doc = await extract(
+      'bomb.pdf',
+      buildPdf(
+        [
+          '<< /Type /Catalog /Pages 2 0 R >>',
+          '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>',
+          '<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>',
+          '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>',
+          Buffer.concat([
+            Buffer.from(`<< /Length ${bomb.length} /Filter /FlateDecode >>\nstream\n`),
+            bomb,
+            Buffer.from('\nendstream'),
+          ]),
+          stream('BT 72 720 Td (Still here) Tj ET'),
+        ],
+        '<< /Root 1 0 R /Size 7 >>'
+      )
+    )
+    expect(doc.sections.map((section) => section.text)).toEqual(['Still here'])
+  })
+
+  it('拒绝加密文档', async () => {
+    const encrypted = buildPdf(
+      ['<< /Type /Catalog /Pages 2 0 R >>'],
+      '<< /Root 1 0 R /Encrypt 2 0 R >>'
+    )
+    await expect(extract('secret.pdf', encrypted)).rejects.toThrow(/Encrypted/)
+  })
+})
+
+describe('htmlExtractor', () => {
+  it('去掉导航和页脚，按标题分段', async () => {
+    const html = `<!DOCTYPE html>
+      <html><head><title>Guide &amp; Notes</title><style>p { color: red }</style></head>
+      <body>
+        <nav><a href="/">Home</a> <a href="/docs">Docs</a></nav>
+        <div class="sidebar">Related links</div>
+        <article>
+          <h1>Install</h1>
+          <p>Run the installer and follow the prompts on screen.
+          <p>Then restart, configure the service, and verify that it works.
+          <h2>Options</h2>
+          <ul><li>Fast mode<li>Safe mode</ul>
+          <table><tr><th>Key<th>Value<tr><td>port<td>8080</table>
+        </article>
+        <footer>Copyright</footer>
+        <script>var x = '<p>not text</p>'</script>
+      </body></html>`
+    const doc = await extract('guide.html', Buffer.from(html))
+
+    expect(doc.title).toBe('Guide & Notes')
+    const text = doc.sections.map((s) => s.text).join('\n')
+    expect(text).not.toMatch(/Home|Related|Copyright|not text|color/)
+    expect(doc.sections.map((s) => s.section)).toEqual(['Install', 'Options'])
+    expect(doc.sections[1]!.text).toBe(
+      '## Options\n\n- Fast mode\n\n- Safe mode\n\nKey | Value\nport | 8080'
+    )
+  })
+
+  it('按 meta charset 解码', async () => {
+    const html = Buffer.concat([
+      Buffer.from('<html><head><meta charset="gbk"></head><body><p>'),
+      Buffer.from([0xc4, 0xe3, 0xba, 0xc3]),
+      Buffer.from('</p></body></html>'),
+    ])
+    const doc = await extract('old.html', html)
+    expect(doc.sections[0]!.text).toBe('你好')
+  })
+})
+
+describe('csvExtractor', () => {
+  it('每个数据行一段，带列名和行号', async () => {
+    const csv = '\uFEFFname,city,note\nAlice,Paris,"likes ""tea"", cake"\n\nBob,,"multi\nline"\n'
+    const doc = await extract('people.csv', Buffer.from(csv))
+    expect(doc.sections).toEqual([
+      { row: 1, text: 'name: Alice | city: Paris | note: likes "tea", cake' },
+      { row: 2, text: 'name: Bob | note: multi\nline' },
+    ])
+  })
+
+  it('自动识别分隔符', () => {
+    expect(detectDelimiter('a;b;c\n1;2;3')).toBe(';')
+    expect(detectDelimiter('a|b\n1|2')).toBe('|')
+    expect(detectDelimiter('single')).toBe(',')
+  })
+
+  it('TSV 使用制表符', async () => {
+    const doc = await extract('data.tsv', Buffer.from('k\tv\nx\t1,2\n'))
+    expect(doc.sections[0]!.text).toBe('k: x | v: 1,2')
+  })
+})
+
+describe('docxExtractor', () => {
+  const document = `<?xml version="1.0" encoding="UTF-8"?>
+    <w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>
+      <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Intro</w:t></w:r></w:p>
+      <w:p><w:r><w:t xml:space="preserve">First </w:t></w:r><w:r><w:t>paragraph</w:t></w:r></w:p>
+      <w:tbl><w:tr><w:tc><w:p><w:r><w:t>A</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>B</w:t></w:r></w:p></w:tc></w:tr></w:tbl>
+      <w:p><w:r><w:br w:type="page"/><w:t>Second page</w:t></w:r></w:p>
+    </w:body></w:document>`
+  const styles = `<w:styles xmlns:w="x"><w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style></w:styles>`
+  const core = `<cp:coreProperties xmlns:dc="y"><dc:title>Spec</dc:title></cp:coreProperties>`
+
+  it('按标题和分页分段，保留页码', async () => {
+    const docx = buildZip({
+      '[Content_Types].xml': '<Types/>',
+      'word/document.xml': document,
+      'word/styles.xml': styles,
+      'docProps/core.xml': core,
+    })
+    const doc = await extract('spec.docx', docx)
+
+    expect(doc.title).toBe('Spec')
+    expect(doc.sections).toEqual([
+      { page: 1, section: 'Intro', text: '# Intro\n\nFirst paragraph\n\nA | B' },
+      { page: 2, section: 'Intro', text: 'Second page' },
+    ])
+  })
+})
+
+describe('epubExtractor', () => {
+  it('按 spine 顺序提取章节，章节名取自目录', async () => {
+    const epub = buildZip({
+      mimetype: 'application/epub+zip',
+      'META-INF/container.xml':
+        '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>',
+      'OEBPS/content.opf': `<package><metadata><dc:title>My Book</dc:title></metadata>
+        <manifest>
+          <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+          <item id="c1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+          <item id="c2" href="text/ch%202.xhtml" media-type="application/xhtml+xml"/>
+        </manifest>
+        <spine><itemref idref="c2"/><itemref idref="c1"/></spine></package>`,
+      'OEBPS/nav.xhtml':
+        '<html><body><nav><ol><li><a href="text/ch1.xhtml">Beginning</a></li><li><a href="text/ch%202.xhtml#top">The End</a></li></ol></nav></body></html>',
+      'OEBPS/text/ch1.xhtml': '<html><body><p>Once upon a time.</p></body></html>',
+      'OEBPS/text/ch 2.xhtml': '<html><body><h1>Finale</h1><p>They lived.</p></body></html>',
+    })
+    const doc = await extract('book.epub', epub)
+
+    expect(doc.title).toBe('My Book')
+    expect(doc.sections).toEqual([
+      { chapter: 1, section: 'Finale', text: '# Finale\n\nThey lived.' },
+      { chapter: 2, section: 'Beginning', text: 'Once upon a time.' },
+    ])
+  })
+})
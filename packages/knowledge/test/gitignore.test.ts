@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { parseGitignore, isIgnored } from '../src/gitignore.js'
+
+describe('parseGitignore', () => {
+  it('跳过空行和注释', () => {
+    expect(parseGitignore('\n# comment\n   \n')).toEqual([])
+  })
+})
+
+describe('isIgnored', () => {
+  it('不含 / 的模式匹配任意层级的名称', () => {
+    const rules = parseGitignore('*.log\nbuild')
+    expect(isIgnored(rules, 'debug.log', false)).toBe(true)
+    expect(isIgnored(rules, 'a/b/debug.log', false)).toBe(true)
+    expect(isIgnored(rules, 'packages/app/build', true)).toBe(true)
+    expect(isIgnored(rules, 'src/index.ts', false)).toBe(false)
+  })
+
+  it('以 / 开头或包含 / 的模式相对所在目录锚定', () => {
+    const rules = parseGitignore('/dist\ndocs/*.tmp')
+    expect(isIgnored(rules, 'dist', true)).toBe(true)
+    expect(isIgnored(rules, 'src/dist', true)).toBe(false)
+    expect(isIgnored(rules, 'docs/a.tmp', false)).toBe(true)
+    expect(isIgnored(rules, 'docs/sub/a.tmp', false)).toBe(false)
+  })
+
+  it('结尾 / 只匹配目录', () => {
+    const rules = parseGitignore('cache/')
+    expect(isIgnored(rules, 'cache', true)).toBe(true)
+    expect(isIgnored(rules, 'cache', false)).toBe(false)
+  })
+
+  it('** 匹配任意层目录', () => {
+    const rules = parseGitignore('**/fixtures/**\nlogs/**/*.txt')
+    expect(isIgnored(rules, 'test/fixtures/a.ts', false)).toBe(true)
+    expect(isIgnored(rules, 'logs/a.txt', false)).toBe(true)
+    expect(isIgnored(rules, 'logs/x/y/a.txt', false)).toBe(true)
+  })
+
+  it('! 取反，后出现的规则优先', () => {
+    const rules = parseGitignore('*.md\n!README.md')
+    expect(isIgnored(rules, 'NOTES.md', false)).toBe(true)
+    expect(isIgnored(rules, 'README.md', false)).toBe(false)
+  })
+
+  it('子目录的规则只作用于该目录', () => {
+    const rules = [...parseGitignore('*.tmp'), ...parseGitignore('generated.ts\n!keep.tmp', 'src')]
+    expect(isIgnored(rules, 'src/generated.ts', false)).toBe(true)
+    expect(isIgnored(rules, 'lib/generated.ts', false)).toBe(false)
+    expect(isIgnored(rules, 'src/keep.tmp', false)).toBe(false)
+    expect(isIgnored(rules, 'lib/keep.tmp', false)).toBe(true)
+  })
+})
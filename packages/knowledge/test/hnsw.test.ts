@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { HnswIndex } from '../src/hnsw.js'
+
+// 可复现的伪随机向量
+function randomVectors(count: number, dims: number, seed = 1): Float32Array[] {
+  let state = seed
+  const next = (): number => {
+    state = (state * 1103515245 + 12345) % 2147483648
+    return state / 2147483648 - 0.5
+  }
+  return Array.from({ length: count }, () => Float32Array.from({ length: dims }, next))
+}
+
+function buildIndex(vectors: readonly Float32Array[]): HnswIndex {
+  const index = new HnswIndex({ m: 8, efConstruction: 64 })
+  vectors.forEach((v, i) => index.add(`v${i}`, v))
+  return index
+}
+
+describe('HnswIndex', () => {
+  const vectors = randomVectors(400, 16)
+
+  it('近似检索结果与暴力检索高度一致', () => {
+    const index = buildIndex(vectors)
+
+    expect(index.size).toBe(400)
+    expect(index.estimateRecall(20, 10)).toBeGreaterThan(0.9)
+  })
+
+  it('返回余弦相似度，自身为最近邻', () => {
+    const index = buildIndex(vectors)
+    const hits = index.search(vectors[7]!, 3)
+
+    expect(hits[0]!.id).toBe('v7')
+    expect(hits[0]!.score).toBeCloseTo(1, 5)
+    expect(hits[1]!.score).toBeLessThanOrEqual(hits[0]!.score)
+  })
+
+  it('删除后不再返回，墓碑过多时可压缩', () => {
+    const index = buildIndex(vectors)
+    for (let i = 0; i < 150; i++) index.remove(`v${i}`)
+
+    expect(index.size).toBe(250)
+    expect(index.search(vectors[3]!, 5).some((hit) => hit.id === 'v3')).toBe(false)
+    expect(index.needsCompaction()).toBe(true)
+
+    const compacted = index.compact()
+    expect(compacted.size).toBe(250)
+    expect(compacted.deletedSize).toBe(0)
+    expect(compacted.search(vectors[200]!, 1)[0]!.id).toBe('v200')
+  })
+
+  it('相同 id 再次写入时替换旧向量', () => {
+    const index = buildIndex(vectors.slice(0, 50))
+    index.add('v0', vectors[100]!)
+
+    expect(index.size).toBe(50)
+    expect(index.search(vectors[100]!, 1)[0]!.id).toBe('v0')
+  })
+
+  it('序列化后恢复相同的检索结果和元数据', () => {
+    const index = buildIndex(vectors.slice(0, 100))
+    index.remove('v5')
+    index.add('v6', vectors[200]!)
+
+    const { index: restored, meta } = HnswIndex.deserialize(
+      index.serialize({ signature: '100:100' })
+    )
+
+    expect(meta).toEqual({ signature: '100:100' })
+    expect(restored.size).toBe(index.size)
+    expect(restored.has('v5')).toBe(false)
+    expect(restored.has('v6')).toBe(true)
+    expect(restored.search(vectors[42]!, 5)).toEqual(index.search(vectors[42]!, 5))
+  })
+
+  it('拒绝维度不一致的向量', () => {
+    const index = buildIndex(vectors.slice(0, 5))
+    expect(() => index.add('x', new Float32Array(8))).toThrow('dimension mismatch')
+  })
+})
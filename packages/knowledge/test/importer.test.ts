@@ -0,0 +1,182 @@
+import { promises as fs } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@wqbot/storage', () => ({
+  getDatabase: vi.fn(),
+}))
+vi.mock('@wqbot/core', () => ({
+  createModuleLogger: () => ({ error: vi.fn(), info: vi.fn(), debug: vi.fn(), warn: vi.fn() }),
+  generateId: () => 'mock-id',
+}))
+
+// 内存中的 chunk 和文件哈希
+const chunks = new Map<string, number>()
+const hashes = new Map<string, string>()
+const mockKnowledgeDB = {
+  getFileHash: (file: string) => hashes.get(file),
+  setFileHash: (_collectionId: string, file: string, hash: string) => hashes.set(file, hash),
+  getChunksBySourceFile: (file: string) => Array.from({ length: chunks.get(file) ?? 0 }),
+  listIndexedFiles: () => [...new Set([...hashes.keys(), ...chunks.keys()])],
+  addChunks: vi.fn((inputs: { sourceFile: string }[]) => {
+    for (const input of inputs) {
+      chunks.set(input.sourceFile, (chunks.get(input.sourceFile) ?? 0) + 1)
+    }
+  }),
+  deleteChunksBySourceFile: (file: string) => {
+    const count = chunks.get(file) ?? 0
+    chunks.delete(file)
+    return count
+  },
+  deleteFile: (file: string) => {
+    const count = mockKnowledgeDB.deleteChunksBySourceFile(file)
+    hashes.delete(file)
+    return count
+  },
+}
+vi.mock('../src/database.js', () => ({ getKnowledgeDB: () => mockKnowledgeDB }))
+
+import {
+  scanFiles,
+  isSupportedFile,
+  isIndexable,
+  importDirectory,
+  syncChanges,
+  type ImportProgress,
+} from '../src/importer.js'
+
+describe('isSupportedFile', () => {
+  it('接受文档和源码，排除压缩产物', () => {
+    expect(isSupportedFile('notes.md')).toBe(true)
+    expect(isSupportedFile('src/index.ts')).toBe(true)
+    expect(isSupportedFile('main.go')).toBe(true)
+    expect(isSupportedFile('vendor.min.js')).toBe(false)
+    expect(isSupportedFile('image.png')).toBe(false)
+  })
+})
+
+describe('scanFiles', () => {
+  let root: string
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'wqbot-scan-'))
+    const files: Record<string, string> = {
+      '.gitignore': 'dist/\n*.log\n',
+      'README.md': '# Readme',
+      'src/index.ts': 'export {}',
+      'src/.gitignore': 'generated.ts\n',
+      'src/generated.ts': 'export {}',
+      'src/util.py': 'def f(): pass',
+      'dist/index.js': 'export {}',
+      'node_modules/pkg/index.js': 'export {}',
+      'debug.log': 'log',
+      'image.png': '',
+    }
+    for (const [name, content] of Object.entries(files)) {
+      const file = path.join(root, name)
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await fs.writeFile(file, content)
+    }
+  })
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('遵循各级 .gitignore 并跳过 node_modules', async () => {
+    const files = await scanFiles(root)
+    const relative = files.map((f) => path.relative(root, f).split(path.sep).join('/')).sort()
+
+    expect(relative).toEqual(['README.md', 'src/index.ts', 'src/util.py'])
+  })
+
+  it('单个文件按同样的规则判断是否导入', async () => {
+    const check = (name: string) => isIndexable(root, path.join(root, name))
+
+    expect(await check('src/index.ts')).toBe(true)
+    expect(await check('README.md')).toBe(true)
+    expect(await check('src/generated.ts')).toBe(false)
+    expect(await check('dist/index.js')).toBe(false)
+    expect(await check('node_modules/pkg/index.js')).toBe(false)
+    expect(await check('debug.log')).toBe(false)
+    expect(await check('image.png')).toBe(false)
+    expect(await isIndexable(root, path.join(os.tmpdir(), 'other.md'))).toBe(false)
+  })
+})
+
+describe('增量同步', () => {
+  let root: string
+  let events: ImportProgress[]
+  const options = () => ({
+    collectionId: 'col-1',
+    onProgress: (progress: ImportProgress) => events.push(progress),
+  })
+
+  beforeEach(async () => {
+    chunks.clear()
+    hashes.clear()
+    events = []
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'wqbot-sync-'))
+    await fs.writeFile(path.join(root, 'a.md'), '# A\n\n第一篇')
+    await fs.writeFile(path.join(root, 'b.md'), '# B\n\n第二篇')
+  })
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  it('内容未变的文件按哈希跳过，修改时间变化不影响', async () => {
+    const first = await importDirectory(root, options())
+    expect(first).toMatchObject({ filesProcessed: 2, filesSkipped: 0, filesRemoved: 0 })
+
+    const later = new Date(Date.now() + 60_000)
+    await fs.utimes(path.join(root, 'a.md'), later, later)
+    await fs.writeFile(path.join(root, 'b.md'), '# B\n\n改过的第二篇')
+    events = []
+
+    const second = await importDirectory(root, options())
+    expect(second).toMatchObject({ filesProcessed: 1, filesSkipped: 1, filesRemoved: 0 })
+    expect(events.map((e) => [path.basename(e.file), e.action])).toEqual([['b.md', 'indexed']])
+  })
+
+  it('重新导入时移除已删除文件的 chunk', async () => {
+    await importDirectory(root, options())
+    await fs.rm(path.join(root, 'a.md'))
+    events = []
+
+    const result = await importDirectory(root, options())
+    expect(result.filesRemoved).toBe(1)
+    expect(chunks.has(path.join(root, 'a.md'))).toBe(false)
+    expect(hashes.has(path.join(root, 'a.md'))).toBe(false)
+    expect(events.at(-1)).toMatchObject({ action: 'removed', processed: 2, total: 2 })
+  })
+
+  it('目录不存在时不移除已导入的文件', async () => {
+    await importDirectory(root, options())
+    const result = await importDirectory(path.join(root, 'missing'), options())
+
+    expect(result.filesRemoved).toBe(0)
+    expect(chunks.size).toBe(2)
+  })
+
+  it('同步监听到的变更：删除、被忽略和新增', async () => {
+    await importDirectory(root, options())
+    await fs.rm(path.join(root, 'a.md'))
+    await fs.writeFile(path.join(root, '.gitignore'), 'b.md\n')
+    await fs.writeFile(path.join(root, 'c.md'), '# C')
+
+    const result = await syncChanges(
+      root,
+      [
+        { path: path.join(root, 'a.md'), deleted: true },
+        { path: path.join(root, 'b.md'), deleted: false },
+        { path: path.join(root, 'c.md'), deleted: false },
+      ],
+      options()
+    )
+
+    expect(result).toMatchObject({ filesProcessed: 1, filesRemoved: 2 })
+    expect([...chunks.keys()]).toEqual([path.join(root, 'c.md')])
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { buildRagContext, formatLocation } from '../src/rag.js'
+import type { SearchResult } from '../src/types.js'
+
+// 按字符计数，便于推算预算
+const countChars = (text: string): number => text.length
+
+function result(id: string, content: string, extra: Partial<SearchResult> = {}): SearchResult {
+  return {
+    id,
+    content,
+    sourceFile: `/docs/${id}.md`,
+    sourceTitle: id,
+    collectionName: 'docs',
+    score: 1,
+    ...extra,
+  }
+}
+
+describe('formatLocation', () => {
+  it('源码结果返回行号范围', () => {
+    expect(formatLocation(result('a', 'x', { startLine: 10, endLine: 20 }))).toBe('10-20')
+    expect(formatLocation(result('a', 'x', { startLine: 7, endLine: 7 }))).toBe('7')
+  })
+
+  it('文档结果返回页码、章节和数据行', () => {
+    expect(
+      formatLocation(result('a', 'x', { format: 'pdf', page: 12, pageEnd: 13, section: '安装' }))
+    ).toBe('p.12-13, §安装')
+    expect(formatLocation(result('a', 'x', { format: 'epub', chapter: 3 }))).toBe('ch.3')
+    expect(formatLocation(result('a', 'x', { format: 'csv', rowStart: 2, rowEnd: 9 }))).toBe(
+      'rows 2-9'
+    )
+  })
+
+  it('纯文本结果没有位置', () => {
+    expect(formatLocation(result('a', 'x'))).toBe('')
+  })
+})
+
+describe('buildRagContext', () => {
+  it('按顺序编号并记录引用', () => {
+    const context = buildRagContext(
+      [result('a', '第一段'), result('b', '第二段', { startLine: 3, endLine: 5 })],
+      2000,
+      countChars
+    )
+
+    expect(context.prompt).toContain('<knowledge>')
+    expect(context.prompt).toContain('[1] /docs/a.md\n第一段')
+    expect(context.prompt).toContain('[2] /docs/b.md:3-5\n第二段')
+    expect(context.citations.map((c) => [c.index, c.chunkId, c.location])).toEqual([
+      [1, 'a', ''],
+      [2, 'b', '3-5'],
+    ])
+    expect(context.tokens).toBeLessThanOrEqual(2000)
+  })
+
+  it('超出预算的后续结果被跳过', () => {
+    const header = buildRagContext([result('a', 'x')], 2000, countChars)
+    const budget = header.tokens + 40
+    const context = buildRagContext(
+      [result('a', 'x'), result('b', 'y'.repeat(200)), result('c', 'z')],
+      budget,
+      countChars
+    )
+
+    expect(context.citations.map((c) => c.chunkId)).toEqual(['a', 'c'])
+    expect(context.citations[1]!.index).toBe(2)
+    expect(context.tokens).toBeLessThanOrEqual(budget)
+  })
+
+  it('第一条超出预算时截断', () => {
+    const header = buildRagContext([result('a', '')], 2000, countChars)
+    const budget = header.tokens + 100
+    const context = buildRagContext([result('a', 'y'.repeat(1000))], budget, countChars)
+
+    expect(context.citations).toHaveLength(1)
+    expect(context.prompt).toContain('…')
+    expect(context.tokens).toBeLessThanOrEqual(budget)
+  })
+
+  it('没有结果或预算不足时返回空', () => {
+    expect(buildRagContext([], 2000, countChars)).toEqual({ prompt: '', citations: [], tokens: 0 })
+    expect(buildRagContext([result('a', 'x'.repeat(100))], 10, countChars).prompt).toBe('')
+  })
+})
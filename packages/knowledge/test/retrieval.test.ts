@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest'
+import { expandQuery, localRerankScore, rerankResults } from '../src/retrieval.js'
+import type { SearchResult } from '../src/types.js'
+
+function result(id: string, content: string, score = 1): SearchResult {
+  return {
+    id,
+    content,
+    sourceFile: null,
+    sourceTitle: null,
+    collectionName: 'docs',
+    score,
+    scoring: { retrieval: score },
+  }
+}
+
+describe('expandQuery', () => {
+  it('multi 模式返回去重后的子查询', async () => {
+    const chat = vi.fn().mockResolvedValue({
+      content: '```json\n{"queries": ["HNSW 参数", "hnsw 参数", "向量索引 召回率", "索引"]}\n```',
+    })
+
+    const expansions = await expandQuery('向量索引', { mode: 'multi', queries: 3 }, chat)
+
+    expect(expansions).toEqual(['HNSW 参数', '向量索引 召回率'])
+    const [, options] = chat.mock.calls[0]!
+    expect(options.systemPrompt).toContain('"queries"')
+    expect(options.systemPrompt).not.toContain('"passage"')
+    expect(options).toMatchObject({ taskType: 'simple_qa', temperature: 0 })
+  })
+
+  it('hyde 模式只使用假设性段落，指定模型时不按任务路由', async () => {
+    const chat = vi.fn().mockResolvedValue({
+      content: '{"queries": ["忽略"], "passage": "efSearch 越大召回率越高。"}',
+    })
+
+    const expansions = await expandQuery(
+      '如何提高召回率',
+      { mode: 'hyde', model: 'gpt-4o-mini' },
+      chat
+    )
+
+    expect(expansions).toEqual(['efSearch 越大召回率越高。'])
+    expect(chat.mock.calls[0]![1]).toMatchObject({ model: 'gpt-4o-mini' })
+    expect(chat.mock.calls[0]![1].taskType).toBeUndefined()
+  })
+
+  it('输出不是 JSON 时抛出错误', async () => {
+    const chat = vi.fn().mockResolvedValue({ content: '无法改写' })
+    await expect(expandQuery('q', { mode: 'both' }, chat)).rejects.toThrow()
+  })
+})
+
+describe('localRerankScore', () => {
+  it('按查询词覆盖率打分，完整包含短语时加分', () => {
+    expect(localRerankScore('vector index', 'The vector index stores embeddings')).toBe(1)
+    expect(localRerankScore('vector index', 'index of vector values')).toBe(0.8)
+    expect(localRerankScore('vector index', 'a vector')).toBe(0.4)
+    expect(localRerankScore('vector index', 'unrelated')).toBe(0)
+  })
+
+  it('中文按相邻两字匹配', () => {
+    expect(localRerankScore('向量索引', '构建向量索引')).toBe(1)
+    expect(localRerankScore('向量索引', '向量和索引')).toBeCloseTo(0.533, 3)
+  })
+})
+
+describe('rerankResults', () => {
+  it('本地打分按重排分降序并保留召回分', async () => {
+    const chat = vi.fn()
+    const reranked = await rerankResults(
+      '向量索引',
+      [result('a', '对话历史', 0.9), result('b', '向量索引的参数', 0.5)],
+      { scorer: 'local' },
+      chat
+    )
+
+    expect(reranked.map((r) => r.id)).toEqual(['b', 'a'])
+    expect(reranked[0]!.scoring).toEqual({ retrieval: 0.5, rerank: 1, scorer: 'local' })
+    expect(reranked[0]!.score).toBe(1)
+    expect(chat).not.toHaveBeenCalled()
+  })
+
+  it('LLM 打分归一化到 0-1，缺失的分数按 0 处理', async () => {
+    const chat = vi.fn().mockResolvedValue({ content: '{"scores": [3, 10]}' })
+    const reranked = await rerankResults(
+      'q',
+      [result('a', 'first'), result('b', 'second'), result('c', 'third')],
+      { scorer: 'llm' },
+      chat
+    )
+
+    expect(reranked.map((r) => [r.id, r.score])).toEqual([
+      ['b', 1],
+      ['a', 0.3],
+      ['c', 0],
+    ])
+    expect(chat.mock.calls[0]![0][0].content).toContain('[3] third')
+  })
+})
@@ -1,15 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 
 // Move existing test file content here with updated import paths
-vi.mock('@wqbot/storage', () => ({
-  getDatabase: vi.fn(),
-}))
+const mockDb = { query: vi.fn(), queryOne: vi.fn() }
+
+// 查询构造用真实实现（storage 入口依赖 bun:sqlite，直接引用源码）
+vi.mock('@wqbot/storage', async () => {
+  const { buildFtsQuery } = await import('../../storage/src/fts.js')
+  return { getDatabase: () => mockDb, buildFtsQuery }
+})
 vi.mock('@wqbot/core', () => ({
   createModuleLogger: () => ({ error: vi.fn(), info: vi.fn(), debug: vi.fn(), warn: vi.fn() }),
   generateId: () => 'mock-id',
 }))
 
-import { cosineSimilarity, rrfFusion } from '../src/search.js'
+import { cosineSimilarity, rrfFusion, search } from '../src/search.js'
 
 describe('cosineSimilarity', () => {
   it('相同向量返回 1', () => {
@@ -102,3 +106,87 @@ describe('rrfFusion', () => {
     }
   })
 })
+
+describe('search', () => {
+  beforeEach(() => {
+    mockDb.query.mockReset().mockReturnValue([])
+    mockDb.queryOne.mockReset()
+  })
+
+  it('用户输入按字面匹配，不会触发 FTS 语法错误', () => {
+    search({ query: 'foo" NEAR(bar', collectionId: 'col-1' })
+
+    const [sql, params] = mockDb.query.mock.calls[0]!
+    expect(sql).toContain('knowledge_fts MATCH ?')
+    expect(sql).toContain('c.collection_id = ?')
+    expect(params).toEqual(['"foo""" "NEAR(bar"', 'col-1', 15])
+  })
+
+  it('中文短词走 LIKE，长词走 trigram 索引', () => {
+    search({ query: '向量数据库 索引' })
+
+    const [sql, params] = mockDb.query.mock.calls[0]!
+    expect(sql).toContain('knowledge_fts MATCH ?')
+    expect(sql).toContain('c.content LIKE ?')
+    expect(params).toEqual(['"向量数据库"', '%索引%', 15])
+  })
+
+  it('只有短词时直接查询 knowledge_chunks', () => {
+    search({ query: '索引' })
+
+    const [sql] = mockDb.query.mock.calls[0]!
+    expect(sql).not.toContain('knowledge_fts')
+    expect(sql).toContain('FROM knowledge_chunks c')
+  })
+
+  it('提取文档的结果带页码和章节', () => {
+    mockDb.query.mockReturnValue([{ id: 'c1', rank: -1 }])
+    mockDb.queryOne.mockImplementation((sql: string) =>
+      sql.includes('knowledge_chunks')
+        ? {
+            id: 'c1',
+            content: '安装步骤',
+            source_file: '/docs/guide.pdf',
+            source_title: 'Guide',
+            collection_id: 'col-1',
+            metadata: JSON.stringify({ format: 'pdf', page: 12, pageEnd: 13, section: '安装' }),
+          }
+        : { name: 'docs' }
+    )
+
+    const [result] = search({ query: '安装步骤' })
+    expect(result).toMatchObject({ format: 'pdf', page: 12, pageEnd: 13, section: '安装' })
+    expect(result!.startLine).toBeUndefined()
+  })
+
+  it('扩展查询分别检索后融合，并记录命中的查询', () => {
+    mockDb.query.mockImplementation((_sql: string, params: unknown[]) =>
+      params[0] === '"向量索引"' ? [{ id: 'c1', rank: -2 }] : [{ id: 'c2', rank: -1 }]
+    )
+    mockDb.queryOne.mockImplementation((sql: string, params: unknown[]) =>
+      sql.includes('knowledge_chunks')
+        ? {
+            id: params[0],
+            content: '内容',
+            source_file: null,
+            source_title: null,
+            collection_id: 'col-1',
+            metadata: null,
+          }
+        : { name: 'docs' }
+    )
+
+    const results = search({ query: '向量索引', expansions: ['HNSW 参数'] })
+
+    expect(mockDb.query).toHaveBeenCalledTimes(2)
+    expect(results.map((r) => [r.id, r.scoring?.queries])).toEqual([
+      ['c1', ['向量索引']],
+      ['c2', ['HNSW 参数']],
+    ])
+  })
+
+  it('空查询不访问数据库', () => {
+    expect(search({ query: '  ' })).toEqual([])
+    expect(mockDb.query).not.toHaveBeenCalled()
+  })
+})
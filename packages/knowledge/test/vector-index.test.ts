@@ -0,0 +1,168 @@
+import { promises as fs } from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@wqbot/core', () => ({
+  createModuleLogger: () => ({ error: vi.fn(), info: vi.fn(), debug: vi.fn(), warn: vi.fn() }),
+}))
+
+import { VectorIndexStore, type VectorEntry } from '../src/vector-index.js'
+
+function vector(...values: number[]): Float32Array {
+  return Float32Array.from(values)
+}
+
+describe('VectorIndexStore', () => {
+  let dir: string
+  let rows: VectorEntry[]
+  let maxRowid: number
+  const source = {
+    load: vi.fn(() => rows),
+    signature: () => `${rows.length}:${maxRowid}`,
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'wqbot-hnsw-'))
+    rows = [
+      { id: 'a', embedding: vector(1, 0, 0) },
+      { id: 'b', embedding: vector(0, 1, 0) },
+    ]
+    maxRowid = 2
+    source.load.mockClear()
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('首次使用时从数据库构建并写盘，之后从磁盘加载', async () => {
+    const store = new VectorIndexStore(source, () => dir)
+    store.prepare('col')
+    expect(store.search(['col'], vector(1, 0.1, 0), 1)[0]!.id).toBe('a')
+    expect(source.load).toHaveBeenCalledTimes(1)
+    await expect(fs.stat(path.join(dir, 'col.hnsw'))).resolves.toBeTruthy()
+
+    const reopened = new VectorIndexStore(source, () => dir)
+    expect(reopened.search(['col'], vector(0, 1, 0), 1)[0]!.id).toBe('b')
+    expect(source.load).toHaveBeenCalledTimes(1)
+  })
+
+  it('增量写入和删除，flush 后签名一致无需重建', () => {
+    const store = new VectorIndexStore(source, () => dir)
+    store.prepare('col')
+
+    rows = [...rows, { id: 'c', embedding: vector(0, 0, 1) }]
+    maxRowid = 3
+    store.add('col', [{ id: 'c', embedding: vector(0, 0, 1) }])
+    rows = rows.filter((row) => row.id !== 'a')
+    store.remove('col', ['a'])
+    store.flush()
+
+    const reopened = new VectorIndexStore(source, () => dir)
+    const hits = reopened.search(['col'], vector(1, 0, 1), 3)
+    expect(hits.map((hit) => hit.id).sort()).toEqual(['b', 'c'])
+    expect(source.load).toHaveBeenCalledTimes(1)
+  })
+
+  it('磁盘索引与数据库不一致时在后台重建，不阻塞检索', async () => {
+    new VectorIndexStore(source, () => dir).prepare('col')
+
+    // 模拟未写盘就退出后数据库发生了变化
+    rows = [...rows, { id: 'c', embedding: vector(0, 0, 1) }]
+    maxRowid = 3
+
+    const reopened = new VectorIndexStore(source, () => dir)
+    expect(reopened.search(['col'], vector(0, 0, 1), 1)).toEqual([])
+    expect(source.load).toHaveBeenCalledTimes(1)
+
+    await vi.waitFor(() => expect(reopened.stats('col')).not.toBeNull())
+    expect(source.load).toHaveBeenCalledTimes(2)
+    expect(reopened.search(['col'], vector(0, 0, 1), 1)[0]!.id).toBe('c')
+  })
+
+  it('未就绪的集合增量写入时只排队重建，不同步读取数据库', async () => {
+    const store = new VectorIndexStore(source, () => dir)
+    rows = [...rows, { id: 'c', embedding: vector(0, 0, 1) }]
+    maxRowid = 3
+
+    store.add('col', [{ id: 'c', embedding: vector(0, 0, 1) }])
+    expect(source.load).not.toHaveBeenCalled()
+
+    await vi.waitFor(() => expect(store.stats('col')?.vectors).toBe(3))
+  })
+
+  it('分批重建，批次之间让出事件循环', async () => {
+    rows = Array.from({ length: 600 }, (_, i) => ({
+      id: `v${i}`,
+      embedding: vector(Math.cos(i), Math.sin(i), i / 600),
+    }))
+    maxRowid = 600
+    const store = new VectorIndexStore(source, () => dir)
+
+    store.warm(['col'])
+    await new Promise((resolve) => setImmediate(resolve))
+    await new Promise((resolve) => setImmediate(resolve))
+    expect(source.load).toHaveBeenCalledTimes(1)
+    expect(store.stats('col')).toBeNull()
+
+    await vi.waitFor(() => expect(store.stats('col')?.vectors).toBe(600))
+  })
+
+  it('删除集合后放弃进行中的重建', async () => {
+    rows = Array.from({ length: 600 }, (_, i) => ({
+      id: `v${i}`,
+      embedding: vector(Math.cos(i), Math.sin(i), i / 600),
+    }))
+    maxRowid = 600
+    const store = new VectorIndexStore(source, () => dir)
+
+    store.warm(['col'])
+    await new Promise((resolve) => setImmediate(resolve))
+    await new Promise((resolve) => setImmediate(resolve))
+    store.drop('col')
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    expect(store.stats('col')).toBeNull()
+    await expect(fs.readdir(dir)).resolves.toEqual([])
+  })
+
+  it('统计不会打开或重建索引', () => {
+    const store = new VectorIndexStore(source, () => dir)
+    expect(store.stats('col')).toBeNull()
+    expect(source.load).not.toHaveBeenCalled()
+  })
+
+  it('统计向量数、召回率和查询延迟', () => {
+    const store = new VectorIndexStore(source, () => dir)
+    store.prepare('col')
+    store.search(['col'], vector(1, 0, 0), 1)
+    store.search(['col'], vector(0, 1, 0), 1)
+
+    const stats = store.stats('col')!
+    expect(stats.vectors).toBe(2)
+    expect(stats.dimensions).toBe(3)
+    expect(stats.recall).toBe(1)
+    expect(stats.queries).toBe(2)
+    expect(stats.avgLatencyMs).not.toBeNull()
+  })
+
+  it('没有向量的集合无统计、不写文件', async () => {
+    rows = []
+    maxRowid = 0
+    const store = new VectorIndexStore(source, () => dir)
+    store.prepare('empty')
+
+    expect(store.stats('empty')).toBeNull()
+    await expect(fs.readdir(dir)).resolves.toEqual([])
+  })
+
+  it('多个集合的结果按相似度合并', () => {
+    const store = new VectorIndexStore(source, () => dir)
+    store.prepare('col1')
+    store.prepare('col2')
+    const hits = store.search(['col1', 'col2'], vector(1, 0, 0), 2)
+    expect(hits).toHaveLength(2)
+    expect(hits[0]!.score).toBeGreaterThanOrEqual(hits[1]!.score)
+  })
+})
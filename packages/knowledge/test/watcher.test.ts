@@ -0,0 +1,78 @@
+import { EventEmitter } from 'node:events'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@wqbot/storage', () => ({
+  getDatabase: vi.fn(),
+}))
+vi.mock('@wqbot/core', () => ({
+  createModuleLogger: () => ({ error: vi.fn(), info: vi.fn(), debug: vi.fn(), warn: vi.fn() }),
+  generateId: () => 'mock-id',
+}))
+
+// 每个被监听的目录对应一个假的 chokidar watcher
+const watchers = new Map<string, EventEmitter & { close: () => Promise<void> }>()
+const watchOptions: Record<string, unknown>[] = []
+vi.mock('chokidar', () => ({
+  watch: (dir: string, options: Record<string, unknown>) => {
+    const watcher = Object.assign(new EventEmitter(), { close: vi.fn(async () => {}) })
+    watchers.set(dir, watcher)
+    watchOptions.push(options)
+    return watcher
+  },
+}))
+
+import { KnowledgeWatcher, type WatchTarget } from '../src/watcher.js'
+import type { FileChange } from '../src/importer.js'
+
+describe('KnowledgeWatcher', () => {
+  const docs: WatchTarget = { collectionId: 'col-1', dir: '/docs' }
+  const code: WatchTarget = { collectionId: 'col-2', dir: '/code' }
+  let calls: [WatchTarget, FileChange[]][]
+  let watcher: KnowledgeWatcher
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    watchers.clear()
+    watchOptions.length = 0
+    calls = []
+    watcher = new KnowledgeWatcher(async (target, changes) => {
+      calls.push([target, [...changes]])
+    }, 100)
+    watcher.start([docs, code])
+  })
+
+  afterEach(async () => {
+    await watcher.stop()
+    vi.useRealTimers()
+  })
+
+  it('去抖后按目录批量处理，同一文件只保留最后一次变更', async () => {
+    watchers.get('/docs')!.emit('add', '/docs/a.md')
+    watchers.get('/docs')!.emit('change', '/docs/a.md')
+    await vi.advanceTimersByTimeAsync(50)
+    watchers.get('/docs')!.emit('unlink', '/docs/a.md')
+    watchers.get('/code')!.emit('change', '/code/main.ts')
+    expect(calls).toHaveLength(0)
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(calls).toEqual([
+      [docs, [{ path: '/docs/a.md', deleted: true }]],
+      [code, [{ path: '/code/main.ts', deleted: false }]],
+    ])
+  })
+
+  it('忽略 .git 和 node_modules 中的变更', () => {
+    const ignored = watchOptions[0]!.ignored as (filePath: string) => boolean
+    expect(ignored('/docs/.git/HEAD')).toBe(true)
+    expect(ignored('/docs/node_modules/pkg/index.js')).toBe(true)
+    expect(ignored('/docs/guide.md')).toBe(false)
+  })
+
+  it('停止后丢弃尚未处理的变更', async () => {
+    watchers.get('/docs')!.emit('add', '/docs/a.md')
+    await watcher.stop()
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(calls).toHaveLength(0)
+  })
+})
@@ -3,9 +3,18 @@ export {
   ModelRouter,
   getModelRouter,
   initializeModelRouter,
+  isRetryableModelError,
+  hasMediaContent,
+  UnsupportedContentError,
   type ChatMessage,
+  type ChatToolCall,
+  type ChatToolResult,
+  type ChatToolChoice,
   type ChatResponse,
+  type ChatUsage,
+  type ChatStreamEvent,
   type ChatOptions,
   type ModelInfo,
+  type ServedModel,
 } from './model-router.js'
 export { convertToAITools, jsonSchemaToZod } from './tool-adapter.js'
@@ -1,32 +1,95 @@
-import { streamText, generateText } from 'ai'
+import { streamText, generateText, type TextStreamPart, type ToolSet } from 'ai'
 import {
   type TaskType,
   type TaskComplexity,
   type ModelProvider,
   type RoutingStrategy,
   type ModelContextInfo,
+  type ContentPart,
+  type ModelChatRequest,
   getConfigManager,
   createModuleLogger,
+  retryWithBackoff,
 } from '@wqbot/core'
 import { getLanguageModel, clearSDKCache } from './provider.js'
 
 const logger = createModuleLogger('model-router')
 
+export interface ChatToolCall {
+  readonly toolCallId: string
+  readonly toolName: string
+  readonly args: unknown
+}
+
+// 服务端已执行的工具调用及其结果
+export interface ChatToolResult extends ChatToolCall {
+  readonly result: unknown
+}
+
 export interface ChatMessage {
-  readonly role: 'user' | 'assistant' | 'system'
+  readonly role: 'user' | 'assistant' | 'system' | 'tool'
   readonly content: string
+  // user 消息的多模态分段（存在时取代 content 发送给模型）
+  readonly parts?: readonly ContentPart[]
+  // assistant 消息发起的工具调用
+  readonly toolCalls?: readonly ChatToolCall[]
+  // tool 消息对应的工具调用
+  readonly toolCallId?: string
+  readonly toolName?: string
+}
+
+export type ChatToolChoice = 'auto' | 'none' | 'required' | { readonly toolName: string }
+
+export interface ChatUsage {
+  readonly promptTokens: number
+  readonly completionTokens: number
+  readonly totalTokens: number
 }
 
 export interface ChatResponse {
   readonly content: string
+  // 实际提供响应的模型（发生故障转移时为备用模型）
   readonly model: string
-  readonly usage?: {
-    readonly promptTokens: number
-    readonly completionTokens: number
-    readonly totalTokens: number
-  }
+  readonly provider: ModelProvider
+  readonly usage?: ChatUsage
+  readonly finishReason?: string
+  // 未在服务端执行的工具调用（客户端工具）
+  readonly toolCalls?: readonly ChatToolCall[]
+  // 各步骤中已在服务端执行的工具调用（按执行顺序）
+  readonly toolResults?: readonly ChatToolResult[]
 }
 
+// chatStreamEvents 产出的结构化事件
+export type ChatStreamEvent =
+  | { readonly type: 'text-delta'; readonly text: string }
+  | {
+      readonly type: 'tool-call'
+      readonly toolCallId: string
+      readonly toolName: string
+      readonly args: unknown
+    }
+  | {
+      readonly type: 'tool-result'
+      readonly toolCallId: string
+      readonly toolName: string
+      readonly args: unknown
+      readonly result: unknown
+    }
+  | {
+      readonly type: 'step-finish'
+      readonly step: number
+      readonly finishReason: string
+      readonly usage: ChatUsage
+      readonly isContinued: boolean
+    }
+  | { readonly type: 'usage'; readonly usage: ChatUsage }
+  | {
+      readonly type: 'finish'
+      readonly finishReason: string
+      readonly model: string
+      readonly provider: ModelProvider
+    }
+
 export interface ChatOptions {
   readonly model?: string
   readonly taskType?: TaskType
@@ -36,9 +99,36 @@ export interface ChatOptions {
   readonly temperature?: number
   readonly maxTokens?: number
   readonly tools?: Record<string, unknown>
+  readonly toolChoice?: ChatToolChoice
   readonly systemPrompt?: string
+  // 可重试错误时是否沿 fallback chain 切换 provider（默认 true）
+  readonly fallback?: boolean
+  // 响应完成后回调实际提供服务的模型
+  readonly onModelServed?: (served: ServedModel) => void
+}
+
+export interface ServedModel {
+  readonly provider: ModelProvider
+  readonly model: string
 }
 
+interface ModelCandidate {
+  readonly provider: ModelProvider
+  readonly model: string
+  readonly customName?: string
+}
+
+// 通用 ToolSet 下 SDK 推导出的 tool-result 为 never，这里补上宽松的结构
+type StreamPart =
+  | TextStreamPart<ToolSet>
+  | {
+      readonly type: 'tool-result'
+      readonly toolCallId: string
+      readonly toolName: string
+      readonly args: unknown
+      readonly result: unknown
+    }
+
 // ModelInfo 是 ModelContextInfo 的别名（向后兼容）
 export type ModelInfo = ModelContextInfo
 
@@ -58,9 +148,195 @@ const MODEL_CONTEXT_WINDOWS: Record<string, { contextWindow: number; maxOutputTo
   'mixtral-8x7b-32768': { contextWindow: 32768, maxOutputTokens: 4096 },
 }
 
+// 支持图像/文档输入的模型
+const VISION_MODEL_PATTERNS: readonly RegExp[] = [
+  /^gpt-4o/,
+  /^gpt-4-turbo/,
+  /^gpt-4\.1/,
+  /^gpt-5/,
+  /^o1(?!-mini)/,
+  /^o3(?!-mini)/,
+  /^o4/,
+  /^claude-3/,
+  /^claude-(sonnet|opus|haiku)-4/,
+  /^gemini/,
+  /^pixtral/,
+  /llava/,
+  /vision/,
+  /-vl\b/,
+]
+
 // 默认值（未知模型）
 const DEFAULT_MODEL_INFO: ModelInfo = { contextWindow: 8192, maxOutputTokens: 4096 }
 
+// 同一 provider 的重试次数（之后切换到 fallback chain 中的下一个）
+const PROVIDER_RETRY_ATTEMPTS = 2
+
+const RETRYABLE_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+]
+
+/**
+ * 判断模型调用错误是否可重试（限流、5xx、超时、网络错误）
+ */
+export function isRetryableModelError(error: Error): boolean {
+  const e = error as Error & { isRetryable?: boolean; statusCode?: number; code?: string }
+
+  // AI SDK 的 APICallError 自带判断（408/409/429/5xx）
+  if (typeof e.isRetryable === 'boolean') return e.isRetryable
+  if (typeof e.statusCode === 'number') {
+    return e.statusCode === 408 || e.statusCode === 429 || e.statusCode >= 500
+  }
+  if (e.code && RETRYABLE_ERROR_CODES.includes(e.code)) return true
+
+  return /timeout|timed out|rate limit|overloaded|fetch failed|socket hang up/i.test(e.message)
+}
+
+/**
+ * 模型不支持消息中的内容类型（如向纯文本模型发送图片）
+ */
+export class UnsupportedContentError extends Error {
+  constructor(readonly model: string) {
+    super(`模型 ${model} 不支持图片或文件输入，请选择支持视觉的模型`)
+    this.name = 'UnsupportedContentError'
+  }
+}
+
+// 图片和非文本文件需要视觉能力；文本文件会内联为文本
+function isMediaPart(part: ContentPart): boolean {
+  return part.type === 'image' || (part.type === 'file' && !part.mimeType.startsWith('text/'))
+}
+
+export function hasMediaContent(messages: readonly ChatMessage[]): boolean {
+  return messages.some((m) => m.parts?.some(isMediaPart))
+}
+
+function isVisionModel(modelId: string): boolean {
+  // custom 端点模型形如 name/model-id
+  const id = modelId.slice(modelId.lastIndexOf('/') + 1).toLowerCase()
+  return VISION_MODEL_PATTERNS.some((pattern) => pattern.test(id))
+}
+
+function toCorePart(part: ContentPart): Record<string, unknown> {
+  if (part.type === 'text') {
+    return { type: 'text', text: part.text }
+  }
+
+  if (!part.data && !part.url) {
+    throw new Error(`附件内容缺失${part.blobId ? `（blob ${part.blobId} 未解析）` : ''}`)
+  }
+  const source = part.data ?? new URL(part.url!)
+
+  if (part.type === 'image') {
+    return { type: 'image', image: source, mimeType: part.mimeType }
+  }
+
+  // 文本文件直接内联，兼容所有模型
+  if (part.mimeType.startsWith('text/') && part.data) {
+    const text = Buffer.from(part.data, 'base64').toString('utf-8')
+    return { type: 'text', text: part.filename ? `[${part.filename}]\n${text}` : text }
+  }
+
+  return {
+    type: 'file',
+    data: source,
+    mimeType: part.mimeType,
+    ...(part.filename ? { filename: part.filename } : {}),
+  }
+}
+
+function toUsage(usage: { promptTokens: number; completionTokens: number }): ChatUsage {
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    totalTokens: usage.promptTokens + usage.completionTokens,
+  }
+}
+
+// 转换为 AI SDK CoreMessage：assistant 工具调用和 tool 结果使用内容分段
+function toCoreMessage(message: ChatMessage): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return {
+      role: 'tool',
+      content: [
+        {
+          type: 'tool-result',
+          toolCallId: message.toolCallId ?? '',
+          toolName: message.toolName ?? '',
+          result: message.content,
+        },
+      ],
+    }
+  }
+
+  if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+    return {
+      role: 'assistant',
+      content: [
+        ...(message.content ? [{ type: 'text', text: message.content }] : []),
+        ...message.toolCalls.map((call) => ({
+          type: 'tool-call',
+          toolCallId: call.toolCallId,
+          toolName: call.toolName,
+          args: call.args,
+        })),
+      ],
+    }
+  }
+
+  if (message.role === 'user' && message.parts && message.parts.length > 0) {
+    return { role: 'user', content: message.parts.map(toCorePart) }
+  }
+
+  return { role: message.role, content: message.content }
+}
+
+function toToolChoice(choice: ChatToolChoice): unknown {
+  return typeof choice === 'string' ? choice : { type: 'tool', toolName: choice.toolName }
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
+
+interface OverlapFilter {
+  push(delta: string): string
+  // 流结束时调用：仍在缓冲的文本只是已输出内容的重复，丢弃并返回被丢弃的部分
+  flush(): string
+}
+
+/**
+ * 续写过滤器：备用 provider 续写时可能从头重复已输出的文本，
+ * 缓冲到与已输出内容出现分歧为止，再去掉重复前缀
+ */
+function createOverlapFilter(emitted: string): OverlapFilter {
+  let pending = ''
+  let settled = emitted.length === 0
+
+  return {
+    push(delta) {
+      if (settled) return delta
+      pending += delta
+      if (emitted.startsWith(pending)) return ''
+      settled = true
+      return pending.startsWith(emitted) ? pending.slice(emitted.length) : pending
+    },
+    flush() {
+      const dropped = settled ? '' : pending
+      pending = ''
+      settled = true
+      return dropped
+    },
+  }
+}
+
+// 工具调用和步骤结束之后的内容无法安全续写（工具已执行过）
+const COMMITTED_PART_TYPES = new Set(['tool-call', 'tool-result', 'step-finish'])
+
 // 构建带可选 customName 的结果对象（兼容 exactOptionalPropertyTypes）
 function withCustomName<T extends Record<string, unknown>>(
   base: T,
@@ -134,6 +410,20 @@ export class ModelRouter {
     return DEFAULT_MODEL_INFO
   }
 
+  /**
+   * 解析实际使用的模型 ID（别名展开；未指定时按路由策略选择）
+   */
+  resolveModel(modelId?: string): string {
+    return this.selectModel(modelId ? { model: modelId } : {}).model
+  }
+
+  /**
+   * 判断模型是否支持图片/文件输入（未指定时按路由策略选出的模型判断）
+   */
+  supportsVision(modelId?: string): boolean {
+    return isVisionModel(this.resolveModel(modelId))
+  }
+
   /**
    * 流式对话 — 返回 AsyncGenerator<string>
    */
@@ -141,51 +431,323 @@ export class ModelRouter {
     messages: readonly ChatMessage[],
     options: ChatOptions = {}
   ): AsyncGenerator<string> {
-    const { provider, model, customName } = this.selectModel(options)
+    for await (const part of this.streamParts(messages, options)) {
+      if (part.type === 'text-delta') {
+        yield part.textDelta
+      }
+    }
+  }
 
-    logger.debug(`流式路由到 ${provider}/${model}`, {
-      taskType: options.taskType,
-      complexity: options.complexity,
+  /**
+   * 结构化流式对话 — 除文本外还产出工具调用、工具结果、步骤边界和 token 用量
+   */
+  async *chatStreamEvents(
+    messages: readonly ChatMessage[],
+    options: ChatOptions = {}
+  ): AsyncGenerator<ChatStreamEvent> {
+    let served: ServedModel | undefined
+    let finish: { finishReason: string; usage: ChatUsage } | undefined
+    let step = 0
+
+    const stream = this.streamParts(messages, {
+      ...options,
+      onModelServed: (info) => {
+        served = info
+        options.onModelServed?.(info)
+      },
     })
 
-    const languageModel = getLanguageModel(provider, model, customName)
-    const callOpts: Record<string, unknown> = {
-      model: languageModel,
-      messages: messages.map(m => ({ role: m.role, content: m.content })),
-    }
-    if (options.temperature !== undefined) callOpts.temperature = options.temperature
-    if (options.maxTokens !== undefined) callOpts.maxTokens = options.maxTokens
-    if (options.systemPrompt) callOpts.system = options.systemPrompt
-    if (options.tools && Object.keys(options.tools).length > 0) {
-      callOpts.tools = options.tools
-      callOpts.maxSteps = 5
+    for await (const part of stream) {
+      switch (part.type) {
+        case 'text-delta':
+          yield { type: 'text-delta', text: part.textDelta }
+          break
+        case 'tool-call':
+          yield {
+            type: 'tool-call',
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            args: part.args,
+          }
+          break
+        case 'tool-result':
+          yield {
+            type: 'tool-result',
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            args: part.args,
+            result: part.result,
+          }
+          break
+        case 'step-finish':
+          yield {
+            type: 'step-finish',
+            step: step++,
+            finishReason: part.finishReason,
+            usage: toUsage(part.usage),
+            isContinued: part.isContinued,
+          }
+          break
+        case 'finish':
+          // 等流结束（确定实际服务模型）后再发出
+          finish = { finishReason: part.finishReason, usage: toUsage(part.usage) }
+          break
+      }
     }
 
-    const result = streamText(callOpts as Parameters<typeof streamText>[0])
-
-    for await (const chunk of (await result).textStream) {
-      yield chunk
+    if (finish) {
+      yield { type: 'usage', usage: finish.usage }
+    }
+    if (served) {
+      yield {
+        type: 'finish',
+        finishReason: finish?.finishReason ?? 'unknown',
+        model: served.model,
+        provider: served.provider,
+      }
     }
   }
 
   /**
-   * 非流式对话 — 返回完整响应
+   * 非流式对话 — 返回完整响应。服务端已执行过工具后失败不再重试或切换，避免工具被重复执行
    */
   async chatSync(
     messages: readonly ChatMessage[],
     options: ChatOptions = {}
   ): Promise<ChatResponse> {
-    const { provider, model, customName } = this.selectModel(options)
+    const candidates = this.buildCandidates(messages, options)
+    let committed = false
+    const onToolStep = (): void => {
+      committed = true
+    }
+
+    for (let i = 0; i < candidates.length; i++) {
+      const candidate = candidates[i]!
+
+      logger.debug(`同步路由到 ${candidate.provider}/${candidate.model}`, {
+        taskType: options.taskType,
+        complexity: options.complexity,
+      })
+
+      try {
+        const response = await retryWithBackoff(
+          () => this.generateWith(candidate, messages, options, onToolStep),
+          {
+            ...this.getRetryOptions(candidate),
+            isRetryable: (error: Error) => !committed && isRetryableModelError(error),
+          }
+        )
+        options.onModelServed?.({ provider: candidate.provider, model: candidate.model })
+        return response
+      } catch (error) {
+        const err = toError(error)
+        if (!isRetryableModelError(err) || committed || i === candidates.length - 1) {
+          throw err
+        }
+        logger.warn(`${candidate.provider}/${candidate.model} 调用失败，切换到备用模型`, {
+          error: err.message,
+        })
+      }
+    }
+
+    throw new Error('没有可用的模型')
+  }
 
-    logger.debug(`同步路由到 ${provider}/${model}`, {
-      taskType: options.taskType,
-      complexity: options.complexity,
+  /**
+   * 单轮对话，返回回复文本：实现 core 的 ModelChatFn，prompt 作为唯一的用户消息
+   */
+  async chatText(request: ModelChatRequest, options: ChatOptions = {}): Promise<string> {
+    const { systemPrompt, prompt, model, taskType, complexity, temperature, maxTokens } = request
+    const response = await this.chatSync([{ role: 'user', content: prompt }], {
+      ...options,
+      ...(model ? { model } : {}),
+      ...(taskType ? { taskType } : {}),
+      ...(complexity ? { complexity } : {}),
+      ...(temperature !== undefined ? { temperature } : {}),
+      ...(maxTokens !== undefined ? { maxTokens } : {}),
+      systemPrompt,
     })
+    return response.content
+  }
+
+  /**
+   * 带故障转移的底层流：逐个尝试候选模型，中途失败时由下一个模型续写，
+   * 已输出的文本不会重复。已输出工具调用或完成步骤后不再切换，避免工具被重复执行
+   */
+  private async *streamParts(
+    messages: readonly ChatMessage[],
+    options: ChatOptions
+  ): AsyncGenerator<StreamPart> {
+    const candidates = this.buildCandidates(messages, options)
+    let emitted = ''
+    let committed = false
+
+    for (let i = 0; i < candidates.length; i++) {
+      const candidate = candidates[i]!
+
+      logger.debug(`流式路由到 ${candidate.provider}/${candidate.model}`, {
+        taskType: options.taskType,
+        complexity: options.complexity,
+        resumed: emitted.length > 0,
+      })
+
+      // 续写时把已输出内容作为 assistant 前缀交给下一个模型
+      const attemptMessages: readonly ChatMessage[] = emitted
+        ? [...messages, { role: 'assistant', content: emitted }]
+        : messages
+      const filter = createOverlapFilter(emitted)
+
+      try {
+        // 建立连接阶段（限流、5xx 最常见）在同一 provider 上退避重试
+        const { buffered, rest } = await retryWithBackoff(
+          () => this.openStream(candidate, attemptMessages, options),
+          this.getRetryOptions(candidate)
+        )
+
+        for (const part of buffered) {
+          const output = this.filterPart(part, filter)
+          if (output) {
+            if (output.type === 'text-delta') emitted += output.textDelta
+            if (COMMITTED_PART_TYPES.has(output.type)) committed = true
+            yield output
+          }
+        }
+
+        while (true) {
+          const next = await rest.next()
+          if (next.done) break
+          if (next.value.type === 'error') {
+            throw toError(next.value.error)
+          }
+          const output = this.filterPart(next.value, filter)
+          if (output) {
+            if (output.type === 'text-delta') emitted += output.textDelta
+            if (COMMITTED_PART_TYPES.has(output.type)) committed = true
+            yield output
+          }
+        }
+        const dropped = filter.flush()
+        if (dropped) {
+          logger.debug('续写结束时仅重复了已输出内容，已丢弃', { length: dropped.length })
+        }
+
+        options.onModelServed?.({ provider: candidate.provider, model: candidate.model })
+        return
+      } catch (error) {
+        const err = toError(error)
+        if (!isRetryableModelError(err) || committed || i === candidates.length - 1) {
+          throw err
+        }
+        logger.warn(`${candidate.provider}/${candidate.model} 流式调用失败，切换到备用模型`, {
+          error: err.message,
+          emittedLength: emitted.length,
+        })
+      }
+    }
+
+    throw new Error('没有可用的模型')
+  }
+
+  // 发起流式请求并读到首个有效数据块，连接阶段的错误在此抛出以便重试
+  private async openStream(
+    candidate: ModelCandidate,
+    messages: readonly ChatMessage[],
+    options: ChatOptions
+  ): Promise<{ buffered: StreamPart[]; rest: AsyncIterator<StreamPart> }> {
+    const callOpts = await this.buildCallOptions(candidate, messages, options)
+    const result = streamText(callOpts as Parameters<typeof streamText>[0])
+    const rest = result.fullStream[Symbol.asyncIterator]() as AsyncIterator<StreamPart>
+
+    const buffered: StreamPart[] = []
+    while (true) {
+      const next = await rest.next()
+      if (next.done) break
+      if (next.value.type === 'error') {
+        throw toError(next.value.error)
+      }
+      buffered.push(next.value)
+      if (next.value.type !== 'step-start') break
+    }
+
+    return { buffered, rest }
+  }
+
+  // 对文本块应用续写过滤，过滤后为空则丢弃
+  private filterPart(part: StreamPart, filter: OverlapFilter): StreamPart | null {
+    if (part.type !== 'text-delta') return part
+    const textDelta = filter.push(part.textDelta)
+    return textDelta ? { ...part, textDelta } : null
+  }
+
+  private async generateWith(
+    candidate: ModelCandidate,
+    messages: readonly ChatMessage[],
+    options: ChatOptions,
+    onToolStep?: () => void
+  ): Promise<ChatResponse> {
+    const callOpts = await this.buildCallOptions(candidate, messages, options)
+    if (onToolStep) {
+      // 某一步执行了工具后通知调用方，之后的失败不能再整体重试
+      callOpts.onStepFinish = (step: { toolResults?: readonly unknown[] }) => {
+        if (step.toolResults && step.toolResults.length > 0) onToolStep()
+      }
+    }
+    const result = await generateText(callOpts as Parameters<typeof generateText>[0])
+
+    // 服务端已执行的工具会产生结果，剩下的是需要调用方执行的工具调用
+    // 泛型 ToolSet 下 toolResults 被推断为 never，这里按运行时结构读取
+    const toolResults = (result.toolResults ?? []) as readonly { toolCallId: string }[]
+    const executed = new Set(toolResults.map((r) => r.toolCallId))
+    const pendingCalls: ChatToolCall[] = (result.toolCalls ?? [])
+      .filter((call) => !executed.has(call.toolCallId))
+      .map((call) => ({
+        toolCallId: call.toolCallId,
+        toolName: call.toolName,
+        args: call.args,
+      }))
+    const steps = (result.steps?.length ? result.steps : [result]) as readonly {
+      toolResults?: readonly ChatToolResult[]
+    }[]
+    const executedCalls: ChatToolResult[] = steps.flatMap((step) =>
+      (step.toolResults ?? []).map((r) => ({
+        toolCallId: r.toolCallId,
+        toolName: r.toolName,
+        args: r.args,
+        result: r.result,
+      }))
+    )
+
+    const response: ChatResponse = {
+      content: result.text,
+      model: candidate.model,
+      provider: candidate.provider,
+      finishReason: result.finishReason,
+      ...(pendingCalls.length > 0 ? { toolCalls: pendingCalls } : {}),
+      ...(executedCalls.length > 0 ? { toolResults: executedCalls } : {}),
+    }
 
-    const languageModel = getLanguageModel(provider, model, customName)
+    if (result.usage) {
+      return { ...response, usage: toUsage(result.usage) }
+    }
+
+    return response
+  }
+
+  private async buildCallOptions(
+    candidate: ModelCandidate,
+    messages: readonly ChatMessage[],
+    options: ChatOptions
+  ): Promise<Record<string, unknown>> {
+    const languageModel = await getLanguageModel(
+      candidate.provider,
+      candidate.model,
+      candidate.customName
+    )
     const callOpts: Record<string, unknown> = {
       model: languageModel,
-      messages: messages.map(m => ({ role: m.role, content: m.content })),
+      messages: messages.map(toCoreMessage),
+      // 重试由 retryWithBackoff 统一处理
+      maxRetries: 0,
     }
     if (options.temperature !== undefined) callOpts.temperature = options.temperature
     if (options.maxTokens !== undefined) callOpts.maxTokens = options.maxTokens
@@ -193,27 +755,52 @@ export class ModelRouter {
     if (options.tools && Object.keys(options.tools).length > 0) {
       callOpts.tools = options.tools
       callOpts.maxSteps = 5
+      if (options.toolChoice) callOpts.toolChoice = toToolChoice(options.toolChoice)
     }
+    return callOpts
+  }
 
-    const result = await generateText(callOpts as Parameters<typeof generateText>[0])
+  private getRetryOptions(candidate: ModelCandidate) {
+    return {
+      maxAttempts: PROVIDER_RETRY_ATTEMPTS,
+      initialDelay: 500,
+      maxDelay: 4000,
+      isRetryable: isRetryableModelError,
+      onRetry: (error: Error, attempt: number) => {
+        logger.debug(`${candidate.provider}/${candidate.model} 第 ${attempt} 次调用失败，重试中`, {
+          error: error.message,
+        })
+      },
+    }
+  }
 
-    const response: ChatResponse = {
-      content: result.text,
-      model,
+  /**
+   * 候选模型列表：首选模型 + fallback chain 中其他可用 provider 的默认模型
+   */
+  private buildCandidates(
+    messages: readonly ChatMessage[],
+    options: ChatOptions
+  ): readonly ModelCandidate[] {
+    const primary = this.selectModel(options)
+    const needsVision = hasMediaContent(messages)
+    if (needsVision && !isVisionModel(primary.model)) {
+      throw new UnsupportedContentError(primary.model)
     }
 
-    if (result.usage) {
-      return {
-        ...response,
-        usage: {
-          promptTokens: result.usage.promptTokens,
-          completionTokens: result.usage.completionTokens,
-          totalTokens: result.usage.promptTokens + result.usage.completionTokens,
-        },
-      }
+    if (options.fallback === false || options.localOnly) {
+      return [primary]
     }
 
-    return response
+    const candidates: ModelCandidate[] = [primary]
+    for (const provider of getConfigManager().getFallbackChain()) {
+      if (provider === 'custom' || provider === primary.provider) continue
+      if (!this.availableProviders.has(provider)) continue
+      const model = this.getDefaultModelForProvider(provider)
+      // 多模态消息只切换到同样支持视觉的备用模型
+      if (needsVision && !isVisionModel(model)) continue
+      candidates.push({ provider, model })
+    }
+    return candidates
   }
 
   private selectModel(options: ChatOptions): { provider: ModelProvider; model: string; customName?: string } {
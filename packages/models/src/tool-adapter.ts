@@ -7,17 +7,44 @@ interface ToolResult {
   readonly isError?: boolean
 }
 
+// 未提供 execute 的为客户端工具：模型只产出调用请求，由调用方执行（如 OpenAI 兼容接口）
 interface ToolDefinition {
   readonly name: string
   readonly description: string
   readonly inputSchema: Record<string, unknown>
-  readonly source: 'mcp' | 'skill' | 'builtin'
-  readonly execute: (args: Record<string, unknown>) => Promise<ToolResult>
+  readonly source: 'mcp' | 'skill' | 'builtin' | 'client'
+  readonly execute?: (args: Record<string, unknown>) => Promise<ToolResult>
 }
 
 // 将 JSON Schema 转换为 Zod schema（简化版，覆盖常见类型）
 export function jsonSchemaToZod(schema: Record<string, unknown>): z.ZodType {
-  const type = schema.type as string | undefined
+  let zodType = convertSchemaType(schema)
+  if (schema.description && !(zodType instanceof z.ZodAny)) {
+    zodType = zodType.describe(schema.description as string)
+  }
+  return zodType
+}
+
+function convertSchemaType(schema: Record<string, unknown>): z.ZodType {
+  const rawType = schema.type as string | string[] | undefined
+
+  // type: ["string", "null"] 形式
+  if (Array.isArray(rawType)) {
+    const types = rawType.filter((t) => t !== 'null')
+    const base = types.length === 1 ? jsonSchemaToZod({ ...schema, type: types[0] }) : z.any()
+    return rawType.includes('null') ? base.nullable() : base
+  }
+
+  // anyOf / oneOf：逐个转换后组成联合类型
+  const variants = (schema.anyOf ?? schema.oneOf) as Record<string, unknown>[] | undefined
+  if (!rawType && Array.isArray(variants) && variants.length > 0) {
+    const converted = variants.map((v) => jsonSchemaToZod(v))
+    if (converted.length === 1) return converted[0]!
+    return z.union(converted as unknown as [z.ZodType, z.ZodType, ...z.ZodType[]])
+  }
+
+  // 省略 type 但带 properties 的视为 object
+  const type = rawType ?? (schema.properties ? 'object' : undefined)
 
   if (type === 'object') {
     const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>
@@ -41,14 +68,10 @@ export function jsonSchemaToZod(schema: Record<string, unknown>): z.ZodType {
   }
 
   if (type === 'string') {
-    let s = z.string()
     if (schema.enum) {
       return z.enum(schema.enum as [string, ...string[]])
     }
-    if (schema.description) {
-      s = s.describe(schema.description as string)
-    }
-    return s
+    return z.string()
   }
 
   if (type === 'number' || type === 'integer') {
@@ -72,11 +95,19 @@ export function convertToAITools(
   for (const def of tools) {
     const parameters = jsonSchemaToZod(def.inputSchema) as z.ZodObject<z.ZodRawShape>
 
+    const execute = def.execute
+    if (!execute) {
+      // tool() 的无 execute 重载带 execute: undefined，与 exactOptionalPropertyTypes 冲突
+      const clientTool: CoreTool = { description: def.description, parameters }
+      result[def.name] = clientTool
+      continue
+    }
+
     result[def.name] = tool({
       description: def.description,
       parameters,
       execute: async (args: Record<string, unknown>): Promise<string> => {
-        const toolResult: ToolResult = await def.execute(args)
+        const toolResult: ToolResult = await execute(args)
         return toolResult.content
       },
     })
@@ -17,6 +17,28 @@ vi.mock('@wqbot/core', () => ({
     getModelsForTask: vi.fn().mockReturnValue([]),
     getCustomEndpoint: vi.fn().mockReturnValue(null),
   }),
+  // 简化版重试：不等待，遵循 maxAttempts 与 isRetryable
+  retryWithBackoff: async (
+    fn: () => Promise<unknown>,
+    opts: { maxAttempts?: number; isRetryable?: (e: Error, attempt: number) => boolean } = {}
+  ) => {
+    const maxAttempts = opts.maxAttempts ?? 3
+    let lastError: Error | undefined
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        return await fn()
+      } catch (error) {
+        lastError = error as Error
+        if (opts.isRetryable && !opts.isRetryable(lastError, attempt)) throw lastError
+      }
+    }
+    throw lastError
+  },
+}))
+
+vi.mock('ai', () => ({
+  streamText: vi.fn(),
+  generateText: vi.fn(),
 }))
 
 vi.mock('../src/provider.js', () => ({
@@ -24,7 +46,36 @@ vi.mock('../src/provider.js', () => ({
   clearSDKCache: vi.fn(),
 }))
 
-import { ModelRouter, getModelRouter } from '../src/model-router.js'
+import { streamText, generateText } from 'ai'
+import { getLanguageModel } from '../src/provider.js'
+import {
+  ModelRouter,
+  getModelRouter,
+  isRetryableModelError,
+  UnsupportedContentError,
+} from '../src/model-router.js'
+
+// 构造 fullStream：依次产出 parts，可在末尾注入错误
+function mockStream(parts: unknown[]) {
+  return {
+    fullStream: (async function* () {
+      for (const part of parts) yield part
+    })(),
+  }
+}
+
+function apiError(statusCode: number): Error {
+  return Object.assign(new Error(`HTTP ${statusCode}`), {
+    statusCode,
+    isRetryable: statusCode === 429 || statusCode >= 500,
+  })
+}
+
+async function collect(gen: AsyncGenerator<string>): Promise<string> {
+  let text = ''
+  for await (const chunk of gen) text += chunk
+  return text
+}
 
 describe('ModelRouter', () => {
   let router: ModelRouter
@@ -94,6 +145,452 @@ describe('ModelRouter', () => {
   })
 })
 
+describe('failover', () => {
+  let router: ModelRouter
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    router = new ModelRouter()
+    await router.initialize()
+  })
+
+  it('chatSync falls back to the next provider on retryable errors', async () => {
+    vi.mocked(generateText)
+      .mockRejectedValueOnce(apiError(429))
+      .mockRejectedValueOnce(apiError(429))
+      .mockResolvedValueOnce({ text: 'ok', usage: undefined } as never)
+
+    const onModelServed = vi.fn()
+    const result = await router.chatSync([{ role: 'user', content: 'hi' }], {
+      model: 'gpt-4o',
+      onModelServed,
+    })
+
+    expect(result.content).toBe('ok')
+    expect(result.provider).toBe('anthropic')
+    expect(result.model).toBe('claude-sonnet-4-20250514')
+    expect(onModelServed).toHaveBeenCalledWith({
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-20250514',
+    })
+    expect(vi.mocked(getLanguageModel).mock.calls.map((c) => c[0])).toEqual([
+      'openai',
+      'openai',
+      'anthropic',
+    ])
+  })
+
+  it('chatSync does not fall back on non-retryable errors', async () => {
+    vi.mocked(generateText).mockRejectedValueOnce(apiError(401))
+
+    await expect(
+      router.chatSync([{ role: 'user', content: 'hi' }], { model: 'gpt-4o' })
+    ).rejects.toThrow('HTTP 401')
+    expect(generateText).toHaveBeenCalledTimes(1)
+  })
+
+  it('chatSync does not fall back when fallback is disabled', async () => {
+    vi.mocked(generateText).mockRejectedValue(apiError(503))
+
+    await expect(
+      router.chatSync([{ role: 'user', content: 'hi' }], { model: 'gpt-4o', fallback: false })
+    ).rejects.toThrow('HTTP 503')
+    expect(generateText).toHaveBeenCalledTimes(2)
+  })
+
+  it('chatSync does not retry or fall back after a tool step has run', async () => {
+    const execute = vi.fn(async () => 'written')
+    vi.mocked(generateText).mockImplementation((async (opts: {
+      tools: Record<string, { execute: () => Promise<unknown> }>
+      onStepFinish: (step: { toolResults: unknown[] }) => void
+    }) => {
+      const result = await opts.tools.write_file!.execute()
+      opts.onStepFinish({ toolResults: [{ toolCallId: 'a', result }] })
+      throw apiError(503)
+    }) as never)
+
+    await expect(
+      router.chatSync([{ role: 'user', content: 'write it' }], {
+        model: 'gpt-4o',
+        tools: { write_file: { execute } },
+      })
+    ).rejects.toThrow('HTTP 503')
+    expect(generateText).toHaveBeenCalledTimes(1)
+    expect(execute).toHaveBeenCalledTimes(1)
+  })
+
+  it('chatStream resumes on the next provider without duplicating text', async () => {
+    vi.mocked(streamText)
+      .mockReturnValueOnce(
+        mockStream([
+          { type: 'text-delta', textDelta: 'Hello ' },
+          { type: 'text-delta', textDelta: 'wor' },
+          { type: 'error', error: apiError(502) },
+        ]) as never
+      )
+      .mockReturnValueOnce(
+        mockStream([
+          { type: 'text-delta', textDelta: 'Hello ' },
+          { type: 'text-delta', textDelta: 'world!' },
+          { type: 'finish', finishReason: 'stop' },
+        ]) as never
+      )
+
+    const onModelServed = vi.fn()
+    const text = await collect(
+      router.chatStream([{ role: 'user', content: 'hi' }], { model: 'gpt-4o', onModelServed })
+    )
+
+    expect(text).toBe('Hello world!')
+    expect(onModelServed).toHaveBeenCalledWith({
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-20250514',
+    })
+
+    // 续写请求带上已输出内容作为 assistant 前缀
+    const resumeCall = vi.mocked(streamText).mock.calls[1]![0] as { messages: unknown[] }
+    expect(resumeCall.messages).toEqual([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'Hello wor' },
+    ])
+  })
+
+  it('chatStream drops repeated text held when the resumed stream ends', async () => {
+    vi.mocked(streamText)
+      .mockReturnValueOnce(
+        mockStream([
+          { type: 'text-delta', textDelta: 'Hello world' },
+          { type: 'error', error: apiError(502) },
+        ]) as never
+      )
+      .mockReturnValueOnce(
+        mockStream([
+          { type: 'text-delta', textDelta: 'Hello' },
+          { type: 'finish', finishReason: 'stop' },
+        ]) as never
+      )
+
+    const text = await collect(
+      router.chatStream([{ role: 'user', content: 'hi' }], { model: 'gpt-4o' })
+    )
+
+    expect(text).toBe('Hello world')
+  })
+
+  it('chatStream does not fail over after a tool step has been emitted', async () => {
+    const usage = { promptTokens: 1, completionTokens: 1, totalTokens: 2 }
+    vi.mocked(streamText).mockReturnValueOnce(
+      mockStream([
+        { type: 'tool-call', toolCallId: 't1', toolName: 'write_file', args: { path: 'a.ts' } },
+        {
+          type: 'tool-result',
+          toolCallId: 't1',
+          toolName: 'write_file',
+          args: { path: 'a.ts' },
+          result: 'ok',
+        },
+        { type: 'step-finish', finishReason: 'tool-calls', usage, isContinued: false },
+        { type: 'error', error: apiError(502) },
+      ]) as never
+    )
+
+    const events: string[] = []
+    await expect(
+      (async () => {
+        for await (const event of router.chatStreamEvents([{ role: 'user', content: 'hi' }], {
+          model: 'gpt-4o',
+        })) {
+          events.push(event.type)
+        }
+      })()
+    ).rejects.toThrow('HTTP 502')
+
+    expect(streamText).toHaveBeenCalledTimes(1)
+    expect(events).toEqual(['tool-call', 'tool-result', 'step-finish'])
+  })
+
+  it('chatStream retries the same provider when the connection fails', async () => {
+    vi.mocked(streamText)
+      .mockReturnValueOnce(mockStream([{ type: 'error', error: apiError(500) }]) as never)
+      .mockReturnValueOnce(mockStream([{ type: 'text-delta', textDelta: 'done' }]) as never)
+
+    const text = await collect(
+      router.chatStream([{ role: 'user', content: 'hi' }], { model: 'gpt-4o' })
+    )
+
+    expect(text).toBe('done')
+    expect(vi.mocked(getLanguageModel).mock.calls.map((c) => c[0])).toEqual(['openai', 'openai'])
+  })
+})
+
+describe('chatStreamEvents', () => {
+  let router: ModelRouter
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    router = new ModelRouter()
+    await router.initialize()
+  })
+
+  it('maps stream parts to typed events and reports the serving model', async () => {
+    const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+    vi.mocked(streamText).mockReturnValueOnce(
+      mockStream([
+        { type: 'step-start', messageId: 'm1' },
+        { type: 'tool-call', toolCallId: 't1', toolName: 'read_file', args: { path: 'a.ts' } },
+        {
+          type: 'tool-result',
+          toolCallId: 't1',
+          toolName: 'read_file',
+          args: { path: 'a.ts' },
+          result: 'content',
+        },
+        { type: 'step-finish', finishReason: 'tool-calls', usage, isContinued: false },
+        { type: 'text-delta', textDelta: 'Done' },
+        { type: 'step-finish', finishReason: 'stop', usage, isContinued: false },
+        { type: 'finish', finishReason: 'stop', usage: { promptTokens: 20, completionTokens: 10 } },
+      ]) as never
+    )
+
+    const events = []
+    for await (const event of router.chatStreamEvents([{ role: 'user', content: 'hi' }], {
+      model: 'gpt-4o',
+    })) {
+      events.push(event)
+    }
+
+    expect(events.map((e) => e.type)).toEqual([
+      'tool-call',
+      'tool-result',
+      'step-finish',
+      'text-delta',
+      'step-finish',
+      'usage',
+      'finish',
+    ])
+    expect(events[2]).toMatchObject({ type: 'step-finish', step: 0, finishReason: 'tool-calls' })
+    expect(events[4]).toMatchObject({ type: 'step-finish', step: 1 })
+    expect(events[5]).toEqual({
+      type: 'usage',
+      usage: { promptTokens: 20, completionTokens: 10, totalTokens: 30 },
+    })
+    expect(events[6]).toEqual({
+      type: 'finish',
+      finishReason: 'stop',
+      model: 'gpt-4o',
+      provider: 'openai',
+    })
+  })
+})
+
+describe('tool calling', () => {
+  let router: ModelRouter
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    router = new ModelRouter()
+    await router.initialize()
+  })
+
+  it('converts tool call history into SDK messages', async () => {
+    vi.mocked(generateText).mockResolvedValueOnce({
+      text: 'Sunny',
+      finishReason: 'stop',
+      toolCalls: [],
+      toolResults: [],
+    } as never)
+
+    await router.chatSync(
+      [
+        { role: 'user', content: 'weather?' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'SF' } }],
+        },
+        { role: 'tool', content: '{"temp":20}', toolCallId: 'call_1', toolName: 'get_weather' },
+      ],
+      { model: 'gpt-4o', tools: { get_weather: {} }, toolChoice: 'auto' }
+    )
+
+    const callOpts = vi.mocked(generateText).mock.calls[0]![0] as unknown as Record<string, unknown>
+    expect(callOpts.toolChoice).toBe('auto')
+    expect(callOpts.messages).toEqual([
+      { role: 'user', content: 'weather?' },
+      {
+        role: 'assistant',
+        content: [
+          {
+            type: 'tool-call',
+            toolCallId: 'call_1',
+            toolName: 'get_weather',
+            args: { city: 'SF' },
+          },
+        ],
+      },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: 'call_1',
+            toolName: 'get_weather',
+            result: '{"temp":20}',
+          },
+        ],
+      },
+    ])
+  })
+
+  it('returns tool calls that were not executed server-side', async () => {
+    vi.mocked(generateText).mockResolvedValueOnce({
+      text: '',
+      finishReason: 'tool-calls',
+      toolCalls: [
+        { toolCallId: 'a', toolName: 'search', args: { q: 'x' } },
+        { toolCallId: 'b', toolName: 'get_weather', args: { city: 'SF' } },
+      ],
+      toolResults: [{ toolCallId: 'a', toolName: 'search', args: { q: 'x' }, result: 'done' }],
+    } as never)
+
+    const result = await router.chatSync([{ role: 'user', content: 'hi' }], {
+      model: 'gpt-4o',
+      toolChoice: { toolName: 'get_weather' },
+    })
+
+    expect(result.finishReason).toBe('tool-calls')
+    expect(result.toolCalls).toEqual([
+      { toolCallId: 'b', toolName: 'get_weather', args: { city: 'SF' } },
+    ])
+    expect(result.toolResults).toEqual([
+      { toolCallId: 'a', toolName: 'search', args: { q: 'x' }, result: 'done' },
+    ])
+  })
+
+  it('returns tool results from every step', async () => {
+    const step = (id: string) => ({
+      toolResults: [{ toolCallId: id, toolName: 'search', args: {}, result: id }],
+    })
+    vi.mocked(generateText).mockResolvedValueOnce({
+      text: 'found',
+      finishReason: 'stop',
+      toolCalls: [],
+      toolResults: [],
+      steps: [step('a'), step('b'), { toolResults: [] }],
+    } as never)
+
+    const result = await router.chatSync([{ role: 'user', content: 'hi' }], { model: 'gpt-4o' })
+
+    expect(result.toolResults?.map((r) => r.toolCallId)).toEqual(['a', 'b'])
+  })
+  it('chatText sends the prompt as a single user message', async () => {
+    vi.mocked(generateText).mockResolvedValueOnce({
+      text: 'done',
+      finishReason: 'stop',
+      toolCalls: [],
+      toolResults: [],
+    } as never)
+
+    const text = await router.chatText(
+      { systemPrompt: 'be brief', prompt: 'hi', model: 'gpt-4o', temperature: 0 },
+      { tools: { search: {} } }
+    )
+
+    expect(text).toBe('done')
+    const callOpts = vi.mocked(generateText).mock.calls[0]![0] as unknown as Record<string, unknown>
+    expect(callOpts).toMatchObject({ system: 'be brief', temperature: 0 })
+    expect(callOpts.messages).toEqual([{ role: 'user', content: 'hi' }])
+    expect(callOpts.tools).toBeDefined()
+  })
+})
+
+describe('multimodal content', () => {
+  let router: ModelRouter
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    router = new ModelRouter()
+    await router.initialize()
+  })
+
+  const imageMessage = {
+    role: 'user' as const,
+    content: 'what is this?',
+    parts: [
+      { type: 'text' as const, text: 'what is this?' },
+      { type: 'image' as const, mimeType: 'image/png', data: 'aGVsbG8=' },
+    ],
+  }
+
+  it('detects vision-capable models', () => {
+    expect(router.supportsVision('gpt-4o')).toBe(true)
+    expect(router.supportsVision('claude-sonnet-4-20250514')).toBe(true)
+    expect(router.supportsVision('o3-mini')).toBe(false)
+    expect(router.supportsVision('deepseek-chat')).toBe(false)
+  })
+
+  it('sends content parts to the SDK as user message parts', async () => {
+    vi.mocked(generateText).mockResolvedValueOnce({ text: 'a cat' } as never)
+
+    await router.chatSync(
+      [
+        {
+          ...imageMessage,
+          parts: [
+            ...imageMessage.parts,
+            {
+              type: 'file' as const,
+              mimeType: 'text/plain',
+              filename: 'notes.txt',
+              data: Buffer.from('hi').toString('base64'),
+            },
+          ],
+        },
+      ],
+      { model: 'gpt-4o' }
+    )
+
+    const callOpts = vi.mocked(generateText).mock.calls[0]![0] as unknown as Record<string, unknown>
+    expect(callOpts.messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'what is this?' },
+          { type: 'image', image: 'aGVsbG8=', mimeType: 'image/png' },
+          { type: 'text', text: '[notes.txt]\nhi' },
+        ],
+      },
+    ])
+  })
+
+  it('rejects images for models without vision', async () => {
+    await expect(router.chatSync([imageMessage], { model: 'deepseek-chat' })).rejects.toThrow(
+      UnsupportedContentError
+    )
+    expect(generateText).not.toHaveBeenCalled()
+  })
+})
+
+describe('isRetryableModelError', () => {
+  it('classifies HTTP status codes', () => {
+    expect(isRetryableModelError(Object.assign(new Error('x'), { statusCode: 429 }))).toBe(true)
+    expect(isRetryableModelError(Object.assign(new Error('x'), { statusCode: 503 }))).toBe(true)
+    expect(isRetryableModelError(Object.assign(new Error('x'), { statusCode: 400 }))).toBe(false)
+  })
+
+  it('prefers the SDK isRetryable flag', () => {
+    expect(
+      isRetryableModelError(Object.assign(new Error('x'), { statusCode: 409, isRetryable: true }))
+    ).toBe(true)
+  })
+
+  it('treats network errors and timeouts as retryable', () => {
+    expect(isRetryableModelError(Object.assign(new Error('x'), { code: 'ECONNRESET' }))).toBe(true)
+    expect(isRetryableModelError(new Error('Request timed out'))).toBe(true)
+    expect(isRetryableModelError(new Error('Invalid API key'))).toBe(false)
+  })
+})
+
 describe('getModelRouter', () => {
   it('returns singleton instance', () => {
     const instance1 = getModelRouter()
@@ -54,6 +54,34 @@ describe('jsonSchemaToZod', () => {
     expect(() => schema.parse('d')).toThrow()
   })
 
+  it('省略 type 但有 properties 视为 object', () => {
+    const schema = jsonSchemaToZod({
+      properties: { city: { type: 'string', description: 'City name' } },
+      required: ['city'],
+    })
+    expect(schema.parse({ city: 'Beijing' })).toEqual({ city: 'Beijing' })
+    expect(() => schema.parse({})).toThrow()
+  })
+
+  it('type 数组含 null 时可为空', () => {
+    const schema = jsonSchemaToZod({ type: ['number', 'null'] })
+    expect(schema.parse(1)).toBe(1)
+    expect(schema.parse(null)).toBe(null)
+    expect(() => schema.parse('x')).toThrow()
+  })
+
+  it('anyOf 转为联合类型', () => {
+    const schema = jsonSchemaToZod({ anyOf: [{ type: 'string' }, { type: 'number' }] })
+    expect(schema.parse('a')).toBe('a')
+    expect(schema.parse(2)).toBe(2)
+    expect(() => schema.parse(true)).toThrow()
+  })
+
+  it('各类型保留 description', () => {
+    const schema = jsonSchemaToZod({ type: 'number', description: 'Count' })
+    expect(schema.description).toBe('Count')
+  })
+
   it('未知类型 fallback z.any()', () => {
     const schema = jsonSchemaToZod({ type: 'unknown_type' })
     // z.any() 接受任意值
@@ -111,6 +139,19 @@ describe('convertToAITools', () => {
     expect(result).toHaveProperty('tool2')
   })
 
+  it('无 execute 的客户端工具不在服务端执行', () => {
+    const result = convertToAITools([
+      {
+        name: 'get_weather',
+        description: 'Get weather',
+        inputSchema: { type: 'object', properties: { city: { type: 'string' } } },
+        source: 'client' as const,
+      },
+    ])
+    expect(result.get_weather).toBeDefined()
+    expect((result.get_weather as { execute?: unknown }).execute).toBeUndefined()
+  })
+
   it('空工具列表返回空对象', () => {
     const result = convertToAITools([])
     expect(Object.keys(result).length).toBe(0)
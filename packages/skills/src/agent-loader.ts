@@ -22,8 +22,14 @@ export const AgentConfigSchema = z.object({
   deniedTools: z.array(z.string()).optional(),
   // Aliases for user-friendly names
   alias: z.enum(['build', 'plan', 'review', 'custom']).optional(),
+  // 自动检索知识库：true 检索全部集合，或指定 { collection }
+  rag: z.union([z.boolean(), z.object({ collection: z.string().optional() })]).optional(),
 })
 
+export interface AgentRagConfig {
+  readonly collection?: string | undefined
+}
+
 export interface AgentDef {
   readonly name: string
   readonly description: string
@@ -40,6 +46,8 @@ export interface AgentDef {
   readonly allowedTools?: readonly string[]
   readonly deniedTools?: readonly string[]
   readonly alias?: 'build' | 'plan' | 'review' | 'custom'
+  // 设置后每轮对话自动检索知识库并注入系统提示词
+  readonly rag?: AgentRagConfig | undefined
 }
 
 /**
@@ -113,6 +121,7 @@ export class AgentLoader {
         allowedTools: config.allowedTools,
         deniedTools: config.deniedTools,
         alias: config.alias,
+        rag: config.rag === true ? {} : config.rag || undefined,
       }
     } catch (error) {
       logger.error(`解析 Agent 文件失败: ${filePath}`, error instanceof Error ? error : undefined)
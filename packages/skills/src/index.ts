@@ -19,6 +19,14 @@ export {
   initializeMCPClient,
   type MCPStatus,
   type MCPToolDef,
+  type MCPResourceDef,
+  type MCPPromptDef,
+  type MCPPromptArgument,
+  type MCPListChange,
+  type MCPResourceUpdate,
+  type MCPServerMetrics,
+  type MCPServerHealth,
+  type MCPStatusChange,
 } from './mcp-client.js'
 export {
   MarkdownSkillLoader,
@@ -30,6 +38,7 @@ export {
   getAgentLoader,
   AgentConfigSchema,
   type AgentDef,
+  type AgentRagConfig,
   isReadonlyAgent,
   getAllowedTools,
   getDeniedTools,
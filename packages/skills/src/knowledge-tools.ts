@@ -1,4 +1,4 @@
-import { getKnowledgeManager } from '@wqbot/knowledge'
+import { formatLocation, getKnowledgeManager } from '@wqbot/knowledge'
 import { getToolRegistry, type ToolDefinition } from './tool-registry.js'
 import { createModuleLogger } from '@wqbot/core'
 
@@ -7,7 +7,8 @@ const logger = createModuleLogger('knowledge-tools')
 function createSearchKnowledgeTool(): ToolDefinition {
   return {
     name: 'search_knowledge',
-    description: '搜索知识库，返回与查询最相关的文档片段',
+    description:
+      '搜索知识库，返回与查询最相关的文档片段（源码片段附带 file:startLine-endLine 位置，PDF/DOCX/EPUB/CSV 等文档附带页码、章节或行号，回答时请引用）',
     source: 'builtin',
     inputSchema: {
       type: 'object',
@@ -37,8 +38,18 @@ function createSearchKnowledgeTool(): ToolDefinition {
 
         const formatted = results
           .map((r, i) => {
+            // 源码块引用 file:startLine-endLine 并附带符号
+            if (r.sourceFile && r.startLine !== undefined) {
+              const location = `${r.sourceFile}:${r.startLine}-${r.endLine}`
+              const symbols = r.symbols?.length ? ` [${r.symbols.join(', ')}]` : ''
+              const code = '```' + (r.language ?? '') + '\n' + r.content + '\n```'
+              return `[${i + 1}] (${r.collectionName}) ${location}${symbols}\n${code}`
+            }
             const source = r.sourceTitle ?? r.sourceFile ?? '未知来源'
-            return `[${i + 1}] (${r.collectionName}) ${source}\n${r.content}`
+            // 提取的文档引用页码 / 章节 / 行号
+            const location = formatLocation(r)
+            const cite = location ? `${source} (${location})` : source
+            return `[${i + 1}] (${r.collectionName}) ${cite}\n${r.content}`
           })
           .join('\n\n---\n\n')
 
@@ -108,9 +119,12 @@ function createListKnowledgeTool(): ToolDefinition {
           return { content: '知识库为空，尚未创建任何集合' }
         }
 
-        const lines = collections.map(
-          (c) => `- ${c.name}: ${c.chunkCount} 个分块`
-        )
+        const lines = collections.map((c) => {
+          const index = c.vectorIndex
+          if (!index) return `- ${c.name}: ${c.chunkCount} 个分块`
+          const recall = index.recall === null ? '' : `，召回率 ${(index.recall * 100).toFixed(0)}%`
+          return `- ${c.name}: ${c.chunkCount} 个分块，向量索引 ${index.vectors} 条${recall}`
+        })
         return { content: `知识库集合:\n${lines.join('\n')}` }
       } catch (error) {
         const message = error instanceof Error ? error.message : '查询失败'
@@ -1,13 +1,23 @@
 import { Client } from '@modelcontextprotocol/sdk/client'
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
 import {
+  ResourceUpdatedNotificationSchema,
+  type Prompt,
+  type Resource,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js'
+import {
+  type ContentPart,
   type McpServerConfig,
   getConfigManager,
   createModuleLogger,
   expandVariables,
+  retryWithBackoff,
 } from '@wqbot/core'
-import type { ToolDefinition, ToolResult } from './tool-registry.js'
+import { getToolRegistry, type ToolDefinition, type ToolResult } from './tool-registry.js'
 
 const logger = createModuleLogger('mcp-client')
 
@@ -15,8 +25,29 @@ export type MCPStatus =
   | { readonly status: 'connected' }
   | { readonly status: 'disabled' }
   | { readonly status: 'connecting' }
+  | { readonly status: 'reconnecting'; readonly attempt: number; readonly error: string }
   | { readonly status: 'failed'; readonly error: string }
 
+// 每个服务器的调用和健康检查指标
+export interface MCPServerMetrics {
+  readonly calls: number
+  readonly errors: number
+  readonly avgLatencyMs: number
+  readonly lastLatencyMs?: number | undefined
+  readonly lastError?: string | undefined
+  readonly lastPingAt?: string | undefined
+  readonly pingLatencyMs?: number | undefined
+  readonly reconnects: number
+}
+
+export type MCPServerHealth = MCPStatus & { readonly metrics: MCPServerMetrics }
+
+// 服务器状态变化（断开、重连中、恢复、失败）
+export interface MCPStatusChange {
+  readonly clientName: string
+  readonly status: MCPStatus
+}
+
 export interface MCPToolDef {
   readonly name: string
   readonly qualifiedName: string
@@ -25,15 +56,111 @@ export interface MCPToolDef {
   readonly clientName: string
 }
 
+export interface MCPResourceDef {
+  readonly uri: string
+  readonly name: string
+  readonly description: string
+  readonly mimeType?: string | undefined
+  readonly clientName: string
+}
+
+export interface MCPPromptArgument {
+  readonly name: string
+  readonly description: string
+  readonly required: boolean
+}
+
+export interface MCPPromptDef {
+  readonly name: string
+  readonly description: string
+  readonly arguments: readonly MCPPromptArgument[]
+  readonly clientName: string
+}
+
+// 服务器通知的列表变更（工具 / 提示词 / 资源）
+export interface MCPListChange {
+  readonly clientName: string
+  readonly kind: 'tools' | 'prompts' | 'resources'
+}
+
+// 已订阅资源的内容更新
+export interface MCPResourceUpdate {
+  readonly clientName: string
+  readonly uri: string
+}
+
+interface ConnectionMetrics {
+  calls: number
+  errors: number
+  totalLatencyMs: number
+  lastLatencyMs?: number
+  lastError?: string
+  lastPingAt?: Date
+  pingLatencyMs?: number
+  reconnects: number
+}
+
 interface MCPConnection {
-  readonly client: Client
+  client: Client
   readonly name: string
+  readonly config: McpServerConfig
   status: MCPStatus
   tools: readonly MCPToolDef[]
+  resources: readonly MCPResourceDef[]
+  prompts: readonly MCPPromptDef[]
+  readonly metrics: ConnectionMetrics
+  pingTimer: ReturnType<typeof setInterval> | null
+  // 等待中的延迟重连（启动失败、重连次数用尽后）
+  retryTimer: ReturnType<typeof setTimeout> | null
+  // 主动关闭（shutdown / reload）后不再重连
+  closed: boolean
+}
+
+const DEFAULT_PING_INTERVAL = 30000
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5
+const RECONNECT_INITIAL_DELAY = 1000
+const RECONNECT_MAX_DELAY = 60000
+
+function toToolDef(clientName: string, tool: Tool): MCPToolDef {
+  return {
+    name: tool.name,
+    qualifiedName: `${clientName}_${tool.name}`,
+    description: tool.description ?? '',
+    inputSchema: tool.inputSchema as Record<string, unknown>,
+    clientName,
+  }
+}
+
+function toResourceDef(clientName: string, resource: Resource): MCPResourceDef {
+  return {
+    uri: resource.uri,
+    name: resource.name,
+    description: resource.description ?? '',
+    mimeType: resource.mimeType,
+    clientName,
+  }
+}
+
+function toPromptDef(clientName: string, prompt: Prompt): MCPPromptDef {
+  return {
+    name: prompt.name,
+    description: prompt.description ?? '',
+    arguments: (prompt.arguments ?? []).map((arg) => ({
+      name: arg.name,
+      description: arg.description ?? '',
+      required: arg.required === true,
+    })),
+    clientName,
+  }
 }
 
 export class MCPClientManager {
   private readonly connections: Map<string, MCPConnection> = new Map()
+  // 资源订阅在重连（reload）后自动恢复
+  private readonly subscriptions: Map<string, Set<string>> = new Map()
+  private readonly listChangeCallbacks: Set<(change: MCPListChange) => void> = new Set()
+  private readonly resourceUpdateCallbacks: Set<(update: MCPResourceUpdate) => void> = new Set()
+  private readonly statusChangeCallbacks: Set<(change: MCPStatusChange) => void> = new Set()
 
   async initialize(): Promise<void> {
     const config = getConfigManager()
@@ -56,57 +183,168 @@ export class MCPClientManager {
 
   private async connectServer(name: string, config: McpServerConfig): Promise<void> {
     if (!config.enabled) {
-      this.connections.set(name, {
-        client: null as unknown as Client,
-        name,
-        status: { status: 'disabled' },
-        tools: [],
-      })
+      this.connections.set(name, this.createConnection(name, config, { status: 'disabled' }))
       logger.debug(`MCP 服务器已禁用: ${name}`)
       return
     }
 
-    const conn: MCPConnection = {
-      client: new Client({ name: `wqbot-${name}`, version: '0.1.0' }),
+    const conn = this.createConnection(name, config, { status: 'connecting' })
+    this.connections.set(name, conn)
+
+    try {
+      await this.open(conn)
+      logger.info(
+        `MCP 服务器已连接: ${name} (${conn.tools.length} 个工具, ${conn.resources.length} 个资源, ${conn.prompts.length} 个提示词)`
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '未知错误'
+      logger.error(`MCP 服务器连接失败: ${name} - ${message}`)
+      conn.metrics.lastError = message
+
+      // 启动时连接失败同样按退避重连
+      const maxAttempts = config.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS
+      if (maxAttempts > 0) {
+        this.setStatus(conn, { status: 'reconnecting', attempt: 1, error: message })
+        this.scheduleRetry(conn, RECONNECT_INITIAL_DELAY, () => this.reconnect(conn, maxAttempts))
+      } else {
+        conn.status = { status: 'failed', error: message }
+      }
+    }
+  }
+
+  private createConnection(
+    name: string,
+    config: McpServerConfig,
+    status: MCPStatus
+  ): MCPConnection {
+    return {
+      client: null as unknown as Client,
       name,
-      status: { status: 'connecting' },
+      config,
+      status,
       tools: [],
+      resources: [],
+      prompts: [],
+      metrics: { calls: 0, errors: 0, totalLatencyMs: 0, reconnects: 0 },
+      pingTimer: null,
+      retryTimer: null,
+      closed: false,
     }
-    this.connections.set(name, conn)
+  }
+
+  // 建立连接并发现工具、资源和提示词，成功后开始健康检查
+  private async open(conn: MCPConnection): Promise<void> {
+    const { name } = conn
+    const client = await this.connectClient(name, conn.config)
 
     try {
-      const transport = this.createTransport(name, config)
-      await conn.client.connect(transport)
-
-      // 发现工具
-      const result = await conn.client.listTools()
-      const tools: MCPToolDef[] = result.tools.map((t) => ({
-        name: t.name,
-        qualifiedName: `${name}_${t.name}`,
-        description: t.description ?? '',
-        inputSchema: t.inputSchema as Record<string, unknown>,
-        clientName: name,
-      }))
-
-      conn.tools = tools
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+        for (const cb of this.resourceUpdateCallbacks) {
+          cb({ clientName: name, uri: notification.params.uri })
+        }
+      })
+
+      // 按服务器声明的能力发现工具、资源和提示词
+      const capabilities = client.getServerCapabilities() ?? {}
+      const [tools, resources, prompts] = await Promise.all([
+        capabilities.tools ? client.listTools() : { tools: [] },
+        capabilities.resources ? client.listResources() : { resources: [] },
+        capabilities.prompts ? client.listPrompts() : { prompts: [] },
+      ])
+
+      conn.client = client
+      conn.tools = tools.tools.map((t) => toToolDef(name, t))
+      conn.resources = resources.resources.map((r) => toResourceDef(name, r))
+      conn.prompts = prompts.prompts.map((p) => toPromptDef(name, p))
       conn.status = { status: 'connected' }
-      logger.info(`MCP 服务器已连接: ${name} (${tools.length} 个工具)`)
     } catch (error) {
-      const message = error instanceof Error ? error.message : '未知错误'
-      conn.status = { status: 'failed', error: message }
-      logger.error(`MCP 服务器连接失败: ${name} - ${message}`)
+      await client.close().catch(() => {})
+      throw error
     }
+
+    // stdio 进程退出或远程连接断开时触发重连
+    client.onclose = () => {
+      if (conn.client === client) this.handleDisconnect(conn, '连接已断开')
+    }
+    this.startPing(conn)
+    await this.restoreSubscriptions(conn)
   }
 
-  private createTransport(name: string, config: McpServerConfig) {
-    if (config.type === 'remote') {
-      if (!config.url) {
-        throw new Error(`MCP 服务器 ${name} 缺少 url 配置`)
+  private createClient(name: string): Client {
+    return new Client(
+      { name: `wqbot-${name}`, version: '0.1.0' },
+      {
+        // 服务器发送 list_changed 通知时由 SDK 自动重新拉取列表
+        listChanged: {
+          tools: {
+            onChanged: (error, tools) =>
+              this.handleListChanged(name, 'tools', error, () => {
+                this.updateTools(
+                  name,
+                  (tools ?? []).map((t) => toToolDef(name, t))
+                )
+              }),
+          },
+          resources: {
+            onChanged: (error, resources) =>
+              this.handleListChanged(name, 'resources', error, (conn) => {
+                conn.resources = (resources ?? []).map((r) => toResourceDef(name, r))
+              }),
+          },
+          prompts: {
+            onChanged: (error, prompts) =>
+              this.handleListChanged(name, 'prompts', error, (conn) => {
+                conn.prompts = (prompts ?? []).map((p) => toPromptDef(name, p))
+              }),
+          },
+        },
       }
-      return new SSEClientTransport(new URL(config.url))
+    )
+  }
+
+  private async connectClient(name: string, config: McpServerConfig): Promise<Client> {
+    if (config.type !== 'remote') {
+      const client = this.createClient(name)
+      await client.connect(this.createStdioTransport(name, config))
+      return client
+    }
+
+    if (!config.url) {
+      throw new Error(`MCP 服务器 ${name} 缺少 url 配置`)
+    }
+    const url = new URL(config.url)
+    const requestInit = { headers: this.resolveHeaders(config) }
+
+    // 未指定 transport 时优先 Streamable HTTP，失败后回退到旧版 SSE
+    if (config.transport !== 'sse') {
+      const client = this.createClient(name)
+      try {
+        // sessionId 等可选属性与 exactOptionalPropertyTypes 不兼容，按 Transport 接口传入
+        const transport = new StreamableHTTPClientTransport(url, { requestInit }) as Transport
+        await client.connect(transport)
+        return client
+      } catch (error) {
+        if (config.transport === 'http') throw error
+        await client.close().catch(() => {})
+        logger.debug(`MCP 服务器 ${name} 不支持 Streamable HTTP，回退到 SSE`)
+      }
+    }
+
+    const client = this.createClient(name)
+    await client.connect(new SSEClientTransport(url, { requestInit }))
+    return client
+  }
+
+  // 请求头支持 {env:VAR} 替换（如 Authorization: Bearer {env:TOKEN}）
+  private resolveHeaders(config: McpServerConfig): Record<string, string> {
+    const headers: Record<string, string> = {}
+    for (const [key, value] of Object.entries(config.headers ?? {})) {
+      headers[key] = expandVariables(value)
     }
+    return headers
+  }
 
-    // local: stdio transport
+  private createStdioTransport(name: string, config: McpServerConfig) {
     if (!config.command || config.command.length === 0) {
       throw new Error(`MCP 服务器 ${name} 缺少 command 配置`)
     }
@@ -125,6 +363,206 @@ export class MCPClientManager {
     return new StdioClientTransport({ command, args, env })
   }
 
+  private handleListChanged(
+    name: string,
+    kind: MCPListChange['kind'],
+    error: Error | null,
+    apply: (conn: MCPConnection) => void
+  ): void {
+    const conn = this.connections.get(name)
+    if (!conn || conn.status.status !== 'connected') return
+    if (error) {
+      logger.warn(`MCP 服务器 ${name} 刷新${kind}列表失败: ${error.message}`)
+      return
+    }
+
+    apply(conn)
+    logger.info(`MCP 服务器 ${name} 的${kind}列表已更新`)
+    for (const cb of this.listChangeCallbacks) {
+      cb({ clientName: name, kind })
+    }
+  }
+
+  // 工具列表变更时直接同步 ToolRegistry，无需 reload()
+  private updateTools(name: string, tools: readonly MCPToolDef[]): void {
+    const conn = this.connections.get(name)
+    if (!conn) return
+
+    const registry = getToolRegistry()
+    for (const tool of conn.tools) {
+      registry.unregister(tool.qualifiedName)
+    }
+    conn.tools = tools
+    for (const tool of tools) {
+      registry.register(this.toToolDefinition(tool))
+    }
+  }
+
+  private async restoreSubscriptions(conn: MCPConnection): Promise<void> {
+    for (const uri of this.subscriptions.get(conn.name) ?? []) {
+      try {
+        await conn.client.subscribeResource({ uri })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : '未知错误'
+        logger.warn(`恢复 MCP 资源订阅失败: ${conn.name} ${uri} - ${message}`)
+      }
+    }
+  }
+
+  private startPing(conn: MCPConnection): void {
+    const interval = conn.config.pingInterval ?? DEFAULT_PING_INTERVAL
+    if (interval <= 0) return
+
+    conn.pingTimer = setInterval(() => void this.ping(conn), interval)
+    conn.pingTimer.unref?.()
+  }
+
+  private stopPing(conn: MCPConnection): void {
+    if (conn.pingTimer) {
+      clearInterval(conn.pingTimer)
+      conn.pingTimer = null
+    }
+  }
+
+  private async ping(conn: MCPConnection): Promise<void> {
+    if (conn.status.status !== 'connected') return
+
+    const start = Date.now()
+    try {
+      await conn.client.ping({ timeout: conn.config.timeout })
+      conn.metrics.lastPingAt = new Date()
+      conn.metrics.pingLatencyMs = Date.now() - start
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '未知错误'
+      this.handleDisconnect(conn, `健康检查失败: ${message}`)
+    }
+  }
+
+  // 断开后注销工具并按指数退避重连，恢复后重新注册
+  private handleDisconnect(conn: MCPConnection, reason: string): void {
+    if (conn.closed || conn.status.status !== 'connected') return
+
+    logger.warn(`MCP 服务器断开: ${conn.name} - ${reason}`)
+    this.stopPing(conn)
+    const registry = getToolRegistry()
+    for (const tool of conn.tools) {
+      registry.unregister(tool.qualifiedName)
+    }
+    conn.metrics.lastError = reason
+
+    // 先更新状态再关闭旧连接，避免 onclose 重复触发
+    const maxAttempts = conn.config.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS
+    this.setStatus(
+      conn,
+      maxAttempts > 0
+        ? { status: 'reconnecting', attempt: 1, error: reason }
+        : { status: 'failed', error: reason }
+    )
+    conn.client.close().catch(() => {})
+    if (maxAttempts > 0) {
+      void this.reconnect(conn, maxAttempts)
+    }
+  }
+
+  private async reconnect(conn: MCPConnection, maxAttempts: number): Promise<void> {
+    const isStale = (): boolean => conn.closed || this.connections.get(conn.name) !== conn
+
+    try {
+      await retryWithBackoff(
+        async () => {
+          if (isStale()) throw new Error('连接已关闭')
+          await this.open(conn)
+        },
+        {
+          maxAttempts,
+          initialDelay: RECONNECT_INITIAL_DELAY,
+          maxDelay: RECONNECT_MAX_DELAY,
+          isRetryable: () => !isStale(),
+          onRetry: (error, attempt) => {
+            this.setStatus(conn, {
+              status: 'reconnecting',
+              attempt: attempt + 1,
+              error: error.message,
+            })
+          },
+        }
+      )
+    } catch (error) {
+      if (isStale()) return
+      const message = error instanceof Error ? error.message : '未知错误'
+      logger.error(
+        `MCP 服务器重连失败，之后每 ${RECONNECT_MAX_DELAY / 1000} 秒重试: ${conn.name} - ${message}`
+      )
+      conn.metrics.lastError = message
+      this.setStatus(conn, { status: 'failed', error: message })
+      this.scheduleRetry(conn, RECONNECT_MAX_DELAY, () => this.retryFailed(conn))
+      return
+    }
+
+    await this.restored(conn)
+  }
+
+  // 重连次数用尽后按最大间隔持续重试，仅在错误变化时通知状态
+  private async retryFailed(conn: MCPConnection): Promise<void> {
+    try {
+      await this.open(conn)
+    } catch (error) {
+      if (conn.closed || this.connections.get(conn.name) !== conn) return
+      const message = error instanceof Error ? error.message : '未知错误'
+      conn.metrics.lastError = message
+      if (conn.status.status !== 'failed' || conn.status.error !== message) {
+        this.setStatus(conn, { status: 'failed', error: message })
+      }
+      this.scheduleRetry(conn, RECONNECT_MAX_DELAY, () => this.retryFailed(conn))
+      return
+    }
+
+    await this.restored(conn)
+  }
+
+  // 延迟后执行重连；连接被关闭或替换（shutdown / reload）后不再执行
+  private scheduleRetry(conn: MCPConnection, delay: number, retry: () => Promise<void>): void {
+    conn.retryTimer = setTimeout(() => {
+      conn.retryTimer = null
+      if (conn.closed || this.connections.get(conn.name) !== conn) return
+      void retry()
+    }, delay)
+    conn.retryTimer.unref?.()
+  }
+
+  // 重新连接成功：重新注册工具并通知状态
+  private async restored(conn: MCPConnection): Promise<void> {
+    // 重连期间被关闭（shutdown / reload）
+    if (conn.closed || this.connections.get(conn.name) !== conn) {
+      this.stopPing(conn)
+      await conn.client.close().catch(() => {})
+      return
+    }
+
+    conn.metrics.reconnects++
+    const registry = getToolRegistry()
+    for (const tool of conn.tools) {
+      registry.register(this.toToolDefinition(tool))
+    }
+    logger.info(`MCP 服务器已重新连接: ${conn.name}`)
+    this.setStatus(conn, { status: 'connected' })
+  }
+
+  private setStatus(conn: MCPConnection, status: MCPStatus): void {
+    conn.status = status
+    for (const cb of this.statusChangeCallbacks) {
+      cb({ clientName: conn.name, status })
+    }
+  }
+
+  private getConnected(clientName: string): MCPConnection {
+    const conn = this.connections.get(clientName)
+    if (!conn || conn.status.status !== 'connected') {
+      throw new Error(`MCP 服务器不可用: ${clientName}`)
+    }
+    return conn
+  }
+
   getTools(): readonly MCPToolDef[] {
     const tools: MCPToolDef[] = []
     for (const conn of this.connections.values()) {
@@ -137,7 +575,11 @@ export class MCPClientManager {
 
   // 将 MCP 工具转换为通用 ToolDefinition 格式
   getToolDefinitions(): readonly ToolDefinition[] {
-    return this.getTools().map((mcpTool) => ({
+    return this.getTools().map((mcpTool) => this.toToolDefinition(mcpTool))
+  }
+
+  private toToolDefinition(mcpTool: MCPToolDef): ToolDefinition {
+    return {
       name: mcpTool.qualifiedName,
       description: `[${mcpTool.clientName}] ${mcpTool.description}`,
       inputSchema: mcpTool.inputSchema,
@@ -145,7 +587,100 @@ export class MCPClientManager {
       execute: async (args: Record<string, unknown>): Promise<ToolResult> => {
         return this.callTool(mcpTool.qualifiedName, args)
       },
-    }))
+    }
+  }
+
+  getResources(): readonly MCPResourceDef[] {
+    return [...this.connections.values()]
+      .filter((conn) => conn.status.status === 'connected')
+      .flatMap((conn) => conn.resources)
+  }
+
+  /**
+   * 读取资源，转换为可作为聊天附件发送的内容分段
+   */
+  async readResource(clientName: string, uri: string): Promise<readonly ContentPart[]> {
+    const conn = this.getConnected(clientName)
+    const result = await conn.client.readResource({ uri })
+
+    return result.contents.map((content): ContentPart => {
+      // 文本资源统一按 text/* 处理，由模型层内联
+      if ('text' in content) {
+        return {
+          type: 'file',
+          mimeType: content.mimeType?.startsWith('text/') ? content.mimeType : 'text/plain',
+          filename: content.uri,
+          data: Buffer.from(content.text, 'utf-8').toString('base64'),
+        }
+      }
+      const mimeType = content.mimeType ?? 'application/octet-stream'
+      return mimeType.startsWith('image/')
+        ? { type: 'image', mimeType, data: content.blob }
+        : { type: 'file', mimeType, filename: content.uri, data: content.blob }
+    })
+  }
+
+  async subscribeResource(clientName: string, uri: string): Promise<void> {
+    const conn = this.getConnected(clientName)
+    if (!conn.client.getServerCapabilities()?.resources?.subscribe) {
+      throw new Error(`MCP 服务器不支持资源订阅: ${clientName}`)
+    }
+
+    await conn.client.subscribeResource({ uri })
+    const uris = this.subscriptions.get(clientName) ?? new Set<string>()
+    uris.add(uri)
+    this.subscriptions.set(clientName, uris)
+  }
+
+  async unsubscribeResource(clientName: string, uri: string): Promise<void> {
+    const uris = this.subscriptions.get(clientName)
+    if (!uris?.delete(uri)) return
+
+    const conn = this.connections.get(clientName)
+    if (conn?.status.status === 'connected') {
+      await conn.client.unsubscribeResource({ uri })
+    }
+  }
+
+  getPrompts(): readonly MCPPromptDef[] {
+    return [...this.connections.values()]
+      .filter((conn) => conn.status.status === 'connected')
+      .flatMap((conn) => conn.prompts)
+  }
+
+  /**
+   * 获取提示词并展开为文本（多条消息以空行分隔，非文本内容忽略）
+   */
+  async getPrompt(
+    clientName: string,
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<string> {
+    const conn = this.getConnected(clientName)
+    const prompt = conn.prompts.find((p) => p.name === name)
+    if (!prompt) {
+      throw new Error(`MCP 提示词不存在: ${clientName}/${name}`)
+    }
+    const missing = prompt.arguments.filter((arg) => arg.required && !args[arg.name])
+    if (missing.length > 0) {
+      throw new Error(`缺少提示词参数: ${missing.map((arg) => arg.name).join(', ')}`)
+    }
+
+    const result = await conn.client.getPrompt({ name, arguments: args })
+    return result.messages
+      .map((message) => (message.content.type === 'text' ? message.content.text : ''))
+      .filter(Boolean)
+      .join('\n\n')
+  }
+
+  onListChanged(callback: (change: MCPListChange) => void): () => void {
+    this.listChangeCallbacks.add(callback)
+    return () => this.listChangeCallbacks.delete(callback)
+  }
+
+  onResourceUpdated(callback: (update: MCPResourceUpdate) => void): () => void {
+    this.resourceUpdateCallbacks.add(callback)
+    return () => this.resourceUpdateCallbacks.delete(callback)
   }
 
   async callTool(qualifiedName: string, args: Record<string, unknown>): Promise<ToolResult> {
@@ -163,8 +698,14 @@ export class MCPClientManager {
       return { content: `MCP 服务器不可用: ${clientName}`, isError: true }
     }
 
+    const start = Date.now()
     try {
       const result = await conn.client.callTool({ name: toolName, arguments: args })
+      this.recordCall(
+        conn,
+        Date.now() - start,
+        result.isError === true ? '工具返回错误' : undefined
+      )
 
       // 提取文本内容
       const textParts = (result.content as Array<{ type: string; text?: string }>)
@@ -177,11 +718,23 @@ export class MCPClientManager {
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : '未知错误'
+      this.recordCall(conn, Date.now() - start, message)
       logger.error(`MCP 工具调用失败: ${qualifiedName} - ${message}`)
       return { content: `工具调用失败: ${message}`, isError: true }
     }
   }
 
+  private recordCall(conn: MCPConnection, latencyMs: number, error?: string): void {
+    const { metrics } = conn
+    metrics.calls++
+    metrics.totalLatencyMs += latencyMs
+    metrics.lastLatencyMs = latencyMs
+    if (error) {
+      metrics.errors++
+      metrics.lastError = error
+    }
+  }
+
   getStatus(): Record<string, MCPStatus> {
     const status: Record<string, MCPStatus> = {}
     for (const [name, conn] of this.connections) {
@@ -190,10 +743,49 @@ export class MCPClientManager {
     return status
   }
 
+  /**
+   * 状态和调用指标（平均延迟、错误数、最近一次健康检查等）
+   */
+  getHealth(): Record<string, MCPServerHealth> {
+    const health: Record<string, MCPServerHealth> = {}
+    for (const [name, conn] of this.connections) {
+      const { metrics } = conn
+      health[name] = {
+        ...conn.status,
+        metrics: {
+          calls: metrics.calls,
+          errors: metrics.errors,
+          avgLatencyMs: metrics.calls > 0 ? Math.round(metrics.totalLatencyMs / metrics.calls) : 0,
+          lastLatencyMs: metrics.lastLatencyMs,
+          lastError: metrics.lastError,
+          lastPingAt: metrics.lastPingAt?.toISOString(),
+          pingLatencyMs: metrics.pingLatencyMs,
+          reconnects: metrics.reconnects,
+        },
+      }
+    }
+    return health
+  }
+
+  onStatusChange(callback: (change: MCPStatusChange) => void): () => void {
+    this.statusChangeCallbacks.add(callback)
+    return () => this.statusChangeCallbacks.delete(callback)
+  }
+
   async shutdown(): Promise<void> {
     const closePromises: Promise<void>[] = []
+    const registry = getToolRegistry()
 
     for (const [name, conn] of this.connections) {
+      conn.closed = true
+      this.stopPing(conn)
+      if (conn.retryTimer) {
+        clearTimeout(conn.retryTimer)
+        conn.retryTimer = null
+      }
+      for (const tool of conn.tools) {
+        registry.unregister(tool.qualifiedName)
+      }
       if (conn.status.status === 'connected') {
         closePromises.push(
           conn.client.close().catch(() => {
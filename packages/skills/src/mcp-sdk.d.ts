@@ -24,3 +24,13 @@ declare module '@modelcontextprotocol/sdk/client/sse' {
     send(message: unknown): Promise<void>
   }
 }
+
+declare module '@modelcontextprotocol/sdk/client/streamableHttp' {
+  import type { Transport } from '@modelcontextprotocol/sdk/client'
+  export class StreamableHTTPClientTransport implements Transport {
+    constructor(url: URL, opts?: Record<string, unknown>)
+    start(): Promise<void>
+    close(): Promise<void>
+    send(message: unknown): Promise<void>
+  }
+}
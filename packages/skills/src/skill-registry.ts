@@ -174,6 +174,11 @@ export class SkillRegistry {
       .map((r) => r.skill)
   }
 
+  // 按名称获取 Markdown 技能（SKILL.md）
+  getMarkdownSkill(name: string): MarkdownSkillDef | undefined {
+    return this.markdownSkills.find(s => s.name === name)
+  }
+
   /**
    * Find skills that match the given input
    */
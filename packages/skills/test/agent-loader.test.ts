@@ -57,6 +57,19 @@ This is the agent prompt.`
       expect(result!.prompt).toBe('This is the agent prompt.')
     })
 
+    it('parses rag as all collections or a single collection', () => {
+      vi.mocked(fs.readFileSync).mockReturnValueOnce(`---\nname: a\nrag: true\n---\nPrompt`)
+      expect(loader.parseAgentFile('/path/to/a.md')!.rag).toEqual({})
+
+      vi.mocked(fs.readFileSync).mockReturnValueOnce(
+        `---\nname: b\nrag:\n  collection: docs\n---\nPrompt`
+      )
+      expect(loader.parseAgentFile('/path/to/b.md')!.rag).toEqual({ collection: 'docs' })
+
+      vi.mocked(fs.readFileSync).mockReturnValueOnce(`---\nname: c\nrag: false\n---\nPrompt`)
+      expect(loader.parseAgentFile('/path/to/c.md')!.rag).toBeUndefined()
+    })
+
     it('returns null for invalid config', () => {
       const mockContent = `---
 invalid: config
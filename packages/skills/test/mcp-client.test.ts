@@ -0,0 +1,384 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const mcpConfig: Record<string, Record<string, unknown>> = {}
+
+vi.mock('@wqbot/core', () => ({
+  createModuleLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  getConfigManager: () => ({ getMcpConfig: () => mcpConfig }),
+  expandVariables: (value: string) => value.replace('{env:TOKEN}', 'secret'),
+  // 无延迟的重试，便于测试重连流程
+  retryWithBackoff: async (
+    fn: () => Promise<unknown>,
+    options: {
+      maxAttempts: number
+      isRetryable?: (error: Error) => boolean
+      onRetry?: (error: Error, attempt: number, delay: number) => void
+    }
+  ) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn()
+      } catch (error) {
+        const err = error as Error
+        if (attempt >= options.maxAttempts || options.isRetryable?.(err) === false) throw err
+        options.onRetry?.(err, attempt, 0)
+      }
+    }
+  },
+}))
+
+// 假 transport：记录构造参数，URL 以 /sse 结尾的服务器不支持 Streamable HTTP
+const transports: { type: string; url: string; opts: Record<string, unknown> }[] = []
+vi.mock('@modelcontextprotocol/sdk/client/streamableHttp.js', () => ({
+  StreamableHTTPClientTransport: class {
+    readonly type = 'http'
+    constructor(
+      readonly url: URL,
+      opts: Record<string, unknown>
+    ) {
+      transports.push({ type: 'http', url: url.href, opts })
+    }
+  },
+}))
+vi.mock('@modelcontextprotocol/sdk/client/sse.js', () => ({
+  SSEClientTransport: class {
+    readonly type = 'sse'
+    constructor(
+      readonly url: URL,
+      opts: Record<string, unknown>
+    ) {
+      transports.push({ type: 'sse', url: url.href, opts })
+    }
+  },
+}))
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+  StdioClientTransport: class {
+    readonly type = 'stdio'
+  },
+}))
+
+// 接下来 connect 失败的次数
+let connectFailures = 0
+
+interface FakeClient {
+  options: {
+    listChanged: Record<string, { onChanged: (error: Error | null, items: unknown[]) => void }>
+  }
+  subscribeResource: ReturnType<typeof vi.fn>
+  getPrompt: ReturnType<typeof vi.fn>
+  ping: ReturnType<typeof vi.fn>
+  callTool: ReturnType<typeof vi.fn>
+  onclose?: () => void
+}
+
+const clients: FakeClient[] = []
+vi.mock('@modelcontextprotocol/sdk/client', () => ({
+  Client: class {
+    subscribeResource = vi.fn(async () => ({}))
+    ping = vi.fn(async () => ({}))
+    callTool = vi.fn(async () => ({ content: [{ type: 'text', text: 'ok' }] }))
+    unsubscribeResource = vi.fn(async () => ({}))
+    getPrompt = vi.fn(async () => ({
+      messages: [
+        { role: 'user', content: { type: 'text', text: '审查这段代码' } },
+        { role: 'user', content: { type: 'image', data: '', mimeType: 'image/png' } },
+      ],
+    }))
+    constructor(
+      _info: unknown,
+      readonly options: FakeClient['options']
+    ) {
+      clients.push(this as unknown as FakeClient)
+    }
+
+    async connect(transport: { type: string; url?: URL }) {
+      if (connectFailures > 0) {
+        connectFailures--
+        throw new Error('ECONNREFUSED')
+      }
+      if (transport.type === 'http' && transport.url?.pathname.endsWith('/sse')) {
+        throw new Error('405 Method Not Allowed')
+      }
+    }
+
+    async close() {}
+
+    getServerCapabilities() {
+      return { tools: {}, resources: { subscribe: true }, prompts: {} }
+    }
+
+    setNotificationHandler() {}
+
+    async listTools() {
+      return { tools: [{ name: 'search', description: '搜索', inputSchema: { type: 'object' } }] }
+    }
+
+    async listResources() {
+      return {
+        resources: [{ uri: 'file:///readme.md', name: 'readme', mimeType: 'text/markdown' }],
+      }
+    }
+
+    async listPrompts() {
+      return {
+        prompts: [
+          { name: 'review', arguments: [{ name: 'file', required: true }, { name: 'focus' }] },
+        ],
+      }
+    }
+
+    async readResource({ uri }: { uri: string }) {
+      return {
+        contents: [
+          { uri, mimeType: 'application/json', text: '{"a":1}' },
+          { uri: 'file:///logo.png', mimeType: 'image/png', blob: 'iVBORw0' },
+        ],
+      }
+    }
+  },
+}))
+
+import { MCPClientManager } from '../src/mcp-client.js'
+import { getToolRegistry } from '../src/tool-registry.js'
+
+describe('MCPClientManager', () => {
+  let manager: MCPClientManager
+
+  beforeEach(() => {
+    for (const key of Object.keys(mcpConfig)) delete mcpConfig[key]
+    transports.length = 0
+    clients.length = 0
+    connectFailures = 0
+    getToolRegistry().clear()
+    manager = new MCPClientManager()
+  })
+
+  describe('remote transport', () => {
+    it('uses streamable HTTP with expanded auth headers', async () => {
+      mcpConfig.api = {
+        type: 'remote',
+        url: 'https://mcp.example.com/mcp',
+        headers: { Authorization: 'Bearer {env:TOKEN}' },
+        enabled: true,
+      }
+      await manager.initialize()
+
+      expect(manager.getStatus().api).toEqual({ status: 'connected' })
+      expect(transports).toEqual([
+        {
+          type: 'http',
+          url: 'https://mcp.example.com/mcp',
+          opts: { requestInit: { headers: { Authorization: 'Bearer secret' } } },
+        },
+      ])
+    })
+
+    it('falls back to SSE when transport is not specified', async () => {
+      mcpConfig.legacy = { type: 'remote', url: 'https://mcp.example.com/sse', enabled: true }
+      await manager.initialize()
+
+      expect(manager.getStatus().legacy).toEqual({ status: 'connected' })
+      expect(transports.map((t) => t.type)).toEqual(['http', 'sse'])
+    })
+
+    it('does not fall back when transport is http', async () => {
+      mcpConfig.legacy = {
+        type: 'remote',
+        url: 'https://mcp.example.com/sse',
+        transport: 'http',
+        enabled: true,
+        maxReconnectAttempts: 0,
+      }
+      await manager.initialize()
+
+      expect(manager.getStatus().legacy).toEqual({
+        status: 'failed',
+        error: '405 Method Not Allowed',
+      })
+      expect(transports.map((t) => t.type)).toEqual(['http'])
+    })
+  })
+
+  describe('list changes', () => {
+    it('updates the tool registry when the server tool list changes', async () => {
+      mcpConfig.api = { type: 'remote', url: 'https://mcp.example.com/mcp', enabled: true }
+      await manager.initialize()
+      const registry = getToolRegistry()
+      for (const def of manager.getToolDefinitions()) registry.register(def)
+      const changes: unknown[] = []
+      manager.onListChanged((change) => changes.push(change))
+
+      clients[0]!.options.listChanged.tools!.onChanged(null, [
+        { name: 'fetch', description: '抓取', inputSchema: { type: 'object' } },
+      ])
+
+      expect(registry.getAll().map((t) => t.name)).toEqual(['api_fetch'])
+      expect(manager.getTools().map((t) => t.qualifiedName)).toEqual(['api_fetch'])
+      expect(changes).toEqual([{ clientName: 'api', kind: 'tools' }])
+    })
+
+    it('keeps the previous list when refreshing fails', async () => {
+      mcpConfig.api = { type: 'remote', url: 'https://mcp.example.com/mcp', enabled: true }
+      await manager.initialize()
+
+      clients[0]!.options.listChanged.prompts!.onChanged(new Error('timeout'), [])
+
+      expect(manager.getPrompts().map((p) => p.name)).toEqual(['review'])
+    })
+  })
+
+  describe('resources and prompts', () => {
+    beforeEach(async () => {
+      mcpConfig.api = { type: 'remote', url: 'https://mcp.example.com/mcp', enabled: true }
+      await manager.initialize()
+    })
+
+    it('converts resource contents to attachable content parts', async () => {
+      const parts = await manager.readResource('api', 'file:///data.json')
+
+      expect(parts).toEqual([
+        {
+          type: 'file',
+          mimeType: 'text/plain',
+          filename: 'file:///data.json',
+          data: Buffer.from('{"a":1}').toString('base64'),
+        },
+        { type: 'image', mimeType: 'image/png', data: 'iVBORw0' },
+      ])
+    })
+
+    it('restores resource subscriptions after reload', async () => {
+      await manager.subscribeResource('api', 'file:///readme.md')
+      await manager.reload()
+
+      expect(clients[1]!.subscribeResource).toHaveBeenCalledWith({ uri: 'file:///readme.md' })
+    })
+
+    it('renders prompt text and validates required arguments', async () => {
+      await expect(manager.getPrompt('api', 'review')).rejects.toThrow('file')
+
+      const text = await manager.getPrompt('api', 'review', { file: 'index.ts' })
+      expect(text).toBe('审查这段代码')
+      expect(clients[0]!.getPrompt).toHaveBeenCalledWith({
+        name: 'review',
+        arguments: { file: 'index.ts' },
+      })
+    })
+  })
+
+  describe('health monitoring', () => {
+    const registry = getToolRegistry()
+    let statuses: unknown[]
+
+    beforeEach(async () => {
+      vi.useFakeTimers()
+      mcpConfig.api = {
+        type: 'remote',
+        url: 'https://mcp.example.com/mcp',
+        transport: 'http',
+        enabled: true,
+        timeout: 5000,
+        pingInterval: 1000,
+        maxReconnectAttempts: 3,
+      }
+      await manager.initialize()
+      for (const def of manager.getToolDefinitions()) registry.register(def)
+      statuses = []
+      manager.onStatusChange(({ status }) => {
+        statuses.push({ ...status, registered: registry.get('api_search') !== undefined })
+      })
+    })
+
+    afterEach(async () => {
+      await manager.shutdown()
+      vi.useRealTimers()
+    })
+
+    it('unregisters tools while reconnecting after a failed ping', async () => {
+      clients[0]!.ping.mockRejectedValue(new Error('timeout'))
+      connectFailures = 1
+
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(clients[0]!.ping).toHaveBeenCalledWith({ timeout: 5000 })
+      expect(statuses).toEqual([
+        { status: 'reconnecting', attempt: 1, error: '健康检查失败: timeout', registered: false },
+        { status: 'reconnecting', attempt: 2, error: 'ECONNREFUSED', registered: false },
+        { status: 'connected', registered: true },
+      ])
+      expect(manager.getHealth().api!.metrics.reconnects).toBe(1)
+    })
+
+    it('marks the server failed after exhausting reconnect attempts', async () => {
+      connectFailures = 10
+      clients[0]!.onclose!()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(statuses.at(-1)).toEqual({
+        status: 'failed',
+        error: 'ECONNREFUSED',
+        registered: false,
+      })
+      expect(manager.getStatus().api).toEqual({ status: 'failed', error: 'ECONNREFUSED' })
+    })
+
+    it('keeps retrying a failed server with a capped delay', async () => {
+      connectFailures = 4
+      clients[0]!.onclose!()
+      await vi.advanceTimersByTimeAsync(0)
+      expect(manager.getStatus().api!.status).toBe('failed')
+
+      // 第 4 次失败不重复通知相同的错误
+      await vi.advanceTimersByTimeAsync(60000)
+      expect(statuses.filter((s) => (s as { status: string }).status === 'failed')).toHaveLength(1)
+
+      await vi.advanceTimersByTimeAsync(60000)
+      expect(statuses.at(-1)).toEqual({ status: 'connected', registered: true })
+      expect(manager.getHealth().api!.metrics.reconnects).toBe(1)
+    })
+
+    it('retries servers that fail to connect at startup', async () => {
+      const other = new MCPClientManager()
+      const changes: string[] = []
+      other.onStatusChange(({ status }) => changes.push(status.status))
+      connectFailures = 1
+      await other.initialize()
+      expect(other.getStatus().api).toEqual({
+        status: 'reconnecting',
+        attempt: 1,
+        error: 'ECONNREFUSED',
+      })
+
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(other.getStatus().api).toEqual({ status: 'connected' })
+      expect(registry.get('api_search')).toBeDefined()
+      expect(changes).toEqual(['reconnecting', 'connected'])
+      await other.shutdown()
+    })
+
+    it('does not reconnect after shutdown', async () => {
+      await manager.shutdown()
+      clients[0]!.onclose!()
+
+      expect(statuses).toEqual([])
+      expect(clients).toHaveLength(1)
+    })
+
+    it('reports call latency and error metrics', async () => {
+      clients[0]!.callTool.mockRejectedValueOnce(new Error('boom'))
+      await manager.callTool('api_search', {})
+      await manager.callTool('api_search', {})
+
+      expect(manager.getHealth().api).toMatchObject({
+        status: 'connected',
+        metrics: { calls: 2, errors: 1, lastError: 'boom', reconnects: 0 },
+      })
+    })
+  })
+})
@@ -0,0 +1,204 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto'
+import { createModuleLogger, generateId } from '@wqbot/core'
+import { getDatabase } from './database.js'
+import { getSettingsStore } from './settings.js'
+
+const logger = createModuleLogger('api-key-store')
+
+/**
+ * 权限范围，逐级包含：admin ⊇ chat ⊇ read
+ * - read: 只读（列出/导出/搜索对话、查询状态）
+ * - chat: read + 发送消息、OpenAI 兼容接口
+ * - admin: 全部，包括配置、设置和密钥管理
+ */
+export type ApiKeyScope = 'read' | 'chat' | 'admin'
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ['read', 'chat', 'admin']
+
+const SCOPE_LEVEL: Record<ApiKeyScope, number> = { read: 0, chat: 1, admin: 2 }
+
+export function scopeAllows(granted: ApiKeyScope, required: ApiKeyScope): boolean {
+  return SCOPE_LEVEL[granted] >= SCOPE_LEVEL[required]
+}
+
+export interface ApiKey {
+  readonly id: string
+  readonly name: string
+  readonly scope: ApiKeyScope
+  /** 令牌前若干位，便于在列表中辨认 */
+  readonly prefix: string
+  readonly createdAt: Date
+  readonly lastUsedAt?: Date
+  readonly revokedAt?: Date
+}
+
+/**
+ * 认证通过的调用方；keyId 为 null 表示本机管理员令牌
+ */
+export interface AuthIdentity {
+  readonly keyId: string | null
+  readonly name: string
+  readonly scope: ApiKeyScope
+}
+
+interface ApiKeyRow {
+  id: string
+  name: string
+  scope: ApiKeyScope
+  key_hash: string
+  prefix: string
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+const TOKEN_PREFIX = 'wqb_'
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6
+
+function generateToken(): string {
+  return TOKEN_PREFIX + randomBytes(32).toString('base64url')
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function rowToApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    scope: row.scope,
+    prefix: row.prefix,
+    createdAt: new Date(row.created_at),
+    ...(row.last_used_at ? { lastUsedAt: new Date(row.last_used_at) } : {}),
+    ...(row.revoked_at ? { revokedAt: new Date(row.revoked_at) } : {}),
+  }
+}
+
+/**
+ * API 密钥与管理员令牌
+ * 数据库只保存令牌的 sha256，明文仅在创建时返回一次
+ */
+export class ApiKeyStore {
+  /**
+   * 创建密钥，返回的 token 之后无法再次获取
+   */
+  create(name: string, scope: ApiKeyScope): { key: ApiKey; token: string } {
+    if (!API_KEY_SCOPES.includes(scope)) {
+      throw new Error(`Invalid API key scope: ${scope}`)
+    }
+
+    const db = getDatabase()
+    const id = generateId('key')
+    const token = generateToken()
+    const prefix = token.slice(0, DISPLAY_PREFIX_LENGTH)
+    const now = new Date()
+
+    db.run(
+      `INSERT INTO api_keys (id, name, scope, key_hash, prefix, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [id, name, scope, hashToken(token), prefix, now.toISOString()]
+    )
+
+    logger.info('API key created', { id, name, scope })
+    return { key: { id, name, scope, prefix, createdAt: now }, token }
+  }
+
+  list(includeRevoked = false): readonly ApiKey[] {
+    const db = getDatabase()
+    const rows = db.query<ApiKeyRow>(
+      `SELECT * FROM api_keys ${includeRevoked ? '' : 'WHERE revoked_at IS NULL'}
+       ORDER BY created_at`
+    )
+    return rows.map(rowToApiKey)
+  }
+
+  get(id: string): ApiKey | undefined {
+    const db = getDatabase()
+    const row = db.queryOne<ApiKeyRow>('SELECT * FROM api_keys WHERE id = ?', [id])
+    return row ? rowToApiKey(row) : undefined
+  }
+
+  /**
+   * 吊销密钥，返回是否存在且此前未吊销
+   */
+  revoke(id: string): boolean {
+    const db = getDatabase()
+    const row = db.queryOne<ApiKeyRow>(
+      'SELECT * FROM api_keys WHERE id = ? AND revoked_at IS NULL',
+      [id]
+    )
+    if (!row) {
+      return false
+    }
+
+    db.run('UPDATE api_keys SET revoked_at = ? WHERE id = ?', [new Date().toISOString(), id])
+    logger.info('API key revoked', { id, name: row.name })
+    return true
+  }
+
+  /**
+   * 校验 Bearer 令牌：先比对管理员令牌，再查找未吊销的密钥
+   */
+  verify(token: string): AuthIdentity | undefined {
+    const hash = hashToken(token)
+
+    const adminToken = this.getAdminToken()
+    if (adminToken && timingSafeEqual(Buffer.from(hash), Buffer.from(hashToken(adminToken)))) {
+      return { keyId: null, name: 'admin', scope: 'admin' }
+    }
+
+    const db = getDatabase()
+    const row = db.queryOne<ApiKeyRow>(
+      'SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL',
+      [hash]
+    )
+    if (!row) {
+      return undefined
+    }
+
+    db.run('UPDATE api_keys SET last_used_at = ? WHERE id = ?', [new Date().toISOString(), row.id])
+    return { keyId: row.id, name: row.name, scope: row.scope }
+  }
+
+  isAuthEnabled(): boolean {
+    return getSettingsStore().get('authEnabled') === true
+  }
+
+  setAuthEnabled(enabled: boolean): void {
+    getSettingsStore().set('authEnabled', enabled)
+    logger.info(`Authentication ${enabled ? 'enabled' : 'disabled'}`)
+  }
+
+  getAdminToken(): string | undefined {
+    return getSettingsStore().get('adminToken')
+  }
+
+  /**
+   * 获取管理员令牌，不存在时在本地生成
+   */
+  ensureAdminToken(): string {
+    return this.getAdminToken() ?? this.rotateAdminToken()
+  }
+
+  rotateAdminToken(): string {
+    const token = generateToken()
+    getSettingsStore().set('adminToken', token)
+    logger.info('Admin token generated')
+    return token
+  }
+}
+
+// Singleton instance
+let storeInstance: ApiKeyStore | null = null
+
+export function getApiKeyStore(): ApiKeyStore {
+  if (!storeInstance) {
+    storeInstance = new ApiKeyStore()
+  }
+  return storeInstance
+}
+
+export async function initializeApiKeyStore(): Promise<ApiKeyStore> {
+  return getApiKeyStore()
+}
@@ -0,0 +1,95 @@
+import * as path from 'node:path'
+import * as fs from 'node:fs'
+import { createHash } from 'node:crypto'
+import { getConfigManager, createModuleLogger } from '@wqbot/core'
+import type { ContentPart } from '@wqbot/core'
+
+const logger = createModuleLogger('blob-store')
+
+const BLOB_ID_PATTERN = /^[a-f0-9]{64}$/
+
+/**
+ * 附件二进制存储（按内容 sha256 寻址，相同内容只存一份）
+ * 数据库中的消息分段只保存 blobId，避免大字段写入 SQLite
+ */
+export class BlobStore {
+  private readonly baseDir: string
+
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir ?? path.join(getConfigManager().getDataDir(), 'blobs')
+  }
+
+  /**
+   * 写入二进制内容，返回 blobId
+   */
+  put(data: Buffer): string {
+    const blobId = createHash('sha256').update(data).digest('hex')
+    const filePath = this.blobPath(blobId)
+
+    if (!fs.existsSync(filePath)) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, data)
+      logger.debug('Stored blob', { blobId, size: data.length })
+    }
+
+    return blobId
+  }
+
+  get(blobId: string): Buffer | undefined {
+    const filePath = this.blobPath(blobId)
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath) : undefined
+  }
+
+  has(blobId: string): boolean {
+    return fs.existsSync(this.blobPath(blobId))
+  }
+
+  delete(blobId: string): void {
+    const filePath = this.blobPath(blobId)
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath)
+    }
+  }
+
+  /**
+   * 将分段中的 base64 数据落盘，替换为 blobId 引用
+   */
+  persistParts(parts: readonly ContentPart[]): ContentPart[] {
+    return parts.map((part) => {
+      if (part.type === 'text' || !part.data) return part
+      const { data, ...rest } = part
+      return { ...rest, blobId: this.put(Buffer.from(data, 'base64')) }
+    })
+  }
+
+  /**
+   * 将 blobId 引用还原为 base64 数据（发送给模型前使用）
+   */
+  resolveParts(parts: readonly ContentPart[]): ContentPart[] {
+    return parts.map((part) => {
+      if (part.type === 'text' || part.data || !part.blobId) return part
+      const data = this.get(part.blobId)
+      if (!data) {
+        throw new Error(`Blob not found: ${part.blobId}`)
+      }
+      return { ...part, data: data.toString('base64') }
+    })
+  }
+
+  private blobPath(blobId: string): string {
+    if (!BLOB_ID_PATTERN.test(blobId)) {
+      throw new Error(`Invalid blob id: ${blobId}`)
+    }
+    return path.join(this.baseDir, blobId.slice(0, 2), blobId)
+  }
+}
+
+// 单例
+let blobStoreInstance: BlobStore | null = null
+
+export function getBlobStore(): BlobStore {
+  if (!blobStoreInstance) {
+    blobStoreInstance = new BlobStore()
+  }
+  return blobStoreInstance
+}
@@ -1,4 +1,17 @@
-import { createModuleLogger, type ModelContextInfo } from '@wqbot/core'
+import {
+  createModuleLogger,
+  countTokensWithEncoding,
+  getTokenEncoding,
+  type ModelContextInfo,
+  type TokenEncoding,
+} from '@wqbot/core'
+import {
+  HeuristicSummarizer,
+  parseSummaryText,
+  renderSummary,
+  type ConversationSummarizer,
+  type ConversationSummary,
+} from './summarizer.js'
 
 const logger = createModuleLogger('conversation-optimizer')
 
@@ -10,6 +23,7 @@ export interface OptimizerMessage {
   readonly timestamp: Date
   readonly isSummary?: boolean
   readonly tokenCount?: number
+  readonly tokenEncoding?: string | null  // tokenCount 使用的编码，与目标模型不一致时重新计算
 }
 
 // 优化配置
@@ -39,6 +53,7 @@ export interface OptimizationResult {
   readonly pruned: number
   readonly summarized: boolean
   readonly summaryText?: string
+  readonly summary?: ConversationSummary
 }
 
 // 消息重要性评分（保留用于排序）
@@ -55,25 +70,40 @@ export interface MessageImportance {
   }
 }
 
-// 简单的 Token 估算（中英文混合）
-function estimateTokens(text: string): number {
-  const chineseChars = (text.match(/[\u4e00-\u9fff]/g) || []).length
-  const otherChars = text.length - chineseChars
-  return Math.ceil(chineseChars / 1.5 + otherChars / 4)
+const PRUNED_PLACEHOLDER = '[历史内容已清理]'
+
+// 优先使用缓存的 token 数（编码一致时），否则按目标模型的分词器计算
+function messageTokens(msg: OptimizerMessage, encoding: TokenEncoding): number {
+  if (msg.tokenCount !== undefined && (!msg.tokenEncoding || msg.tokenEncoding === encoding)) {
+    return msg.tokenCount
+  }
+  return countTokensWithEncoding(msg.content, encoding)
 }
 
-function estimateMessagesTokens(messages: readonly OptimizerMessage[]): number {
-  return messages.reduce((sum, msg) => sum + (msg.tokenCount ?? estimateTokens(msg.content)), 0)
+function estimateMessagesTokens(
+  messages: readonly OptimizerMessage[],
+  encoding: TokenEncoding
+): number {
+  return messages.reduce((sum, msg) => sum + messageTokens(msg, encoding), 0)
 }
 
 export class ConversationOptimizer {
   private config: OptimizationConfig
   private pinnedMessages: Set<string> = new Set()
+  private summarizer: ConversationSummarizer | null = null
+  private readonly fallbackSummarizer = new HeuristicSummarizer()
 
   constructor(config: Partial<OptimizationConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config }
   }
 
+  /**
+   * 设置摘要器（如 LLMSummarizer）；为 null 时使用启发式摘要
+   */
+  setSummarizer(summarizer: ConversationSummarizer | null): void {
+    this.summarizer = summarizer
+  }
+
   updateConfig(config: Partial<OptimizationConfig>): void {
     this.config = { ...this.config, ...config }
   }
@@ -94,12 +124,12 @@ export class ConversationOptimizer {
     return this.pinnedMessages.has(messageId)
   }
 
-  estimateTokens(text: string): number {
-    return estimateTokens(text)
+  estimateTokens(text: string, modelId?: string): number {
+    return countTokensWithEncoding(text, getTokenEncoding(modelId))
   }
 
-  estimateMessagesTokens(messages: readonly OptimizerMessage[]): number {
-    return estimateMessagesTokens(messages)
+  estimateMessagesTokens(messages: readonly OptimizerMessage[], modelId?: string): number {
+    return estimateMessagesTokens(messages, getTokenEncoding(modelId))
   }
 
   /**
@@ -108,12 +138,16 @@ export class ConversationOptimizer {
    * 阶段 1: 溢出检测 — 不超过可用上下文则直接返回
    * 阶段 2: 长消息修剪 — 截断旧的超长消息
    * 阶段 3: AI 摘要压缩 — 将早期消息压缩为摘要
+   *
+   * modelId 用于选择分词器，未知模型回退到字符估算
    */
   async optimize(
     messages: readonly OptimizerMessage[],
-    modelContext: ModelContext
+    modelContext: ModelContext,
+    modelId?: string
   ): Promise<OptimizationResult> {
-    const originalTokens = estimateMessagesTokens(messages)
+    const encoding = getTokenEncoding(modelId)
+    const originalTokens = estimateMessagesTokens(messages, encoding)
     const usable = modelContext.contextWindow - modelContext.maxOutputTokens
 
     // === 阶段 1: 溢出检测 ===
@@ -131,8 +165,8 @@ export class ConversationOptimizer {
     logger.info('Token 溢出，开始优化', { originalTokens, usable, overflow: originalTokens - usable })
 
     // === 阶段 2: 长消息修剪 ===
-    const pruned = this.pruneLongMessages(messages, usable)
-    const prunedTokens = estimateMessagesTokens(pruned)
+    const pruned = this.pruneLongMessages(messages, encoding)
+    const prunedTokens = estimateMessagesTokens(pruned, encoding)
 
     if (prunedTokens <= usable) {
       logger.info('阶段 2 修剪后 Token 已在范围内', { prunedTokens, usable })
@@ -146,8 +180,12 @@ export class ConversationOptimizer {
     }
 
     // === 阶段 3: AI 摘要压缩 ===
-    const { messages: summarized, summaryText } = this.compressWithSummary(pruned, usable)
-    const summarizedTokens = estimateMessagesTokens(summarized)
+    const {
+      messages: summarized,
+      summaryText,
+      summary,
+    } = await this.compressWithSummary(pruned, usable, encoding, messages)
+    const summarizedTokens = estimateMessagesTokens(summarized, encoding)
 
     logger.info('阶段 3 摘要压缩完成', {
       summarizedTokens,
@@ -162,6 +200,7 @@ export class ConversationOptimizer {
       pruned: messages.length - summarized.length,
       summarized: true,
       summaryText,
+      ...(summary ? { summary } : {}),
     }
   }
 
@@ -173,7 +212,7 @@ export class ConversationOptimizer {
    */
   private pruneLongMessages(
     messages: readonly OptimizerMessage[],
-    _usable: number
+    encoding: TokenEncoding
   ): readonly OptimizerMessage[] {
     const { pruneProtect, pruneMinimum, longMessageThreshold, recentRoundsProtect } = this.config
 
@@ -199,7 +238,7 @@ export class ConversationOptimizer {
 
     for (let i = messages.length - 1; i >= 0; i--) {
       const msg = messages[i]!
-      const msgTokens = msg.tokenCount ?? estimateTokens(msg.content)
+      const msgTokens = messageTokens(msg, encoding)
       accumulatedTokens += msgTokens
 
       // 在保护区内不修剪
@@ -209,7 +248,7 @@ export class ConversationOptimizer {
 
       if (accumulatedTokens > pruneProtect && msgTokens > longMessageThreshold) {
         pruneTargets.add(i)
-        potentialSavings += msgTokens - estimateTokens('[历史内容已清理]')
+        potentialSavings += msgTokens - countTokensWithEncoding(PRUNED_PLACEHOLDER, encoding)
       }
     }
 
@@ -223,8 +262,9 @@ export class ConversationOptimizer {
       if (pruneTargets.has(i)) {
         return {
           ...msg,
-          content: '[历史内容已清理]',
-          tokenCount: estimateTokens('[历史内容已清理]'),
+          content: PRUNED_PLACEHOLDER,
+          tokenCount: countTokensWithEncoding(PRUNED_PLACEHOLDER, encoding),
+          tokenEncoding: encoding,
         }
       }
       return msg
@@ -235,12 +275,18 @@ export class ConversationOptimizer {
    * 阶段 3: 摘要压缩
    *
    * 将早期消息替换为一条摘要消息。
-   * 当前使用简单文本拼接，后续可接入 AI 生成摘要。
+   * 已有的结构化摘要作为上一轮摘要传给摘要器做增量合并。
    */
-  private compressWithSummary(
+  private async compressWithSummary(
     messages: readonly OptimizerMessage[],
-    usable: number
-  ): { messages: readonly OptimizerMessage[]; summaryText: string } {
+    usable: number,
+    encoding: TokenEncoding,
+    originals: readonly OptimizerMessage[] = messages
+  ): Promise<{
+    messages: readonly OptimizerMessage[]
+    summaryText: string
+    summary?: ConversationSummary
+  }> {
     // 从最新消息向前保留，直到 token 接近 usable 的 80%
     const targetTokens = Math.floor(usable * 0.8)
     let keptTokens = 0
@@ -248,7 +294,7 @@ export class ConversationOptimizer {
 
     for (let i = messages.length - 1; i >= 0; i--) {
       const msg = messages[i]!
-      const msgTokens = msg.tokenCount ?? estimateTokens(msg.content)
+      const msgTokens = messageTokens(msg, encoding)
       if (keptTokens + msgTokens > targetTokens) {
         splitIndex = i + 1
         break
@@ -269,8 +315,12 @@ export class ConversationOptimizer {
       return { messages, summaryText: '' }
     }
 
-    // 生成摘要文本
-    const summaryText = this.generateSummaryText(removedMessages)
+    // 生成摘要文本（使用修剪前的原始内容，避免丢失被清理的长消息）
+    const originalById = new Map(originals.map((m) => [m.id, m]))
+    const summary = await this.generateSummary(
+      removedMessages.map((m) => originalById.get(m.id) ?? m)
+    )
+    const summaryText = renderSummary(summary, removedMessages.length)
 
     const summaryMessage: OptimizerMessage = {
       id: `summary-${Date.now()}`,
@@ -278,44 +328,49 @@ export class ConversationOptimizer {
       content: summaryText,
       timestamp: new Date(),
       isSummary: true,
-      tokenCount: estimateTokens(summaryText),
+      tokenCount: countTokensWithEncoding(summaryText, encoding),
+      tokenEncoding: encoding,
     }
 
     return {
       messages: [summaryMessage, ...keptMessages],
       summaryText,
+      summary,
     }
   }
 
   /**
-   * 生成摘要文本（简化版）
-   * TODO: 接入 AI 小模型生成更精确的摘要
+   * 生成结构化摘要：优先使用配置的摘要器，失败时回退到启发式摘要
    */
-  private generateSummaryText(messages: readonly OptimizerMessage[]): string {
-    const userMessages = messages.filter(m => m.role === 'user')
-    const assistantMessages = messages.filter(m => m.role === 'assistant')
-
-    // 提取用户提问的关键主题
-    const topics: string[] = []
-    for (const msg of userMessages) {
-      const firstLine = (msg.content.split('\n')[0] ?? '').slice(0, 80)
-      if (firstLine.trim()) {
-        topics.push(firstLine.trim())
+  private async generateSummary(
+    messages: readonly OptimizerMessage[]
+  ): Promise<ConversationSummary> {
+    // 最近一条可解析的摘要消息作为增量基础，其之前的消息已包含在内
+    let previous: ConversationSummary | undefined
+    let startIndex = 0
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const msg = messages[i]!
+      if (!msg.isSummary) continue
+      previous = parseSummaryText(msg.content)
+      if (previous) {
+        startIndex = i + 1
+        break
+      }
+    }
+
+    const toSummarize = messages.slice(startIndex)
+
+    if (this.summarizer) {
+      try {
+        return await this.summarizer.summarize(toSummarize, previous)
+      } catch (error) {
+        logger.warn('摘要器失败，回退到启发式摘要', {
+          error: error instanceof Error ? error.message : String(error),
+        })
       }
     }
 
-    const topicSummary = topics.length > 0
-      ? topics.slice(0, 5).map(t => `- ${t}`).join('\n')
-      : '（无具体主题）'
-
-    return [
-      `[对话历史摘要] 以下是之前 ${messages.length} 条消息的摘要（${userMessages.length} 条用户消息，${assistantMessages.length} 条助手回复）：`,
-      '',
-      '用户讨论的主题：',
-      topicSummary,
-      '',
-      '请基于以上摘要继续对话。',
-    ].join('\n')
+    return this.fallbackSummarizer.summarize(toSummarize, previous)
   }
 }
 
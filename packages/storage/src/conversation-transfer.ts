@@ -0,0 +1,577 @@
+import { z } from 'zod'
+import type { ContentPart, MessageRole } from '@wqbot/core'
+
+// 导出格式：json 为对话快照，wqbot 为可无损导入的归档
+export type ExportFormat = 'json' | 'md' | 'html' | 'jsonl' | 'wqbot'
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['json', 'md', 'html', 'jsonl', 'wqbot']
+
+export const ARCHIVE_FORMAT = 'wqbot-archive'
+export const ARCHIVE_VERSION = 1
+
+// 归档中的消息：完整保留消息树、标记、元数据和 token 缓存
+export interface ArchiveMessage {
+  readonly id: string
+  readonly parentId: string | null
+  readonly role: MessageRole
+  readonly content: string
+  readonly parts?: readonly ContentPart[] | undefined
+  readonly timestamp: string
+  readonly metadata?: Record<string, unknown> | undefined
+  readonly compactedAt?: string | undefined
+  readonly isSummary?: boolean | undefined
+  readonly isPinned?: boolean | undefined
+  readonly tokenCount?: number | undefined
+  readonly tokenEncoding?: string | undefined
+}
+
+export interface ArchiveBranch {
+  readonly id: string
+  readonly name: string
+  readonly headMessageId: string | null
+  readonly createdAt: string
+  readonly updatedAt: string
+}
+
+export interface ConversationArchive {
+  readonly format: typeof ARCHIVE_FORMAT
+  readonly version: number
+  readonly exportedAt: string
+  readonly conversation: {
+    readonly id: string
+    readonly title: string
+    readonly createdAt: string
+    readonly updatedAt: string
+    readonly metadata?: Record<string, unknown> | undefined
+    readonly activeBranchId: string | null
+  }
+  readonly branches: readonly ArchiveBranch[]
+  readonly messages: readonly ArchiveMessage[]
+  // 附件内容：blobId → base64
+  readonly blobs?: Readonly<Record<string, string>> | undefined
+}
+
+// 导入数据无法识别或校验失败
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportError'
+  }
+}
+
+// ---- 路径 ----
+
+function pathTo(
+  headId: string | null,
+  byId: ReadonlyMap<string, ArchiveMessage>
+): ArchiveMessage[] {
+  const path: ArchiveMessage[] = []
+  const seen = new Set<string>()
+  let current = headId ? byId.get(headId) : undefined
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    path.unshift(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path
+}
+
+/**
+ * 活动分支从根到 head 的全部消息（含已压缩消息），摘要插在它覆盖的消息之后
+ */
+function activeTranscript(archive: ConversationArchive): ArchiveMessage[] {
+  const byId = new Map(archive.messages.map((m) => [m.id, m]))
+  const branch =
+    archive.branches.find((b) => b.id === archive.conversation.activeBranchId) ??
+    archive.branches[0]
+  const path = pathTo(branch?.headMessageId ?? null, byId)
+
+  const summaries = new Map<string, ArchiveMessage[]>()
+  for (const message of archive.messages) {
+    if (!message.isSummary || !message.parentId) continue
+    summaries.set(message.parentId, [...(summaries.get(message.parentId) ?? []), message])
+  }
+
+  return path.flatMap((message) => [message, ...(summaries.get(message.id) ?? [])])
+}
+
+function activeBranchName(archive: ConversationArchive): string | undefined {
+  return archive.branches.find((b) => b.id === archive.conversation.activeBranchId)?.name
+}
+
+// ---- Markdown ----
+
+const ROLE_LABELS: Record<MessageRole, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+}
+
+function attachmentName(part: Exclude<ContentPart, { type: 'text' }>): string {
+  return part.type === 'file' ? (part.filename ?? part.mimeType) : part.mimeType
+}
+
+function messageModel(message: ArchiveMessage): string | undefined {
+  const model = message.metadata?.model
+  return typeof model === 'string' ? model : undefined
+}
+
+/**
+ * 渲染为 Markdown（活动分支，含系统消息、摘要和标记）
+ */
+export function renderMarkdown(archive: ConversationArchive): string {
+  const { conversation } = archive
+  let md = `# ${conversation.title}\n\n`
+  md += `*Created: ${new Date(conversation.createdAt).toLocaleString()}*\n\n`
+  const branchName = activeBranchName(archive)
+  if (branchName && branchName !== 'main') {
+    md += `*Branch: ${branchName}*\n\n`
+  }
+  md += `---\n\n`
+
+  for (const message of activeTranscript(archive)) {
+    const label = message.isSummary ? 'Summary' : ROLE_LABELS[message.role]
+    const details = [
+      new Date(message.timestamp).toLocaleTimeString(),
+      messageModel(message),
+      message.compactedAt ? 'compacted' : undefined,
+    ].filter(Boolean)
+    md += `**${label}**${message.isPinned ? ' 📌' : ''} (${details.join(' · ')}):\n\n`
+    md += `${message.content}\n\n`
+    for (const part of message.parts ?? []) {
+      if (part.type !== 'text') md += `📎 ${attachmentName(part)}\n\n`
+    }
+    md += `---\n\n`
+  }
+
+  return md
+}
+
+// ---- HTML ----
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const HTML_STYLE = `body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",sans-serif;max-width:820px;margin:2rem auto;padding:0 1rem;color:#1f2328;background:#fff}
+h1{font-size:1.5rem;margin-bottom:.25rem}.meta{color:#6e7781;font-size:.85rem}
+.message{border:1px solid #d0d7de;border-radius:8px;padding:.75rem 1rem;margin:1rem 0}
+.message.user{background:#f6f8fa}.message.system,.message.summary{background:#fff8c5;border-color:#d4a72c}
+.message.compacted{opacity:.6}.header{font-size:.8rem;color:#6e7781;margin-bottom:.5rem}
+.role{font-weight:600;color:#1f2328;margin-right:.5rem}.content{white-space:pre-wrap;word-wrap:break-word}
+.attachments img{max-width:100%;border-radius:4px;margin-top:.5rem}.attachments a{display:block;margin-top:.5rem}`
+
+// 附件链接只允许这些协议，避免 javascript: 等 URL 在导出的 HTML 中执行
+const SAFE_URL_PATTERN = /^(https?:|data:)/i
+
+function isSafeUrl(url: string): boolean {
+  return SAFE_URL_PATTERN.test(url.trim())
+}
+
+function renderHtmlPart(
+  part: Exclude<ContentPart, { type: 'text' }>,
+  blobs: Readonly<Record<string, string>>
+): string {
+  const data = part.data ?? (part.blobId ? blobs[part.blobId] : undefined)
+  const src = data ? `data:${part.mimeType};base64,${data}` : (part.url ?? '')
+  const name = escapeHtml(attachmentName(part))
+  if (!isSafeUrl(src)) {
+    return `<span>📎 ${name}</span>`
+  }
+  if (part.type === 'image') {
+    return `<img src="${escapeHtml(src)}" alt="">`
+  }
+  return `<a href="${escapeHtml(src)}" download="${name}">📎 ${name}</a>`
+}
+
+/**
+ * 渲染为自包含 HTML（样式内联，附件以 data URL 嵌入）
+ */
+export function renderHtml(archive: ConversationArchive): string {
+  const { conversation } = archive
+  const blobs = archive.blobs ?? {}
+  const branchName = activeBranchName(archive)
+
+  const messages = activeTranscript(archive).map((message) => {
+    const classes = [
+      'message',
+      message.role,
+      message.isSummary ? 'summary' : '',
+      message.compactedAt ? 'compacted' : '',
+    ].filter(Boolean)
+    const label = message.isSummary ? 'Summary' : ROLE_LABELS[message.role]
+    const model = messageModel(message)
+    const attachments = (message.parts ?? [])
+      .filter((part): part is Exclude<ContentPart, { type: 'text' }> => part.type !== 'text')
+      .map((part) => renderHtmlPart(part, blobs))
+
+    return [
+      `<div class="${classes.join(' ')}" id="${escapeHtml(message.id)}">`,
+      `<div class="header"><span class="role">${label}</span>`,
+      `<time datetime="${escapeHtml(message.timestamp)}">${escapeHtml(new Date(message.timestamp).toLocaleString())}</time>`,
+      model ? ` · ${escapeHtml(model)}` : '',
+      message.isPinned ? ' · 📌' : '',
+      `</div>`,
+      `<div class="content">${escapeHtml(message.content)}</div>`,
+      attachments.length > 0 ? `<div class="attachments">${attachments.join('')}</div>` : '',
+      `</div>`,
+    ].join('')
+  })
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">Created: ${escapeHtml(new Date(conversation.createdAt).toLocaleString())}${
+    branchName && branchName !== 'main' ? ` · Branch: ${escapeHtml(branchName)}` : ''
+  }</p>
+${messages.join('\n')}
+</body>
+</html>
+`
+}
+
+// ---- JSONL（OpenAI 微调格式） ----
+
+/**
+ * 渲染为 OpenAI 微调 JSONL：每个分支一行 {"messages": [...]}
+ * 摘要不属于真实对话，跳过；没有助手回复的分支无法用于训练，跳过
+ */
+export function renderFineTuneJsonl(archive: ConversationArchive): string {
+  const byId = new Map(archive.messages.map((m) => [m.id, m]))
+  const lines = new Set<string>()
+
+  for (const branch of archive.branches) {
+    const messages = pathTo(branch.headMessageId, byId)
+      .filter((m) => !m.isSummary)
+      .map((m) => ({ role: m.role, content: m.content }))
+    if (!messages.some((m) => m.role === 'assistant')) continue
+    lines.add(JSON.stringify({ messages }))
+  }
+
+  return lines.size > 0 ? `${[...lines].join('\n')}\n` : ''
+}
+
+// ---- 导入 ----
+
+const AttachmentUrlSchema = z
+  .string()
+  .refine(isSafeUrl, 'Attachment URL must use http, https or data')
+
+const ContentPartSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string() }),
+  z.object({
+    type: z.literal('image'),
+    mimeType: z.string(),
+    data: z.string().optional(),
+    url: AttachmentUrlSchema.optional(),
+    blobId: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('file'),
+    mimeType: z.string(),
+    filename: z.string().optional(),
+    data: z.string().optional(),
+    url: AttachmentUrlSchema.optional(),
+    blobId: z.string().optional(),
+  }),
+])
+
+const ArchiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().max(ARCHIVE_VERSION),
+  exportedAt: z.string(),
+  conversation: z.object({
+    id: z.string(),
+    title: z.string(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    metadata: z.record(z.unknown()).optional(),
+    activeBranchId: z.string().nullable(),
+  }),
+  branches: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      headMessageId: z.string().nullable(),
+      createdAt: z.string(),
+      updatedAt: z.string(),
+    })
+  ),
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      parentId: z.string().nullable(),
+      role: z.enum(['user', 'assistant', 'system']),
+      content: z.string(),
+      parts: z.array(ContentPartSchema).optional(),
+      timestamp: z.string(),
+      metadata: z.record(z.unknown()).optional(),
+      compactedAt: z.string().optional(),
+      isSummary: z.boolean().optional(),
+      isPinned: z.boolean().optional(),
+      tokenCount: z.number().optional(),
+      tokenEncoding: z.string().optional(),
+    })
+  ),
+  blobs: z.record(z.string()).optional(),
+})
+
+// ChatGPT 数据导出（conversations.json）：mapping 为消息树，current_node 为当前显示的叶子
+const ChatGPTConversationSchema = z.object({
+  title: z.string().nullable().optional(),
+  create_time: z.number(),
+  update_time: z.number().nullable().optional(),
+  current_node: z.string().nullable().optional(),
+  mapping: z.record(
+    z.object({
+      parent: z.string().nullable().optional(),
+      message: z
+        .object({
+          author: z.object({ role: z.string() }),
+          create_time: z.number().nullable().optional(),
+          content: z.object({
+            parts: z.array(z.unknown()).optional(),
+            text: z.string().optional(),
+          }),
+          metadata: z.record(z.unknown()).optional(),
+        })
+        .nullable()
+        .optional(),
+    })
+  ),
+})
+
+// Claude 数据导出（conversations.json）：新版导出带 parent_message_uuid，旧版为线性列表
+const ClaudeConversationSchema = z.object({
+  uuid: z.string(),
+  name: z.string().nullable().optional(),
+  created_at: z.string(),
+  updated_at: z.string().optional(),
+  chat_messages: z.array(
+    z.object({
+      uuid: z.string(),
+      sender: z.enum(['human', 'assistant']),
+      text: z.string().optional(),
+      content: z.array(z.object({ type: z.string(), text: z.string().optional() })).optional(),
+      created_at: z.string(),
+      parent_message_uuid: z.string().optional(),
+      attachments: z
+        .array(
+          z.object({
+            file_name: z.string(),
+            file_type: z.string().optional(),
+            extracted_content: z.string().optional(),
+          })
+        )
+        .optional(),
+    })
+  ),
+})
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseWith<T>(schema: z.ZodType<T>, value: unknown, source: string): T {
+  const result = schema.safeParse(value)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    throw new ImportError(
+      `Invalid ${source} data${issue ? ` at ${issue.path.join('.') || '(root)'}: ${issue.message}` : ''}`
+    )
+  }
+  return result.data
+}
+
+function toIso(seconds: number | null | undefined, fallback: string): string {
+  return seconds ? new Date(seconds * 1000).toISOString() : fallback
+}
+
+/**
+ * 由消息列表构建分支：preferredHead 所在路径为 main，其余叶子各建一个分支
+ */
+function buildBranches(
+  messages: readonly ArchiveMessage[],
+  preferredHead: string | undefined,
+  timestamp: string
+): { branches: ArchiveBranch[]; activeBranchId: string | null } {
+  const parents = new Set(messages.map((m) => m.parentId).filter(Boolean))
+  const leaves = messages.filter((m) => !m.isSummary && !parents.has(m.id)).map((m) => m.id)
+  const mainHead = preferredHead ?? leaves.at(-1) ?? null
+
+  const heads = [mainHead, ...leaves.filter((id) => id !== mainHead)]
+  const branches = heads.map((head, index) => ({
+    id: `branch-${index + 1}`,
+    name: index === 0 ? 'main' : `branch-${index + 1}`,
+    headMessageId: head,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }))
+  return { branches, activeBranchId: branches[0]!.id }
+}
+
+function fromChatGPT(value: unknown): ConversationArchive {
+  const data = parseWith(ChatGPTConversationSchema, value, 'ChatGPT export')
+  const createdAt = toIso(data.create_time, new Date().toISOString())
+
+  // 跳过空节点、工具消息和隐藏的系统消息，子节点接到最近的保留祖先上
+  const kept = new Map<string, ArchiveMessage>()
+  const keptAncestor = (nodeId: string | null | undefined): string | null => {
+    const seen = new Set<string>()
+    let current = nodeId
+    while (current && !seen.has(current)) {
+      seen.add(current)
+      if (kept.has(current)) return current
+      current = data.mapping[current]?.parent
+    }
+    return null
+  }
+
+  const candidates: { id: string; message: ArchiveMessage }[] = []
+  for (const [id, node] of Object.entries(data.mapping)) {
+    const message = node.message
+    if (!message) continue
+    const role = message.author.role
+    if (role !== 'user' && role !== 'assistant' && role !== 'system') continue
+    if (message.metadata?.is_visually_hidden_from_conversation) continue
+
+    const content =
+      message.content.parts?.filter((p): p is string => typeof p === 'string').join('\n') ??
+      message.content.text ??
+      ''
+    if (!content.trim()) continue
+
+    const model = message.metadata?.model_slug
+    candidates.push({
+      id,
+      message: {
+        id,
+        parentId: null,
+        role,
+        content,
+        timestamp: toIso(message.create_time, createdAt),
+        ...(typeof model === 'string' ? { metadata: { model } } : {}),
+      },
+    })
+  }
+  for (const { id, message } of candidates) kept.set(id, message)
+
+  const messages = candidates.map(({ message }) => ({
+    ...message,
+    parentId: keptAncestor(data.mapping[message.id]?.parent),
+  }))
+  const updatedAt = toIso(data.update_time, createdAt)
+  const { branches, activeBranchId } = buildBranches(
+    messages,
+    keptAncestor(data.current_node) ?? undefined,
+    updatedAt
+  )
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: updatedAt,
+    conversation: {
+      id: data.current_node ?? createdAt,
+      title: data.title || 'ChatGPT conversation',
+      createdAt,
+      updatedAt,
+      metadata: { importedFrom: 'chatgpt' },
+      activeBranchId,
+    },
+    branches,
+    messages,
+  }
+}
+
+// Claude 导出中表示"无父消息"的占位 UUID
+const CLAUDE_ROOT_UUID = '00000000-0000-4000-8000-000000000000'
+
+function fromClaude(value: unknown): ConversationArchive {
+  const data = parseWith(ClaudeConversationSchema, value, 'Claude export')
+  const ids = new Set(data.chat_messages.map((m) => m.uuid))
+  const hasTree = data.chat_messages.some((m) => m.parent_message_uuid !== undefined)
+
+  const messages = data.chat_messages.map((message, index): ArchiveMessage => {
+    const text =
+      message.content
+        ?.filter((c) => c.type === 'text' && c.text)
+        .map((c) => c.text)
+        .join('\n') ||
+      message.text ||
+      ''
+    const parts: ContentPart[] = (message.attachments ?? [])
+      .filter((a) => a.extracted_content)
+      .map((a) => ({
+        type: 'file',
+        mimeType: a.file_type || 'text/plain',
+        filename: a.file_name,
+        data: Buffer.from(a.extracted_content!).toString('base64'),
+      }))
+
+    const parent = hasTree ? message.parent_message_uuid : data.chat_messages[index - 1]?.uuid
+    return {
+      id: message.uuid,
+      parentId: parent && parent !== CLAUDE_ROOT_UUID && ids.has(parent) ? parent : null,
+      role: message.sender === 'human' ? 'user' : 'assistant',
+      content: text,
+      ...(parts.length > 0 ? { parts: [{ type: 'text', text }, ...parts] } : {}),
+      timestamp: message.created_at,
+    }
+  })
+
+  const updatedAt = data.updated_at ?? data.created_at
+  // 最新的消息所在路径作为 main
+  const latest = [...messages].sort((a, b) => a.timestamp.localeCompare(b.timestamp)).at(-1)
+  const { branches, activeBranchId } = buildBranches(messages, latest?.id, updatedAt)
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: updatedAt,
+    conversation: {
+      id: data.uuid,
+      title: data.name || 'Claude conversation',
+      createdAt: data.created_at,
+      updatedAt,
+      metadata: { importedFrom: 'claude' },
+      activeBranchId,
+    },
+    branches,
+    messages,
+  }
+}
+
+/**
+ * 解析导入数据，识别 WQBot 归档、ChatGPT 和 Claude 数据导出（单个对话或对话数组）
+ */
+export function parseImport(input: unknown): ConversationArchive[] {
+  const items = Array.isArray(input) ? input : [input]
+  if (items.length === 0) {
+    throw new ImportError('Nothing to import')
+  }
+
+  return items.map((item, index) => {
+    if (!isRecord(item)) {
+      throw new ImportError(`Unsupported import format at item ${index}`)
+    }
+    if (item.format === ARCHIVE_FORMAT) {
+      return parseWith(ArchiveSchema, item, 'WQBot archive') as ConversationArchive
+    }
+    if ('mapping' in item) return fromChatGPT(item)
+    if ('chat_messages' in item) return fromClaude(item)
+    throw new ImportError(`Unsupported import format at item ${index}`)
+  })
+}
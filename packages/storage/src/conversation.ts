@@ -1,6 +1,25 @@
 import { getDatabase } from './database.js'
-import { createModuleLogger, generateId } from '@wqbot/core'
-import type { Message, Conversation, MessageRole } from '@wqbot/core'
+import {
+  createModuleLogger,
+  generateId,
+  countTokensWithEncoding,
+  getTokenEncoding,
+  DEFAULT_TOKEN_ENCODING,
+} from '@wqbot/core'
+import type { Message, Conversation, MessageRole, ContentPart } from '@wqbot/core'
+import { getBlobStore } from './blob-store.js'
+import { buildFtsQuery, highlightSnippet } from './fts.js'
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  parseImport,
+  renderFineTuneJsonl,
+  renderHtml,
+  renderMarkdown,
+  type ArchiveMessage,
+  type ConversationArchive,
+  type ExportFormat,
+} from './conversation-transfer.js'
 
 const logger = createModuleLogger('conversation-store')
 
@@ -11,6 +30,16 @@ interface ConversationRow {
   created_at: string
   updated_at: string
   metadata: string | null
+  active_branch_id: string | null
+}
+
+interface BranchRow {
+  id: string
+  conversation_id: string
+  name: string
+  head_message_id: string | null
+  created_at: string
+  updated_at: string
 }
 
 interface MessageRow {
@@ -23,18 +52,95 @@ interface MessageRow {
   compacted_at: string | null
   is_summary: number
   token_count: number | null
+  token_encoding: string | null
   is_pinned: number
+  parts: string | null
+  parent_id: string | null
+}
+
+// 命名分支：指向消息树中某个叶子（head）的指针
+export interface ConversationBranch {
+  readonly id: string
+  readonly conversationId: string
+  readonly name: string
+  readonly headMessageId: string | undefined
+  readonly createdAt: Date
+  readonly updatedAt: Date
+  readonly isActive: boolean
+}
+
+// 分支/消息树操作的错误（not_found: 消息或分支不存在，conflict: 分支重名）
+export class BranchError extends Error {
+  constructor(
+    message: string,
+    readonly code: 'not_found' | 'conflict'
+  ) {
+    super(message)
+    this.name = 'BranchError'
+  }
 }
 
 export interface SearchResult {
   readonly conversationId: string
   readonly conversationTitle: string
   readonly messageId: string
+  readonly role: MessageRole
   readonly content: string
+  readonly snippet: string // 命中片段，匹配词以 <mark></mark> 包裹
   readonly timestamp: Date
-  readonly relevance: number
+  readonly isPinned: boolean
+  readonly relevance: number // BM25 分数取反，越大越相关
+}
+
+export interface SearchOptions {
+  readonly limit?: number
+  readonly role?: MessageRole
+  readonly conversationId?: string
+  readonly pinned?: boolean
+  readonly from?: Date
+  readonly to?: Date
+}
+
+function parseParts(raw: string | null): readonly ContentPart[] | undefined {
+  return raw ? (JSON.parse(raw) as ContentPart[]) : undefined
+}
+
+function toMessage(row: MessageRow, siblingIds?: readonly string[]): Message {
+  return {
+    id: row.id,
+    role: row.role as MessageRole,
+    content: row.content,
+    parts: parseParts(row.parts),
+    timestamp: new Date(row.timestamp),
+    metadata: row.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : undefined,
+    compactedAt: row.compacted_at ? new Date(row.compacted_at) : undefined,
+    isSummary: row.is_summary === 1,
+    tokenCount: row.token_count ?? undefined,
+    isPinned: row.is_pinned === 1,
+    parentId: row.parent_id ?? undefined,
+    ...(siblingIds && siblingIds.length > 1 ? { siblingIds } : {}),
+  }
 }
 
+function toBranch(row: BranchRow, activeBranchId: string | null | undefined): ConversationBranch {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    name: row.name,
+    headMessageId: row.head_message_id ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    isActive: row.id === activeBranchId,
+  }
+}
+
+// 从 head 沿 parent_id 向上遍历得到分支路径（depth 0 为 head）
+const PATH_CTE = `WITH RECURSIVE path(id, parent_id, depth) AS (
+  SELECT id, parent_id, 0 FROM messages WHERE id = ?
+  UNION ALL
+  SELECT m.id, m.parent_id, path.depth + 1 FROM messages m JOIN path ON m.id = path.parent_id
+)`
+
 export class ConversationStore {
   /**
    * Create a new conversation
@@ -45,12 +151,18 @@ export class ConversationStore {
     const now = new Date().toISOString()
     const conversationTitle = title ?? `Conversation ${new Date().toLocaleDateString()}`
 
-    db.run('INSERT INTO conversations (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)', [
-      id,
-      conversationTitle,
-      now,
-      now,
-    ])
+    const branchId = generateId('branch')
+
+    db.transaction(() => {
+      db.run(
+        'INSERT INTO conversations (id, title, created_at, updated_at, active_branch_id) VALUES (?, ?, ?, ?, ?)',
+        [id, conversationTitle, now, now, branchId]
+      )
+      db.run(
+        'INSERT INTO conversation_branches (id, conversation_id, name, head_message_id, created_at, updated_at) VALUES (?, ?, ?, NULL, ?, ?)',
+        [branchId, id, 'main', now, now]
+      )
+    })
 
     logger.debug('Created conversation', { conversationId: id, title: conversationTitle })
 
@@ -60,6 +172,7 @@ export class ConversationStore {
       createdAt: new Date(now),
       updatedAt: new Date(now),
       messages: [],
+      activeBranchId: branchId,
     }
   }
 
@@ -85,6 +198,8 @@ export class ConversationStore {
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
       messages,
+      activeBranchId: row.active_branch_id ?? undefined,
+      metadata: row.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : undefined,
     }
   }
 
@@ -122,6 +237,44 @@ export class ConversationStore {
     ])
   }
 
+  /**
+   * Get conversation-level settings (e.g. RAG mode); empty when none are set
+   * Returns undefined if the conversation does not exist
+   */
+  getConversationMetadata(conversationId: string): Record<string, unknown> | undefined {
+    const row = getDatabase().queryOne<{ metadata: string | null }>(
+      'SELECT metadata FROM conversations WHERE id = ?',
+      [conversationId]
+    )
+    if (!row) return undefined
+    return row.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : {}
+  }
+
+  /**
+   * Merge keys into conversation metadata; null values remove the key
+   * Returns the updated metadata, or undefined if the conversation does not exist
+   */
+  updateConversationMetadata(
+    conversationId: string,
+    patch: Record<string, unknown>
+  ): Record<string, unknown> | undefined {
+    const current = this.getConversationMetadata(conversationId)
+    if (!current) return undefined
+
+    const metadata: Record<string, unknown> = { ...current }
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) delete metadata[key]
+      else metadata[key] = value
+    }
+
+    getDatabase().run('UPDATE conversations SET metadata = ?, updated_at = ? WHERE id = ?', [
+      Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null,
+      new Date().toISOString(),
+      conversationId,
+    ])
+    return metadata
+  }
+
   /**
    * Delete a conversation and all its messages
    */
@@ -130,6 +283,7 @@ export class ConversationStore {
 
     db.transaction(() => {
       db.run('DELETE FROM messages WHERE conversation_id = ?', [conversationId])
+      db.run('DELETE FROM conversation_branches WHERE conversation_id = ?', [conversationId])
       db.run('DELETE FROM conversations WHERE id = ?', [conversationId])
     })
 
@@ -141,7 +295,16 @@ export class ConversationStore {
    */
   addMessage(
     conversationId: string,
-    message: { role: MessageRole; content: string; metadata?: Record<string, unknown> }
+    message: {
+      role: MessageRole
+      content: string
+      parts?: readonly ContentPart[]
+      metadata?: Record<string, unknown>
+      /** 用于选择分词器计算 token_count，未指定时使用默认编码 */
+      model?: string
+      /** 父消息，未指定时接在活动分支末尾 */
+      parentId?: string
+    }
   ): Message
   addMessage(
     conversationId: string,
@@ -153,7 +316,14 @@ export class ConversationStore {
     conversationId: string,
     roleOrMessage:
       | MessageRole
-      | { role: MessageRole; content: string; metadata?: Record<string, unknown> },
+      | {
+          role: MessageRole
+          content: string
+          parts?: readonly ContentPart[]
+          metadata?: Record<string, unknown>
+          model?: string
+          parentId?: string
+        },
     content?: string,
     metadata?: Record<string, unknown>
   ): Message {
@@ -165,20 +335,36 @@ export class ConversationStore {
     let role: MessageRole
     let messageContent: string
     let messageMetadata: Record<string, unknown> | undefined
+    let messageParts: ContentPart[] | undefined
+    let model: string | undefined
+    let explicitParentId: string | undefined
 
     if (typeof roleOrMessage === 'object') {
       role = roleOrMessage.role
       messageContent = roleOrMessage.content
       messageMetadata = roleOrMessage.metadata
+      model = roleOrMessage.model
+      explicitParentId = roleOrMessage.parentId
+      // 附件数据写入 blob 存储，数据库只保留引用
+      if (roleOrMessage.parts && roleOrMessage.parts.length > 0) {
+        messageParts = getBlobStore().persistParts(roleOrMessage.parts)
+      }
     } else {
       role = roleOrMessage
       messageContent = content!
       messageMetadata = metadata
     }
 
+    // 写入时计算并缓存 token 数，优化器编码一致时直接复用
+    const tokenEncoding = getTokenEncoding(model)
+    const tokenCount = countTokensWithEncoding(messageContent, tokenEncoding)
+
+    const branch = this.getActiveBranchRow(conversationId)
+    const parentId = explicitParentId ?? branch?.head_message_id ?? null
+
     db.transaction(() => {
       db.run(
-        'INSERT INTO messages (id, conversation_id, role, content, timestamp, metadata) VALUES (?, ?, ?, ?, ?, ?)',
+        'INSERT INTO messages (id, conversation_id, role, content, timestamp, metadata, parts, token_count, token_encoding, parent_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
         [
           id,
           conversationId,
@@ -186,10 +372,15 @@ export class ConversationStore {
           messageContent,
           now,
           messageMetadata ? JSON.stringify(messageMetadata) : null,
+          messageParts ? JSON.stringify(messageParts) : null,
+          tokenCount,
+          tokenEncoding,
+          parentId,
         ]
       )
 
       db.run('UPDATE conversations SET updated_at = ? WHERE id = ?', [now, conversationId])
+      this.advanceBranch(conversationId, branch, parentId, id, now)
     })
 
     logger.debug('Added message', { conversationId, messageId: id, role })
@@ -198,80 +389,86 @@ export class ConversationStore {
       id,
       role,
       content: messageContent,
+      parts: messageParts,
       timestamp: new Date(now),
       metadata: messageMetadata,
+      tokenCount,
+      parentId: parentId ?? undefined,
     }
   }
 
   /**
-   * Get all messages for a conversation
-   * 从最新消息向前加载，遇到 is_summary=1 的消息停止加载更早消息
+   * 新消息接在活动分支 head 上时前移 head；
+   * 否则（如流式回复期间切换了分支）为其单独建分支，避免消息不可达
    */
-  getMessages(conversationId: string): readonly Message[] {
+  private advanceBranch(
+    conversationId: string,
+    branch: BranchRow | undefined,
+    parentId: string | null,
+    messageId: string,
+    now: string
+  ): void {
     const db = getDatabase()
 
-    // 先查找最近的摘要消息
-    const summaryRow = db.queryOne<MessageRow>(
-      'SELECT * FROM messages WHERE conversation_id = ? AND is_summary = 1 ORDER BY timestamp DESC LIMIT 1',
-      [conversationId]
-    )
-
-    let rows: MessageRow[]
-    if (summaryRow) {
-      // 加载摘要消息及其之后的所有消息
-      rows = db.query<MessageRow>(
-        'SELECT * FROM messages WHERE conversation_id = ? AND timestamp >= ? ORDER BY timestamp ASC',
-        [conversationId, summaryRow.timestamp]
-      )
-    } else {
-      rows = db.query<MessageRow>(
-        'SELECT * FROM messages WHERE conversation_id = ? ORDER BY timestamp ASC',
-        [conversationId]
-      )
+    if (branch && branch.head_message_id === parentId) {
+      db.run('UPDATE conversation_branches SET head_message_id = ?, updated_at = ? WHERE id = ?', [
+        messageId,
+        now,
+        branch.id,
+      ])
+      return
     }
 
-    return rows.map((row) => ({
-      id: row.id,
-      role: row.role as MessageRole,
-      content: row.content,
-      timestamp: new Date(row.timestamp),
-      metadata: row.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : undefined,
-      compactedAt: row.compacted_at ? new Date(row.compacted_at) : undefined,
-      isSummary: row.is_summary === 1,
-      tokenCount: row.token_count ?? undefined,
-      isPinned: row.is_pinned === 1,
-    }))
+    const branchId = generateId('branch')
+    db.run(
+      'INSERT INTO conversation_branches (id, conversation_id, name, head_message_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [
+        branchId,
+        conversationId,
+        branch ? this.nextBranchName(conversationId) : 'main',
+        messageId,
+        now,
+        now,
+      ]
+    )
+    if (!branch) {
+      db.run('UPDATE conversations SET active_branch_id = ? WHERE id = ?', [
+        branchId,
+        conversationId,
+      ])
+    }
   }
 
   /**
-   * Get recent messages for a conversation (for context window)
-   * 同样尊重 is_summary 边界
+   * 获取活动分支上的消息
+   * 从 head 沿父指针回溯到根；路径上挂有摘要时从最近的摘要开始（摘要替代更早的消息）
    */
-  getRecentMessages(conversationId: string, limit: number): readonly Message[] {
-    const db = getDatabase()
+  getMessages(conversationId: string): readonly Message[] {
+    const branch = this.getActiveBranchRow(conversationId)
+    if (!branch?.head_message_id) return []
 
-    const rows = db.query<MessageRow>(
-      'SELECT * FROM messages WHERE conversation_id = ? ORDER BY timestamp DESC LIMIT ?',
-      [conversationId, limit]
-    )
+    const rows = this.getPathRows(branch.head_message_id)
+    const siblings = this.getSiblingMap(conversationId)
 
-    // 检查是否包含摘要消息，如果有则截断到摘要
-    const reversed = rows.reverse()
-    const summaryIndex = reversed.findIndex((r) => r.is_summary === 1)
+    return rows.map((row) =>
+      toMessage(row, row.is_summary === 1 ? undefined : siblings.get(row.parent_id))
+    )
+  }
 
-    const effective = summaryIndex >= 0 ? reversed.slice(summaryIndex) : reversed
+  /**
+   * Get recent messages for a conversation (for context window)
+   * 同样尊重摘要边界
+   */
+  getRecentMessages(conversationId: string, limit: number): readonly Message[] {
+    return this.getMessages(conversationId).slice(-limit)
+  }
 
-    return effective.map((row) => ({
-      id: row.id,
-      role: row.role as MessageRole,
-      content: row.content,
-      timestamp: new Date(row.timestamp),
-      metadata: row.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : undefined,
-      compactedAt: row.compacted_at ? new Date(row.compacted_at) : undefined,
-      isSummary: row.is_summary === 1,
-      tokenCount: row.token_count ?? undefined,
-      isPinned: row.is_pinned === 1,
-    }))
+  /**
+   * 获取单条消息
+   */
+  getMessage(conversationId: string, messageId: string): Message | undefined {
+    const row = this.getMessageRow(conversationId, messageId)
+    return row ? toMessage(row) : undefined
   }
 
   /**
@@ -290,15 +487,20 @@ export class ConversationStore {
 
   /**
    * 添加摘要消息到对话
+   * 摘要挂在它覆盖的最后一条消息上，经过该消息的分支都会使用它；未指定时覆盖整个活动分支
    */
-  addSummaryMessage(conversationId: string, content: string): Message {
+  addSummaryMessage(conversationId: string, content: string, coversMessageId?: string): Message {
     const db = getDatabase()
     const id = crypto.randomUUID()
     const now = new Date().toISOString()
+    const parentId =
+      coversMessageId ?? this.getActiveBranchRow(conversationId)?.head_message_id ?? null
+
+    const tokenCount = countTokensWithEncoding(content, DEFAULT_TOKEN_ENCODING)
 
     db.run(
-      'INSERT INTO messages (id, conversation_id, role, content, timestamp, is_summary) VALUES (?, ?, ?, ?, ?, 1)',
-      [id, conversationId, 'system', content, now]
+      'INSERT INTO messages (id, conversation_id, role, content, timestamp, is_summary, token_count, token_encoding, parent_id) VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)',
+      [id, conversationId, 'system', content, now, tokenCount, DEFAULT_TOKEN_ENCODING, parentId]
     )
 
     return {
@@ -306,103 +508,591 @@ export class ConversationStore {
       role: 'system' as MessageRole,
       content,
       timestamp: new Date(now),
+      tokenCount,
+      isSummary: true,
+      parentId: parentId ?? undefined,
     }
   }
 
   /**
    * 获取带 token 信息的消息（供优化器使用）
+   * 默认取活动分支；指定 headMessageId 时取从根到该消息的路径
    */
-  getMessagesForOptimizer(conversationId: string): readonly {
+  getMessagesForOptimizer(
+    conversationId: string,
+    headMessageId?: string
+  ): readonly {
     id: string
     role: string
     content: string
+    parts: readonly ContentPart[] | undefined
     timestamp: Date
     isSummary: boolean
     tokenCount: number | null
+    tokenEncoding: string | null
   }[] {
-    const db = getDatabase()
+    const head = headMessageId ?? this.getActiveBranchRow(conversationId)?.head_message_id
+    if (!head) return []
 
-    const rows = db.query<MessageRow>(
-      'SELECT * FROM messages WHERE conversation_id = ? AND compacted_at IS NULL ORDER BY timestamp ASC',
-      [conversationId]
-    )
-
-    return rows.map((row) => ({
+    return this.getPathRows(head).map((row) => ({
       id: row.id,
       role: row.role,
       content: row.content,
+      parts: parseParts(row.parts),
       timestamp: new Date(row.timestamp),
       isSummary: row.is_summary === 1,
       tokenCount: row.token_count,
+      tokenEncoding: row.token_encoding,
     }))
   }
 
   /**
-   * Search across all conversations
+   * 列出对话的所有分支
+   */
+  listBranches(conversationId: string): readonly ConversationBranch[] {
+    const db = getDatabase()
+    const active = this.getActiveBranchRow(conversationId)
+    const rows = db.query<BranchRow>(
+      'SELECT * FROM conversation_branches WHERE conversation_id = ? ORDER BY created_at ASC',
+      [conversationId]
+    )
+    return rows.map((row) => toBranch(row, active?.id))
+  }
+
+  /**
+   * 获取活动分支
    */
-  search(query: string, limit = 20): readonly SearchResult[] {
+  getActiveBranch(conversationId: string): ConversationBranch | undefined {
+    const row = this.getActiveBranchRow(conversationId)
+    return row ? toBranch(row, row.id) : undefined
+  }
+
+  /**
+   * 从指定消息创建分支（默认从活动分支 head）并设为活动分支
+   * fromMessageId 为 null 时创建空分支，下一条消息成为新的根消息
+   */
+  createBranch(
+    conversationId: string,
+    options: { name?: string; fromMessageId?: string | null } = {}
+  ): ConversationBranch {
     const db = getDatabase()
 
-    // Simple LIKE search - could be enhanced with FTS5
-    const searchPattern = `%${query}%`
+    let headMessageId: string | null
+    if (options.fromMessageId === undefined) {
+      headMessageId = this.getActiveBranchRow(conversationId)?.head_message_id ?? null
+    } else if (options.fromMessageId === null) {
+      headMessageId = null
+    } else {
+      const message = this.getMessageRow(conversationId, options.fromMessageId)
+      if (!message || message.is_summary === 1) {
+        throw new BranchError(`Message not found: ${options.fromMessageId}`, 'not_found')
+      }
+      headMessageId = message.id
+    }
+
+    const name = options.name?.trim() || this.nextBranchName(conversationId)
+    const existing = db.queryOne<{ id: string }>(
+      'SELECT id FROM conversation_branches WHERE conversation_id = ? AND name = ?',
+      [conversationId, name]
+    )
+    if (existing) {
+      throw new BranchError(`Branch already exists: ${name}`, 'conflict')
+    }
+
+    const id = generateId('branch')
+    const now = new Date().toISOString()
+
+    db.transaction(() => {
+      db.run(
+        'INSERT INTO conversation_branches (id, conversation_id, name, head_message_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+        [id, conversationId, name, headMessageId, now, now]
+      )
+      db.run('UPDATE conversations SET active_branch_id = ?, updated_at = ? WHERE id = ?', [
+        id,
+        now,
+        conversationId,
+      ])
+    })
+
+    logger.debug('Created branch', { conversationId, branchId: id, name, headMessageId })
+
+    return {
+      id,
+      conversationId,
+      name,
+      headMessageId: headMessageId ?? undefined,
+      createdAt: new Date(now),
+      updatedAt: new Date(now),
+      isActive: true,
+    }
+  }
+
+  /**
+   * 切换活动分支（按 ID 或名称）
+   */
+  switchBranch(conversationId: string, branch: string): ConversationBranch {
+    const db = getDatabase()
+    const row = db.queryOne<BranchRow>(
+      'SELECT * FROM conversation_branches WHERE conversation_id = ? AND (id = ? OR name = ?)',
+      [conversationId, branch, branch]
+    )
+    if (!row) {
+      throw new BranchError(`Branch not found: ${branch}`, 'not_found')
+    }
+
+    db.run('UPDATE conversations SET active_branch_id = ? WHERE id = ?', [row.id, conversationId])
+    logger.debug('Switched branch', { conversationId, branchId: row.id })
+    return toBranch(row, row.id)
+  }
+
+  /**
+   * 切换到包含指定消息的分支（用于在兄弟消息之间切换）
+   * 优先活动分支，其次最近更新的分支；都不包含时以该消息子树中最新的消息为 head 新建分支
+   */
+  switchToMessage(conversationId: string, messageId: string): ConversationBranch {
+    const db = getDatabase()
+    const message = this.getMessageRow(conversationId, messageId)
+    if (!message || message.is_summary === 1) {
+      throw new BranchError(`Message not found: ${messageId}`, 'not_found')
+    }
+
+    const subtree = `WITH RECURSIVE subtree(id) AS (
+      SELECT ?
+      UNION ALL
+      SELECT m.id FROM messages m JOIN subtree ON m.parent_id = subtree.id
+    )`
+
+    const rows = db.query<BranchRow>(
+      `${subtree}
+      SELECT b.* FROM conversation_branches b
+      WHERE b.conversation_id = ? AND b.head_message_id IN (SELECT id FROM subtree)
+      ORDER BY b.updated_at DESC`,
+      [messageId, conversationId]
+    )
+
+    const active = this.getActiveBranchRow(conversationId)
+    const target = rows.find((row) => row.id === active?.id) ?? rows[0]
+    if (target) {
+      if (target.id !== active?.id) {
+        db.run('UPDATE conversations SET active_branch_id = ? WHERE id = ?', [
+          target.id,
+          conversationId,
+        ])
+      }
+      return toBranch(target, target.id)
+    }
+
+    const leaf = db.queryOne<{ id: string }>(
+      `${subtree}
+      SELECT m.id FROM messages m JOIN subtree ON m.id = subtree.id
+      WHERE m.is_summary = 0
+      ORDER BY m.timestamp DESC, m.rowid DESC LIMIT 1`,
+      [messageId]
+    )
+    return this.createBranch(conversationId, { fromMessageId: leaf?.id ?? messageId })
+  }
+
+  /**
+   * 编辑用户消息：在原消息的父消息下创建新的兄弟消息并切到新分支，原分支保持不变
+   */
+  editMessage(
+    conversationId: string,
+    messageId: string,
+    edit: {
+      content: string
+      parts?: readonly ContentPart[]
+      model?: string
+      branchName?: string
+    }
+  ): { message: Message; branch: ConversationBranch } {
+    const original = this.getMessageRow(conversationId, messageId)
+    if (!original || original.role !== 'user') {
+      throw new BranchError(`User message not found: ${messageId}`, 'not_found')
+    }
+
+    const branch = this.createBranch(conversationId, {
+      fromMessageId: original.parent_id,
+      ...(edit.branchName ? { name: edit.branchName } : {}),
+    })
+    const message = this.addMessage(conversationId, {
+      role: 'user',
+      content: edit.content,
+      ...(edit.parts ? { parts: edit.parts } : {}),
+      ...(edit.model ? { model: edit.model } : {}),
+    })
+
+    return { message, branch: { ...branch, headMessageId: message.id } }
+  }
+
+  /**
+   * 为重新生成助手回复创建分支：新分支停在该回复的父消息上，原回复保留在原分支
+   * 返回新分支以及新回复应挂接的父消息
+   */
+  branchForRegenerate(
+    conversationId: string,
+    messageId: string,
+    branchName?: string
+  ): { branch: ConversationBranch; parentId: string } {
+    const original = this.getMessageRow(conversationId, messageId)
+    if (!original || original.role !== 'assistant' || !original.parent_id) {
+      throw new BranchError(`Assistant message not found: ${messageId}`, 'not_found')
+    }
+
+    const branch = this.createBranch(conversationId, {
+      fromMessageId: original.parent_id,
+      ...(branchName ? { name: branchName } : {}),
+    })
+    return { branch, parentId: original.parent_id }
+  }
+
+  private getActiveBranchRow(conversationId: string): BranchRow | undefined {
+    const db = getDatabase()
+    return (
+      db.queryOne<BranchRow>(
+        'SELECT b.* FROM conversation_branches b JOIN conversations c ON c.active_branch_id = b.id WHERE c.id = ?',
+        [conversationId]
+      ) ?? undefined
+    )
+  }
+
+  private getMessageRow(conversationId: string, messageId: string): MessageRow | undefined {
+    const db = getDatabase()
+    return (
+      db.queryOne<MessageRow>('SELECT * FROM messages WHERE id = ? AND conversation_id = ?', [
+        messageId,
+        conversationId,
+      ]) ?? undefined
+    )
+  }
+
+  /**
+   * 分支路径（根 → head）；路径上离 head 最近的摘要替代它覆盖的消息
+   */
+  private getPathRows(headMessageId: string): MessageRow[] {
+    const db = getDatabase()
+
+    const rows = db.query<MessageRow>(
+      `${PATH_CTE}
+      SELECT m.* FROM path JOIN messages m ON m.id = path.id
+      ORDER BY path.depth DESC`,
+      [headMessageId]
+    )
+
+    const summary = db.queryOne<MessageRow & { cover_depth: number }>(
+      `${PATH_CTE}
+      SELECT s.*, path.depth AS cover_depth FROM messages s JOIN path ON s.parent_id = path.id
+      WHERE s.is_summary = 1
+      ORDER BY path.depth ASC, s.timestamp DESC LIMIT 1`,
+      [headMessageId]
+    )
+    if (!summary) return rows
+
+    const coverIndex = rows.length - 1 - summary.cover_depth
+    return [summary, ...rows.slice(coverIndex + 1)]
+  }
+
+  // 父消息 ID → 子消息 ID 列表（按创建顺序，不含摘要）
+  private getSiblingMap(conversationId: string): Map<string | null, string[]> {
+    const db = getDatabase()
+    const rows = db.query<{ id: string; parent_id: string | null }>(
+      'SELECT id, parent_id FROM messages WHERE conversation_id = ? AND is_summary = 0 ORDER BY timestamp ASC, rowid ASC',
+      [conversationId]
+    )
+
+    const map = new Map<string | null, string[]>()
+    for (const row of rows) {
+      const children = map.get(row.parent_id) ?? []
+      children.push(row.id)
+      map.set(row.parent_id, children)
+    }
+    return map
+  }
+
+  private nextBranchName(conversationId: string): string {
+    const db = getDatabase()
+    const names = new Set(
+      db
+        .query<{
+          name: string
+        }>('SELECT name FROM conversation_branches WHERE conversation_id = ?', [conversationId])
+        .map((row) => row.name)
+    )
+    let n = names.size + 1
+    while (names.has(`branch-${n}`)) n++
+    return `branch-${n}`
+  }
+
+  /**
+   * 全文搜索（FTS5 trigram + BM25 排序，支持中文子串），支持按角色、对话、时间范围和标记过滤
+   */
+  search(query: string, options: SearchOptions | number = {}): readonly SearchResult[] {
+    const db = getDatabase()
+    const opts: SearchOptions = typeof options === 'number' ? { limit: options } : options
+
+    const fts = buildFtsQuery(query)
+    if (!fts) return []
+
+    // 只有短词时无法走 FTS 索引，直接在 messages 上 LIKE 过滤，按时间倒序
+    const conditions: string[] = []
+    const params: (string | number)[] = []
+    if (fts.match) {
+      conditions.push('messages_fts MATCH ?')
+      params.push(fts.match)
+    }
+    for (const like of fts.likes) {
+      conditions.push("m.content LIKE ? ESCAPE '\\'")
+      params.push(like)
+    }
+
+    if (opts.role) {
+      conditions.push('m.role = ?')
+      params.push(opts.role)
+    }
+    if (opts.conversationId) {
+      conditions.push('m.conversation_id = ?')
+      params.push(opts.conversationId)
+    }
+    if (opts.pinned !== undefined) {
+      conditions.push('m.is_pinned = ?')
+      params.push(opts.pinned ? 1 : 0)
+    }
+    if (opts.from) {
+      conditions.push('m.timestamp >= ?')
+      params.push(opts.from.toISOString())
+    }
+    if (opts.to) {
+      conditions.push('m.timestamp <= ?')
+      params.push(opts.to.toISOString())
+    }
 
     const rows = db.query<{
       conversation_id: string
       conversation_title: string
       message_id: string
+      role: string
       content: string
+      snippet: string | null
       timestamp: string
+      is_pinned: number
+      score: number
     }>(
       `SELECT
         m.conversation_id,
         c.title as conversation_title,
         m.id as message_id,
+        m.role,
         m.content,
-        m.timestamp
-      FROM messages m
+        ${fts.match ? "snippet(messages_fts, 0, '<mark>', '</mark>', '…', 48)" : 'NULL'} as snippet,
+        m.timestamp,
+        m.is_pinned,
+        ${fts.match ? 'bm25(messages_fts)' : '0'} as score
+      FROM ${fts.match ? 'messages_fts JOIN messages m ON m.rowid = messages_fts.rowid' : 'messages m'}
       JOIN conversations c ON m.conversation_id = c.id
-      WHERE m.content LIKE ?
-      ORDER BY m.timestamp DESC
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${fts.match ? 'score' : 'm.timestamp DESC'}
       LIMIT ?`,
-      [searchPattern, limit]
+      [...params, opts.limit ?? 20]
     )
 
-    return rows.map((row, index) => ({
+    return rows.map((row) => ({
       conversationId: row.conversation_id,
       conversationTitle: row.conversation_title,
       messageId: row.message_id,
+      role: row.role as MessageRole,
       content: row.content,
+      snippet: row.snippet ?? highlightSnippet(row.content, fts.terms),
       timestamp: new Date(row.timestamp),
-      relevance: 1 - index / rows.length, // Simple relevance based on recency
+      isPinned: row.is_pinned === 1,
+      relevance: -row.score,
     }))
   }
 
   /**
-   * Export a conversation to JSON or Markdown
+   * Export a conversation
+   * json 为活动分支快照；md/html 为活动分支的可读文本；jsonl 为 OpenAI 微调格式（每个分支一行）；
+   * wqbot 为包含所有分支和附件的无损归档，可通过 importConversations 导入
+   */
+  export(conversationId: string, format: ExportFormat): string {
+    if (format === 'json') {
+      const conversation = this.getConversation(conversationId)
+      if (!conversation) {
+        throw new Error(`Conversation not found: ${conversationId}`)
+      }
+      return JSON.stringify(conversation, null, 2)
+    }
+
+    const archive = this.exportArchive(conversationId)
+    switch (format) {
+      case 'md':
+        return renderMarkdown(archive)
+      case 'html':
+        return renderHtml(archive)
+      case 'jsonl':
+        return renderFineTuneJsonl(archive)
+      case 'wqbot':
+        return JSON.stringify(archive, null, 2)
+    }
+  }
+
+  /**
+   * 导出无损归档：全部消息（含所有分支、摘要和已压缩消息）、分支及附件内容
    */
-  export(conversationId: string, format: 'json' | 'md'): string {
-    const conversation = this.getConversation(conversationId)
-    if (!conversation) {
+  exportArchive(conversationId: string): ConversationArchive {
+    const db = getDatabase()
+    const row = db.queryOne<ConversationRow>('SELECT * FROM conversations WHERE id = ?', [
+      conversationId,
+    ])
+    if (!row) {
       throw new Error(`Conversation not found: ${conversationId}`)
     }
 
-    if (format === 'json') {
-      return JSON.stringify(conversation, null, 2)
+    const branches = db.query<BranchRow>(
+      'SELECT * FROM conversation_branches WHERE conversation_id = ? ORDER BY created_at ASC',
+      [conversationId]
+    )
+    const messageRows = db.query<MessageRow>(
+      'SELECT * FROM messages WHERE conversation_id = ? ORDER BY timestamp ASC, rowid ASC',
+      [conversationId]
+    )
+
+    const blobStore = getBlobStore()
+    const blobs: Record<string, string> = {}
+    const messages = messageRows.map((m): ArchiveMessage => {
+      const parts = parseParts(m.parts)
+      for (const part of parts ?? []) {
+        if (part.type === 'text' || !part.blobId || blobs[part.blobId]) continue
+        const data = blobStore.get(part.blobId)
+        if (data) blobs[part.blobId] = data.toString('base64')
+      }
+      return {
+        id: m.id,
+        parentId: m.parent_id,
+        role: m.role as MessageRole,
+        content: m.content,
+        ...(parts ? { parts } : {}),
+        timestamp: m.timestamp,
+        ...(m.metadata ? { metadata: JSON.parse(m.metadata) as Record<string, unknown> } : {}),
+        ...(m.compacted_at ? { compactedAt: m.compacted_at } : {}),
+        ...(m.is_summary === 1 ? { isSummary: true } : {}),
+        ...(m.is_pinned === 1 ? { isPinned: true } : {}),
+        ...(m.token_count !== null ? { tokenCount: m.token_count } : {}),
+        ...(m.token_encoding ? { tokenEncoding: m.token_encoding } : {}),
+      }
+    })
+
+    return {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      conversation: {
+        id: row.id,
+        title: row.title,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        ...(row.metadata ? { metadata: JSON.parse(row.metadata) as Record<string, unknown> } : {}),
+        activeBranchId: row.active_branch_id,
+      },
+      branches: branches.map((b) => ({
+        id: b.id,
+        name: b.name,
+        headMessageId: b.head_message_id,
+        createdAt: b.created_at,
+        updatedAt: b.updated_at,
+      })),
+      messages,
+      ...(Object.keys(blobs).length > 0 ? { blobs } : {}),
     }
+  }
 
-    // Markdown format
-    let md = `# ${conversation.title}\n\n`
-    md += `*Created: ${conversation.createdAt.toLocaleString()}*\n\n`
-    md += `---\n\n`
+  /**
+   * 导入 WQBot 归档或 ChatGPT/Claude 数据导出，每个对话创建为新对话（保留标题和时间）
+   */
+  importConversations(data: unknown): readonly Conversation[] {
+    return parseImport(data).map((archive) => this.importArchive(archive))
+  }
 
-    for (const message of conversation.messages) {
-      const roleLabel = message.role === 'user' ? '**User**' : '**Assistant**'
-      md += `${roleLabel} (${message.timestamp.toLocaleTimeString()}):\n\n`
-      md += `${message.content}\n\n`
-      md += `---\n\n`
+  /**
+   * 将归档写入为新对话：所有 ID 重新生成，消息树和分支按新 ID 重建
+   */
+  importArchive(archive: ConversationArchive): Conversation {
+    const db = getDatabase()
+    const blobStore = getBlobStore()
+    const conversationId = generateId('conv')
+    const { conversation } = archive
+
+    for (const data of Object.values(archive.blobs ?? {})) {
+      blobStore.put(Buffer.from(data, 'base64'))
     }
 
-    return md
+    const messageIds = new Map(archive.messages.map((m) => [m.id, generateId('msg')]))
+    const branchIds = new Map(archive.branches.map((b) => [b.id, generateId('branch')]))
+    const newId = (ids: Map<string, string>, id: string | null | undefined): string | null =>
+      id ? (ids.get(id) ?? null) : null
+    const activeBranchId =
+      newId(branchIds, conversation.activeBranchId) ?? newId(branchIds, archive.branches[0]?.id)
+
+    db.transaction(() => {
+      db.run(
+        'INSERT INTO conversations (id, title, created_at, updated_at, metadata, active_branch_id) VALUES (?, ?, ?, ?, ?, ?)',
+        [
+          conversationId,
+          conversation.title,
+          conversation.createdAt,
+          conversation.updatedAt,
+          conversation.metadata ? JSON.stringify(conversation.metadata) : null,
+          activeBranchId,
+        ]
+      )
+
+      for (const message of archive.messages) {
+        const parts = message.parts ? blobStore.persistParts(message.parts) : undefined
+        // 归档带有 token 缓存时原样保留，外部导出按默认编码计算
+        const cached = message.tokenCount !== undefined
+        db.run(
+          'INSERT INTO messages (id, conversation_id, role, content, timestamp, metadata, parts, token_count, token_encoding, parent_id, compacted_at, is_summary, is_pinned) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [
+            messageIds.get(message.id)!,
+            conversationId,
+            message.role,
+            message.content,
+            message.timestamp,
+            message.metadata ? JSON.stringify(message.metadata) : null,
+            parts ? JSON.stringify(parts) : null,
+            cached
+              ? message.tokenCount
+              : countTokensWithEncoding(message.content, DEFAULT_TOKEN_ENCODING),
+            cached ? (message.tokenEncoding ?? null) : DEFAULT_TOKEN_ENCODING,
+            newId(messageIds, message.parentId),
+            message.compactedAt ?? null,
+            message.isSummary ? 1 : 0,
+            message.isPinned ? 1 : 0,
+          ]
+        )
+      }
+
+      for (const branch of archive.branches) {
+        db.run(
+          'INSERT INTO conversation_branches (id, conversation_id, name, head_message_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+          [
+            branchIds.get(branch.id)!,
+            conversationId,
+            branch.name,
+            newId(messageIds, branch.headMessageId),
+            branch.createdAt,
+            branch.updatedAt,
+          ]
+        )
+      }
+    })
+
+    logger.info('Imported conversation', {
+      conversationId,
+      title: conversation.title,
+      messages: archive.messages.length,
+      branches: archive.branches.length,
+    })
+
+    return this.getConversation(conversationId)!
   }
 
   /**
@@ -478,6 +1168,7 @@ export class ConversationStore {
       is_summary: number
       token_count: number | null
       is_pinned: number
+      parts: string | null
     }>(
       'SELECT * FROM messages WHERE conversation_id = ? AND is_pinned = 1 ORDER BY timestamp ASC',
       [conversationId]
@@ -487,6 +1178,7 @@ export class ConversationStore {
       conversationId: row.conversation_id,
       role: row.role,
       content: row.content,
+      parts: parseParts(row.parts),
       timestamp: new Date(row.timestamp),
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
       compactedAt: row.compacted_at ? new Date(row.compacted_at) : undefined,
@@ -131,6 +131,145 @@ export class DatabaseWrapper {
           ALTER TABLE messages ADD COLUMN is_pinned INTEGER NOT NULL DEFAULT 0;
         `,
       },
+      {
+        name: '008_add_message_parts',
+        sql: `
+          ALTER TABLE messages ADD COLUMN parts TEXT;
+        `,
+      },
+      {
+        name: '009_add_token_encoding',
+        sql: `
+          ALTER TABLE messages ADD COLUMN token_encoding TEXT;
+        `,
+      },
+      {
+        name: '010_create_messages_fts',
+        sql: `
+          CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+            content,
+            content='messages',
+            content_rowid='rowid',
+            tokenize='unicode61'
+          );
+          CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+            INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+          END;
+          CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+            INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+          END;
+          CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+            INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+            INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+          END;
+          INSERT INTO messages_fts(messages_fts) VALUES ('rebuild');
+        `,
+      },
+      {
+        name: '011_add_message_tree',
+        sql: `
+          ALTER TABLE messages ADD COLUMN parent_id TEXT;
+          CREATE INDEX IF NOT EXISTS idx_messages_parent_id ON messages(parent_id);
+          ALTER TABLE conversations ADD COLUMN active_branch_id TEXT;
+          CREATE TABLE IF NOT EXISTS conversation_branches (
+            id TEXT PRIMARY KEY,
+            conversation_id TEXT NOT NULL,
+            name TEXT NOT NULL,
+            head_message_id TEXT,
+            created_at TEXT NOT NULL DEFAULT (datetime('now')),
+            updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+            UNIQUE (conversation_id, name),
+            FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+          );
+          -- 已有消息按时间串成单链
+          UPDATE messages SET parent_id = (
+            SELECT p.id FROM messages p
+            WHERE p.conversation_id = messages.conversation_id AND p.is_summary = 0
+              AND (p.timestamp < messages.timestamp
+                OR (p.timestamp = messages.timestamp AND p.rowid < messages.rowid))
+            ORDER BY p.timestamp DESC, p.rowid DESC LIMIT 1
+          ) WHERE is_summary = 0;
+          -- 摘要挂在它所覆盖的最后一条已压缩消息上
+          UPDATE messages SET parent_id = (
+            SELECT p.id FROM messages p
+            WHERE p.conversation_id = messages.conversation_id AND p.is_summary = 0
+              AND p.compacted_at IS NOT NULL AND p.timestamp <= messages.timestamp
+            ORDER BY p.timestamp DESC, p.rowid DESC LIMIT 1
+          ) WHERE is_summary = 1;
+          INSERT INTO conversation_branches (id, conversation_id, name, head_message_id, created_at, updated_at)
+          SELECT 'branch_' || c.id, c.id, 'main', (
+            SELECT m.id FROM messages m WHERE m.conversation_id = c.id AND m.is_summary = 0
+            ORDER BY m.timestamp DESC, m.rowid DESC LIMIT 1
+          ), c.created_at, c.updated_at FROM conversations c;
+          UPDATE conversations SET active_branch_id = 'branch_' || id;
+        `,
+      },
+      {
+        name: '012_create_api_keys',
+        sql: `
+          CREATE TABLE IF NOT EXISTS api_keys (
+            id TEXT PRIMARY KEY,
+            name TEXT NOT NULL,
+            scope TEXT NOT NULL CHECK (scope IN ('read', 'chat', 'admin')),
+            key_hash TEXT NOT NULL UNIQUE,
+            prefix TEXT NOT NULL,
+            created_at TEXT NOT NULL DEFAULT (datetime('now')),
+            last_used_at TEXT,
+            revoked_at TEXT
+          );
+        `,
+      },
+      {
+        // unicode61 不切分中文，改用 trigram 分词并重建索引
+        name: '013_messages_fts_trigram',
+        sql: `
+          DROP TRIGGER IF EXISTS messages_fts_insert;
+          DROP TRIGGER IF EXISTS messages_fts_delete;
+          DROP TRIGGER IF EXISTS messages_fts_update;
+          DROP TABLE IF EXISTS messages_fts;
+          CREATE VIRTUAL TABLE messages_fts USING fts5(
+            content,
+            content='messages',
+            content_rowid='rowid',
+            tokenize='trigram'
+          );
+          CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+            INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+          END;
+          CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+            INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+          END;
+          CREATE TRIGGER messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+            INSERT INTO messages_fts(messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+            INSERT INTO messages_fts(rowid, content) VALUES (new.rowid, new.content);
+          END;
+          INSERT INTO messages_fts(messages_fts) VALUES ('rebuild');
+        `,
+      },
+      {
+        name: '014_create_scheduled_tasks',
+        sql: `
+          CREATE TABLE IF NOT EXISTS scheduled_tasks (
+            id TEXT PRIMARY KEY,
+            enabled INTEGER NOT NULL DEFAULT 1,
+            last_run TEXT,
+            next_run TEXT,
+            run_count INTEGER NOT NULL DEFAULT 0,
+            updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+          );
+          CREATE TABLE IF NOT EXISTS task_executions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            task_id TEXT NOT NULL,
+            status TEXT NOT NULL,
+            started_at TEXT NOT NULL,
+            ended_at TEXT,
+            duration INTEGER,
+            output TEXT,
+            error TEXT
+          );
+          CREATE INDEX IF NOT EXISTS idx_task_executions_task ON task_executions(task_id, id);
+        `,
+      },
     ]
 
     // 应用待执行的 migrations
@@ -187,6 +326,14 @@ export class DatabaseWrapper {
     }
   }
 
+  /**
+   * 备份到新的数据库文件（VACUUM INTO，目标文件不能已存在）
+   */
+  backup(filePath: string): void {
+    this.run('VACUUM INTO ?', [filePath])
+    logger.info('Database backed up', { path: filePath })
+  }
+
   /**
    * 在事务中执行多条语句
    */
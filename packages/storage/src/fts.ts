@@ -0,0 +1,100 @@
+/**
+ * FTS5 查询构造
+ *
+ * 全文索引使用 trigram 分词：中文等不以空格分词的语言也能按子串检索。
+ * trigram 无法索引少于 3 个字符的词（如“数据”），这类词改用 LIKE 在原表上过滤。
+ */
+
+export interface FtsQuery {
+  // MATCH 表达式（每个词作为短语，词间 AND）；全部是短词时为 null
+  readonly match: string | null
+  // LIKE 模式（已转义 % _ \，配合 ESCAPE '\' 使用）
+  readonly likes: readonly string[]
+  // 归一化后的检索词，用于高亮
+  readonly terms: readonly string[]
+}
+
+// trigram 分词可索引的最短词长（按字符计）
+export const MIN_TRIGRAM_LENGTH = 3
+
+/**
+ * 归一化用户输入：NFKC（全角转半角、兼容字符合并）并压缩空白
+ */
+export function normalizeQuery(query: string): string {
+  return query.normalize('NFKC').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * 拆分检索词：双引号包裹的内容作为一个短语，其余按空白切分；
+ * 去掉词尾的前缀通配符 *（trigram 本身就是子串匹配）
+ */
+export function tokenizeQuery(query: string): readonly string[] {
+  const normalized = normalizeQuery(query)
+  const terms: string[] = []
+  const pattern = /"([^"]*)"|(\S+)/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(normalized)) !== null) {
+    const term = (match[1] ?? match[2]!.replace(/\*+$/, '')).trim()
+    if (term && !terms.includes(term)) terms.push(term)
+  }
+
+  return terms
+}
+
+function escapeLike(term: string): string {
+  return `%${term.replace(/[\\%_]/g, '\\$&')}%`
+}
+
+/**
+ * 将用户输入转为 FTS5 查询，输入中的 FTS 语法一律按字面处理；没有可检索的词时返回 null
+ */
+export function buildFtsQuery(query: string): FtsQuery | null {
+  const terms = tokenizeQuery(query)
+  if (terms.length === 0) return null
+
+  const phrases: string[] = []
+  const likes: string[] = []
+  for (const term of terms) {
+    if (Array.from(term).length >= MIN_TRIGRAM_LENGTH) {
+      phrases.push(`"${term.replace(/"/g, '""')}"`)
+    } else {
+      likes.push(escapeLike(term))
+    }
+  }
+
+  return { match: phrases.length > 0 ? phrases.join(' ') : null, likes, terms }
+}
+
+/**
+ * 在 JS 中生成带高亮的摘要（只有 LIKE 条件、无法使用 snippet() 时）
+ */
+export function highlightSnippet(
+  content: string,
+  terms: readonly string[],
+  maxLength = 64,
+  open = '<mark>',
+  close = '</mark>'
+): string {
+  const lower = content.toLowerCase()
+  const needles = terms.map((t) => t.toLowerCase()).filter(Boolean)
+
+  const first = Math.min(...needles.map((n) => lower.indexOf(n)).filter((i) => i >= 0))
+  const start = Number.isFinite(first) ? Math.max(0, first - Math.floor(maxLength / 4)) : 0
+  const end = Math.min(content.length, start + maxLength)
+
+  let result = ''
+  let i = start
+  while (i < end) {
+    const needle = needles.find((n) => lower.startsWith(n, i))
+    if (needle) {
+      result += open + content.slice(i, i + needle.length) + close
+      i += needle.length
+    } else {
+      result += content[i]
+      i++
+    }
+  }
+
+  return (start > 0 ? '…' : '') + result + (end < content.length ? '…' : '')
+}
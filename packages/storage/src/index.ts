@@ -3,8 +3,44 @@ export {
   ConversationStore,
   getConversationStore,
   initializeConversationStore,
+  BranchError,
+  type ConversationBranch,
+  type SearchResult,
+  type SearchOptions,
 } from './conversation.js'
+export {
+  EXPORT_FORMATS,
+  ImportError,
+  parseImport,
+  renderMarkdown,
+  renderHtml,
+  renderFineTuneJsonl,
+  type ExportFormat,
+  type ConversationArchive,
+  type ArchiveMessage,
+  type ArchiveBranch,
+} from './conversation-transfer.js'
+export {
+  buildFtsQuery,
+  tokenizeQuery,
+  normalizeQuery,
+  highlightSnippet,
+  MIN_TRIGRAM_LENGTH,
+  type FtsQuery,
+} from './fts.js'
+export { BlobStore, getBlobStore } from './blob-store.js'
 export { SettingsStore, getSettingsStore, initializeSettingsStore, type Settings } from './settings.js'
+export {
+  ApiKeyStore,
+  getApiKeyStore,
+  initializeApiKeyStore,
+  scopeAllows,
+  API_KEY_SCOPES,
+  type ApiKey,
+  type ApiKeyScope,
+  type AuthIdentity,
+} from './api-keys.js'
+export { ScheduledTaskStore, getScheduledTaskStore } from './scheduled-tasks.js'
 export {
   ConversationOptimizer,
   getConversationOptimizer,
@@ -15,3 +51,15 @@ export {
   type ModelContext,
   type MessageImportance,
 } from './conversation-optimizer.js'
+export {
+  HeuristicSummarizer,
+  LLMSummarizer,
+  renderSummary,
+  parseSummaryText,
+  parseSummaryJson,
+  type ConversationSummary,
+  type ConversationSummarizer,
+  type SummarizableMessage,
+  type SummaryChatFn,
+  type LLMSummarizerOptions,
+} from './summarizer.js'
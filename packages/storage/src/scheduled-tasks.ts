@@ -0,0 +1,153 @@
+import type { SchedulerStore, TaskExecution, TaskState } from '@wqbot/core'
+import { getDatabase } from './database.js'
+
+interface TaskStateRow {
+  id: string
+  enabled: number
+  last_run: string | null
+  next_run: string | null
+  run_count: number
+}
+
+interface TaskExecutionRow {
+  id: number
+  task_id: string
+  status: TaskExecution['status']
+  started_at: string
+  ended_at: string | null
+  duration: number | null
+  output: string | null
+  error: string | null
+}
+
+// 每个任务保留的执行记录数
+const MAX_EXECUTIONS_PER_TASK = 100
+// 单条执行输出的最大长度（超出时截断为字符串）
+const MAX_OUTPUT_CHARS = 10000
+
+function serializeOutput(output: unknown): string | null {
+  if (output === undefined) {
+    return null
+  }
+  const json = JSON.stringify(output)
+  return json.length > MAX_OUTPUT_CHARS ? JSON.stringify(json.slice(0, MAX_OUTPUT_CHARS)) : json
+}
+
+function parseOutput(output: string | null): unknown {
+  if (output === null) {
+    return undefined
+  }
+  try {
+    return JSON.parse(output)
+  } catch {
+    return output
+  }
+}
+
+function rowToExecution(row: TaskExecutionRow): TaskExecution {
+  const output = parseOutput(row.output)
+  return {
+    taskId: row.task_id,
+    startTime: new Date(row.started_at),
+    ...(row.ended_at ? { endTime: new Date(row.ended_at) } : {}),
+    status: row.status,
+    result: {
+      success: row.status === 'completed',
+      ...(output !== undefined ? { output } : {}),
+      ...(row.error ? { error: row.error } : {}),
+      ...(row.duration !== null ? { duration: row.duration } : {}),
+    },
+  }
+}
+
+/**
+ * 定时任务的调度状态和执行历史，重启后 TaskScheduler 从这里恢复
+ */
+export class ScheduledTaskStore implements SchedulerStore {
+  loadState(taskId: string): TaskState | undefined {
+    const db = getDatabase()
+    const row = db.queryOne<TaskStateRow>('SELECT * FROM scheduled_tasks WHERE id = ?', [taskId])
+    if (!row) {
+      return undefined
+    }
+
+    return {
+      taskId: row.id,
+      enabled: row.enabled === 1,
+      runCount: row.run_count,
+      ...(row.last_run ? { lastRun: new Date(row.last_run) } : {}),
+      ...(row.next_run ? { nextRun: new Date(row.next_run) } : {}),
+    }
+  }
+
+  saveState(state: TaskState): void {
+    const db = getDatabase()
+    db.run(
+      `INSERT INTO scheduled_tasks (id, enabled, last_run, next_run, run_count, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         enabled = excluded.enabled,
+         last_run = excluded.last_run,
+         next_run = excluded.next_run,
+         run_count = excluded.run_count,
+         updated_at = excluded.updated_at`,
+      [
+        state.taskId,
+        state.enabled ? 1 : 0,
+        state.lastRun?.toISOString() ?? null,
+        state.nextRun?.toISOString() ?? null,
+        state.runCount,
+        new Date().toISOString(),
+      ]
+    )
+  }
+
+  /**
+   * 记录一次执行，并只保留每个任务最近的记录
+   */
+  recordExecution(execution: TaskExecution): void {
+    const db = getDatabase()
+    const error = execution.result?.error ?? execution.error?.message ?? null
+
+    db.transaction(() => {
+      db.run(
+        `INSERT INTO task_executions (task_id, status, started_at, ended_at, duration, output, error)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          execution.taskId,
+          execution.status,
+          execution.startTime.toISOString(),
+          execution.endTime?.toISOString() ?? null,
+          execution.result?.duration ?? null,
+          serializeOutput(execution.result?.output),
+          error,
+        ]
+      )
+      db.run(
+        `DELETE FROM task_executions WHERE task_id = ? AND id NOT IN (
+           SELECT id FROM task_executions WHERE task_id = ? ORDER BY id DESC LIMIT ?
+         )`,
+        [execution.taskId, execution.taskId, MAX_EXECUTIONS_PER_TASK]
+      )
+    })
+  }
+
+  getExecutions(taskId: string, limit: number): TaskExecution[] {
+    const db = getDatabase()
+    const rows = db.query<TaskExecutionRow>(
+      'SELECT * FROM task_executions WHERE task_id = ? ORDER BY id DESC LIMIT ?',
+      [taskId, limit]
+    )
+    return rows.map(rowToExecution)
+  }
+}
+
+// Singleton instance
+let storeInstance: ScheduledTaskStore | null = null
+
+export function getScheduledTaskStore(): ScheduledTaskStore {
+  if (!storeInstance) {
+    storeInstance = new ScheduledTaskStore()
+  }
+  return storeInstance
+}
@@ -23,6 +23,10 @@ const SettingsSchema = z.object({
   // Advanced
   maxContextMessages: z.number().int().positive().optional(),
   streamResponses: z.boolean().optional(),
+
+  // Auth（由 ApiKeyStore 管理，不经 settings 路由读写）
+  authEnabled: z.boolean().optional(),
+  adminToken: z.string().optional(),
 })
 
 export type Settings = z.infer<typeof SettingsSchema>
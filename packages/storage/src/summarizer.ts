@@ -0,0 +1,271 @@
+import { z } from 'zod'
+import { createModuleLogger, parseJsonObject } from '@wqbot/core'
+
+const logger = createModuleLogger('summarizer')
+
+// 摘要器看到的消息（OptimizerMessage 的子集）
+export interface SummarizableMessage {
+  readonly role: 'user' | 'assistant' | 'system'
+  readonly content: string
+}
+
+// 结构化对话摘要
+export interface ConversationSummary {
+  readonly goals: readonly string[]
+  readonly decisions: readonly string[]
+  readonly openQuestions: readonly string[]
+  readonly files: readonly string[]
+  readonly notes?: string | undefined
+}
+
+/**
+ * 可插拔摘要器：将被压缩的消息（以及上一轮摘要）合并为新的结构化摘要
+ */
+export interface ConversationSummarizer {
+  summarize(
+    messages: readonly SummarizableMessage[],
+    previous?: ConversationSummary
+  ): Promise<ConversationSummary>
+}
+
+// 与 ModelRouter.chatSync 兼容的调用签名（storage 不直接依赖 models）
+export type SummaryChatFn = (
+  messages: readonly { role: 'user'; content: string }[],
+  options: {
+    model?: string
+    localOnly?: boolean
+    taskType?: 'simple_qa'
+    complexity?: 'low'
+    temperature?: number
+    maxTokens?: number
+    systemPrompt?: string
+  }
+) => Promise<{ content: string }>
+
+export interface LLMSummarizerOptions {
+  readonly model?: string | undefined
+  readonly localOnly?: boolean | undefined
+  readonly maxTokens?: number | undefined
+}
+
+// 每个列表最多保留的条目数（增量合并时保留最新的）
+const MAX_ITEMS = 10
+// 单条消息与整体对话记录的截断长度（字符）
+const MAX_MESSAGE_CHARS = 2000
+const MAX_TRANSCRIPT_CHARS = 24000
+
+const SECTION_TITLES = {
+  goals: '目标',
+  decisions: '决策',
+  openQuestions: '未决问题',
+  files: '涉及文件',
+} as const
+
+const SUMMARY_HEADER = '[对话历史摘要]'
+
+const FILE_PATTERN =
+  /(?:^|[\s`'"(（])((?:\.{0,2}\/)?(?:[\w@.-]+\/)*[\w@-]+\.(?:tsx?|jsx?|mjs|cjs|json|md|py|go|rs|java|kt|c|h|cpp|hpp|cs|rb|php|swift|vue|svelte|css|scss|html|ya?ml|toml|sql|sh|txt))(?=$|[\s`'"),:;，。）])/gm
+
+const DECISION_PATTERN = /决定|采用|改为|改用|选择|decid|chose|going with|switch(?:ed)? to/i
+
+function dedupe(items: readonly string[]): string[] {
+  return [...new Set(items.map((item) => item.trim()).filter(Boolean))].slice(-MAX_ITEMS)
+}
+
+function mergeSummaries(
+  previous: ConversationSummary | undefined,
+  next: ConversationSummary
+): ConversationSummary {
+  if (!previous) return next
+  return {
+    goals: dedupe([...previous.goals, ...next.goals]),
+    decisions: dedupe([...previous.decisions, ...next.decisions]),
+    openQuestions: dedupe(next.openQuestions),
+    files: dedupe([...previous.files, ...next.files]),
+    notes: next.notes ?? previous.notes,
+  }
+}
+
+function firstLine(text: string, max = 80): string {
+  return (text.split('\n')[0] ?? '').trim().slice(0, max)
+}
+
+/**
+ * 启发式摘要（无可用模型时的兜底）：
+ * 用户消息首行作为目标，匹配关键词的句子作为决策，提取文件路径和未回答的问题
+ */
+export class HeuristicSummarizer implements ConversationSummarizer {
+  async summarize(
+    messages: readonly SummarizableMessage[],
+    previous?: ConversationSummary
+  ): Promise<ConversationSummary> {
+    const userMessages = messages.filter((m) => m.role === 'user')
+
+    const goals = userMessages.map((m) => firstLine(m.content)).filter(Boolean)
+
+    const decisions = messages
+      .filter((m) => m.role === 'assistant')
+      .flatMap((m) => m.content.split('\n'))
+      .filter((line) => DECISION_PATTERN.test(line))
+      .map((line) => line.trim().slice(0, 120))
+
+    const files = messages.flatMap((m) =>
+      [...m.content.matchAll(FILE_PATTERN)].map((match) => match[1]!)
+    )
+
+    // 最后一条用户消息中的问题视为尚未解决
+    const lastUser = userMessages[userMessages.length - 1]
+    const openQuestions = lastUser
+      ? lastUser.content
+          .split('\n')
+          .map((line) => line.trim())
+          .filter((line) => /[?？]$/.test(line))
+      : []
+
+    return mergeSummaries(previous, {
+      goals: dedupe(goals.slice(0, 5)),
+      decisions: dedupe(decisions),
+      openQuestions: dedupe(openQuestions),
+      files: dedupe(files),
+    })
+  }
+}
+
+const SummarySchema = z.object({
+  goals: z.array(z.string()).default([]),
+  decisions: z.array(z.string()).default([]),
+  openQuestions: z.array(z.string()).default([]),
+  files: z.array(z.string()).default([]),
+  notes: z.string().optional(),
+})
+
+const SUMMARY_SYSTEM_PROMPT = `You compress chat history for an AI coding assistant.
+Return ONLY a JSON object with these keys:
+- "goals": what the user is trying to achieve
+- "decisions": decisions made and approaches chosen (include concrete names, commands, versions)
+- "openQuestions": unresolved questions or pending tasks
+- "files": file paths, modules or symbols that were touched or discussed
+- "notes": other context needed to continue (code snippets, constraints), at most a few sentences
+Each list item is one short sentence. Keep the language of the conversation.
+If a previous summary is given, merge it with the new messages: keep what is still relevant, drop resolved questions.`
+
+function formatTranscript(messages: readonly SummarizableMessage[]): string {
+  const lines = messages.map((m) => {
+    const content =
+      m.content.length > MAX_MESSAGE_CHARS ? `${m.content.slice(0, MAX_MESSAGE_CHARS)}…` : m.content
+    return `[${m.role}] ${content}`
+  })
+  const transcript = lines.join('\n\n')
+  // 过长时保留结尾（越新的内容越重要）
+  return transcript.length > MAX_TRANSCRIPT_CHARS
+    ? transcript.slice(transcript.length - MAX_TRANSCRIPT_CHARS)
+    : transcript
+}
+
+/**
+ * 从模型输出中提取 JSON 摘要（兼容 ```json 代码块和前后多余文字）
+ */
+export function parseSummaryJson(output: string): ConversationSummary {
+  const parsed = SummarySchema.parse(parseJsonObject(output))
+  return {
+    goals: dedupe(parsed.goals),
+    decisions: dedupe(parsed.decisions),
+    openQuestions: dedupe(parsed.openQuestions),
+    files: dedupe(parsed.files),
+    ...(parsed.notes ? { notes: parsed.notes } : {}),
+  }
+}
+
+/**
+ * LLM 摘要：通过 chatSync 调用便宜模型（或本地 Ollama）生成结构化摘要
+ */
+export class LLMSummarizer implements ConversationSummarizer {
+  constructor(
+    private readonly chat: SummaryChatFn,
+    private readonly options: LLMSummarizerOptions = {}
+  ) {}
+
+  async summarize(
+    messages: readonly SummarizableMessage[],
+    previous?: ConversationSummary
+  ): Promise<ConversationSummary> {
+    const sections = [
+      previous ? `Previous summary:\n${JSON.stringify(previous, null, 2)}` : '',
+      `New messages:\n${formatTranscript(messages)}`,
+    ].filter(Boolean)
+
+    const response = await this.chat([{ role: 'user', content: sections.join('\n\n') }], {
+      ...(this.options.model
+        ? { model: this.options.model }
+        : { taskType: 'simple_qa', complexity: 'low' }),
+      ...(this.options.localOnly ? { localOnly: true } : {}),
+      temperature: 0,
+      maxTokens: this.options.maxTokens ?? 1024,
+      systemPrompt: SUMMARY_SYSTEM_PROMPT,
+    })
+
+    const summary = parseSummaryJson(response.content)
+    logger.debug('LLM 摘要完成', {
+      goals: summary.goals.length,
+      decisions: summary.decisions.length,
+      files: summary.files.length,
+    })
+    return summary
+  }
+}
+
+/**
+ * 渲染摘要消息文本（可被 parseSummaryText 解析回结构，用于增量摘要）
+ */
+export function renderSummary(summary: ConversationSummary, messageCount: number): string {
+  const lines = [`${SUMMARY_HEADER} 以下是之前 ${messageCount} 条消息的摘要：`]
+
+  for (const key of Object.keys(SECTION_TITLES) as (keyof typeof SECTION_TITLES)[]) {
+    const items = summary[key]
+    if (items.length === 0) continue
+    lines.push('', `## ${SECTION_TITLES[key]}`, ...items.map((item) => `- ${item}`))
+  }
+
+  if (summary.notes) {
+    lines.push('', '## 备注', summary.notes)
+  }
+
+  lines.push('', '请基于以上摘要继续对话。')
+  return lines.join('\n')
+}
+
+/**
+ * 解析 renderSummary 生成的摘要文本；非结构化摘要返回 undefined
+ */
+export function parseSummaryText(text: string): ConversationSummary | undefined {
+  if (!text.startsWith(SUMMARY_HEADER) || !text.includes('\n## ')) return undefined
+
+  const titleToKey = new Map<string, string>(
+    Object.entries(SECTION_TITLES).map(([key, title]) => [title, key])
+  )
+  const lists: Record<string, string[]> = { goals: [], decisions: [], openQuestions: [], files: [] }
+  const notes: string[] = []
+  let current: string | null = null
+
+  for (const line of text.split('\n')) {
+    if (line.startsWith('## ')) {
+      const title = line.slice(3).trim()
+      current = title === '备注' ? 'notes' : (titleToKey.get(title) ?? null)
+      continue
+    }
+    if (!current || !line.trim() || line.startsWith('请基于以上摘要')) continue
+    if (current === 'notes') {
+      notes.push(line)
+    } else if (line.startsWith('- ')) {
+      lists[current]!.push(line.slice(2))
+    }
+  }
+
+  return {
+    goals: lists.goals!,
+    decisions: lists.decisions!,
+    openQuestions: lists.openQuestions!,
+    files: lists.files!,
+    ...(notes.length > 0 ? { notes: notes.join('\n') } : {}),
+  }
+}
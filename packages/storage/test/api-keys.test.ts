@@ -0,0 +1,170 @@
+import { createHash } from 'node:crypto'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const mockDb = {
+  run: vi.fn(),
+  query: vi.fn().mockReturnValue([]),
+  queryOne: vi.fn().mockReturnValue(null),
+  transaction: vi.fn((fn) => fn()),
+}
+
+vi.mock('../src/database.js', () => ({
+  getDatabase: () => mockDb,
+}))
+
+const mockSettings = new Map<string, unknown>()
+
+vi.mock('../src/settings.js', () => ({
+  getSettingsStore: () => ({
+    get: (key: string) => mockSettings.get(key),
+    set: (key: string, value: unknown) => mockSettings.set(key, value),
+  }),
+}))
+
+vi.mock('@wqbot/core', () => ({
+  createModuleLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  generateId: (prefix: string) => `${prefix}_test`,
+}))
+
+import { ApiKeyStore, scopeAllows } from '../src/api-keys.js'
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function keyRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'key_1',
+    name: 'ci',
+    scope: 'read',
+    key_hash: 'hash',
+    prefix: 'wqb_abcdef',
+    created_at: '2024-01-01T00:00:00.000Z',
+    last_used_at: null,
+    revoked_at: null,
+    ...overrides,
+  }
+}
+
+describe('scopeAllows', () => {
+  it('treats scopes as a hierarchy', () => {
+    expect(scopeAllows('admin', 'chat')).toBe(true)
+    expect(scopeAllows('chat', 'read')).toBe(true)
+    expect(scopeAllows('chat', 'admin')).toBe(false)
+    expect(scopeAllows('read', 'chat')).toBe(false)
+  })
+})
+
+describe('ApiKeyStore', () => {
+  let store: ApiKeyStore
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockDb.queryOne.mockReturnValue(null)
+    mockDb.query.mockReturnValue([])
+    mockSettings.clear()
+    store = new ApiKeyStore()
+  })
+
+  describe('create', () => {
+    it('stores only the hash and returns the token once', () => {
+      const { key, token } = store.create('ci', 'chat')
+
+      expect(token).toMatch(/^wqb_[A-Za-z0-9_-]{43}$/)
+      expect(key).toMatchObject({ id: 'key_test', name: 'ci', scope: 'chat' })
+      expect(token.startsWith(key.prefix)).toBe(true)
+
+      const params = mockDb.run.mock.calls[0]![1] as unknown[]
+      expect(params).toContain(sha256(token))
+      expect(params).not.toContain(token)
+    })
+
+    it('rejects unknown scopes', () => {
+      expect(() => store.create('ci', 'root' as never)).toThrow('Invalid API key scope')
+    })
+  })
+
+  describe('verify', () => {
+    it('accepts the admin token with admin scope', () => {
+      mockSettings.set('adminToken', 'wqb_admin')
+
+      expect(store.verify('wqb_admin')).toEqual({ keyId: null, name: 'admin', scope: 'admin' })
+      expect(mockDb.queryOne).not.toHaveBeenCalled()
+    })
+
+    it('looks up active keys by hash and records usage', () => {
+      mockDb.queryOne.mockReturnValue(keyRow({ scope: 'chat' }))
+
+      const identity = store.verify('wqb_key')
+
+      expect(identity).toEqual({ keyId: 'key_1', name: 'ci', scope: 'chat' })
+      expect(mockDb.queryOne).toHaveBeenCalledWith(expect.stringContaining('revoked_at IS NULL'), [
+        sha256('wqb_key'),
+      ])
+      expect(mockDb.run).toHaveBeenCalledWith('UPDATE api_keys SET last_used_at = ? WHERE id = ?', [
+        expect.any(String),
+        'key_1',
+      ])
+    })
+
+    it('rejects unknown or revoked tokens', () => {
+      mockSettings.set('adminToken', 'wqb_admin')
+
+      expect(store.verify('wqb_other')).toBeUndefined()
+      expect(mockDb.run).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('revoke', () => {
+    it('marks an active key as revoked', () => {
+      mockDb.queryOne.mockReturnValue(keyRow())
+
+      expect(store.revoke('key_1')).toBe(true)
+      expect(mockDb.run).toHaveBeenCalledWith('UPDATE api_keys SET revoked_at = ? WHERE id = ?', [
+        expect.any(String),
+        'key_1',
+      ])
+    })
+
+    it('returns false for missing keys', () => {
+      expect(store.revoke('missing')).toBe(false)
+      expect(mockDb.run).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('list', () => {
+    it('maps rows and hides revoked keys by default', () => {
+      mockDb.query.mockReturnValue([keyRow({ last_used_at: '2024-02-01T00:00:00.000Z' })])
+
+      const keys = store.list()
+
+      expect(mockDb.query.mock.calls[0]![0]).toContain('WHERE revoked_at IS NULL')
+      expect(keys[0]).toMatchObject({ id: 'key_1', scope: 'read' })
+      expect(keys[0]!.lastUsedAt).toEqual(new Date('2024-02-01T00:00:00.000Z'))
+      expect(keys[0]!.revokedAt).toBeUndefined()
+    })
+  })
+
+  describe('admin token', () => {
+    it('generates the admin token once and rotates on demand', () => {
+      const first = store.ensureAdminToken()
+      expect(store.ensureAdminToken()).toBe(first)
+
+      const rotated = store.rotateAdminToken()
+      expect(rotated).not.toBe(first)
+      expect(store.verify(first)).toBeUndefined()
+      expect(store.verify(rotated)?.scope).toBe('admin')
+    })
+
+    it('stores the auth switch in settings', () => {
+      expect(store.isAuthEnabled()).toBe(false)
+      store.setAuthEnabled(true)
+      expect(store.isAuthEnabled()).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+
+vi.mock('@wqbot/core', () => ({
+  createModuleLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  getConfigManager: () => ({
+    getDataDir: () => os.tmpdir(),
+  }),
+}))
+
+import { BlobStore } from '../src/blob-store.js'
+
+describe('BlobStore', () => {
+  let baseDir: string
+  let store: BlobStore
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wqbot-blobs-'))
+    store = new BlobStore(baseDir)
+  })
+
+  afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true })
+  })
+
+  it('stores content by sha256 and deduplicates', () => {
+    const id1 = store.put(Buffer.from('hello'))
+    const id2 = store.put(Buffer.from('hello'))
+
+    expect(id1).toMatch(/^[a-f0-9]{64}$/)
+    expect(id2).toBe(id1)
+    expect(store.get(id1)?.toString()).toBe('hello')
+    expect(fs.existsSync(path.join(baseDir, id1.slice(0, 2), id1))).toBe(true)
+  })
+
+  it('returns undefined for missing blobs and deletes existing ones', () => {
+    const id = store.put(Buffer.from('bye'))
+    store.delete(id)
+
+    expect(store.has(id)).toBe(false)
+    expect(store.get(id)).toBeUndefined()
+  })
+
+  it('rejects invalid blob ids', () => {
+    expect(() => store.get('../../etc/passwd')).toThrow('Invalid blob id')
+  })
+
+  it('round-trips parts through persist and resolve', () => {
+    const data = Buffer.from('png-bytes').toString('base64')
+    const persisted = store.persistParts([
+      { type: 'text', text: 'look' },
+      { type: 'image', mimeType: 'image/png', data },
+      { type: 'image', mimeType: 'image/png', url: 'https://example.com/a.png' },
+    ])
+
+    expect(persisted[0]).toEqual({ type: 'text', text: 'look' })
+    expect(persisted[1]).not.toHaveProperty('data')
+    expect(persisted[1]).toHaveProperty('blobId')
+    expect(persisted[2]).toEqual({
+      type: 'image',
+      mimeType: 'image/png',
+      url: 'https://example.com/a.png',
+    })
+
+    const resolved = store.resolveParts(persisted)
+    expect(resolved[1]).toMatchObject({ type: 'image', mimeType: 'image/png', data })
+  })
+
+  it('throws when a referenced blob is missing', () => {
+    expect(() =>
+      store.resolveParts([{ type: 'image', mimeType: 'image/png', blobId: 'a'.repeat(64) }])
+    ).toThrow('Blob not found')
+  })
+})
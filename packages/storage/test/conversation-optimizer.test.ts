@@ -8,6 +8,8 @@ vi.mock('@wqbot/core', () => ({
     warn: vi.fn(),
     error: vi.fn(),
   }),
+  getTokenEncoding: (modelId?: string) => (modelId === 'llama3' ? 'heuristic' : 'cl100k_base'),
+  countTokensWithEncoding: (text: string) => Math.ceil(text.length / 4),
 }))
 
 import { ConversationOptimizer, type OptimizerMessage } from '../src/conversation-optimizer.js'
@@ -45,6 +47,18 @@ describe('ConversationOptimizer', () => {
   describe('estimateMessagesTokens', () => {
     const optimizer = new ConversationOptimizer()
 
+    it('编码一致时复用缓存的 tokenCount，否则重新计算', () => {
+      const cached: OptimizerMessage = {
+        ...makeMsg('1', 'user', 'hello'),
+        tokenCount: 100,
+        tokenEncoding: 'cl100k_base',
+      }
+      expect(optimizer.estimateMessagesTokens([cached])).toBe(100)
+      expect(optimizer.estimateMessagesTokens([cached], 'llama3')).toBe(
+        optimizer.estimateTokens('hello')
+      )
+    })
+
     it('累加多条消息', () => {
       const msgs = [
         makeMsg('1', 'user', 'hello'),
@@ -121,5 +135,54 @@ describe('ConversationOptimizer', () => {
       expect(result.optimizedTokens).toBeLessThanOrEqual(result.originalTokens)
       expect(result.pruned > 0 || result.summarized).toBe(true)
     })
+
+    it('摘要器用于阶段 3，失败时回退启发式摘要', async () => {
+      const msgs: OptimizerMessage[] = []
+      for (let i = 0; i < 10; i++) {
+        msgs.push(makeMsg(`m${i}`, i % 2 === 0 ? 'user' : 'assistant', `question ${i} ` + 'b'.repeat(400)))
+      }
+      const context = { contextWindow: 600, maxOutputTokens: 100 }
+
+      const summarize = vi.fn().mockResolvedValue({
+        goals: ['LLM goal'],
+        decisions: [],
+        openQuestions: [],
+        files: [],
+      })
+      const optimizer = new ConversationOptimizer()
+      optimizer.setSummarizer({ summarize })
+      const result = await optimizer.optimize(msgs, context)
+      expect(result.summarized).toBe(true)
+      expect(result.summaryText).toContain('LLM goal')
+      expect(summarize).toHaveBeenCalled()
+
+      summarize.mockRejectedValueOnce(new Error('no model'))
+      const fallback = await optimizer.optimize(msgs, context)
+      expect(fallback.summaryText).toContain('question 0')
+    })
+
+    it('已有结构化摘要时增量合并', async () => {
+      const previousSummary: OptimizerMessage = {
+        id: 's1',
+        role: 'system',
+        content: '[对话历史摘要] 以下是之前 4 条消息的摘要：\n\n## 目标\n- old goal\n\n请基于以上摘要继续对话。',
+        timestamp: new Date(),
+        isSummary: true,
+      }
+      const msgs: OptimizerMessage[] = [previousSummary]
+      for (let i = 0; i < 10; i++) {
+        msgs.push(makeMsg(`m${i}`, i % 2 === 0 ? 'user' : 'assistant', 'c'.repeat(400)))
+      }
+
+      const summarize = vi.fn().mockImplementation(async (_messages, previous) => previous)
+      const optimizer = new ConversationOptimizer()
+      optimizer.setSummarizer({ summarize })
+      const result = await optimizer.optimize(msgs, { contextWindow: 600, maxOutputTokens: 100 })
+
+      const [summarized, previous] = summarize.mock.calls[0]!
+      expect(previous.goals).toEqual(['old goal'])
+      expect(summarized.some((m: OptimizerMessage) => m.id === 's1')).toBe(false)
+      expect(result.summary?.goals).toEqual(['old goal'])
+    })
   })
 })
@@ -0,0 +1,249 @@
+import { describe, it, expect } from 'vitest'
+import {
+  ImportError,
+  parseImport,
+  renderFineTuneJsonl,
+  renderHtml,
+  renderMarkdown,
+  type ArchiveMessage,
+  type ConversationArchive,
+} from '../src/conversation-transfer.js'
+
+function message(id: string, parentId: string | null, overrides: Partial<ArchiveMessage> = {}) {
+  return {
+    id,
+    parentId,
+    role: 'user' as const,
+    content: id,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+// m1 → m2 ─┬→ m3 (main)
+//          └→ m4 (alt)；s1 为挂在 m1 上的摘要
+const archive: ConversationArchive = {
+  format: 'wqbot-archive',
+  version: 1,
+  exportedAt: '2024-01-02T00:00:00.000Z',
+  conversation: {
+    id: 'conv_1',
+    title: 'Tree <chat>',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T01:00:00.000Z',
+    activeBranchId: 'b_alt',
+  },
+  branches: [
+    { id: 'b_main', name: 'main', headMessageId: 'm3', createdAt: '', updatedAt: '' },
+    { id: 'b_alt', name: 'alt', headMessageId: 'm4', createdAt: '', updatedAt: '' },
+  ],
+  messages: [
+    message('m1', null, { role: 'system', content: 'Be terse', compactedAt: '2024-01-01' }),
+    message('s1', 'm1', { role: 'system', content: 'summary text', isSummary: true }),
+    message('m2', 'm1', { content: 'What is <b>?', isPinned: true }),
+    message('m3', 'm2', { role: 'assistant', content: 'first', metadata: { model: 'gpt-4o' } }),
+    message('m4', 'm2', {
+      role: 'assistant',
+      content: 'second',
+      parts: [
+        { type: 'text', text: 'second' },
+        { type: 'image', mimeType: 'image/png', blobId: 'a'.repeat(64) },
+      ],
+    }),
+  ],
+  blobs: { ['a'.repeat(64)]: 'iVBORw0=' },
+}
+
+describe('renderMarkdown', () => {
+  it('renders the active branch with system messages, summaries and flags', () => {
+    const md = renderMarkdown(archive)
+
+    expect(md).toContain('# Tree <chat>')
+    expect(md).toContain('*Branch: alt*')
+    expect(md).toContain('**System** (')
+    expect(md).toContain('**Summary** (')
+    expect(md).toContain('**User** 📌')
+    expect(md).toContain('second')
+    expect(md).not.toContain('first')
+    expect(md).toContain('📎 image/png')
+    expect(md.indexOf('Be terse')).toBeLessThan(md.indexOf('summary text'))
+  })
+})
+
+describe('renderHtml', () => {
+  it('produces a self-contained, escaped document', () => {
+    const html = renderHtml(archive)
+
+    expect(html).toMatch(/^<!DOCTYPE html>/)
+    expect(html).toContain('<title>Tree &lt;chat&gt;</title>')
+    expect(html).toContain('What is &lt;b&gt;?')
+    expect(html).toContain('src="data:image/png;base64,iVBORw0="')
+    expect(html).toContain('class="message system summary"')
+    expect(html).not.toMatch(/<link|<script/)
+  })
+
+  it('does not link attachments with unsafe URLs', () => {
+    const html = renderHtml({
+      ...archive,
+      messages: [
+        message('m1', null, {
+          parts: [
+            { type: 'file', mimeType: 'text/html', filename: 'x.html', url: 'javascript:alert(1)' },
+            { type: 'image', mimeType: 'image/png', url: ' JavaScript:alert(2)' },
+            { type: 'image', mimeType: 'image/png', url: 'https://example.com/a.png' },
+          ],
+        }),
+      ],
+      branches: [{ id: 'b', name: 'main', headMessageId: 'm1', createdAt: '', updatedAt: '' }],
+      conversation: { ...archive.conversation, activeBranchId: 'b' },
+    })
+
+    expect(html).not.toMatch(/javascript:/i)
+    expect(html).toContain('<span>📎 x.html</span>')
+    expect(html).toContain('src="https://example.com/a.png"')
+  })
+})
+
+describe('renderFineTuneJsonl', () => {
+  it('emits one training example per branch without summaries', () => {
+    const lines = renderFineTuneJsonl(archive).trim().split('\n')
+
+    expect(lines).toHaveLength(2)
+    expect(JSON.parse(lines[0]!)).toEqual({
+      messages: [
+        { role: 'system', content: 'Be terse' },
+        { role: 'user', content: 'What is <b>?' },
+        { role: 'assistant', content: 'first' },
+      ],
+    })
+    expect(JSON.parse(lines[1]!).messages.at(-1)).toEqual({ role: 'assistant', content: 'second' })
+  })
+})
+
+describe('parseImport', () => {
+  it('accepts WQBot archives', () => {
+    const [parsed] = parseImport(JSON.parse(JSON.stringify(archive)))
+    expect(parsed!.messages).toHaveLength(5)
+    expect(parsed!.blobs).toEqual(archive.blobs)
+  })
+
+  it('converts ChatGPT exports, keeping the tree and skipping hidden nodes', () => {
+    const [parsed] = parseImport([
+      {
+        title: 'Trip ideas',
+        create_time: 1700000000,
+        update_time: 1700000100,
+        current_node: 'a2',
+        mapping: {
+          root: { parent: null, message: null },
+          sys: {
+            parent: 'root',
+            message: {
+              author: { role: 'system' },
+              content: { content_type: 'text', parts: [''] },
+              metadata: { is_visually_hidden_from_conversation: true },
+            },
+          },
+          u1: {
+            parent: 'sys',
+            message: {
+              author: { role: 'user' },
+              create_time: 1700000010,
+              content: { content_type: 'text', parts: ['Where to go?'] },
+            },
+          },
+          a1: {
+            parent: 'u1',
+            message: {
+              author: { role: 'assistant' },
+              create_time: 1700000020,
+              content: { content_type: 'text', parts: ['Paris'] },
+              metadata: { model_slug: 'gpt-4o' },
+            },
+          },
+          a2: {
+            parent: 'u1',
+            message: {
+              author: { role: 'assistant' },
+              create_time: 1700000030,
+              content: { content_type: 'text', parts: ['Rome'] },
+            },
+          },
+        },
+      },
+    ])
+
+    expect(parsed!.conversation.title).toBe('Trip ideas')
+    expect(parsed!.conversation.createdAt).toBe(new Date(1700000000 * 1000).toISOString())
+    expect(parsed!.messages.map((m) => [m.id, m.parentId])).toEqual([
+      ['u1', null],
+      ['a1', 'u1'],
+      ['a2', 'u1'],
+    ])
+    expect(parsed!.messages[1]!.metadata).toEqual({ model: 'gpt-4o' })
+    expect(parsed!.branches.map((b) => [b.name, b.headMessageId])).toEqual([
+      ['main', 'a2'],
+      ['branch-2', 'a1'],
+    ])
+  })
+
+  it('converts linear Claude exports with attachments', () => {
+    const [parsed] = parseImport({
+      uuid: 'c1',
+      name: 'Refactor',
+      created_at: '2024-05-01T10:00:00Z',
+      updated_at: '2024-05-01T11:00:00Z',
+      chat_messages: [
+        {
+          uuid: 'h1',
+          sender: 'human',
+          text: 'Review this',
+          created_at: '2024-05-01T10:00:00Z',
+          attachments: [{ file_name: 'a.ts', extracted_content: 'const a = 1' }],
+        },
+        {
+          uuid: 'r1',
+          sender: 'assistant',
+          content: [{ type: 'text', text: 'Looks fine' }],
+          created_at: '2024-05-01T10:01:00Z',
+        },
+      ],
+    })
+
+    expect(parsed!.conversation.title).toBe('Refactor')
+    expect(parsed!.messages[1]).toMatchObject({
+      parentId: 'h1',
+      role: 'assistant',
+      content: 'Looks fine',
+    })
+    expect(parsed!.messages[0]!.parts?.[1]).toEqual({
+      type: 'file',
+      mimeType: 'text/plain',
+      filename: 'a.ts',
+      data: Buffer.from('const a = 1').toString('base64'),
+    })
+    expect(parsed!.branches).toHaveLength(1)
+    expect(parsed!.branches[0]!.headMessageId).toBe('r1')
+  })
+
+  it('rejects archives with invalid content parts', () => {
+    const withParts = (parts: unknown[]) => ({
+      ...JSON.parse(JSON.stringify(archive)),
+      messages: [message('m1', null, { parts: parts as never })],
+    })
+
+    expect(() =>
+      parseImport(withParts([{ type: 'file', mimeType: 'text/plain', url: 'javascript:alert(1)' }]))
+    ).toThrow(/messages\.0\.parts\.0\.url/)
+    expect(() => parseImport(withParts([{ type: 'script', src: 'x' }]))).toThrow(ImportError)
+    expect(() => parseImport(withParts([{ type: 'image' }]))).toThrow(/mimeType/)
+  })
+
+  it('rejects unknown data', () => {
+    expect(() => parseImport({ foo: 1 })).toThrow(ImportError)
+    expect(() => parseImport([])).toThrow('Nothing to import')
+    expect(() => parseImport({ format: 'wqbot-archive', version: 1 })).toThrow(
+      /Invalid WQBot archive data/
+    )
+  })
+})
@@ -12,6 +12,17 @@ vi.mock('../src/database.js', () => ({
   getDatabase: () => mockDb,
 }))
 
+// 附件落盘：data 替换为固定 blobId
+const mockBlobStore = {
+  persistParts: vi.fn((parts: { type: string; data?: string }[]) =>
+    parts.map(({ data, ...rest }) => (data ? { ...rest, blobId: 'blob_1' } : rest))
+  ),
+}
+
+vi.mock('../src/blob-store.js', () => ({
+  getBlobStore: () => mockBlobStore,
+}))
+
 vi.mock('@wqbot/core', () => ({
   createModuleLogger: () => ({
     debug: vi.fn(),
@@ -20,9 +31,47 @@ vi.mock('@wqbot/core', () => ({
     error: vi.fn(),
   }),
   generateId: (prefix: string) => `${prefix}_test123`,
+  getTokenEncoding: () => 'cl100k_base',
+  countTokensWithEncoding: (text: string) => Math.ceil(text.length / 4),
+  DEFAULT_TOKEN_ENCODING: 'cl100k_base',
 }))
 
-import { ConversationStore, getConversationStore, initializeConversationStore } from '../src/conversation.js'
+import {
+  BranchError,
+  ConversationStore,
+  getConversationStore,
+  initializeConversationStore,
+} from '../src/conversation.js'
+
+function messageRow(id: string, parentId: string | null, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    conversation_id: 'conv_123',
+    role: 'user',
+    content: id,
+    timestamp: '2024-01-01T00:00:00Z',
+    metadata: null,
+    compacted_at: null,
+    is_summary: 0,
+    token_count: null,
+    is_pinned: 0,
+    parts: null,
+    parent_id: parentId,
+    ...overrides,
+  }
+}
+
+function branchRow(headMessageId: string | null, overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'branch_main',
+    conversation_id: 'conv_123',
+    name: 'main',
+    head_message_id: headMessageId,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
 
 describe('ConversationStore', () => {
   let store: ConversationStore
@@ -62,7 +111,7 @@ describe('ConversationStore', () => {
     })
 
     it('returns conversation with messages', () => {
-      // First call: get conversation, Second call: check for summary
+      // conversation row → active branch → no summary on the path
       mockDb.queryOne
         .mockReturnValueOnce({
           id: 'conv_123',
@@ -70,29 +119,19 @@ describe('ConversationStore', () => {
           created_at: '2024-01-01T00:00:00Z',
           updated_at: '2024-01-01T01:00:00Z',
           metadata: null,
+          active_branch_id: 'branch_main',
         })
-        .mockReturnValueOnce(null) // No summary message
+        .mockReturnValueOnce(branchRow('msg_1'))
+        .mockReturnValueOnce(null)
 
-      mockDb.query.mockReturnValue([
-        {
-          id: 'msg_1',
-          conversation_id: 'conv_123',
-          role: 'user',
-          content: 'Hello',
-          timestamp: '2024-01-01T00:30:00Z',
-          metadata: null,
-          compacted_at: null,
-          is_summary: 0,
-          token_count: null,
-          is_pinned: 0,
-        },
-      ])
+      mockDb.query.mockReturnValueOnce([messageRow('msg_1', null, { content: 'Hello' })])
 
       const conversation = store.getConversation('conv_123')
 
       expect(conversation).toBeDefined()
       expect(conversation!.id).toBe('conv_123')
       expect(conversation!.title).toBe('Test Chat')
+      expect(conversation!.activeBranchId).toBe('branch_main')
       expect(conversation!.messages.length).toBe(1)
     })
   })
@@ -148,6 +187,40 @@ describe('ConversationStore', () => {
     })
   })
 
+  describe('conversation metadata', () => {
+    it('returns undefined for a missing conversation', () => {
+      mockDb.queryOne.mockReturnValueOnce(null)
+
+      expect(store.getConversationMetadata('missing')).toBeUndefined()
+      expect(store.updateConversationMetadata('missing', { rag: true })).toBeUndefined()
+      expect(mockDb.run).not.toHaveBeenCalled()
+    })
+
+    it('merges keys and removes null values', () => {
+      mockDb.queryOne.mockReturnValueOnce({
+        metadata: JSON.stringify({ rag: { enabled: false }, pinnedModel: 'gpt-4o' }),
+      })
+
+      const metadata = store.updateConversationMetadata('conv_123', {
+        rag: { enabled: true, collection: 'docs' },
+        pinnedModel: null,
+      })
+
+      expect(metadata).toEqual({ rag: { enabled: true, collection: 'docs' } })
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE conversations SET metadata'),
+        [JSON.stringify(metadata), expect.any(String), 'conv_123']
+      )
+    })
+
+    it('stores NULL when every key is removed', () => {
+      mockDb.queryOne.mockReturnValueOnce({ metadata: JSON.stringify({ rag: { enabled: true } }) })
+
+      expect(store.updateConversationMetadata('conv_123', { rag: null })).toEqual({})
+      expect(mockDb.run.mock.calls[0]![1]![0]).toBeNull()
+    })
+  })
+
   describe('deleteConversation', () => {
     it('deletes conversation and its messages', () => {
       mockDb.run.mockReturnValue({ changes: 1, lastInsertRowid: 0 })
@@ -183,89 +256,202 @@ describe('ConversationStore', () => {
       expect(message.content).toBe('Hi there!')
       expect(message.metadata).toEqual({ model: 'gpt-4' })
     })
+
+    it('stores attachment data as blob references', () => {
+      mockDb.run.mockReturnValue({ changes: 1, lastInsertRowid: 1 })
+
+      const message = store.addMessage('conv_123', {
+        role: 'user',
+        content: 'What is this?',
+        parts: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image', mimeType: 'image/png', data: 'aGVsbG8=' },
+        ],
+      })
+
+      const expectedParts = [
+        { type: 'text', text: 'What is this?' },
+        { type: 'image', mimeType: 'image/png', blobId: 'blob_1' },
+      ]
+      expect(message.parts).toEqual(expectedParts)
+      const insertParams = mockDb.run.mock.calls[0]![1] as unknown[]
+      expect(insertParams[6]).toBe(JSON.stringify(expectedParts))
+    })
+
+    it('caches token_count and encoding on insert', () => {
+      mockDb.run.mockReturnValue({ changes: 1, lastInsertRowid: 1 })
+
+      const message = store.addMessage('conv_123', {
+        role: 'user',
+        content: 'Hello world!',
+        model: 'gpt-4o',
+      })
+
+      expect(message.tokenCount).toBe(3)
+      const insertParams = mockDb.run.mock.calls[0]![1] as unknown[]
+      expect(insertParams.slice(7, 9)).toEqual([3, 'cl100k_base'])
+    })
   })
 
   describe('getMessages', () => {
-    it('returns messages in order', () => {
-      mockDb.queryOne.mockReturnValue(null) // No summary
-      mockDb.query.mockReturnValue([
-        {
-          id: 'msg_1',
-          conversation_id: 'conv_123',
-          role: 'user',
-          content: 'Hello',
-          timestamp: '2024-01-01T00:00:00Z',
-          metadata: null,
-          compacted_at: null,
-          is_summary: 0,
-          token_count: 10,
-          is_pinned: 0,
-        },
-        {
-          id: 'msg_2',
-          conversation_id: 'conv_123',
-          role: 'assistant',
-          content: 'Hi!',
-          timestamp: '2024-01-01T00:01:00Z',
-          metadata: null,
-          compacted_at: null,
-          is_summary: 0,
-          token_count: 5,
-          is_pinned: 1,
-        },
-      ])
+    it('returns the active branch path from root to head', () => {
+      mockDb.queryOne.mockReturnValueOnce(branchRow('msg_2')).mockReturnValueOnce(null)
+      mockDb.query
+        .mockReturnValueOnce([
+          messageRow('msg_1', null, { token_count: 10 }),
+          messageRow('msg_2', 'msg_1', { role: 'assistant', is_pinned: 1 }),
+        ])
+        .mockReturnValueOnce([
+          { id: 'msg_1', parent_id: null },
+          { id: 'msg_2', parent_id: 'msg_1' },
+          { id: 'msg_3', parent_id: 'msg_1' },
+        ])
 
       const messages = store.getMessages('conv_123')
 
       expect(messages.length).toBe(2)
       expect(messages[0]!.role).toBe('user')
+      expect(messages[0]!.siblingIds).toBeUndefined()
       expect(messages[1]!.isPinned).toBe(true)
+      expect(messages[1]!.parentId).toBe('msg_1')
+      expect(messages[1]!.siblingIds).toEqual(['msg_2', 'msg_3'])
+      expect(mockDb.query.mock.calls[0]![0]).toContain('WITH RECURSIVE path')
+      expect(mockDb.query.mock.calls[0]![1]).toEqual(['msg_2'])
     })
 
-    it('stops at summary message when present', () => {
-      mockDb.queryOne.mockReturnValue({
-        id: 'msg_summary',
-        conversation_id: 'conv_123',
-        role: 'system',
-        content: 'Summary of earlier messages',
-        timestamp: '2024-01-01T01:00:00Z',
-        metadata: null,
-        compacted_at: null,
-        is_summary: 1,
-        token_count: 100,
-        is_pinned: 0,
+    it('starts at the summary attached to the path', () => {
+      mockDb.queryOne.mockReturnValueOnce(branchRow('msg_3')).mockReturnValueOnce({
+        ...messageRow('msg_summary', 'msg_2', { role: 'system', is_summary: 1 }),
+        cover_depth: 1,
       })
-      mockDb.query.mockReturnValue([
-        {
-          id: 'msg_summary',
-          conversation_id: 'conv_123',
-          role: 'system',
-          content: 'Summary of earlier messages',
-          timestamp: '2024-01-01T01:00:00Z',
-          metadata: null,
-          compacted_at: null,
-          is_summary: 1,
-          token_count: 100,
-          is_pinned: 0,
-        },
-        {
-          id: 'msg_after',
-          conversation_id: 'conv_123',
-          role: 'user',
-          content: 'After summary',
-          timestamp: '2024-01-01T01:30:00Z',
-          metadata: null,
-          compacted_at: null,
-          is_summary: 0,
-          token_count: 5,
-          is_pinned: 0,
-        },
+      mockDb.query.mockReturnValueOnce([
+        messageRow('msg_1', null),
+        messageRow('msg_2', 'msg_1'),
+        messageRow('msg_3', 'msg_2'),
       ])
 
       const messages = store.getMessages('conv_123')
 
-      // Should include summary and messages after
-      expect(messages.some((m) => m.isSummary)).toBe(true)
+      expect(messages.map((m) => m.id)).toEqual(['msg_summary', 'msg_3'])
+      expect(messages[0]!.isSummary).toBe(true)
+    })
+
+    it('returns nothing for an empty branch', () => {
+      mockDb.queryOne.mockReturnValueOnce(branchRow(null))
+
+      expect(store.getMessages('conv_123')).toEqual([])
+    })
+  })
+
+  describe('branches', () => {
+    it('appends new messages to the active branch head', () => {
+      mockDb.queryOne.mockReturnValueOnce(branchRow('msg_prev'))
+
+      const message = store.addMessage('conv_123', { role: 'user', content: 'next' })
+
+      expect(message.parentId).toBe('msg_prev')
+      const insertParams = mockDb.run.mock.calls[0]![1] as unknown[]
+      expect(insertParams[9]).toBe('msg_prev')
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE conversation_branches SET head_message_id'),
+        [message.id, expect.any(String), 'branch_main']
+      )
+    })
+
+    it('keeps replies reachable when the parent is no longer the head', () => {
+      mockDb.queryOne.mockReturnValueOnce(branchRow('msg_other'))
+      mockDb.query.mockReturnValueOnce([{ name: 'main' }])
+
+      const message = store.addMessage('conv_123', {
+        role: 'assistant',
+        content: 'late reply',
+        parentId: 'msg_user',
+      })
+
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO conversation_branches'),
+        [
+          expect.any(String),
+          'conv_123',
+          'branch-2',
+          message.id,
+          expect.any(String),
+          expect.any(String),
+        ]
+      )
+    })
+
+    it('rejects duplicate branch names', () => {
+      mockDb.queryOne
+        .mockReturnValueOnce(branchRow('msg_1'))
+        .mockReturnValueOnce({ id: 'branch_x' })
+
+      expect(() => store.createBranch('conv_123', { name: 'main' })).toThrow(BranchError)
+    })
+
+    it('edits a user message as a new sibling on a new branch', () => {
+      mockDb.queryOne
+        .mockReturnValueOnce(messageRow('msg_3', 'msg_2')) // original
+        .mockReturnValueOnce(messageRow('msg_2', 'msg_1', { role: 'assistant' })) // fork point
+        .mockReturnValueOnce(null) // name is free
+        .mockReturnValueOnce(branchRow('msg_2', { id: 'branch_new', name: 'branch-2' })) // now active
+      mockDb.query.mockReturnValueOnce([{ name: 'main' }])
+
+      const { message, branch } = store.editMessage('conv_123', 'msg_3', { content: 'edited' })
+
+      expect(branch.name).toBe('branch-2')
+      expect(branch.headMessageId).toBe(message.id)
+      expect(message.parentId).toBe('msg_2')
+      expect(message.content).toBe('edited')
+    })
+
+    it('only regenerates assistant messages', () => {
+      mockDb.queryOne.mockReturnValueOnce(messageRow('msg_1', null))
+
+      expect(() => store.branchForRegenerate('conv_123', 'msg_1')).toThrow(
+        'Assistant message not found'
+      )
+    })
+
+    it('forks regeneration at the parent of the reply', () => {
+      mockDb.queryOne
+        .mockReturnValueOnce(messageRow('msg_2', 'msg_1', { role: 'assistant' }))
+        .mockReturnValueOnce(messageRow('msg_1', null))
+        .mockReturnValueOnce(null)
+      mockDb.query.mockReturnValueOnce([{ name: 'main' }])
+
+      const { branch, parentId } = store.branchForRegenerate('conv_123', 'msg_2')
+
+      expect(parentId).toBe('msg_1')
+      expect(branch.headMessageId).toBe('msg_1')
+      expect(branch.isActive).toBe(true)
+    })
+
+    it('switches to the branch containing a sibling message', () => {
+      mockDb.queryOne
+        .mockReturnValueOnce(messageRow('msg_3', 'msg_1'))
+        .mockReturnValueOnce(branchRow('msg_2'))
+      mockDb.query.mockReturnValueOnce([branchRow('msg_4', { id: 'branch_alt', name: 'alt' })])
+
+      const branch = store.switchToMessage('conv_123', 'msg_3')
+
+      expect(branch.id).toBe('branch_alt')
+      expect(mockDb.run).toHaveBeenCalledWith(
+        'UPDATE conversations SET active_branch_id = ? WHERE id = ?',
+        ['branch_alt', 'conv_123']
+      )
+    })
+
+    it('throws BranchError for unknown branches', () => {
+      mockDb.queryOne.mockReturnValueOnce(null)
+
+      try {
+        store.switchBranch('conv_123', 'nope')
+        expect.unreachable()
+      } catch (error) {
+        expect(error).toBeInstanceOf(BranchError)
+        expect((error as BranchError).code).toBe('not_found')
+      }
     })
   })
 
@@ -276,8 +462,12 @@ describe('ConversationStore', () => {
           conversation_id: 'conv_123',
           conversation_title: 'Test Chat',
           message_id: 'msg_1',
+          role: 'user',
           content: 'Hello world',
+          snippet: '<mark>Hello</mark> world',
           timestamp: '2024-01-01T00:00:00Z',
+          is_pinned: 1,
+          score: -2.5,
         },
       ])
 
@@ -286,6 +476,88 @@ describe('ConversationStore', () => {
       expect(results.length).toBe(1)
       expect(results[0]!.conversationId).toBe('conv_123')
       expect(results[0]!.content).toBe('Hello world')
+      expect(results[0]!.snippet).toBe('<mark>Hello</mark> world')
+      expect(results[0]!.isPinned).toBe(true)
+      expect(results[0]!.relevance).toBe(2.5)
+
+      const [sql, params] = mockDb.query.mock.calls[0]!
+      expect(sql).toContain('messages_fts MATCH ?')
+      expect(sql).toContain('ORDER BY score')
+      expect(params).toEqual(['"hello"', 20])
+    })
+
+    it('quotes terms so FTS syntax in user input is treated literally', () => {
+      store.search('foo" OR bar* -baz')
+
+      const [sql, params] = mockDb.query.mock.calls[0]!
+      expect(params[0]).toBe('"foo""" "bar" "-baz"')
+      // trigram 无法索引的短词走 LIKE
+      expect(sql).toContain("m.content LIKE ? ESCAPE '\\'")
+      expect(params[1]).toBe('%OR%')
+    })
+
+    it('matches Chinese phrases through the trigram index', () => {
+      store.search('向量数据库 "索引 结构"')
+
+      const [sql, params] = mockDb.query.mock.calls[0]!
+      expect(sql).toContain('messages_fts MATCH ?')
+      expect(params[0]).toBe('"向量数据库" "索引 结构"')
+    })
+
+    it('falls back to LIKE with generated snippets when every term is short', () => {
+      mockDb.query.mockReturnValue([
+        {
+          conversation_id: 'conv_123',
+          conversation_title: 'Test Chat',
+          message_id: 'msg_1',
+          role: 'user',
+          content: '如何设计数据表',
+          snippet: null,
+          timestamp: '2024-01-01T00:00:00Z',
+          is_pinned: 0,
+          score: 0,
+        },
+      ])
+
+      const results = store.search('数据')
+
+      const [sql, params] = mockDb.query.mock.calls[0]!
+      expect(sql).not.toContain('MATCH')
+      expect(sql).toContain('ORDER BY m.timestamp DESC')
+      expect(params).toEqual(['%数据%', 20])
+      expect(results[0]!.snippet).toBe('如何设计<mark>数据</mark>表')
+    })
+
+    it('applies role, conversation, pinned and date filters', () => {
+      store.search('hello', {
+        role: 'assistant',
+        conversationId: 'conv_123',
+        pinned: true,
+        from: new Date('2024-01-01T00:00:00Z'),
+        to: new Date('2024-02-01T00:00:00Z'),
+        limit: 5,
+      })
+
+      const [sql, params] = mockDb.query.mock.calls[0]!
+      expect(sql).toContain('m.role = ?')
+      expect(sql).toContain('m.conversation_id = ?')
+      expect(sql).toContain('m.is_pinned = ?')
+      expect(sql).toContain('m.timestamp >= ?')
+      expect(sql).toContain('m.timestamp <= ?')
+      expect(params).toEqual([
+        '"hello"',
+        'assistant',
+        'conv_123',
+        1,
+        '2024-01-01T00:00:00.000Z',
+        '2024-02-01T00:00:00.000Z',
+        5,
+      ])
+    })
+
+    it('returns nothing for an empty query', () => {
+      expect(store.search('   ')).toEqual([])
+      expect(mockDb.query).not.toHaveBeenCalled()
     })
   })
 
@@ -311,30 +583,17 @@ describe('ConversationStore', () => {
     })
 
     it('exports to Markdown format', () => {
-      mockDb.queryOne
-        .mockReturnValueOnce({
-          id: 'conv_123',
-          title: 'Test Chat',
-          created_at: '2024-01-01T00:00:00Z',
-          updated_at: '2024-01-01T01:00:00Z',
-          metadata: null,
-        })
-        .mockReturnValueOnce(null) // No summary
-
-      mockDb.query.mockReturnValue([
-        {
-          id: 'msg_1',
-          conversation_id: 'conv_123',
-          role: 'user',
-          content: 'Hello',
-          timestamp: '2024-01-01T00:00:00Z',
-          metadata: null,
-          compacted_at: null,
-          is_summary: 0,
-          token_count: null,
-          is_pinned: 0,
-        },
-      ])
+      mockDb.queryOne.mockReturnValueOnce({
+        id: 'conv_123',
+        title: 'Test Chat',
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T01:00:00Z',
+        metadata: null,
+        active_branch_id: 'branch_main',
+      })
+      mockDb.query
+        .mockReturnValueOnce([branchRow('msg_1')])
+        .mockReturnValueOnce([messageRow('msg_1', null, { content: 'Hello' })])
 
       const exported = store.export('conv_123', 'md')
 
@@ -343,6 +602,46 @@ describe('ConversationStore', () => {
       expect(exported).toContain('Hello')
     })
 
+    it('exports a lossless archive with every branch', () => {
+      mockDb.queryOne.mockReturnValueOnce({
+        id: 'conv_123',
+        title: 'Test Chat',
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T01:00:00Z',
+        metadata: '{"tag":"x"}',
+        active_branch_id: 'branch_main',
+      })
+      mockDb.query
+        .mockReturnValueOnce([
+          branchRow('msg_2'),
+          branchRow('msg_3', { id: 'branch_alt', name: 'alt' }),
+        ])
+        .mockReturnValueOnce([
+          messageRow('msg_1', null, {
+            is_pinned: 1,
+            token_count: 4,
+            token_encoding: 'cl100k_base',
+          }),
+          messageRow('msg_2', 'msg_1', { role: 'assistant' }),
+          messageRow('msg_3', 'msg_1', { role: 'assistant', compacted_at: '2024-01-02' }),
+        ])
+
+      const archive = JSON.parse(store.export('conv_123', 'wqbot'))
+
+      expect(archive.format).toBe('wqbot-archive')
+      expect(archive.conversation).toMatchObject({
+        metadata: { tag: 'x' },
+        activeBranchId: 'branch_main',
+      })
+      expect(archive.branches.map((b: { name: string }) => b.name)).toEqual(['main', 'alt'])
+      expect(archive.messages[0]).toMatchObject({
+        isPinned: true,
+        tokenCount: 4,
+        tokenEncoding: 'cl100k_base',
+      })
+      expect(archive.messages[2]).toMatchObject({ parentId: 'msg_1', compactedAt: '2024-01-02' })
+    })
+
     it('throws for non-existent conversation', () => {
       mockDb.queryOne.mockReturnValue(null)
 
@@ -350,6 +649,84 @@ describe('ConversationStore', () => {
     })
   })
 
+  describe('importConversations', () => {
+    it('creates a new conversation with remapped ids and preserved timestamps', () => {
+      mockDb.queryOne.mockReturnValue(null)
+
+      store.importConversations({
+        format: 'wqbot-archive',
+        version: 1,
+        exportedAt: '2024-02-01T00:00:00Z',
+        conversation: {
+          id: 'old_conv',
+          title: 'Imported',
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-05T00:00:00Z',
+          activeBranchId: 'old_branch',
+        },
+        branches: [
+          {
+            id: 'old_branch',
+            name: 'main',
+            headMessageId: 'old_2',
+            createdAt: 'c',
+            updatedAt: 'u',
+          },
+        ],
+        messages: [
+          {
+            id: 'old_1',
+            parentId: null,
+            role: 'user',
+            content: 'hi',
+            timestamp: '2024-01-01T00:01:00Z',
+          },
+          {
+            id: 'old_2',
+            parentId: 'old_1',
+            role: 'assistant',
+            content: 'hello',
+            timestamp: '2024-01-01T00:02:00Z',
+            isPinned: true,
+            tokenCount: 9,
+            tokenEncoding: 'o200k_base',
+          },
+        ],
+      })
+
+      const calls = mockDb.run.mock.calls as [string, unknown[]][]
+      const [convSql, convParams] = calls[0]!
+      expect(convSql).toContain('INSERT INTO conversations')
+      const newConvId = convParams[0]
+      expect(newConvId).not.toBe('old_conv')
+      expect(convParams.slice(1, 4)).toEqual([
+        'Imported',
+        '2024-01-01T00:00:00Z',
+        '2024-01-05T00:00:00Z',
+      ])
+
+      const [, first] = calls[1]!
+      const [, second] = calls[2]!
+      expect(first[0]).not.toBe('old_1')
+      expect(first[4]).toBe('2024-01-01T00:01:00Z')
+      expect(second[9]).toBe(first[0]) // parent_id 指向新 ID
+      expect(second.slice(7, 9)).toEqual([9, 'o200k_base'])
+      expect(second[12]).toBe(1)
+
+      const [branchSql, branchParams] = calls[3]!
+      expect(branchSql).toContain('INSERT INTO conversation_branches')
+      expect(branchParams[0]).toBe(convParams[5])
+      expect(branchParams[3]).toBe(second[0])
+    })
+
+    it('rejects unsupported data', () => {
+      expect(() => store.importConversations({ hello: 'world' })).toThrow(
+        'Unsupported import format'
+      )
+      expect(mockDb.run).not.toHaveBeenCalled()
+    })
+  })
+
   describe('pinMessage / unpinMessage / isPinned', () => {
     it('pins a message', () => {
       mockDb.run.mockReturnValue({ changes: 1, lastInsertRowid: 0 })
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { buildFtsQuery, highlightSnippet, normalizeQuery, tokenizeQuery } from '../src/fts.js'
+
+describe('normalizeQuery', () => {
+  it('converts full-width characters and collapses whitespace', () => {
+    expect(normalizeQuery('  ＳＱＬｉｔｅ　 索引 ')).toBe('SQLite 索引')
+  })
+})
+
+describe('tokenizeQuery', () => {
+  it('keeps quoted phrases and drops trailing wildcards and duplicates', () => {
+    expect(tokenizeQuery('"hello world" foo* foo')).toEqual(['hello world', 'foo'])
+  })
+
+  it('treats an unterminated quote as part of a term', () => {
+    expect(tokenizeQuery('foo"')).toEqual(['foo"'])
+  })
+})
+
+describe('buildFtsQuery', () => {
+  it('returns null when there is nothing to search', () => {
+    expect(buildFtsQuery('   ')).toBeNull()
+    expect(buildFtsQuery('* ""')).toBeNull()
+  })
+
+  it('quotes every term so FTS operators are literal', () => {
+    const query = buildFtsQuery('NEAR(foo bar) AND baz')!
+    expect(query.match).toBe('"NEAR(foo" "bar)" "AND" "baz"')
+    expect(query.likes).toEqual([])
+  })
+
+  it('routes terms shorter than a trigram to LIKE patterns', () => {
+    const query = buildFtsQuery('数据 向量数据库 %_')!
+    expect(query.match).toBe('"向量数据库"')
+    expect(query.likes).toEqual(['%数据%', '%\\%\\_%'])
+    expect(query.terms).toEqual(['数据', '向量数据库', '%_'])
+  })
+
+  it('has no MATCH expression when every term is short', () => {
+    expect(buildFtsQuery('数据 表')).toEqual({
+      match: null,
+      likes: ['%数据%', '%表%'],
+      terms: ['数据', '表'],
+    })
+  })
+})
+
+describe('highlightSnippet', () => {
+  it('marks every occurrence case-insensitively', () => {
+    expect(highlightSnippet('Data and data', ['data'])).toBe(
+      '<mark>Data</mark> and <mark>data</mark>'
+    )
+  })
+
+  it('centres long content around the first hit', () => {
+    const content = 'x'.repeat(100) + '数据' + 'y'.repeat(100)
+    const snippet = highlightSnippet(content, ['数据'], 20)
+    expect(snippet.startsWith('…')).toBe(true)
+    expect(snippet.endsWith('…')).toBe(true)
+    expect(snippet).toContain('<mark>数据</mark>')
+  })
+})
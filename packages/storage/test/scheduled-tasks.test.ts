@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const mockDb = {
+  run: vi.fn(),
+  query: vi.fn().mockReturnValue([]),
+  queryOne: vi.fn().mockReturnValue(undefined),
+  transaction: vi.fn((fn) => fn()),
+}
+
+vi.mock('../src/database.js', () => ({
+  getDatabase: () => mockDb,
+}))
+
+import { ScheduledTaskStore } from '../src/scheduled-tasks.js'
+
+describe('ScheduledTaskStore', () => {
+  let store: ScheduledTaskStore
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    store = new ScheduledTaskStore()
+  })
+
+  it('returns undefined for tasks without persisted state', () => {
+    expect(store.loadState('backup')).toBeUndefined()
+  })
+
+  it('maps persisted state to dates and flags', () => {
+    mockDb.queryOne.mockReturnValueOnce({
+      id: 'backup',
+      enabled: 0,
+      last_run: '2024-01-01T04:00:00.000Z',
+      next_run: null,
+      run_count: 3,
+    })
+
+    expect(store.loadState('backup')).toEqual({
+      taskId: 'backup',
+      enabled: false,
+      runCount: 3,
+      lastRun: new Date('2024-01-01T04:00:00.000Z'),
+    })
+  })
+
+  it('upserts state with ISO timestamps', () => {
+    store.saveState({
+      taskId: 'knowledge-index',
+      enabled: true,
+      runCount: 2,
+      nextRun: new Date('2024-01-01T05:00:00.000Z'),
+    })
+
+    const [sql, params] = mockDb.run.mock.calls[0]!
+    expect(sql).toContain('ON CONFLICT(id) DO UPDATE')
+    expect(params.slice(0, 5)).toEqual(['knowledge-index', 1, null, '2024-01-01T05:00:00.000Z', 2])
+  })
+
+  it('records executions and prunes old ones in one transaction', () => {
+    store.recordExecution({
+      taskId: 'backup',
+      startTime: new Date('2024-01-01T04:00:00.000Z'),
+      endTime: new Date('2024-01-01T04:00:01.000Z'),
+      status: 'failed',
+      result: { success: false, error: 'disk full', duration: 1000 },
+    })
+
+    expect(mockDb.transaction).toHaveBeenCalledTimes(1)
+    expect(mockDb.run.mock.calls[0]![1]).toEqual([
+      'backup',
+      'failed',
+      '2024-01-01T04:00:00.000Z',
+      '2024-01-01T04:00:01.000Z',
+      1000,
+      null,
+      'disk full',
+    ])
+    expect(mockDb.run.mock.calls[1]![0]).toContain('DELETE FROM task_executions')
+  })
+
+  it('truncates large outputs', () => {
+    store.recordExecution({
+      taskId: 'code-analysis',
+      startTime: new Date(),
+      status: 'completed',
+      result: { success: true, output: { log: 'x'.repeat(20000) } },
+    })
+
+    const output = mockDb.run.mock.calls[0]![1][5] as string
+    expect(output.length).toBeLessThan(10100)
+    expect(typeof JSON.parse(output)).toBe('string')
+  })
+
+  it('loads executions newest first with parsed output', () => {
+    mockDb.query.mockReturnValueOnce([
+      {
+        id: 2,
+        task_id: 'backup',
+        status: 'completed',
+        started_at: '2024-01-02T04:00:00.000Z',
+        ended_at: '2024-01-02T04:00:02.000Z',
+        duration: 2000,
+        output: '{"file":"wqbot.db"}',
+        error: null,
+      },
+    ])
+
+    const [execution] = store.getExecutions('backup', 5)
+
+    expect(mockDb.query.mock.calls[0]![1]).toEqual(['backup', 5])
+    expect(execution).toEqual({
+      taskId: 'backup',
+      startTime: new Date('2024-01-02T04:00:00.000Z'),
+      endTime: new Date('2024-01-02T04:00:02.000Z'),
+      status: 'completed',
+      result: { success: true, output: { file: 'wqbot.db' }, duration: 2000 },
+    })
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('@wqbot/core', async (importOriginal) => ({
+  createModuleLogger: () => ({
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+  parseJsonObject: (await importOriginal<typeof import('@wqbot/core')>()).parseJsonObject,
+}))
+
+import {
+  HeuristicSummarizer,
+  LLMSummarizer,
+  parseSummaryJson,
+  parseSummaryText,
+  renderSummary,
+  type ConversationSummary,
+} from '../src/summarizer.js'
+
+const summary: ConversationSummary = {
+  goals: ['Add retry to the model router'],
+  decisions: ['Use exponential backoff'],
+  openQuestions: ['Should 409 be retried?'],
+  files: ['packages/models/src/model-router.ts'],
+  notes: 'maxRetries is set to 0 on the SDK',
+}
+
+describe('renderSummary / parseSummaryText', () => {
+  it('round-trips a structured summary', () => {
+    const text = renderSummary(summary, 12)
+    expect(text).toContain('12 条消息')
+    expect(text).toContain('## 涉及文件')
+    expect(parseSummaryText(text)).toEqual(summary)
+  })
+
+  it('omits empty sections', () => {
+    const text = renderSummary({ goals: ['a'], decisions: [], openQuestions: [], files: [] }, 2)
+    expect(text).not.toContain('## 决策')
+  })
+
+  it('returns undefined for unstructured text', () => {
+    expect(parseSummaryText('hello')).toBeUndefined()
+  })
+})
+
+describe('parseSummaryJson', () => {
+  it('extracts JSON from a fenced code block', () => {
+    const parsed = parseSummaryJson('Here you go:\n```json\n{"goals":["x"],"files":["a.ts"]}\n```')
+    expect(parsed).toEqual({ goals: ['x'], decisions: [], openQuestions: [], files: ['a.ts'] })
+  })
+
+  it('throws when no JSON is present', () => {
+    expect(() => parseSummaryJson('no summary')).toThrow()
+  })
+})
+
+describe('HeuristicSummarizer', () => {
+  it('extracts goals, files, decisions and open questions', async () => {
+    const result = await new HeuristicSummarizer().summarize([
+      { role: 'user', content: 'Fix the login bug in src/auth/login.ts\nit crashes' },
+      { role: 'assistant', content: 'We decided to switch to bcryptjs.\nSee `package.json`.' },
+      { role: 'user', content: 'Does it work on Windows?' },
+    ])
+
+    expect(result.goals).toEqual([
+      'Fix the login bug in src/auth/login.ts',
+      'Does it work on Windows?',
+    ])
+    expect(result.files).toEqual(['src/auth/login.ts', 'package.json'])
+    expect(result.decisions).toEqual(['We decided to switch to bcryptjs.'])
+    expect(result.openQuestions).toEqual(['Does it work on Windows?'])
+  })
+
+  it('merges with the previous summary', async () => {
+    const result = await new HeuristicSummarizer().summarize(
+      [{ role: 'user', content: 'Now update README.md' }],
+      summary
+    )
+    expect(result.goals).toEqual(['Add retry to the model router', 'Now update README.md'])
+    expect(result.files).toEqual(['packages/models/src/model-router.ts', 'README.md'])
+    expect(result.notes).toBe(summary.notes)
+  })
+})
+
+describe('LLMSummarizer', () => {
+  it('sends the transcript and previous summary to the model', async () => {
+    const chat = vi.fn().mockResolvedValue({ content: JSON.stringify(summary) })
+    const summarizer = new LLMSummarizer(chat, { localOnly: true })
+
+    const result = await summarizer.summarize([{ role: 'user', content: 'hello' }], summary)
+
+    expect(result).toEqual(summary)
+    const [messages, options] = chat.mock.calls[0]!
+    expect(messages[0].content).toContain('Previous summary')
+    expect(messages[0].content).toContain('[user] hello')
+    expect(options).toMatchObject({ localOnly: true, taskType: 'simple_qa', temperature: 0 })
+  })
+
+  it('uses the configured model', async () => {
+    const chat = vi.fn().mockResolvedValue({ content: '{}' })
+    await new LLMSummarizer(chat, { model: 'llama3' }).summarize([{ role: 'user', content: 'x' }])
+    expect(chat.mock.calls[0]![1]).toMatchObject({ model: 'llama3' })
+    expect(chat.mock.calls[0]![1]).not.toHaveProperty('taskType')
+  })
+})